@@ -11,6 +11,12 @@ import CustomersPage from "@/pages/Customers";
 import ProductsPage from "@/pages/Products";
 import ProductionPage from "@/pages/Production";
 import AgendaPage from "@/pages/Agenda";
+import GanttPage from "@/pages/Gantt";
+import IssuesPage from "@/pages/Issues";
+import TraceabilityPage from "@/pages/Traceability";
+import KioskPage from "@/pages/Kiosk";
+import PurchasingPage from "@/pages/Purchasing";
+import SuppliersPage from "@/pages/Suppliers";
 import SettingsPage from "@/pages/Settings";
 import { useAuth } from "@/hooks/useAuth";
 
@@ -75,6 +81,37 @@ function AppRoutes() {
         </ProtectedRoute>
       } />
       
+      <Route path="/gantt" element={
+        <ProtectedRoute module="production" action="view">
+          <DashboardLayout>
+            <GanttPage />
+          </DashboardLayout>
+        </ProtectedRoute>
+      } />
+      
+      <Route path="/issues" element={
+        <ProtectedRoute module="production" action="view">
+          <DashboardLayout>
+            <IssuesPage />
+          </DashboardLayout>
+        </ProtectedRoute>
+      } />
+      
+      <Route path="/traceability" element={
+        <ProtectedRoute module="production" action="view">
+          <DashboardLayout>
+            <TraceabilityPage />
+          </DashboardLayout>
+        </ProtectedRoute>
+      } />
+      
+      {/* Quiosque do chão de fábrica: tela cheia, sem menu lateral */}
+      <Route path="/kiosk" element={
+        <ProtectedRoute module="production" action="view">
+          <KioskPage />
+        </ProtectedRoute>
+      } />
+      
       <Route path="/agenda" element={
         <ProtectedRoute module="orders" action="approve">
           <DashboardLayout>
@@ -83,6 +120,22 @@ function AppRoutes() {
         </ProtectedRoute>
       } />
       
+      <Route path="/purchasing" element={
+        <ProtectedRoute module="products" action="view">
+          <DashboardLayout>
+            <PurchasingPage />
+          </DashboardLayout>
+        </ProtectedRoute>
+      } />
+      
+      <Route path="/suppliers" element={
+        <ProtectedRoute module="products" action="view">
+          <DashboardLayout>
+            <SuppliersPage />
+          </DashboardLayout>
+        </ProtectedRoute>
+      } />
+      
       <Route path="/settings" element={
         <ProtectedRoute module="settings" action="view">
           <DashboardLayout>
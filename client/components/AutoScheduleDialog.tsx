@@ -0,0 +1,219 @@
+import { useEffect, useMemo, useState } from "react";
+import { format, parseISO } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { Wand2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  applySchedule,
+  type ScheduleEntry,
+  type ScheduleProposal,
+  type SchedulableOrder,
+} from "@/lib/autoSchedule";
+import { dayLoad } from "@/lib/capacity";
+import type { ProductionConfig } from "@/types/production";
+
+interface AutoScheduleDialogProps {
+  proposals?: ScheduleProposal[];
+  orders: SchedulableOrder[];
+  config: ProductionConfig;
+  open: boolean;
+  applying?: boolean;
+  onApply: (entries: ScheduleEntry[]) => void;
+  onCancel: () => void;
+}
+
+const priorityLabels = {
+  low: "Baixa",
+  medium: "Média",
+  high: "Alta",
+  urgent: "Urgente",
+};
+
+const formatDate = (value?: string, pattern = "dd/MM/yyyy") => {
+  if (!value) return "";
+  try {
+    return format(parseISO(value), pattern, { locale: ptBR });
+  } catch {
+    return "";
+  }
+};
+
+const noProposals: ScheduleProposal[] = [];
+
+/** Prévia do agendamento automático, com ajuste de datas antes de aplicar. */
+export default function AutoScheduleDialog({
+  proposals = noProposals,
+  orders,
+  config,
+  open,
+  applying,
+  onApply,
+  onCancel,
+}: AutoScheduleDialogProps) {
+  const [rows, setRows] = useState<
+    Record<string, { include: boolean; date: string }>
+  >({});
+
+  useEffect(() => {
+    setRows(
+      Object.fromEntries(
+        proposals.map((proposal) => [
+          proposal.key,
+          { include: true, date: format(proposal.date, "yyyy-MM-dd") },
+        ]),
+      ),
+    );
+  }, [proposals]);
+
+  const entries: (ScheduleEntry & { key: string })[] = proposals
+    .filter((proposal) => rows[proposal.key]?.include)
+    .map((proposal) => ({
+      key: proposal.key,
+      orderId: proposal.orderId,
+      fragmentId: proposal.fragmentId,
+      date: parseISO(rows[proposal.key].date),
+    }))
+    .filter((entry) => !Number.isNaN(entry.date.getTime()));
+
+  // Sobrecarga recalculada com as datas ajustadas
+  const overbooked = useMemo(() => {
+    const planned = applySchedule(orders, entries);
+    const result = new Set<string>();
+    for (const entry of entries) {
+      if (dayLoad(planned, entry.date, config).overbooked) {
+        result.add(entry.key);
+      }
+    }
+    return result;
+  }, [orders, config, rows, proposals]);
+
+  const updateRow = (
+    key: string,
+    changes: Partial<{ include: boolean; date: string }>,
+  ) => setRows((prev) => ({ ...prev, [key]: { ...prev[key], ...changes } }));
+
+  return (
+    <Dialog open={open} onOpenChange={(value) => !value && onCancel()}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Wand2 className="h-5 w-5 text-primary" />
+            Agendamento automático
+          </DialogTitle>
+          <DialogDescription>
+            Datas sugeridas pela entrega e prioridade de cada pedido, dentro da
+            capacidade das linhas e dos dias de produção. Ajuste ou desmarque
+            itens antes de aplicar; a aprovação dos pedidos continua manual.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-8" />
+              <TableHead>Item</TableHead>
+              <TableHead>Prioridade</TableHead>
+              <TableHead className="text-right">Qtd.</TableHead>
+              <TableHead>Entrega</TableHead>
+              <TableHead>Atual</TableHead>
+              <TableHead>Proposta</TableHead>
+              <TableHead />
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {proposals.map((proposal) => {
+              const row = rows[proposal.key];
+              if (!row) return null;
+              const due = formatDate(proposal.deliveryDate, "yyyy-MM-dd");
+              const late = row.include && !!due && row.date > due;
+              return (
+                <TableRow
+                  key={proposal.key}
+                  className={row.include ? "" : "opacity-50"}
+                >
+                  <TableCell>
+                    <Checkbox
+                      checked={row.include}
+                      onCheckedChange={(checked) =>
+                        updateRow(proposal.key, { include: !!checked })
+                      }
+                    />
+                  </TableCell>
+                  <TableCell className="font-medium">
+                    {proposal.label}
+                  </TableCell>
+                  <TableCell>{priorityLabels[proposal.priority]}</TableCell>
+                  <TableCell className="text-right">
+                    {proposal.quantity}
+                  </TableCell>
+                  <TableCell>
+                    {formatDate(proposal.deliveryDate) || "—"}
+                  </TableCell>
+                  <TableCell className="text-muted-foreground">
+                    {formatDate(proposal.currentDate) || "—"}
+                  </TableCell>
+                  <TableCell>
+                    <Input
+                      type="date"
+                      className="h-8 w-36"
+                      value={row.date}
+                      disabled={!row.include}
+                      onChange={(e) =>
+                        updateRow(proposal.key, { date: e.target.value })
+                      }
+                    />
+                  </TableCell>
+                  <TableCell className="space-x-1 whitespace-nowrap">
+                    {late && (
+                      <Badge variant="outline" className="text-red-500">
+                        Após a entrega
+                      </Badge>
+                    )}
+                    {overbooked.has(proposal.key) && (
+                      <Badge variant="outline" className="text-orange-500">
+                        Sobrecarga
+                      </Badge>
+                    )}
+                  </TableCell>
+                </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel} disabled={applying}>
+            Cancelar
+          </Button>
+          <Button
+            onClick={() =>
+              onApply(entries.map(({ key: _key, ...entry }) => entry))
+            }
+            disabled={applying || entries.length === 0}
+          >
+            {applying ? "Agendando..." : `Agendar ${entries.length} itens`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
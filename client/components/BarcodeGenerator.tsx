@@ -6,6 +6,14 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Checkbox } from "@/components/ui/checkbox";
 import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/components/ui/use-toast";
+import LabelPreview from "@/components/LabelPreview";
+import { useLabelTemplates } from "@/hooks/useLabelTemplates";
+import { generateLabelPDF } from "@/lib/barcodePrint";
+import { renderLabelTemplate, withLabelBitmaps } from "@/lib/labelTemplates";
+import { sendPrintJob } from "@/lib/printBridge";
+import { labelTypeLabels, type LabelData } from "@/types/label";
+import { renderZpl } from "@shared/zpl";
 import { 
   QrCode, 
   Barcode, 
@@ -15,15 +23,19 @@ import {
   RefreshCw,
   Package,
   Calendar,
-  User
+  Layers,
+  User,
+  AlertTriangle
 } from "lucide-react";
 
 interface BarcodeItem {
   id: string;
   code: string;
-  type: 'product' | 'order' | 'material';
+  type: 'product' | 'order' | 'fragment' | 'material';
   name: string;
   description?: string;
+  /** Valores extras para os campos do modelo de etiqueta */
+  data?: LabelData;
   generated: boolean;
 }
 
@@ -32,18 +44,25 @@ interface BarcodeGeneratorProps {
   onGenerate?: (items: BarcodeItem[]) => void;
 }
 
+// Valor do seletor para usar o modelo padrão de cada tipo
+const DEFAULT_TEMPLATE = 'default';
+
 export default function BarcodeGenerator({ items = [], onGenerate }: BarcodeGeneratorProps) {
   const [selectedItems, setSelectedItems] = useState<string[]>([]);
-  const [barcodeType, setBarcodeType] = useState<'EAN13' | 'CODE128' | 'QR'>('CODE128');
-  const [includeText, setIncludeText] = useState(true);
-  const [labelSize, setLabelSize] = useState<'small' | 'medium' | 'large'>('medium');
-  const [generatedCodes, setGeneratedCodes] = useState<Record<string, string>>({});
+  const [templateId, setTemplateId] = useState(DEFAULT_TEMPLATE);
+  const [outputFormat, setOutputFormat] = useState<'pdf' | 'zpl'>('pdf');
+  // Pontos por mm da impressora Zebra: 8 = 203 dpi, 12 = 300 dpi
+  const [dpmm, setDpmm] = useState(8);
+  const [generatedIds, setGeneratedIds] = useState<string[]>([]);
+  const [exporting, setExporting] = useState(false);
+  const { templates, templateFor } = useLabelTemplates();
+  const { toast } = useToast();
 
   // Mock items if none provided
   const mockItems: BarcodeItem[] = items.length > 0 ? items : [
     {
       id: '1',
-      code: '7891234567890',
+      code: '7891234567895',
       type: 'product',
       name: 'Cama Luxo Premium - Queen',
       description: 'Modelo Standard, Branco, Courino',
@@ -55,6 +74,12 @@ export default function BarcodeGenerator({ items = [], onGenerate }: BarcodeGene
       type: 'order',
       name: 'Pedido #ORD-2024-001',
       description: 'João Silva - 1x Cama Queen Luxo',
+      data: {
+        order_number: 'ORD-2024-001',
+        customer_name: 'João Silva',
+        products: '1x Cama Queen Luxo',
+        delivery_date: '20/01/2025'
+      },
       generated: false
     },
     {
@@ -63,11 +88,12 @@ export default function BarcodeGenerator({ items = [], onGenerate }: BarcodeGene
       type: 'material',
       name: 'MDF 18mm',
       description: 'Madeireira São João - Lote 2024-12',
+      data: { supplier: 'Madeireira São João', lot: '2024-12' },
       generated: false
     },
     {
       id: '4',
-      code: '7891234567891',
+      code: '7891234567901',
       type: 'product',
       name: 'Cama Standard - Casal',
       description: 'Modelo Basic, Marrom, Tecido',
@@ -75,36 +101,22 @@ export default function BarcodeGenerator({ items = [], onGenerate }: BarcodeGene
     },
     {
       id: '5',
-      code: 'ORD-2024-002',
-      type: 'order',
-      name: 'Pedido #ORD-2024-002',
-      description: 'Móveis Premium Ltda - 3x Cama King',
+      code: 'ORD-2024-002-F1',
+      type: 'fragment',
+      name: 'Fragmento 1/3 - ORD-2024-002',
+      description: 'Móveis Premium Ltda - 1x Cama King',
+      data: {
+        order_number: 'ORD-2024-002',
+        fragment_number: 1,
+        fragment_total: 3,
+        product_name: 'Cama King',
+        quantity: 1,
+        customer_name: 'Móveis Premium Ltda'
+      },
       generated: false
     }
   ];
 
-  const generateBarcode = (code: string, type: string) => {
-    // Simulate barcode generation
-    return `||||| || ||| | || ||||| | ||| || |||||`;
-  };
-
-  const generateQRCode = (code: string) => {
-    // Simulate QR code generation with ASCII
-    return [
-      "█▀▀▀▀▀█ ▀▀█▀▀ █▀▀▀▀▀█",
-      "█ ███ █ █▀▀█▀ █ ███ █",
-      "█ ▀▀▀ █ ██ ██ █ ▀▀▀ █",
-      "▀▀▀▀▀▀▀ ▀ ▀ ▀ ▀▀▀▀▀▀▀",
-      "▀██▀▀▀▀██▀█▀▀█▀▀██▀▀▀",
-      "██▀▀██▀█▀▀▀██▀▀▀█▀▀██",
-      "▀▀▀▀▀▀▀ ▀ ██▀█▀▀▀█▀▀█",
-      "█▀▀▀▀▀█ ██▀█▀█▀██▀▀██",
-      "█ ███ █ █▀▀▀▀▀▀▀▀▀▀▀█",
-      "█ ▀▀▀ █ ██▀▀██▀▀██▀██",
-      "▀▀▀▀▀▀▀ ▀▀▀▀▀▀▀▀▀▀▀▀▀"
-    ].join('\n');
-  };
-
   const handleSelectItem = (itemId: string, checked: boolean) => {
     if (checked) {
       setSelectedItems(prev => [...prev, itemId]);
@@ -122,18 +134,7 @@ export default function BarcodeGenerator({ items = [], onGenerate }: BarcodeGene
   };
 
   const handleGenerate = () => {
-    const newGeneratedCodes: Record<string, string> = {};
-    selectedItems.forEach(itemId => {
-      const item = mockItems.find(i => i.id === itemId);
-      if (item) {
-        if (barcodeType === 'QR') {
-          newGeneratedCodes[itemId] = generateQRCode(item.code);
-        } else {
-          newGeneratedCodes[itemId] = generateBarcode(item.code, barcodeType);
-        }
-      }
-    });
-    setGeneratedCodes(newGeneratedCodes);
+    setGeneratedIds(selectedItems);
     
     if (onGenerate) {
       const updatedItems = mockItems.map(item => ({
@@ -144,6 +145,90 @@ export default function BarcodeGenerator({ items = [], onGenerate }: BarcodeGene
     }
   };
 
+  const generatedItems = mockItems.filter(item => generatedIds.includes(item.id));
+
+  // Um modelo escolhido só vale para itens do mesmo tipo; os demais usam o padrão
+  const labelLayout = (item: BarcodeItem) =>
+    renderLabelTemplate(
+      templateFor(item.type, templateId === DEFAULT_TEMPLATE ? undefined : templateId),
+      { code: item.code, name: item.name, description: item.description, ...item.data }
+    );
+
+  // Código inválido (ex.: EAN-13 com dígito verificador errado) não gera etiqueta
+  const labelPreview = (item: BarcodeItem) => {
+    try {
+      return <LabelPreview layout={labelLayout(item)} scale={4} />;
+    } catch (error) {
+      return (
+        <div className="flex items-center space-x-2 text-xs text-destructive">
+          <AlertTriangle className="h-4 w-4" />
+          <span>{(error as Error).message}</span>
+        </div>
+      );
+    }
+  };
+
+  const buildZpl = async () => {
+    const labels = await Promise.all(
+      generatedItems.map(async item => renderZpl(await withLabelBitmaps(labelLayout(item), dpmm), { dpmm }))
+    );
+    return labels.join('\n');
+  };
+
+  const handleDownload = async () => {
+    try {
+      setExporting(true);
+      if (outputFormat === 'pdf') {
+        const pdf = await generateLabelPDF(generatedItems.map(labelLayout));
+        pdf.save('etiquetas.pdf');
+        return;
+      }
+      const blob = new Blob([await buildZpl()], { type: 'text/plain' });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = 'etiquetas.zpl';
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('❌ Erro ao exportar etiquetas:', error);
+      toast({
+        title: 'Erro ao exportar etiquetas',
+        description: (error as Error).message || 'Ocorreu um erro inesperado',
+        variant: 'destructive'
+      });
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const handlePrint = async () => {
+    try {
+      setExporting(true);
+      if (outputFormat === 'pdf') {
+        const pdf = await generateLabelPDF(generatedItems.map(labelLayout));
+        pdf.autoPrint();
+        window.open(pdf.output('bloburl'), '_blank');
+        return;
+      }
+      // ZPL vai direto para a impressora pela ponte de impressão do servidor
+      await sendPrintJob(new TextEncoder().encode(await buildZpl()));
+      toast({
+        title: 'Etiquetas enviadas',
+        description: `${generatedItems.length} etiqueta(s) ZPL enviadas para a impressora`
+      });
+    } catch (error) {
+      console.error('❌ Erro ao imprimir etiquetas:', error);
+      toast({
+        title: 'Erro ao imprimir',
+        description: (error as Error).message || 'Ocorreu um erro inesperado',
+        variant: 'destructive'
+      });
+    } finally {
+      setExporting(false);
+    }
+  };
+
   const handleCopyCode = (code: string) => {
     navigator.clipboard.writeText(code);
   };
@@ -154,6 +239,8 @@ export default function BarcodeGenerator({ items = [], onGenerate }: BarcodeGene
         return <Package className="h-4 w-4" />;
       case 'order':
         return <Calendar className="h-4 w-4" />;
+      case 'fragment':
+        return <Layers className="h-4 w-4" />;
       case 'material':
         return <QrCode className="h-4 w-4" />;
       default:
@@ -167,6 +254,8 @@ export default function BarcodeGenerator({ items = [], onGenerate }: BarcodeGene
         return 'Produto';
       case 'order':
         return 'Pedido';
+      case 'fragment':
+        return 'Fragmento';
       case 'material':
         return 'Material';
       default:
@@ -180,6 +269,8 @@ export default function BarcodeGenerator({ items = [], onGenerate }: BarcodeGene
         return 'bg-blue-500/10 text-blue-500 border-blue-500/20';
       case 'order':
         return 'bg-green-500/10 text-green-500 border-green-500/20';
+      case 'fragment':
+        return 'bg-purple-500/10 text-purple-500 border-purple-500/20';
       case 'material':
         return 'bg-orange-500/10 text-orange-500 border-orange-500/20';
       default:
@@ -200,41 +291,47 @@ export default function BarcodeGenerator({ items = [], onGenerate }: BarcodeGene
         <CardContent>
           <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
             <div>
-              <Label htmlFor="barcode-type">Tipo de Código</Label>
-              <Select value={barcodeType} onValueChange={(value: any) => setBarcodeType(value)}>
-                <SelectTrigger>
+              <Label htmlFor="output-format">Formato de Saída</Label>
+              <Select value={outputFormat} onValueChange={(value: any) => setOutputFormat(value)}>
+                <SelectTrigger id="output-format">
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="CODE128">CODE 128</SelectItem>
-                  <SelectItem value="EAN13">EAN-13</SelectItem>
-                  <SelectItem value="QR">QR Code</SelectItem>
+                  <SelectItem value="pdf">PDF (tamanho da etiqueta)</SelectItem>
+                  <SelectItem value="zpl">ZPL (impressora Zebra)</SelectItem>
                 </SelectContent>
               </Select>
             </div>
             <div>
-              <Label htmlFor="label-size">Tamanho da Etiqueta</Label>
-              <Select value={labelSize} onValueChange={(value: any) => setLabelSize(value)}>
-                <SelectTrigger>
+              <Label htmlFor="label-template">Modelo de Etiqueta</Label>
+              <Select value={templateId} onValueChange={setTemplateId}>
+                <SelectTrigger id="label-template">
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="small">Pequena (30x20mm)</SelectItem>
-                  <SelectItem value="medium">Média (50x30mm)</SelectItem>
-                  <SelectItem value="large">Grande (70x40mm)</SelectItem>
+                  <SelectItem value={DEFAULT_TEMPLATE}>Padrão de cada tipo</SelectItem>
+                  {templates.map(template => (
+                    <SelectItem key={template.id} value={template.id}>
+                      {labelTypeLabels[template.labelType]} · {template.name}
+                    </SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
             </div>
-            <div className="flex items-center space-x-2 pt-6">
-              <Checkbox 
-                id="include-text" 
-                checked={includeText}
-                onCheckedChange={setIncludeText}
-              />
-              <Label htmlFor="include-text" className="text-sm">
-                Incluir texto legível
-              </Label>
-            </div>
+            {outputFormat === 'zpl' && (
+              <div>
+                <Label htmlFor="printer-dpi">Resolução da Impressora</Label>
+                <Select value={String(dpmm)} onValueChange={(value) => setDpmm(Number(value))}>
+                  <SelectTrigger id="printer-dpi">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="8">203 dpi</SelectItem>
+                    <SelectItem value="12">300 dpi</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
             <div className="pt-6">
               <Button 
                 onClick={handleGenerate}
@@ -301,7 +398,7 @@ export default function BarcodeGenerator({ items = [], onGenerate }: BarcodeGene
       </Card>
 
       {/* Generated Codes */}
-      {Object.keys(generatedCodes).length > 0 && (
+      {generatedItems.length > 0 && (
         <Card className="bg-card border-border">
           <CardHeader>
             <div className="flex items-center justify-between">
@@ -310,11 +407,11 @@ export default function BarcodeGenerator({ items = [], onGenerate }: BarcodeGene
                 <span>Códigos Gerados</span>
               </CardTitle>
               <div className="flex items-center space-x-2">
-                <Button variant="outline" size="sm">
+                <Button variant="outline" size="sm" onClick={handleDownload} disabled={exporting}>
                   <Download className="h-4 w-4 mr-2" />
-                  Baixar PDF
+                  {outputFormat === 'pdf' ? 'Baixar PDF' : 'Baixar ZPL'}
                 </Button>
-                <Button variant="outline" size="sm">
+                <Button variant="outline" size="sm" onClick={handlePrint} disabled={exporting}>
                   <Printer className="h-4 w-4 mr-2" />
                   Imprimir
                 </Button>
@@ -323,56 +420,36 @@ export default function BarcodeGenerator({ items = [], onGenerate }: BarcodeGene
           </CardHeader>
           <CardContent>
             <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
-              {Object.entries(generatedCodes).map(([itemId, code]) => {
-                const item = mockItems.find(i => i.id === itemId);
-                if (!item) return null;
-
-                return (
-                  <Card key={itemId} className="bg-muted/5 border-dashed">
-                    <CardContent className="p-4 text-center">
-                      <div className="mb-3">
-                        <Badge variant="outline" className={getTypeColor(item.type)}>
-                          {getTypeLabel(item.type)}
-                        </Badge>
-                      </div>
-                      
-                      <div className="bg-white p-4 rounded border mb-3">
-                        {barcodeType === 'QR' ? (
-                          <pre className="text-xs font-mono leading-none">
-                            {code}
-                          </pre>
-                        ) : (
-                          <div className="space-y-2">
-                            <div className="font-mono text-xs tracking-widest">
-                              {code}
-                            </div>
-                            {includeText && (
-                              <div className="text-xs font-mono">
-                                {item.code}
-                              </div>
-                            )}
-                          </div>
-                        )}
-                      </div>
-                      
-                      <div className="space-y-1">
-                        <div className="text-xs font-medium">{item.name}</div>
-                        <div className="text-xs text-muted-foreground">{item.code}</div>
-                      </div>
-                      
-                      <Button 
-                        variant="ghost" 
-                        size="sm" 
-                        className="mt-2"
-                        onClick={() => handleCopyCode(item.code)}
-                      >
-                        <Copy className="h-3 w-3 mr-1" />
-                        Copiar
-                      </Button>
-                    </CardContent>
-                  </Card>
-                );
-              })}
+              {generatedItems.map(item => (
+                <Card key={item.id} className="bg-muted/5 border-dashed">
+                  <CardContent className="p-4 text-center">
+                    <div className="mb-3">
+                      <Badge variant="outline" className={getTypeColor(item.type)}>
+                        {getTypeLabel(item.type)}
+                      </Badge>
+                    </div>
+                    
+                    <div className="mb-3 flex justify-center">
+                      {labelPreview(item)}
+                    </div>
+                    
+                    <div className="space-y-1">
+                      <div className="text-xs font-medium">{item.name}</div>
+                      <div className="text-xs text-muted-foreground">{item.code}</div>
+                    </div>
+                    
+                    <Button 
+                      variant="ghost" 
+                      size="sm" 
+                      className="mt-2"
+                      onClick={() => handleCopyCode(item.code)}
+                    >
+                      <Copy className="h-3 w-3 mr-1" />
+                      Copiar
+                    </Button>
+                  </CardContent>
+                </Card>
+              ))}
             </div>
           </CardContent>
         </Card>
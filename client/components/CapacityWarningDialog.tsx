@@ -0,0 +1,128 @@
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { AlertTriangle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import type { DayLoad } from "@/lib/capacity";
+import type { ProductionStage } from "@/types/production";
+
+interface CapacityWarningDialogProps {
+  date?: Date;
+  label?: string;
+  load?: DayLoad;
+  stages: ProductionStage[];
+  open: boolean;
+  confirming?: boolean;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+const formatHours = (minutes: number) =>
+  `${(minutes / 60).toLocaleString("pt-BR", { maximumFractionDigits: 1 })} h`;
+
+/** Aviso de sobrecarga antes de agendar no dia. */
+export default function CapacityWarningDialog({
+  date,
+  label,
+  load,
+  stages,
+  open,
+  confirming,
+  onConfirm,
+  onCancel,
+}: CapacityWarningDialogProps) {
+  const rows = load
+    ? [
+        {
+          key: "units",
+          name: "Unidades (meta das linhas)",
+          load: `${load.units} un.`,
+          capacity: `${load.unitCapacity} un.`,
+          over: load.units > load.unitCapacity,
+        },
+        ...load.stages.map((stage) => ({
+          key: stage.stageId,
+          name:
+            stages.find((s) => s.id === stage.stageId)?.name || stage.stageId,
+          load: formatHours(stage.minutes),
+          capacity: formatHours(stage.capacity),
+          over: stage.minutes > stage.capacity,
+        })),
+      ]
+    : [];
+
+  return (
+    <Dialog open={open} onOpenChange={(value) => !value && onCancel()}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <AlertTriangle className="h-5 w-5 text-orange-500" />
+            Capacidade excedida
+          </DialogTitle>
+          <DialogDescription>
+            Agendando {label} em{" "}
+            {date && format(date, "dd/MM/yyyy", { locale: ptBR })},{" "}
+            {Number.isFinite(load?.utilization)
+              ? `o dia fica com ${Math.round(load.utilization * 100)}% da capacidade da fábrica.`
+              : "não há linha de produção ativa para atender o dia."}
+          </DialogDescription>
+        </DialogHeader>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Recurso</TableHead>
+              <TableHead className="text-right">Carga</TableHead>
+              <TableHead className="text-right">Capacidade</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.map((row) => (
+              <TableRow key={row.key}>
+                <TableCell className="font-medium">{row.name}</TableCell>
+                <TableCell
+                  className={
+                    row.over
+                      ? "text-right font-medium text-red-500"
+                      : "text-right"
+                  }
+                >
+                  {row.load}
+                </TableCell>
+                <TableCell className="text-right">{row.capacity}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel} disabled={confirming}>
+            Escolher outro dia
+          </Button>
+          <Button
+            className="bg-orange-500 hover:bg-orange-600"
+            onClick={onConfirm}
+            disabled={confirming}
+          >
+            {confirming ? "Agendando..." : "Agendar mesmo assim"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -4,19 +4,25 @@ import { Button } from "@/components/ui/button";
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { Avatar, AvatarImage, AvatarFallback } from "@/components/ui/avatar";
 import {
+  AlertTriangle,
+  Fingerprint,
   Home,
   Users,
   Package,
   Calendar,
   CalendarCheck,
   BarChart3,
+  GanttChart,
   Settings,
+  ShoppingCart,
+  Truck,
   LogOut,
   Menu,
   X,
 } from "lucide-react";
 import { Link, useLocation } from "react-router-dom";
 import { useAuth } from "@/hooks/useAuth";
+import SyncStatusBadge from "@/components/SyncStatusBadge";
 
 interface DashboardLayoutProps {
   children: React.ReactNode;
@@ -28,7 +34,12 @@ const navigation = [
   { name: "Pedidos", href: "/orders", icon: Calendar },
   { name: "Agenda", href: "/agenda", icon: CalendarCheck, requiresPermission: { module: "orders", action: "approve" } },
   { name: "Produção", href: "/production", icon: BarChart3 },
+  { name: "Gantt", href: "/gantt", icon: GanttChart },
+  { name: "Problemas", href: "/issues", icon: AlertTriangle },
+  { name: "Rastreabilidade", href: "/traceability", icon: Fingerprint },
   { name: "Produtos", href: "/products", icon: Package },
+  { name: "Compras", href: "/purchasing", icon: ShoppingCart },
+  { name: "Fornecedores", href: "/suppliers", icon: Truck },
   { name: "Configurações", href: "/settings", icon: Settings },
 ];
 
@@ -62,7 +73,12 @@ export default function DashboardLayout({ children }: DashboardLayoutProps) {
       "/orders": "orders",
       "/agenda": "orders",
       "/production": "production",
+      "/gantt": "production",
+      "/issues": "production",
+      "/traceability": "production",
       "/products": "products",
+      "/purchasing": "products",
+      "/suppliers": "products",
       "/settings": "settings",
     };
     const module = moduleMap[item.href];
@@ -126,6 +142,7 @@ export default function DashboardLayout({ children }: DashboardLayoutProps) {
 
           {/* Footer com avatar */}
           <div className="border-t border-border/40 p-3 flex flex-col items-center gap-3">
+            <SyncStatusBadge />
             <Avatar className="h-9 w-9 border border-border/50">
               <AvatarImage src="/placeholder.svg" />
               <AvatarFallback className="bg-primary/20 text-primary text-sm font-semibold">
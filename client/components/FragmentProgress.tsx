@@ -2,27 +2,33 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Progress } from "@/components/ui/progress";
 import { Button } from "@/components/ui/button";
-import { 
-  Package, 
-  Calendar, 
-  DollarSign, 
-  CheckCircle,
+import {
+  Package,
+  Calendar,
+  DollarSign,
   Clock,
-  Play,
-  Pause,
-  Square
+  ListChecks
 } from "lucide-react";
-import { OrderFragment } from "@/types/order";
+import { Order } from "@/hooks/useFirebase";
+import { useProductionConfig } from "@/hooks/useProductionConfig";
+import { rollUpFragments } from "@/lib/fragmentStages";
 import { format } from "date-fns";
 import { ptBR } from "date-fns/locale";
 import { cn } from "@/lib/utils";
 
 interface FragmentProgressProps {
-  fragments: OrderFragment[];
-  onUpdateFragment?: (fragmentId: string, updates: Partial<OrderFragment>) => void;
+  order: Order;
+  /** Fragmento com as etapas abertas no acompanhamento */
+  selectedFragmentId?: string;
+  onSelectFragment?: (fragmentId: string) => void;
 }
 
-export default function FragmentProgress({ fragments, onUpdateFragment }: FragmentProgressProps) {
+export default function FragmentProgress({ order, selectedFragmentId, onSelectFragment }: FragmentProgressProps) {
+  const { stages } = useProductionConfig();
+
+  // Situação e progresso vêm das etapas de cada fragmento
+  const { fragments = [], production_progress } = rollUpFragments(order, stages);
+
   const formatCurrency = (value: number) => {
     return new Intl.NumberFormat('pt-BR', {
       style: 'currency',
@@ -30,34 +36,14 @@ export default function FragmentProgress({ fragments, onUpdateFragment }: Fragme
     }).format(value);
   };
 
-  const getTotalProgress = () => {
-    const totalValue = fragments.reduce((sum, f) => sum + f.value, 0);
-    const completedValue = fragments
-      .filter(f => f.status === 'completed')
-      .reduce((sum, f) => sum + f.value, 0);
-    return totalValue > 0 ? (completedValue / totalValue) * 100 : 0;
-  };
-
   const getReleasedValue = () => {
     return fragments
       .filter(f => f.status === 'completed')
-      .reduce((sum, f) => sum + f.value, 0);
+      .reduce((sum, f) => sum + (f.value || 0), 0);
   };
 
-  const handleStartFragment = (fragmentId: string) => {
-    onUpdateFragment?.(fragmentId, {
-      status: 'in_production',
-      startedAt: new Date()
-    });
-  };
-
-  const handleCompleteFragment = (fragmentId: string) => {
-    onUpdateFragment?.(fragmentId, {
-      status: 'completed',
-      progress: 100,
-      completedAt: new Date()
-    });
-  };
+  const stageName = (stageId: string) =>
+    stages.find((s) => s.id === stageId)?.name || stageId;
 
   const statusColors = {
     pending: 'bg-orange-500/10 text-orange-500 border-orange-500/20',
@@ -71,6 +57,12 @@ export default function FragmentProgress({ fragments, onUpdateFragment }: Fragme
     completed: 'Concluído'
   };
 
+  const stageColors: Record<string, string> = {
+    pending: 'bg-gray-500/10 text-gray-500 border-gray-500/20',
+    in_progress: 'bg-blue-500/10 text-blue-500 border-blue-500/20',
+    completed: 'bg-green-500/10 text-green-600 border-green-500/20'
+  };
+
   return (
     <div className="space-y-6">
       {/* Summary */}
@@ -89,7 +81,7 @@ export default function FragmentProgress({ fragments, onUpdateFragment }: Fragme
             </div>
             <div className="text-center">
               <p className="text-sm text-muted-foreground">Progresso Geral</p>
-              <p className="text-2xl font-bold text-foreground">{Math.round(getTotalProgress())}%</p>
+              <p className="text-2xl font-bold text-foreground">{production_progress}%</p>
             </div>
             <div className="text-center">
               <p className="text-sm text-muted-foreground">Valor Liberado</p>
@@ -102,13 +94,13 @@ export default function FragmentProgress({ fragments, onUpdateFragment }: Fragme
               </p>
             </div>
           </div>
-          
+
           <div className="mt-4">
             <div className="flex justify-between text-sm mb-2">
               <span>Progresso Total</span>
-              <span>{Math.round(getTotalProgress())}%</span>
+              <span>{production_progress}%</span>
             </div>
-            <Progress value={getTotalProgress()} className="h-3" />
+            <Progress value={production_progress} className="h-3" />
           </div>
         </CardContent>
       </Card>
@@ -116,16 +108,23 @@ export default function FragmentProgress({ fragments, onUpdateFragment }: Fragme
       {/* Fragments List */}
       <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
         {fragments.map((fragment) => (
-          <Card key={fragment.id} className="bg-card border-border">
+          <Card
+            key={fragment.id}
+            className={cn(
+              "bg-card border-border",
+              fragment.id === selectedFragmentId && "ring-2 ring-biobox-green"
+            )}
+          >
             <CardContent className="p-4">
               <div className="flex items-start justify-between mb-3">
                 <div>
-                  <h4 className="font-medium">Fragmento {fragment.fragmentNumber}</h4>
+                  <h4 className="font-medium">Fragmento {fragment.fragment_number}</h4>
                   <p className="text-sm text-muted-foreground">
                     {fragment.quantity} unidades
+                    {fragment.product_name && ` · ${fragment.product_name}`}
                   </p>
                 </div>
-                <Badge 
+                <Badge
                   variant="outline"
                   className={cn("text-xs", statusColors[fragment.status])}
                 >
@@ -134,23 +133,43 @@ export default function FragmentProgress({ fragments, onUpdateFragment }: Fragme
               </div>
 
               <div className="space-y-3">
-                <div className="flex items-center text-sm">
-                  <Calendar className="h-4 w-4 mr-2 text-muted-foreground" />
-                  <span>{format(fragment.scheduledDate, "dd/MM/yyyy", { locale: ptBR })}</span>
-                </div>
+                {fragment.scheduled_date && (
+                  <div className="flex items-center text-sm">
+                    <Calendar className="h-4 w-4 mr-2 text-muted-foreground" />
+                    <span>{format(new Date(fragment.scheduled_date), "dd/MM/yyyy", { locale: ptBR })}</span>
+                  </div>
+                )}
 
                 <div className="flex items-center text-sm">
                   <DollarSign className="h-4 w-4 mr-2 text-muted-foreground" />
-                  <span>{formatCurrency(fragment.value)}</span>
+                  <span>{formatCurrency(fragment.value || 0)}</span>
                 </div>
 
-                {fragment.assignedOperator && (
+                {fragment.assigned_operator && (
                   <div className="flex items-center text-sm">
                     <Clock className="h-4 w-4 mr-2 text-muted-foreground" />
-                    <span>{fragment.assignedOperator}</span>
+                    <span>{fragment.assigned_operator}</span>
                   </div>
                 )}
 
+                {/* Etapas do fragmento */}
+                <div className="flex flex-wrap gap-1">
+                  {fragment.production_stages.map((entry) => (
+                    <Badge
+                      key={entry.stage}
+                      variant="outline"
+                      className={cn("text-xs", stageColors[entry.status])}
+                    >
+                      {stageName(entry.stage)}
+                      {entry.skipped
+                        ? ' (dispensada)'
+                        : entry.paused_at
+                          ? ' (pausada)'
+                          : ''}
+                    </Badge>
+                  ))}
+                </div>
+
                 <div className="space-y-1">
                   <div className="flex justify-between text-xs">
                     <span>Progresso</span>
@@ -159,31 +178,21 @@ export default function FragmentProgress({ fragments, onUpdateFragment }: Fragme
                   <Progress value={fragment.progress} className="h-2" />
                 </div>
 
-                {fragment.status === 'pending' && (
-                  <Button
-                    size="sm"
-                    className="w-full bg-biobox-green hover:bg-biobox-green-dark"
-                    onClick={() => handleStartFragment(fragment.id)}
-                  >
-                    <Play className="h-4 w-4 mr-2" />
-                    Iniciar Produção
-                  </Button>
-                )}
-
-                {fragment.status === 'in_production' && (
+                {onSelectFragment && (
                   <Button
                     size="sm"
+                    variant={fragment.id === selectedFragmentId ? 'default' : 'outline'}
                     className="w-full"
-                    onClick={() => handleCompleteFragment(fragment.id)}
+                    onClick={() => onSelectFragment(fragment.id)}
                   >
-                    <CheckCircle className="h-4 w-4 mr-2" />
-                    Marcar como Concluído
+                    <ListChecks className="h-4 w-4 mr-2" />
+                    Acompanhar Etapas
                   </Button>
                 )}
 
-                {fragment.status === 'completed' && fragment.completedAt && (
+                {fragment.status === 'completed' && fragment.completed_at && (
                   <div className="text-xs text-muted-foreground text-center">
-                    Concluído em {format(fragment.completedAt, "dd/MM/yyyy HH:mm", { locale: ptBR })}
+                    Concluído em {format(new Date(fragment.completed_at), "dd/MM/yyyy HH:mm", { locale: ptBR })}
                   </div>
                 )}
               </div>
@@ -193,4 +202,4 @@ export default function FragmentProgress({ fragments, onUpdateFragment }: Fragme
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
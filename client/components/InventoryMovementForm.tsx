@@ -0,0 +1,213 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import type { MovementInput } from "@/lib/inventory";
+import {
+  InventoryMovementType,
+  RawMaterial,
+  movementTypeLabels,
+  unitLabels,
+} from "@/types/inventory";
+
+interface InventoryMovementFormProps {
+  material: RawMaterial | null;
+  onSubmit: (material: RawMaterial, input: MovementInput) => Promise<void>;
+  onClose: () => void;
+}
+
+const reasonPlaceholders: Record<InventoryMovementType, string> = {
+  in: "Ex.: compra, devolução",
+  out: "Ex.: consumo na produção, perda",
+  adjustment: "Ex.: inventário físico",
+  transfer: "Ex.: reorganização do estoque",
+};
+
+/** Registro de entrada, saída, ajuste ou transferência de um material. */
+export default function InventoryMovementForm({
+  material,
+  onSubmit,
+  onClose,
+}: InventoryMovementFormProps) {
+  const [type, setType] = useState<InventoryMovementType>("in");
+  const [quantity, setQuantity] = useState("");
+  const [reason, setReason] = useState("");
+  const [reference, setReference] = useState("");
+  const [toLocation, setToLocation] = useState("");
+  const [lot, setLot] = useState("");
+  const [notes, setNotes] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  const reset = () => {
+    setType("in");
+    setQuantity("");
+    setReason("");
+    setReference("");
+    setToLocation("");
+    setLot("");
+    setNotes("");
+  };
+
+  const handleClose = () => {
+    reset();
+    onClose();
+  };
+
+  const handleSubmit = async () => {
+    if (!material) return;
+    setSaving(true);
+    try {
+      await onSubmit(material, {
+        type,
+        quantity: parseFloat(quantity.replace(",", ".")),
+        reason,
+        reference,
+        notes,
+        toLocation: type === "transfer" ? toLocation : undefined,
+        lot: type === "in" || type === "out" ? lot : undefined,
+      });
+      reset();
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!material} onOpenChange={(open) => !open && handleClose()}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Movimentar Estoque</DialogTitle>
+          <DialogDescription>
+            {material &&
+              `${material.name}: saldo atual ${material.quantity} ${unitLabels[material.unit]} em ${material.location || "local não informado"}`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label>Tipo</Label>
+              <Select
+                value={type}
+                onValueChange={(value) =>
+                  setType(value as InventoryMovementType)
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(movementTypeLabels).map(([key, label]) => (
+                    <SelectItem key={key} value={key}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="movement-quantity">Quantidade</Label>
+              <Input
+                id="movement-quantity"
+                type="number"
+                step="any"
+                min={type === "adjustment" ? undefined : "0"}
+                value={quantity}
+                onChange={(e) => setQuantity(e.target.value)}
+                placeholder={type === "adjustment" ? "+5 ou -3" : "0"}
+              />
+            </div>
+          </div>
+
+          {(type === "in" || type === "out") && (
+            <div>
+              <Label htmlFor="movement-lot">Lote</Label>
+              <Input
+                id="movement-lot"
+                value={lot}
+                onChange={(e) => setLot(e.target.value)}
+                placeholder={
+                  type === "out"
+                    ? `Vigente: ${material?.currentLot || "não informado"}`
+                    : "Lote do fornecedor"
+                }
+              />
+            </div>
+          )}
+
+          {type === "transfer" && (
+            <div>
+              <Label htmlFor="movement-location">Novo Local</Label>
+              <Input
+                id="movement-location"
+                value={toLocation}
+                onChange={(e) => setToLocation(e.target.value)}
+                placeholder="Ex: Estoque B - Prateleira 2"
+              />
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label htmlFor="movement-reason">Motivo</Label>
+              <Input
+                id="movement-reason"
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                placeholder={reasonPlaceholders[type]}
+              />
+            </div>
+            <div>
+              <Label htmlFor="movement-reference">Referência</Label>
+              <Input
+                id="movement-reference"
+                value={reference}
+                onChange={(e) => setReference(e.target.value)}
+                placeholder="Nº do pedido, nota fiscal..."
+              />
+            </div>
+          </div>
+
+          <div>
+            <Label htmlFor="movement-notes">Observações</Label>
+            <Textarea
+              id="movement-notes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              rows={2}
+            />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={handleClose}>
+            Cancelar
+          </Button>
+          <Button
+            className="bg-biobox-green hover:bg-biobox-green-dark"
+            onClick={handleSubmit}
+            disabled={saving || !quantity || !reason.trim()}
+          >
+            {saving ? "Registrando..." : "Registrar Movimento"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,128 @@
+import { useEffect, useState } from "react";
+import type { LabelLayout } from "@shared/labelLayout";
+import { labelBarcodeImage } from "@/lib/barcodePrint";
+import { cn } from "@/lib/utils";
+
+interface LabelPreviewProps {
+  layout: LabelLayout;
+  /** Pixels por mm na tela */
+  scale?: number;
+  className?: string;
+}
+
+const TEXT_ANCHOR = { left: "start", center: "middle", right: "end" } as const;
+
+/** Pré-visualização da etiqueta desenhada a partir do mesmo layout das saídas PDF e ZPL. */
+export default function LabelPreview({
+  layout,
+  scale = 5,
+  className,
+}: LabelPreviewProps) {
+  const [images, setImages] = useState<Record<number, string>>({});
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all(
+      layout.elements.map((element, index) =>
+        element.type === "barcode"
+          ? labelBarcodeImage(element).then((src) => [index, src] as const)
+          : null,
+      ),
+    )
+      .then((entries) => {
+        if (cancelled) return;
+        setImages(Object.fromEntries(entries.filter(Boolean)));
+        setError(null);
+      })
+      .catch((err) => {
+        if (!cancelled) setError((err as Error).message || String(err));
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [layout]);
+
+  return (
+    <div className={cn("inline-block", className)}>
+      <svg
+        width={layout.widthMm * scale}
+        height={layout.heightMm * scale}
+        viewBox={`0 0 ${layout.widthMm} ${layout.heightMm}`}
+        className="bg-white rounded border border-gray-300 shadow-sm"
+      >
+        {layout.elements.map((element, index) => {
+          switch (element.type) {
+            case "text": {
+              const align = element.width ? (element.align ?? "left") : "left";
+              const x =
+                align === "center"
+                  ? element.x + element.width / 2
+                  : align === "right"
+                    ? element.x + element.width
+                    : element.x;
+              return (
+                <text
+                  key={index}
+                  x={x}
+                  y={element.y + element.fontSize * 0.85}
+                  fontSize={element.fontSize}
+                  fontFamily="Arial, Helvetica, sans-serif"
+                  fontWeight={element.bold ? "bold" : "normal"}
+                  textAnchor={TEXT_ANCHOR[align]}
+                  fill="#000"
+                >
+                  {element.value}
+                </text>
+              );
+            }
+            case "barcode":
+              return images[index] ? (
+                <image
+                  key={index}
+                  href={images[index]}
+                  x={element.x}
+                  y={element.y}
+                  width={element.width}
+                  height={element.height}
+                  preserveAspectRatio={
+                    element.symbology === "QR" ? "xMidYMid meet" : "none"
+                  }
+                />
+              ) : null;
+            case "image":
+              return (
+                <image
+                  key={index}
+                  href={element.src}
+                  x={element.x}
+                  y={element.y}
+                  width={element.width}
+                  height={element.height}
+                  preserveAspectRatio="xMinYMid meet"
+                />
+              );
+            case "box":
+              return (
+                <rect
+                  key={index}
+                  x={element.x}
+                  y={element.y}
+                  width={element.width}
+                  height={element.height}
+                  fill="none"
+                  stroke="#000"
+                  strokeWidth={element.thickness ?? 0.25}
+                />
+              );
+          }
+        })}
+      </svg>
+      {error && (
+        <p className="text-xs text-red-500 mt-1">
+          Erro ao gerar código: {error}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,645 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/components/ui/use-toast";
+import LabelPreview from "@/components/LabelPreview";
+import { useAuth } from "@/hooks/useAuth";
+import { useLabelTemplates } from "@/hooks/useLabelTemplates";
+import { newLabelField, renderLabelTemplate } from "@/lib/labelTemplates";
+import { cn } from "@/lib/utils";
+import {
+  labelDataFields,
+  labelFieldKindLabels,
+  labelSampleData,
+  labelTypeLabels,
+  symbologyLabels,
+  type LabelConfig,
+  type LabelTemplate,
+  type LabelTemplateField,
+  type LabelType,
+} from "@/types/label";
+import type { LabelSymbology } from "@shared/labelLayout";
+import {
+  Copy,
+  LayoutTemplate,
+  Plus,
+  Save,
+  Star,
+  Trash2,
+  Type,
+  Barcode,
+  Image as ImageIcon,
+  Square,
+} from "lucide-react";
+
+const FIELD_ICONS: Record<LabelTemplateField["kind"], typeof Type> = {
+  text: Type,
+  barcode: Barcode,
+  image: ImageIcon,
+  box: Square,
+};
+
+// Passo do arraste e dos campos numéricos, em mm
+const SNAP = 0.5;
+const snap = (value: number) => Math.round(value / SNAP) * SNAP;
+
+const newTemplateId = () => `tpl-${Date.now().toString(36)}`;
+
+interface DragState {
+  fieldId: string;
+  startX: number;
+  startY: number;
+  originX: number;
+  originY: number;
+}
+
+/** Editor visual dos modelos de etiqueta, salvos por tipo de etiqueta. */
+export default function LabelTemplateDesigner() {
+  const { user } = useAuth();
+  const { config, saveConfig } = useLabelTemplates();
+  const { toast } = useToast();
+  const isAdmin = user?.role === "admin";
+
+  const [draft, setDraft] = useState<LabelConfig>(config);
+  const [dirty, setDirty] = useState(false);
+  const [saving, setSaving] = useState(false);
+  const [templateId, setTemplateId] = useState<string>("");
+  const [fieldId, setFieldId] = useState<string | null>(null);
+  const drag = useRef<DragState | null>(null);
+
+  // Recarrega do servidor enquanto não houver alterações pendentes
+  useEffect(() => {
+    if (!dirty) setDraft(config);
+  }, [config, dirty]);
+
+  const template =
+    draft.templates.find((t) => t.id === templateId) || draft.templates[0];
+  const field = template?.fields.find((f) => f.id === fieldId);
+  const isDefault =
+    template && draft.defaults[template.labelType] === template.id;
+
+  const layout = useMemo(
+    () =>
+      template
+        ? renderLabelTemplate(template, labelSampleData[template.labelType])
+        : null,
+    [template],
+  );
+
+  // Até ~480px de largura na tela
+  const scale = template ? Math.min(10, 480 / template.widthMm) : 1;
+
+  const change = (updater: (config: LabelConfig) => LabelConfig) => {
+    setDraft((prev) => updater(prev));
+    setDirty(true);
+  };
+
+  const updateTemplate = (patch: Partial<LabelTemplate>) =>
+    change((prev) => ({
+      ...prev,
+      templates: prev.templates.map((t) =>
+        t.id === template.id ? { ...t, ...patch } : t,
+      ),
+    }));
+
+  const updateField = (id: string, patch: Partial<LabelTemplateField>) =>
+    updateTemplate({
+      fields: template.fields.map((f) =>
+        f.id === id ? { ...f, ...patch } : f,
+      ),
+    });
+
+  const addTemplate = (source?: LabelTemplate) => {
+    const labelType = source?.labelType || template?.labelType || "product";
+    const created: LabelTemplate = source
+      ? { ...source, id: newTemplateId(), name: `${source.name} (cópia)` }
+      : {
+          id: newTemplateId(),
+          name: `Novo modelo (${labelTypeLabels[labelType]})`,
+          labelType,
+          widthMm: 50,
+          heightMm: 30,
+          fields: [],
+        };
+    change((prev) => ({ ...prev, templates: [...prev.templates, created] }));
+    setTemplateId(created.id);
+    setFieldId(null);
+  };
+
+  const removeTemplate = () => {
+    change((prev) => {
+      const defaults = { ...prev.defaults };
+      if (defaults[template.labelType] === template.id) {
+        delete defaults[template.labelType];
+      }
+      return {
+        templates: prev.templates.filter((t) => t.id !== template.id),
+        defaults,
+      };
+    });
+    setTemplateId("");
+    setFieldId(null);
+  };
+
+  const addField = (kind: LabelTemplateField["kind"]) => {
+    const created = newLabelField(kind, template);
+    updateTemplate({ fields: [...template.fields, created] });
+    setFieldId(created.id);
+  };
+
+  const handleSave = async () => {
+    try {
+      setSaving(true);
+      await saveConfig(draft);
+      setDirty(false);
+      toast({
+        title: "Modelos salvos",
+        description: `${draft.templates.length} modelo(s) de etiqueta`,
+      });
+    } catch (error) {
+      console.error("❌ Erro ao salvar modelos de etiqueta:", error);
+      toast({
+        title: "Erro ao salvar modelos",
+        description: (error as Error).message || "Ocorreu um erro inesperado",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handlePointerDown = (
+    event: React.PointerEvent,
+    target: LabelTemplateField,
+  ) => {
+    setFieldId(target.id);
+    if (!isAdmin) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    drag.current = {
+      fieldId: target.id,
+      startX: event.clientX,
+      startY: event.clientY,
+      originX: target.x,
+      originY: target.y,
+    };
+  };
+
+  const handlePointerMove = (event: React.PointerEvent) => {
+    const current = drag.current;
+    if (!current) return;
+    const moved = template.fields.find((f) => f.id === current.fieldId);
+    if (!moved) return;
+    const x = snap(current.originX + (event.clientX - current.startX) / scale);
+    const y = snap(current.originY + (event.clientY - current.startY) / scale);
+    updateField(moved.id, {
+      x: Math.min(Math.max(0, x), template.widthMm - moved.width),
+      y: Math.min(Math.max(0, y), template.heightMm - moved.height),
+    });
+  };
+
+  const handlePointerUp = () => {
+    drag.current = null;
+  };
+
+  const numberInput = (
+    label: string,
+    value: number,
+    onChange: (value: number) => void,
+    min = 0,
+  ) => (
+    <div>
+      <Label className="text-xs">{label}</Label>
+      <Input
+        type="number"
+        step={SNAP}
+        min={min}
+        value={value}
+        disabled={!isAdmin}
+        onChange={(e) => onChange(Math.max(min, Number(e.target.value) || 0))}
+      />
+    </div>
+  );
+
+  if (!template) return null;
+
+  return (
+    <Card className="bg-card border-border">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center space-x-2">
+            <LayoutTemplate className="h-5 w-5" />
+            <span>Modelos de Etiqueta</span>
+          </CardTitle>
+          {isAdmin && (
+            <Button
+              onClick={handleSave}
+              disabled={!dirty || saving}
+              className="bg-biobox-green hover:bg-biobox-green-dark"
+            >
+              <Save className="h-4 w-4 mr-2" />
+              Salvar Modelos
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {!isAdmin && (
+          <p className="text-sm text-muted-foreground">
+            Somente administradores podem alterar os modelos de etiqueta.
+          </p>
+        )}
+
+        {/* Modelo */}
+        <div className="flex flex-wrap items-end gap-3">
+          <div className="min-w-[260px]">
+            <Label>Modelo</Label>
+            <Select
+              value={template.id}
+              onValueChange={(value) => {
+                setTemplateId(value);
+                setFieldId(null);
+              }}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {draft.templates.map((t) => (
+                  <SelectItem key={t.id} value={t.id}>
+                    {labelTypeLabels[t.labelType]} · {t.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {isDefault ? (
+            <Badge className="bg-biobox-green/10 text-biobox-green border-biobox-green/20 h-9">
+              <Star className="h-3 w-3 mr-1" />
+              Padrão para {labelTypeLabels[template.labelType]}
+            </Badge>
+          ) : (
+            isAdmin && (
+              <Button
+                variant="outline"
+                onClick={() =>
+                  change((prev) => ({
+                    ...prev,
+                    defaults: {
+                      ...prev.defaults,
+                      [template.labelType]: template.id,
+                    },
+                  }))
+                }
+              >
+                <Star className="h-4 w-4 mr-2" />
+                Usar como padrão
+              </Button>
+            )
+          )}
+          {isAdmin && (
+            <>
+              <Button variant="outline" onClick={() => addTemplate()}>
+                <Plus className="h-4 w-4 mr-2" />
+                Novo
+              </Button>
+              <Button variant="outline" onClick={() => addTemplate(template)}>
+                <Copy className="h-4 w-4 mr-2" />
+                Duplicar
+              </Button>
+              <Button
+                variant="outline"
+                onClick={removeTemplate}
+                disabled={draft.templates.length === 1}
+              >
+                <Trash2 className="h-4 w-4 mr-2" />
+                Excluir
+              </Button>
+            </>
+          )}
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+          <div>
+            <Label className="text-xs">Nome</Label>
+            <Input
+              value={template.name}
+              disabled={!isAdmin}
+              onChange={(e) => updateTemplate({ name: e.target.value })}
+            />
+          </div>
+          <div>
+            <Label className="text-xs">Tipo de Etiqueta</Label>
+            <Select
+              value={template.labelType}
+              disabled={!isAdmin}
+              onValueChange={(value: LabelType) =>
+                change((prev) => {
+                  const defaults = { ...prev.defaults };
+                  if (defaults[template.labelType] === template.id) {
+                    delete defaults[template.labelType];
+                  }
+                  return {
+                    defaults,
+                    templates: prev.templates.map((t) =>
+                      t.id === template.id ? { ...t, labelType: value } : t,
+                    ),
+                  };
+                })
+              }
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(labelTypeLabels) as LabelType[]).map((type) => (
+                  <SelectItem key={type} value={type}>
+                    {labelTypeLabels[type]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {numberInput(
+            "Largura (mm)",
+            template.widthMm,
+            (widthMm) => updateTemplate({ widthMm }),
+            10,
+          )}
+          {numberInput(
+            "Altura (mm)",
+            template.heightMm,
+            (heightMm) => updateTemplate({ heightMm }),
+            10,
+          )}
+        </div>
+
+        <div className="grid gap-6 lg:grid-cols-3">
+          {/* Área de desenho */}
+          <div className="lg:col-span-2 space-y-3">
+            <div className="relative inline-block select-none">
+              {layout && <LabelPreview layout={layout} scale={scale} />}
+              <svg
+                className="absolute left-0 top-0"
+                width={template.widthMm * scale}
+                height={template.heightMm * scale}
+                viewBox={`0 0 ${template.widthMm} ${template.heightMm}`}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+                onPointerLeave={handlePointerUp}
+              >
+                {template.fields.map((f) => (
+                  <rect
+                    key={f.id}
+                    x={f.x}
+                    y={f.y}
+                    width={Math.max(f.width, 0.5)}
+                    height={Math.max(f.height, 0.5)}
+                    fill="transparent"
+                    stroke={f.id === fieldId ? "#16a34a" : "#94a3b8"}
+                    strokeWidth={f.id === fieldId ? 0.35 : 0.15}
+                    strokeDasharray={f.id === fieldId ? undefined : "0.6 0.4"}
+                    className={cn(isAdmin ? "cursor-move" : "cursor-pointer")}
+                    onPointerDown={(event) => handlePointerDown(event, f)}
+                  />
+                ))}
+              </svg>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Pré-visualização com dados de exemplo de{" "}
+              {labelTypeLabels[template.labelType].toLowerCase()}. Arraste os
+              campos para posicioná-los.
+            </p>
+            {isAdmin && (
+              <div className="flex flex-wrap gap-2">
+                {(
+                  Object.keys(
+                    labelFieldKindLabels,
+                  ) as LabelTemplateField["kind"][]
+                ).map((kind) => {
+                  const Icon = FIELD_ICONS[kind];
+                  return (
+                    <Button
+                      key={kind}
+                      size="sm"
+                      variant="outline"
+                      onClick={() => addField(kind)}
+                    >
+                      <Icon className="h-4 w-4 mr-2" />
+                      {labelFieldKindLabels[kind]}
+                    </Button>
+                  );
+                })}
+              </div>
+            )}
+            <div className="flex flex-wrap gap-2">
+              {template.fields.map((f) => {
+                const Icon = FIELD_ICONS[f.kind];
+                return (
+                  <Badge
+                    key={f.id}
+                    variant="outline"
+                    className={cn(
+                      "cursor-pointer",
+                      f.id === fieldId &&
+                        "border-biobox-green text-biobox-green",
+                    )}
+                    onClick={() => setFieldId(f.id)}
+                  >
+                    <Icon className="h-3 w-3 mr-1" />
+                    {f.content || labelFieldKindLabels[f.kind]}
+                  </Badge>
+                );
+              })}
+            </div>
+          </div>
+
+          {/* Propriedades do campo */}
+          <div className="space-y-3">
+            {field ? (
+              <>
+                <div className="flex items-center justify-between">
+                  <h4 className="font-medium">
+                    {labelFieldKindLabels[field.kind]}
+                  </h4>
+                  {isAdmin && (
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => {
+                        updateTemplate({
+                          fields: template.fields.filter(
+                            (f) => f.id !== field.id,
+                          ),
+                        });
+                        setFieldId(null);
+                      }}
+                    >
+                      <Trash2 className="h-4 w-4 mr-1" />
+                      Remover
+                    </Button>
+                  )}
+                </div>
+
+                {field.kind !== "box" && (
+                  <div className="space-y-2">
+                    <Label className="text-xs">
+                      {field.kind === "image" ? "URL da imagem" : "Conteúdo"}
+                    </Label>
+                    <Input
+                      value={field.content}
+                      disabled={!isAdmin}
+                      onChange={(e) =>
+                        updateField(field.id, { content: e.target.value })
+                      }
+                    />
+                    {field.kind !== "image" && isAdmin && (
+                      <Select
+                        value=""
+                        onValueChange={(key) =>
+                          updateField(field.id, {
+                            content: `${field.content}{${key}}`,
+                          })
+                        }
+                      >
+                        <SelectTrigger>
+                          <SelectValue placeholder="Inserir campo de dados" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {[
+                            ...labelDataFields[template.labelType],
+                            { key: "date", label: "Data da impressão" },
+                          ].map((data) => (
+                            <SelectItem key={data.key} value={data.key}>
+                              {data.label} {`{${data.key}}`}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    )}
+                  </div>
+                )}
+
+                <div className="grid grid-cols-2 gap-2">
+                  {numberInput("X (mm)", field.x, (x) =>
+                    updateField(field.id, { x }),
+                  )}
+                  {numberInput("Y (mm)", field.y, (y) =>
+                    updateField(field.id, { y }),
+                  )}
+                  {numberInput("Largura (mm)", field.width, (width) =>
+                    updateField(field.id, { width }),
+                  )}
+                  {numberInput("Altura (mm)", field.height, (height) =>
+                    updateField(field.id, { height }),
+                  )}
+                </div>
+
+                {field.kind === "text" && (
+                  <>
+                    <div className="grid grid-cols-2 gap-2">
+                      {numberInput(
+                        "Fonte (mm)",
+                        field.fontSize || field.height,
+                        (fontSize) => updateField(field.id, { fontSize }),
+                        1,
+                      )}
+                      <div>
+                        <Label className="text-xs">Alinhamento</Label>
+                        <Select
+                          value={field.align || "left"}
+                          disabled={!isAdmin}
+                          onValueChange={(align: LabelTemplateField["align"]) =>
+                            updateField(field.id, { align })
+                          }
+                        >
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="left">Esquerda</SelectItem>
+                            <SelectItem value="center">Centro</SelectItem>
+                            <SelectItem value="right">Direita</SelectItem>
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <Switch
+                        checked={!!field.bold}
+                        disabled={!isAdmin}
+                        onCheckedChange={(bold) =>
+                          updateField(field.id, { bold })
+                        }
+                      />
+                      <Label className="text-sm">Negrito</Label>
+                    </div>
+                  </>
+                )}
+
+                {field.kind === "barcode" && (
+                  <>
+                    <div>
+                      <Label className="text-xs">Simbologia</Label>
+                      <Select
+                        value={field.symbology || "CODE128"}
+                        disabled={!isAdmin}
+                        onValueChange={(symbology: LabelSymbology) =>
+                          updateField(field.id, { symbology })
+                        }
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {(
+                            Object.keys(symbologyLabels) as LabelSymbology[]
+                          ).map((symbology) => (
+                            <SelectItem key={symbology} value={symbology}>
+                              {symbologyLabels[symbology]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    {field.symbology !== "QR" && (
+                      <div className="flex items-center space-x-2">
+                        <Switch
+                          checked={field.showText !== false}
+                          disabled={!isAdmin}
+                          onCheckedChange={(showText) =>
+                            updateField(field.id, { showText })
+                          }
+                        />
+                        <Label className="text-sm">Texto legível</Label>
+                      </div>
+                    )}
+                    <p className="text-xs text-muted-foreground">
+                      EAN-13 vale só para códigos numéricos; os demais saem em
+                      CODE 128. Um EAN com dígito verificador errado não é
+                      impresso.
+                    </p>
+                  </>
+                )}
+              </>
+            ) : (
+              <p className="text-sm text-muted-foreground">
+                Selecione um campo na etiqueta para editar suas propriedades.
+              </p>
+            )}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
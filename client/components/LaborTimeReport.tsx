@@ -0,0 +1,237 @@
+import { useMemo, useState } from "react";
+import { subDays } from "date-fns";
+import { Timer } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useToast } from "@/components/ui/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { useProductionConfig } from "@/hooks/useProductionConfig";
+import {
+  laborSummary,
+  withMeasuredEfficiency,
+  type LaborOrder,
+  type LaborTotals,
+} from "@/lib/laborTime";
+
+interface LaborTimeReportProps {
+  orders: LaborOrder[];
+  open: boolean;
+  onClose: () => void;
+}
+
+const periods = [
+  { value: "30", label: "Últimos 30 dias" },
+  { value: "90", label: "Últimos 90 dias" },
+  { value: "all", label: "Todo o período" },
+];
+
+const formatMinutes = (minutes: number) => {
+  const rounded = Math.round(minutes);
+  if (rounded < 60) return `${rounded} min`;
+  const rest = rounded % 60;
+  return `${Math.floor(rounded / 60)}h${rest ? ` ${rest}min` : ""}`;
+};
+
+function EfficiencyBadge({ value }: { value: number | null }) {
+  if (value === null) return <span className="text-muted-foreground">—</span>;
+  const color =
+    value >= 100
+      ? "text-green-600"
+      : value >= 80
+        ? "text-orange-500"
+        : "text-red-500";
+  return (
+    <Badge variant="outline" className={color}>
+      {value}%
+    </Badge>
+  );
+}
+
+function TotalsTable({
+  rows,
+  itemLabel,
+}: {
+  rows: LaborTotals[];
+  itemLabel: string;
+}) {
+  if (rows.length === 0) {
+    return (
+      <p className="py-8 text-center text-sm text-muted-foreground">
+        Nenhuma etapa concluída com tempo apontado no período.
+      </p>
+    );
+  }
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>{itemLabel}</TableHead>
+          <TableHead className="text-right">Etapas</TableHead>
+          <TableHead className="text-right">Previsto</TableHead>
+          <TableHead className="text-right">Realizado</TableHead>
+          <TableHead className="text-right">Eficiência</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {rows.map((row) => (
+          <TableRow key={row.key}>
+            <TableCell className="font-medium">{row.label}</TableCell>
+            <TableCell className="text-right">{row.stages}</TableCell>
+            <TableCell className="text-right">
+              {formatMinutes(row.estimatedMinutes)}
+            </TableCell>
+            <TableCell className="text-right">
+              {formatMinutes(row.actualMinutes)}
+            </TableCell>
+            <TableCell className="text-right">
+              <EfficiencyBadge value={row.efficiency} />
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
+
+/** Tempo previsto × realizado das etapas apontadas na produção. */
+export default function LaborTimeReport({
+  orders,
+  open,
+  onClose,
+}: LaborTimeReportProps) {
+  const { user } = useAuth();
+  const { config, saveConfig } = useProductionConfig();
+  const { toast } = useToast();
+  const [period, setPeriod] = useState("30");
+  const [saving, setSaving] = useState(false);
+
+  const summary = useMemo(
+    () =>
+      laborSummary(
+        orders,
+        config.stages,
+        period === "all" ? undefined : subDays(new Date(), Number(period)),
+      ),
+    [orders, config.stages, period],
+  );
+
+  // Operadores sem apontamento no período continuam com o valor cadastrado
+  const handleUpdateEfficiency = async () => {
+    setSaving(true);
+    try {
+      await saveConfig({
+        ...config,
+        ...withMeasuredEfficiency(config, summary),
+      });
+      toast({
+        title: "Eficiência atualizada",
+        description: `${summary.byOperator.length} operador(es) com tempo apontado no período.`,
+      });
+    } catch (error) {
+      toast({
+        title: "Erro ao atualizar eficiência",
+        description: (error as Error).message || "Tente novamente",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(value) => !value && onClose()}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Timer className="h-5 w-5 text-primary" />
+            Tempos de Produção
+          </DialogTitle>
+          <DialogDescription>
+            Tempo trabalhado nas etapas concluídas (sem as pausas) comparado com
+            o previsto pelo roteiro. Eficiência acima de 100% indica trabalho
+            mais rápido que o previsto.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <Select value={period} onValueChange={setPeriod}>
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {periods.map((item) => (
+                <SelectItem key={item.value} value={item.value}>
+                  {item.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <div className="flex items-center gap-3 text-sm">
+            <span className="text-muted-foreground">
+              Previsto {formatMinutes(summary.total.estimatedMinutes)} ·
+              Realizado {formatMinutes(summary.total.actualMinutes)}
+            </span>
+            <EfficiencyBadge value={summary.total.efficiency} />
+          </div>
+        </div>
+
+        <Tabs defaultValue="stages">
+          <TabsList className="grid w-full grid-cols-3">
+            <TabsTrigger value="stages">Etapas</TabsTrigger>
+            <TabsTrigger value="products">Produtos</TabsTrigger>
+            <TabsTrigger value="operators">Operadores</TabsTrigger>
+          </TabsList>
+          <TabsContent value="stages">
+            <TotalsTable rows={summary.byStage} itemLabel="Etapa" />
+          </TabsContent>
+          <TabsContent value="products">
+            <TotalsTable rows={summary.byProduct} itemLabel="Produto" />
+          </TabsContent>
+          <TabsContent value="operators">
+            <TotalsTable rows={summary.byOperator} itemLabel="Operador" />
+          </TabsContent>
+        </Tabs>
+
+        <DialogFooter>
+          {/* settings/* só aceita gravação de administradores */}
+          {user?.role === "admin" && (
+            <Button
+              variant="outline"
+              onClick={handleUpdateEfficiency}
+              disabled={saving || summary.byOperator.length === 0}
+            >
+              {saving
+                ? "Atualizando..."
+                : "Atualizar eficiência de operadores e linhas"}
+            </Button>
+          )}
+          <Button onClick={onClose}>Fechar</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -9,16 +9,19 @@ import { Calendar } from "@/components/ui/calendar";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { X, Save, Calendar as CalendarIcon, Box } from "lucide-react";
 import { RawMaterial, materialCategoryLabels, unitLabels } from "@/types/inventory";
+import type { MaterialInput } from "@/lib/materials";
+import { useSuppliers } from "@/hooks/useSuppliers";
 import { format } from "date-fns";
 import { ptBR } from "date-fns/locale";
 
 interface MaterialFormProps {
   material?: RawMaterial;
-  onSave: (material: Partial<RawMaterial>) => void;
+  onSave: (material: MaterialInput) => void | Promise<void>;
   onCancel: () => void;
+  saving?: boolean;
 }
 
-export default function MaterialForm({ material, onSave, onCancel }: MaterialFormProps) {
+export default function MaterialForm({ material, onSave, onCancel, saving = false }: MaterialFormProps) {
   const [formData, setFormData] = useState({
     name: material?.name || '',
     category: material?.category || 'wood' as RawMaterial['category'],
@@ -27,21 +30,24 @@ export default function MaterialForm({ material, onSave, onCancel }: MaterialFor
     minimumStock: material?.minimumStock || 10,
     unitCost: material?.unitCost || 0,
     supplier: material?.supplier || '',
+    supplierId: material?.supplierId,
     location: material?.location || '',
     expirationDate: material?.expirationDate || undefined
   });
 
   const [showCalendar, setShowCalendar] = useState(false);
+  const { suppliers } = useSuppliers();
+  const activeSuppliers = suppliers.filter(s => s.status === 'active' || s.id === formData.supplierId);
+
+  const handleSupplierChange = (supplierId: string) => {
+    const supplier = suppliers.find(s => s.id === supplierId);
+    setFormData(prev => ({ ...prev, supplierId, supplier: supplier?.name || prev.supplier }));
+  };
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     
-    const materialData: Partial<RawMaterial> = {
-      ...formData,
-      lastUpdated: new Date()
-    };
-
-    onSave(materialData);
+    onSave(formData);
   };
 
   const formatCurrency = (value: number) => {
@@ -113,6 +119,11 @@ export default function MaterialForm({ material, onSave, onCancel }: MaterialFor
                   onChange={(e) => setFormData(prev => ({ ...prev, quantity: parseFloat(e.target.value) }))}
                   required
                 />
+                {material && (
+                  <p className="text-xs text-muted-foreground mt-1">
+                    Alterar a quantidade registra um ajuste no histórico
+                  </p>
+                )}
               </div>
               <div>
                 <Label htmlFor="unit">Unidade</Label>
@@ -160,13 +171,28 @@ export default function MaterialForm({ material, onSave, onCancel }: MaterialFor
               </div>
               <div>
                 <Label htmlFor="supplier">Fornecedor</Label>
-                <Input
-                  id="supplier"
-                  value={formData.supplier}
-                  onChange={(e) => setFormData(prev => ({ ...prev, supplier: e.target.value }))}
-                  placeholder="Nome do fornecedor"
-                  required
-                />
+                {activeSuppliers.length > 0 ? (
+                  <Select value={formData.supplierId} onValueChange={handleSupplierChange}>
+                    <SelectTrigger id="supplier">
+                      <SelectValue placeholder={formData.supplier || 'Selecione o fornecedor'} />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {activeSuppliers.map((supplier) => (
+                        <SelectItem key={supplier.id} value={supplier.id}>
+                          {supplier.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                ) : (
+                  <Input
+                    id="supplier"
+                    value={formData.supplier}
+                    onChange={(e) => setFormData(prev => ({ ...prev, supplier: e.target.value }))}
+                    placeholder="Nome do fornecedor"
+                    required
+                  />
+                )}
               </div>
             </div>
 
@@ -228,10 +254,10 @@ export default function MaterialForm({ material, onSave, onCancel }: MaterialFor
               <Button 
                 type="submit" 
                 className="bg-biobox-green hover:bg-biobox-green-dark"
-                disabled={!formData.name || !formData.supplier}
+                disabled={saving || !formData.name || !formData.supplier}
               >
                 <Save className="h-4 w-4 mr-2" />
-                Salvar Material
+                {saving ? 'Salvando...' : 'Salvar Material'}
               </Button>
             </div>
           </form>
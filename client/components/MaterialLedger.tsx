@@ -0,0 +1,161 @@
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { Loader2 } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { movementDelta } from "@/lib/inventory";
+import { cn } from "@/lib/utils";
+import {
+  InventoryMovement,
+  RawMaterial,
+  movementTypeLabels,
+  unitLabels,
+} from "@/types/inventory";
+
+interface MaterialLedgerProps {
+  material: RawMaterial | null;
+  loadMovements: (materialId: string) => Promise<InventoryMovement[]>;
+  onClose: () => void;
+}
+
+const typeColors: Record<InventoryMovement["type"], string> = {
+  in: "bg-biobox-green/10 text-biobox-green border-biobox-green/20",
+  out: "bg-red-500/10 text-red-500 border-red-500/20",
+  adjustment: "bg-orange-500/10 text-orange-500 border-orange-500/20",
+  transfer: "bg-blue-500/10 text-blue-500 border-blue-500/20",
+};
+
+/** Livro de movimentações de um material, do mais recente ao mais antigo. */
+export default function MaterialLedger({
+  material,
+  loadMovements,
+  onClose,
+}: MaterialLedgerProps) {
+  const [movements, setMovements] = useState<InventoryMovement[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!material) return;
+    let cancelled = false;
+    setLoading(true);
+    loadMovements(material.id)
+      .then((list) => !cancelled && setMovements(list))
+      .catch((err) =>
+        console.error("❌ [MaterialLedger] Erro ao carregar movimentos:", err),
+      )
+      .finally(() => !cancelled && setLoading(false));
+    return () => {
+      cancelled = true;
+    };
+  }, [material, loadMovements]);
+
+  const unit = material ? unitLabels[material.unit] : "";
+
+  return (
+    <Dialog open={!!material} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="w-full max-w-[min(100%,48rem)] md:max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Movimentações de {material?.name}</DialogTitle>
+          <DialogDescription>
+            Saldo atual: {material?.quantity} {unit}
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-biobox-green" />
+          </div>
+        ) : movements.length === 0 ? (
+          <p className="text-sm text-muted-foreground py-4">
+            Nenhuma movimentação registrada para este material.
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Data</TableHead>
+                <TableHead>Tipo</TableHead>
+                <TableHead className="text-right">Qtd.</TableHead>
+                <TableHead className="text-right">Saldo</TableHead>
+                <TableHead>Motivo</TableHead>
+                <TableHead>Referência</TableHead>
+                <TableHead>Operador</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {movements.map((movement) => {
+                const delta = movementDelta(movement);
+                return (
+                  <TableRow key={movement.id}>
+                    <TableCell className="whitespace-nowrap">
+                      {format(movement.timestamp, "dd/MM/yyyy HH:mm", {
+                        locale: ptBR,
+                      })}
+                    </TableCell>
+                    <TableCell>
+                      <Badge
+                        variant="outline"
+                        className={typeColors[movement.type]}
+                      >
+                        {movementTypeLabels[movement.type]}
+                      </Badge>
+                    </TableCell>
+                    <TableCell
+                      className={cn(
+                        "text-right font-medium",
+                        delta > 0 && "text-biobox-green",
+                        delta < 0 && "text-red-500",
+                      )}
+                    >
+                      {movement.type === "transfer"
+                        ? movement.quantity
+                        : `${delta > 0 ? "+" : ""}${delta}`}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {movement.balanceAfter ?? "-"}
+                    </TableCell>
+                    <TableCell>
+                      <div>{movement.reason}</div>
+                      {movement.type === "transfer" && (
+                        <div className="text-xs text-muted-foreground">
+                          {movement.fromLocation} → {movement.toLocation}
+                        </div>
+                      )}
+                      {movement.lot && (
+                        <div className="text-xs text-muted-foreground">
+                          Lote {movement.lot}
+                        </div>
+                      )}
+                      {movement.notes && (
+                        <div className="text-xs text-muted-foreground">
+                          {movement.notes}
+                        </div>
+                      )}
+                    </TableCell>
+                    <TableCell>{movement.reference || "-"}</TableCell>
+                    <TableCell>{movement.operator}</TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
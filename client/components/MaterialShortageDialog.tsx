@@ -0,0 +1,95 @@
+import { AlertTriangle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import type { MaterialShortage } from "@/lib/bom";
+import { unitLabels } from "@/types/inventory";
+
+interface MaterialShortageDialogProps {
+  orderNumber?: string;
+  shortages: MaterialShortage[];
+  open: boolean;
+  confirming?: boolean;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+/** Aviso de falta de matéria-prima antes de confirmar um pedido. */
+export default function MaterialShortageDialog({
+  orderNumber,
+  shortages,
+  open,
+  confirming,
+  onConfirm,
+  onCancel,
+}: MaterialShortageDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={(value) => !value && onCancel()}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <AlertTriangle className="h-5 w-5 text-orange-500" />
+            Matéria-prima insuficiente
+          </DialogTitle>
+          <DialogDescription>
+            O estoque disponível não cobre o pedido {orderNumber}. Confirmando
+            mesmo assim, a reserva fica registrada e a falta precisa ser
+            comprada.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Material</TableHead>
+              <TableHead className="text-right">Necessário</TableHead>
+              <TableHead className="text-right">Disponível</TableHead>
+              <TableHead className="text-right">Falta</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {shortages.map(({ material, required, available, missing }) => (
+              <TableRow key={material.id}>
+                <TableCell className="font-medium">{material.name}</TableCell>
+                <TableCell className="text-right">
+                  {required} {unitLabels[material.unit]}
+                </TableCell>
+                <TableCell className="text-right">{available}</TableCell>
+                <TableCell className="text-right font-medium text-red-500">
+                  {missing}
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onCancel} disabled={confirming}>
+            Voltar
+          </Button>
+          <Button
+            className="bg-orange-500 hover:bg-orange-600"
+            onClick={onConfirm}
+            disabled={confirming}
+          >
+            {confirming ? "Confirmando..." : "Confirmar mesmo assim"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
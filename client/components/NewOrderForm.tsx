@@ -255,14 +255,6 @@ export default function NewOrderForm({
     }).format(value);
   };
 
-  const generateOrderNumber = () => {
-    const year = new Date().getFullYear();
-    const random = Math.floor(Math.random() * 10000)
-      .toString()
-      .padStart(4, "0");
-    return `ORD-${year}-${random}`;
-  };
-
   const handleCreateOrder = async () => {
     if (!user) {
       console.error("Erro: Usuário não autenticado ao tentar criar pedido.");
@@ -330,8 +322,8 @@ export default function NewOrderForm({
         ...newCustomer,
       };
 
+      // O número do pedido é gerado pelo contador sequencial em createOrder
       const newOrder = {
-        order_number: generateOrderNumber(),
         customer_id: customer.id,
         customer_name: customer.name,
         customer_phone: customer.phone,
@@ -366,13 +358,9 @@ export default function NewOrderForm({
       console.log("💾 Criando pedido:", newOrder);
 
       // Passar para o componente pai que irá salvar no Firebase
+      // (o toast com o número definitivo do pedido é exibido por ele)
       await onOrderCreated(newOrder);
 
-      toast({
-        title: "Pedido criado!",
-        description: `Pedido ${newOrder.order_number} criado com sucesso`,
-      });
-
       // Reset form
       resetForm();
       onOpenChange(false);
@@ -26,7 +26,8 @@ import {
   Package,
   Clock,
 } from "lucide-react";
-import { ProductionTask, productionStages } from "@/types/production";
+import { ProductionTask } from "@/types/production";
+import { useProductionConfig } from "@/hooks/useProductionConfig";
 import { useFirebase, Order } from "@/hooks/useFirebase";
 import { format } from "date-fns";
 import { ptBR } from "date-fns/locale";
@@ -47,6 +48,7 @@ export default function NewTaskForm({ onSave, onCancel }: NewTaskFormProps) {
   });
   const [showCalendar, setShowCalendar] = useState(false);
   const [availableOrders, setAvailableOrders] = useState<Order[]>([]);
+  const { activeStages } = useProductionConfig();
   const [loading, setLoading] = useState(true);
   const { getOrders } = useFirebase();
 
@@ -72,7 +74,7 @@ export default function NewTaskForm({ onSave, onCancel }: NewTaskFormProps) {
   const selectedOrder = availableOrders.find(
     (order) => order.id === formData.orderId,
   );
-  const selectedStage = productionStages.find(
+  const selectedStage = activeStages.find(
     (stage) => stage.id === formData.stage,
   );
   const availableOperators: any[] = [];
@@ -190,7 +192,7 @@ export default function NewTaskForm({ onSave, onCancel }: NewTaskFormProps) {
                     <SelectValue placeholder="Selecione a etapa" />
                   </SelectTrigger>
                   <SelectContent>
-                    {productionStages.map((stage) => (
+                    {activeStages.map((stage) => (
                       <SelectItem key={stage.id} value={stage.id}>
                         <div>
                           <div className="font-medium">{stage.name}</div>
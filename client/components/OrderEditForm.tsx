@@ -18,6 +18,11 @@ import {
   DialogTitle,
 } from "@/components/ui/dialog";
 import { Badge } from "@/components/ui/badge";
+import { useAuth } from "@/hooks/useAuth";
+import {
+  ORDER_STATUS_LABELS,
+  getAvailableTransitions,
+} from "@shared/orderStatus";
 import {
   X,
   Save,
@@ -56,6 +61,8 @@ interface OrderFragment {
   assigned_operator?: string;
   started_at?: string;
   completed_at?: string;
+  // Com etapas próprias, status e progresso vêm do acompanhamento da produção
+  production_stages?: { stage: string; status: string }[];
 }
 
 interface Order {
@@ -67,6 +74,7 @@ interface Order {
   seller_name: string;
   status:
     | "pending"
+    | "awaiting_approval"
     | "confirmed"
     | "in_production"
     | "quality_check"
@@ -93,16 +101,6 @@ interface OrderEditFormProps {
   saving?: boolean;
 }
 
-const statusLabels = {
-  pending: "Pendente",
-  confirmed: "Confirmado",
-  in_production: "Em Produção",
-  quality_check: "Controle de Qualidade",
-  ready: "Pronto",
-  delivered: "Entregue",
-  cancelled: "Cancelado",
-};
-
 const priorityLabels = {
   low: "Baixa",
   medium: "Média",
@@ -122,6 +120,7 @@ export default function OrderEditForm({
   onCancel,
   saving = false,
 }: OrderEditFormProps) {
+  const { user } = useAuth();
   // Inicializar com valores seguros
   const [formData, setFormData] = useState<Order>(() => ({
     ...order,
@@ -250,6 +249,15 @@ export default function OrderEditForm({
     }));
   };
 
+  // Só o status atual e as transições permitidas (cancelamento exige motivo,
+  // então fica nos botões de ação do pedido)
+  const statusOptions = [
+    order.status,
+    ...getAvailableTransitions(order, user)
+      .filter((t) => !t.requiredFields?.length)
+      .map((t) => t.to),
+  ];
+
   const handleSubmit = async () => {
     await onSave(formData);
   };
@@ -339,9 +347,9 @@ export default function OrderEditForm({
                     <SelectValue />
                   </SelectTrigger>
                   <SelectContent>
-                    {Object.entries(statusLabels).map(([key, label]) => (
-                      <SelectItem key={key} value={key}>
-                        {label}
+                    {statusOptions.map((status) => (
+                      <SelectItem key={status} value={status}>
+                        {ORDER_STATUS_LABELS[status]}
                       </SelectItem>
                     ))}
                   </SelectContent>
@@ -650,6 +658,7 @@ export default function OrderEditForm({
                         min="0"
                         max="100"
                         value={fragment.progress}
+                        disabled={!!fragment.production_stages?.length}
                         onChange={(e) =>
                           handleFragmentChange(
                             index,
@@ -680,6 +689,7 @@ export default function OrderEditForm({
                       <Label>Status</Label>
                       <Select
                         value={fragment.status}
+                        disabled={!!fragment.production_stages?.length}
                         onValueChange={(value) =>
                           handleFragmentChange(index, "status", value)
                         }
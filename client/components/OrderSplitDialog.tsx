@@ -12,6 +12,8 @@ import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Order, OrderProduct } from "@/hooks/useFirebase";
+import { useProductionConfig } from "@/hooks/useProductionConfig";
+import { initialFragmentStages } from "@/lib/fragmentStages";
 import { AlertCircle, Minus, Plus, Check } from "lucide-react";
 
 interface OrderSplitDialogProps {
@@ -32,6 +34,7 @@ export default function OrderSplitDialog({
     Record<string, boolean>
   >({});
   const [loading, setLoading] = useState(false);
+  const { stages } = useProductionConfig();
 
   if (!order) return null;
 
@@ -161,6 +164,11 @@ export default function OrderSplitDialog({
             assigned_operator: undefined,
             started_at: undefined,
             completed_at: undefined,
+            // Cada fragmento percorre o roteiro do pedido por conta própria
+            production_stages: initialFragmentStages(
+              order.production_stages || [],
+              stages,
+            ),
           })) || [];
 
       await onSplit(fragments);
@@ -0,0 +1,166 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import QualityInspectionDialog from "@/components/QualityInspectionDialog";
+import { useAuth } from "@/hooks/useAuth";
+import type { Order } from "@/hooks/useFirebase";
+import {
+  buildTransitionUpdates,
+  getAvailableTransitions,
+  type StatusTransition,
+} from "@shared/orderStatus";
+
+interface OrderStatusActionsProps {
+  order: Order;
+  onTransition: (
+    order: Order,
+    transition: StatusTransition,
+    updates: Partial<Order>,
+  ) => void | Promise<void>;
+  /** Limita os botões a alguns status de destino */
+  only?: Order["status"][];
+}
+
+/**
+ * Botões de mudança de status montados a partir da máquina de estados
+ * (`@shared/orderStatus`). Transições com campos obrigatórios, como o motivo
+ * do cancelamento, abrem um diálogo antes de confirmar. Aprovar e reprovar no
+ * controle de qualidade viram um só botão, que abre a inspeção.
+ */
+export default function OrderStatusActions({
+  order,
+  onTransition,
+  only,
+}: OrderStatusActionsProps) {
+  const { user } = useAuth();
+  const [pending, setPending] = useState<StatusTransition | null>(null);
+  const [reason, setReason] = useState("");
+  const [inspecting, setInspecting] = useState(false);
+
+  const available = getAvailableTransitions(order, user).filter(
+    (t) => !only || only.includes(t.to),
+  );
+  const needsInspection = (t: StatusTransition) =>
+    !!t.requiredFields?.includes("quality_inspection_id");
+  const transitions = available.filter((t) => !needsInspection(t));
+  const inspectionTransitions = available.filter(needsInspection);
+  if (available.length === 0) return null;
+
+  const run = async (
+    transition: StatusTransition,
+    extra: Partial<Order> = {},
+  ) => {
+    await onTransition(
+      order,
+      transition,
+      buildTransitionUpdates(transition, extra) as Partial<Order>,
+    );
+  };
+
+  const handleClick = (transition: StatusTransition) => {
+    if (transition.requiredFields?.includes("cancellation_reason")) {
+      setReason("");
+      setPending(transition);
+      return;
+    }
+    run(transition);
+  };
+
+  const completeInspection = async (
+    result: "passed" | "failed",
+    extra: Partial<Order>,
+  ) => {
+    const transition = inspectionTransitions.find(
+      (t) => t.to === (result === "passed" ? "ready" : "in_production"),
+    );
+    setInspecting(false);
+    if (transition) await run(transition, extra);
+  };
+
+  const confirmPending = async () => {
+    if (!pending || !reason.trim()) return;
+    const transition = pending;
+    setPending(null);
+    await run(transition, { cancellation_reason: reason.trim() });
+  };
+
+  return (
+    <>
+      <div className="flex gap-2">
+        {inspectionTransitions.length > 0 && (
+          <Button
+            size="sm"
+            className="bg-orange-500 hover:opacity-90 text-white"
+            onClick={() => setInspecting(true)}
+          >
+            Inspecionar
+          </Button>
+        )}
+        {transitions.map((transition) => (
+          <Button
+            key={transition.to}
+            size="sm"
+            className={`${transition.color} hover:opacity-90 text-white`}
+            onClick={() => handleClick(transition)}
+          >
+            {transition.label}
+          </Button>
+        ))}
+      </div>
+
+      {inspectionTransitions.length > 0 && (
+        <QualityInspectionDialog
+          order={order}
+          open={inspecting}
+          onCancel={() => setInspecting(false)}
+          onComplete={completeInspection}
+        />
+      )}
+
+      <Dialog
+        open={!!pending}
+        onOpenChange={(open) => !open && setPending(null)}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Cancelar Pedido</DialogTitle>
+            <DialogDescription>
+              Informe o motivo do cancelamento do pedido {order.order_number}.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="cancellation-reason">Motivo do Cancelamento</Label>
+            <Textarea
+              id="cancellation-reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="Ex.: cliente desistiu da compra"
+              rows={3}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPending(null)}>
+              Voltar
+            </Button>
+            <Button
+              className="bg-red-500 hover:bg-red-600"
+              disabled={!reason.trim()}
+              onClick={confirmPending}
+            >
+              Cancelar Pedido
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,78 @@
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { ArrowRight, History, User } from "lucide-react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import type { OrderStatusChange } from "@shared/api";
+import { ORDER_STATUS_LABELS } from "@shared/orderStatus";
+
+interface OrderStatusTimelineProps {
+  history?: OrderStatusChange[];
+}
+
+const formatDateTime = (value: string) => {
+  const date = new Date(value);
+  return Number.isNaN(date.getTime())
+    ? value
+    : format(date, "dd/MM/yyyy 'às' HH:mm", { locale: ptBR });
+};
+
+/** Linha do tempo das mudanças de status do pedido (mais recente primeiro). */
+export default function OrderStatusTimeline({
+  history = [],
+}: OrderStatusTimelineProps) {
+  const entries = [...history].sort((a, b) => b.at.localeCompare(a.at));
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-base flex items-center gap-2">
+          <History className="h-4 w-4" />
+          Histórico de Status
+        </CardTitle>
+      </CardHeader>
+      <CardContent>
+        {entries.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            Nenhuma mudança de status registrada para este pedido.
+          </p>
+        ) : (
+          <ol className="relative border-l border-border ml-2 space-y-4">
+            {entries.map((entry, index) => (
+              <li key={`${entry.at}-${index}`} className="ml-4">
+                <span className="absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-background bg-biobox-green" />
+                <div className="flex flex-wrap items-center gap-2 text-sm font-medium">
+                  {entry.from ? (
+                    <>
+                      <span>
+                        {ORDER_STATUS_LABELS[entry.from] ?? entry.from}
+                      </span>
+                      <ArrowRight className="h-3 w-3 text-muted-foreground" />
+                      <span>{ORDER_STATUS_LABELS[entry.to] ?? entry.to}</span>
+                    </>
+                  ) : (
+                    <span>
+                      Pedido criado como{" "}
+                      {ORDER_STATUS_LABELS[entry.to] ?? entry.to}
+                    </span>
+                  )}
+                </div>
+                <div className="flex flex-wrap items-center gap-x-3 text-xs text-muted-foreground">
+                  <span className="flex items-center gap-1">
+                    <User className="h-3 w-3" />
+                    {entry.actor_name}
+                  </span>
+                  <time dateTime={entry.at}>{formatDateTime(entry.at)}</time>
+                </div>
+                {entry.comment && (
+                  <p className="mt-1 text-sm text-muted-foreground">
+                    “{entry.comment}”
+                  </p>
+                )}
+              </li>
+            ))}
+          </ol>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
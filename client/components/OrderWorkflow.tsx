@@ -38,6 +38,13 @@ import {
   CheckCheck,
 } from "lucide-react";
 import { Order } from "@/hooks/useFirebase";
+import { useAuth } from "@/hooks/useAuth";
+import {
+  buildTransitionUpdates,
+  getAvailableTransitions,
+  validateTransition,
+  type StatusTransition,
+} from "@shared/orderStatus";
 import { useToast } from "@/components/ui/use-toast";
 import { format } from "date-fns";
 import { ptBR } from "date-fns/locale";
@@ -72,6 +79,7 @@ export default function OrderWorkflow({
   const [actionType, setActionType] = useState<
     "advance" | "issue" | "cancel" | null
   >(null);
+  const [transition, setTransition] = useState<StatusTransition | null>(null);
   const [actionData, setActionData] = useState<any>({
     notes: "",
     operator: "",
@@ -81,6 +89,7 @@ export default function OrderWorkflow({
   });
   const [loading, setLoading] = useState(false);
   const { toast } = useToast();
+  const { user } = useAuth();
 
   const workflowSteps: WorkflowStep[] = [
     {
@@ -88,20 +97,12 @@ export default function OrderWorkflow({
       label: "Pendente",
       icon: Clock,
       description: "Aguardando confirmação do pedido",
-      actions: [
-        {
-          label: "Aceitar Pedido",
-          icon: CheckCircle,
-          handler: () => openActionDialog("advance"),
-          variant: "default",
-        },
-        {
-          label: "Cancelar",
-          icon: XCircle,
-          handler: () => openActionDialog("cancel"),
-          variant: "destructive",
-        },
-      ],
+    },
+    {
+      id: "awaiting_approval",
+      label: "Aguardando Aprovação",
+      icon: Clock,
+      description: "Pedido enviado para aprovação",
     },
     {
       id: "confirmed",
@@ -110,12 +111,6 @@ export default function OrderWorkflow({
       description: "Pedido confirmado e aguardando produção",
       requiredFields: ["operator"],
       actions: [
-        {
-          label: "Iniciar Produção",
-          icon: Play,
-          handler: () => openActionDialog("advance"),
-          variant: "default",
-        },
         {
           label: "Reportar Problema",
           icon: AlertTriangle,
@@ -130,12 +125,6 @@ export default function OrderWorkflow({
       icon: Package,
       description: "Produto sendo fabricado",
       actions: [
-        {
-          label: "Atualizar Progresso",
-          icon: ArrowRight,
-          handler: () => openActionDialog("advance"),
-          variant: "default",
-        },
         {
           label: "Pausar",
           icon: Pause,
@@ -149,34 +138,12 @@ export default function OrderWorkflow({
       label: "Controle de Qualidade",
       icon: CheckCheck,
       description: "Verificando qualidade do produto",
-      actions: [
-        {
-          label: "Aprovar Qualidade",
-          icon: CheckCircle,
-          handler: () => openActionDialog("advance"),
-          variant: "default",
-        },
-        {
-          label: "Reprovar",
-          icon: XCircle,
-          handler: () => openActionDialog("issue"),
-          variant: "destructive",
-        },
-      ],
     },
     {
       id: "ready",
       label: "Pronto para Entrega",
       icon: Truck,
       description: "Produto finalizado aguardando transporte",
-      actions: [
-        {
-          label: "Confirmar Entrega",
-          icon: CheckCircle,
-          handler: () => openActionDialog("advance"),
-          variant: "default",
-        },
-      ],
     },
     {
       id: "delivered",
@@ -197,6 +164,25 @@ export default function OrderWorkflow({
   );
   const currentStep = workflowSteps[currentStepIndex];
 
+  // Ações de status vêm da máquina de estados compartilhada
+  const transitions = getAvailableTransitions(order, user);
+  const transitionIcons: Partial<
+    Record<Order["status"], React.ComponentType<{ className?: string }>>
+  > = {
+    awaiting_approval: ArrowRight,
+    confirmed: CheckCircle,
+    in_production: Play,
+    quality_check: CheckCheck,
+    ready: CheckCircle,
+    delivered: Truck,
+    cancelled: XCircle,
+  };
+
+  const openTransitionDialog = (next: StatusTransition) => {
+    setTransition(next);
+    openActionDialog(next.to === "cancelled" ? "cancel" : "advance");
+  };
+
   const openActionDialog = (type: "advance" | "issue" | "cancel") => {
     setActionType(type);
     setShowActionDialog(true);
@@ -210,19 +196,6 @@ export default function OrderWorkflow({
     });
   };
 
-  const getNextStatus = (): Order["status"] | null => {
-    const statusFlow: Record<Order["status"], Order["status"] | null> = {
-      pending: "confirmed",
-      confirmed: "in_production",
-      in_production: "quality_check",
-      quality_check: "ready",
-      ready: "delivered",
-      delivered: null,
-      cancelled: null,
-    };
-    return statusFlow[order.status];
-  };
-
   const handleAction = async () => {
     try {
       setLoading(true);
@@ -231,37 +204,35 @@ export default function OrderWorkflow({
         notes: actionData.notes || order.notes,
       };
 
-      if (actionType === "advance") {
-        const nextStatus = getNextStatus();
-        if (nextStatus) {
-          updates.status = nextStatus;
+      if ((actionType === "advance" || actionType === "cancel") && transition) {
+        Object.assign(
+          updates,
+          buildTransitionUpdates(
+            transition,
+            actionType === "cancel"
+              ? { cancellation_reason: actionData.cancelReason }
+              : {},
+          ),
+        );
 
-          // Atualizar progresso baseado no status
-          const progressMap: Record<Order["status"], number> = {
-            pending: 0,
-            confirmed: 10,
-            in_production: 50,
-            quality_check: 80,
-            ready: 95,
-            delivered: 100,
-            cancelled: 0,
-          };
-          updates.production_progress = progressMap[nextStatus];
+        // Adicionar operador se especificado
+        if (actionData.operator) {
+          updates.assigned_operator = actionData.operator;
+        }
 
-          // Adicionar operador se especificado
-          if (actionData.operator) {
-            updates.assigned_operator = actionData.operator;
-          }
+        if (actionType === "cancel") {
+          updates.notes = `Cancelado: ${actionData.cancelReason}. ${actionData.notes || ""}`;
+        }
 
-          // Marcar data de conclusão se entregue
-          if (nextStatus === "delivered") {
-            updates.completed_date = new Date().toISOString();
-          }
+        const check = validateTransition(order, transition.to, user, updates);
+        if (check.ok === false) {
+          toast({
+            title: "Mudança de status não permitida",
+            description: check.error,
+            variant: "destructive",
+          });
+          return;
         }
-      } else if (actionType === "cancel") {
-        updates.status = "cancelled";
-        updates.production_progress = 0;
-        updates.notes = `Cancelado: ${actionData.cancelReason}. ${actionData.notes || ""}`;
       } else if (actionType === "issue") {
         // Manter status atual mas adicionar nota sobre o problema
         updates.notes = `PROBLEMA: ${actionData.issueDescription}. ${actionData.notes || ""}`;
@@ -279,7 +250,10 @@ export default function OrderWorkflow({
       console.error("Erro ao atualizar pedido:", error);
       toast({
         title: "Erro ao atualizar",
-        description: "Não foi possível atualizar o pedido.",
+        description:
+          error instanceof Error
+            ? error.message
+            : "Não foi possível atualizar o pedido.",
         variant: "destructive",
       });
     } finally {
@@ -370,9 +344,29 @@ export default function OrderWorkflow({
                   {isCurrent && (
                     <div className="space-y-3">
                       {/* Action Buttons */}
-                      {step.actions && (
+                      {(transitions.length > 0 || step.actions) && (
                         <div className="flex gap-2 flex-wrap">
-                          {step.actions.map((action, actionIndex) => (
+                          {transitions.map((next) => {
+                            const TransitionIcon =
+                              transitionIcons[next.to] || ArrowRight;
+                            return (
+                              <Button
+                                key={next.to}
+                                variant={
+                                  next.to === "cancelled"
+                                    ? "destructive"
+                                    : "default"
+                                }
+                                size="sm"
+                                onClick={() => openTransitionDialog(next)}
+                                disabled={loading}
+                              >
+                                <TransitionIcon className="h-4 w-4 mr-2" />
+                                {next.label}
+                              </Button>
+                            );
+                          })}
+                          {(step.actions || []).map((action, actionIndex) => (
                             <Button
                               key={actionIndex}
                               variant={action.variant || "default"}
@@ -11,9 +11,27 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { DialogHeader, DialogTitle } from "@/components/ui/dialog";
-import { Product } from "@/types/inventory";
-import { Plus, X, Loader2 } from "lucide-react";
+import {
+  BomItem,
+  Product,
+  VariantBarcode,
+  unitLabels,
+} from "@/types/inventory";
+import { Barcode, Plus, X, Loader2 } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
+import { useMaterials } from "@/hooks/useMaterials";
+import { useProductionConfig } from "@/hooks/useProductionConfig";
+import RoutingEditor from "@/components/RoutingEditor";
+import type { RoutingStep } from "@/types/production";
+import {
+  barcodeErrors,
+  getGtinPrefix,
+  nextProductGtin,
+  variantLabel,
+} from "@/lib/productBarcodes";
+
+// Valor do Select para itens da BOM que valem para todas as variações
+const ALL_VARIANTS = "all";
 
 // Função para aceitar apenas números
 const parseNumericInput = (input: string): number => {
@@ -34,13 +52,18 @@ export interface ProductFormValues {
   stockQuantity: number;
   minimumStock: number;
   barcode?: string;
+  barcodes: VariantBarcode[];
   sizes: Array<{ id: string; name: string }>;
   colors: Array<{ id: string; name: string; hex?: string }>;
   fabrics: Array<{ id: string; name: string }>;
+  bom: BomItem[];
+  routing: RoutingStep[];
 }
 
 interface ProductFormProps {
   product?: Product | null;
+  /** Produtos cadastrados, para não repetir códigos de barras */
+  products?: Product[];
   onSave: (data: ProductFormValues) => void | Promise<void>;
   onCancel: () => void;
   saving?: boolean;
@@ -48,6 +71,7 @@ interface ProductFormProps {
 
 export default function ProductForm({
   product,
+  products = [],
   onSave,
   onCancel,
   saving,
@@ -65,9 +89,12 @@ export default function ProductForm({
     stockQuantity: product?.models?.[0]?.stockQuantity || 0,
     minimumStock: product?.models?.[0]?.minimumStock || 0,
     barcode: product?.barcode || "",
+    barcodes: product?.models?.[0]?.barcodes || [],
     sizes: product?.models?.[0]?.sizes || [],
     colors: product?.models?.[0]?.colors || [],
     fabrics: product?.models?.[0]?.fabrics || [],
+    bom: product?.models?.[0]?.bom || [],
+    routing: product?.models?.[0]?.routing || [],
   });
 
   // Estados para adicionar tamanhos, cores e tecidos
@@ -76,8 +103,43 @@ export default function ProductForm({
   const [newColorHex, setNewColorHex] = useState("#000000");
   const [newFabric, setNewFabric] = useState("");
 
+  // Lista de materiais (consumo por unidade)
+  const { materials } = useMaterials();
+  const [bomMaterialId, setBomMaterialId] = useState("");
+  const [bomQuantity, setBomQuantity] = useState("");
+  const [bomSize, setBomSize] = useState(ALL_VARIANTS);
+  const [bomFabric, setBomFabric] = useState(ALL_VARIANTS);
+
+  // Roteiro próprio do modelo; vazio segue o da categoria
+  const { stages, config: productionConfig } = useProductionConfig();
+  const categoryRouting = productionConfig.routings[formData.category] || [];
+
+  // Códigos GTIN-13 do produto e das variações (prefixo em Configurações)
+  const [gtinPrefix] = useState(getGtinPrefix);
+  const [variantSize, setVariantSize] = useState(ALL_VARIANTS);
+  const [variantColor, setVariantColor] = useState(ALL_VARIANTS);
+  const [variantFabric, setVariantFabric] = useState(ALL_VARIANTS);
+  const [variantCode, setVariantCode] = useState("");
+  const barcodeEntries = [
+    { key: "product", code: formData.barcode },
+    ...formData.barcodes.map((item) => ({ key: item.id, code: item.code })),
+  ];
+  const errors = barcodeErrors(barcodeEntries, products, product?.id);
+  const variantCodeError = barcodeErrors(
+    [...barcodeEntries, { key: "variant", code: variantCode }],
+    products,
+    product?.id,
+  ).variant;
+
+  const generateGtin = () =>
+    nextProductGtin(gtinPrefix, products, [
+      ...barcodeEntries,
+      { key: "variant", code: variantCode },
+    ]);
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+    if (Object.keys(errors).length > 0) return;
     await onSave(formData);
   };
 
@@ -146,6 +208,46 @@ export default function ProductForm({
     }));
   };
 
+  const addVariantBarcode = () => {
+    const code = variantCode.trim();
+    if (!code || variantCodeError) return;
+    const item: VariantBarcode = { id: `barcode-${Date.now()}`, code };
+    if (variantSize !== ALL_VARIANTS) item.size = variantSize;
+    if (variantColor !== ALL_VARIANTS) item.color = variantColor;
+    if (variantFabric !== ALL_VARIANTS) item.fabric = variantFabric;
+    setFormData((prev) => ({ ...prev, barcodes: [...prev.barcodes, item] }));
+    setVariantCode("");
+  };
+
+  const removeVariantBarcode = (id: string) => {
+    setFormData((prev) => ({
+      ...prev,
+      barcodes: prev.barcodes.filter((item) => item.id !== id),
+    }));
+  };
+
+  const addBomItem = () => {
+    const quantity = parseFloat(bomQuantity.replace(",", "."));
+    if (!bomMaterialId || !(quantity > 0)) return;
+    const item: BomItem = {
+      id: `bom-${Date.now()}`,
+      materialId: bomMaterialId,
+      quantity,
+    };
+    if (bomSize !== ALL_VARIANTS) item.size = bomSize;
+    if (bomFabric !== ALL_VARIANTS) item.fabric = bomFabric;
+    setFormData((prev) => ({ ...prev, bom: [...prev.bom, item] }));
+    setBomMaterialId("");
+    setBomQuantity("");
+  };
+
+  const removeBomItem = (id: string) => {
+    setFormData((prev) => ({
+      ...prev,
+      bom: prev.bom.filter((item) => item.id !== id),
+    }));
+  };
+
   return (
     <form onSubmit={handleSubmit} className="space-y-6">
       <DialogHeader>
@@ -183,15 +285,32 @@ export default function ProductForm({
 
         {/* Código de Barras */}
         <div>
-          <Label htmlFor="barcode">Código de Barras</Label>
-          <Input
-            id="barcode"
-            value={formData.barcode}
-            onChange={(e) =>
-              setFormData((prev) => ({ ...prev, barcode: e.target.value }))
-            }
-            placeholder="Ex: 7891234567890"
-          />
+          <Label htmlFor="barcode">Código de Barras (GTIN-13)</Label>
+          <div className="flex gap-2">
+            <Input
+              id="barcode"
+              value={formData.barcode}
+              onChange={(e) =>
+                setFormData((prev) => ({ ...prev, barcode: e.target.value }))
+              }
+              placeholder="Ex: 7891234567895"
+            />
+            <Button
+              type="button"
+              variant="outline"
+              size="icon"
+              title="Gerar GTIN-13"
+              disabled={!gtinPrefix}
+              onClick={() =>
+                setFormData((prev) => ({ ...prev, barcode: generateGtin() }))
+              }
+            >
+              <Barcode className="h-4 w-4" />
+            </Button>
+          </div>
+          {errors.product && (
+            <p className="text-xs text-destructive mt-1">{errors.product}</p>
+          )}
         </div>
 
         {/* Categoria */}
@@ -460,6 +579,263 @@ export default function ProductForm({
         </div>
       </div>
 
+      {/* CÓDIGOS POR VARIAÇÃO */}
+      <div className="space-y-2">
+        <Label>Códigos de Barras por Variação (GTIN-13)</Label>
+        <div className="grid grid-cols-12 gap-2">
+          <div className="col-span-2">
+            <Select value={variantSize} onValueChange={setVariantSize}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_VARIANTS}>Todos os tamanhos</SelectItem>
+                {formData.sizes.map((size) => (
+                  <SelectItem key={size.id} value={size.name}>
+                    {size.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="col-span-2">
+            <Select value={variantColor} onValueChange={setVariantColor}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_VARIANTS}>Todas as cores</SelectItem>
+                {formData.colors.map((color) => (
+                  <SelectItem key={color.id} value={color.name}>
+                    {color.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="col-span-2">
+            <Select value={variantFabric} onValueChange={setVariantFabric}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_VARIANTS}>Todos os tecidos</SelectItem>
+                {formData.fabrics.map((fabric) => (
+                  <SelectItem key={fabric.id} value={fabric.name}>
+                    {fabric.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Input
+            className="col-span-4"
+            value={variantCode}
+            onChange={(e) => setVariantCode(e.target.value)}
+            placeholder="GTIN-13"
+            onKeyPress={(e) =>
+              e.key === "Enter" && (e.preventDefault(), addVariantBarcode())
+            }
+          />
+          <Button
+            type="button"
+            variant="outline"
+            size="icon"
+            className="col-span-1"
+            title="Gerar GTIN-13"
+            disabled={!gtinPrefix}
+            onClick={() => setVariantCode(generateGtin())}
+          >
+            <Barcode className="h-4 w-4" />
+          </Button>
+          <Button
+            type="button"
+            onClick={addVariantBarcode}
+            size="icon"
+            className="col-span-1"
+            disabled={!variantCode.trim() || !!variantCodeError}
+          >
+            <Plus className="h-4 w-4" />
+          </Button>
+        </div>
+        {variantCode.trim() && variantCodeError && (
+          <p className="text-xs text-destructive">{variantCodeError}</p>
+        )}
+        {!gtinPrefix && (
+          <p className="text-xs text-muted-foreground">
+            Configure o prefixo GS1 da empresa em Configurações para gerar
+            códigos automaticamente.
+          </p>
+        )}
+        {formData.barcodes.length > 0 && (
+          <div className="space-y-1">
+            {formData.barcodes.map((item) => (
+              <div
+                key={item.id}
+                className="flex items-center justify-between rounded-md border px-3 py-1.5 text-sm"
+              >
+                <span>
+                  <span className="font-mono">{item.code}</span>
+                  <span className="text-muted-foreground">
+                    {" "}
+                    · {variantLabel(item)}
+                  </span>
+                  {errors[item.id] && (
+                    <span className="text-xs text-destructive">
+                      {" "}
+                      — {errors[item.id]}
+                    </span>
+                  )}
+                </span>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  className="h-6 w-6 p-0"
+                  onClick={() => removeVariantBarcode(item.id)}
+                >
+                  <X className="h-3 w-3" />
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* LISTA DE MATERIAIS */}
+      <div className="space-y-2">
+        <Label>Lista de Materiais (por unidade)</Label>
+        <div className="grid grid-cols-12 gap-2">
+          <div className="col-span-4">
+            <Select value={bomMaterialId} onValueChange={setBomMaterialId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Matéria-prima" />
+              </SelectTrigger>
+              <SelectContent>
+                {materials.map((material) => (
+                  <SelectItem key={material.id} value={material.id}>
+                    {material.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Input
+            className="col-span-2"
+            type="number"
+            step="any"
+            min="0"
+            value={bomQuantity}
+            onChange={(e) => setBomQuantity(e.target.value)}
+            placeholder="Qtd."
+          />
+          <div className="col-span-3">
+            <Select value={bomSize} onValueChange={setBomSize}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_VARIANTS}>Todos os tamanhos</SelectItem>
+                {formData.sizes.map((size) => (
+                  <SelectItem key={size.id} value={size.name}>
+                    {size.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="col-span-2">
+            <Select value={bomFabric} onValueChange={setBomFabric}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_VARIANTS}>Todos os tecidos</SelectItem>
+                {formData.fabrics.map((fabric) => (
+                  <SelectItem key={fabric.id} value={fabric.name}>
+                    {fabric.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button
+            type="button"
+            onClick={addBomItem}
+            size="icon"
+            className="col-span-1"
+            disabled={!bomMaterialId || !bomQuantity}
+          >
+            <Plus className="h-4 w-4" />
+          </Button>
+        </div>
+        {formData.bom.length === 0 ? (
+          <p className="text-xs text-muted-foreground">
+            Sem lista de materiais, o pedido não reserva matéria-prima ao ser
+            confirmado.
+          </p>
+        ) : (
+          <div className="space-y-1">
+            {formData.bom.map((item) => {
+              const material = materials.find((m) => m.id === item.materialId);
+              return (
+                <div
+                  key={item.id}
+                  className="flex items-center justify-between rounded-md border px-3 py-1.5 text-sm"
+                >
+                  <span>
+                    {item.quantity} {material ? unitLabels[material.unit] : ""}{" "}
+                    de{" "}
+                    <span className="font-medium">
+                      {material?.name || "Material removido"}
+                    </span>
+                    <span className="text-muted-foreground">
+                      {" "}
+                      · {item.size || "Todos os tamanhos"} ·{" "}
+                      {item.fabric || "Todos os tecidos"}
+                    </span>
+                  </span>
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    className="h-6 w-6 p-0"
+                    onClick={() => removeBomItem(item.id)}
+                  >
+                    <X className="h-3 w-3" />
+                  </Button>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+
+      {/* ROTEIRO DE PRODUÇÃO */}
+      <div className="space-y-2">
+        <Label>Roteiro de Produção</Label>
+        <RoutingEditor
+          steps={formData.routing}
+          stages={stages}
+          onChange={(routing) => setFormData((prev) => ({ ...prev, routing }))}
+        />
+        {formData.routing.length === 0 && (
+          <p className="text-xs text-muted-foreground">
+            Sem roteiro próprio, segue o da categoria
+            {categoryRouting.length > 0
+              ? `: ${categoryRouting
+                  .map(
+                    (step) =>
+                      stages.find((s) => s.id === step.stageId)?.name ||
+                      step.stageId,
+                  )
+                  .join(" → ")}`
+              : " (todas as etapas ativas)"}
+            .
+          </p>
+        )}
+      </div>
+
       {/* Botões */}
       <div className="flex justify-end space-x-2 pt-4 border-t">
         <Button
@@ -473,7 +849,7 @@ export default function ProductForm({
         <Button
           type="submit"
           className="bg-biobox-green hover:bg-biobox-green-dark"
-          disabled={saving}
+          disabled={saving || Object.keys(errors).length > 0}
         >
           {saving ? (
             <>
@@ -22,10 +22,13 @@ import {
 } from "@/types/production";
 import { statusLabels as orderStatusLabels } from "@/types/order";
 import { Order } from "@/hooks/useFirebase";
+import { useProductionConfig } from "@/hooks/useProductionConfig";
 import { cn } from "@/lib/utils";
 import { format } from "date-fns";
 import { ptBR } from "date-fns/locale";
 import { useFirebase } from "@/hooks/useFirebase";
+import OrderStatusActions from "@/components/OrderStatusActions";
+import type { StatusTransition } from "@shared/orderStatus";
 import { useLocation, useSearchParams } from "react-router-dom";
 
 interface ProductionDashboardProps {
@@ -248,6 +251,7 @@ export default function ProductionDashboard({
   const [storedTasks, setStoredTasks] = useState<StoredTask[]>([]);
   const [loading, setLoading] = useState(true);
   const [selectedTask, setSelectedTask] = useState<EnrichedTask | null>(null);
+  const { stages } = useProductionConfig();
   const [searchParams] = useSearchParams();
   const location = useLocation();
 
@@ -326,7 +330,7 @@ export default function ProductionDashboard({
         ? normalizeStatus(relatedOrder.status)
         : "pending";
       const stageId = orderStatusToProductionStage(normalizedOrderStatus);
-      const stage = productionStages.find((item) => item.id === stageId);
+      const stage = stages.find((item) => item.id === stageId);
 
       const baseStatus = normalizeTaskStatusValue(task.status);
       const priority = normalizeTaskPriority(task.priority);
@@ -383,7 +387,7 @@ export default function ProductionDashboard({
         notes: task.notes ?? undefined,
       };
     },
-    [orders],
+    [orders, stages],
   );
 
   const localProductionTasks = useMemo(() => {
@@ -506,7 +510,7 @@ export default function ProductionDashboard({
   }, [mergedTasks]);
 
   const renderTaskCard = (task: EnrichedTask) => {
-    const stage = productionStages.find((item) => item.id === task.stage);
+    const stage = stages.find((item) => item.id === task.stage);
     const hasIssues = Array.isArray(task.issues) && task.issues.length > 0;
 
     return (
@@ -604,9 +608,7 @@ export default function ProductionDashboard({
       );
     }
 
-    const stage = productionStages.find(
-      (item) => item.id === selectedTask.stage,
-    );
+    const stage = stages.find((item) => item.id === selectedTask.stage);
     const startedAt = selectedTask.startTime
       ? format(selectedTask.startTime, "dd 'de' MMMM yyyy, HH:mm", {
           locale: ptBR,
@@ -723,88 +725,23 @@ export default function ProductionDashboard({
               );
               if (!relatedOrder) return null;
 
-              const nextStatuses: Record<
-                string,
-                { status: any; label: string; color: string }[]
-              > = {
-                pending: [
-                  {
-                    status: "confirmed",
-                    label: "Confirmar",
-                    color: "bg-blue-500",
-                  },
-                  {
-                    status: "cancelled",
-                    label: "Cancelar",
-                    color: "bg-red-500",
-                  },
-                ],
-                confirmed: [
-                  {
-                    status: "in_production",
-                    label: "Iniciar Produção",
-                    color: "bg-purple-500",
-                  },
-                  {
-                    status: "cancelled",
-                    label: "Cancelar",
-                    color: "bg-red-500",
-                  },
-                ],
-                in_production: [
-                  {
-                    status: "quality_check",
-                    label: "CQ",
-                    color: "bg-orange-500",
-                  },
-                  {
-                    status: "cancelled",
-                    label: "Cancelar Produção",
-                    color: "bg-red-500",
-                  },
-                ],
-                quality_check: [
-                  { status: "ready", label: "Aprovar", color: "bg-green-500" },
-                  {
-                    status: "in_production",
-                    label: "Reprovar",
-                    color: "bg-purple-500",
-                  },
-                  {
-                    status: "cancelled",
-                    label: "Cancelar Produção",
-                    color: "bg-red-500",
-                  },
-                ],
-                ready: [
-                  {
-                    status: "delivered",
-                    label: "Entregar",
-                    color: "bg-gray-500",
-                  },
-                  {
-                    status: "cancelled",
-                    label: "Cancelar Produção",
-                    color: "bg-red-500",
-                  },
-                ],
-              };
-
-              const options = nextStatuses[relatedOrder.status] || [];
-              if (options.length === 0) return null;
-
-              const handleTransition = async (nextStatus: any) => {
-                const updates: any = { status: nextStatus };
-                if (nextStatus === "in_production")
-                  updates.production_progress = 10;
-                if (nextStatus === "quality_check")
-                  updates.production_progress = 80;
-                if (nextStatus === "ready") updates.production_progress = 100;
-                if (nextStatus === "delivered")
-                  updates.completed_date = new Date().toISOString();
-                if (nextStatus === "cancelled") updates.production_progress = 0;
-
-                const updated = await updateOrder(relatedOrder.id, updates);
+              const handleTransition = async (
+                order: Order,
+                _transition: StatusTransition,
+                updates: Partial<Order>,
+              ) => {
+                let updated: Order | null;
+                try {
+                  updated = await updateOrder(order.id, updates);
+                } catch (error) {
+                  toast({
+                    title: "Mudança de status não permitida",
+                    description:
+                      error instanceof Error ? error.message : String(error),
+                    variant: "destructive",
+                  });
+                  return;
+                }
                 if (updated) {
                   setOrders((prev) =>
                     prev.map((o) => (o.id === updated.id ? updated : o)),
@@ -827,16 +764,10 @@ export default function ProductionDashboard({
                     Alterar status do pedido
                   </div>
                   <div className="flex flex-wrap gap-2">
-                    {options.map((option) => (
-                      <Button
-                        key={option.status}
-                        size="sm"
-                        className={`${option.color} hover:opacity-90 text-white`}
-                        onClick={() => handleTransition(option.status)}
-                      >
-                        {option.label}
-                      </Button>
-                    ))}
+                    <OrderStatusActions
+                      order={relatedOrder}
+                      onTransition={handleTransition}
+                    />
                   </div>
                 </div>
               );
@@ -23,6 +23,7 @@ import {
 import { format, subDays, startOfWeek, endOfWeek, startOfMonth, endOfMonth } from "date-fns";
 import { ptBR } from "date-fns/locale";
 import { mockOrders } from "@/types/order";
+import { useProductionConfig } from "@/hooks/useProductionConfig";
 
 interface ProductionReportProps {
   onClose: () => void;
@@ -50,6 +51,7 @@ export default function ProductionReport({ onClose }: ProductionReportProps) {
   });
   const [showStartCalendar, setShowStartCalendar] = useState(false);
   const [showEndCalendar, setShowEndCalendar] = useState(false);
+  const { operators } = useProductionConfig();
 
   // Calculate report data
   const getReportData = () => {
@@ -80,7 +82,10 @@ export default function ProductionReport({ onClose }: ProductionReportProps) {
         return sum + days / arr.length;
       }, 0);
 
-    const operatorEfficiency = 92;
+    // Eficiência apurada no apontamento de horas (Produção → Tempos)
+    const operatorEfficiency = operators.length
+      ? operators.reduce((sum, operator) => sum + operator.efficiency, 0) / operators.length
+      : 0;
 
     return {
       totalOrders,
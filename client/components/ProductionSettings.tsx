@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -7,101 +7,93 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Switch } from "@/components/ui/switch";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Badge } from "@/components/ui/badge";
+import { useToast } from "@/components/ui/use-toast";
 import { 
   Settings, 
   Save, 
   X, 
-  Clock, 
-  Users, 
-  Wrench,
-  AlertTriangle,
   Plus,
-  Edit,
-  Trash2
+  Trash2,
+  ArrowUp,
+  ArrowDown,
+  Loader2
 } from "lucide-react";
-import { ProductionLine, Operator, ProductionStage, productionStages } from "@/types/production";
+import { useProductionConfig } from "@/hooks/useProductionConfig";
+import { createStage, moveStage, sortStages } from "@/lib/productionStages";
+import { hashPin, isValidPin } from "@/lib/operatorPin";
+import RoutingEditor from "@/components/RoutingEditor";
+import QualityChecklistEditor from "@/components/QualityChecklistEditor";
+import { ProductionConfig, ProductionLine, Operator, ProductionStage, QualityCheckpoint, RoutingStep, routingCategoryLabels } from "@/types/production";
 
 interface ProductionSettingsProps {
   onClose: () => void;
-  onSave?: (settings: any) => void;
+  onSave?: (config: ProductionConfig) => void;
 }
 
+// "corte, costura" -> ['corte', 'costura']
+const parseSkills = (text: string) =>
+  Array.from(new Set(text.split(',').map(skill => skill.trim()).filter(Boolean)));
+
+const weekDayLabels = ['Dom', 'Seg', 'Ter', 'Qua', 'Qui', 'Sex', 'Sáb'];
+
 export default function ProductionSettings({ onClose, onSave }: ProductionSettingsProps) {
-  const [settings, setSettings] = useState({
-    workingHours: {
-      start: '08:00',
-      end: '18:00',
-      lunchBreak: 60,
-      shortBreaks: 15
-    },
-    targets: {
-      dailyProduction: 12,
-      weeklyProduction: 60,
-      monthlyProduction: 240,
-      qualityThreshold: 95
-    },
-    alerts: {
-      delayWarning: true,
-      qualityIssues: true,
-      equipmentMaintenance: true,
-      lowEfficiency: true,
-      thresholdEfficiency: 80
-    },
-    automation: {
-      autoAssignTasks: true,
-      prioritizeUrgent: true,
-      balanceWorkload: true,
-      notifyDelays: true
-    }
-  });
+  const { config, loading, saveConfig } = useProductionConfig();
+  const { toast } = useToast();
+  const [saving, setSaving] = useState(false);
 
-  const [lines, setLines] = useState<ProductionLine[]>([
-    {
-      id: '1',
-      name: 'Linha A - Camas Premium',
-      status: 'active',
-      efficiency: 95,
-      dailyTarget: 3,
-      dailyProduced: 2,
-      lastUpdate: new Date()
-    },
-    {
-      id: '2',
-      name: 'Linha B - Camas Standard',
-      status: 'active',
-      efficiency: 92,
-      dailyTarget: 4,
-      dailyProduced: 3,
-      lastUpdate: new Date()
-    }
-  ]);
+  const [settings, setSettings] = useState(config.preferences);
+  const [lines, setLines] = useState<ProductionLine[]>(config.lines);
+  const [operators, setOperators] = useState<Operator[]>(config.operators);
+  const [stages, setStages] = useState<ProductionStage[]>(sortStages(config.stages));
+  const [routings, setRoutings] = useState<Record<string, RoutingStep[]>>(config.routings);
+  const [qualityChecklists, setQualityChecklists] = useState<Record<string, QualityCheckpoint[]>>(config.qualityChecklists);
+  const [newStageName, setNewStageName] = useState('');
 
-  const [operators, setOperators] = useState<Operator[]>([
-    {
-      id: '1',
-      name: 'Carlos Mendes',
-      skills: ['cutting', 'carpentry', 'assembly'],
-      experience: 8,
-      efficiency: 95,
-      status: 'available',
-      shift: 'morning'
-    },
-    {
-      id: '2',
-      name: 'Ana Lima',
-      skills: ['upholstery', 'sewing', 'finishing'],
-      experience: 6,
-      efficiency: 92,
-      status: 'busy',
-      shift: 'morning'
+  // Formulário começa com a configuração salva
+  useEffect(() => {
+    if (loading) return;
+    setSettings(config.preferences);
+    setLines(config.lines);
+    setOperators(config.operators);
+    setStages(sortStages(config.stages));
+    setRoutings(config.routings);
+    setQualityChecklists(config.qualityChecklists);
+  }, [loading, config]);
+
+  const handleSaveSettings = async () => {
+    if (!stages.some(stage => stage.active !== false)) {
+      toast({
+        title: 'Nenhuma etapa ativa',
+        description: 'Mantenha pelo menos uma etapa de produção ativa.',
+        variant: 'destructive'
+      });
+      return;
     }
-  ]);
 
-  const [stages, setStages] = useState<ProductionStage[]>(productionStages);
+    if (settings.workingHours.workingDays.length === 0) {
+      toast({
+        title: 'Nenhum dia de produção',
+        description: 'Selecione pelo menos um dia da semana para produzir.',
+        variant: 'destructive'
+      });
+      return;
+    }
 
-  const handleSaveSettings = () => {
-    onSave?.({ settings, lines, operators, stages });
-    onClose();
+    setSaving(true);
+    try {
+      const saved = await saveConfig({ ...config, preferences: settings, lines, operators, stages, routings, qualityChecklists });
+      toast({ title: 'Configurações de produção salvas' });
+      onSave?.(saved);
+      onClose();
+    } catch (error) {
+      toast({
+        title: 'Erro ao salvar configurações',
+        description: (error as Error).message || 'Tente novamente',
+        variant: 'destructive'
+      });
+    } finally {
+      setSaving(false);
+    }
   };
 
   const addLine = () => {
@@ -127,6 +119,54 @@ export default function ProductionSettings({ onClose, onSave }: ProductionSettin
     setLines(prev => prev.filter(line => line.id !== id));
   };
 
+  const addOperator = () => {
+    const newOperator: Operator = {
+      id: Date.now().toString(),
+      name: `Operador ${operators.length + 1}`,
+      skills: [],
+      experience: 0,
+      efficiency: 100,
+      status: 'available',
+      shift: 'morning'
+    };
+    setOperators(prev => [...prev, newOperator]);
+  };
+
+  const updateOperator = (id: string, updates: Partial<Operator>) => {
+    setOperators(prev => prev.map(operator =>
+      operator.id === id ? { ...operator, ...updates } : operator
+    ));
+  };
+
+  const setOperatorPin = async (id: string, pin: string) => {
+    if (!pin) return;
+    if (!isValidPin(pin)) {
+      toast({
+        title: 'PIN inválido',
+        description: 'Use de 4 a 6 números.',
+        variant: 'destructive'
+      });
+      return;
+    }
+    updateOperator(id, { pinHash: await hashPin(id, pin) });
+  };
+
+  const deleteOperator = (id: string) => {
+    setOperators(prev => prev.filter(operator => operator.id !== id));
+  };
+
+  const addStage = () => {
+    if (!newStageName.trim()) return;
+    setStages(prev => [...prev, createStage(newStageName, prev)]);
+    setNewStageName('');
+  };
+
+  const updateStage = (id: string, updates: Partial<ProductionStage>) => {
+    setStages(prev => prev.map(stage =>
+      stage.id === id ? { ...stage, ...updates } : stage
+    ));
+  };
+
   return (
     <div className="fixed inset-0 bg-background/80 backdrop-blur-sm z-50 flex items-center justify-center p-4">
       <Card className="w-full max-w-4xl max-h-[90vh] overflow-y-auto bg-card border-border">
@@ -143,11 +183,13 @@ export default function ProductionSettings({ onClose, onSave }: ProductionSettin
         </CardHeader>
         <CardContent>
           <Tabs defaultValue="general" className="space-y-6">
-            <TabsList className="grid w-full grid-cols-4">
+            <TabsList className="grid w-full grid-cols-6">
               <TabsTrigger value="general">Geral</TabsTrigger>
               <TabsTrigger value="lines">Linhas</TabsTrigger>
               <TabsTrigger value="operators">Operadores</TabsTrigger>
               <TabsTrigger value="stages">Etapas</TabsTrigger>
+              <TabsTrigger value="routings">Roteiros</TabsTrigger>
+              <TabsTrigger value="quality">Qualidade</TabsTrigger>
             </TabsList>
 
             <TabsContent value="general" className="space-y-6">
@@ -204,6 +246,33 @@ export default function ProductionSettings({ onClose, onSave }: ProductionSettin
                       />
                     </div>
                   </div>
+                  <div>
+                    <Label>Dias de Produção</Label>
+                    <div className="flex flex-wrap gap-2 mt-2">
+                      {weekDayLabels.map((label, day) => {
+                        const selected = settings.workingHours.workingDays.includes(day);
+                        return (
+                          <Button
+                            key={day}
+                            type="button"
+                            size="sm"
+                            variant={selected ? 'default' : 'outline'}
+                            onClick={() => setSettings(prev => ({
+                              ...prev,
+                              workingHours: {
+                                ...prev.workingHours,
+                                workingDays: selected
+                                  ? prev.workingHours.workingDays.filter(d => d !== day)
+                                  : [...prev.workingHours.workingDays, day].sort((a, b) => a - b)
+                              }
+                            }))}
+                          >
+                            {label}
+                          </Button>
+                        );
+                      })}
+                    </div>
+                  </div>
                 </CardContent>
               </Card>
 
@@ -330,7 +399,7 @@ export default function ProductionSettings({ onClose, onSave }: ProductionSettin
             <TabsContent value="operators" className="space-y-4">
               <div className="flex items-center justify-between">
                 <h3 className="text-lg font-medium">Operadores</h3>
-                <Button className="bg-biobox-green hover:bg-biobox-green-dark">
+                <Button onClick={addOperator} className="bg-biobox-green hover:bg-biobox-green-dark">
                   <Plus className="h-4 w-4 mr-2" />
                   Novo Operador
                 </Button>
@@ -341,13 +410,28 @@ export default function ProductionSettings({ onClose, onSave }: ProductionSettin
                   <Card key={operator.id} className="bg-muted/5">
                     <CardContent className="p-4">
                       <div className="space-y-3">
-                        <div>
-                          <Label>Nome</Label>
-                          <Input value={operator.name} readOnly />
+                        <div className="flex items-end space-x-2">
+                          <div className="flex-1">
+                            <Label>Nome</Label>
+                            <Input
+                              value={operator.name}
+                              onChange={(e) => updateOperator(operator.id, { name: e.target.value })}
+                            />
+                          </div>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            onClick={() => deleteOperator(operator.id)}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
                         </div>
                         <div>
                           <Label>Turno</Label>
-                          <Select value={operator.shift}>
+                          <Select
+                            value={operator.shift}
+                            onValueChange={(value: Operator['shift']) => updateOperator(operator.id, { shift: value })}
+                          >
                             <SelectTrigger>
                               <SelectValue />
                             </SelectTrigger>
@@ -359,7 +443,12 @@ export default function ProductionSettings({ onClose, onSave }: ProductionSettin
                           </Select>
                         </div>
                         <div>
-                          <Label>Habilidades</Label>
+                          <Label>Habilidades (separadas por vírgula)</Label>
+                          <Input
+                            key={operator.skills.join(',')}
+                            defaultValue={operator.skills.join(', ')}
+                            onBlur={(e) => updateOperator(operator.id, { skills: parseSkills(e.target.value) })}
+                          />
                           <div className="flex flex-wrap gap-1 mt-1">
                             {operator.skills.map(skill => (
                               <Badge key={skill} variant="secondary" className="text-xs">
@@ -368,6 +457,28 @@ export default function ProductionSettings({ onClose, onSave }: ProductionSettin
                             ))}
                           </div>
                         </div>
+                        <div>
+                          <Label>PIN do Quiosque</Label>
+                          <div className="flex items-center space-x-2">
+                            <Input
+                              key={operator.pinHash || 'sem-pin'}
+                              type="password"
+                              inputMode="numeric"
+                              maxLength={6}
+                              placeholder={operator.pinHash ? 'PIN definido — digite para trocar' : '4 a 6 números'}
+                              onBlur={(e) => setOperatorPin(operator.id, e.target.value.trim())}
+                            />
+                            {operator.pinHash && (
+                              <Button
+                                variant="outline"
+                                size="sm"
+                                onClick={() => updateOperator(operator.id, { pinHash: undefined })}
+                              >
+                                Remover
+                              </Button>
+                            )}
+                          </div>
+                        </div>
                       </div>
                     </CardContent>
                   </Card>
@@ -376,33 +487,91 @@ export default function ProductionSettings({ onClose, onSave }: ProductionSettin
             </TabsContent>
 
             <TabsContent value="stages" className="space-y-4">
-              <div className="flex items-center justify-between">
+              <div className="flex items-center justify-between gap-2">
                 <h3 className="text-lg font-medium">Etapas de Produção</h3>
-                <Button className="bg-biobox-green hover:bg-biobox-green-dark">
-                  <Plus className="h-4 w-4 mr-2" />
-                  Nova Etapa
-                </Button>
+                <div className="flex items-center space-x-2">
+                  <Input
+                    value={newStageName}
+                    onChange={(e) => setNewStageName(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && addStage()}
+                    placeholder="Nome da nova etapa"
+                    className="w-56"
+                  />
+                  <Button
+                    onClick={addStage}
+                    disabled={!newStageName.trim()}
+                    className="bg-biobox-green hover:bg-biobox-green-dark"
+                  >
+                    <Plus className="h-4 w-4 mr-2" />
+                    Nova Etapa
+                  </Button>
+                </div>
               </div>
+              <p className="text-sm text-muted-foreground">
+                Etapas desativadas deixam de entrar nos novos pedidos. Pedidos que já iniciaram a etapa mantêm o registro.
+              </p>
               
               <div className="space-y-4">
-                {stages.map(stage => (
-                  <Card key={stage.id} className="bg-muted/5">
+                {stages.map((stage, index) => {
+                  const active = stage.active !== false;
+                  return (
+                  <Card key={stage.id} className={active ? 'bg-muted/5' : 'bg-muted/5 opacity-60'}>
                     <CardContent className="p-4">
                       <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
                         <div>
                           <Label>Nome da Etapa</Label>
-                          <Input value={stage.name} readOnly />
+                          <Input
+                            value={stage.name}
+                            onChange={(e) => updateStage(stage.id, { name: e.target.value })}
+                          />
                         </div>
                         <div>
                           <Label>Ordem</Label>
-                          <Input type="number" value={stage.order} readOnly />
+                          <div className="flex items-center space-x-1">
+                            <Badge variant="outline">{index + 1}</Badge>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              disabled={index === 0}
+                              onClick={() => setStages(prev => moveStage(prev, stage.id, -1))}
+                            >
+                              <ArrowUp className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              disabled={index === stages.length - 1}
+                              onClick={() => setStages(prev => moveStage(prev, stage.id, 1))}
+                            >
+                              <ArrowDown className="h-4 w-4" />
+                            </Button>
+                          </div>
                         </div>
                         <div>
                           <Label>Tempo Estimado (min)</Label>
-                          <Input type="number" value={stage.estimatedTime} readOnly />
+                          <Input
+                            type="number"
+                            min="0"
+                            value={stage.estimatedTime}
+                            onChange={(e) => updateStage(stage.id, { estimatedTime: Math.max(0, parseInt(e.target.value) || 0) })}
+                          />
                         </div>
+                        <div className="flex items-center justify-between">
+                          <Label>Ativa</Label>
+                          <Switch
+                            checked={active}
+                            onCheckedChange={(checked) => updateStage(stage.id, { active: checked })}
+                          />
+                        </div>
+                      </div>
+                      <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-3">
                         <div>
-                          <Label>Habilidades Necessárias</Label>
+                          <Label>Habilidades Necessárias (separadas por vírgula)</Label>
+                          <Input
+                            key={stage.requiredSkills.join(',')}
+                            defaultValue={stage.requiredSkills.join(', ')}
+                            onBlur={(e) => updateStage(stage.id, { requiredSkills: parseSkills(e.target.value) })}
+                          />
                           <div className="flex flex-wrap gap-1 mt-1">
                             {stage.requiredSkills.map(skill => (
                               <Badge key={skill} variant="outline" className="text-xs">
@@ -411,15 +580,64 @@ export default function ProductionSettings({ onClose, onSave }: ProductionSettin
                             ))}
                           </div>
                         </div>
-                      </div>
-                      <div className="mt-3">
-                        <Label>Descrição</Label>
-                        <p className="text-sm text-muted-foreground mt-1">{stage.description}</p>
+                        <div>
+                          <Label>Descrição</Label>
+                          <Input
+                            value={stage.description}
+                            onChange={(e) => updateStage(stage.id, { description: e.target.value })}
+                          />
+                        </div>
                       </div>
                     </CardContent>
                   </Card>
-                ))}
+                  );
+                })}
+              </div>
+            </TabsContent>
+            <TabsContent value="routings" className="space-y-4">
+              <div>
+                <h3 className="text-lg font-medium">Roteiros por Categoria</h3>
+                <p className="text-sm text-muted-foreground">
+                  Etapas percorridas por cada categoria de produto, com o tempo por unidade. Modelos podem ter roteiro próprio no cadastro do produto; sem roteiro, o pedido passa por todas as etapas ativas.
+                </p>
               </div>
+
+              {Object.entries(routingCategoryLabels).map(([category, label]) => (
+                <Card key={category} className="bg-muted/5">
+                  <CardHeader className="pb-2">
+                    <CardTitle className="text-base">{label}</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <RoutingEditor
+                      steps={routings[category] || []}
+                      stages={stages}
+                      onChange={(steps) => setRoutings(prev => ({ ...prev, [category]: steps }))}
+                    />
+                  </CardContent>
+                </Card>
+              ))}
+            </TabsContent>
+            <TabsContent value="quality" className="space-y-4">
+              <div>
+                <h3 className="text-lg font-medium">Checklists de Qualidade</h3>
+                <p className="text-sm text-muted-foreground">
+                  Itens verificados na inspeção do controle de qualidade, por categoria de produto. Pedidos com produtos de várias categorias juntam os itens de todas.
+                </p>
+              </div>
+
+              {Object.entries(routingCategoryLabels).map(([category, label]) => (
+                <Card key={category} className="bg-muted/5">
+                  <CardHeader className="pb-2">
+                    <CardTitle className="text-base">{label}</CardTitle>
+                  </CardHeader>
+                  <CardContent>
+                    <QualityChecklistEditor
+                      checkpoints={qualityChecklists[category] || []}
+                      onChange={(checkpoints) => setQualityChecklists(prev => ({ ...prev, [category]: checkpoints }))}
+                    />
+                  </CardContent>
+                </Card>
+              ))}
             </TabsContent>
           </Tabs>
 
@@ -427,8 +645,16 @@ export default function ProductionSettings({ onClose, onSave }: ProductionSettin
             <Button variant="outline" onClick={onClose}>
               Cancelar
             </Button>
-            <Button onClick={handleSaveSettings} className="bg-biobox-green hover:bg-biobox-green-dark">
-              <Save className="h-4 w-4 mr-2" />
+            <Button
+              onClick={handleSaveSettings}
+              disabled={loading || saving}
+              className="bg-biobox-green hover:bg-biobox-green-dark"
+            >
+              {saving ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <Save className="h-4 w-4 mr-2" />
+              )}
               Salvar Configurações
             </Button>
           </div>
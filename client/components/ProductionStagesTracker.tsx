@@ -27,9 +27,21 @@ import {
   Play,
   Pause,
   Check,
+  SkipForward,
+  AlertTriangle,
 } from "lucide-react";
 import { cn } from "@/lib/utils";
-import { productionStages } from "@/types/production";
+import { useProductionConfig } from "@/hooks/useProductionConfig";
+import {
+  openTimeEntry,
+  stageActionUpdates,
+  syncOrderStages,
+  type StageAction,
+  type TimeEntry,
+} from "@/lib/productionStages";
+import { workedMinutes } from "@/lib/laborTime";
+import { blockingIssuesForStage } from "@/lib/issueTracking";
+import type { ProductionIssue } from "@/types/production";
 
 interface ProductionStage {
   stage: string;
@@ -37,7 +49,13 @@ interface ProductionStage {
   started_at?: string;
   completed_at?: string;
   assigned_operator?: string;
+  assigned_operator_id?: string;
   notes?: string;
+  estimated_minutes?: number;
+  optional?: boolean;
+  skipped?: boolean;
+  paused_at?: string;
+  time_entries?: TimeEntry[];
 }
 
 interface ProductionStagesTrackerProps {
@@ -46,6 +64,7 @@ interface ProductionStagesTrackerProps {
   stages: ProductionStage[];
   onUpdateStage: (stageId: string, updates: Partial<ProductionStage>) => Promise<void>;
   operators?: { id: string; name: string }[];
+  blockingIssues?: ProductionIssue[]; // problemas bloqueantes em aberto do pedido
 }
 
 export default function ProductionStagesTracker({
@@ -54,24 +73,31 @@ export default function ProductionStagesTracker({
   stages = [],
   onUpdateStage,
   operators = [],
+  blockingIssues = [],
 }: ProductionStagesTrackerProps) {
   const [selectedStage, setSelectedStage] = useState<ProductionStage | null>(null);
   const [showStageDialog, setShowStageDialog] = useState(false);
   const [stageNotes, setStageNotes] = useState("");
+  const [stageOperatorId, setStageOperatorId] = useState("");
+  const { stages: stageDefinitions } = useProductionConfig();
 
-  // Garantir que todas as etapas existam
-  const allStages = productionStages.map((stage) => {
-    const existingStage = stages.find((s) => s.stage === stage.id);
-    return (
-      existingStage || {
-        stage: stage.id,
-        status: "pending" as const,
-      }
-    );
-  });
+  // Garantir que todas as etapas configuradas existam
+  const allStages = syncOrderStages(stages, stageDefinitions);
+  const stageInfoOf = (stageId: string) =>
+    stageDefinitions.find((s) => s.id === stageId);
+
+  const blockersOf = (stage: ProductionStage) =>
+    stage.status === "completed"
+      ? []
+      : blockingIssuesForStage(blockingIssues, stage.stage);
+  const selectedBlocked = selectedStage
+    ? blockersOf(selectedStage).length > 0
+    : false;
 
   const completedStages = allStages.filter((s) => s.status === "completed").length;
-  const progress = Math.round((completedStages / productionStages.length) * 100);
+  const progress = allStages.length
+    ? Math.round((completedStages / allStages.length) * 100)
+    : 0;
 
   const getStageIcon = (status: ProductionStage["status"]) => {
     switch (status) {
@@ -98,30 +124,63 @@ export default function ProductionStagesTracker({
   const handleStartStage = async (stage: ProductionStage) => {
     setSelectedStage(stage);
     setStageNotes(stage.notes || "");
+    setStageOperatorId(
+      stage.assigned_operator_id ||
+        operators.find((o) => o.name === stage.assigned_operator)?.id ||
+        "",
+    );
     setShowStageDialog(true);
   };
 
-  const handleUpdateStage = async (newStatus: ProductionStage["status"]) => {
+  // Mesmas ações do quiosque: cada início/retomada abre um intervalo do
+  // operador e cada pausa/conclusão fecha o intervalo aberto
+  const handleUpdateStage = async (action: StageAction | "reopen") => {
     if (!selectedStage) return;
 
-    const updates: Partial<ProductionStage> = {
-      status: newStatus,
-      notes: stageNotes,
-    };
-
-    if (newStatus === "in_progress" && !selectedStage.started_at) {
-      updates.started_at = new Date().toISOString();
-    }
+    const now = new Date().toISOString();
+    // Operador do cadastro vai com o id; sem cadastro, fica o nome da etapa
+    const operatorId = stageOperatorId || undefined;
+    const stageOperator =
+      operators.find((o) => o.id === stageOperatorId)?.name ||
+      selectedStage.assigned_operator ||
+      "";
+    const updates: Partial<ProductionStage> =
+      action === "reopen"
+        ? {
+            status: "in_progress",
+            completed_at: undefined,
+            time_entries: openTimeEntry(
+              selectedStage,
+              stageOperator,
+              now,
+              operatorId,
+            ),
+          }
+        : stageActionUpdates(
+            action,
+            selectedStage,
+            stageOperator,
+            now,
+            operatorId,
+          );
 
-    if (newStatus === "completed") {
-      updates.completed_at = new Date().toISOString();
-    }
-
-    await onUpdateStage(selectedStage.stage, updates);
+    await onUpdateStage(selectedStage.stage, {
+      ...updates,
+      notes: stageNotes,
+    });
     setShowStageDialog(false);
     setSelectedStage(null);
   };
 
+  // Etapa opcional do roteiro: conta como concluída sem ser executada
+  const handleSkipStage = async (stage: ProductionStage) => {
+    await onUpdateStage(stage.stage, {
+      status: "completed",
+      skipped: true,
+      completed_at: new Date().toISOString(),
+    });
+  };
+
   return (
     <>
       <Card>
@@ -129,7 +188,7 @@ export default function ProductionStagesTracker({
           <div className="flex items-center justify-between">
             <CardTitle className="text-lg">Etapas de Produção</CardTitle>
             <Badge variant="outline" className="text-sm">
-              {completedStages}/{productionStages.length} concluídas
+              {completedStages}/{allStages.length} concluídas
             </Badge>
           </div>
           <Progress value={progress} className="mt-2" />
@@ -137,38 +196,74 @@ export default function ProductionStagesTracker({
         <CardContent>
           <div className="space-y-3">
             {allStages.map((stage, index) => {
-              const stageInfo = productionStages.find((s) => s.id === stage.stage);
-              if (!stageInfo) return null;
+              const stageInfo = stageInfoOf(stage.stage);
+              const blockers = blockersOf(stage);
 
               return (
                 <div
                   key={stage.stage}
-                  className="flex items-center justify-between p-3 border border-border rounded-lg hover:bg-muted/50 transition-colors"
+                  className={cn(
+                    "flex items-center justify-between p-3 border border-border rounded-lg hover:bg-muted/50 transition-colors",
+                    blockers.length > 0 && "border-red-500/40 bg-red-500/5"
+                  )}
                 >
                   <div className="flex items-center gap-3 flex-1">
                     {getStageIcon(stage.status)}
                     <div className="flex-1">
                       <div className="flex items-center gap-2">
                         <span className="font-medium text-sm">
-                          {index + 1}. {stageInfo.name}
+                          {index + 1}. {stageInfo?.name || stage.stage}
                         </span>
                         <Badge
                           variant="outline"
                           className={cn("text-xs", getStageColor(stage.status))}
                         >
-                          {stage.status === "completed"
-                            ? "Concluído"
-                            : stage.status === "in_progress"
-                              ? "Em Andamento"
-                              : "Pendente"}
+                          {stage.skipped
+                            ? "Dispensada"
+                            : stage.status === "completed"
+                              ? "Concluído"
+                              : stage.paused_at
+                                ? "Pausada"
+                                : stage.status === "in_progress"
+                                  ? "Em Andamento"
+                                  : "Pendente"}
                         </Badge>
+                        {blockers.length > 0 && (
+                          <Badge
+                            variant="outline"
+                            className="text-xs bg-red-500/10 text-red-500 border-red-500/20"
+                          >
+                            <AlertTriangle className="h-3 w-3 mr-1" />
+                            Bloqueada
+                          </Badge>
+                        )}
                       </div>
                       <p className="text-xs text-muted-foreground mt-1">
-                        {stageInfo.description}
+                        {stageInfo?.description}
+                        {stage.estimated_minutes > 0 &&
+                          ` · Previsto: ${stage.estimated_minutes} min`}
+                        {stage.time_entries?.length > 0 &&
+                          ` · Realizado: ${Math.round(workedMinutes(stage.time_entries))} min`}
+                        {stage.optional && " · Opcional"}
                       </p>
+                      {blockers.map((issue) => (
+                        <p key={issue.id} className="text-xs text-red-500 mt-1">
+                          {issue.description}
+                        </p>
+                      ))}
                     </div>
                   </div>
                   <div className="flex gap-2">
+                    {stage.status === "pending" && stage.optional && (
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => handleSkipStage(stage)}
+                      >
+                        <SkipForward className="h-4 w-4 mr-1" />
+                        Dispensar
+                      </Button>
+                    )}
                     {stage.status === "pending" && (
                       <Button
                         size="sm"
@@ -213,7 +308,7 @@ export default function ProductionStagesTracker({
           <DialogHeader>
             <DialogTitle>
               {selectedStage &&
-                productionStages.find((s) => s.id === selectedStage.stage)?.name}
+                (stageInfoOf(selectedStage.stage)?.name || selectedStage.stage)}
             </DialogTitle>
             <DialogDescription>
               Pedido: {orderNumber}
@@ -221,6 +316,27 @@ export default function ProductionStagesTracker({
           </DialogHeader>
 
           <div className="space-y-4">
+            {operators.length > 0 && (
+              <div>
+                <Label>Operador</Label>
+                <Select
+                  value={stageOperatorId}
+                  onValueChange={setStageOperatorId}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Quem está executando a etapa" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {operators.map((operator) => (
+                      <SelectItem key={operator.id} value={operator.id}>
+                        {operator.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
             <div>
               <Label>Observações</Label>
               <Textarea
@@ -231,25 +347,47 @@ export default function ProductionStagesTracker({
               />
             </div>
 
+            {selectedBlocked && (
+              <p className="flex items-center gap-2 text-sm text-red-500">
+                <AlertTriangle className="h-4 w-4" />
+                Etapa bloqueada por problema em aberto. Resolva-o para avançar.
+              </p>
+            )}
+
             <div className="flex gap-2 justify-end">
               {selectedStage?.status === "pending" && (
-                <Button onClick={() => handleUpdateStage("in_progress")}>
+                <Button
+                  onClick={() => handleUpdateStage("start")}
+                  disabled={selectedBlocked}
+                >
                   <Play className="h-4 w-4 mr-2" />
                   Iniciar Etapa
                 </Button>
               )}
               {selectedStage?.status === "in_progress" && (
                 <>
+                  {selectedStage.paused_at ? (
+                    <Button
+                      variant="outline"
+                      onClick={() => handleUpdateStage("resume")}
+                      disabled={selectedBlocked}
+                    >
+                      <Play className="h-4 w-4 mr-2" />
+                      Retomar
+                    </Button>
+                  ) : (
+                    <Button
+                      variant="outline"
+                      onClick={() => handleUpdateStage("pause")}
+                    >
+                      <Pause className="h-4 w-4 mr-2" />
+                      Pausar
+                    </Button>
+                  )}
                   <Button
-                    variant="outline"
-                    onClick={() => handleUpdateStage("pending")}
-                  >
-                    <Pause className="h-4 w-4 mr-2" />
-                    Pausar
-                  </Button>
-                  <Button
-                    onClick={() => handleUpdateStage("completed")}
+                    onClick={() => handleUpdateStage("complete")}
                     className="bg-green-500 hover:bg-green-600"
+                    disabled={selectedBlocked}
                   >
                     <Check className="h-4 w-4 mr-2" />
                     Concluir Etapa
@@ -259,7 +397,7 @@ export default function ProductionStagesTracker({
               {selectedStage?.status === "completed" && (
                 <Button
                   variant="outline"
-                  onClick={() => handleUpdateStage("in_progress")}
+                  onClick={() => handleUpdateStage("reopen")}
                 >
                   Reabrir Etapa
                 </Button>
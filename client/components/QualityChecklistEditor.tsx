@@ -0,0 +1,125 @@
+import { useState } from "react";
+import { ArrowDown, ArrowUp, Plus, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { createCheckpoint } from "@/lib/qualityControl";
+import type { QualityCheckpoint } from "@/types/production";
+
+interface QualityChecklistEditorProps {
+  checkpoints: QualityCheckpoint[];
+  onChange: (checkpoints: QualityCheckpoint[]) => void;
+}
+
+/** Itens verificados na inspeção, na ordem do formulário. */
+export default function QualityChecklistEditor({
+  checkpoints,
+  onChange,
+}: QualityChecklistEditorProps) {
+  const [newName, setNewName] = useState("");
+
+  const updateCheckpoint = (
+    index: number,
+    changes: Partial<QualityCheckpoint>,
+  ) =>
+    onChange(
+      checkpoints.map((item, i) =>
+        i === index ? { ...item, ...changes } : item,
+      ),
+    );
+
+  const moveCheckpoint = (index: number, offset: -1 | 1) => {
+    const target = index + offset;
+    if (target < 0 || target >= checkpoints.length) return;
+    const reordered = [...checkpoints];
+    [reordered[index], reordered[target]] = [
+      reordered[target],
+      reordered[index],
+    ];
+    onChange(reordered);
+  };
+
+  const addCheckpoint = () => {
+    if (!newName.trim()) return;
+    onChange([...checkpoints, createCheckpoint(newName, checkpoints)]);
+    setNewName("");
+  };
+
+  return (
+    <div className="space-y-2">
+      {checkpoints.map((checkpoint, index) => (
+        <div
+          key={checkpoint.id}
+          className="grid grid-cols-12 items-center gap-2 rounded-md border px-3 py-1.5 text-sm"
+        >
+          <Input
+            className="col-span-5 h-8"
+            value={checkpoint.name}
+            onChange={(e) => updateCheckpoint(index, { name: e.target.value })}
+          />
+          <Input
+            className="col-span-4 h-8"
+            placeholder="Como verificar (opcional)"
+            value={checkpoint.description || ""}
+            onChange={(e) =>
+              updateCheckpoint(index, {
+                description: e.target.value || undefined,
+              })
+            }
+          />
+          <div className="col-span-3 flex justify-end">
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              className="h-7 w-7 p-0"
+              disabled={index === 0}
+              onClick={() => moveCheckpoint(index, -1)}
+            >
+              <ArrowUp className="h-3 w-3" />
+            </Button>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              className="h-7 w-7 p-0"
+              disabled={index === checkpoints.length - 1}
+              onClick={() => moveCheckpoint(index, 1)}
+            >
+              <ArrowDown className="h-3 w-3" />
+            </Button>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              className="h-7 w-7 p-0"
+              onClick={() =>
+                onChange(checkpoints.filter((_, i) => i !== index))
+              }
+            >
+              <X className="h-3 w-3" />
+            </Button>
+          </div>
+        </div>
+      ))}
+
+      <div className="flex items-center gap-2">
+        <Input
+          className="h-8 w-72"
+          placeholder="Novo item de inspeção"
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          onKeyDown={(e) => e.key === "Enter" && addCheckpoint()}
+        />
+        <Button
+          type="button"
+          size="sm"
+          variant="outline"
+          onClick={addCheckpoint}
+          disabled={!newName.trim()}
+        >
+          <Plus className="h-4 w-4" />
+        </Button>
+      </div>
+    </div>
+  );
+}
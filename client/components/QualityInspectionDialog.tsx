@@ -0,0 +1,502 @@
+import { useEffect, useMemo, useState } from "react";
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { Camera, Check, ClipboardCheck, X } from "lucide-react";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/components/ui/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import type { Order } from "@/hooks/useFirebase";
+import { useProductionConfig } from "@/hooks/useProductionConfig";
+import { useProducts } from "@/hooks/useProducts";
+import { createProductionIssue } from "@/lib/productionIssues";
+import { syncOrderStages } from "@/lib/productionStages";
+import {
+  checklistFor,
+  failureDescription,
+  INSPECTION_PHOTO_BUDGET,
+  inspectionResult,
+  photosSize,
+  reworkStages,
+} from "@/lib/qualityControl";
+import { fetchInspections, saveInspection } from "@/lib/qualityInspections";
+import { cn } from "@/lib/utils";
+import {
+  issueSeverityLabels,
+  type ProductionIssue,
+  type QualityCheck,
+  type QualityInspection,
+} from "@/types/production";
+
+interface QualityInspectionDialogProps {
+  order: Order;
+  open: boolean;
+  onCancel: () => void;
+  /** Inspeção registrada; `updates` leva o pedido para pronto ou retrabalho */
+  onComplete: (
+    result: QualityInspection["result"],
+    updates: Partial<Order>,
+  ) => void | Promise<void>;
+}
+
+type CheckDraft = Pick<QualityCheck, "status" | "notes" | "photos">;
+
+const MAX_PHOTOS = 3;
+const PHOTO_SIZE = 800;
+
+/** Reduz a foto para caber no registro da inspeção. */
+function resizePhoto(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const image = new Image();
+    image.onload = () => {
+      const scale = Math.min(
+        1,
+        PHOTO_SIZE / Math.max(image.width, image.height),
+      );
+      const canvas = document.createElement("canvas");
+      canvas.width = Math.round(image.width * scale);
+      canvas.height = Math.round(image.height * scale);
+      canvas
+        .getContext("2d")
+        ?.drawImage(image, 0, 0, canvas.width, canvas.height);
+      URL.revokeObjectURL(url);
+      resolve(canvas.toDataURL("image/jpeg", 0.7));
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error("Imagem inválida"));
+    };
+    image.src = url;
+  });
+}
+
+/**
+ * Formulário de inspeção do controle de qualidade. Aprovada, libera o pedido;
+ * reprovada, devolve o pedido para a etapa escolhida e abre um problema de
+ * qualidade com os itens reprovados.
+ */
+export default function QualityInspectionDialog({
+  order,
+  open,
+  onCancel,
+  onComplete,
+}: QualityInspectionDialogProps) {
+  const { user } = useAuth();
+  const { config, stages } = useProductionConfig();
+  const { products } = useProducts();
+  const { toast } = useToast();
+  const [checks, setChecks] = useState<Record<string, CheckDraft>>({});
+  const [notes, setNotes] = useState("");
+  const [reworkStage, setReworkStage] = useState("");
+  const [severity, setSeverity] =
+    useState<ProductionIssue["severity"]>("medium");
+  const [history, setHistory] = useState<QualityInspection[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  const checklist = useMemo(
+    () =>
+      checklistFor(
+        (order.products || [])
+          .map(
+            (item) => products.find((p) => p.id === item.product_id)?.category,
+          )
+          .filter(Boolean),
+        config,
+      ),
+    [order.products, products, config],
+  );
+
+  const orderStages = useMemo(
+    () =>
+      syncOrderStages(order.production_stages || [], stages).filter(
+        (entry) => !entry.skipped,
+      ),
+    [order.production_stages, stages],
+  );
+
+  useEffect(() => {
+    if (!open) return;
+    setChecks({});
+    setNotes("");
+    setSeverity("medium");
+    // Retrabalho costuma voltar para a última etapa executada
+    setReworkStage(orderStages[orderStages.length - 1]?.stage || "");
+    fetchInspections(order.id).then(setHistory);
+  }, [open, order.id]);
+
+  const draftOf = (checkpointId: string): CheckDraft =>
+    checks[checkpointId] || { status: "pending" };
+
+  const updateCheck = (checkpointId: string, changes: Partial<CheckDraft>) =>
+    setChecks((prev) => ({
+      ...prev,
+      [checkpointId]: { status: "pending", ...prev[checkpointId], ...changes },
+    }));
+
+  const addPhotos = async (checkpointId: string, files: FileList | null) => {
+    const current = draftOf(checkpointId).photos || [];
+    const selected = Array.from(files || []).slice(
+      0,
+      MAX_PHOTOS - current.length,
+    );
+    try {
+      const photos = await Promise.all(selected.map(resizePhoto));
+      if (
+        photosSize([...Object.values(checks), { photos }]) >
+        INSPECTION_PHOTO_BUDGET
+      ) {
+        throw new Error(
+          "Limite de fotos da inspeção atingido; remova alguma antes de adicionar outra",
+        );
+      }
+      updateCheck(checkpointId, { photos: [...current, ...photos] });
+    } catch (error) {
+      toast({
+        title: "Foto não adicionada",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const drafts = checklist.map((checkpoint) => ({
+    checkpoint,
+    ...draftOf(checkpoint.id),
+  }));
+  const result = inspectionResult(drafts);
+  const stageName = (stageId: string) =>
+    stages.find((s) => s.id === stageId)?.name || stageId;
+
+  const handleSubmit = async () => {
+    if (result === "pending") return;
+    if (result === "failed" && !reworkStage) return;
+
+    setSaving(true);
+    try {
+      const now = new Date();
+      const inspector = user?.name || "Sistema";
+      const inspectionChecks: QualityCheck[] = drafts.map((draft) => ({
+        id: `${order.id}-${draft.checkpoint.id}-${now.getTime()}`,
+        taskId: order.id,
+        checkpointId: draft.checkpoint.id,
+        checkpointName: draft.checkpoint.name,
+        status: draft.status,
+        inspector,
+        checkedAt: now,
+        notes: draft.notes?.trim() || undefined,
+        photos: draft.photos?.length ? draft.photos : undefined,
+      }));
+
+      const inspection = await saveInspection({
+        orderId: order.id,
+        orderNumber: order.order_number,
+        inspector,
+        inspectedAt: now,
+        result,
+        checks: inspectionChecks,
+        notes: notes.trim() || undefined,
+        reworkStage: result === "failed" ? reworkStage : undefined,
+      });
+
+      if (result === "passed") {
+        await onComplete(result, { quality_inspection_id: inspection.id });
+        return;
+      }
+
+      await createProductionIssue({
+        taskId: order.id,
+        orderNumber: order.order_number,
+        stage: reworkStage,
+        inspectionId: inspection.id,
+        type: "quality",
+        severity,
+        description: failureDescription(inspectionChecks, notes),
+        reportedBy: inspector,
+      });
+      await onComplete(result, {
+        quality_inspection_id: inspection.id,
+        production_stages: reworkStages(
+          order.production_stages || [],
+          stages,
+          reworkStage,
+        ),
+      });
+    } catch (error) {
+      console.error(
+        "❌ [QualityInspectionDialog] Erro ao registrar inspeção:",
+        error,
+      );
+      toast({
+        title: "Erro ao registrar inspeção",
+        description: (error as Error).message || "Tente novamente",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(value) => !value && onCancel()}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ClipboardCheck className="h-5 w-5 text-primary" />
+            Inspeção de Qualidade
+          </DialogTitle>
+          <DialogDescription>
+            Pedido {order.order_number}
+            {order.customer_name && ` · ${order.customer_name}`}. Avalie cada
+            item; qualquer reprovação devolve o pedido para retrabalho.
+          </DialogDescription>
+        </DialogHeader>
+
+        {history.length > 0 && (
+          <div className="rounded-md border bg-muted/30 p-3 text-sm space-y-1">
+            <p className="font-medium">Inspeções anteriores</p>
+            {history.map((inspection) => (
+              <p key={inspection.id} className="text-muted-foreground">
+                {format(inspection.inspectedAt, "dd/MM/yyyy HH:mm", {
+                  locale: ptBR,
+                })}{" "}
+                · {inspection.inspector} ·{" "}
+                {inspection.result === "passed" ? (
+                  <span className="text-green-600">aprovada</span>
+                ) : (
+                  <span className="text-red-500">
+                    reprovada
+                    {inspection.reworkStage &&
+                      `, retrabalho em ${stageName(inspection.reworkStage)}`}
+                  </span>
+                )}
+              </p>
+            ))}
+          </div>
+        )}
+
+        <div className="space-y-3">
+          {drafts.map(({ checkpoint, status, notes: checkNotes, photos }) => (
+            <div
+              key={checkpoint.id}
+              className={cn(
+                "rounded-md border p-3 space-y-2",
+                status === "failed" && "border-red-500/50 bg-red-500/5",
+                status === "passed" && "border-green-500/50 bg-green-500/5",
+              )}
+            >
+              <div className="flex items-center justify-between gap-3">
+                <div>
+                  <p className="font-medium text-sm">{checkpoint.name}</p>
+                  {checkpoint.description && (
+                    <p className="text-xs text-muted-foreground">
+                      {checkpoint.description}
+                    </p>
+                  )}
+                </div>
+                <div className="flex gap-2">
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant={status === "passed" ? "default" : "outline"}
+                    className={cn(
+                      status === "passed" && "bg-green-500 hover:bg-green-600",
+                    )}
+                    onClick={() =>
+                      updateCheck(checkpoint.id, { status: "passed" })
+                    }
+                  >
+                    <Check className="h-4 w-4 mr-1" />
+                    OK
+                  </Button>
+                  <Button
+                    type="button"
+                    size="sm"
+                    variant={status === "failed" ? "default" : "outline"}
+                    className={cn(
+                      status === "failed" && "bg-red-500 hover:bg-red-600",
+                    )}
+                    onClick={() =>
+                      updateCheck(checkpoint.id, { status: "failed" })
+                    }
+                  >
+                    <X className="h-4 w-4 mr-1" />
+                    Reprovar
+                  </Button>
+                </div>
+              </div>
+
+              <div className="flex items-center gap-2">
+                <Input
+                  className="h-8"
+                  placeholder="Observações"
+                  value={checkNotes || ""}
+                  onChange={(e) =>
+                    updateCheck(checkpoint.id, { notes: e.target.value })
+                  }
+                />
+                <Button
+                  type="button"
+                  size="sm"
+                  variant="outline"
+                  disabled={(photos?.length || 0) >= MAX_PHOTOS}
+                  asChild
+                >
+                  <label className="cursor-pointer">
+                    <Camera className="h-4 w-4 mr-1" />
+                    Foto
+                    <input
+                      type="file"
+                      accept="image/*"
+                      capture="environment"
+                      multiple
+                      className="hidden"
+                      onChange={(e) => {
+                        addPhotos(checkpoint.id, e.target.files);
+                        e.target.value = "";
+                      }}
+                    />
+                  </label>
+                </Button>
+              </div>
+
+              {photos?.length > 0 && (
+                <div className="flex gap-2">
+                  {photos.map((photo, index) => (
+                    <div key={index} className="relative">
+                      <img
+                        src={photo}
+                        alt={`${checkpoint.name} ${index + 1}`}
+                        className="h-16 w-16 rounded object-cover border"
+                      />
+                      <button
+                        type="button"
+                        className="absolute -right-1 -top-1 rounded-full bg-background border p-0.5"
+                        onClick={() =>
+                          updateCheck(checkpoint.id, {
+                            photos: photos.filter((_, i) => i !== index),
+                          })
+                        }
+                      >
+                        <X className="h-3 w-3" />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+
+        <div>
+          <Label>Observações gerais</Label>
+          <Textarea
+            value={notes}
+            onChange={(e) => setNotes(e.target.value)}
+            rows={2}
+          />
+        </div>
+
+        {result === "failed" && (
+          <div className="grid gap-3 rounded-md border border-red-500/30 p-3 sm:grid-cols-2">
+            <div>
+              <Label>Voltar para a etapa</Label>
+              <Select value={reworkStage} onValueChange={setReworkStage}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Etapa do retrabalho" />
+                </SelectTrigger>
+                <SelectContent>
+                  {orderStages.map((entry) => (
+                    <SelectItem key={entry.stage} value={entry.stage}>
+                      {stageName(entry.stage)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="mt-1 text-xs text-muted-foreground">
+                Ela e as etapas seguintes voltam a pendente.
+              </p>
+            </div>
+            <div>
+              <Label>Gravidade do problema</Label>
+              <Select
+                value={severity}
+                onValueChange={(value) =>
+                  setSeverity(value as ProductionIssue["severity"])
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(issueSeverityLabels).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter className="items-center">
+          <Badge
+            variant="outline"
+            className={cn(
+              "mr-auto",
+              result === "passed" && "text-green-600",
+              result === "failed" && "text-red-500",
+            )}
+          >
+            {result === "passed"
+              ? "Aprovado"
+              : result === "failed"
+                ? "Reprovado"
+                : `${drafts.filter((d) => d.status === "pending").length} item(ns) sem avaliação`}
+          </Badge>
+          <Button variant="outline" onClick={onCancel} disabled={saving}>
+            Cancelar
+          </Button>
+          <Button
+            onClick={handleSubmit}
+            disabled={
+              saving ||
+              result === "pending" ||
+              (result === "failed" && !reworkStage)
+            }
+            className={
+              result === "failed"
+                ? "bg-red-500 hover:bg-red-600"
+                : "bg-green-500 hover:bg-green-600"
+            }
+          >
+            {saving
+              ? "Registrando..."
+              : result === "failed"
+                ? "Reprovar e enviar para retrabalho"
+                : "Aprovar pedido"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,223 @@
+import { useEffect, useState } from "react";
+import { AlertTriangle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/components/ui/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import type { Order } from "@/hooks/useFirebase";
+import { useProductionConfig } from "@/hooks/useProductionConfig";
+import { createProductionIssue } from "@/lib/productionIssues";
+import { currentStage, syncOrderStages } from "@/lib/productionStages";
+import {
+  issueSeverityLabels,
+  issueTypeLabels,
+  type ProductionIssue,
+} from "@/types/production";
+
+interface ReportIssueDialogProps {
+  order: Pick<Order, "id" | "order_number" | "production_stages">;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Etapa sugerida; sem ela, a etapa atual do pedido */
+  stage?: string;
+  /** Quem reporta, quando não é o usuário logado (operador do quiosque) */
+  reportedBy?: string;
+  /** Botões maiores para a tela de toque do quiosque */
+  touch?: boolean;
+}
+
+/** Abre um problema de produção contra uma etapa do pedido. */
+export default function ReportIssueDialog({
+  order,
+  open,
+  onOpenChange,
+  stage,
+  reportedBy,
+  touch,
+}: ReportIssueDialogProps) {
+  const { user } = useAuth();
+  const { stages } = useProductionConfig();
+  const { toast } = useToast();
+  const [type, setType] = useState<ProductionIssue["type"]>("material");
+  const [severity, setSeverity] =
+    useState<ProductionIssue["severity"]>("medium");
+  const [stageId, setStageId] = useState("");
+  const [description, setDescription] = useState("");
+  const [blocking, setBlocking] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  const orderStages = syncOrderStages(order.production_stages || [], stages);
+
+  useEffect(() => {
+    if (!open) return;
+    setType("material");
+    setSeverity("medium");
+    setStageId(stage || currentStage(orderStages)?.stage || "");
+    setDescription("");
+    setBlocking(true);
+  }, [open, order.id]);
+
+  const handleSubmit = async () => {
+    setSaving(true);
+    try {
+      await createProductionIssue({
+        taskId: order.id,
+        orderNumber: order.order_number,
+        stage: stageId || undefined,
+        type,
+        severity,
+        blocking,
+        description: description.trim(),
+        reportedBy: reportedBy || user?.name || "Sistema",
+      });
+      toast({
+        title: "Problema registrado",
+        description: blocking
+          ? `${order.order_number}: etapa bloqueada até a resolução`
+          : order.order_number,
+      });
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Erro ao registrar problema:", error);
+      toast({
+        title: "Erro",
+        description: "Não foi possível registrar o problema",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className={touch ? "max-w-xl text-lg" : "max-w-lg"}>
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <AlertTriangle className="h-5 w-5 text-orange-500" />
+            Reportar problema
+          </DialogTitle>
+          <DialogDescription>Pedido {order.order_number}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid gap-3 sm:grid-cols-2">
+            <div>
+              <Label>Tipo</Label>
+              <Select
+                value={type}
+                onValueChange={(value) =>
+                  setType(value as ProductionIssue["type"])
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(issueTypeLabels).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label>Gravidade</Label>
+              <Select
+                value={severity}
+                onValueChange={(value) =>
+                  setSeverity(value as ProductionIssue["severity"])
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(issueSeverityLabels).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div>
+            <Label>Etapa</Label>
+            <Select value={stageId} onValueChange={setStageId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Pedido inteiro" />
+              </SelectTrigger>
+              <SelectContent>
+                {orderStages.map((entry) => (
+                  <SelectItem key={entry.stage} value={entry.stage}>
+                    {stages.find((s) => s.id === entry.stage)?.name ||
+                      entry.stage}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div>
+            <Label>Descrição</Label>
+            <Textarea
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="O que aconteceu?"
+              rows={3}
+            />
+          </div>
+
+          <div className="flex items-center justify-between rounded-md border p-3">
+            <div>
+              <Label>Bloqueia a etapa</Label>
+              <p className="text-sm text-muted-foreground">
+                A etapa não avança até o problema ser resolvido.
+              </p>
+            </div>
+            <Switch checked={blocking} onCheckedChange={setBlocking} />
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button
+            variant="outline"
+            size={touch ? "lg" : "default"}
+            onClick={() => onOpenChange(false)}
+            disabled={saving}
+          >
+            Cancelar
+          </Button>
+          <Button
+            size={touch ? "lg" : "default"}
+            className="bg-orange-500 hover:bg-orange-600 text-white"
+            onClick={handleSubmit}
+            disabled={saving || !description.trim()}
+          >
+            {saving ? "Registrando..." : "Registrar problema"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
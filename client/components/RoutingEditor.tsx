@@ -0,0 +1,163 @@
+import { useState } from "react";
+import { ArrowDown, ArrowUp, Plus, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { activeStages } from "@/lib/productionStages";
+import type { ProductionStage, RoutingStep } from "@/types/production";
+
+interface RoutingEditorProps {
+  steps: RoutingStep[];
+  stages: ProductionStage[];
+  onChange: (steps: RoutingStep[]) => void;
+}
+
+/** Etapas do roteiro, na ordem em que o produto passa por elas. */
+export default function RoutingEditor({
+  steps,
+  stages,
+  onChange,
+}: RoutingEditorProps) {
+  const [newStageId, setNewStageId] = useState("");
+
+  const available = activeStages(stages).filter(
+    (stage) => !steps.some((step) => step.stageId === stage.id),
+  );
+
+  const updateStep = (index: number, changes: Partial<RoutingStep>) =>
+    onChange(
+      steps.map((step, i) => (i === index ? { ...step, ...changes } : step)),
+    );
+
+  const moveStep = (index: number, offset: -1 | 1) => {
+    const target = index + offset;
+    if (target < 0 || target >= steps.length) return;
+    const reordered = [...steps];
+    [reordered[index], reordered[target]] = [
+      reordered[target],
+      reordered[index],
+    ];
+    onChange(reordered);
+  };
+
+  const addStep = () => {
+    const stage = stages.find((s) => s.id === newStageId);
+    if (!stage) return;
+    onChange([
+      ...steps,
+      { stageId: stage.id, minutesPerUnit: stage.estimatedTime },
+    ]);
+    setNewStageId("");
+  };
+
+  return (
+    <div className="space-y-2">
+      {steps.map((step, index) => {
+        const stage = stages.find((s) => s.id === step.stageId);
+        return (
+          <div
+            key={step.stageId}
+            className="grid grid-cols-12 items-center gap-2 rounded-md border px-3 py-1.5 text-sm"
+          >
+            <span className="col-span-4 font-medium">
+              {index + 1}. {stage?.name || step.stageId}
+              {stage?.active === false && (
+                <span className="text-xs text-muted-foreground">
+                  {" "}
+                  (desativada)
+                </span>
+              )}
+            </span>
+            <div className="col-span-3 flex items-center gap-1">
+              <Input
+                type="number"
+                min="0"
+                className="h-8"
+                value={step.minutesPerUnit}
+                onChange={(e) =>
+                  updateStep(index, {
+                    minutesPerUnit: Math.max(0, parseInt(e.target.value) || 0),
+                  })
+                }
+              />
+              <span className="text-xs text-muted-foreground">min/un.</span>
+            </div>
+            <label className="col-span-2 flex items-center gap-2 text-xs">
+              <Switch
+                checked={!!step.optional}
+                onCheckedChange={(checked) =>
+                  updateStep(index, { optional: checked || undefined })
+                }
+              />
+              Opcional
+            </label>
+            <div className="col-span-3 flex justify-end">
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                className="h-7 w-7 p-0"
+                disabled={index === 0}
+                onClick={() => moveStep(index, -1)}
+              >
+                <ArrowUp className="h-3 w-3" />
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                className="h-7 w-7 p-0"
+                disabled={index === steps.length - 1}
+                onClick={() => moveStep(index, 1)}
+              >
+                <ArrowDown className="h-3 w-3" />
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                className="h-7 w-7 p-0"
+                onClick={() => onChange(steps.filter((_, i) => i !== index))}
+              >
+                <X className="h-3 w-3" />
+              </Button>
+            </div>
+          </div>
+        );
+      })}
+
+      {available.length > 0 && (
+        <div className="flex items-center gap-2">
+          <Select value={newStageId} onValueChange={setNewStageId}>
+            <SelectTrigger className="h-8 w-56">
+              <SelectValue placeholder="Adicionar etapa" />
+            </SelectTrigger>
+            <SelectContent>
+              {available.map((stage) => (
+                <SelectItem key={stage.id} value={stage.id}>
+                  {stage.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            type="button"
+            size="sm"
+            variant="outline"
+            onClick={addStep}
+            disabled={!newStageId}
+          >
+            <Plus className="h-4 w-4" />
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+}
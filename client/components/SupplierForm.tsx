@@ -0,0 +1,296 @@
+import { useEffect, useState } from "react";
+import { Plus, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { formatCnpj, isValidCnpj } from "@/lib/cnpj";
+import type { SupplierInput } from "@/lib/suppliers";
+import type { Supplier, SupplierContact } from "@/types/supplier";
+
+interface SupplierFormProps {
+  open: boolean;
+  supplier?: Supplier | null;
+  saving?: boolean;
+  onSave: (data: SupplierInput) => void | Promise<void>;
+  onClose: () => void;
+}
+
+const emptyForm = (): SupplierInput => ({
+  name: "",
+  cnpj: "",
+  contacts: [],
+  leadTimeDays: 7,
+  paymentTerms: "",
+  notes: "",
+  status: "active",
+});
+
+const emptyContact: SupplierContact = {
+  name: "",
+  role: "",
+  email: "",
+  phone: "",
+};
+
+export default function SupplierForm({
+  open,
+  supplier,
+  saving,
+  onSave,
+  onClose,
+}: SupplierFormProps) {
+  const [formData, setFormData] = useState<SupplierInput>(emptyForm);
+  const [error, setError] = useState("");
+
+  useEffect(() => {
+    if (!open) return;
+    setError("");
+    setFormData(
+      supplier
+        ? {
+            name: supplier.name,
+            cnpj: supplier.cnpj,
+            contacts: supplier.contacts,
+            leadTimeDays: supplier.leadTimeDays,
+            paymentTerms: supplier.paymentTerms,
+            notes: supplier.notes || "",
+            status: supplier.status,
+          }
+        : emptyForm(),
+    );
+  }, [open, supplier]);
+
+  const updateContact = (index: number, changes: Partial<SupplierContact>) =>
+    setFormData((prev) => ({
+      ...prev,
+      contacts: prev.contacts.map((contact, i) =>
+        i === index ? { ...contact, ...changes } : contact,
+      ),
+    }));
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (formData.cnpj && !isValidCnpj(formData.cnpj)) {
+      setError("CNPJ inválido");
+      return;
+    }
+    await onSave({
+      ...formData,
+      name: formData.name.trim(),
+      paymentTerms: formData.paymentTerms.trim(),
+      contacts: formData.contacts.filter((contact) => contact.name.trim()),
+    });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(value) => !value && onClose()}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <DialogHeader>
+            <DialogTitle>
+              {supplier ? "Editar Fornecedor" : "Novo Fornecedor"}
+            </DialogTitle>
+          </DialogHeader>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="col-span-2">
+              <Label htmlFor="supplier-name">Razão Social / Nome *</Label>
+              <Input
+                id="supplier-name"
+                value={formData.name}
+                onChange={(e) =>
+                  setFormData((prev) => ({ ...prev, name: e.target.value }))
+                }
+                required
+              />
+            </div>
+            <div>
+              <Label htmlFor="supplier-cnpj">CNPJ</Label>
+              <Input
+                id="supplier-cnpj"
+                value={formData.cnpj}
+                onChange={(e) => {
+                  setError("");
+                  setFormData((prev) => ({
+                    ...prev,
+                    cnpj: formatCnpj(e.target.value),
+                  }));
+                }}
+                placeholder="12.345.678/0001-90"
+              />
+              {error && <p className="text-xs text-red-500 mt-1">{error}</p>}
+            </div>
+            <div>
+              <Label>Status</Label>
+              <Select
+                value={formData.status}
+                onValueChange={(value) =>
+                  setFormData((prev) => ({
+                    ...prev,
+                    status: value as SupplierInput["status"],
+                  }))
+                }
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="active">Ativo</SelectItem>
+                  <SelectItem value="inactive">Inativo</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div>
+              <Label htmlFor="supplier-lead-time">
+                Prazo de Entrega (dias)
+              </Label>
+              <Input
+                id="supplier-lead-time"
+                type="number"
+                min="0"
+                value={formData.leadTimeDays}
+                onChange={(e) =>
+                  setFormData((prev) => ({
+                    ...prev,
+                    leadTimeDays: Math.max(0, parseInt(e.target.value) || 0),
+                  }))
+                }
+              />
+            </div>
+            <div>
+              <Label htmlFor="supplier-payment">Condição de Pagamento</Label>
+              <Input
+                id="supplier-payment"
+                value={formData.paymentTerms}
+                onChange={(e) =>
+                  setFormData((prev) => ({
+                    ...prev,
+                    paymentTerms: e.target.value,
+                  }))
+                }
+                placeholder="Ex: 30/60 dias, À vista"
+              />
+            </div>
+          </div>
+
+          {/* Contatos */}
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Contatos</Label>
+              <Button
+                type="button"
+                variant="outline"
+                size="sm"
+                onClick={() =>
+                  setFormData((prev) => ({
+                    ...prev,
+                    contacts: [...prev.contacts, { ...emptyContact }],
+                  }))
+                }
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                Adicionar
+              </Button>
+            </div>
+            {formData.contacts.map((contact, index) => (
+              <div key={index} className="grid grid-cols-12 gap-2">
+                <Input
+                  className="col-span-3"
+                  value={contact.name}
+                  onChange={(e) =>
+                    updateContact(index, { name: e.target.value })
+                  }
+                  placeholder="Nome"
+                />
+                <Input
+                  className="col-span-2"
+                  value={contact.role || ""}
+                  onChange={(e) =>
+                    updateContact(index, { role: e.target.value })
+                  }
+                  placeholder="Setor"
+                />
+                <Input
+                  className="col-span-3"
+                  type="email"
+                  value={contact.email || ""}
+                  onChange={(e) =>
+                    updateContact(index, { email: e.target.value })
+                  }
+                  placeholder="E-mail"
+                />
+                <Input
+                  className="col-span-3"
+                  value={contact.phone || ""}
+                  onChange={(e) =>
+                    updateContact(index, { phone: e.target.value })
+                  }
+                  placeholder="Telefone"
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="col-span-1"
+                  onClick={() =>
+                    setFormData((prev) => ({
+                      ...prev,
+                      contacts: prev.contacts.filter((_, i) => i !== index),
+                    }))
+                  }
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            ))}
+          </div>
+
+          <div>
+            <Label htmlFor="supplier-notes">Observações</Label>
+            <Textarea
+              id="supplier-notes"
+              value={formData.notes}
+              onChange={(e) =>
+                setFormData((prev) => ({ ...prev, notes: e.target.value }))
+              }
+              rows={2}
+            />
+          </div>
+
+          <DialogFooter>
+            <Button
+              type="button"
+              variant="outline"
+              onClick={onClose}
+              disabled={saving}
+            >
+              Cancelar
+            </Button>
+            <Button
+              type="submit"
+              className="bg-biobox-green hover:bg-biobox-green-dark"
+              disabled={saving || !formData.name.trim()}
+            >
+              {saving ? "Salvando..." : "Salvar Fornecedor"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,175 @@
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { cn } from "@/lib/utils";
+import { useSyncStatus } from "@/hooks/useSyncStatus";
+import type { OutboxEntry } from "@/lib/syncQueue";
+import {
+  AlertTriangle,
+  CheckCircle2,
+  CloudOff,
+  RefreshCw,
+  UploadCloud,
+} from "lucide-react";
+
+const collectionLabels: Record<OutboxEntry["collection"], string> = {
+  orders: "Pedido",
+  customers: "Cliente",
+  products: "Produto",
+};
+
+const operationLabels: Record<OutboxEntry["operation"], string> = {
+  create: "criação",
+  update: "alteração",
+  delete: "exclusão",
+};
+
+const formatDateTime = (value?: string | null) =>
+  value
+    ? new Date(value).toLocaleString("pt-BR", {
+        day: "2-digit",
+        month: "2-digit",
+        hour: "2-digit",
+        minute: "2-digit",
+      })
+    : "-";
+
+export default function SyncStatusBadge() {
+  const {
+    pending,
+    conflicts,
+    syncing,
+    online,
+    lastSyncAt,
+    sync,
+    resolveConflict,
+  } = useSyncStatus();
+
+  const total = pending.length + conflicts.length;
+  const Icon = !online
+    ? CloudOff
+    : conflicts.length > 0
+      ? AlertTriangle
+      : pending.length > 0
+        ? UploadCloud
+        : CheckCircle2;
+
+  const title = !online
+    ? "Sem conexão"
+    : conflicts.length > 0
+      ? `${conflicts.length} conflito(s) de sincronização`
+      : pending.length > 0
+        ? `${pending.length} alteração(ões) aguardando sincronização`
+        : "Tudo sincronizado";
+
+  const describe = (entry: OutboxEntry) =>
+    `${collectionLabels[entry.collection]} ${entry.label || entry.docId}`;
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          title={title}
+          className={cn(
+            "relative",
+            conflicts.length > 0 && "text-destructive",
+            conflicts.length === 0 && pending.length > 0 && "text-amber-500",
+            total === 0 && online && "text-muted-foreground",
+          )}
+        >
+          <Icon className={cn("h-4 w-4", syncing && "animate-pulse")} />
+          {total > 0 && (
+            <Badge
+              variant={conflicts.length > 0 ? "destructive" : "secondary"}
+              className="absolute -top-1 -right-1 h-4 min-w-4 px-1 text-[10px] leading-none"
+            >
+              {total}
+            </Badge>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent side="right" align="end" className="w-80">
+        <div className="flex items-center justify-between mb-2">
+          <div>
+            <p className="text-sm font-medium">Sincronização</p>
+            <p className="text-xs text-muted-foreground">
+              Última: {formatDateTime(lastSyncAt)}
+            </p>
+          </div>
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={sync}
+            disabled={syncing || !online || pending.length === 0}
+          >
+            <RefreshCw
+              className={cn("h-3 w-3 mr-1", syncing && "animate-spin")}
+            />
+            Sincronizar
+          </Button>
+        </div>
+
+        {total === 0 ? (
+          <p className="text-sm text-muted-foreground py-2">{title}</p>
+        ) : (
+          <ScrollArea className="max-h-72">
+            <div className="space-y-2">
+              {conflicts.map((entry) => (
+                <div
+                  key={entry.id}
+                  className="rounded-md border border-destructive/40 p-2 text-xs space-y-2"
+                >
+                  <div>
+                    <p className="font-medium">{describe(entry)}</p>
+                    <p className="text-muted-foreground">
+                      {entry.remote
+                        ? `Alterado por outro usuário em ${formatDateTime(entry.remote.updated_at)} após sua ${operationLabels[entry.operation]} offline.`
+                        : `Excluído por outro usuário antes da sua ${operationLabels[entry.operation]} offline.`}
+                    </p>
+                  </div>
+                  <div className="flex gap-2">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="h-7 text-xs"
+                      disabled={syncing}
+                      onClick={() => resolveConflict(entry.id, "local")}
+                    >
+                      Manter a minha
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      className="h-7 text-xs"
+                      disabled={syncing}
+                      onClick={() => resolveConflict(entry.id, "remote")}
+                    >
+                      Usar a do servidor
+                    </Button>
+                  </div>
+                </div>
+              ))}
+              {pending.map((entry) => (
+                <div key={entry.id} className="rounded-md border p-2 text-xs">
+                  <p className="font-medium">{describe(entry)}</p>
+                  <p className="text-muted-foreground">
+                    {operationLabels[entry.operation]} em{" "}
+                    {formatDateTime(entry.queuedAt)}
+                    {entry.attempts > 0 && ` · ${entry.attempts} tentativa(s)`}
+                  </p>
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -7,6 +7,13 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Checkbox } from "@/components/ui/checkbox";
 import { Badge } from "@/components/ui/badge";
 import { Textarea } from "@/components/ui/textarea";
+import { useToast } from "@/components/ui/use-toast";
+import { useLabelTemplates } from "@/hooks/useLabelTemplates";
+import { renderLabelTemplate } from "@/lib/labelTemplates";
+import { getPrintBridgeConfig, sendPrintJob } from "@/lib/printBridge";
+import { labelTypeLabels } from "@/types/label";
+import { encodeEscPos, layoutToEscPos, previewEscPos, type EscPosCommand } from "@shared/escpos";
+import type { PrintBridgeConfigResponse, PrintTarget } from "@shared/api";
 import { 
   Printer, 
   Settings, 
@@ -18,7 +25,8 @@ import {
   User,
   Wifi,
   Usb,
-  Bluetooth
+  Bluetooth,
+  Network
 } from "lucide-react";
 
 interface ThermalPrintSettings {
@@ -29,10 +37,20 @@ interface ThermalPrintSettings {
   connection: 'usb' | 'bluetooth' | 'wifi' | 'ethernet';
   copies: number;
   cutAfterPrint: boolean;
-  includeDate: boolean;
-  includeCompanyLogo: boolean;
+  /** Modelo de etiqueta; 'default' usa o padrão de cada tipo */
+  templateId: string;
+  /** Impressora de rede (host ou host:porta); vazio usa a padrão do servidor */
+  printerHost: string;
+  /** Dispositivo USB liberado no servidor (ex.: /dev/usb/lp0) */
+  devicePath: string;
 }
 
+const PAPER_COLUMNS: Record<ThermalPrintSettings['paperWidth'], number> = {
+  '58mm': 32,
+  '80mm': 48,
+  '110mm': 64
+};
+
 interface PrintItem {
   id: string;
   code: string;
@@ -51,13 +69,24 @@ export default function ThermalPrintManager() {
     connection: 'usb',
     copies: 1,
     cutAfterPrint: true,
-    includeDate: true,
-    includeCompanyLogo: true
+    templateId: 'default',
+    printerHost: '',
+    devicePath: ''
   });
 
   const [selectedItems, setSelectedItems] = useState<string[]>([]);
   const [customText, setCustomText] = useState('');
   const [previewMode, setPreviewMode] = useState(false);
+  const [printing, setPrinting] = useState(false);
+  const [bridge, setBridge] = useState<PrintBridgeConfigResponse | null>(null);
+  const { templates, templateFor } = useLabelTemplates();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    getPrintBridgeConfig()
+      .then(setBridge)
+      .catch((error) => console.warn('⚠️ [ThermalPrintManager] Ponte de impressão indisponível:', error));
+  }, []);
 
   const mockItems: PrintItem[] = [
     {
@@ -98,68 +127,80 @@ export default function ThermalPrintManager() {
     }
   };
 
-  const generateThermalLabel = (item: PrintItem) => {
-    const width = settings.paperWidth === '58mm' ? 32 : settings.paperWidth === '80mm' ? 48 : 64;
-    
-    let label = '';
-    
-    // Header with company info
-    if (settings.includeCompanyLogo) {
-      label += '='.repeat(width) + '\\n';
-      label += ' '.repeat(Math.floor((width - 8) / 2)) + 'BIOBOX\\n';
-      label += ' '.repeat(Math.floor((width - 16) / 2)) + 'Sistema de Produção\\n';
-      label += '='.repeat(width) + '\\n\\n';
-    }
-    
-    // Item info
-    label += `CÓDIGO: ${item.code}\\n`;
-    label += `ITEM: ${item.name}\\n`;
-    if (item.description) {
-      label += `DESC: ${item.description}\\n`;
-    }
-    label += `QTD: ${item.quantity}\\n`;
-    
-    // Barcode simulation
-    label += '\\n';
-    label += '||||| || ||| | || ||||| | ||| || |||||\\n';
-    label += ' '.repeat(Math.floor((width - item.code.length) / 2)) + item.code + '\\n';
-    
-    // Date and custom text
-    if (settings.includeDate) {
-      const date = new Date().toLocaleDateString('pt-BR');
-      label += `\\nDATA: ${date}\\n`;
-    }
-    
+  const columns = PAPER_COLUMNS[settings.paperWidth];
+
+  const labelCommands = (item: PrintItem): EscPosCommand[] => {
+    // Cabeçalho, campos e códigos vêm do modelo de etiqueta do tipo do item
+    const template = templateFor(item.type, settings.templateId === 'default' ? undefined : settings.templateId);
+    const commands = layoutToEscPos(
+      renderLabelTemplate(template, {
+        code: item.code,
+        name: item.name,
+        description: item.description,
+        quantity: item.quantity
+      })
+    );
+
     if (customText.trim()) {
-      label += `\\n${customText}\\n`;
+      commands.push(
+        { type: 'feed' },
+        ...customText.trim().split('\n').map((line): EscPosCommand => ({ type: 'text', value: line }))
+      );
+    }
+
+    commands.push(
+      settings.cutAfterPrint ? { type: 'cut' } : { type: 'rule' }
+    );
+
+    return commands;
+  };
+
+  const getPrintTarget = (): PrintTarget | undefined => {
+    if (settings.connection === 'usb') {
+      return settings.devicePath ? { type: 'device', path: settings.devicePath } : undefined;
     }
-    
-    label += '\\n' + '-'.repeat(width) + '\\n';
-    
-    return label;
+    const [host, port] = settings.printerHost.trim().split(':');
+    return host ? { type: 'network', host, port: Number(port) || 9100 } : undefined;
   };
 
   const handlePrint = async () => {
     const selectedItemsData = mockItems.filter(item => selectedItems.includes(item.id));
-    
+
     if (selectedItemsData.length === 0) {
-      alert('Selecione pelo menos um item para imprimir');
+      toast({ title: 'Selecione pelo menos um item para imprimir', variant: 'destructive' });
+      return;
+    }
+    if (settings.connection === 'bluetooth') {
+      toast({
+        title: 'Bluetooth não suportado',
+        description: 'Use uma impressora USB ou de rede (Wi-Fi/Ethernet)',
+        variant: 'destructive'
+      });
       return;
     }
 
-    // Simulate printing process
-    console.log('Configurações de impressão:', settings);
-    console.log('Itens selecionados:', selectedItemsData);
-    
-    for (let copy = 1; copy <= settings.copies; copy++) {
-      for (const item of selectedItemsData) {
-        const label = generateThermalLabel(item);
-        console.log(`Imprimindo cópia ${copy} do item ${item.name}:`);
-        console.log(label);
-      }
+    try {
+      setPrinting(true);
+      const data = encodeEscPos(selectedItemsData.flatMap(labelCommands), {
+        columns,
+        density: settings.density,
+        speed: settings.speed
+      });
+      await sendPrintJob(data, { target: getPrintTarget(), copies: settings.copies });
+      toast({
+        title: 'Etiquetas enviadas',
+        description: `${selectedItemsData.length} etiqueta(s) x ${settings.copies} cópia(s)`
+      });
+    } catch (error) {
+      console.error('❌ Erro ao imprimir etiquetas:', error);
+      toast({
+        title: 'Erro ao imprimir',
+        description: (error as Error).message || 'Ocorreu um erro inesperado',
+        variant: 'destructive'
+      });
+    } finally {
+      setPrinting(false);
     }
-    
-    alert(`Enviado para impressão: ${selectedItemsData.length} etiqueta(s) x ${settings.copies} cópia(s)`);
   };
 
   const handlePreview = () => {
@@ -174,6 +215,8 @@ export default function ThermalPrintManager() {
         return <Bluetooth className="h-4 w-4" />;
       case 'usb':
         return <Usb className="h-4 w-4" />;
+      case 'ethernet':
+        return <Network className="h-4 w-4" />;
       default:
         return <Settings className="h-4 w-4" />;
     }
@@ -270,6 +313,12 @@ export default function ThermalPrintManager() {
                       <span>Wi-Fi</span>
                     </div>
                   </SelectItem>
+                  <SelectItem value="ethernet">
+                    <div className="flex items-center space-x-2">
+                      <Network className="h-4 w-4" />
+                      <span>Ethernet</span>
+                    </div>
+                  </SelectItem>
                 </SelectContent>
               </Select>
             </div>
@@ -286,6 +335,94 @@ export default function ThermalPrintManager() {
             </div>
           </div>
           
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mt-4">
+            <div>
+              <Label>Modelo de Etiqueta</Label>
+              <Select
+                value={settings.templateId}
+                onValueChange={(value) => handleSettingChange('templateId', value)}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="default">Padrão de cada tipo</SelectItem>
+                  {templates.map(template => (
+                    <SelectItem key={template.id} value={template.id}>
+                      {labelTypeLabels[template.labelType]} · {template.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {settings.connection === 'usb' ? (
+              <div>
+                <Label>Dispositivo USB</Label>
+                {bridge?.devices.length ? (
+                  <Select
+                    value={settings.devicePath || 'default'}
+                    onValueChange={(value) => handleSettingChange('devicePath', value === 'default' ? '' : value)}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="default">Impressora padrão do servidor</SelectItem>
+                      {bridge.devices.map(device => (
+                        <SelectItem key={device} value={device}>{device}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                ) : (
+                  <Input
+                    placeholder="/dev/usb/lp0"
+                    value={settings.devicePath}
+                    onChange={(e) => handleSettingChange('devicePath', e.target.value)}
+                  />
+                )}
+              </div>
+            ) : settings.connection !== 'bluetooth' && (
+              <div>
+                <Label>Endereço da Impressora</Label>
+                {bridge?.hosts.length ? (
+                  <Select
+                    value={settings.printerHost || 'default'}
+                    onValueChange={(value) => handleSettingChange('printerHost', value === 'default' ? '' : value)}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="default">Impressora padrão do servidor</SelectItem>
+                      {bridge.hosts.map(host => (
+                        <SelectItem key={host} value={host}>{host}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                ) : (
+                  <Input
+                    placeholder="192.168.0.50:9100"
+                    value={settings.printerHost}
+                    onChange={(e) => handleSettingChange('printerHost', e.target.value)}
+                  />
+                )}
+              </div>
+            )}
+            <div className="flex items-end">
+              <p className="text-sm text-muted-foreground flex items-center space-x-2">
+                {getConnectionIcon(settings.connection)}
+                <span>
+                  {settings.connection === 'bluetooth'
+                    ? 'Bluetooth não é suportado pela ponte de impressão'
+                    : bridge?.target
+                      ? `Padrão do servidor: ${bridge.target.type === 'network' ? `${bridge.target.host}:${bridge.target.port}` : bridge.target.path}`
+                      : 'Nenhuma impressora padrão configurada no servidor'}
+                </span>
+              </p>
+            </div>
+          </div>
+
           <div className="flex flex-wrap gap-4 mt-4">
             <div className="flex items-center space-x-2">
               <Checkbox 
@@ -294,22 +431,6 @@ export default function ThermalPrintManager() {
               />
               <Label className="text-sm">Cortar após impressão</Label>
             </div>
-            
-            <div className="flex items-center space-x-2">
-              <Checkbox 
-                checked={settings.includeDate}
-                onCheckedChange={(checked) => handleSettingChange('includeDate', checked)}
-              />
-              <Label className="text-sm">Incluir data</Label>
-            </div>
-            
-            <div className="flex items-center space-x-2">
-              <Checkbox 
-                checked={settings.includeCompanyLogo}
-                onCheckedChange={(checked) => handleSettingChange('includeCompanyLogo', checked)}
-              />
-              <Label className="text-sm">Incluir cabeçalho da empresa</Label>
-            </div>
           </div>
         </CardContent>
       </Card>
@@ -379,7 +500,7 @@ export default function ThermalPrintManager() {
                 .filter(item => selectedItems.includes(item.id))
                 .map(item => (
                   <pre key={item.id} className="whitespace-pre-wrap mb-4">
-                    {generateThermalLabel(item)}
+                    {previewEscPos(labelCommands(item), columns)}
                   </pre>
                 ))}
             </div>
@@ -400,10 +521,14 @@ export default function ThermalPrintManager() {
         
         <Button 
           onClick={handlePrint}
-          disabled={selectedItems.length === 0}
+          disabled={selectedItems.length === 0 || printing}
           className="bg-biobox-green hover:bg-biobox-green-dark"
         >
-          <Printer className="h-4 w-4 mr-2" />
+          {printing ? (
+            <RefreshCw className="h-4 w-4 mr-2 animate-spin" />
+          ) : (
+            <Printer className="h-4 w-4 mr-2" />
+          )}
           Imprimir Etiquetas ({selectedItems.length} item{selectedItems.length !== 1 ? 's' : ''})
         </Button>
       </div>
@@ -2,6 +2,7 @@ import { useState, useEffect } from "react";
 import { db, isFirebaseConfigured } from "@/lib/firebase";
 import {
   addDoc,
+  arrayUnion,
   collection,
   deleteDoc,
   doc,
@@ -16,6 +17,15 @@ import {
 import { useAuth } from "./useAuth";
 import { logActivity } from "@/lib/activityLogger";
 import { sanitizeForFirestore } from "@/lib/firestore";
+import { generateOrderNumber, isOrderNumberTaken } from "@/lib/orderNumbering";
+import { applyPendingMutations, enqueueMutation } from "@/lib/syncQueue";
+import { notifyOrdersChanged } from "@/lib/orderEvents";
+import { updateReservations } from "@/lib/materials";
+import { fetchOrderRouting } from "@/lib/productionConfig";
+import type { MaterialRequirement } from "@/lib/bom";
+import type { TimeEntry } from "@/lib/productionStages";
+import { assertTransition, createStatusChange } from "@shared/orderStatus";
+import type { OrderStatusChange } from "@shared/api";
 
 // Tipos para o banco de dados
 export interface User {
@@ -95,6 +105,9 @@ export interface Order {
   production_progress: number;
   assigned_operator?: string;
   notes?: string;
+  cancellation_reason?: string;
+  /** Inspeção do CQ que liberou (ou reprovou) o pedido */
+  quality_inspection_id?: string;
   created_at: string;
   updated_at: string;
   customer_name?: string;
@@ -111,7 +124,22 @@ export interface Order {
     started_at?: string;
     completed_at?: string;
     assigned_operator?: string;
+    /** Id do operador no cadastro, quando a etapa foi apontada no quiosque */
+    assigned_operator_id?: string;
+    /** Tempo previsto pelo roteiro para todos os itens do pedido */
+    estimated_minutes?: number;
+    /** Etapa opcional do roteiro; pode ser dispensada */
+    optional?: boolean;
+    skipped?: boolean;
+    /** Etapa em andamento pausada pelo operador */
+    paused_at?: string;
+    /** Intervalos trabalhados por operador (início/retomada até pausa/fim) */
+    time_entries?: TimeEntry[];
   }[];
+  /** Histórico de mudanças de status (somente inclusão) */
+  status_history?: OrderStatusChange[];
+  /** Matéria-prima reservada na confirmação (liberada ou baixada depois) */
+  material_reservations?: MaterialRequirement[];
 }
 
 export interface OrderFragment {
@@ -130,6 +158,8 @@ export interface OrderFragment {
   assigned_operator?: string;
   started_at?: string;
   completed_at?: string;
+  /** Etapas do fragmento; situação e progresso são derivados delas */
+  production_stages?: Order["production_stages"];
 }
 
 export interface OrderProduct {
@@ -148,6 +178,57 @@ export interface OrderProduct {
   created_at: string;
 }
 
+export const normalizeStatus = (value: any): string => {
+  if (!value) return "pending";
+  if (typeof value === "string") {
+    const v = value.toLowerCase().trim();
+    if (["pending", "pendente", "pendent", "aguardando"].includes(v))
+      return "pending";
+    if (["confirmed", "confirmado", "confirmada"].includes(v))
+      return "confirmed";
+    if (
+      ["in_production", "em_producao", "em produção", "producing"].includes(v)
+    )
+      return "in_production";
+    if (["quality_check", "checagem_qualidade", "quality"].includes(v))
+      return "quality_check";
+    if (["ready", "pronto", "prontos"].includes(v)) return "ready";
+    if (
+      [
+        "delivered",
+        "entregue",
+        "concluido",
+        "concluído",
+        "completed",
+        "finalizado",
+      ].includes(v)
+    )
+      return "delivered";
+    if (["cancelled", "cancelado", "cancelada"].includes(v)) return "cancelled";
+    return v;
+  }
+  return String(value);
+};
+
+/**
+ * Converte um documento da coleção `orders` (timestamps do Firestore,
+ * status em português de registros antigos) para o formato `Order`.
+ */
+export function normalizeOrderDocument(id: string, data: any): Order {
+  const created = (data.created_at?.toDate?.() as Date) || new Date();
+  const updated = (data.updated_at?.toDate?.() as Date) || created;
+  const { id: _ignored, ...dataWithoutId } = data;
+
+  return {
+    ...dataWithoutId,
+    id,
+    status: normalizeStatus(data.status ?? dataWithoutId.status),
+    priority: data.priority ?? dataWithoutId.priority ?? "medium",
+    created_at: created.toISOString(),
+    updated_at: updated.toISOString(),
+  } as Order;
+}
+
 export function useFirebase() {
   const [isConnected, setIsConnected] = useState(false);
   const [loading, setLoading] = useState(true);
@@ -164,39 +245,6 @@ export function useFirebase() {
     });
   }, [user]);
 
-  const normalizeStatus = (value: any): string => {
-    if (!value) return "pending";
-    if (typeof value === "string") {
-      const v = value.toLowerCase().trim();
-      if (["pending", "pendente", "pendent", "aguardando"].includes(v))
-        return "pending";
-      if (["confirmed", "confirmado", "confirmada"].includes(v))
-        return "confirmed";
-      if (
-        ["in_production", "em_producao", "em produção", "producing"].includes(v)
-      )
-        return "in_production";
-      if (["quality_check", "checagem_qualidade", "quality"].includes(v))
-        return "quality_check";
-      if (["ready", "pronto", "prontos"].includes(v)) return "ready";
-      if (
-        [
-          "delivered",
-          "entregue",
-          "concluido",
-          "concluído",
-          "completed",
-          "finalizado",
-        ].includes(v)
-      )
-        return "delivered";
-      if (["cancelled", "cancelado", "cancelada"].includes(v))
-        return "cancelled";
-      return v;
-    }
-    return String(value);
-  };
-
   const mockUsers: User[] = [
     {
       id: "550e8400-e29b-41d4-a716-446655440000",
@@ -316,10 +364,13 @@ export function useFirebase() {
     if (db) {
       try {
         const snap = await getDocs(collection(db, "customers"));
-        const customers = snap.docs.map((d) => ({
-          id: d.id,
-          ...(d.data() as any),
-        }));
+        const customers = applyPendingMutations(
+          "customers",
+          snap.docs.map((d) => ({
+            id: d.id,
+            ...(d.data() as any),
+          })),
+        );
         console.log("✅ [getCustomers] Firestore:", customers.length);
         return customers;
       } catch (err) {
@@ -338,8 +389,9 @@ export function useFirebase() {
     if (db) {
       try {
         const snap = await getDocs(collection(db, "products"));
-        const products = snap.docs.map((d) =>
-          normalizeProductRecord(d.data(), d.id),
+        const products = applyPendingMutations(
+          "products",
+          snap.docs.map((d) => normalizeProductRecord(d.data(), d.id)),
         );
         console.log("✅ [getProducts] Firestore:", products.length);
         return products;
@@ -382,7 +434,8 @@ export function useFirebase() {
     if (db) {
       try {
         const base = collection(db, "orders");
-        const shouldFetchAll = !user || user.role === "admin";
+        // Só vendedores ficam restritos aos próprios pedidos; a produção vê todos
+        const shouldFetchAll = !user || user.role !== "seller";
 
         console.log("👤 [getOrders] Filtro:", {
           shouldFetchAll,
@@ -423,27 +476,14 @@ export function useFirebase() {
           return uniqueParsed;
         }
 
-        const orders = snap.docs.map((d) => {
-          const data = d.data() as any;
-          const created = (data.created_at?.toDate?.() as Date) || new Date();
-          const updated = (data.updated_at?.toDate?.() as Date) || created;
-          const { id: _ignored, ...dataWithoutId } = data;
-
-          const order = {
-            ...dataWithoutId,
-            id: d.id,
-            status: normalizeStatus(data.status ?? dataWithoutId.status),
-            priority: data.priority ?? dataWithoutId.priority ?? "medium",
-            created_at: created.toISOString(),
-            updated_at: updated.toISOString(),
-          } as Order;
-
-          return order;
-        });
+        const orders = snap.docs.map((d) =>
+          normalizeOrderDocument(d.id, d.data()),
+        );
 
-        // Desduplicar pedidos por ID
-        const uniqueOrders = Array.from(
-          new Map(orders.map((item) => [item.id, item])).values(),
+        // Desduplicar pedidos por ID e reaplicar escritas ainda não sincronizadas
+        const uniqueOrders = applyPendingMutations(
+          "orders",
+          Array.from(new Map(orders.map((item) => [item.id, item])).values()),
         );
 
         console.log("✅ [getOrders] Pedidos processados do Firestore:", {
@@ -462,7 +502,7 @@ export function useFirebase() {
 
         // Salvar no localStorage para cache
         try {
-          localStorage.setItem("biobox_orders", JSON.stringify(orders));
+          localStorage.setItem("biobox_orders", JSON.stringify(uniqueOrders));
           console.log("💾 [getOrders] Pedidos salvos no cache");
         } catch (err) {
           console.warn("⚠️ [getOrders] Erro ao salvar cache:", err);
@@ -516,7 +556,7 @@ export function useFirebase() {
   ): Promise<Order | null> => {
     console.log("➕ [createOrder] Criando pedido:", orderData);
 
-    const orderNumber = `ORD-${new Date().getFullYear()}-${String(Math.floor(Math.random() * 10000)).padStart(4, "0")}`;
+    const orderNumber = await generateOrderNumber();
     const dataToSave = {
       order_number: orderNumber,
       customer_id: orderData.customer_id!,
@@ -539,13 +579,9 @@ export function useFirebase() {
       customer_email: orderData.customer_email,
       seller_name: user?.name,
       products: orderData.products || [],
-      production_stages: [
-        { stage: "cutting_sewing", status: "pending" },
-        { stage: "carpentry", status: "pending" },
-        { stage: "upholstery", status: "pending" },
-        { stage: "assembly", status: "pending" },
-        { stage: "packaging", status: "pending" },
-        { stage: "delivery", status: "pending" },
+      production_stages: await fetchOrderRouting(orderData.products || []),
+      status_history: [
+        createStatusChange(null, orderData.status || "pending", user),
       ],
     };
 
@@ -569,13 +605,7 @@ export function useFirebase() {
 
         console.log("✅ [createOrder] Pedido criado no Firestore:", saved.id);
 
-        try {
-          if (typeof window !== "undefined") {
-            window.dispatchEvent(
-              new CustomEvent("orders:changed", { detail: { id: saved.id } }),
-            );
-          }
-        } catch {}
+        notifyOrdersChanged({ id: saved.id });
 
         await logActivity({
           userId: user?.id,
@@ -612,6 +642,13 @@ export function useFirebase() {
     // Salvar no localStorage
     const updatedOrders = [saved, ...orders];
     localStorage.setItem("biobox_orders", JSON.stringify(updatedOrders));
+    enqueueMutation({
+      collection: "orders",
+      operation: "create",
+      docId: saved.id,
+      data: saved,
+      label: saved.order_number,
+    });
     console.log(
       "💾 [createOrder] Total de pedidos após salvar:",
       updatedOrders.length,
@@ -619,13 +656,7 @@ export function useFirebase() {
 
     console.log("✅ [createOrder] Pedido criado no localStorage:", saved.id);
 
-    try {
-      if (typeof window !== "undefined") {
-        window.dispatchEvent(
-          new CustomEvent("orders:changed", { detail: { id: saved.id } }),
-        );
-      }
-    } catch {}
+    notifyOrdersChanged({ id: saved.id });
 
     await logActivity({
       userId: user?.id,
@@ -640,23 +671,104 @@ export function useFirebase() {
     return saved;
   };
 
+  // Estado atual do pedido, para validar a mudança de status
+  const readOrderForTransition = async (
+    orderId: string,
+  ): Promise<Order | null> => {
+    if (db) {
+      try {
+        const snap = await getDoc(doc(db, "orders", orderId));
+        if (snap.exists()) {
+          const [order] = applyPendingMutations("orders", [
+            normalizeOrderDocument(snap.id, snap.data()),
+          ]);
+          return order;
+        }
+      } catch (err) {
+        console.warn(
+          "⚠️ [updateOrder] Não foi possível ler o pedido no Firestore:",
+          err,
+        );
+      }
+    }
+    try {
+      const stored: Order[] = JSON.parse(
+        localStorage.getItem("biobox_orders") || "[]",
+      );
+      return stored.find((o) => o.id === orderId) || null;
+    } catch {
+      return null;
+    }
+  };
+
   const updateOrder = async (
     orderId: string,
-    updates: Partial<Order>,
+    changes: Partial<Order>,
+    options: { comment?: string } = {},
   ): Promise<Order | null> => {
+    // O histórico nunca é regravado pelos chamadores (muitos enviam o pedido inteiro)
+    const { status_history: _history, ...updates } = changes;
     console.log("✏️ [updateOrder] Atualizando pedido:", { orderId, updates });
 
+    if (
+      updates.order_number &&
+      (await isOrderNumberTaken(updates.order_number, orderId))
+    ) {
+      throw new Error(
+        `O número de pedido ${updates.order_number} já está em uso`,
+      );
+    }
+
+    let statusChange: OrderStatusChange | null = null;
+    let settleReservations: (() => Promise<void>) | null = null;
+    if (updates.status) {
+      const current = await readOrderForTransition(orderId);
+      if (current) {
+        assertTransition(current, updates.status, user, updates);
+        if (current.status !== updates.status) {
+          statusChange = createStatusChange(
+            current.status,
+            updates.status,
+            user,
+            options.comment ?? updates.cancellation_reason,
+          );
+        }
+
+        // Cancelamento devolve a reserva; produção pronta dá baixa no estoque
+        const reservations = current.material_reservations || [];
+        const mode =
+          updates.status === "cancelled"
+            ? "release"
+            : updates.status === "ready"
+              ? "consume"
+              : null;
+        if (mode && reservations.length > 0) {
+          updates.material_reservations = [];
+          // Só depois de gravar o pedido: se a gravação falhar, o estoque fica intacto
+          settleReservations = () =>
+            updateReservations(
+              reservations,
+              mode,
+              current.order_number,
+              user?.name || "Sistema",
+            );
+        }
+      }
+    }
+
     const now = new Date().toISOString();
+    let saved: Order | null = null;
     // Sempre tentar ler do Firestore se o objeto DB existe, ignorando o estado isConnected
     if (db) {
       try {
-        await updateDoc(
-          doc(db, "orders", orderId),
-          sanitizeForFirestore({
+        await updateDoc(doc(db, "orders", orderId), {
+          ...(sanitizeForFirestore({
             ...updates,
             updated_at: serverTimestamp(),
-          }) as any,
-        );
+          }) as any),
+          // arrayUnion: inclui a entrada sem sobrescrever as de outros usuários
+          ...(statusChange && { status_history: arrayUnion(statusChange) }),
+        });
         const snap = await getDoc(doc(db, "orders", orderId));
         const data = snap.data() as any;
         const created = (data.created_at?.toDate?.() as Date) || new Date();
@@ -664,15 +776,7 @@ export function useFirebase() {
 
         console.log("✅ [updateOrder] Pedido atualizado no Firestore");
 
-        try {
-          if (typeof window !== "undefined") {
-            window.dispatchEvent(
-              new CustomEvent("orders:changed", { detail: { id: orderId } }),
-            );
-          }
-        } catch {}
-
-        return {
+        saved = {
           id: snap.id,
           ...data,
           created_at: created.toISOString(),
@@ -686,16 +790,37 @@ export function useFirebase() {
       }
     }
 
+    if (saved) {
+      await settleReservations?.();
+      notifyOrdersChanged({ id: orderId });
+      return saved;
+    }
+
     // Ler pedidos existentes diretamente do localStorage (sem usar getOrders para evitar race condition)
     console.log("💾 [updateOrder] Lendo pedidos do localStorage...");
     const storedOrders = localStorage.getItem("biobox_orders");
     const orders: Order[] = storedOrders ? JSON.parse(storedOrders) : [];
     console.log("💾 [updateOrder] Pedidos existentes:", orders.length);
 
+    const previous = orders.find((o) => o.id === orderId);
+    const localUpdates: Partial<Order> = statusChange
+      ? {
+          ...updates,
+          status_history: [...(previous?.status_history || []), statusChange],
+        }
+      : updates;
     const updatedOrders = orders.map((o) =>
-      o.id === orderId ? { ...o, ...updates, updated_at: now } : o,
+      o.id === orderId ? { ...o, ...localUpdates, updated_at: now } : o,
     );
     localStorage.setItem("biobox_orders", JSON.stringify(updatedOrders));
+    enqueueMutation({
+      collection: "orders",
+      operation: "update",
+      docId: orderId,
+      data: localUpdates,
+      baseUpdatedAt: previous?.updated_at,
+      label: previous?.order_number,
+    });
     console.log(
       "💾 [updateOrder] Total de pedidos após atualizar:",
       updatedOrders.length,
@@ -703,13 +828,8 @@ export function useFirebase() {
 
     console.log("✅ [updateOrder] Pedido atualizado no localStorage");
 
-    try {
-      if (typeof window !== "undefined") {
-        window.dispatchEvent(
-          new CustomEvent("orders:changed", { detail: { id: orderId } }),
-        );
-      }
-    } catch {}
+    await settleReservations?.();
+    notifyOrdersChanged({ id: orderId });
 
     return updatedOrders.find((o) => o.id === orderId) || null;
   };
@@ -723,6 +843,7 @@ export function useFirebase() {
         try {
           await deleteDoc(doc(db, "orders", orderId));
           console.log("✅ [deleteOrder] Pedido deletado do Firebase");
+          notifyOrdersChanged({ id: orderId });
 
           await logActivity({
             userId: user?.id,
@@ -750,13 +871,22 @@ export function useFirebase() {
       const orders: Order[] = storedOrders ? JSON.parse(storedOrders) : [];
       console.log("💾 [deleteOrder] Pedidos existentes:", orders.length);
 
+      const previous = orders.find((o) => o.id === orderId);
       const filtered = orders.filter((o) => o.id !== orderId);
       localStorage.setItem("biobox_orders", JSON.stringify(filtered));
+      enqueueMutation({
+        collection: "orders",
+        operation: "delete",
+        docId: orderId,
+        baseUpdatedAt: previous?.updated_at,
+        label: previous?.order_number,
+      });
       console.log(
         "💾 [deleteOrder] Total de pedidos após deletar:",
         filtered.length,
       );
       console.log("✅ [deleteOrder] Pedido removido do localStorage");
+      notifyOrdersChanged({ id: orderId });
       return true;
     } catch (error) {
       console.error("❌ [deleteOrder] Erro ao deletar pedido:", error);
@@ -848,6 +978,13 @@ export function useFirebase() {
       "biobox_products",
       JSON.stringify([saved, ...products]),
     );
+    enqueueMutation({
+      collection: "products",
+      operation: "create",
+      docId: saved.id,
+      data: saved,
+      label: saved.name,
+    });
     console.log("✅ [createProduct] Produto criado no localStorage");
     return saved;
   };
@@ -886,6 +1023,7 @@ export function useFirebase() {
     }
 
     const products = await getProducts();
+    const previousProduct = products.find((p) => p.id === productId);
     const updatedProducts = products.map((p) =>
       p.id === productId
         ? normalizeProductRecord(
@@ -895,6 +1033,14 @@ export function useFirebase() {
         : p,
     );
     localStorage.setItem("biobox_products", JSON.stringify(updatedProducts));
+    enqueueMutation({
+      collection: "products",
+      operation: "update",
+      docId: productId,
+      data: updates,
+      baseUpdatedAt: previousProduct?.updated_at,
+      label: previousProduct?.name,
+    });
     console.log("✅ [updateProduct] Produto atualizado no localStorage");
     return updatedProducts.find((p) => p.id === productId) || null;
   };
@@ -914,8 +1060,16 @@ export function useFirebase() {
     }
 
     const products = await getProducts();
+    const previousProduct = products.find((p) => p.id === productId);
     const filtered = products.filter((p) => p.id !== productId);
     localStorage.setItem("biobox_products", JSON.stringify(filtered));
+    enqueueMutation({
+      collection: "products",
+      operation: "delete",
+      docId: productId,
+      baseUpdatedAt: previousProduct?.updated_at,
+      label: previousProduct?.name,
+    });
     console.log("✅ [deleteProduct] Produto deletado do localStorage");
     return true;
   };
@@ -963,6 +1117,13 @@ export function useFirebase() {
       "biobox_customers",
       JSON.stringify([saved, ...customers]),
     );
+    enqueueMutation({
+      collection: "customers",
+      operation: "create",
+      docId: saved.id,
+      data: saved,
+      label: saved.name,
+    });
     console.log("✅ [createCustomer] Cliente criado no localStorage");
     return saved;
   };
@@ -1006,10 +1167,19 @@ export function useFirebase() {
     }
 
     const customers = await getCustomers();
+    const previousCustomer = customers.find((c) => c.id === customerId);
     const updated = customers.map((c) =>
       c.id === customerId ? { ...c, ...updates, updated_at: now } : c,
     );
     localStorage.setItem("biobox_customers", JSON.stringify(updated));
+    enqueueMutation({
+      collection: "customers",
+      operation: "update",
+      docId: customerId,
+      data: updates,
+      baseUpdatedAt: previousCustomer?.updated_at,
+      label: previousCustomer?.name,
+    });
 
     console.log("��� [updateCustomer] Cliente atualizado no localStorage");
 
@@ -1031,8 +1201,16 @@ export function useFirebase() {
     }
 
     const customers = await getCustomers();
+    const previousCustomer = customers.find((c) => c.id === customerId);
     const filtered = customers.filter((c) => c.id !== customerId);
     localStorage.setItem("biobox_customers", JSON.stringify(filtered));
+    enqueueMutation({
+      collection: "customers",
+      operation: "delete",
+      docId: customerId,
+      baseUpdatedAt: previousCustomer?.updated_at,
+      label: previousCustomer?.name,
+    });
     console.log("✅ [deleteCustomer] Cliente deletado do localStorage");
     return true;
   };
@@ -0,0 +1,49 @@
+import { useCallback, useEffect, useState } from "react";
+import { useAuth } from "./useAuth";
+import {
+  defaultLabelConfig,
+  fetchLabelConfig,
+  saveLabelConfig,
+} from "@/lib/labelConfig";
+import { resolveLabelTemplate } from "@/lib/labelTemplates";
+import type { LabelConfig, LabelType } from "@/types/label";
+
+/** Modelos de etiqueta salvos e o modelo padrão de cada tipo. */
+export function useLabelTemplates() {
+  const { user } = useAuth();
+  const [config, setConfig] = useState<LabelConfig>(defaultLabelConfig);
+  const [loading, setLoading] = useState(true);
+
+  const reload = useCallback(async () => {
+    try {
+      setConfig(await fetchLabelConfig());
+    } catch (err) {
+      console.error("❌ [useLabelTemplates] Erro ao carregar modelos:", err);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    reload();
+    const onChange = () => reload();
+    window.addEventListener("label-config:changed", onChange);
+    return () => window.removeEventListener("label-config:changed", onChange);
+  }, [reload]);
+
+  /** Modelo escolhido ou, sem escolha, o padrão do tipo. */
+  const templateFor = (labelType: LabelType, templateId?: string) =>
+    resolveLabelTemplate(config, labelType, templateId);
+
+  const saveConfig = (data: LabelConfig) =>
+    saveLabelConfig(data, user?.name || "Sistema");
+
+  return {
+    config,
+    templates: config.templates,
+    loading,
+    reload,
+    templateFor,
+    saveConfig,
+  };
+}
@@ -0,0 +1,65 @@
+import { useCallback, useEffect, useState } from "react";
+import { useAuth } from "./useAuth";
+import {
+  deleteMaterial as deleteMaterialRecord,
+  fetchMaterials,
+  fetchMovements,
+  fetchMovementsByReference,
+  recordMovement as recordMaterialMovement,
+  saveMaterial as saveMaterialRecord,
+  updateReservations as updateMaterialReservations,
+  type MaterialInput,
+} from "@/lib/materials";
+import type { MaterialRequirement } from "@/lib/bom";
+import type { MovementInput, ReservationMode } from "@/lib/inventory";
+import type { RawMaterial } from "@/types/inventory";
+
+/** Lista de matérias-primas com as operações de cadastro e movimentação. */
+export function useMaterials() {
+  const { user } = useAuth();
+  const [materials, setMaterials] = useState<RawMaterial[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const operator = user?.name || "Sistema";
+
+  const reload = useCallback(async () => {
+    try {
+      setMaterials(await fetchMaterials());
+    } catch (err) {
+      console.error("❌ [useMaterials] Erro ao carregar materiais:", err);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    reload();
+    const onChange = () => reload();
+    window.addEventListener("materials:changed", onChange);
+    return () => window.removeEventListener("materials:changed", onChange);
+  }, [reload]);
+
+  const saveMaterial = (data: MaterialInput, existing?: RawMaterial) =>
+    saveMaterialRecord(data, operator, existing);
+
+  const recordMovement = (materialId: string, input: MovementInput) =>
+    recordMaterialMovement(materialId, input, operator);
+
+  const updateReservations = (
+    requirements: MaterialRequirement[],
+    mode: ReservationMode,
+    reference: string,
+  ) => updateMaterialReservations(requirements, mode, reference, operator);
+
+  return {
+    materials,
+    loading,
+    reload,
+    saveMaterial,
+    deleteMaterial: deleteMaterialRecord,
+    recordMovement,
+    updateReservations,
+    getMovements: fetchMovements,
+    getOrderMovements: fetchMovementsByReference,
+  };
+}
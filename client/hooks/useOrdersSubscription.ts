@@ -0,0 +1,116 @@
+import { useEffect, useState } from "react";
+import { db } from "@/lib/firebase";
+import { collection, onSnapshot, query, where } from "firebase/firestore";
+import { useAuth } from "./useAuth";
+import { normalizeOrderDocument, type Order } from "./useFirebase";
+import { applyPendingMutations } from "@/lib/syncQueue";
+import { subscribeToOrderChanges } from "@/lib/orderEvents";
+
+const sortByCreatedDesc = (orders: Order[]) =>
+  [...orders].sort((a, b) =>
+    (b.created_at || "").localeCompare(a.created_at || ""),
+  );
+
+const readCachedOrders = (): Order[] => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem("biobox_orders") || "[]");
+    if (!Array.isArray(parsed)) return [];
+    // Desduplicar pedidos do localStorage
+    return Array.from(
+      new Map(parsed.map((item: Order) => [item.id, item])).values(),
+    );
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Lista de pedidos em tempo real. Com Firestore usa `onSnapshot` (mesmo
+ * filtro por vendedor do getOrders), de modo que alterações de pedidos,
+ * fragmentos e etapas feitas por qualquer usuário aparecem na hora. Sem
+ * Firestore, lê o localStorage e se atualiza via BroadcastChannel, mantendo
+ * todas as abas abertas em sincronia.
+ */
+export function useOrdersSubscription() {
+  const { user } = useAuth();
+  const [orders, setOrders] = useState<Order[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [mode, setMode] = useState<"firestore" | "local">(
+    db ? "firestore" : "local",
+  );
+
+  const sellerId = user && user.role === "seller" ? user.id : null;
+
+  useEffect(() => {
+    let remoteOrders: Order[] | null = null;
+    let unsubscribeSnapshot: (() => void) | null = null;
+
+    const visible = (list: Order[]) =>
+      sellerId ? list.filter((o) => o.seller_id === sellerId) : list;
+
+    const publish = () => {
+      const next =
+        remoteOrders === null
+          ? readCachedOrders()
+          : applyPendingMutations("orders", remoteOrders);
+      setOrders(sortByCreatedDesc(visible(next)));
+      setLoading(false);
+    };
+
+    const fallBackToLocal = () => {
+      remoteOrders = null;
+      setMode("local");
+      publish();
+    };
+
+    if (db) {
+      const base = collection(db, "orders");
+      // Sem orderBy na consulta: evita exigir índice composto para vendedores
+      const q = sellerId
+        ? query(base, where("seller_id", "==", sellerId))
+        : base;
+      unsubscribeSnapshot = onSnapshot(
+        q,
+        (snap) => {
+          remoteOrders = snap.docs.map((d) =>
+            normalizeOrderDocument(d.id, d.data()),
+          );
+          setMode("firestore");
+          publish();
+          try {
+            if (!snap.metadata.fromCache) {
+              localStorage.setItem(
+                "biobox_orders",
+                JSON.stringify(applyPendingMutations("orders", remoteOrders)),
+              );
+            }
+          } catch (err) {
+            console.warn(
+              "⚠️ [useOrdersSubscription] Erro ao salvar cache:",
+              err,
+            );
+          }
+        },
+        (err) => {
+          console.warn(
+            "⚠️ [useOrdersSubscription] onSnapshot falhou, usando localStorage:",
+            err,
+          );
+          fallBackToLocal();
+        },
+      );
+    } else {
+      fallBackToLocal();
+    }
+
+    // Escritas locais (fallback offline) e alterações de outras abas
+    const unsubscribeLocal = subscribeToOrderChanges(publish);
+
+    return () => {
+      unsubscribeSnapshot?.();
+      unsubscribeLocal();
+    };
+  }, [sellerId]);
+
+  return { orders, loading, mode };
+}
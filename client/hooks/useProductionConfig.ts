@@ -0,0 +1,58 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useAuth } from "./useAuth";
+import {
+  defaultProductionConfig,
+  fetchProductionConfig,
+  saveProductionConfig,
+} from "@/lib/productionConfig";
+import { activeStages } from "@/lib/productionStages";
+import type { ProductionConfig } from "@/types/production";
+
+/** Linhas, operadores e etapas de produção configurados. */
+export function useProductionConfig() {
+  const { user } = useAuth();
+  const [config, setConfig] = useState<ProductionConfig>(
+    defaultProductionConfig,
+  );
+  const [loading, setLoading] = useState(true);
+
+  const reload = useCallback(async () => {
+    try {
+      setConfig(await fetchProductionConfig());
+    } catch (err) {
+      console.error(
+        "❌ [useProductionConfig] Erro ao carregar configuração:",
+        err,
+      );
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    reload();
+    const onChange = () => reload();
+    window.addEventListener("production-config:changed", onChange);
+    return () =>
+      window.removeEventListener("production-config:changed", onChange);
+  }, [reload]);
+
+  const stagesInUse = useMemo(
+    () => activeStages(config.stages),
+    [config.stages],
+  );
+
+  const saveConfig = (data: ProductionConfig) =>
+    saveProductionConfig(data, user?.name || "Sistema");
+
+  return {
+    config,
+    stages: config.stages,
+    activeStages: stagesInUse,
+    operators: config.operators,
+    lines: config.lines,
+    loading,
+    reload,
+    saveConfig,
+  };
+}
@@ -0,0 +1,62 @@
+import { useCallback, useEffect, useMemo, useState } from "react";
+import { useAuth } from "./useAuth";
+import { blockingIssuesByOrder } from "@/lib/issueTracking";
+import {
+  createProductionIssue,
+  fetchProductionIssues,
+  updateProductionIssueStatus,
+} from "@/lib/productionIssues";
+import type { ProductionIssue } from "@/types/production";
+
+export type NewProductionIssue = Omit<
+  ProductionIssue,
+  "id" | "status" | "reportedAt" | "reportedBy"
+>;
+
+/** Problemas de produção, com os bloqueantes indexados por pedido. */
+export function useProductionIssues() {
+  const { user } = useAuth();
+  const [issues, setIssues] = useState<ProductionIssue[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const operator = user?.name || "Sistema";
+
+  const reload = useCallback(async () => {
+    try {
+      setIssues(await fetchProductionIssues());
+    } catch (err) {
+      console.error(
+        "❌ [useProductionIssues] Erro ao carregar problemas:",
+        err,
+      );
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    reload();
+    const onChange = () => reload();
+    window.addEventListener("production-issues:changed", onChange);
+    return () =>
+      window.removeEventListener("production-issues:changed", onChange);
+  }, [reload]);
+
+  const blockingByOrder = useMemo(
+    () => blockingIssuesByOrder(issues),
+    [issues],
+  );
+
+  /** `reportedBy` pode vir do operador logado no quiosque. */
+  const reportIssue = (data: NewProductionIssue, reportedBy = operator) =>
+    createProductionIssue({ ...data, reportedBy });
+
+  return {
+    issues,
+    loading,
+    reload,
+    blockingByOrder,
+    reportIssue,
+    updateIssueStatus: updateProductionIssueStatus,
+  };
+}
@@ -0,0 +1,62 @@
+import { useCallback, useEffect, useState } from "react";
+import { useAuth } from "./useAuth";
+import {
+  advanceRequisitionStatus,
+  createRequisitions as createRequisitionRecords,
+  deleteRequisition,
+  fetchRequisitions,
+  updateRequisitionDraft,
+} from "@/lib/purchaseRequisitions";
+import type { RequisitionDraft } from "@/lib/purchasing";
+import type {
+  PurchaseRequisition,
+  PurchaseRequisitionStatus,
+} from "@/types/purchasing";
+
+/** Requisições de compra com as operações do fluxo de compras. */
+export function usePurchaseRequisitions() {
+  const { user } = useAuth();
+  const [requisitions, setRequisitions] = useState<PurchaseRequisition[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const operator = user?.name || "Sistema";
+
+  const reload = useCallback(async () => {
+    try {
+      setRequisitions(await fetchRequisitions());
+    } catch (err) {
+      console.error(
+        "❌ [usePurchaseRequisitions] Erro ao carregar requisições:",
+        err,
+      );
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    reload();
+    const onChange = () => reload();
+    window.addEventListener("purchasing:changed", onChange);
+    return () => window.removeEventListener("purchasing:changed", onChange);
+  }, [reload]);
+
+  const createRequisitions = (drafts: RequisitionDraft[]) =>
+    createRequisitionRecords(drafts, operator);
+
+  const advanceRequisition = (
+    requisitionId: string,
+    to: PurchaseRequisitionStatus,
+    leadTimeDays?: number,
+  ) => advanceRequisitionStatus(requisitionId, to, operator, leadTimeDays);
+
+  return {
+    requisitions,
+    loading,
+    reload,
+    createRequisitions,
+    advanceRequisition,
+    updateDraft: updateRequisitionDraft,
+    deleteRequisition,
+  };
+}
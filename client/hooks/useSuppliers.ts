@@ -0,0 +1,28 @@
+import { useCallback, useEffect, useState } from "react";
+import { deleteSupplier, fetchSuppliers, saveSupplier } from "@/lib/suppliers";
+import type { Supplier } from "@/types/supplier";
+
+/** Fornecedores cadastrados, recarregados a cada alteração. */
+export function useSuppliers() {
+  const [suppliers, setSuppliers] = useState<Supplier[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const reload = useCallback(async () => {
+    try {
+      setSuppliers(await fetchSuppliers());
+    } catch (err) {
+      console.error("❌ [useSuppliers] Erro ao carregar fornecedores:", err);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    reload();
+    const onChange = () => reload();
+    window.addEventListener("suppliers:changed", onChange);
+    return () => window.removeEventListener("suppliers:changed", onChange);
+  }, [reload]);
+
+  return { suppliers, loading, reload, saveSupplier, deleteSupplier };
+}
@@ -0,0 +1,87 @@
+import { useCallback, useEffect, useState } from "react";
+import {
+  getLastSyncAt,
+  readOutbox,
+  replayOutbox,
+  resolveConflict,
+  type OutboxEntry,
+} from "@/lib/syncQueue";
+
+const RETRY_INTERVAL_MS = 30_000;
+
+/**
+ * Estado da fila de sincronização offline. Reenvia as escritas pendentes ao
+ * voltar a conexão e periodicamente enquanto houver pendências.
+ */
+export function useSyncStatus() {
+  const [entries, setEntries] = useState<OutboxEntry[]>(() => readOutbox());
+  const [syncing, setSyncing] = useState(false);
+  const [online, setOnline] = useState(
+    typeof navigator === "undefined" ? true : navigator.onLine,
+  );
+  const [lastSyncAt, setLastSyncAt] = useState<string | null>(() =>
+    getLastSyncAt(),
+  );
+
+  const sync = useCallback(async () => {
+    if (!readOutbox().some((e) => e.status === "pending")) return;
+    setSyncing(true);
+    try {
+      await replayOutbox();
+    } finally {
+      setSyncing(false);
+      setLastSyncAt(getLastSyncAt());
+    }
+  }, []);
+
+  const resolve = useCallback(
+    async (entryId: string, keep: "local" | "remote") => {
+      setSyncing(true);
+      try {
+        await resolveConflict(entryId, keep);
+      } finally {
+        setSyncing(false);
+      }
+    },
+    [],
+  );
+
+  useEffect(() => {
+    const refresh = () => setEntries(readOutbox());
+    const handleOnline = () => {
+      setOnline(true);
+      sync();
+    };
+    const handleOffline = () => setOnline(false);
+    // Outras abas também escrevem na fila
+    const handleStorage = (e: StorageEvent) => {
+      if (e.key === "biobox_outbox") refresh();
+    };
+
+    window.addEventListener("outbox:changed", refresh);
+    window.addEventListener("storage", handleStorage);
+    window.addEventListener("online", handleOnline);
+    window.addEventListener("offline", handleOffline);
+    const timer = window.setInterval(sync, RETRY_INTERVAL_MS);
+    sync();
+
+    return () => {
+      window.removeEventListener("outbox:changed", refresh);
+      window.removeEventListener("storage", handleStorage);
+      window.removeEventListener("online", handleOnline);
+      window.removeEventListener("offline", handleOffline);
+      window.clearInterval(timer);
+    };
+  }, [sync]);
+
+  return {
+    entries,
+    pending: entries.filter((e) => e.status === "pending"),
+    conflicts: entries.filter((e) => e.status === "conflict"),
+    syncing,
+    online,
+    lastSyncAt,
+    sync,
+    resolveConflict: resolve,
+  };
+}
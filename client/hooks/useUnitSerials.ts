@@ -0,0 +1,47 @@
+import { useCallback, useEffect, useState } from "react";
+import { useAuth } from "./useAuth";
+import {
+  fetchUnitSerials,
+  issueUnitSerials,
+  recordUnitScan,
+} from "@/lib/unitSerials";
+import type { TraceOrder } from "@/lib/traceability";
+import type { UnitSerial } from "@/types/production";
+
+/** Números de série das unidades produzidas. */
+export function useUnitSerials() {
+  const { user } = useAuth();
+  const [serials, setSerials] = useState<UnitSerial[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const operator = user?.name || "Sistema";
+
+  const reload = useCallback(async () => {
+    try {
+      setSerials(await fetchUnitSerials());
+    } catch (err) {
+      console.error("❌ [useUnitSerials] Erro ao carregar séries:", err);
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    reload();
+    const onChange = () => reload();
+    window.addEventListener("unit-serials:changed", onChange);
+    return () => window.removeEventListener("unit-serials:changed", onChange);
+  }, [reload]);
+
+  // No quiosque, quem emite e lê é o operador do crachá
+  const issueSerials = (
+    order: TraceOrder,
+    fragmentId?: string,
+    issuedBy = operator,
+  ) => issueUnitSerials(order, fragmentId, issuedBy);
+
+  const scanUnit = (serial: string, stage: string, scannedBy = operator) =>
+    recordUnitScan(serial, stage, scannedBy);
+
+  return { serials, loading, reload, issueSerials, scanUnit };
+}
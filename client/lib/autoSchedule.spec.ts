@@ -0,0 +1,160 @@
+import { describe, it, expect } from "vitest";
+import { format } from "date-fns";
+import type { ProductionLine } from "@/types/production";
+import { defaultProductionPreferences } from "@/types/production";
+import {
+  applySchedule,
+  compareJobs,
+  confirmsOnSchedule,
+  proposeSchedule,
+  schedulingJobs,
+  type SchedulableOrder,
+} from "./autoSchedule";
+
+// 5 unidades por dia, de segunda a sexta
+const config = {
+  preferences: defaultProductionPreferences,
+  lines: [
+    { id: "a", name: "A", status: "active", dailyTarget: 5 } as ProductionLine,
+  ],
+  stages: [],
+};
+
+const order = (
+  id: string,
+  quantity: number,
+  extra: Partial<SchedulableOrder> = {},
+): SchedulableOrder => ({
+  id,
+  order_number: id.toUpperCase(),
+  status: "pending",
+  priority: "medium",
+  scheduled_date: "2025-03-01",
+  products: [{ quantity }],
+  ...extra,
+});
+
+const day = (date: Date) => format(date, "yyyy-MM-dd");
+
+// Segunda-feira
+const start = new Date(2025, 2, 10);
+
+describe("autoSchedule", () => {
+  it("lists pending orders and their open fragments", () => {
+    const jobs = schedulingJobs([
+      order("p1", 2),
+      order("p2", 3, { status: "in_production" }),
+      order("p3", 4, {
+        is_fragmented: true,
+        fragments: [
+          { id: "f1", quantity: 1, fragment_number: 1, status: "completed" },
+          { id: "f2", quantity: 3, fragment_number: 2, status: "pending" },
+        ],
+      }),
+    ]);
+
+    expect(jobs.map((job) => [job.key, job.quantity])).toEqual([
+      ["p1", 2],
+      ["p3:f2", 3],
+    ]);
+    expect(jobs[1].label).toBe("P3 · fragmento 2");
+  });
+
+  it("orders urgent first, then by delivery date and priority", () => {
+    const jobs = schedulingJobs([
+      order("late", 1, { delivery_date: "2025-04-01" }),
+      order("nodate", 1, { priority: "high" }),
+      order("soon", 1, { delivery_date: "2025-03-12", priority: "low" }),
+      order("urgent", 1, { priority: "urgent" }),
+      order("soon-high", 1, { delivery_date: "2025-03-12", priority: "high" }),
+    ]);
+
+    expect([...jobs].sort(compareJobs).map((job) => job.key)).toEqual([
+      "urgent",
+      "soon-high",
+      "soon",
+      "late",
+      "nodate",
+    ]);
+  });
+
+  it("fills working days up to the line capacity", () => {
+    const orders = [
+      order("a", 3, { delivery_date: "2025-03-10" }),
+      order("b", 3, { delivery_date: "2025-03-11" }),
+      order("c", 2, { delivery_date: "2025-03-11" }),
+      order("d", 4, { delivery_date: "2025-03-12" }),
+      // Já agendado na terça, fora do agendamento automático
+      order("fixed", 5, {
+        status: "in_production",
+        scheduled_date: "2025-03-11",
+      }),
+    ];
+
+    const proposals = proposeSchedule(orders, schedulingJobs(orders), config, {
+      start,
+    });
+
+    expect(proposals.map((p) => [p.key, day(p.date), p.late])).toEqual([
+      ["a", "2025-03-10", false],
+      ["b", "2025-03-12", true],
+      ["c", "2025-03-10", false],
+      ["d", "2025-03-13", true],
+    ]);
+  });
+
+  it("skips non-working days and flags items that never fit", () => {
+    const friday = new Date(2025, 2, 14);
+    const orders = [order("big", 8), order("small", 5)];
+
+    const proposals = proposeSchedule(orders, schedulingJobs(orders), config, {
+      start: friday,
+      horizonDays: 4,
+    });
+
+    expect(proposals.map((p) => [p.key, day(p.date), p.overbooked])).toEqual([
+      ["big", "2025-03-14", true],
+      ["small", "2025-03-17", false],
+    ]);
+  });
+
+  it("applies dates to orders and fragments", () => {
+    const date = new Date(2025, 2, 12);
+    const [whole, fragmented] = applySchedule(
+      [
+        order("a", 1),
+        order("b", 2, {
+          is_fragmented: true,
+          fragments: [
+            { id: "f1", quantity: 1, scheduled_date: "2025-03-01" },
+            { id: "f2", quantity: 1, scheduled_date: "2025-03-01" },
+          ],
+        }),
+      ],
+      [
+        { orderId: "a", date },
+        { orderId: "b", fragmentId: "f2", date },
+      ],
+    );
+
+    expect(whole.scheduled_date).toBe(date.toISOString());
+    expect(fragmented.scheduled_date).toBe("2025-03-01");
+    expect(fragmented.fragments.map((f) => f.scheduled_date)).toEqual([
+      "2025-03-01",
+      date.toISOString(),
+    ]);
+  });
+
+  it("confirms on scheduling only orders not yet confirmed", () => {
+    const admin = { id: "u1", role: "admin" as const };
+    expect(confirmsOnSchedule({ status: "pending" }, admin)).toBe(true);
+    expect(confirmsOnSchedule({ status: "awaiting_approval" }, admin)).toBe(
+      true,
+    );
+    // Reagendar um pedido confirmado não reserva a matéria-prima de novo
+    expect(confirmsOnSchedule({ status: "confirmed" }, admin)).toBe(false);
+    expect(
+      confirmsOnSchedule({ status: "pending" }, { id: "u2", role: "seller" }),
+    ).toBe(false);
+  });
+});
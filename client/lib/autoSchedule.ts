@@ -0,0 +1,282 @@
+import { addDays, isAfter, parseISO, startOfDay } from "date-fns";
+import {
+  combineLoads,
+  dayLoad,
+  orderQuantity,
+  type CapacityOrder,
+  type DayLoad,
+} from "@/lib/capacity";
+import type { ProductionConfig } from "@/types/production";
+import {
+  validateTransition,
+  type TransitionActor,
+  type TransitionOrder,
+} from "@shared/orderStatus";
+
+/**
+ * Agendamento automático: distribui pedidos e fragmentos pendentes nos dias de
+ * produção, em ordem de entrega e prioridade, sem passar da capacidade do dia.
+ * O resultado é só uma proposta; quem grava as datas é a Agenda.
+ */
+
+/** Pedidos que ainda não entraram em produção podem ser reagendados */
+export const SCHEDULABLE_STATUSES = [
+  "pending",
+  "awaiting_approval",
+  "confirmed",
+];
+
+/**
+ * Agendar confirma o pedido quando o fluxo permite. O pedido já confirmado só
+ * muda de data: confirmar de novo reservaria a matéria-prima outra vez.
+ */
+export const confirmsOnSchedule = (
+  order: TransitionOrder,
+  actor: TransitionActor | null,
+) =>
+  order.status !== "confirmed" &&
+  validateTransition(order, "confirmed", actor).ok;
+
+export interface SchedulableOrder extends CapacityOrder {
+  order_number: string;
+  priority: "low" | "medium" | "high" | "urgent";
+  delivery_date?: string;
+  created_at?: string;
+  fragments?: {
+    id: string;
+    quantity: number;
+    scheduled_date?: string;
+    fragment_number?: number;
+    status?: string;
+  }[];
+}
+
+/** Pedido inteiro ou fragmento a agendar */
+export interface ScheduleJob {
+  key: string;
+  orderId: string;
+  fragmentId?: string;
+  label: string;
+  quantity: number;
+  priority: SchedulableOrder["priority"];
+  deliveryDate?: string;
+  createdAt?: string;
+  currentDate?: string;
+}
+
+export interface ScheduleProposal extends ScheduleJob {
+  date: Date;
+  /** Data proposta depois da entrega */
+  late: boolean;
+  /** Nenhum dia do horizonte comportava o item sem sobrecarga */
+  overbooked: boolean;
+}
+
+export interface ScheduleEntry {
+  orderId: string;
+  fragmentId?: string;
+  date: Date;
+}
+
+type ScheduleConfig = Pick<
+  ProductionConfig,
+  "preferences" | "lines" | "stages"
+>;
+
+const priorityRank: Record<ScheduleJob["priority"], number> = {
+  urgent: 0,
+  high: 1,
+  medium: 2,
+  low: 3,
+};
+
+const isFragmented = (order: SchedulableOrder) =>
+  !!order.is_fragmented && !!order.fragments?.length;
+
+const parseDate = (value?: string) => {
+  if (!value) return undefined;
+  const date = parseISO(value);
+  return Number.isNaN(date.getTime()) ? undefined : startOfDay(date);
+};
+
+/** Itens a agendar: fragmentos não concluídos, ou o pedido inteiro. */
+export function schedulingJobs(orders: SchedulableOrder[]): ScheduleJob[] {
+  const jobs: ScheduleJob[] = [];
+  for (const order of orders) {
+    if (!SCHEDULABLE_STATUSES.includes(order.status)) continue;
+    const base = {
+      orderId: order.id,
+      priority: order.priority,
+      deliveryDate: order.delivery_date,
+      createdAt: order.created_at,
+    };
+
+    if (!isFragmented(order)) {
+      jobs.push({
+        ...base,
+        key: order.id,
+        label: order.order_number,
+        quantity: orderQuantity(order),
+        currentDate: order.scheduled_date,
+      });
+      continue;
+    }
+
+    order.fragments
+      .filter((fragment) => fragment.status !== "completed")
+      .forEach((fragment) =>
+        jobs.push({
+          ...base,
+          key: `${order.id}:${fragment.id}`,
+          fragmentId: fragment.id,
+          label:
+            `${order.order_number} · fragmento ${fragment.fragment_number ?? ""}`.trim(),
+          quantity: fragment.quantity || 0,
+          currentDate: fragment.scheduled_date,
+        }),
+      );
+  }
+  return jobs;
+}
+
+/**
+ * Urgentes primeiro; depois a entrega mais próxima (sem data vai para o fim),
+ * a prioridade e a ordem de criação.
+ */
+export function compareJobs(a: ScheduleJob, b: ScheduleJob): number {
+  const urgent =
+    Number(b.priority === "urgent") - Number(a.priority === "urgent");
+  if (urgent !== 0) return urgent;
+
+  const dueA = parseDate(a.deliveryDate)?.getTime() ?? Infinity;
+  const dueB = parseDate(b.deliveryDate)?.getTime() ?? Infinity;
+  if (dueA !== dueB) return dueA < dueB ? -1 : 1;
+
+  const rank = priorityRank[a.priority] - priorityRank[b.priority];
+  if (rank !== 0) return rank;
+
+  return (a.createdAt || "").localeCompare(b.createdAt || "");
+}
+
+/** Pedidos com as datas do agendamento aplicadas. */
+export function applySchedule<T extends SchedulableOrder>(
+  orders: T[],
+  entries: ScheduleEntry[],
+): T[] {
+  return orders.map((order) => {
+    const own = entries.filter((entry) => entry.orderId === order.id);
+    if (own.length === 0) return order;
+
+    const whole = own.find((entry) => !entry.fragmentId);
+    const fragmentDate = (id: string) =>
+      own.find((entry) => entry.fragmentId === id)?.date;
+
+    return {
+      ...order,
+      ...(whole ? { scheduled_date: whole.date.toISOString() } : {}),
+      ...(order.fragments
+        ? {
+            fragments: order.fragments.map((fragment) => {
+              const date = fragmentDate(fragment.id);
+              return date
+                ? { ...fragment, scheduled_date: date.toISOString() }
+                : fragment;
+            }),
+          }
+        : {}),
+    };
+  });
+}
+
+// Carga já existente: tudo menos os itens que serão reagendados
+function withoutJobs(orders: SchedulableOrder[], jobs: ScheduleJob[]) {
+  const keys = new Set(jobs.map((job) => job.key));
+  return orders.flatMap((order) => {
+    if (keys.has(order.id)) return [];
+    if (!isFragmented(order)) return [order];
+    const fragments = order.fragments.filter(
+      (fragment) => !keys.has(`${order.id}:${fragment.id}`),
+    );
+    return fragments.length > 0 ? [{ ...order, fragments }] : [];
+  });
+}
+
+// O item sozinho, agendado no dia
+function jobOrder(
+  order: SchedulableOrder,
+  job: ScheduleJob,
+  date: Date,
+): SchedulableOrder {
+  const [scheduled] = applySchedule(
+    [order],
+    [{ orderId: job.orderId, fragmentId: job.fragmentId, date }],
+  );
+  return job.fragmentId
+    ? {
+        ...scheduled,
+        fragments: scheduled.fragments.filter((f) => f.id === job.fragmentId),
+      }
+    : scheduled;
+}
+
+/**
+ * Propõe uma data para cada item: o primeiro dia de produção, a partir de
+ * `start`, em que ele cabe junto com o que já está agendado. Se nenhum dia do
+ * horizonte comporta o item, fica no dia menos ocupado, marcado como
+ * sobrecarga.
+ */
+export function proposeSchedule(
+  orders: SchedulableOrder[],
+  jobs: ScheduleJob[],
+  config: ScheduleConfig,
+  { start, horizonDays = 90 }: { start: Date; horizonDays?: number },
+): ScheduleProposal[] {
+  const workingDays = config.preferences.workingHours.workingDays || [];
+  const first = startOfDay(start);
+  const calendar = Array.from({ length: horizonDays }, (_, i) =>
+    addDays(first, i),
+  );
+  const days = calendar.filter(
+    (day) => workingDays.length === 0 || workingDays.includes(day.getDay()),
+  );
+  if (days.length === 0) return [];
+
+  const scheduled = withoutJobs(orders, jobs);
+  const loads = new Map<number, DayLoad>();
+  const loadOf = (index: number) => {
+    if (!loads.has(index)) {
+      loads.set(index, dayLoad(scheduled, days[index], config));
+    }
+    return loads.get(index);
+  };
+
+  return [...jobs].sort(compareJobs).map((job) => {
+    const order = orders.find((o) => o.id === job.orderId);
+    const own = dayLoad([jobOrder(order, job, days[0])], days[0], config);
+
+    let chosen = -1;
+    let best = { index: 0, utilization: Infinity };
+    for (let index = 0; index < days.length; index++) {
+      const combined = combineLoads(loadOf(index), own);
+      if (!combined.overbooked) {
+        chosen = index;
+        break;
+      }
+      if (combined.utilization < best.utilization) {
+        best = { index, utilization: combined.utilization };
+      }
+    }
+
+    const index = chosen >= 0 ? chosen : best.index;
+    loads.set(index, combineLoads(loadOf(index), own));
+
+    const date = days[index];
+    const due = parseDate(job.deliveryDate);
+    return {
+      ...job,
+      date,
+      late: !!due && isAfter(date, due),
+      overbooked: chosen < 0,
+    };
+  });
+}
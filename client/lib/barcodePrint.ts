@@ -1,6 +1,7 @@
 import JsBarcode from 'jsbarcode';
 import QRCode from 'qrcode';
 import jsPDF from 'jspdf';
+import type { LabelElement, LabelLayout } from '@shared/labelLayout';
 
 interface BarcodeItem {
   code: string;
@@ -149,3 +150,91 @@ export async function generateBarcodeImage(
     return canvas.toDataURL('image/png');
   }
 }
+
+type LabelBarcode = Extract<LabelElement, { type: 'barcode' }>;
+
+/** Imagem (data URL) do código de barras ou QR Code de um elemento da etiqueta. */
+export async function labelBarcodeImage(element: LabelBarcode): Promise<string> {
+  if (element.symbology === 'QR') {
+    return await QRCode.toDataURL(element.value, { margin: 0, width: 256 });
+  }
+  const canvas = document.createElement('canvas');
+  JsBarcode(canvas, element.value, {
+    format: element.symbology,
+    displayValue: element.showText !== false,
+    margin: 0,
+    height: 80,
+  });
+  return canvas.toDataURL('image/png');
+}
+
+const loadImage = (src: string) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error(`Imagem ${src} não encontrada`));
+    image.src = src;
+  });
+
+// 1 mm em pontos tipográficos
+const MM_TO_PT = 72 / 25.4;
+
+/** PDF com uma página do tamanho da etiqueta para cada layout. */
+export async function generateLabelPDF(layouts: LabelLayout[]) {
+  let pdf: jsPDF | null = null;
+
+  for (const layout of layouts) {
+    const format = [layout.widthMm, layout.heightMm];
+    const orientation = layout.widthMm > layout.heightMm ? 'landscape' : 'portrait';
+    if (pdf) {
+      pdf.addPage(format, orientation);
+    } else {
+      pdf = new jsPDF({ orientation, unit: 'mm', format });
+    }
+
+    for (const element of layout.elements) {
+      switch (element.type) {
+        case 'text': {
+          const align = element.width ? (element.align ?? 'left') : 'left';
+          const x =
+            align === 'center'
+              ? element.x + element.width / 2
+              : align === 'right'
+                ? element.x + element.width
+                : element.x;
+          pdf.setFont('helvetica', element.bold ? 'bold' : 'normal');
+          pdf.setFontSize(element.fontSize * MM_TO_PT);
+          pdf.text(element.value, x, element.y + element.fontSize * 0.85, { align });
+          break;
+        }
+        case 'barcode': {
+          const image = await labelBarcodeImage(element);
+          const size = Math.min(element.width, element.height);
+          if (element.symbology === 'QR') {
+            pdf.addImage(image, 'PNG', element.x + (element.width - size) / 2, element.y, size, size);
+          } else {
+            pdf.addImage(image, 'PNG', element.x, element.y, element.width, element.height);
+          }
+          break;
+        }
+        case 'image': {
+          try {
+            const image = await loadImage(element.src);
+            // Mantém a proporção dentro da área do elemento
+            const scale = Math.min(element.width / image.width, element.height / image.height);
+            pdf.addImage(image, 'PNG', element.x, element.y, image.width * scale, image.height * scale);
+          } catch (error) {
+            console.warn('⚠️ [generateLabelPDF] Imagem ignorada:', error);
+          }
+          break;
+        }
+        case 'box':
+          pdf.setLineWidth(element.thickness ?? 0.25);
+          pdf.rect(element.x, element.y, element.width, element.height);
+          break;
+      }
+    }
+  }
+
+  return pdf;
+}
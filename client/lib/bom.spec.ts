@@ -0,0 +1,91 @@
+import { describe, it, expect } from "vitest";
+import type { Product, RawMaterial } from "@/types/inventory";
+import {
+  availableQuantity,
+  bomItemApplies,
+  calculateRequirements,
+  findShortages,
+} from "./bom";
+
+const material = (
+  id: string,
+  quantity: number,
+  reservedQuantity = 0,
+): RawMaterial => ({
+  id,
+  name: id,
+  category: "other",
+  unit: "meters",
+  quantity,
+  reservedQuantity,
+  minimumStock: 0,
+  unitCost: 0,
+  supplier: "",
+  location: "",
+  lastUpdated: new Date("2025-01-01"),
+});
+
+const bed = {
+  id: "prod-1",
+  name: "Cama Box",
+  models: [
+    {
+      id: "model-1",
+      name: "Standard",
+      bom: [
+        { id: "b1", materialId: "mdf", quantity: 2 },
+        { id: "b2", materialId: "foam", quantity: 1, size: "Casal" },
+        { id: "b3", materialId: "foam", quantity: 1.5, size: "Queen" },
+        { id: "b4", materialId: "linho", quantity: 3.2, fabric: "Linho" },
+      ],
+    },
+  ],
+} as unknown as Product;
+
+describe("bill of materials", () => {
+  it("filters variant items by size and fabric name", () => {
+    const item = { id: "x", materialId: "m", quantity: 1, size: "Queen" };
+    expect(bomItemApplies(item, { size: "queen ", fabric: "Suede" })).toBe(
+      true,
+    );
+    expect(bomItemApplies(item, { size: "Casal" })).toBe(false);
+    expect(bomItemApplies({ ...item, size: undefined }, {})).toBe(true);
+  });
+
+  it("sums requirements across order lines", () => {
+    const requirements = calculateRequirements(
+      [
+        { product_id: "prod-1", size: "Casal", fabric: "Linho", quantity: 2 },
+        { product_id: "prod-1", size: "Queen", fabric: "Suede", quantity: 1 },
+        { product_id: "unknown", size: "Casal", quantity: 5 },
+      ],
+      [bed],
+    );
+    expect(requirements).toEqual([
+      { materialId: "mdf", quantity: 6 },
+      { materialId: "foam", quantity: 3.5 },
+      { materialId: "linho", quantity: 6.4 },
+    ]);
+  });
+
+  it("reports shortages against the unreserved balance", () => {
+    const materials = [material("mdf", 10, 6), material("foam", 5)];
+    expect(availableQuantity(materials[0])).toBe(4);
+
+    const shortages = findShortages(
+      [
+        { materialId: "mdf", quantity: 6 },
+        { materialId: "foam", quantity: 3.5 },
+        { materialId: "removed", quantity: 1 },
+      ],
+      materials,
+    );
+    expect(shortages).toHaveLength(1);
+    expect(shortages[0]).toMatchObject({
+      required: 6,
+      available: 4,
+      missing: 2,
+    });
+    expect(shortages[0].material.id).toBe("mdf");
+  });
+});
@@ -0,0 +1,95 @@
+import type { BomItem, Product, RawMaterial } from "@/types/inventory";
+
+/**
+ * Cálculo de necessidade de matéria-prima a partir da lista de materiais
+ * (BOM) dos produtos. Os itens do pedido guardam tamanho e tecido pelo nome,
+ * então a BOM também é filtrada por nome.
+ */
+
+export interface MaterialRequirement {
+  materialId: string;
+  quantity: number;
+}
+
+export interface MaterialShortage {
+  material: RawMaterial;
+  required: number;
+  available: number;
+  missing: number;
+}
+
+/** Item do pedido no formato mínimo usado pelo cálculo. */
+export interface BomOrderLine {
+  product_id: string;
+  size?: string;
+  fabric?: string;
+  quantity: number;
+}
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+const sameName = (a?: string, b?: string) =>
+  (a || "").trim().toLowerCase() === (b || "").trim().toLowerCase();
+
+/** Item sem tamanho/tecido vale para qualquer variação. */
+export function bomItemApplies(
+  item: BomItem,
+  line: Pick<BomOrderLine, "size" | "fabric">,
+): boolean {
+  if (item.size && !sameName(item.size, line.size)) return false;
+  if (item.fabric && !sameName(item.fabric, line.fabric)) return false;
+  return true;
+}
+
+/** Soma o consumo de cada material para os itens do pedido. */
+export function calculateRequirements(
+  lines: BomOrderLine[],
+  products: Product[],
+): MaterialRequirement[] {
+  const totals = new Map<string, number>();
+
+  for (const line of lines) {
+    const product = products.find((p) => p.id === line.product_id);
+    const bom = product?.models?.[0]?.bom || [];
+    for (const item of bom) {
+      if (!item.materialId || !bomItemApplies(item, line)) continue;
+      const needed = item.quantity * (line.quantity || 0);
+      if (needed <= 0) continue;
+      totals.set(item.materialId, (totals.get(item.materialId) || 0) + needed);
+    }
+  }
+
+  return Array.from(totals, ([materialId, quantity]) => ({
+    materialId,
+    quantity: round(quantity),
+  }));
+}
+
+/** Saldo que ainda não está comprometido com outros pedidos. */
+export const availableQuantity = (material: RawMaterial) =>
+  round(material.quantity - (material.reservedQuantity || 0));
+
+/**
+ * Materiais cuja necessidade supera o saldo disponível. Materiais que não
+ * existem mais no cadastro são ignorados.
+ */
+export function findShortages(
+  requirements: MaterialRequirement[],
+  materials: RawMaterial[],
+): MaterialShortage[] {
+  const shortages: MaterialShortage[] = [];
+  for (const requirement of requirements) {
+    const material = materials.find((m) => m.id === requirement.materialId);
+    if (!material) continue;
+    const available = availableQuantity(material);
+    if (requirement.quantity > available) {
+      shortages.push({
+        material,
+        required: requirement.quantity,
+        available,
+        missing: round(requirement.quantity - Math.max(available, 0)),
+      });
+    }
+  }
+  return shortages;
+}
@@ -0,0 +1,92 @@
+import { describe, it, expect } from "vitest";
+import type { ProductionLine, ProductionStage } from "@/types/production";
+import { defaultProductionPreferences } from "@/types/production";
+import { dayLoad, workingMinutesPerDay, type CapacityOrder } from "./capacity";
+
+const line = (id: string, dailyTarget: number, status = "active") =>
+  ({ id, name: id, status, dailyTarget }) as ProductionLine;
+
+const stage = (id: string, estimatedTime: number): ProductionStage => ({
+  id,
+  name: id,
+  order: 1,
+  estimatedTime,
+  requiredSkills: [],
+  description: "",
+});
+
+const config = {
+  // 08:00-18:00 com 60 min de almoço e 15 de pausas = 525 min
+  preferences: defaultProductionPreferences,
+  lines: [line("a", 3), line("b", 2), line("c", 10, "maintenance")],
+  stages: [stage("cutting", 100), stage("assembly", 60)],
+};
+
+const day = new Date(2025, 2, 10);
+
+describe("capacity", () => {
+  it("counts working minutes without breaks", () => {
+    expect(workingMinutesPerDay(config.preferences.workingHours)).toBe(525);
+  });
+
+  it("sums orders and fragments scheduled on the day", () => {
+    const orders: CapacityOrder[] = [
+      {
+        id: "1",
+        status: "confirmed",
+        scheduled_date: "2025-03-10T12:00:00",
+        products: [{ quantity: 2 }],
+        production_stages: [
+          { stage: "cutting", status: "completed" },
+          { stage: "assembly", status: "pending", estimated_minutes: 300 },
+        ],
+      },
+      {
+        id: "2",
+        status: "in_production",
+        scheduled_date: "2025-03-01",
+        is_fragmented: true,
+        products: [{ quantity: 4 }],
+        fragments: [
+          { id: "f1", quantity: 1, scheduled_date: "2025-03-10T08:00:00" },
+          { id: "f2", quantity: 3, scheduled_date: "2025-03-11T08:00:00" },
+        ],
+      },
+      {
+        id: "3",
+        status: "delivered",
+        scheduled_date: "2025-03-10",
+        products: [{ quantity: 9 }],
+      },
+    ];
+
+    const load = dayLoad(orders, day, config);
+    expect(load.units).toBe(3);
+    expect(load.unitCapacity).toBe(5);
+    // Pedido 2 sem roteiro: tempo padrão da etapa por unidade do fragmento
+    expect(load.stages).toEqual([
+      { stageId: "assembly", minutes: 360, capacity: 1050 },
+      { stageId: "cutting", minutes: 100, capacity: 1050 },
+    ]);
+    expect(load.utilization).toBeCloseTo(0.6);
+    expect(load.overbooked).toBe(false);
+  });
+
+  it("flags days over the line targets or stage minutes", () => {
+    const busy = (quantity: number, minutes: number): CapacityOrder => ({
+      id: `o${quantity}`,
+      status: "confirmed",
+      scheduled_date: "2025-03-10",
+      products: [{ quantity }],
+      production_stages: [
+        { stage: "cutting", status: "pending", estimated_minutes: minutes },
+      ],
+    });
+
+    expect(dayLoad([busy(6, 10)], day, config).overbooked).toBe(true);
+    expect(dayLoad([busy(1, 1100)], day, config).overbooked).toBe(true);
+    expect(
+      dayLoad([busy(1, 10)], day, { ...config, lines: [] }).utilization,
+    ).toBe(Infinity);
+  });
+});
@@ -0,0 +1,231 @@
+import {
+  addDays,
+  addMinutes,
+  differenceInMinutes,
+  isSameDay,
+  parseISO,
+  startOfDay,
+} from "date-fns";
+import { syncOrderStages } from "@/lib/productionStages";
+import type {
+  ProductionConfig,
+  ProductionPreferences,
+} from "@/types/production";
+
+/**
+ * Capacidade finita da fábrica por dia: unidades pela meta diária das linhas
+ * ativas e minutos por etapa pelo expediente (cada linha ativa trabalha a
+ * etapa em paralelo). A carga vem dos pedidos e fragmentos agendados no dia.
+ */
+
+/** Pedido no formato mínimo usado pelo cálculo de carga. */
+export interface CapacityOrder {
+  id: string;
+  status: string;
+  scheduled_date?: string;
+  total_quantity?: number;
+  products?: { quantity: number }[];
+  is_fragmented?: boolean;
+  fragments?: { id: string; quantity: number; scheduled_date?: string }[];
+  production_stages?: {
+    stage: string;
+    status: string;
+    estimated_minutes?: number;
+    skipped?: boolean;
+  }[];
+}
+
+export interface StageLoad {
+  stageId: string;
+  minutes: number;
+  capacity: number;
+}
+
+export interface DayLoad {
+  units: number;
+  unitCapacity: number;
+  stages: StageLoad[];
+  /** Maior ocupação entre unidades e etapas (1 = 100%) */
+  utilization: number;
+  overbooked: boolean;
+}
+
+// Pedidos que já saíram da produção não ocupam capacidade
+const IDLE_STATUSES = ["ready", "delivered", "cancelled"];
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = (time || "0:0").split(":").map(Number);
+  return (hours || 0) * 60 + (minutes || 0);
+};
+
+/** Minutos produtivos do expediente, descontadas as pausas. */
+export const workingMinutesPerDay = (
+  workingHours: ProductionPreferences["workingHours"],
+) =>
+  Math.max(
+    0,
+    toMinutes(workingHours.end) -
+      toMinutes(workingHours.start) -
+      (workingHours.lunchBreak || 0) -
+      (workingHours.shortBreaks || 0),
+  );
+
+const ALL_DAYS = [0, 1, 2, 3, 4, 5, 6];
+
+/**
+ * Soma minutos de trabalho a partir de `from`, pulando o que fica fora do
+ * expediente e os dias sem produção. As pausas entram no fim do dia.
+ */
+export function addWorkingMinutes(
+  from: Date,
+  minutes: number,
+  workingHours: ProductionPreferences["workingHours"],
+): Date {
+  const perDay = workingMinutesPerDay(workingHours);
+  if (perDay <= 0) return addMinutes(from, minutes);
+
+  const days = workingHours.workingDays?.length
+    ? workingHours.workingDays
+    : ALL_DAYS;
+  const dayStart = (date: Date) =>
+    addMinutes(startOfDay(date), toMinutes(workingHours.start));
+  const dayEnd = (date: Date) => addMinutes(dayStart(date), perDay);
+
+  let cursor = from;
+  let remaining = Math.max(0, minutes);
+  for (;;) {
+    if (!days.includes(cursor.getDay()) || cursor >= dayEnd(cursor)) {
+      cursor = dayStart(addDays(startOfDay(cursor), 1));
+      continue;
+    }
+    if (cursor < dayStart(cursor)) cursor = dayStart(cursor);
+
+    const available = differenceInMinutes(dayEnd(cursor), cursor);
+    if (remaining <= available) return addMinutes(cursor, remaining);
+    remaining -= available;
+    cursor = dayStart(addDays(startOfDay(cursor), 1));
+  }
+}
+
+export const orderQuantity = (order: CapacityOrder) =>
+  order.products?.reduce((sum, p) => sum + (p.quantity || 0), 0) ||
+  order.total_quantity ||
+  1;
+
+const scheduledOn = (value: string | undefined, date: Date) => {
+  if (!value) return false;
+  try {
+    return isSameDay(parseISO(value), date);
+  } catch {
+    return false;
+  }
+};
+
+/** Quantidades agendadas no dia: fragmentos, ou o pedido inteiro. */
+function scheduledQuantities(order: CapacityOrder, date: Date): number[] {
+  if (order.is_fragmented && order.fragments?.length) {
+    return order.fragments
+      .filter((fragment) => scheduledOn(fragment.scheduled_date, date))
+      .map((fragment) => fragment.quantity || 0);
+  }
+  return scheduledOn(order.scheduled_date, date) ? [orderQuantity(order)] : [];
+}
+
+type CapacityConfig = Pick<
+  ProductionConfig,
+  "preferences" | "lines" | "stages"
+>;
+
+export function dayLoad(
+  orders: CapacityOrder[],
+  date: Date,
+  config: CapacityConfig,
+): DayLoad {
+  const activeLines = config.lines.filter((line) => line.status === "active");
+  const stageCapacity =
+    workingMinutesPerDay(config.preferences.workingHours) * activeLines.length;
+  const unitCapacity = activeLines.reduce(
+    (sum, line) => sum + (line.dailyTarget || 0),
+    0,
+  );
+
+  let units = 0;
+  const minutes = new Map<string, number>();
+
+  for (const order of orders) {
+    if (IDLE_STATUSES.includes(order.status)) continue;
+    const quantities = scheduledQuantities(order, date);
+    if (quantities.length === 0) continue;
+
+    const total = orderQuantity(order);
+    const remaining = syncOrderStages(
+      order.production_stages || [],
+      config.stages,
+    ).filter((stage) => stage.status !== "completed" && !stage.skipped);
+
+    for (const quantity of quantities) {
+      units += quantity;
+      for (const stage of remaining) {
+        const definition = config.stages.find((s) => s.id === stage.stage);
+        // Sem roteiro: tempo padrão da etapa por unidade
+        const orderMinutes =
+          stage.estimated_minutes ?? (definition?.estimatedTime || 0) * total;
+        minutes.set(
+          stage.stage,
+          (minutes.get(stage.stage) || 0) + (orderMinutes * quantity) / total,
+        );
+      }
+    }
+  }
+
+  return summarizeLoad(units, unitCapacity, minutes, stageCapacity);
+}
+
+function summarizeLoad(
+  units: number,
+  unitCapacity: number,
+  minutes: Map<string, number>,
+  stageCapacity: number,
+): DayLoad {
+  const stages = Array.from(minutes, ([stageId, value]) => ({
+    stageId,
+    minutes: Math.round(value),
+    capacity: stageCapacity,
+  }));
+  const ratio = (load: number, capacity: number) =>
+    load <= 0 ? 0 : capacity > 0 ? load / capacity : Infinity;
+  const utilization = Math.max(
+    ratio(units, unitCapacity),
+    ...stages.map((stage) => ratio(stage.minutes, stage.capacity)),
+  );
+
+  return {
+    units,
+    unitCapacity,
+    stages,
+    utilization,
+    overbooked: utilization > 1,
+  };
+}
+
+/** Soma duas cargas calculadas com a mesma configuração. */
+export function combineLoads(a: DayLoad, b: DayLoad): DayLoad {
+  const minutes = new Map<string, number>();
+  for (const stage of [...a.stages, ...b.stages]) {
+    minutes.set(
+      stage.stageId,
+      (minutes.get(stage.stageId) || 0) + stage.minutes,
+    );
+  }
+  const stageCapacity = [...a.stages, ...b.stages][0]?.capacity || 0;
+  return summarizeLoad(
+    a.units + b.units,
+    a.unitCapacity,
+    minutes,
+    stageCapacity,
+  );
+}
+
+/** Etapas do dia acima da capacidade. */
+export const overbookedStages = (load: DayLoad) =>
+  load.stages.filter((stage) => stage.minutes > stage.capacity);
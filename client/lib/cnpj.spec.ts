@@ -0,0 +1,18 @@
+import { describe, it, expect } from "vitest";
+import { formatCnpj, isValidCnpj } from "./cnpj";
+
+describe("CNPJ", () => {
+  it("validates check digits", () => {
+    expect(isValidCnpj("11.222.333/0001-81")).toBe(true);
+    expect(isValidCnpj("11222333000181")).toBe(true);
+    expect(isValidCnpj("11.222.333/0001-82")).toBe(false);
+    expect(isValidCnpj("11.111.111/1111-11")).toBe(false);
+    expect(isValidCnpj("1122233300018")).toBe(false);
+  });
+
+  it("formats while typing", () => {
+    expect(formatCnpj("11222333000181")).toBe("11.222.333/0001-81");
+    expect(formatCnpj("112223")).toBe("11.222.3");
+    expect(formatCnpj("11.222.333/0001-8199")).toBe("11.222.333/0001-81");
+  });
+});
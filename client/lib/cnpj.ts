@@ -0,0 +1,31 @@
+/** Validação e formatação de CNPJ (14 dígitos com dois verificadores). */
+
+export const onlyDigits = (value: string) => (value || "").replace(/\D/g, "");
+
+function checkDigit(digits: string): number {
+  const weights =
+    digits.length === 12
+      ? [5, 4, 3, 2, 9, 8, 7, 6, 5, 4, 3, 2]
+      : [6, 5, 4, 3, 2, 9, 8, 7, 6, 5, 4, 3, 2];
+  const sum = weights.reduce((acc, weight, i) => acc + weight * +digits[i], 0);
+  const rest = sum % 11;
+  return rest < 2 ? 0 : 11 - rest;
+}
+
+export function isValidCnpj(value: string): boolean {
+  const digits = onlyDigits(value);
+  if (digits.length !== 14 || /^(\d)\1+$/.test(digits)) return false;
+  const first = checkDigit(digits.slice(0, 12));
+  const second = checkDigit(digits.slice(0, 12) + first);
+  return digits.endsWith(`${first}${second}`);
+}
+
+/** 12345678000195 → 12.345.678/0001-95 (parcial enquanto digita). */
+export function formatCnpj(value: string): string {
+  return onlyDigits(value)
+    .slice(0, 14)
+    .replace(/^(\d{2})(\d)/, "$1.$2")
+    .replace(/^(\d{2})\.(\d{3})(\d)/, "$1.$2.$3")
+    .replace(/\.(\d{3})(\d)/, ".$1/$2")
+    .replace(/(\d{4})(\d)/, "$1-$2");
+}
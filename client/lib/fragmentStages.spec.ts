@@ -0,0 +1,202 @@
+import { describe, it, expect } from "vitest";
+import type { ProductionStage } from "@/types/production";
+import {
+  closeStagesAtSplit,
+  fragmentSummary,
+  initialFragmentStages,
+  rollUpFragments,
+  updateFragmentStage,
+  type FragmentedOrder,
+} from "./fragmentStages";
+
+const stages = ["cutting", "assembly"].map(
+  (id, index) =>
+    ({
+      id,
+      name: id,
+      order: index + 1,
+      estimatedTime: 60,
+      requiredSkills: [],
+      description: "",
+    }) as ProductionStage,
+);
+
+const fragment = (id: string, quantity: number) => ({
+  id,
+  quantity,
+  status: "pending" as const,
+  progress: 0,
+});
+
+const order = (
+  fragments: FragmentedOrder["fragments"],
+  quantity = 10,
+): FragmentedOrder => ({
+  id: "o1",
+  status: "in_production",
+  products: [{ quantity }],
+  fragments,
+  production_stages: [
+    { stage: "cutting", status: "pending", estimated_minutes: 600 } as any,
+    { stage: "assembly", status: "pending" },
+  ],
+});
+
+describe("fragment stages", () => {
+  it("starts fragments on the order routing", () => {
+    expect(
+      initialFragmentStages(
+        [
+          { stage: "cutting", status: "completed", completed_at: "t1" },
+          { stage: "assembly", status: "in_progress", optional: true } as any,
+        ],
+        stages,
+      ),
+    ).toEqual([
+      { stage: "cutting", status: "completed", completed_at: "t1" },
+      { stage: "assembly", status: "pending", optional: true },
+    ]);
+
+    expect(
+      fragmentSummary([
+        { stage: "cutting", status: "completed", started_at: "t1" },
+        { stage: "assembly", status: "pending" },
+      ]),
+    ).toEqual({
+      status: "in_production",
+      progress: 50,
+      started_at: "t1",
+      completed_at: undefined,
+    });
+  });
+
+  it("derives the order stages and progress from its fragments", () => {
+    const started = updateFragmentStage(
+      order([fragment("f1", 4), fragment("f2", 6)]),
+      "f1",
+      stages,
+      "cutting",
+      {
+        status: "completed",
+        started_at: "08:00",
+        completed_at: "09:00",
+        assigned_operator: "Ana",
+      },
+    );
+
+    expect(started.fragments[0]).toMatchObject({
+      status: "in_production",
+      progress: 50,
+    });
+    expect(started.fragments[1].production_stages).toEqual([
+      { stage: "cutting", status: "pending" },
+      { stage: "assembly", status: "pending" },
+    ]);
+    expect(started.production_stages[0]).toMatchObject({
+      stage: "cutting",
+      status: "in_progress",
+      estimated_minutes: 600,
+      assigned_operator: "Ana",
+      time_entries: [
+        { operator: "Ana", started_at: "08:00", ended_at: "09:00" },
+      ],
+    });
+    expect(started.production_progress).toBe(20);
+  });
+
+  it("keeps the time logged on the order before the split", () => {
+    const [cutting, assembly] = closeStagesAtSplit(
+      [
+        {
+          stage: "cutting",
+          status: "in_progress",
+          started_at: "07:00",
+          time_entries: [{ operator: "Bia", started_at: "07:00" }],
+        },
+        { stage: "assembly", status: "pending" },
+      ],
+      "07:30",
+    );
+    expect(cutting.time_entries).toEqual([
+      { operator: "Bia", started_at: "07:00", ended_at: "07:30" },
+    ]);
+    expect(assembly).toEqual({ stage: "assembly", status: "pending" });
+
+    const split = {
+      ...order([fragment("f1", 10)]),
+      production_stages: [cutting, assembly],
+    };
+    const first = updateFragmentStage(split, "f1", stages, "cutting", {
+      status: "in_progress",
+      started_at: "08:00",
+      time_entries: [{ operator: "Ana", started_at: "08:00" }],
+    });
+    // O resumo gravado volta a ser resumido quando o fragmento avança
+    const second = updateFragmentStage(
+      { ...split, ...first },
+      "f1",
+      stages,
+      "cutting",
+      {
+        status: "completed",
+        completed_at: "09:00",
+        time_entries: [
+          { operator: "Ana", started_at: "08:00", ended_at: "09:00" },
+        ],
+      },
+    );
+
+    expect(second.production_stages[0].time_entries).toEqual([
+      { operator: "Bia", started_at: "07:00", ended_at: "07:30" },
+      { operator: "Ana", started_at: "08:00", ended_at: "09:00" },
+    ]);
+  });
+
+  it("completes the order stage only when every item was fragmented", () => {
+    const done = (id: string, quantity: number) => ({
+      ...fragment(id, quantity),
+      production_stages: [
+        { stage: "cutting", status: "completed", completed_at: `${id}-end` },
+        { stage: "assembly", status: "completed", completed_at: `${id}-end` },
+      ],
+    });
+
+    const partial = rollUpFragments(order([done("f1", 4)]), stages);
+    expect(partial.production_stages.map((s) => s.status)).toEqual([
+      "in_progress",
+      "in_progress",
+    ]);
+    expect(partial.production_progress).toBe(40);
+
+    const full = rollUpFragments(order([done("f1", 4), done("f2", 6)]), stages);
+    expect(full.production_stages[1]).toMatchObject({
+      status: "completed",
+      completed_at: "f2-end",
+    });
+    expect(full.production_progress).toBe(100);
+  });
+
+  it("keeps the progress finite without item quantities", () => {
+    const done = { ...fragment("f1", 4), status: "completed" as const };
+    const noProducts = { ...order([done]), products: [] };
+    expect(rollUpFragments(noProducts, stages).production_progress).toBe(100);
+
+    const invalid = order([done], "x" as any);
+    expect(rollUpFragments(invalid, stages).production_progress).toBe(100);
+
+    const empty = { ...order([fragment("f1", 0)]), products: [] };
+    expect(rollUpFragments(empty, stages).production_progress).toBe(0);
+  });
+
+  it("reads legacy fragments from their single status", () => {
+    const legacy = rollUpFragments(
+      order([{ ...fragment("f1", 10), status: "completed" }]),
+      stages,
+    );
+    expect(legacy.fragments[0].progress).toBe(100);
+    expect(legacy.production_stages.map((s) => s.status)).toEqual([
+      "completed",
+      "completed",
+    ]);
+  });
+});
@@ -0,0 +1,248 @@
+import { orderQuantity } from "@/lib/capacity";
+import {
+  closeTimeEntry,
+  stageTimeEntries,
+  syncOrderStages,
+  updateOrderStage,
+  type OperatorStageEntry,
+  type TimeEntry,
+} from "@/lib/productionStages";
+import type { ProductionStage } from "@/types/production";
+
+/**
+ * Etapas por fragmento: cada fragmento percorre o roteiro do pedido sozinho e
+ * o pedido passa a resumir os fragmentos. Uma etapa do pedido só conclui
+ * quando todos os itens foram fragmentados e todos os fragmentos a concluíram.
+ */
+
+export interface FragmentStageEntry extends OperatorStageEntry {
+  optional?: boolean;
+  skipped?: boolean;
+}
+
+export interface StagedFragment {
+  id: string;
+  quantity: number;
+  status: "pending" | "in_production" | "completed";
+  progress: number;
+  started_at?: string;
+  completed_at?: string;
+  production_stages?: FragmentStageEntry[];
+}
+
+export interface FragmentedOrder {
+  id: string;
+  status: string;
+  products?: { quantity: number }[];
+  total_quantity?: number;
+  fragments?: StagedFragment[];
+  production_stages?: FragmentStageEntry[];
+}
+
+const earliest = (values: (string | undefined)[]) =>
+  values.filter(Boolean).sort()[0];
+
+const latest = (values: (string | undefined)[]) =>
+  values.filter(Boolean).sort().pop();
+
+/**
+ * Etapas de um fragmento novo: o roteiro do pedido, com as etapas que o
+ * pedido já concluiu antes da divisão.
+ */
+export function initialFragmentStages(
+  orderStages: FragmentStageEntry[],
+  stages: ProductionStage[],
+): FragmentStageEntry[] {
+  return syncOrderStages(orderStages, stages).map((entry) => ({
+    stage: entry.stage,
+    status: entry.status === "completed" ? "completed" : "pending",
+    ...(entry.status === "completed" && entry.completed_at
+      ? { completed_at: entry.completed_at }
+      : {}),
+    ...(entry.status === "completed" && entry.skipped ? { skipped: true } : {}),
+    ...(entry.optional ? { optional: true } : {}),
+  }));
+}
+
+/**
+ * Etapas do pedido no momento da divisão: o intervalo em aberto é encerrado,
+ * porque dali em diante o trabalho é apontado nos fragmentos.
+ */
+export function closeStagesAtSplit<E extends OperatorStageEntry>(
+  orderStages: E[],
+  at: string,
+): E[] {
+  return orderStages.map((entry) =>
+    entry.status === "in_progress"
+      ? { ...entry, time_entries: closeTimeEntry(entry, at) }
+      : entry,
+  );
+}
+
+/** Etapas do fragmento; fragmentos anteriores a este controle usam o roteiro do pedido. */
+export function fragmentStages(
+  fragment: StagedFragment,
+  orderStages: FragmentStageEntry[],
+  stages: ProductionStage[],
+): FragmentStageEntry[] {
+  if (fragment.production_stages?.length) {
+    return syncOrderStages(fragment.production_stages, stages);
+  }
+  const initial = initialFragmentStages(orderStages, stages);
+  return fragment.status === "completed"
+    ? initial.map((entry) => ({
+        ...entry,
+        status: "completed",
+        completed_at: entry.completed_at || fragment.completed_at,
+      }))
+    : initial;
+}
+
+/** Situação e progresso do fragmento a partir das etapas. */
+export function fragmentSummary(
+  entries: FragmentStageEntry[],
+): Pick<StagedFragment, "status" | "progress" | "started_at" | "completed_at"> {
+  const completed = entries.filter((e) => e.status === "completed").length;
+  const status: StagedFragment["status"] =
+    entries.length > 0 && completed === entries.length
+      ? "completed"
+      : entries.some((e) => e.status !== "pending")
+        ? "in_production"
+        : "pending";
+  return {
+    status,
+    progress: entries.length
+      ? Math.round((completed / entries.length) * 100)
+      : 0,
+    started_at: earliest(entries.map((e) => e.started_at)),
+    completed_at:
+      status === "completed"
+        ? latest(entries.map((e) => e.completed_at))
+        : undefined,
+  };
+}
+
+const timeEntryKey = (entry: TimeEntry) =>
+  `${entry.operator}@${entry.started_at}`;
+
+/**
+ * A etapa do pedido resume a mesma etapa em todos os fragmentos. Os
+ * apontamentos feitos no pedido antes da divisão continuam nela; os que já
+ * vieram dos fragmentos em um resumo anterior são substituídos pelos atuais.
+ */
+function combineStage(
+  parent: FragmentStageEntry,
+  entries: FragmentStageEntry[],
+  fullyFragmented: boolean,
+): FragmentStageEntry {
+  if (entries.length === 0) return parent;
+  const done =
+    fullyFragmented && entries.every((e) => e.status === "completed");
+  const operators = Array.from(
+    new Set(entries.map((e) => e.assigned_operator).filter(Boolean)),
+  );
+  const fragmentEntries = entries.flatMap(stageTimeEntries);
+  const fromFragments = new Set(fragmentEntries.map(timeEntryKey));
+  const beforeSplit = stageTimeEntries(parent).filter(
+    (entry) => !fromFragments.has(timeEntryKey(entry)),
+  );
+  return {
+    ...parent,
+    status: done
+      ? "completed"
+      : entries.some((e) => e.status !== "pending")
+        ? "in_progress"
+        : "pending",
+    started_at: earliest(entries.map((e) => e.started_at)),
+    completed_at: done ? latest(entries.map((e) => e.completed_at)) : undefined,
+    paused_at: undefined,
+    skipped: done && entries.every((e) => e.skipped) ? true : undefined,
+    assigned_operator: operators.length ? operators.join(", ") : undefined,
+    time_entries: [...beforeSplit, ...fragmentEntries],
+  };
+}
+
+/**
+ * Recalcula fragmentos (situação e progresso) e o pedido a partir deles:
+ * etapas resumidas e progresso ponderado pela quantidade de cada fragmento.
+ * O tempo previsto do roteiro continua nas etapas do pedido.
+ */
+export function rollUpFragments<O extends FragmentedOrder>(
+  order: O,
+  stages: ProductionStage[],
+): Pick<O, "fragments" | "production_stages"> & {
+  production_progress: number;
+} {
+  const orderStages = order.production_stages || [];
+  const fragments = (order.fragments || []).map((fragment) => {
+    const entries = fragmentStages(fragment, orderStages, stages);
+    return {
+      ...fragment,
+      production_stages: entries,
+      ...fragmentSummary(entries),
+    };
+  });
+
+  const total = Number(orderQuantity(order)) || 0;
+  const fragmented = fragments.reduce((sum, f) => sum + (f.quantity || 0), 0);
+  // Sem quantidade válida nos itens, a base do progresso são os fragmentos
+  const base = Math.max(total, fragmented);
+
+  const parentStages = syncOrderStages(orderStages, stages);
+  for (const entry of fragments.flatMap((f) => f.production_stages)) {
+    if (!parentStages.some((p) => p.stage === entry.stage)) {
+      parentStages.push({ stage: entry.stage, status: "pending" });
+    }
+  }
+
+  return {
+    fragments: fragments as O["fragments"],
+    production_stages: parentStages.map((parent) =>
+      combineStage(
+        parent,
+        fragments.flatMap((f) =>
+          f.production_stages.filter((e) => e.stage === parent.stage),
+        ),
+        fragmented >= total,
+      ),
+    ) as O["production_stages"],
+    production_progress:
+      base > 0
+        ? Math.round(
+            fragments.reduce(
+              (sum, f) => sum + (f.quantity || 0) * f.progress,
+              0,
+            ) / base,
+          )
+        : 0,
+  };
+}
+
+/** Aplica a alteração na etapa de um fragmento e recalcula o pedido. */
+export function updateFragmentStage<O extends FragmentedOrder>(
+  order: O,
+  fragmentId: string,
+  stages: ProductionStage[],
+  stageId: string,
+  updates: Partial<FragmentStageEntry>,
+) {
+  return rollUpFragments(
+    {
+      ...order,
+      fragments: (order.fragments || []).map((fragment) =>
+        fragment.id === fragmentId
+          ? {
+              ...fragment,
+              production_stages: updateOrderStage(
+                fragmentStages(fragment, order.production_stages || [], stages),
+                stages,
+                stageId,
+                updates,
+              ),
+            }
+          : fragment,
+      ),
+    },
+    stages,
+  );
+}
@@ -0,0 +1,159 @@
+import { describe, it, expect } from "vitest";
+import { format } from "date-fns";
+import { defaultProductionPreferences } from "@/types/production";
+import type { ProductionStage } from "@/types/production";
+import { addWorkingMinutes } from "./capacity";
+import { ganttRows, type GanttOrder } from "./gantt";
+
+const stage = (id: string, order: number, estimatedTime: number) =>
+  ({
+    id,
+    name: id,
+    order,
+    estimatedTime,
+    requiredSkills: [],
+    description: "",
+  }) as ProductionStage;
+
+// 08:00 às 16:45 úteis (525 min), de segunda a sexta
+const config = {
+  preferences: defaultProductionPreferences,
+  stages: [stage("cutting", 1, 60), stage("assembly", 2, 300)],
+};
+
+const at = (date: Date) => format(date, "yyyy-MM-dd HH:mm");
+
+const order = (extra: Partial<GanttOrder> = {}): GanttOrder => ({
+  id: "o1",
+  order_number: "PED-1",
+  status: "confirmed",
+  priority: "medium",
+  scheduled_date: "2025-03-14",
+  products: [{ quantity: 2 }],
+  production_stages: [
+    { stage: "cutting", status: "pending", estimated_minutes: 120 },
+    { stage: "assembly", status: "pending", estimated_minutes: 600 },
+  ],
+  ...extra,
+});
+
+describe("addWorkingMinutes", () => {
+  const hours = config.preferences.workingHours;
+
+  it("moves to the next working day when the shift ends", () => {
+    // Sexta 16:00 + 90 min = segunda 08:45
+    expect(at(addWorkingMinutes(new Date(2025, 2, 14, 16), 90, hours))).toBe(
+      "2025-03-17 08:45",
+    );
+  });
+
+  it("starts at the beginning of the shift", () => {
+    expect(at(addWorkingMinutes(new Date(2025, 2, 15), 0, hours))).toBe(
+      "2025-03-17 08:00",
+    );
+  });
+});
+
+describe("ganttRows", () => {
+  it("chains planned bars from the scheduled date", () => {
+    const [row] = ganttRows([order()], config, new Date(2025, 2, 1));
+
+    expect(
+      row.bars.map((bar) => [
+        bar.stageId,
+        at(bar.plannedStart),
+        at(bar.plannedEnd),
+      ]),
+    ).toEqual([
+      ["cutting", "2025-03-14 08:00", "2025-03-14 10:00"],
+      ["assembly", "2025-03-14 10:00", "2025-03-17 11:15"],
+    ]);
+    expect(row.movable).toBe(true);
+    expect(row.delayed).toBe(false);
+  });
+
+  it("flags late stages and deliveries", () => {
+    const now = new Date(2025, 2, 14, 12);
+    const [row] = ganttRows(
+      [
+        order({
+          status: "in_production",
+          delivery_date: "2025-03-14",
+          production_stages: [
+            {
+              stage: "cutting",
+              status: "completed",
+              estimated_minutes: 120,
+              started_at: "2025-03-14T08:00:00",
+              completed_at: "2025-03-14T11:00:00",
+            },
+            {
+              stage: "assembly",
+              status: "in_progress",
+              estimated_minutes: 600,
+              started_at: "2025-03-14T11:00:00",
+            },
+          ],
+        }),
+      ],
+      config,
+      now,
+    );
+
+    expect(row.bars[0].delayed).toBe(true);
+    expect(row.bars[1].actualEnd).toEqual(now);
+    expect(row.bars[1].delayed).toBe(false);
+    expect(row.delayed).toBe(true);
+    expect(row.movable).toBe(false);
+  });
+
+  it("splits fragmented orders into rows sized by quantity", () => {
+    const rows = ganttRows(
+      [
+        order({
+          is_fragmented: true,
+          fragments: [
+            {
+              id: "f2",
+              quantity: 1,
+              fragment_number: 2,
+              scheduled_date: "2025-03-18",
+              production_stages: [
+                {
+                  stage: "cutting",
+                  status: "completed",
+                  started_at: "2025-03-18T08:00:00",
+                  completed_at: "2025-03-18T09:00:00",
+                },
+                { stage: "assembly", status: "pending" },
+              ],
+            },
+            {
+              id: "f1",
+              quantity: 1,
+              fragment_number: 1,
+              scheduled_date: "2025-03-17",
+            },
+          ],
+        }),
+        order({ id: "o2", status: "delivered" }),
+      ],
+      config,
+      new Date(2025, 2, 1),
+    );
+
+    expect(rows.map((row) => [row.key, row.label])).toEqual([
+      ["o1:f1", "PED-1 · fragmento 1"],
+      ["o1:f2", "PED-1 · fragmento 2"],
+    ]);
+    expect(at(rows[0].plannedEnd)).toBe("2025-03-17 14:00");
+    // Cada fragmento segue as próprias etapas, com o previsto do pedido
+    expect(rows[0].movable).toBe(true);
+    expect(rows[1].bars.map((bar) => bar.status)).toEqual([
+      "completed",
+      "pending",
+    ]);
+    expect(rows[1].movable).toBe(false);
+    expect(at(rows[1].plannedEnd)).toBe("2025-03-18 14:00");
+  });
+});
@@ -0,0 +1,197 @@
+import { endOfDay, isAfter, parseISO, startOfDay } from "date-fns";
+import type { SchedulableOrder } from "@/lib/autoSchedule";
+import { addWorkingMinutes, orderQuantity } from "@/lib/capacity";
+import { syncOrderStages } from "@/lib/productionStages";
+import type { ProductionConfig } from "@/types/production";
+
+/**
+ * Linhas do Gantt de produção: uma por pedido (ou por fragmento), com uma
+ * barra por etapa. O previsto encadeia as etapas a partir da data agendada,
+ * dentro do expediente; o realizado vem de `started_at`/`completed_at`.
+ */
+
+interface GanttStageEntry {
+  stage: string;
+  status: string;
+  estimated_minutes?: number;
+  skipped?: boolean;
+  started_at?: string;
+  completed_at?: string;
+  paused_at?: string;
+}
+
+export interface GanttOrder extends SchedulableOrder {
+  customer_name?: string;
+  production_stages?: GanttStageEntry[];
+  fragments?: (SchedulableOrder["fragments"][number] & {
+    production_stages?: GanttStageEntry[];
+  })[];
+}
+
+export interface GanttBar {
+  stageId: string;
+  status: string;
+  skipped?: boolean;
+  plannedStart: Date;
+  plannedEnd: Date;
+  actualStart?: Date;
+  /** Etapa em andamento termina em "agora" (ou na pausa) */
+  actualEnd?: Date;
+  /** Passou do fim previsto sem concluir, ou concluiu depois dele */
+  delayed: boolean;
+}
+
+export interface GanttRow {
+  key: string;
+  orderId: string;
+  fragmentId?: string;
+  label: string;
+  customerName?: string;
+  priority: GanttOrder["priority"];
+  scheduledDate: Date;
+  deliveryDate?: Date;
+  plannedEnd: Date;
+  bars: GanttBar[];
+  /** Alguma etapa atrasada ou término previsto depois da entrega */
+  delayed: boolean;
+  /** Nenhuma etapa começou: ainda pode mudar de data */
+  movable: boolean;
+}
+
+type GanttConfig = Pick<ProductionConfig, "preferences" | "stages">;
+
+// Entregues e cancelados saem do Gantt
+const HIDDEN_STATUSES = ["delivered", "cancelled"];
+
+const parseDate = (value?: string) => {
+  if (!value) return undefined;
+  const date = parseISO(value);
+  return Number.isNaN(date.getTime()) ? undefined : date;
+};
+
+function buildRow(
+  order: GanttOrder,
+  config: GanttConfig,
+  now: Date,
+  scheduled: Date,
+  quantity: number,
+): Omit<GanttRow, "key" | "fragmentId" | "label"> {
+  const total = orderQuantity(order);
+  const workingHours = config.preferences.workingHours;
+  const entries = syncOrderStages(order.production_stages || [], config.stages);
+
+  let cursor = addWorkingMinutes(startOfDay(scheduled), 0, workingHours);
+  const bars = entries.map((entry) => {
+    const definition = config.stages.find((s) => s.id === entry.stage);
+    const orderMinutes = entry.skipped
+      ? 0
+      : (entry.estimated_minutes ?? (definition?.estimatedTime || 0) * total);
+    const plannedStart = cursor;
+    const plannedEnd = addWorkingMinutes(
+      plannedStart,
+      (orderMinutes * quantity) / total,
+      workingHours,
+    );
+    cursor = plannedEnd;
+
+    const actualStart = parseDate(entry.started_at);
+    const actualEnd =
+      parseDate(entry.completed_at) ||
+      (entry.status === "in_progress" && actualStart
+        ? parseDate(entry.paused_at) || now
+        : undefined);
+    const delayed =
+      !entry.skipped &&
+      (entry.status === "completed"
+        ? !!actualEnd && isAfter(actualEnd, plannedEnd)
+        : isAfter(now, plannedEnd));
+
+    return {
+      stageId: entry.stage,
+      status: entry.status,
+      skipped: entry.skipped,
+      plannedStart,
+      plannedEnd,
+      actualStart,
+      actualEnd,
+      delayed,
+    };
+  });
+
+  const deliveryDate = parseDate(order.delivery_date);
+  return {
+    orderId: order.id,
+    customerName: order.customer_name,
+    priority: order.priority,
+    scheduledDate: scheduled,
+    deliveryDate,
+    plannedEnd: cursor,
+    bars,
+    delayed:
+      bars.some((bar) => bar.delayed) ||
+      (!!deliveryDate && isAfter(cursor, endOfDay(deliveryDate))),
+    movable: bars.every((bar) => bar.status === "pending"),
+  };
+}
+
+/**
+ * Fragmentos seguem as próprias etapas (ou as do pedido, se ainda não as
+ * têm), com o tempo previsto do roteiro proporcional à quantidade.
+ */
+export function ganttRows(
+  orders: GanttOrder[],
+  config: GanttConfig,
+  now: Date,
+): GanttRow[] {
+  const rows: GanttRow[] = [];
+
+  for (const order of orders) {
+    if (HIDDEN_STATUSES.includes(order.status)) continue;
+
+    if (order.is_fragmented && order.fragments?.length) {
+      for (const fragment of order.fragments) {
+        const scheduled = parseDate(fragment.scheduled_date);
+        if (!scheduled) continue;
+        // O previsto do roteiro fica nas etapas do pedido
+        const stages = fragment.production_stages?.length
+          ? fragment.production_stages.map((entry) => ({
+              ...entry,
+              estimated_minutes: order.production_stages?.find(
+                (s) => s.stage === entry.stage,
+              )?.estimated_minutes,
+            }))
+          : order.production_stages;
+        const row = buildRow(
+          { ...order, production_stages: stages },
+          config,
+          now,
+          scheduled,
+          fragment.quantity || 0,
+        );
+        rows.push({
+          ...row,
+          key: `${order.id}:${fragment.id}`,
+          fragmentId: fragment.id,
+          label:
+            `${order.order_number} · fragmento ${fragment.fragment_number ?? ""}`.trim(),
+          movable: row.movable && fragment.status !== "completed",
+        });
+      }
+      continue;
+    }
+
+    const scheduled = parseDate(order.scheduled_date);
+    if (!scheduled) continue;
+    rows.push({
+      ...buildRow(order, config, now, scheduled, orderQuantity(order)),
+      key: order.id,
+      label: order.order_number,
+    });
+  }
+
+  return rows.sort(
+    (a, b) =>
+      a.scheduledDate.getTime() - b.scheduledDate.getTime() ||
+      a.label.localeCompare(b.label),
+  );
+}
@@ -0,0 +1,176 @@
+import { describe, it, expect } from "vitest";
+import type { RawMaterial } from "@/types/inventory";
+import {
+  InventoryMovementError,
+  adjustmentTo,
+  applyMovement,
+  applyReservation,
+  movementDelta,
+} from "./inventory";
+
+const mdf: RawMaterial = {
+  id: "mat-1",
+  name: "MDF 18mm",
+  category: "wood",
+  unit: "pieces",
+  quantity: 50,
+  minimumStock: 20,
+  unitCost: 45,
+  supplier: "Madeireira São João",
+  location: "Estoque A",
+  lastUpdated: new Date("2025-01-01"),
+};
+
+const at = new Date("2025-03-10T12:00:00.000Z");
+
+describe("inventory movements", () => {
+  it("adds and removes stock", () => {
+    const received = applyMovement(
+      mdf,
+      { type: "in", quantity: 10, reason: "Compra", reference: "NF 123" },
+      "Ana",
+      at,
+    );
+    expect(received.material.quantity).toBe(60);
+    expect(received.movement).toMatchObject({
+      type: "in",
+      materialId: "mat-1",
+      balanceAfter: 60,
+      operator: "Ana",
+      reference: "NF 123",
+      timestamp: at,
+    });
+
+    const consumed = applyMovement(
+      received.material,
+      { type: "out", quantity: 60, reason: "Produção" },
+      "Ana",
+    );
+    expect(consumed.material.quantity).toBe(0);
+  });
+
+  it("rejects invalid movements", () => {
+    const invalid = [
+      { type: "out", quantity: 51, reason: "Produção" },
+      { type: "in", quantity: 0, reason: "Compra" },
+      { type: "in", quantity: -2, reason: "Compra" },
+      { type: "in", quantity: 2, reason: " " },
+      { type: "adjustment", quantity: -60, reason: "Inventário" },
+      { type: "transfer", quantity: 5, reason: "Reorganização" },
+      {
+        type: "transfer",
+        quantity: 5,
+        reason: "Reorganização",
+        toLocation: "Estoque A",
+      },
+    ] as const;
+    for (const input of invalid) {
+      expect(() => applyMovement(mdf, input, "Ana")).toThrow(
+        InventoryMovementError,
+      );
+    }
+  });
+
+  it("applies signed adjustments", () => {
+    const { material, movement } = applyMovement(
+      mdf,
+      { type: "adjustment", quantity: -4.5, reason: "Inventário" },
+      "Ana",
+    );
+    expect(material.quantity).toBe(45.5);
+    expect(movementDelta(movement)).toBe(-4.5);
+    expect(adjustmentTo(mdf, 47, "Correção")).toEqual({
+      type: "adjustment",
+      quantity: -3,
+      reason: "Correção",
+    });
+    expect(adjustmentTo(mdf, 50, "Correção")).toBeNull();
+  });
+
+  it("transfers stock to another location", () => {
+    const { material, movement } = applyMovement(
+      mdf,
+      {
+        type: "transfer",
+        quantity: 50,
+        reason: "Reorganização",
+        toLocation: "Estoque B",
+      },
+      "Ana",
+    );
+    expect(material).toMatchObject({ quantity: 50, location: "Estoque B" });
+    expect(movement).toMatchObject({
+      fromLocation: "Estoque A",
+      toLocation: "Estoque B",
+      balanceAfter: 50,
+    });
+    expect(movementDelta(movement)).toBe(0);
+  });
+
+  it("reserves, releases and consumes order reservations", () => {
+    const reserved = applyReservation(mdf, 8, "reserve", "PED-1", "Ana", at);
+    expect(reserved.material.reservedQuantity).toBe(8);
+    expect(reserved.material.quantity).toBe(50);
+    expect(reserved.movement).toBeNull();
+
+    const released = applyReservation(
+      reserved.material,
+      8,
+      "release",
+      "PED-1",
+      "Ana",
+      at,
+    );
+    expect(released.material.reservedQuantity).toBe(0);
+    expect(released.movement).toBeNull();
+
+    const consumed = applyReservation(
+      { ...reserved.material, quantity: 5 },
+      8,
+      "consume",
+      "PED-1",
+      "Ana",
+      at,
+    );
+    expect(consumed.material).toMatchObject({
+      quantity: 0,
+      reservedQuantity: 0,
+    });
+    expect(consumed.movement).toMatchObject({
+      type: "out",
+      quantity: 5,
+      reference: "PED-1",
+      balanceAfter: 0,
+    });
+    expect(consumed.movement.notes).toContain("Baixa parcial");
+  });
+
+  it("tracks the current lot from receipts to consumption", () => {
+    const received = applyMovement(
+      mdf,
+      { type: "in", quantity: 10, reason: "Compra", lot: " L-2025-03 " },
+      "Ana",
+      at,
+    );
+    expect(received.material.currentLot).toBe("L-2025-03");
+    expect(received.movement.lot).toBe("L-2025-03");
+
+    const consumed = applyReservation(
+      received.material,
+      4,
+      "consume",
+      "PED-1",
+      "Ana",
+      at,
+    );
+    expect(consumed.movement.lot).toBe("L-2025-03");
+
+    const adjusted = applyMovement(
+      received.material,
+      { type: "adjustment", quantity: -1, reason: "Avaria" },
+      "Ana",
+      at,
+    );
+    expect(adjusted.movement.lot).toBeUndefined();
+  });
+});
@@ -0,0 +1,199 @@
+import type {
+  InventoryMovement,
+  InventoryMovementType,
+  RawMaterial,
+} from "@/types/inventory";
+
+/**
+ * Regras do livro de movimentações de matéria-prima. O saldo de um material
+ * só muda através de um movimento, e cada movimento guarda o saldo
+ * resultante (`balanceAfter`) para que o histórico possa ser conferido.
+ */
+
+export interface MovementInput {
+  type: InventoryMovementType;
+  /** Entradas, saídas e transferências: positivo. Ajustes: com sinal. */
+  quantity: number;
+  reason: string;
+  reference?: string;
+  notes?: string;
+  /** Lote do material; sem lote, saídas usam o lote vigente */
+  lot?: string;
+  /** Transferências: novo local do material */
+  toLocation?: string;
+}
+
+export class InventoryMovementError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "InventoryMovementError";
+  }
+}
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+/** Variação de saldo provocada pelo movimento. */
+export function movementDelta(
+  movement: Pick<InventoryMovement, "type" | "quantity">,
+): number {
+  switch (movement.type) {
+    case "in":
+      return movement.quantity;
+    case "out":
+      return -movement.quantity;
+    case "adjustment":
+      return movement.quantity;
+    case "transfer":
+      return 0;
+  }
+}
+
+/**
+ * Valida o movimento e devolve o material atualizado junto com o registro do
+ * movimento (sem id). Lança `InventoryMovementError` quando inválido.
+ */
+export function applyMovement(
+  material: RawMaterial,
+  input: MovementInput,
+  operator: string,
+  timestamp: Date = new Date(),
+): {
+  material: RawMaterial;
+  movement: Omit<InventoryMovement, "id">;
+} {
+  const quantity = Number(input.quantity);
+  if (!Number.isFinite(quantity) || quantity === 0) {
+    throw new InventoryMovementError(
+      "Informe uma quantidade diferente de zero",
+    );
+  }
+  if (input.type !== "adjustment" && quantity < 0) {
+    throw new InventoryMovementError("A quantidade deve ser positiva");
+  }
+  if (!input.reason?.trim()) {
+    throw new InventoryMovementError("Informe o motivo do movimento");
+  }
+
+  const delta = movementDelta({ type: input.type, quantity });
+  const balanceAfter = round(material.quantity + delta);
+  if (balanceAfter < 0) {
+    throw new InventoryMovementError(
+      `Saldo insuficiente de ${material.name}: disponível ${material.quantity}`,
+    );
+  }
+
+  const movement: Omit<InventoryMovement, "id"> = {
+    type: input.type,
+    quantity,
+    reason: input.reason.trim(),
+    operator,
+    timestamp,
+    materialId: material.id,
+    balanceAfter,
+  };
+  if (input.reference?.trim()) movement.reference = input.reference.trim();
+  if (input.notes?.trim()) movement.notes = input.notes.trim();
+
+  // Rastreabilidade: a entrada define o lote vigente que as saídas consomem
+  const lot =
+    input.lot?.trim() ||
+    (input.type === "out" ? material.currentLot : undefined);
+  if (lot) movement.lot = lot;
+
+  let location = material.location;
+  if (input.type === "transfer") {
+    const toLocation = input.toLocation?.trim();
+    if (!toLocation || toLocation === material.location) {
+      throw new InventoryMovementError("Informe o novo local do material");
+    }
+    if (quantity > material.quantity) {
+      throw new InventoryMovementError(
+        `Saldo insuficiente de ${material.name}: disponível ${material.quantity}`,
+      );
+    }
+    movement.fromLocation = material.location;
+    movement.toLocation = toLocation;
+    location = toLocation;
+  }
+
+  return {
+    material: {
+      ...material,
+      quantity: balanceAfter,
+      location,
+      lastUpdated: timestamp,
+      ...(input.type === "in" && lot ? { currentLot: lot } : {}),
+    },
+    movement,
+  };
+}
+
+/**
+ * Movimento que leva o saldo do material até `quantity` (usado quando o
+ * formulário de cadastro altera a quantidade diretamente).
+ */
+export function adjustmentTo(
+  material: RawMaterial,
+  quantity: number,
+  reason: string,
+): MovementInput | null {
+  const delta = round(quantity - material.quantity);
+  if (delta === 0) return null;
+  return { type: "adjustment", quantity: delta, reason };
+}
+
+export type ReservationMode = "reserve" | "release" | "consume";
+
+/**
+ * Reserva ou libera saldo para um pedido. Na baixa ("consume") a reserva é
+ * liberada e vira uma saída no livro, limitada ao saldo existente.
+ */
+export function applyReservation(
+  material: RawMaterial,
+  quantity: number,
+  mode: ReservationMode,
+  reference: string,
+  operator: string,
+  timestamp: Date = new Date(),
+): {
+  material: RawMaterial;
+  movement: Omit<InventoryMovement, "id"> | null;
+} {
+  const reserved = material.reservedQuantity || 0;
+  if (mode === "reserve") {
+    return {
+      material: {
+        ...material,
+        reservedQuantity: round(reserved + quantity),
+        lastUpdated: timestamp,
+      },
+      movement: null,
+    };
+  }
+
+  const released = {
+    ...material,
+    reservedQuantity: round(Math.max(0, reserved - quantity)),
+    lastUpdated: timestamp,
+  };
+  const consumed = Math.min(quantity, material.quantity);
+  if (mode === "release" || consumed <= 0) {
+    return { material: released, movement: null };
+  }
+
+  return applyMovement(
+    released,
+    {
+      type: "out",
+      quantity: consumed,
+      reason: "Consumo na produção",
+      reference,
+      notes:
+        consumed < quantity
+          ? `Baixa parcial: previsto ${quantity}, saldo ${material.quantity}`
+          : undefined,
+    },
+    operator,
+    timestamp,
+  );
+}
@@ -0,0 +1,127 @@
+import { describe, it, expect } from "vitest";
+import type { ProductionIssue } from "@/types/production";
+import {
+  ProductionIssueError,
+  advanceIssue,
+  blockingIssuesByOrder,
+  blockingIssuesForStage,
+  issueReport,
+} from "./issueTracking";
+
+const issue = (
+  id: string,
+  changes: Partial<ProductionIssue> = {},
+): ProductionIssue => ({
+  id,
+  taskId: "order-1",
+  type: "material",
+  description: "Faltou espuma",
+  severity: "medium",
+  status: "open",
+  reportedBy: "Ana",
+  reportedAt: new Date("2026-03-02T08:00:00"),
+  ...changes,
+});
+
+describe("issue tracking", () => {
+  it("triages and resolves issues with a resolution", () => {
+    const at = new Date("2026-03-02T12:00:00");
+    const investigating = advanceIssue(issue("1"), "investigating");
+    expect(investigating.status).toBe("investigating");
+
+    expect(() => advanceIssue(investigating, "resolved", " ")).toThrow(
+      ProductionIssueError,
+    );
+    expect(() => advanceIssue(investigating, "open")).toThrow(
+      "O problema não pode passar de Em análise para Aberto",
+    );
+
+    const resolved = advanceIssue(
+      investigating,
+      "resolved",
+      " Material recebido ",
+      at,
+    );
+    expect(resolved).toMatchObject({
+      status: "resolved",
+      resolution: "Material recebido",
+      resolvedAt: at,
+    });
+    expect(advanceIssue(resolved, "open")).toMatchObject({
+      status: "open",
+      resolution: undefined,
+      resolvedAt: undefined,
+    });
+  });
+
+  it("groups unresolved blocking issues by order and stage", () => {
+    const byOrder = blockingIssuesByOrder([
+      issue("1", { blocking: true, stage: "cutting" }),
+      issue("2", { blocking: true }),
+      issue("3", { blocking: true, status: "resolved" }),
+      issue("4", { stage: "cutting" }),
+      issue("5", { blocking: true, taskId: "order-2", stage: "sewing" }),
+    ]);
+    expect(byOrder.get("order-1").map((i) => i.id)).toEqual(["1", "2"]);
+    expect(
+      blockingIssuesForStage(byOrder.get("order-1"), "assembly").map(
+        (i) => i.id,
+      ),
+    ).toEqual(["2"]);
+    expect(blockingIssuesForStage(byOrder.get("order-2"), "cutting")).toEqual(
+      [],
+    );
+    expect(blockingIssuesForStage(byOrder.get("order-3"), "cutting")).toEqual(
+      [],
+    );
+  });
+
+  it("reports issues by type with the time to resolve", () => {
+    const resolvedAfter = (hours: number) =>
+      new Date(new Date("2026-03-02T08:00:00").getTime() + hours * 3_600_000);
+    const report = issueReport(
+      [
+        issue("1", { status: "resolved", resolvedAt: resolvedAfter(2) }),
+        issue("2", { status: "resolved", resolvedAt: resolvedAfter(6) }),
+        issue("3", { blocking: true }),
+        issue("4", {
+          type: "equipment",
+          status: "resolved",
+          resolvedAt: resolvedAfter(1),
+        }),
+        issue("5", {
+          type: "quality",
+          reportedAt: new Date("2026-01-10T08:00:00"),
+        }),
+      ],
+      new Date("2026-03-01T00:00:00"),
+    );
+
+    expect(report).toMatchObject({
+      total: 4,
+      open: 1,
+      blocking: 1,
+      averageResolutionHours: 3,
+    });
+    expect(report.byType).toEqual([
+      {
+        type: "material",
+        label: "Material",
+        total: 3,
+        open: 1,
+        resolved: 2,
+        averageResolutionHours: 4,
+        maxResolutionHours: 6,
+      },
+      {
+        type: "equipment",
+        label: "Equipamento",
+        total: 1,
+        open: 0,
+        resolved: 1,
+        averageResolutionHours: 1,
+        maxResolutionHours: 1,
+      },
+    ]);
+  });
+});
@@ -0,0 +1,159 @@
+import {
+  issueStatusLabels,
+  issueTypeLabels,
+  type ProductionIssue,
+} from "@/types/production";
+
+/**
+ * Fluxo dos problemas de produção (aberto → em análise → resolvido) e o
+ * relatório por tipo com o tempo até a resolução. Problema marcado como
+ * bloqueante segura a etapa do pedido enquanto não é resolvido.
+ */
+
+export class ProductionIssueError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ProductionIssueError";
+  }
+}
+
+const NEXT_STATUSES: Record<
+  ProductionIssue["status"],
+  ProductionIssue["status"][]
+> = {
+  open: ["investigating", "resolved"],
+  investigating: ["resolved"],
+  resolved: ["open"],
+};
+
+export const canMoveIssue = (
+  issue: Pick<ProductionIssue, "status">,
+  to: ProductionIssue["status"],
+) => NEXT_STATUSES[issue.status].includes(to);
+
+/** Triagem do problema; resolver exige descrever a solução, reabrir a descarta. */
+export function advanceIssue(
+  issue: ProductionIssue,
+  to: ProductionIssue["status"],
+  resolution?: string,
+  timestamp: Date = new Date(),
+): ProductionIssue {
+  if (!canMoveIssue(issue, to)) {
+    throw new ProductionIssueError(
+      `O problema não pode passar de ${issueStatusLabels[issue.status]} para ${issueStatusLabels[to]}`,
+    );
+  }
+  if (to === "resolved") {
+    if (!resolution?.trim()) {
+      throw new ProductionIssueError("Descreva a solução do problema");
+    }
+    return {
+      ...issue,
+      status: to,
+      resolution: resolution.trim(),
+      resolvedAt: timestamp,
+    };
+  }
+  if (to === "open") {
+    return {
+      ...issue,
+      status: to,
+      resolution: undefined,
+      resolvedAt: undefined,
+    };
+  }
+  return { ...issue, status: to };
+}
+
+export const isBlockingIssue = (
+  issue: Pick<ProductionIssue, "blocking" | "status">,
+) => Boolean(issue.blocking) && issue.status !== "resolved";
+
+/** Problemas bloqueantes em aberto, agrupados pelo pedido (`taskId`). */
+export function blockingIssuesByOrder(
+  issues: ProductionIssue[],
+): Map<string, ProductionIssue[]> {
+  const result = new Map<string, ProductionIssue[]>();
+  for (const issue of issues) {
+    if (!isBlockingIssue(issue) || !issue.taskId) continue;
+    result.set(issue.taskId, [...(result.get(issue.taskId) || []), issue]);
+  }
+  return result;
+}
+
+/** Problemas bloqueantes da etapa; sem etapa informada, bloqueiam o pedido todo. */
+export const blockingIssuesForStage = (
+  orderIssues: ProductionIssue[] = [],
+  stage: string,
+) => orderIssues.filter((issue) => !issue.stage || issue.stage === stage);
+
+/** Horas entre o registro e a resolução; `null` enquanto não resolvido. */
+export function resolutionHours(
+  issue: Pick<ProductionIssue, "status" | "reportedAt" | "resolvedAt">,
+): number | null {
+  if (issue.status !== "resolved" || !issue.resolvedAt) return null;
+  return Math.max(
+    0,
+    (issue.resolvedAt.getTime() - issue.reportedAt.getTime()) / 3_600_000,
+  );
+}
+
+export interface IssueTypeSummary {
+  type: ProductionIssue["type"];
+  label: string;
+  total: number;
+  open: number;
+  resolved: number;
+  averageResolutionHours: number | null;
+  maxResolutionHours: number | null;
+}
+
+export interface IssueReport {
+  total: number;
+  open: number;
+  blocking: number;
+  averageResolutionHours: number | null;
+  byType: IssueTypeSummary[];
+}
+
+const average = (values: number[]) =>
+  values.length > 0
+    ? values.reduce((sum, value) => sum + value, 0) / values.length
+    : null;
+
+/** Problemas registrados desde `since`, por tipo, com o tempo médio de resolução. */
+export function issueReport(
+  issues: ProductionIssue[],
+  since?: Date,
+): IssueReport {
+  const inPeriod = since
+    ? issues.filter((issue) => issue.reportedAt >= since)
+    : issues;
+  const hoursOf = (list: ProductionIssue[]) =>
+    list.map(resolutionHours).filter((hours): hours is number => hours != null);
+
+  const byType = (Object.keys(issueTypeLabels) as ProductionIssue["type"][])
+    .map((type): IssueTypeSummary => {
+      const ofType = inPeriod.filter((issue) => issue.type === type);
+      const hours = hoursOf(ofType);
+      return {
+        type,
+        label: issueTypeLabels[type],
+        total: ofType.length,
+        open: ofType.filter((issue) => issue.status !== "resolved").length,
+        resolved: hours.length,
+        averageResolutionHours: average(hours),
+        maxResolutionHours: hours.length > 0 ? Math.max(...hours) : null,
+      };
+    })
+    .filter((summary) => summary.total > 0)
+    .sort((a, b) => b.total - a.total);
+
+  return {
+    total: inPeriod.length,
+    open: inPeriod.filter((issue) => issue.status !== "resolved").length,
+    blocking: inPeriod.filter(isBlockingIssue).length,
+    averageResolutionHours: average(hoursOf(inPeriod)),
+    byType,
+  };
+}
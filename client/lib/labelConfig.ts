@@ -0,0 +1,114 @@
+import { db } from "@/lib/firebase";
+import { doc, getDoc, serverTimestamp, setDoc } from "firebase/firestore";
+import { sanitizeForFirestore } from "@/lib/firestore";
+import { defaultLabelTemplates, type LabelConfig } from "@/types/label";
+
+/**
+ * Modelos de etiqueta no documento `settings/labels`. Enquanto nada foi
+ * salvo, valem os modelos padrão de `types/label`; sem Firestore, usa
+ * localStorage.
+ */
+
+const CONFIG_KEY = "biobox_label_config";
+
+const toDate = (value: any): Date | undefined => {
+  if (!value) return undefined;
+  if (typeof value?.toDate === "function") return value.toDate();
+  const parsed = new Date(value);
+  return Number.isNaN(parsed.getTime()) ? undefined : parsed;
+};
+
+export const defaultLabelConfig = (): LabelConfig => ({
+  templates: defaultLabelTemplates,
+  defaults: Object.fromEntries(
+    defaultLabelTemplates.map((template) => [template.labelType, template.id]),
+  ),
+});
+
+function fromRecord(data: any): LabelConfig {
+  const defaults = defaultLabelConfig();
+  return {
+    templates:
+      Array.isArray(data?.templates) && data.templates.length > 0
+        ? data.templates
+        : defaults.templates,
+    defaults: { ...defaults.defaults, ...data?.defaults },
+    updatedAt: toDate(data?.updatedAt),
+    updatedBy: data?.updatedBy,
+  };
+}
+
+const toRecord = (config: LabelConfig) => ({
+  ...config,
+  updatedAt: config.updatedAt?.toISOString(),
+});
+
+const readLocal = (): any => {
+  try {
+    return JSON.parse(localStorage.getItem(CONFIG_KEY) || "null");
+  } catch {
+    return null;
+  }
+};
+
+const writeLocal = (record: any) =>
+  localStorage.setItem(CONFIG_KEY, JSON.stringify(record));
+
+const notifyLabelConfigChanged = () => {
+  try {
+    window.dispatchEvent(new CustomEvent("label-config:changed"));
+  } catch {}
+};
+
+export async function fetchLabelConfig(): Promise<LabelConfig> {
+  if (db) {
+    try {
+      const snap = await getDoc(doc(db, "settings", "labels"));
+      if (snap.exists()) {
+        const config = fromRecord(snap.data());
+        writeLocal(toRecord(config));
+        return config;
+      }
+    } catch (err) {
+      console.warn(
+        "⚠️ [fetchLabelConfig] Firestore indisponível, usando localStorage:",
+        err,
+      );
+    }
+  }
+  return fromRecord(readLocal());
+}
+
+export async function saveLabelConfig(
+  data: LabelConfig,
+  operator: string,
+): Promise<LabelConfig> {
+  const config: LabelConfig = {
+    ...data,
+    updatedAt: new Date(),
+    updatedBy: operator,
+  };
+
+  if (db) {
+    try {
+      await setDoc(
+        doc(db, "settings", "labels"),
+        sanitizeForFirestore({
+          ...toRecord(config),
+          updated_at: serverTimestamp(),
+        }),
+      );
+    } catch (err) {
+      console.warn(
+        "⚠️ [saveLabelConfig] Firestore indisponível, usando localStorage:",
+        err,
+      );
+    }
+  }
+
+  // Cópia local também serve de cache para a próxima leitura
+  writeLocal(toRecord(config));
+  console.log("✅ [saveLabelConfig] Modelos de etiqueta salvos");
+  notifyLabelConfigChanged();
+  return config;
+}
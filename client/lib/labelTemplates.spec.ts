@@ -0,0 +1,100 @@
+import { describe, it, expect } from "vitest";
+import { defaultLabelTemplates, type LabelTemplate } from "@/types/label";
+import {
+  fillLabelContent,
+  labelSymbology,
+  renderLabelTemplate,
+  resolveLabelTemplate,
+} from "./labelTemplates";
+
+const template: LabelTemplate = {
+  id: "t1",
+  name: "Teste",
+  labelType: "product",
+  widthMm: 50,
+  heightMm: 30,
+  fields: [
+    {
+      id: "name",
+      kind: "text",
+      x: 1,
+      y: 1,
+      width: 48,
+      height: 3,
+      content: "{name}",
+    },
+    {
+      id: "color",
+      kind: "text",
+      x: 1,
+      y: 5,
+      width: 48,
+      height: 2,
+      content: "{color}",
+    },
+    {
+      id: "barcode",
+      kind: "barcode",
+      x: 1,
+      y: 10,
+      width: 48,
+      height: 15,
+      content: "{code}",
+      symbology: "EAN13",
+    },
+  ],
+};
+
+describe("fillLabelContent", () => {
+  it("troca os marcadores e deixa vazios os campos sem valor", () => {
+    expect(
+      fillLabelContent("Pedido {order_number} {missing}", {
+        order_number: "ORD-1",
+      }),
+    ).toBe("Pedido ORD-1");
+    expect(fillLabelContent("{quantity} un.", { quantity: 0 })).toBe("0 un.");
+  });
+});
+
+describe("labelSymbology", () => {
+  it("usa EAN-13 só para códigos com dígito verificador válido", () => {
+    expect(labelSymbology("7891234567895", "EAN13")).toBe("EAN13");
+    expect(labelSymbology("789123456789", "EAN13")).toBe("EAN13");
+    expect(() => labelSymbology("7891234567890", "EAN13")).toThrow(
+      "esperado 5",
+    );
+    expect(labelSymbology("ORD-2025-0001", "EAN13")).toBe("CODE128");
+    expect(labelSymbology("ORD-2025-0001", "QR")).toBe("QR");
+  });
+});
+
+describe("renderLabelTemplate", () => {
+  it("gera os elementos e omite textos vazios", () => {
+    const layout = renderLabelTemplate(template, {
+      code: "BED-LUX-001",
+      name: "Cama Luxo",
+    });
+
+    expect(layout.widthMm).toBe(50);
+    expect(layout.elements).toEqual([
+      expect.objectContaining({ type: "text", value: "Cama Luxo" }),
+      expect.objectContaining({
+        type: "barcode",
+        value: "BED-LUX-001",
+        symbology: "CODE128",
+      }),
+    ]);
+  });
+});
+
+describe("resolveLabelTemplate", () => {
+  const config = { templates: [template], defaults: {} };
+
+  it("usa o modelo escolhido, o do tipo ou o de fábrica", () => {
+    expect(resolveLabelTemplate(config, "product", "t1").id).toBe("t1");
+    expect(resolveLabelTemplate(config, "product").id).toBe("t1");
+    expect(resolveLabelTemplate(config, "order", "inexistente").id).toBe(
+      defaultLabelTemplates.find((t) => t.labelType === "order").id,
+    );
+  });
+});
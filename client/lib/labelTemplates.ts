@@ -0,0 +1,211 @@
+import { GtinError, ean13Problem } from "@shared/gtin";
+import {
+  fitText,
+  mmToDots,
+  toMonochromeBitmap,
+  type LabelElement,
+  type LabelLayout,
+  type LabelSymbology,
+} from "@shared/labelLayout";
+import {
+  defaultLabelTemplates,
+  type LabelConfig,
+  type LabelData,
+  type LabelTemplate,
+  type LabelTemplateField,
+  type LabelType,
+} from "@/types/label";
+
+/**
+ * Aplica os dados do item a um modelo de etiqueta, gerando o layout usado
+ * pela pré-visualização e pelas saídas PDF, ESC/POS e ZPL.
+ */
+
+/** Troca os marcadores `{campo}`; campos sem valor ficam vazios. */
+export function fillLabelContent(content: string, data: LabelData): string {
+  return content
+    .replace(/\{(\w+)\}/g, (_match, key: string) =>
+      data[key] === undefined || data[key] === null ? "" : String(data[key]),
+    )
+    .trim();
+}
+
+/**
+ * Códigos que não são EAN (ex.: número do pedido) saem em CODE128. Um EAN de
+ * 13 dígitos com dígito verificador errado não é impresso: vira erro.
+ */
+export function labelSymbology(
+  code: string,
+  symbology: LabelSymbology = "CODE128",
+): LabelSymbology {
+  if (symbology !== "EAN13") return symbology;
+  const problem = ean13Problem(code);
+  if (!problem) return "EAN13";
+  if (/^\d{13}$/.test(code)) throw new GtinError(problem);
+  return "CODE128";
+}
+
+function fieldElement(
+  field: LabelTemplateField,
+  data: LabelData,
+): LabelElement | null {
+  const { x, y, width, height } = field;
+  switch (field.kind) {
+    case "text": {
+      const value = fillLabelContent(field.content, data);
+      if (!value) return null;
+      const fontSize = field.fontSize || height;
+      return {
+        type: "text",
+        x,
+        y,
+        value: fitText(value, fontSize, width),
+        fontSize,
+        bold: field.bold,
+        width,
+        align: field.align,
+      };
+    }
+    case "barcode": {
+      const value = fillLabelContent(field.content, data);
+      if (!value) return null;
+      return {
+        type: "barcode",
+        x,
+        y,
+        width,
+        height,
+        value,
+        symbology: labelSymbology(value, field.symbology),
+        showText: field.showText,
+      };
+    }
+    case "image":
+      return field.content
+        ? { type: "image", x, y, width, height, src: field.content }
+        : null;
+    case "box":
+      return { type: "box", x, y, width, height };
+  }
+}
+
+export function renderLabelTemplate(
+  template: LabelTemplate,
+  data: LabelData,
+): LabelLayout {
+  const withDate: LabelData = {
+    date: new Date().toLocaleDateString("pt-BR"),
+    ...data,
+  };
+  return {
+    widthMm: template.widthMm,
+    heightMm: template.heightMm,
+    elements: template.fields
+      .map((field) => fieldElement(field, withDate))
+      .filter(Boolean),
+  };
+}
+
+/**
+ * Modelo a usar: o escolhido, senão o padrão do tipo, senão o primeiro do
+ * tipo e, por fim, o modelo de fábrica.
+ */
+export function resolveLabelTemplate(
+  config: Pick<LabelConfig, "templates" | "defaults">,
+  labelType: LabelType,
+  templateId?: string,
+): LabelTemplate {
+  const byId = (id?: string) =>
+    id ? config.templates.find((template) => template.id === id) : undefined;
+  return (
+    byId(templateId) ||
+    byId(config.defaults[labelType]) ||
+    config.templates.find((template) => template.labelType === labelType) ||
+    defaultLabelTemplates.find((template) => template.labelType === labelType)
+  );
+}
+
+/** Campo novo no canto superior esquerdo, com tamanho típico para o tipo. */
+export function newLabelField(
+  kind: LabelTemplateField["kind"],
+  template: LabelTemplate,
+): LabelTemplateField {
+  const id = `${kind}-${Date.now().toString(36)}`;
+  const width = Math.min(template.widthMm - 3, kind === "barcode" ? 40 : 30);
+  switch (kind) {
+    case "barcode":
+      return {
+        id,
+        kind,
+        x: 1.5,
+        y: 1.5,
+        width,
+        height: 12,
+        content: "{code}",
+        symbology: "CODE128",
+        showText: true,
+      };
+    case "image":
+      return {
+        id,
+        kind,
+        x: 1.5,
+        y: 1.5,
+        width: 10,
+        height: 4,
+        content: "/logobio.png",
+      };
+    case "box":
+      return { id, kind, x: 0.5, y: 0.5, width, height: 0.3, content: "" };
+    default:
+      return {
+        id,
+        kind: "text",
+        x: 1.5,
+        y: 1.5,
+        width,
+        height: 3,
+        content: "{name}",
+        fontSize: 3,
+      };
+  }
+}
+
+const loadImage = (src: string) =>
+  new Promise<HTMLImageElement>((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error(`Imagem ${src} não encontrada`));
+    image.src = src;
+  });
+
+/**
+ * Converte as imagens do layout em bitmaps monocromáticos na resolução da
+ * impressora (necessário para o ^GF do ZPL), mantendo a proporção.
+ */
+export async function withLabelBitmaps(
+  layout: LabelLayout,
+  dpmm: number,
+): Promise<LabelLayout> {
+  const elements = await Promise.all(
+    layout.elements.map(async (element) => {
+      if (element.type !== "image" || element.bitmap) return element;
+      const image = await loadImage(element.src);
+      const scale = Math.min(
+        mmToDots(element.width, dpmm) / image.width,
+        mmToDots(element.height, dpmm) / image.height,
+      );
+      const canvas = document.createElement("canvas");
+      canvas.width = Math.max(1, Math.round(image.width * scale));
+      canvas.height = Math.max(1, Math.round(image.height * scale));
+      const context = canvas.getContext("2d");
+      context.drawImage(image, 0, 0, canvas.width, canvas.height);
+      const { data } = context.getImageData(0, 0, canvas.width, canvas.height);
+      return {
+        ...element,
+        bitmap: toMonochromeBitmap(data, canvas.width, canvas.height),
+      };
+    }),
+  );
+  return { ...layout, elements };
+}
@@ -0,0 +1,229 @@
+import { describe, it, expect } from "vitest";
+import {
+  defaultOperators,
+  defaultProductionLines,
+  type ProductionStage,
+} from "@/types/production";
+import {
+  laborSummary,
+  withMeasuredEfficiency,
+  workedMinutes,
+  type LaborOrder,
+} from "./laborTime";
+
+const stages = [
+  { id: "cutting", name: "Corte", order: 1, estimatedTime: 30 },
+  { id: "assembly", name: "Montagem", order: 2, estimatedTime: 60 },
+] as ProductionStage[];
+
+const at = (time: string) => `2025-03-10T${time}:00.000Z`;
+
+const order = (extra: Partial<LaborOrder> = {}): LaborOrder => ({
+  id: "o1",
+  status: "in_production",
+  products: [
+    { product_id: "bed", product_name: "Cama", quantity: 1 },
+    { product_id: "box", product_name: "Box", quantity: 3 },
+  ],
+  production_stages: [
+    {
+      stage: "cutting",
+      status: "completed",
+      completed_at: at("10:30"),
+      time_entries: [
+        { operator: "Ana", started_at: at("08:00"), ended_at: at("09:00") },
+        { operator: "Bia", started_at: at("10:00"), ended_at: at("10:30") },
+      ],
+    },
+    {
+      stage: "assembly",
+      status: "in_progress",
+      time_entries: [{ operator: "Ana", started_at: at("11:00") }],
+    },
+  ],
+  ...extra,
+});
+
+describe("workedMinutes", () => {
+  it("sums intervals and counts open ones until now", () => {
+    expect(
+      workedMinutes(
+        [
+          { operator: "Ana", started_at: at("08:00"), ended_at: at("08:20") },
+          { operator: "Ana", started_at: at("09:00") },
+        ],
+        new Date(at("09:15")),
+      ),
+    ).toBe(35);
+  });
+});
+
+describe("laborSummary", () => {
+  it("compares completed stages with the estimate", () => {
+    // Corte: 30 min × 4 unidades = 120 previstos, 90 trabalhados
+    const summary = laborSummary([order()], stages);
+
+    expect(summary.total).toMatchObject({
+      estimatedMinutes: 120,
+      actualMinutes: 90,
+      stages: 1,
+      efficiency: 133,
+    });
+    expect(summary.byStage).toEqual([
+      expect.objectContaining({ key: "cutting", label: "Corte", stages: 1 }),
+    ]);
+    expect(summary.byProduct).toEqual([
+      expect.objectContaining({
+        key: "box",
+        estimatedMinutes: 90,
+        actualMinutes: 67.5,
+      }),
+      expect.objectContaining({
+        key: "bed",
+        estimatedMinutes: 30,
+        actualMinutes: 22.5,
+      }),
+    ]);
+    expect(summary.byOperator).toEqual([
+      expect.objectContaining({
+        key: "Ana",
+        estimatedMinutes: 80,
+        actualMinutes: 60,
+        efficiency: 133,
+      }),
+      expect.objectContaining({
+        key: "Bia",
+        estimatedMinutes: 40,
+        actualMinutes: 30,
+      }),
+    ]);
+  });
+
+  it("uses the routing estimate and legacy stage timestamps", () => {
+    const summary = laborSummary(
+      [
+        order({
+          production_stages: [
+            {
+              stage: "cutting",
+              status: "completed",
+              estimated_minutes: 45,
+              assigned_operator: "Ana",
+              started_at: at("08:00"),
+              completed_at: at("09:30"),
+            },
+          ],
+        }),
+      ],
+      stages,
+    );
+    expect(summary.byOperator).toEqual([
+      expect.objectContaining({
+        key: "Ana",
+        estimatedMinutes: 45,
+        actualMinutes: 90,
+        efficiency: 50,
+      }),
+    ]);
+  });
+
+  it("skips cancelled orders, skipped stages and older completions", () => {
+    expect(
+      laborSummary([order({ status: "cancelled" })], stages).total.stages,
+    ).toBe(0);
+    expect(
+      laborSummary([order()], stages, new Date(at("11:00"))).total.stages,
+    ).toBe(0);
+
+    const skipped = order();
+    skipped.production_stages[0].skipped = true;
+    expect(laborSummary([skipped], stages).total.efficiency).toBeNull();
+  });
+});
+
+describe("withMeasuredEfficiency", () => {
+  it("feeds operators and their lines, keeping unmeasured ones", () => {
+    const [carlos, ana] = defaultOperators;
+    const config = {
+      operators: defaultOperators,
+      lines: [
+        { ...defaultProductionLines[0], operatorId: ana.id },
+        defaultProductionLines[1],
+      ],
+    };
+    const measured = withMeasuredEfficiency(
+      config,
+      laborSummary(
+        [
+          order({
+            production_stages: [
+              {
+                stage: "cutting",
+                status: "completed",
+                estimated_minutes: 60,
+                time_entries: [
+                  {
+                    operator: ana.name,
+                    started_at: at("08:00"),
+                    ended_at: at("09:20"),
+                  },
+                ],
+              },
+            ],
+          }),
+        ],
+        stages,
+      ),
+    );
+
+    expect(measured.operators.find((o) => o.id === ana.id).efficiency).toBe(75);
+    expect(measured.operators.find((o) => o.id === carlos.id)).toBe(carlos);
+    expect(measured.lines[0].efficiency).toBe(75);
+    expect(measured.lines[1]).toBe(config.lines[1]);
+  });
+
+  it("matches operators by id, even renamed or sharing a name", () => {
+    const [carlos, ana] = defaultOperators;
+    // Cadastro atual: Ana renomeada e um homônimo do nome antigo
+    const operators = [
+      { ...ana, name: "Ana Souza" },
+      { ...carlos, name: "Ana Lima" },
+    ];
+    const summary = laborSummary(
+      [
+        order({
+          production_stages: [
+            {
+              stage: "cutting",
+              status: "completed",
+              estimated_minutes: 60,
+              time_entries: [
+                {
+                  operator: "Ana Lima",
+                  operator_id: ana.id,
+                  started_at: at("08:00"),
+                  ended_at: at("09:20"),
+                },
+              ],
+            },
+          ],
+        }),
+      ],
+      stages,
+    );
+    expect(summary.byOperator).toEqual([
+      expect.objectContaining({ key: ana.id, label: "Ana Lima" }),
+    ]);
+
+    const measured = withMeasuredEfficiency(
+      {
+        operators,
+        lines: [{ ...defaultProductionLines[0], operatorId: ana.id }],
+      },
+      summary,
+    );
+    expect(measured.operators[0].efficiency).toBe(75);
+    expect(measured.operators[1]).toBe(operators[1]);
+    expect(measured.lines[0].efficiency).toBe(75);
+  });
+});
@@ -0,0 +1,230 @@
+import { orderQuantity, type CapacityOrder } from "@/lib/capacity";
+import { stageTimeEntries, type TimeEntry } from "@/lib/productionStages";
+import type { ProductionConfig, ProductionStage } from "@/types/production";
+
+/**
+ * Tempo realizado das etapas (soma dos intervalos apontados, sem as pausas)
+ * contra o previsto do roteiro, por etapa, produto e operador. A eficiência é
+ * previsto ÷ realizado: acima de 100% o trabalho levou menos que o previsto.
+ */
+
+export interface LaborOrder extends CapacityOrder {
+  products?: { product_id?: string; product_name?: string; quantity: number }[];
+  production_stages?: {
+    stage: string;
+    status: string;
+    estimated_minutes?: number;
+    skipped?: boolean;
+    started_at?: string;
+    completed_at?: string;
+    paused_at?: string;
+    assigned_operator?: string;
+    assigned_operator_id?: string;
+    time_entries?: TimeEntry[];
+  }[];
+}
+
+export interface LaborTotals {
+  key: string;
+  label: string;
+  estimatedMinutes: number;
+  actualMinutes: number;
+  /** Etapas concluídas que entraram na conta */
+  stages: number;
+  /** Em %; null sem tempo apontado */
+  efficiency: number | null;
+}
+
+export interface LaborSummary {
+  total: LaborTotals;
+  byStage: LaborTotals[];
+  byProduct: LaborTotals[];
+  byOperator: LaborTotals[];
+}
+
+const minutesBetween = (from: string, to: string) => {
+  const ms = Date.parse(to) - Date.parse(from);
+  return Number.isFinite(ms) && ms > 0 ? ms / 60000 : 0;
+};
+
+/**
+ * Operador do apontamento: o id do cadastro, que não muda com o nome; os
+ * apontamentos sem id (antigos ou manuais) ficam pelo nome.
+ */
+export const operatorKey = (entry: TimeEntry) =>
+  entry.operator_id || entry.operator;
+
+/** Minutos por operador (`operatorKey`); intervalo em aberto conta até `now`. */
+export function workedMinutesByOperator(
+  entries: TimeEntry[],
+  now: Date = new Date(),
+): Map<string, number> {
+  const result = new Map<string, number>();
+  for (const entry of entries) {
+    const minutes = minutesBetween(
+      entry.started_at,
+      entry.ended_at || now.toISOString(),
+    );
+    const key = operatorKey(entry);
+    result.set(key, (result.get(key) || 0) + minutes);
+  }
+  return result;
+}
+
+export const workedMinutes = (entries: TimeEntry[], now?: Date) =>
+  [...workedMinutesByOperator(entries, now).values()].reduce(
+    (sum, minutes) => sum + minutes,
+    0,
+  );
+
+export const efficiencyOf = (estimated: number, actual: number) =>
+  actual > 0 ? Math.round((estimated / actual) * 100) : null;
+
+const emptyTotals = (key: string, label: string): LaborTotals => ({
+  key,
+  label,
+  estimatedMinutes: 0,
+  actualMinutes: 0,
+  stages: 0,
+  efficiency: null,
+});
+
+function addTotals(
+  totals: Map<string, LaborTotals>,
+  key: string,
+  label: string,
+  estimated: number,
+  actual: number,
+) {
+  const item = totals.get(key) || emptyTotals(key, label);
+  item.estimatedMinutes += estimated;
+  item.actualMinutes += actual;
+  item.stages += 1;
+  totals.set(key, item);
+}
+
+const finish = (totals: LaborTotals): LaborTotals => ({
+  ...totals,
+  efficiency: efficiencyOf(totals.estimatedMinutes, totals.actualMinutes),
+});
+
+const sortedTotals = (totals: Map<string, LaborTotals>) =>
+  [...totals.values()]
+    .map(finish)
+    .sort((a, b) => a.label.localeCompare(b.label));
+
+/**
+ * Só etapas concluídas e não dispensadas, com tempo apontado. O tempo da etapa
+ * é dividido entre os produtos pela quantidade e entre os operadores pelo que
+ * cada um trabalhou. `since` filtra pela data de conclusão da etapa.
+ */
+export function laborSummary(
+  orders: LaborOrder[],
+  stages: ProductionStage[],
+  since?: Date,
+): LaborSummary {
+  const total = emptyTotals("total", "Total");
+  const byStage = new Map<string, LaborTotals>();
+  const byProduct = new Map<string, LaborTotals>();
+  const byOperator = new Map<string, LaborTotals>();
+
+  for (const order of orders) {
+    if (order.status === "cancelled") continue;
+    const products = (order.products || []).filter((p) => p.quantity > 0);
+    const units = products.reduce((sum, p) => sum + p.quantity, 0);
+
+    for (const entry of order.production_stages || []) {
+      if (entry.status !== "completed" || entry.skipped) continue;
+      if (since && !(Date.parse(entry.completed_at) >= since.getTime())) {
+        continue;
+      }
+
+      const timeEntries = stageTimeEntries(entry);
+      const perOperator = workedMinutesByOperator(
+        timeEntries,
+        new Date(entry.completed_at || Date.now()),
+      );
+      const actual = [...perOperator.values()].reduce((a, b) => a + b, 0);
+      if (actual <= 0) continue;
+
+      const definition = stages.find((s) => s.id === entry.stage);
+      const estimated =
+        entry.estimated_minutes ??
+        (definition?.estimatedTime || 0) * orderQuantity(order);
+
+      total.estimatedMinutes += estimated;
+      total.actualMinutes += actual;
+      total.stages += 1;
+      addTotals(
+        byStage,
+        entry.stage,
+        definition?.name || entry.stage,
+        estimated,
+        actual,
+      );
+
+      for (const product of products) {
+        const share = product.quantity / units;
+        addTotals(
+          byProduct,
+          product.product_id || product.product_name || "",
+          product.product_name || product.product_id || "Produto",
+          estimated * share,
+          actual * share,
+        );
+      }
+
+      for (const [operator, minutes] of perOperator) {
+        const name = timeEntries.find(
+          (timeEntry) => operatorKey(timeEntry) === operator,
+        )?.operator;
+        addTotals(
+          byOperator,
+          operator,
+          name || "Não informado",
+          (estimated * minutes) / actual,
+          minutes,
+        );
+      }
+    }
+  }
+
+  return {
+    total: finish(total),
+    byStage: sortedTotals(byStage),
+    byProduct: sortedTotals(byProduct),
+    byOperator: sortedTotals(byOperator),
+  };
+}
+
+/**
+ * Operadores e linhas com a eficiência apurada no apontamento. A linha usa a
+ * do seu operador; sem tempo apontado, fica o valor cadastrado. O apontamento
+ * é casado pelo id do operador; pelo nome, só o que foi registrado sem id.
+ */
+export function withMeasuredEfficiency(
+  config: Pick<ProductionConfig, "operators" | "lines">,
+  summary: LaborSummary,
+): Pick<ProductionConfig, "operators" | "lines"> {
+  const measured = new Map(
+    summary.byOperator
+      .filter((totals) => totals.efficiency !== null)
+      .map((totals) => [totals.key, totals.efficiency]),
+  );
+  const measuredFor = (id?: string, name?: string) =>
+    measured.get(id) ?? measured.get(name);
+
+  const operators = config.operators.map((operator) => {
+    const efficiency = measuredFor(operator.id, operator.name);
+    return efficiency === undefined ? operator : { ...operator, efficiency };
+  });
+  const lines = config.lines.map((line) => {
+    const operator = config.operators.find((o) => o.id === line.operatorId);
+    const efficiency = measuredFor(
+      line.operatorId,
+      operator?.name || line.operatorName,
+    );
+    return efficiency === undefined ? line : { ...line, efficiency };
+  });
+  return { operators, lines };
+}
@@ -0,0 +1,67 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  MaterialStorageError,
+  recordMovement,
+  updateReservations,
+} from "./materials";
+
+// Firestore configurado, mas as gravações são recusadas
+vi.mock("@/lib/firebase", () => ({ db: {} }));
+vi.mock("firebase/firestore", () => ({
+  addDoc: vi.fn(),
+  collection: vi.fn(),
+  deleteDoc: vi.fn(),
+  doc: vi.fn(),
+  getDocs: vi.fn(),
+  query: vi.fn(),
+  runTransaction: vi.fn(() =>
+    Promise.reject(new Error("Missing or insufficient permissions")),
+  ),
+  serverTimestamp: vi.fn(),
+  updateDoc: vi.fn(),
+  where: vi.fn(),
+}));
+
+const storage = new Map<string, string>();
+const stock = JSON.stringify([
+  { id: "m1", name: "Espuma D33", quantity: 10, reservedQuantity: 0 },
+]);
+
+beforeEach(() => {
+  storage.clear();
+  storage.set("biobox_materials", stock);
+  vi.spyOn(console, "error").mockImplementation(() => {});
+  vi.stubGlobal("localStorage", {
+    getItem: (key: string) => storage.get(key) ?? null,
+    setItem: (key: string, value: string) => storage.set(key, value),
+    removeItem: (key: string) => storage.delete(key),
+  });
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe("materials", () => {
+  it("surfaces failed stock writes instead of changing only local stock", async () => {
+    await expect(
+      recordMovement(
+        "m1",
+        { type: "out", quantity: 2, reason: "Consumo" },
+        "Ana",
+      ),
+    ).rejects.toThrow(MaterialStorageError);
+    await expect(
+      updateReservations(
+        [{ materialId: "m1", quantity: 3 }],
+        "reserve",
+        "PED-1",
+        "Ana",
+      ),
+    ).rejects.toThrow("Missing or insufficient permissions");
+
+    expect(storage.get("biobox_materials")).toBe(stock);
+    expect(storage.has("biobox_inventory_movements")).toBe(false);
+  });
+});
@@ -0,0 +1,446 @@
+import { db } from "@/lib/firebase";
+import {
+  addDoc,
+  collection,
+  deleteDoc,
+  doc,
+  getDocs,
+  query,
+  runTransaction,
+  serverTimestamp,
+  updateDoc,
+  where,
+} from "firebase/firestore";
+import { sanitizeForFirestore } from "@/lib/firestore";
+import {
+  InventoryMovementError,
+  adjustmentTo,
+  applyMovement,
+  applyReservation,
+  type MovementInput,
+  type ReservationMode,
+} from "@/lib/inventory";
+import type { MaterialRequirement } from "@/lib/bom";
+import type { InventoryMovement, RawMaterial } from "@/types/inventory";
+
+/**
+ * Persistência das matérias-primas (coleção `materials`) e do livro de
+ * movimentações (`inventory_movements`, somente inclusão). Saldo e movimento
+ * são gravados na mesma transação; sem Firestore, tudo fica no localStorage.
+ * Com Firestore, a falha na gravação é repassada: uma alteração só local seria
+ * apagada pela próxima leitura. `reservedQuantity` guarda o saldo
+ * comprometido com pedidos confirmados.
+ */
+
+export class MaterialStorageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "MaterialStorageError";
+  }
+}
+
+const MATERIALS_KEY = "biobox_materials";
+const MOVEMENTS_KEY = "biobox_inventory_movements";
+
+// Reservas só mudam via updateReservations
+export type MaterialInput = Omit<
+  RawMaterial,
+  "id" | "lastUpdated" | "reservedQuantity"
+>;
+
+const toDate = (value: any): Date | undefined => {
+  if (!value) return undefined;
+  if (typeof value?.toDate === "function") return value.toDate();
+  const parsed = new Date(value);
+  return Number.isNaN(parsed.getTime()) ? undefined : parsed;
+};
+
+const toIso = (value?: Date) => (value ? value.toISOString() : undefined);
+
+function fromMaterialRecord(id: string, data: any): RawMaterial {
+  return {
+    id,
+    name: data.name || "",
+    category: data.category || "other",
+    unit: data.unit || "pieces",
+    quantity: Number(data.quantity) || 0,
+    minimumStock: Number(data.minimumStock) || 0,
+    unitCost: Number(data.unitCost) || 0,
+    supplier: data.supplier || "",
+    supplierId: data.supplierId || undefined,
+    location: data.location || "",
+    expirationDate: toDate(data.expirationDate),
+    lastUpdated: toDate(data.lastUpdated) || new Date(),
+    reservedQuantity: Number(data.reservedQuantity) || 0,
+    currentLot: data.currentLot || undefined,
+  };
+}
+
+function toMaterialRecord(material: Partial<RawMaterial>) {
+  const { id: _ignored, ...rest } = material;
+  return {
+    ...rest,
+    expirationDate: toIso(material.expirationDate),
+    lastUpdated: toIso(material.lastUpdated),
+  };
+}
+
+function fromMovementRecord(id: string, data: any): InventoryMovement {
+  return {
+    ...data,
+    id,
+    quantity: Number(data.quantity) || 0,
+    timestamp: toDate(data.timestamp) || new Date(),
+  };
+}
+
+const toMovementRecord = (movement: Omit<InventoryMovement, "id">) => ({
+  ...movement,
+  timestamp: movement.timestamp.toISOString(),
+});
+
+const readLocal = (key: string): any[] => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(key) || "[]");
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+};
+
+const writeLocal = (key: string, records: any[]) =>
+  localStorage.setItem(key, JSON.stringify(records));
+
+function storageError(caller: string, action: string, err: unknown) {
+  console.error(`❌ [${caller}] Erro ao gravar no Firestore:`, err);
+  return new MaterialStorageError(
+    `Não foi possível ${action}: ${(err as Error).message}`,
+  );
+}
+
+const notifyMaterialsChanged = (detail?: { id?: string }) => {
+  try {
+    window.dispatchEvent(new CustomEvent("materials:changed", { detail }));
+  } catch {}
+};
+
+const byName = (a: RawMaterial, b: RawMaterial) =>
+  a.name.localeCompare(b.name, "pt-BR");
+
+export async function fetchMaterials(): Promise<RawMaterial[]> {
+  if (db) {
+    try {
+      const snap = await getDocs(collection(db, "materials"));
+      const materials = snap.docs.map((d) =>
+        fromMaterialRecord(d.id, d.data()),
+      );
+      writeLocal(
+        MATERIALS_KEY,
+        materials.map((m) => ({ ...toMaterialRecord(m), id: m.id })),
+      );
+      return materials.sort(byName);
+    } catch (err) {
+      console.warn(
+        "⚠️ [fetchMaterials] Firestore indisponível, usando localStorage:",
+        err,
+      );
+    }
+  }
+  return readLocal(MATERIALS_KEY)
+    .map((r) => fromMaterialRecord(r.id, r))
+    .sort(byName);
+}
+
+const newestFirst = (a: InventoryMovement, b: InventoryMovement) =>
+  b.timestamp.getTime() - a.timestamp.getTime();
+
+async function fetchMovementsWhere(
+  field: "materialId" | "reference",
+  value: string,
+  caller: string,
+): Promise<InventoryMovement[]> {
+  if (db) {
+    try {
+      // Sem orderBy: evita exigir índice composto
+      const snap = await getDocs(
+        query(collection(db, "inventory_movements"), where(field, "==", value)),
+      );
+      return snap.docs
+        .map((d) => fromMovementRecord(d.id, d.data()))
+        .sort(newestFirst);
+    } catch (err) {
+      console.warn(
+        `⚠️ [${caller}] Firestore indisponível, usando localStorage:`,
+        err,
+      );
+    }
+  }
+  return readLocal(MOVEMENTS_KEY)
+    .filter((r) => r[field] === value)
+    .map((r) => fromMovementRecord(r.id, r))
+    .sort(newestFirst);
+}
+
+export const fetchMovements = (materialId: string) =>
+  fetchMovementsWhere("materialId", materialId, "fetchMovements");
+
+/** Movimentos de um pedido (`reference` é o número do pedido). */
+export const fetchMovementsByReference = (reference: string) =>
+  fetchMovementsWhere("reference", reference, "fetchMovementsByReference");
+
+/** Aplica um movimento ao saldo e registra no livro, atomicamente. */
+export async function recordMovement(
+  materialId: string,
+  input: MovementInput,
+  operator: string,
+): Promise<RawMaterial> {
+  if (db) {
+    try {
+      const updated = await runTransaction(db, async (tx) => {
+        const ref = doc(db, "materials", materialId);
+        const snap = await tx.get(ref);
+        if (!snap.exists()) {
+          throw new InventoryMovementError("Material não encontrado");
+        }
+        const result = applyMovement(
+          fromMaterialRecord(snap.id, snap.data()),
+          input,
+          operator,
+        );
+        tx.update(
+          ref,
+          sanitizeForFirestore({
+            quantity: result.material.quantity,
+            location: result.material.location,
+            currentLot: result.material.currentLot,
+            lastUpdated: toIso(result.material.lastUpdated),
+            updated_at: serverTimestamp(),
+          }) as any,
+        );
+        tx.set(
+          doc(collection(db, "inventory_movements")),
+          sanitizeForFirestore({
+            ...toMovementRecord(result.movement),
+            created_at: serverTimestamp(),
+          }),
+        );
+        return result.material;
+      });
+      console.log("✅ [recordMovement] Movimento registrado:", {
+        materialId,
+        type: input.type,
+      });
+      notifyMaterialsChanged({ id: materialId });
+      return updated;
+    } catch (err) {
+      if (err instanceof InventoryMovementError) throw err;
+      throw storageError("recordMovement", "registrar o movimento", err);
+    }
+  }
+
+  const materials = readLocal(MATERIALS_KEY);
+  const stored = materials.find((m) => m.id === materialId);
+  if (!stored) throw new InventoryMovementError("Material não encontrado");
+
+  const result = applyMovement(
+    fromMaterialRecord(stored.id, stored),
+    input,
+    operator,
+  );
+  writeLocal(
+    MATERIALS_KEY,
+    materials.map((m) =>
+      m.id === materialId
+        ? { ...toMaterialRecord(result.material), id: materialId }
+        : m,
+    ),
+  );
+  writeLocal(MOVEMENTS_KEY, [
+    {
+      ...toMovementRecord(result.movement),
+      id: `mov-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    },
+    ...readLocal(MOVEMENTS_KEY),
+  ]);
+  notifyMaterialsChanged({ id: materialId });
+  return result.material;
+}
+
+/**
+ * Reserva, libera ou baixa as necessidades de um pedido (`reference` é o
+ * número do pedido). Todos os materiais são gravados na mesma transação.
+ */
+export async function updateReservations(
+  requirements: MaterialRequirement[],
+  mode: ReservationMode,
+  reference: string,
+  operator: string,
+): Promise<void> {
+  if (requirements.length === 0) return;
+
+  if (db) {
+    try {
+      await runTransaction(db, async (tx) => {
+        const refs = requirements.map((r) =>
+          doc(db, "materials", r.materialId),
+        );
+        const snaps = await Promise.all(refs.map((ref) => tx.get(ref)));
+        snaps.forEach((snap, index) => {
+          // Material excluído do cadastro: nada a reservar
+          if (!snap.exists()) return;
+          const result = applyReservation(
+            fromMaterialRecord(snap.id, snap.data()),
+            requirements[index].quantity,
+            mode,
+            reference,
+            operator,
+          );
+          tx.update(
+            refs[index],
+            sanitizeForFirestore({
+              quantity: result.material.quantity,
+              reservedQuantity: result.material.reservedQuantity,
+              lastUpdated: toIso(result.material.lastUpdated),
+              updated_at: serverTimestamp(),
+            }) as any,
+          );
+          if (result.movement) {
+            tx.set(
+              doc(collection(db, "inventory_movements")),
+              sanitizeForFirestore({
+                ...toMovementRecord(result.movement),
+                created_at: serverTimestamp(),
+              }),
+            );
+          }
+        });
+      });
+      console.log("✅ [updateReservations] Reservas atualizadas:", {
+        mode,
+        reference,
+      });
+      notifyMaterialsChanged();
+      return;
+    } catch (err) {
+      throw storageError("updateReservations", "atualizar as reservas", err);
+    }
+  }
+
+  const movements: any[] = [];
+  const materials = readLocal(MATERIALS_KEY).map((stored) => {
+    const requirement = requirements.find((r) => r.materialId === stored.id);
+    if (!requirement) return stored;
+    const result = applyReservation(
+      fromMaterialRecord(stored.id, stored),
+      requirement.quantity,
+      mode,
+      reference,
+      operator,
+    );
+    if (result.movement) {
+      movements.push({
+        ...toMovementRecord(result.movement),
+        id: `mov-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      });
+    }
+    return { ...toMaterialRecord(result.material), id: stored.id };
+  });
+  writeLocal(MATERIALS_KEY, materials);
+  if (movements.length > 0) {
+    writeLocal(MOVEMENTS_KEY, [...movements, ...readLocal(MOVEMENTS_KEY)]);
+  }
+  notifyMaterialsChanged();
+}
+
+/**
+ * Cadastra ou edita um material. A quantidade nunca é gravada diretamente:
+ * o saldo inicial vira uma entrada e alterações viram ajustes no livro.
+ */
+export async function saveMaterial(
+  data: MaterialInput,
+  operator: string,
+  existing?: RawMaterial,
+): Promise<RawMaterial> {
+  const { quantity, ...fields } = data;
+  const now = new Date();
+  let material: RawMaterial;
+
+  if (existing) {
+    material = { ...existing, ...fields, lastUpdated: now };
+    if (db) {
+      try {
+        await updateDoc(
+          doc(db, "materials", existing.id),
+          sanitizeForFirestore({
+            ...toMaterialRecord(fields),
+            lastUpdated: toIso(now),
+            updated_at: serverTimestamp(),
+          }) as any,
+        );
+      } catch (err) {
+        throw storageError("saveMaterial", "salvar o material", err);
+      }
+    } else {
+      writeLocal(
+        MATERIALS_KEY,
+        readLocal(MATERIALS_KEY).map((m) =>
+          m.id === existing.id
+            ? { ...m, ...toMaterialRecord(material), quantity: m.quantity }
+            : m,
+        ),
+      );
+    }
+  } else {
+    material = { ...fields, id: "", quantity: 0, lastUpdated: now };
+    if (db) {
+      try {
+        const ref = await addDoc(
+          collection(db, "materials"),
+          sanitizeForFirestore({
+            ...toMaterialRecord(material),
+            created_at: serverTimestamp(),
+            updated_at: serverTimestamp(),
+          }),
+        );
+        material.id = ref.id;
+      } catch (err) {
+        throw storageError("saveMaterial", "salvar o material", err);
+      }
+    } else {
+      material.id = `mat-${Date.now()}`;
+      writeLocal(MATERIALS_KEY, [
+        { ...toMaterialRecord(material), id: material.id },
+        ...readLocal(MATERIALS_KEY),
+      ]);
+    }
+  }
+
+  const initialStock: MovementInput | null =
+    quantity > 0 ? { type: "in", quantity, reason: "Saldo inicial" } : null;
+  const adjustment = existing
+    ? adjustmentTo(material, quantity, "Correção no cadastro")
+    : initialStock;
+  if (adjustment) {
+    material = await recordMovement(material.id, adjustment, operator);
+  }
+
+  notifyMaterialsChanged({ id: material.id });
+  return material;
+}
+
+export async function deleteMaterial(materialId: string): Promise<void> {
+  if (db) {
+    try {
+      await deleteDoc(doc(db, "materials", materialId));
+      notifyMaterialsChanged({ id: materialId });
+      return;
+    } catch (err) {
+      throw storageError("deleteMaterial", "excluir o material", err);
+    }
+  }
+  writeLocal(
+    MATERIALS_KEY,
+    readLocal(MATERIALS_KEY).filter((m) => m.id !== materialId),
+  );
+  notifyMaterialsChanged({ id: materialId });
+}
@@ -0,0 +1,60 @@
+import { describe, it, expect } from "vitest";
+import {
+  findByCode,
+  generateOPNumber,
+  productBaseCode,
+  type OpOrder,
+} from "./opNumber";
+
+const order = (id: string, extra: Partial<OpOrder> = {}): OpOrder => ({
+  id,
+  order_number: `PED-${id}`,
+  status: "in_production",
+  products: [
+    {
+      id: `${id}-p1`,
+      product_id: "bed",
+      product_name: "Cama Box",
+      size: "138x188",
+      color: "Marrom",
+    },
+  ],
+  ...extra,
+});
+
+describe("opNumber", () => {
+  it("builds the OP from base code, size and color", () => {
+    expect(productBaseCode("bed", [{ id: "bed", sku: "BED-120-001" }])).toBe(
+      "120",
+    );
+    expect(productBaseCode("other", [])).toBe("100");
+    expect(generateOPNumber("100", "138x188", "Marrom")).toBe("100138MARR");
+  });
+
+  it("finds orders and fragments by OP or order number", () => {
+    const orders = [
+      order("1"),
+      order("2", {
+        is_fragmented: true,
+        fragments: [
+          { id: "f1", product_id: "bed", color: "Preto" },
+          { id: "f2", product_id: "bed" },
+        ],
+      }),
+      order("3", { products: [] }),
+    ];
+
+    expect(
+      findByCode(orders, " 100138marr ").map((m) => [
+        m.order.id,
+        m.fragment?.id,
+      ]),
+    ).toEqual([
+      ["1", undefined],
+      ["2", "f2"],
+    ]);
+    expect(findByCode(orders, "100138PRET")[0].fragment.id).toBe("f1");
+    expect(findByCode(orders, "ped-3").map((m) => m.order.id)).toEqual(["3"]);
+    expect(findByCode(orders, "")).toEqual([]);
+  });
+});
@@ -0,0 +1,144 @@
+/**
+ * Número da OP impresso na Agenda: CÓDIGO_BASE + MEDIDA + COR
+ * (ex.: 100138MROM = base 100, medida 138, cor MROM). O quiosque da produção
+ * lê o mesmo número para achar o pedido ou fragmento.
+ */
+
+interface OpProduct {
+  id?: string;
+  product_id?: string;
+  product_name?: string;
+  size?: string;
+  color?: string;
+  sku?: string;
+}
+
+interface OpFragment {
+  id: string;
+  product_id?: string;
+  product_name?: string;
+  size?: string;
+  color?: string;
+}
+
+export interface OpOrder {
+  id: string;
+  order_number: string;
+  status: string;
+  is_fragmented?: boolean;
+  products?: OpProduct[];
+  fragments?: OpFragment[];
+}
+
+export interface OpMatch<T extends OpOrder> {
+  order: T;
+  fragment?: NonNullable<T["fragments"]>[number];
+  opNumber?: string;
+}
+
+// Extrai o código base do SKU do produto (ex: "100" de "100138MROM" ou "BED-100-001")
+export function productBaseCode(
+  productId: string,
+  products: OpProduct[],
+): string {
+  const product = products.find(
+    (p) => p.id === productId || p.product_id === productId,
+  );
+  if (product?.sku) {
+    const digits = product.sku.match(/\d{2,3}/);
+    return digits ? digits[0] : "100";
+  }
+  return "100";
+}
+
+export function generateOPNumber(
+  baseCode: string,
+  size: string,
+  color: string,
+): string {
+  // Extrair primeiro número da medida (ex: "138x188" → "138", "138" → "138")
+  const sizeCode = size?.match(/^\d+/)?.[0] || "";
+
+  // Extrair 4 primeiras letras da cor em maiúsculo (ex: "Marrom" → "MROM")
+  const colorCode = color?.toUpperCase().substring(0, 4) || "";
+
+  return `${baseCode}${sizeCode}${colorCode}`;
+}
+
+/** Produto, medida e cor do fragmento, com o produto do pedido como reserva. */
+export function fragmentDetails(
+  order: OpOrder,
+  fragment: OpFragment,
+  fragmentIndex: number,
+) {
+  // Se o fragmento tem product_id, use para encontrar o produto
+  let product: OpProduct | undefined;
+  if (fragment.product_id) {
+    product = order.products?.find(
+      (p) =>
+        p.product_id === fragment.product_id || p.id === fragment.product_id,
+    );
+  }
+
+  // Fragmentos antigos não têm product_id: o primeiro fragmento costuma
+  // corresponder ao primeiro produto, e assim por diante
+  if (!product && order.products && order.products.length > 0) {
+    product =
+      fragmentIndex < order.products.length
+        ? order.products[fragmentIndex]
+        : order.products[0];
+  }
+
+  // Priorizar dados do fragmento, depois do produto
+  return {
+    product_name: fragment.product_name || product?.product_name || "",
+    size: fragment.size || product?.size || "",
+    color: fragment.color || product?.color || "",
+  };
+}
+
+/**
+ * Pedidos e fragmentos que respondem ao código lido: número do pedido ou OP.
+ * A OP se repete entre pedidos do mesmo produto, então pode haver vários.
+ */
+export function findByCode<T extends OpOrder>(
+  orders: T[],
+  code: string,
+): OpMatch<T>[] {
+  const wanted = code.trim().toUpperCase();
+  if (!wanted) return [];
+  const allProducts = orders.flatMap((order) => order.products || []);
+  const opOf = (product: {
+    product_id?: string;
+    size?: string;
+    color?: string;
+  }) =>
+    generateOPNumber(
+      productBaseCode(product.product_id, allProducts),
+      product.size,
+      product.color,
+    ).toUpperCase();
+
+  const matches: OpMatch<T>[] = [];
+  for (const order of orders) {
+    const fragments = order.is_fragmented ? order.fragments || [] : [];
+
+    if (order.order_number?.toUpperCase() === wanted) {
+      matches.push({ order });
+      continue;
+    }
+
+    if (fragments.length > 0) {
+      fragments.forEach((fragment, index) => {
+        const details = fragmentDetails(order, fragment, index);
+        const opNumber = opOf({ ...details, product_id: fragment.product_id });
+        if (opNumber === wanted) matches.push({ order, fragment, opNumber });
+      });
+      continue;
+    }
+
+    const product = (order.products || []).find((p) => opOf(p) === wanted);
+    if (product) matches.push({ order, opNumber: wanted });
+  }
+  return matches;
+}
@@ -0,0 +1,21 @@
+import { describe, it, expect } from "vitest";
+import { hashPin, isValidPin, verifyPin } from "./operatorPin";
+
+describe("operatorPin", () => {
+  it("accepts 4 to 6 digits", () => {
+    expect(isValidPin("1234")).toBe(true);
+    expect(isValidPin("123456")).toBe(true);
+    expect(isValidPin("123")).toBe(false);
+    expect(isValidPin("12a4")).toBe(false);
+  });
+
+  it("verifies the PIN against the operator hash", async () => {
+    const operator = { id: "op-1", pinHash: await hashPin("op-1", "4321") };
+    expect(operator.pinHash).toMatch(/^[0-9a-f]{64}$/);
+    expect(await verifyPin(operator, "4321")).toBe(true);
+    expect(await verifyPin(operator, "1234")).toBe(false);
+    // O mesmo PIN de outro operador não confere
+    expect(await verifyPin({ ...operator, id: "op-2" }, "4321")).toBe(false);
+    expect(await verifyPin({ id: "op-3" }, "4321")).toBe(false);
+  });
+});
@@ -0,0 +1,26 @@
+/**
+ * PIN do crachá usado no quiosque da produção. Só o hash fica salvo na
+ * configuração; com 4 a 6 dígitos ele identifica o operador no chão de
+ * fábrica, mas não substitui o login do dispositivo.
+ */
+
+export const isValidPin = (pin: string) => /^\d{4,6}$/.test(pin);
+
+export async function hashPin(
+  operatorId: string,
+  pin: string,
+): Promise<string> {
+  const data = new TextEncoder().encode(`${operatorId}:${pin}`);
+  const digest = await crypto.subtle.digest("SHA-256", data);
+  return Array.from(new Uint8Array(digest), (byte) =>
+    byte.toString(16).padStart(2, "0"),
+  ).join("");
+}
+
+export async function verifyPin(
+  operator: { id: string; pinHash?: string },
+  pin: string,
+): Promise<boolean> {
+  if (!operator.pinHash || !isValidPin(pin)) return false;
+  return (await hashPin(operator.id, pin)) === operator.pinHash;
+}
@@ -0,0 +1,51 @@
+/**
+ * Notificações de alteração de pedidos. O evento `orders:changed` só chega à
+ * própria aba; o BroadcastChannel leva a mesma notificação para as outras
+ * abas abertas (modo localStorage, onde não há onSnapshot).
+ */
+
+const EVENT_NAME = "orders:changed";
+const CHANNEL_NAME = "biobox_orders";
+
+let channel: BroadcastChannel | null | undefined;
+
+function getChannel(): BroadcastChannel | null {
+  if (channel === undefined) {
+    channel =
+      typeof BroadcastChannel !== "undefined"
+        ? new BroadcastChannel(CHANNEL_NAME)
+        : null;
+  }
+  return channel;
+}
+
+export function notifyOrdersChanged(detail: { id?: string } = {}) {
+  try {
+    if (typeof window !== "undefined") {
+      window.dispatchEvent(new CustomEvent(EVENT_NAME, { detail }));
+    }
+    getChannel()?.postMessage({ type: EVENT_NAME, ...detail });
+  } catch {}
+}
+
+/** Escuta alterações de pedidos feitas nesta e em outras abas. */
+export function subscribeToOrderChanges(listener: () => void): () => void {
+  if (typeof window === "undefined") return () => {};
+
+  const handleStorage = (e: StorageEvent) => {
+    if (e.key === "biobox_orders") listener();
+  };
+  const handleMessage = (e: MessageEvent) => {
+    if (e.data?.type === EVENT_NAME) listener();
+  };
+
+  window.addEventListener(EVENT_NAME, listener);
+  window.addEventListener("storage", handleStorage);
+  getChannel()?.addEventListener("message", handleMessage);
+
+  return () => {
+    window.removeEventListener(EVENT_NAME, listener);
+    window.removeEventListener("storage", handleStorage);
+    getChannel()?.removeEventListener("message", handleMessage);
+  };
+}
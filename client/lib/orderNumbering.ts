@@ -0,0 +1,138 @@
+import { db } from "@/lib/firebase";
+import {
+  collection,
+  doc,
+  getDocs,
+  limit,
+  query,
+  runTransaction,
+  serverTimestamp,
+  where,
+} from "firebase/firestore";
+import {
+  DEFAULT_ORDER_NUMBER_CONFIG,
+  highestOrderSequence,
+  issueOrderNumber,
+  orderCounterId,
+  type OrderNumberConfig,
+} from "@shared/orderNumber";
+
+const LOCAL_COUNTERS_KEY = "biobox_order_counters";
+
+/** Prefixo e número de dígitos configurados em Configurações > Sistema. */
+export function getOrderNumberConfig(): OrderNumberConfig {
+  try {
+    const stored = JSON.parse(
+      localStorage.getItem("biobox_settings_system") || "{}",
+    );
+    const padding = Number(stored.orderNumberPadding);
+    return {
+      prefix:
+        typeof stored.orderNumberPrefix === "string" &&
+        stored.orderNumberPrefix.trim()
+          ? stored.orderNumberPrefix.trim().toUpperCase()
+          : DEFAULT_ORDER_NUMBER_CONFIG.prefix,
+      padding:
+        Number.isInteger(padding) && padding > 0
+          ? padding
+          : DEFAULT_ORDER_NUMBER_CONFIG.padding,
+    };
+  } catch {
+    return DEFAULT_ORDER_NUMBER_CONFIG;
+  }
+}
+
+const readLocalOrders = (): any[] => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem("biobox_orders") || "[]");
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Equivalente local do contador do Firestore. Nunca fica abaixo da maior
+ * sequência já presente nos pedidos em cache, para não repetir números.
+ */
+function nextLocalSequence(year: number): number {
+  const counters = JSON.parse(
+    localStorage.getItem(LOCAL_COUNTERS_KEY) || "{}",
+  ) as Record<string, number>;
+  const cached = highestOrderSequence(
+    readLocalOrders().map((o) => o.order_number),
+    year,
+  );
+  const next = Math.max(counters[year] || 0, cached) + 1;
+  localStorage.setItem(
+    LOCAL_COUNTERS_KEY,
+    JSON.stringify({ ...counters, [year]: next }),
+  );
+  return next;
+}
+
+async function nextSequence(year: number): Promise<number> {
+  if (db) {
+    try {
+      const ref = doc(db, "counters", orderCounterId(year));
+      const next = await runTransaction(db, async (tx) => {
+        const snap = await tx.get(ref);
+        const value = (snap.exists() ? Number(snap.data().last) || 0 : 0) + 1;
+        tx.set(
+          ref,
+          { last: value, year, updated_at: serverTimestamp() },
+          { merge: true },
+        );
+        return value;
+      });
+      console.log("🔢 [orderNumbering] Sequência do Firestore:", next);
+      return next;
+    } catch (err) {
+      console.warn(
+        "⚠️ [orderNumbering] Contador do Firestore indisponível, usando localStorage:",
+        err,
+      );
+    }
+  }
+  return nextLocalSequence(year);
+}
+
+/**
+ * Verifica se já existe um pedido com o número informado (ignorando o
+ * pedido `excludeId`, útil ao editar).
+ */
+export async function isOrderNumberTaken(
+  orderNumber: string,
+  excludeId?: string,
+): Promise<boolean> {
+  if (db) {
+    try {
+      const snap = await getDocs(
+        query(
+          collection(db, "orders"),
+          where("order_number", "==", orderNumber),
+          limit(2),
+        ),
+      );
+      return snap.docs.some((d) => d.id !== excludeId);
+    } catch (err) {
+      console.warn(
+        "⚠️ [orderNumbering] Não foi possível consultar o Firestore, verificando localStorage:",
+        err,
+      );
+    }
+  }
+  return readLocalOrders().some(
+    (o) => o.order_number === orderNumber && o.id !== excludeId,
+  );
+}
+
+/** Gera o próximo número de pedido livre (contador anual + checagem). */
+export function generateOrderNumber(date = new Date()): Promise<string> {
+  return issueOrderNumber({
+    nextSequence,
+    isTaken: (orderNumber) => isOrderNumberTaken(orderNumber),
+    config: getOrderNumberConfig(),
+    date,
+  });
+}
@@ -0,0 +1,58 @@
+import type {
+  ApiErrorResponse,
+  PrintBridgeConfigResponse,
+  PrintJobResponse,
+  PrintTarget,
+} from "@shared/api";
+import { bytesToBase64 } from "@shared/escpos";
+
+/**
+ * Ponte de impressão: o navegador não fala com a impressora térmica, então os
+ * bytes gerados aqui (ESC/POS, ZPL) vão para o servidor (/api/print), que os
+ * repassa à impressora de rede ou ao dispositivo USB.
+ */
+
+export class PrintBridgeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PrintBridgeError";
+  }
+}
+
+async function request<T>(path: string, init?: RequestInit): Promise<T> {
+  let res: Response;
+  try {
+    res = await fetch(`/api/print${path}`, {
+      ...init,
+      headers: { "Content-Type": "application/json" },
+    });
+  } catch {
+    throw new PrintBridgeError("Servidor de impressão indisponível");
+  }
+  if (!res.ok) {
+    const body = (await res.json().catch(() => null)) as ApiErrorResponse;
+    throw new PrintBridgeError(
+      body?.error || `Falha na impressão (HTTP ${res.status})`,
+    );
+  }
+  return res.json();
+}
+
+/** Impressora padrão e dispositivos liberados no servidor. */
+export const getPrintBridgeConfig = () =>
+  request<PrintBridgeConfigResponse>("/config");
+
+/** Envia os bytes; sem destino, usa a impressora configurada no servidor. */
+export function sendPrintJob(
+  data: Uint8Array,
+  options: { target?: PrintTarget; copies?: number } = {},
+): Promise<PrintJobResponse> {
+  return request<PrintJobResponse>("", {
+    method: "POST",
+    body: JSON.stringify({
+      data: bytesToBase64(data),
+      target: options.target,
+      copies: options.copies ?? 1,
+    }),
+  });
+}
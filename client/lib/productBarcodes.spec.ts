@@ -0,0 +1,77 @@
+import { describe, it, expect } from "vitest";
+import type { Product } from "@/types/inventory";
+import {
+  barcodeErrors,
+  nextProductGtin,
+  productBarcodes,
+} from "./productBarcodes";
+
+const products = [
+  {
+    id: "p1",
+    name: "Cama Queen",
+    barcode: "7891234000002",
+    models: [
+      {
+        name: "Standard",
+        barcodes: [
+          { id: "b1", code: "7891234000019", size: "Queen", color: "Branco" },
+        ],
+      },
+    ],
+  },
+  { id: "p2", name: "Travesseiro", models: [] },
+] as unknown as Product[];
+
+describe("productBarcodes", () => {
+  it("lists product and variant codes with their owner", () => {
+    expect(productBarcodes(products)).toEqual([
+      { productId: "p1", productName: "Cama Queen", code: "7891234000002" },
+      {
+        productId: "p1",
+        productName: "Cama Queen",
+        code: "7891234000019",
+        variant: "Standard · Queen · Branco",
+      },
+    ]);
+  });
+
+  it("rejects invalid and duplicated codes", () => {
+    expect(
+      barcodeErrors(
+        [
+          { key: "product", code: "7891234000019" },
+          { key: "a", code: "7891234000020" },
+          { key: "b", code: "ABC" },
+          { key: "c", code: "7891234000026" },
+          { key: "d", code: "7891234000026" },
+          { key: "e", code: "" },
+        ],
+        products,
+        "p2",
+      ),
+    ).toEqual({
+      product: "Já usado em Cama Queen (Standard · Queen · Branco)",
+      a: "Dígito verificador inválido",
+      b: "Use um GTIN-13 (13 dígitos)",
+      d: "Código repetido neste produto",
+    });
+
+    // O próprio produto pode manter (ou trocar de campo) seus códigos
+    expect(
+      barcodeErrors(
+        [{ key: "product", code: "7891234000019" }],
+        products,
+        "p1",
+      ),
+    ).toEqual({});
+  });
+
+  it("generates the next free code of the prefix", () => {
+    expect(
+      nextProductGtin("7891234", products, [
+        { key: "a", code: "7891234000026" },
+      ]),
+    ).toBe("7891234000033");
+  });
+});
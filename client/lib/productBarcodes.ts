@@ -0,0 +1,102 @@
+import { isValidGtin13, nextGtin13, normalizeGtinPrefix } from "@shared/gtin";
+import type { Product, VariantBarcode } from "@/types/inventory";
+
+/**
+ * Códigos de barras dos produtos e das variações: todos são GTIN-13 e nenhum
+ * se repete entre produtos, modelos e variações.
+ */
+
+export interface BarcodeOwner {
+  code: string;
+  productId: string;
+  productName: string;
+  /** Descrição da variação; vazio para o código do próprio produto */
+  variant?: string;
+}
+
+/** Código sendo editado no formulário (`key` identifica o campo). */
+export interface BarcodeEntry {
+  key: string;
+  code: string;
+}
+
+/** Prefixo GS1 configurado em Configurações > Sistema ("" quando ausente). */
+export function getGtinPrefix(): string {
+  try {
+    const stored = JSON.parse(
+      localStorage.getItem("biobox_settings_system") || "{}",
+    );
+    return normalizeGtinPrefix(stored.gtinPrefix);
+  } catch {
+    return "";
+  }
+}
+
+export const variantLabel = (barcode: Omit<VariantBarcode, "id" | "code">) =>
+  [barcode.size, barcode.color, barcode.fabric].filter(Boolean).join(" · ") ||
+  "Todas as variações";
+
+export function productBarcodes(products: Product[]): BarcodeOwner[] {
+  return products.flatMap((product) => {
+    const owner = { productId: product.id, productName: product.name };
+    const variants = (product.models || []).flatMap((model) =>
+      (model.barcodes || []).map((barcode) => ({
+        ...owner,
+        code: barcode.code,
+        variant: `${model.name} · ${variantLabel(barcode)}`,
+      })),
+    );
+    return [
+      ...(product.barcode ? [{ ...owner, code: product.barcode }] : []),
+      ...variants,
+    ].filter((entry) => entry.code?.trim());
+  });
+}
+
+/**
+ * Erros por campo do formulário: código que não é GTIN-13 válido ou que já
+ * pertence a outro produto (ou a outro campo do mesmo produto). Os códigos
+ * salvos do próprio produto (`productId`) podem ser reaproveitados.
+ */
+export function barcodeErrors(
+  entries: BarcodeEntry[],
+  products: Product[],
+  productId?: string,
+): Record<string, string> {
+  const owners = productBarcodes(
+    products.filter((product) => product.id !== productId),
+  );
+  const errors: Record<string, string> = {};
+  const seen = new Set<string>();
+
+  for (const { key, code: raw } of entries) {
+    const code = (raw || "").trim();
+    if (!code) continue;
+    if (!isValidGtin13(code)) {
+      errors[key] = /^\d{13}$/.test(code)
+        ? "Dígito verificador inválido"
+        : "Use um GTIN-13 (13 dígitos)";
+      continue;
+    }
+    const owner = owners.find((entry) => entry.code === code);
+    if (owner) {
+      errors[key] =
+        `Já usado em ${owner.productName}${owner.variant ? ` (${owner.variant})` : ""}`;
+    } else if (seen.has(code)) {
+      errors[key] = "Código repetido neste produto";
+    }
+    seen.add(code);
+  }
+  return errors;
+}
+
+/** Próximo GTIN-13 livre do prefixo, sem colidir com produtos nem com o formulário. */
+export const nextProductGtin = (
+  prefix: string,
+  products: Product[],
+  entries: BarcodeEntry[] = [],
+) =>
+  nextGtin13(prefix, [
+    ...productBarcodes(products).map((owner) => owner.code),
+    ...entries.map((entry) => entry.code),
+  ]);
@@ -0,0 +1,57 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { fetchOrderRouting } from "./productionConfig";
+
+// Modo offline: sem Firestore, tudo vem do localStorage
+vi.mock("@/lib/firebase", () => ({ db: null }));
+
+const storage = new Map<string, string>();
+
+beforeEach(() => {
+  storage.clear();
+  vi.stubGlobal("localStorage", {
+    getItem: (key: string) => storage.get(key) ?? null,
+    setItem: (key: string, value: string) => storage.set(key, value),
+    removeItem: (key: string) => storage.delete(key),
+  });
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe("fetchOrderRouting", () => {
+  it("reads product routings from the local cache without Firestore", async () => {
+    storage.set(
+      "biobox_products",
+      JSON.stringify([
+        { id: "pillow-1", category: "pillow", models: [] },
+        {
+          id: "bed-1",
+          category: "bed",
+          models: [
+            {
+              routing: [
+                { stageId: "carpentry", minutesPerUnit: 60 },
+                { stageId: "packaging", minutesPerUnit: 10 },
+              ],
+            },
+          ],
+        },
+      ]),
+    );
+
+    expect(
+      await fetchOrderRouting([{ product_id: "pillow-1", quantity: 2 }]),
+    ).toEqual([
+      { stage: "cutting_sewing", status: "pending", estimated_minutes: 60 },
+      { stage: "packaging", status: "pending", estimated_minutes: 10 },
+      { stage: "delivery", status: "pending", estimated_minutes: 30 },
+    ]);
+
+    expect(
+      (await fetchOrderRouting([{ product_id: "bed-1", quantity: 1 }])).map(
+        (stage) => stage.stage,
+      ),
+    ).toEqual(["carpentry", "packaging"]);
+  });
+});
@@ -0,0 +1,225 @@
+import { db } from "@/lib/firebase";
+import { doc, getDoc, serverTimestamp, setDoc } from "firebase/firestore";
+import { sanitizeForFirestore } from "@/lib/firestore";
+import { renumberStages } from "@/lib/productionStages";
+import {
+  buildOrderStages,
+  type RoutedStage,
+  type RoutingOrderLine,
+} from "@/lib/routings";
+import type { Product } from "@/types/inventory";
+import {
+  defaultOperators,
+  defaultProductionLines,
+  defaultProductionPreferences,
+  defaultQualityChecklists,
+  defaultRoutings,
+  productionStages,
+  type ProductionConfig,
+} from "@/types/production";
+
+/**
+ * Configuração de produção (linhas, operadores, etapas e roteiros) no
+ * documento `settings/production`. Enquanto nada foi salvo, valem os padrões de
+ * `types/production`; sem Firestore, usa localStorage. Só administradores
+ * gravam `settings/*`: a falha na gravação é repassada, porque a cópia local
+ * seria apagada pela próxima leitura.
+ */
+
+export class ProductionConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ProductionConfigError";
+  }
+}
+
+const CONFIG_KEY = "biobox_production_config";
+
+const toDate = (value: any): Date | undefined => {
+  if (!value) return undefined;
+  if (typeof value?.toDate === "function") return value.toDate();
+  const parsed = new Date(value);
+  return Number.isNaN(parsed.getTime()) ? undefined : parsed;
+};
+
+export const defaultProductionConfig = (): ProductionConfig => ({
+  preferences: defaultProductionPreferences,
+  lines: defaultProductionLines,
+  operators: defaultOperators,
+  stages: productionStages,
+  routings: defaultRoutings,
+  qualityChecklists: defaultQualityChecklists,
+});
+
+function fromRecord(data: any): ProductionConfig {
+  const defaults = defaultProductionConfig();
+  const preferences = data?.preferences || {};
+  return {
+    preferences: {
+      workingHours: {
+        ...defaults.preferences.workingHours,
+        ...preferences.workingHours,
+      },
+      targets: { ...defaults.preferences.targets, ...preferences.targets },
+      alerts: { ...defaults.preferences.alerts, ...preferences.alerts },
+      automation: {
+        ...defaults.preferences.automation,
+        ...preferences.automation,
+      },
+    },
+    lines: Array.isArray(data?.lines)
+      ? data.lines.map((line: any) => ({
+          ...line,
+          lastUpdate: toDate(line.lastUpdate) || new Date(),
+        }))
+      : defaults.lines,
+    operators: Array.isArray(data?.operators)
+      ? data.operators
+      : defaults.operators,
+    stages:
+      Array.isArray(data?.stages) && data.stages.length > 0
+        ? renumberStages(data.stages)
+        : defaults.stages,
+    routings: { ...defaults.routings, ...data?.routings },
+    qualityChecklists: {
+      ...defaults.qualityChecklists,
+      ...data?.qualityChecklists,
+    },
+    updatedAt: toDate(data?.updatedAt),
+    updatedBy: data?.updatedBy,
+  };
+}
+
+const toRecord = (config: ProductionConfig) => ({
+  ...config,
+  lines: config.lines.map((line) => ({
+    ...line,
+    lastUpdate: line.lastUpdate.toISOString(),
+  })),
+  updatedAt: config.updatedAt?.toISOString(),
+});
+
+const readLocal = (): any => {
+  try {
+    return JSON.parse(localStorage.getItem(CONFIG_KEY) || "null");
+  } catch {
+    return null;
+  }
+};
+
+const writeLocal = (record: any) =>
+  localStorage.setItem(CONFIG_KEY, JSON.stringify(record));
+
+const notifyProductionConfigChanged = () => {
+  try {
+    window.dispatchEvent(new CustomEvent("production-config:changed"));
+  } catch {}
+};
+
+export async function fetchProductionConfig(): Promise<ProductionConfig> {
+  if (db) {
+    try {
+      const snap = await getDoc(doc(db, "settings", "production"));
+      if (snap.exists()) {
+        const config = fromRecord(snap.data());
+        writeLocal(toRecord(config));
+        return config;
+      }
+    } catch (err) {
+      console.warn(
+        "⚠️ [fetchProductionConfig] Firestore indisponível, usando localStorage:",
+        err,
+      );
+    }
+  }
+  return fromRecord(readLocal());
+}
+
+export async function saveProductionConfig(
+  data: ProductionConfig,
+  operator: string,
+): Promise<ProductionConfig> {
+  const config: ProductionConfig = {
+    ...data,
+    stages: renumberStages(data.stages),
+    updatedAt: new Date(),
+    updatedBy: operator,
+  };
+
+  if (db) {
+    try {
+      await setDoc(
+        doc(db, "settings", "production"),
+        sanitizeForFirestore({
+          ...toRecord(config),
+          updated_at: serverTimestamp(),
+        }),
+      );
+    } catch (err) {
+      console.error(
+        "❌ [saveProductionConfig] Erro ao gravar no Firestore:",
+        err,
+      );
+      throw new ProductionConfigError(
+        `Não foi possível salvar a configuração: ${(err as Error).message}`,
+      );
+    }
+  }
+
+  // Cópia local também serve de cache para a próxima leitura
+  writeLocal(toRecord(config));
+  console.log("✅ [saveProductionConfig] Configuração de produção salva");
+  notifyProductionConfigChanged();
+  return config;
+}
+
+/** Produtos em cache local (chave usada por `useFirebase`), para o modo offline. */
+const readLocalProducts = (): Product[] => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem("biobox_products") || "[]");
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Etapas de um pedido novo a partir dos roteiros dos produtos. Produtos que o
+ * Firestore não devolver vêm do cache local; sem nenhum dos dois, o produto
+ * segue o roteiro padrão (todas as etapas ativas).
+ */
+export async function fetchOrderRouting(
+  lines: RoutingOrderLine[],
+): Promise<RoutedStage[]> {
+  const config = await fetchProductionConfig();
+  const products: Product[] = [];
+  const ids = Array.from(
+    new Set(lines.map((line) => line.product_id).filter(Boolean)),
+  );
+
+  if (db) {
+    for (const id of ids) {
+      try {
+        const snap = await getDoc(doc(db, "products", id));
+        if (snap.exists()) {
+          products.push({ ...(snap.data() as Product), id: snap.id });
+        }
+      } catch (err) {
+        console.warn("⚠️ [fetchOrderRouting] Produto indisponível:", id, err);
+      }
+    }
+  }
+
+  const missing = ids.filter((id) => !products.some((p) => p.id === id));
+  if (missing.length > 0) {
+    products.push(
+      ...readLocalProducts().filter((product) => missing.includes(product.id)),
+    );
+  }
+
+  return buildOrderStages(
+    lines.length > 0 ? lines : [{ product_id: "", quantity: 1 }],
+    products,
+    config,
+  );
+}
@@ -0,0 +1,197 @@
+import { db } from "@/lib/firebase";
+import {
+  collection,
+  doc,
+  getDocs,
+  runTransaction,
+  serverTimestamp,
+  setDoc,
+} from "firebase/firestore";
+import { sanitizeForFirestore } from "@/lib/firestore";
+import { ProductionIssueError, advanceIssue } from "@/lib/issueTracking";
+import type { ProductionIssue } from "@/types/production";
+
+/**
+ * Problemas de produção (coleção `production_issues`), abertos contra uma
+ * etapa do pedido. A reprovação no controle de qualidade abre um automaticamente.
+ * Com Firestore, a falha na gravação é repassada: um problema só local seria
+ * apagado pela próxima leitura, e a etapa deixaria de ficar bloqueada.
+ */
+
+const ISSUES_KEY = "biobox_production_issues";
+
+const toDate = (value: any): Date | undefined => {
+  if (!value) return undefined;
+  if (typeof value?.toDate === "function") return value.toDate();
+  const parsed = new Date(value);
+  return Number.isNaN(parsed.getTime()) ? undefined : parsed;
+};
+
+const toIso = (value?: Date) => (value ? value.toISOString() : undefined);
+
+function fromRecord(id: string, data: any): ProductionIssue {
+  return {
+    id,
+    taskId: data.taskId || "",
+    orderNumber: data.orderNumber || undefined,
+    stage: data.stage || undefined,
+    inspectionId: data.inspectionId || undefined,
+    blocking: Boolean(data.blocking),
+    type: data.type || "other",
+    description: data.description || "",
+    severity: data.severity || "medium",
+    status: data.status || "open",
+    reportedBy: data.reportedBy || "",
+    reportedAt: toDate(data.reportedAt) || new Date(),
+    resolvedAt: toDate(data.resolvedAt),
+    resolution: data.resolution || undefined,
+  };
+}
+
+function toRecord(issue: ProductionIssue) {
+  const { id: _ignored, ...rest } = issue;
+  return {
+    ...rest,
+    reportedAt: toIso(issue.reportedAt),
+    resolvedAt: toIso(issue.resolvedAt),
+  };
+}
+
+const readLocal = (): any[] => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(ISSUES_KEY) || "[]");
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+};
+
+const writeLocal = (records: any[]) =>
+  localStorage.setItem(ISSUES_KEY, JSON.stringify(records));
+
+const notifyIssuesChanged = (detail?: { id?: string }) => {
+  try {
+    window.dispatchEvent(
+      new CustomEvent("production-issues:changed", { detail }),
+    );
+  } catch {}
+};
+
+const newestFirst = (a: ProductionIssue, b: ProductionIssue) =>
+  b.reportedAt.getTime() - a.reportedAt.getTime();
+
+export async function fetchProductionIssues(): Promise<ProductionIssue[]> {
+  if (db) {
+    try {
+      const snap = await getDocs(collection(db, "production_issues"));
+      const issues = snap.docs.map((d) => fromRecord(d.id, d.data()));
+      writeLocal(issues.map((i) => ({ ...toRecord(i), id: i.id })));
+      return issues.sort(newestFirst);
+    } catch (err) {
+      console.warn(
+        "⚠️ [fetchProductionIssues] Firestore indisponível, usando localStorage:",
+        err,
+      );
+    }
+  }
+  return readLocal()
+    .map((r) => fromRecord(r.id, r))
+    .sort(newestFirst);
+}
+
+export async function createProductionIssue(
+  data: Omit<ProductionIssue, "id" | "status" | "reportedAt">,
+): Promise<ProductionIssue> {
+  const issue: ProductionIssue = {
+    ...data,
+    id: "",
+    status: "open",
+    reportedAt: new Date(),
+  };
+
+  if (db) {
+    try {
+      const ref = doc(collection(db, "production_issues"));
+      await setDoc(
+        ref,
+        sanitizeForFirestore({
+          ...toRecord(issue),
+          created_at: serverTimestamp(),
+          updated_at: serverTimestamp(),
+        }),
+      );
+      issue.id = ref.id;
+    } catch (err) {
+      console.error("❌ [createProductionIssue] Erro ao gravar problema:", err);
+      throw new ProductionIssueError(
+        `Não foi possível registrar o problema: ${(err as Error).message}`,
+      );
+    }
+  } else {
+    issue.id = `issue-${Date.now()}`;
+    writeLocal([{ ...toRecord(issue), id: issue.id }, ...readLocal()]);
+  }
+
+  console.log("✅ [createProductionIssue] Problema registrado:", issue.id);
+  notifyIssuesChanged({ id: issue.id });
+  return issue;
+}
+
+/** Triagem e resolução do problema (ver `advanceIssue`). */
+export async function updateProductionIssueStatus(
+  issueId: string,
+  to: ProductionIssue["status"],
+  resolution?: string,
+): Promise<ProductionIssue> {
+  let updated: ProductionIssue | null = null;
+
+  if (db) {
+    try {
+      updated = await runTransaction(db, async (tx) => {
+        const ref = doc(db, "production_issues", issueId);
+        const snap = await tx.get(ref);
+        if (!snap.exists()) {
+          throw new ProductionIssueError("Problema não encontrado");
+        }
+        const next = advanceIssue(
+          fromRecord(snap.id, snap.data()),
+          to,
+          resolution,
+        );
+        tx.update(ref, {
+          status: next.status,
+          resolution: next.resolution || null,
+          resolvedAt: toIso(next.resolvedAt) || null,
+          updated_at: serverTimestamp(),
+        });
+        return next;
+      });
+    } catch (err) {
+      if (err instanceof ProductionIssueError) throw err;
+      console.error(
+        "❌ [updateProductionIssueStatus] Erro ao gravar problema:",
+        err,
+      );
+      throw new ProductionIssueError(
+        `Não foi possível atualizar o problema: ${(err as Error).message}`,
+      );
+    }
+  } else {
+    const records = readLocal();
+    const stored = records.find((r) => r.id === issueId);
+    if (!stored) throw new ProductionIssueError("Problema não encontrado");
+    updated = advanceIssue(fromRecord(stored.id, stored), to, resolution);
+    writeLocal(
+      records.map((r) =>
+        r.id === issueId ? { ...toRecord(updated), id: r.id } : r,
+      ),
+    );
+  }
+
+  console.log("✅ [updateProductionIssueStatus] Problema atualizado:", {
+    issueId,
+    status: updated.status,
+  });
+  notifyIssuesChanged({ id: issueId });
+  return updated;
+}
@@ -0,0 +1,207 @@
+import { describe, it, expect } from "vitest";
+import type { ProductionStage } from "@/types/production";
+import {
+  activeStages,
+  availableStageActions,
+  createStage,
+  currentStage,
+  initialOrderStages,
+  moveStage,
+  stageActionUpdates,
+  stageTimeEntries,
+  startFirstStage,
+  syncOrderStages,
+  updateOrderStage,
+  type StageAction,
+} from "./productionStages";
+
+const stage = (
+  id: string,
+  order: number,
+  active?: boolean,
+): ProductionStage => ({
+  id,
+  name: id,
+  order,
+  estimatedTime: 60,
+  requiredSkills: [],
+  description: "",
+  active,
+});
+
+const stages = [
+  stage("carpentry", 2),
+  stage("cutting", 1),
+  stage("upholstery", 3, false),
+  stage("packaging", 4),
+];
+
+describe("production stages", () => {
+  it("keeps only active stages in order", () => {
+    expect(activeStages(stages).map((s) => s.id)).toEqual([
+      "cutting",
+      "carpentry",
+      "packaging",
+    ]);
+    expect(initialOrderStages(stages)).toEqual([
+      { stage: "cutting", status: "pending" },
+      { stage: "carpentry", status: "pending" },
+      { stage: "packaging", status: "pending" },
+    ]);
+  });
+
+  it("reorders and renumbers", () => {
+    const moved = moveStage(stages, "packaging", -1);
+    expect(moved.map((s) => [s.id, s.order])).toEqual([
+      ["cutting", 1],
+      ["carpentry", 2],
+      ["packaging", 3],
+      ["upholstery", 4],
+    ]);
+    expect(moveStage(moved, "cutting", -1)).toEqual(moved);
+  });
+
+  it("creates stages with unique ids at the end", () => {
+    const created = createStage("Inspeção Final", [
+      ...stages,
+      stage("inspecao_final", 5),
+    ]);
+    expect(created).toMatchObject({
+      id: "inspecao_final_2",
+      name: "Inspeção Final",
+      order: 6,
+      active: true,
+    });
+  });
+
+  it("aligns order stages with the configuration", () => {
+    expect(syncOrderStages([], stages)).toEqual(initialOrderStages(stages));
+
+    // Roteiro do pedido é mantido; etapas desativadas só saem se pendentes
+    expect(
+      syncOrderStages(
+        [
+          { stage: "carpentry", status: "completed" },
+          { stage: "upholstery", status: "pending" },
+          { stage: "retired", status: "completed" },
+          { stage: "legacy", status: "pending" },
+          { stage: "packaging", status: "pending" },
+        ],
+        stages,
+      ),
+    ).toEqual([
+      { stage: "carpentry", status: "completed" },
+      { stage: "retired", status: "completed" },
+      { stage: "packaging", status: "pending" },
+    ]);
+  });
+
+  it("updates and starts stages", () => {
+    expect(
+      updateOrderStage([], stages, "carpentry", { status: "completed" }),
+    ).toEqual([
+      { stage: "cutting", status: "pending" },
+      { stage: "carpentry", status: "completed" },
+      { stage: "packaging", status: "pending" },
+    ]);
+
+    const started = startFirstStage(
+      [
+        { stage: "cutting", status: "completed" },
+        { stage: "packaging", status: "pending" },
+      ],
+      stages,
+      "2025-03-01T08:00:00.000Z",
+    );
+    expect(started[1]).toEqual({
+      stage: "packaging",
+      status: "in_progress",
+      started_at: "2025-03-01T08:00:00.000Z",
+    });
+    expect(startFirstStage(started, stages, "later")).toEqual(started);
+  });
+
+  it("drives the current stage from the kiosk", () => {
+    const orderStages = [
+      { stage: "cutting", status: "completed" },
+      { stage: "carpentry", status: "in_progress", assigned_operator: "Ana" },
+      { stage: "packaging", status: "pending" },
+    ];
+    const entry = currentStage(orderStages);
+    expect(entry.stage).toBe("carpentry");
+    expect(availableStageActions(entry)).toEqual(["pause", "complete"]);
+    expect(
+      availableStageActions({ ...entry, paused_at: "2025-03-01T10:00:00Z" }),
+    ).toEqual(["resume", "complete"]);
+    expect(availableStageActions(orderStages[2])).toEqual(["start"]);
+    expect(availableStageActions(orderStages[0])).toEqual([]);
+
+    expect(stageActionUpdates("start", orderStages[2], "Bia", "t1")).toEqual({
+      status: "in_progress",
+      started_at: "t1",
+      assigned_operator: "Bia",
+      time_entries: [{ operator: "Bia", started_at: "t1" }],
+    });
+    expect(stageActionUpdates("complete", entry, "Bia", "t2")).toEqual({
+      status: "completed",
+      completed_at: "t2",
+      paused_at: undefined,
+      assigned_operator: "Ana",
+      time_entries: [],
+    });
+  });
+
+  it("records worked intervals per operator", () => {
+    let entry: Parameters<typeof stageActionUpdates>[1] = {
+      stage: "cutting",
+      status: "pending",
+    };
+    const act = (action: StageAction, operator: string, at: string) => {
+      entry = { ...entry, ...stageActionUpdates(action, entry, operator, at) };
+    };
+
+    act("start", "Ana", "08:00");
+    act("pause", "Ana", "09:00");
+    act("resume", "Bia", "10:00");
+    act("complete", "Bia", "10:30");
+    expect(entry.time_entries).toEqual([
+      { operator: "Ana", started_at: "08:00", ended_at: "09:00" },
+      { operator: "Bia", started_at: "10:00", ended_at: "10:30" },
+    ]);
+    expect(entry.assigned_operator).toBe("Ana");
+
+    // Quiosque: o apontamento leva o id do operador do cadastro
+    expect(
+      stageActionUpdates(
+        "start",
+        { stage: "cutting", status: "pending" },
+        "Bia",
+        "t1",
+        "op-2",
+      ),
+    ).toMatchObject({
+      assigned_operator_id: "op-2",
+      time_entries: [
+        { operator: "Bia", operator_id: "op-2", started_at: "t1" },
+      ],
+    });
+
+    // Etapa apontada antes dos intervalos: início até a pausa
+    expect(
+      stageTimeEntries({
+        stage: "cutting",
+        status: "in_progress",
+        started_at: "08:00",
+        paused_at: "08:40",
+        assigned_operator: "Ana",
+      }),
+    ).toEqual([{ operator: "Ana", started_at: "08:00", ended_at: "08:40" }]);
+    expect(
+      stageTimeEntries({
+        stage: "cutting",
+        status: "pending",
+        started_at: "08:00",
+      }),
+    ).toEqual([]);
+  });
+});
@@ -0,0 +1,236 @@
+import type { ProductionStage } from "@/types/production";
+
+/**
+ * Regras das etapas de produção configuráveis: ordem, ativação e a lista de
+ * etapas gravada em cada pedido (`production_stages`).
+ */
+
+/** Etapa registrada no pedido */
+export interface OrderStageEntry {
+  stage: string;
+  status: string;
+}
+
+export const isStageActive = (stage: ProductionStage) => stage.active !== false;
+
+export const sortStages = (stages: ProductionStage[]) =>
+  [...stages].sort((a, b) => a.order - b.order);
+
+/** Etapas em uso, na ordem de execução. */
+export const activeStages = (stages: ProductionStage[]) =>
+  sortStages(stages).filter(isStageActive);
+
+/** Refaz a numeração 1..n mantendo a ordem atual. */
+export const renumberStages = (stages: ProductionStage[]) =>
+  sortStages(stages).map((stage, index) => ({ ...stage, order: index + 1 }));
+
+/** Move a etapa para cima (-1) ou para baixo (+1). */
+export function moveStage(
+  stages: ProductionStage[],
+  stageId: string,
+  offset: -1 | 1,
+): ProductionStage[] {
+  const sorted = renumberStages(stages);
+  const from = sorted.findIndex((stage) => stage.id === stageId);
+  const to = from + offset;
+  if (from < 0 || to < 0 || to >= sorted.length) return sorted;
+  [sorted[from], sorted[to]] = [sorted[to], sorted[from]];
+  return sorted.map((stage, index) => ({ ...stage, order: index + 1 }));
+}
+
+/** Id legível derivado do nome (etapas, itens do checklist de qualidade). */
+export const slugify = (name: string) =>
+  name
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "") || "etapa";
+
+/** Nova etapa no fim da lista, com id derivado do nome. */
+export function createStage(
+  name: string,
+  stages: ProductionStage[],
+): ProductionStage {
+  const base = slugify(name);
+  let id = base;
+  for (let n = 2; stages.some((stage) => stage.id === id); n++) {
+    id = `${base}_${n}`;
+  }
+  return {
+    id,
+    name: name.trim(),
+    order: Math.max(0, ...stages.map((stage) => stage.order)) + 1,
+    estimatedTime: 60,
+    requiredSkills: [],
+    description: "",
+    active: true,
+  };
+}
+
+/** Etapas pendentes de um pedido novo. */
+export const initialOrderStages = (stages: ProductionStage[]) =>
+  activeStages(stages).map((stage) => ({
+    stage: stage.id,
+    status: "pending" as const,
+  }));
+
+/**
+ * Alinha as etapas do pedido com a configuração atual. Pedidos sem etapas
+ * recebem todas as ativas; nos demais, o roteiro do pedido é mantido e só
+ * saem as etapas desativadas (ou removidas) que nem começaram.
+ */
+export function syncOrderStages<T extends OrderStageEntry>(
+  orderStages: T[],
+  stages: ProductionStage[],
+): T[] {
+  if (orderStages.length === 0) return initialOrderStages(stages) as T[];
+  const active = new Set(activeStages(stages).map((stage) => stage.id));
+  return orderStages.filter(
+    (entry) => entry.status !== "pending" || active.has(entry.stage),
+  );
+}
+
+/** Aplica a alteração na etapa do pedido, já alinhado com a configuração. */
+export function updateOrderStage<T extends OrderStageEntry>(
+  orderStages: T[],
+  stages: ProductionStage[],
+  stageId: string,
+  updates: Partial<T>,
+): T[] {
+  const synced = syncOrderStages(orderStages, stages);
+  const index = synced.findIndex((s) => s.stage === stageId);
+  if (index < 0) return [...synced, { stage: stageId, ...updates } as T];
+  synced[index] = { ...synced[index], ...updates };
+  return synced;
+}
+
+/** Inicia a primeira etapa não concluída, se ainda estiver pendente. */
+export function startFirstStage<T extends OrderStageEntry>(
+  orderStages: T[],
+  stages: ProductionStage[],
+  startedAt: string,
+): T[] {
+  const synced = syncOrderStages(orderStages, stages);
+  const next = synced.find((s) => s.status !== "completed");
+  if (!next || next.status !== "pending") return synced;
+  return updateOrderStage(synced, stages, next.stage, {
+    status: "in_progress",
+    started_at: startedAt,
+  } as unknown as Partial<T>);
+}
+
+/** Ações do operador sobre a etapa no quiosque. */
+export type StageAction = "start" | "pause" | "resume" | "complete";
+
+/** Intervalo trabalhado por um operador na etapa. */
+export interface TimeEntry {
+  operator: string;
+  /** Id do operador no cadastro; apontamentos antigos ou manuais só têm o nome */
+  operator_id?: string;
+  started_at: string;
+  /** Ausente enquanto o operador está na etapa */
+  ended_at?: string;
+}
+
+export interface OperatorStageEntry extends OrderStageEntry {
+  assigned_operator?: string;
+  assigned_operator_id?: string;
+  started_at?: string;
+  completed_at?: string;
+  paused_at?: string;
+  time_entries?: TimeEntry[];
+}
+
+/**
+ * Intervalos apontados na etapa. Etapas anteriores ao apontamento viram um só
+ * intervalo, do início até a conclusão (ou pausa).
+ */
+export function stageTimeEntries(entry: OperatorStageEntry): TimeEntry[] {
+  if (entry.time_entries) return entry.time_entries;
+  if (!entry.started_at || entry.status === "pending") return [];
+  const ended_at = entry.completed_at || entry.paused_at;
+  return [
+    {
+      operator: entry.assigned_operator || "",
+      ...(entry.assigned_operator_id && {
+        operator_id: entry.assigned_operator_id,
+      }),
+      started_at: entry.started_at,
+      ...(ended_at ? { ended_at } : {}),
+    },
+  ];
+}
+
+/** Fecha o intervalo em aberto (pausa ou conclusão). */
+export const closeTimeEntry = (entry: OperatorStageEntry, at: string) =>
+  stageTimeEntries(entry).map((timeEntry) =>
+    timeEntry.ended_at ? timeEntry : { ...timeEntry, ended_at: at },
+  );
+
+/** Abre um intervalo do operador (início ou retomada). */
+export const openTimeEntry = (
+  entry: OperatorStageEntry,
+  operator: string,
+  at: string,
+  operatorId?: string,
+): TimeEntry[] => [
+  ...closeTimeEntry(entry, at),
+  { operator, ...(operatorId && { operator_id: operatorId }), started_at: at },
+];
+
+/** Etapa da vez: a primeira que ainda não foi concluída. */
+export const currentStage = <T extends OrderStageEntry>(orderStages: T[]) =>
+  orderStages.find((entry) => entry.status !== "completed");
+
+export function availableStageActions(
+  entry: OperatorStageEntry | undefined,
+): StageAction[] {
+  if (!entry) return [];
+  if (entry.status === "pending") return ["start"];
+  if (entry.status === "in_progress") {
+    return entry.paused_at ? ["resume", "complete"] : ["pause", "complete"];
+  }
+  return [];
+}
+
+/**
+ * Campos da etapa gravados pela ação do operador. `operatorId` vem do
+ * cadastro (quiosque); sem ele, o apontamento fica só com o nome.
+ */
+export function stageActionUpdates(
+  action: StageAction,
+  entry: OperatorStageEntry,
+  operator: string,
+  at: string,
+  operatorId?: string,
+) {
+  switch (action) {
+    case "start":
+      return {
+        status: "in_progress" as const,
+        started_at: entry.started_at || at,
+        assigned_operator: operator,
+        assigned_operator_id: operatorId,
+        time_entries: openTimeEntry(entry, operator, at, operatorId),
+      };
+    case "pause":
+      return { paused_at: at, time_entries: closeTimeEntry(entry, at) };
+    case "resume":
+      return {
+        paused_at: undefined,
+        time_entries: openTimeEntry(entry, operator, at, operatorId),
+      };
+    case "complete":
+      return {
+        status: "completed" as const,
+        completed_at: at,
+        paused_at: undefined,
+        assigned_operator: entry.assigned_operator || operator,
+        assigned_operator_id: entry.assigned_operator
+          ? entry.assigned_operator_id
+          : operatorId,
+        time_entries: closeTimeEntry(entry, at),
+      };
+  }
+}
@@ -0,0 +1,187 @@
+import jsPDF from "jspdf";
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { requisitionTotal } from "@/lib/purchasing";
+import { unitLabels } from "@/types/inventory";
+import type { PurchaseRequisition } from "@/types/purchasing";
+import type { Supplier } from "@/types/supplier";
+
+interface CompanyInfo {
+  companyName: string;
+  taxId?: string;
+  address?: string;
+  companyPhone?: string;
+  companyEmail?: string;
+}
+
+/** Dados da empresa salvos em Configurações > Sistema. */
+function getCompanyInfo(): CompanyInfo {
+  try {
+    const stored = JSON.parse(
+      localStorage.getItem("biobox_settings_system") || "{}",
+    );
+    return {
+      companyName: stored.companyName || "BioBox",
+      taxId: stored.taxId,
+      address: stored.address,
+      companyPhone: stored.companyPhone,
+      companyEmail: stored.companyEmail,
+    };
+  } catch {
+    return { companyName: "BioBox" };
+  }
+}
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat("pt-BR", {
+    style: "currency",
+    currency: "BRL",
+  }).format(value);
+
+/** Pedido de compra em A4 para enviar ao fornecedor. */
+export function generatePurchaseOrderPDF(
+  requisition: PurchaseRequisition,
+  supplier?: Supplier,
+) {
+  const pdf = new jsPDF({ orientation: "portrait", unit: "mm", format: "a4" });
+  const company = getCompanyInfo();
+  const pageWidth = pdf.internal.pageSize.width;
+  const pageHeight = pdf.internal.pageSize.height;
+  const margin = 15;
+  const right = pageWidth - margin;
+  const columns = {
+    material: margin,
+    quantity: 110,
+    unitCost: 150,
+    total: right,
+  };
+  let y = 20;
+
+  // Cabeçalho da empresa
+  pdf.setFont("helvetica", "bold");
+  pdf.setFontSize(14);
+  pdf.text(company.companyName, margin, y);
+  pdf.setFont("helvetica", "normal");
+  pdf.setFontSize(9);
+  const companyLines = [
+    company.taxId && `CNPJ: ${company.taxId}`,
+    company.address,
+    [company.companyPhone, company.companyEmail].filter(Boolean).join(" · "),
+  ].filter(Boolean) as string[];
+  companyLines.forEach((line) => {
+    y += 5;
+    pdf.text(line, margin, y);
+  });
+
+  pdf.setFont("helvetica", "bold");
+  pdf.setFontSize(16);
+  pdf.text("PEDIDO DE COMPRA", right, 20, { align: "right" });
+  pdf.setFontSize(11);
+  pdf.text(requisition.number, right, 27, { align: "right" });
+  pdf.setFont("helvetica", "normal");
+  pdf.setFontSize(9);
+  pdf.text(
+    `Emissão: ${format(requisition.sentAt || new Date(), "dd/MM/yyyy", { locale: ptBR })}`,
+    right,
+    33,
+    { align: "right" },
+  );
+
+  y = Math.max(y, 33) + 10;
+  pdf.setDrawColor(200, 200, 200);
+  pdf.line(margin, y, right, y);
+  y += 8;
+
+  pdf.setFont("helvetica", "bold");
+  pdf.setFontSize(11);
+  pdf.text(`Fornecedor: ${requisition.supplier}`, margin, y);
+  pdf.setFont("helvetica", "normal");
+  pdf.setFontSize(9);
+  const supplierLines = [
+    supplier?.cnpj && `CNPJ: ${supplier.cnpj}`,
+    supplier?.paymentTerms && `Condição de pagamento: ${supplier.paymentTerms}`,
+    requisition.expectedAt &&
+      `Entrega prevista: ${format(requisition.expectedAt, "dd/MM/yyyy", { locale: ptBR })}`,
+  ].filter(Boolean) as string[];
+  supplierLines.forEach((line) => {
+    y += 5;
+    pdf.text(line, margin, y);
+  });
+  y += 10;
+
+  const drawHeader = () => {
+    pdf.setFont("helvetica", "bold");
+    pdf.setFontSize(9);
+    pdf.text("Material", columns.material, y);
+    pdf.text("Quantidade", columns.quantity, y, { align: "right" });
+    pdf.text("Valor unit.", columns.unitCost, y, { align: "right" });
+    pdf.text("Total", columns.total, y, { align: "right" });
+    y += 2;
+    pdf.line(margin, y, right, y);
+    y += 6;
+    pdf.setFont("helvetica", "normal");
+  };
+
+  drawHeader();
+  requisition.items.forEach((item) => {
+    if (y > pageHeight - 30) {
+      pdf.addPage();
+      y = 20;
+      drawHeader();
+    }
+    const name = pdf.splitTextToSize(item.materialName, 85) as string[];
+    pdf.text(name, columns.material, y);
+    pdf.text(
+      `${item.quantity} ${unitLabels[item.unit] || ""}`,
+      columns.quantity,
+      y,
+      { align: "right" },
+    );
+    pdf.text(formatCurrency(item.unitCost), columns.unitCost, y, {
+      align: "right",
+    });
+    pdf.text(formatCurrency(item.quantity * item.unitCost), columns.total, y, {
+      align: "right",
+    });
+    y += name.length * 5 + 2;
+  });
+
+  pdf.line(margin, y, right, y);
+  y += 7;
+  pdf.setFont("helvetica", "bold");
+  pdf.setFontSize(11);
+  pdf.text(
+    `Total: ${formatCurrency(requisitionTotal(requisition))}`,
+    right,
+    y,
+    { align: "right" },
+  );
+
+  if (requisition.notes) {
+    y += 12;
+    pdf.setFontSize(9);
+    pdf.text("Observações", margin, y);
+    pdf.setFont("helvetica", "normal");
+    y += 5;
+    pdf.text(
+      pdf.splitTextToSize(requisition.notes, right - margin) as string[],
+      margin,
+      y,
+    );
+  }
+
+  pdf.setFont("helvetica", "normal");
+  pdf.setFontSize(8);
+  pdf.text(`Solicitado por ${requisition.createdBy}`, margin, pageHeight - 10);
+
+  return pdf;
+}
+
+export function printPurchaseOrderPDF(
+  requisition: PurchaseRequisition,
+  supplier?: Supplier,
+) {
+  generatePurchaseOrderPDF(requisition, supplier).save(
+    `pedido-compra-${requisition.number}.pdf`,
+  );
+}
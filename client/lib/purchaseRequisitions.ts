@@ -0,0 +1,368 @@
+import { db } from "@/lib/firebase";
+import {
+  collection,
+  deleteDoc,
+  doc,
+  getDocs,
+  runTransaction,
+  serverTimestamp,
+  setDoc,
+  updateDoc,
+} from "firebase/firestore";
+import { sanitizeForFirestore } from "@/lib/firestore";
+import { InventoryMovementError } from "@/lib/inventory";
+import { recordMovement } from "@/lib/materials";
+import {
+  PurchaseRequisitionError,
+  advanceRequisition,
+  receiptMovements,
+  type RequisitionDraft,
+} from "@/lib/purchasing";
+import type {
+  PurchaseRequisition,
+  PurchaseRequisitionItem,
+  PurchaseRequisitionStatus,
+} from "@/types/purchasing";
+
+/**
+ * Persistência das requisições de compra (coleção `purchase_requisitions`).
+ * O recebimento marca a requisição numa transação, para que duas pessoas não
+ * deem entrada no mesmo material, e depois lança as entradas no estoque.
+ * Com Firestore, a falha na gravação é repassada: uma requisição só local
+ * seria apagada pela próxima leitura.
+ */
+
+const REQUISITIONS_KEY = "biobox_purchase_requisitions";
+const LOCAL_COUNTERS_KEY = "biobox_requisition_counters";
+
+function storageError(caller: string, action: string, err: unknown) {
+  console.error(`❌ [${caller}] Erro ao gravar no Firestore:`, err);
+  return new PurchaseRequisitionError(
+    `Não foi possível ${action}: ${(err as Error).message}`,
+  );
+}
+
+const toDate = (value: any): Date | undefined => {
+  if (!value) return undefined;
+  if (typeof value?.toDate === "function") return value.toDate();
+  const parsed = new Date(value);
+  return Number.isNaN(parsed.getTime()) ? undefined : parsed;
+};
+
+const toIso = (value?: Date) => (value ? value.toISOString() : undefined);
+
+function fromRecord(id: string, data: any): PurchaseRequisition {
+  return {
+    id,
+    number: data.number || id,
+    supplier: data.supplier || "",
+    supplierId: data.supplierId || undefined,
+    status: data.status || "draft",
+    items: Array.isArray(data.items) ? data.items : [],
+    notes: data.notes || undefined,
+    createdBy: data.createdBy || "",
+    createdAt: toDate(data.createdAt) || new Date(),
+    sentAt: toDate(data.sentAt),
+    expectedAt: toDate(data.expectedAt),
+    receivedAt: toDate(data.receivedAt),
+    receivedBy: data.receivedBy || undefined,
+  };
+}
+
+function toRecord(requisition: PurchaseRequisition) {
+  const { id: _ignored, ...rest } = requisition;
+  return {
+    ...rest,
+    createdAt: toIso(requisition.createdAt),
+    sentAt: toIso(requisition.sentAt),
+    expectedAt: toIso(requisition.expectedAt),
+    receivedAt: toIso(requisition.receivedAt),
+  };
+}
+
+const readLocal = (): any[] => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(REQUISITIONS_KEY) || "[]");
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+};
+
+const writeLocal = (records: any[]) =>
+  localStorage.setItem(REQUISITIONS_KEY, JSON.stringify(records));
+
+const notifyRequisitionsChanged = (detail?: { id?: string }) => {
+  try {
+    window.dispatchEvent(new CustomEvent("purchasing:changed", { detail }));
+  } catch {}
+};
+
+const newestFirst = (a: PurchaseRequisition, b: PurchaseRequisition) =>
+  b.createdAt.getTime() - a.createdAt.getTime();
+
+function nextLocalSequence(year: number): number {
+  const counters = JSON.parse(
+    localStorage.getItem(LOCAL_COUNTERS_KEY) || "{}",
+  ) as Record<string, number>;
+  const next = (counters[year] || 0) + 1;
+  localStorage.setItem(
+    LOCAL_COUNTERS_KEY,
+    JSON.stringify({ ...counters, [year]: next }),
+  );
+  return next;
+}
+
+/** Contador anual no mesmo esquema dos números de pedido. */
+async function nextRequisitionNumber(date: Date): Promise<string> {
+  const year = date.getFullYear();
+  let sequence: number | null = null;
+  if (db) {
+    try {
+      const ref = doc(db, "counters", `purchase_requisitions_${year}`);
+      sequence = await runTransaction(db, async (tx) => {
+        const snap = await tx.get(ref);
+        const value = (snap.exists() ? Number(snap.data().last) || 0 : 0) + 1;
+        tx.set(
+          ref,
+          { last: value, year, updated_at: serverTimestamp() },
+          { merge: true },
+        );
+        return value;
+      });
+    } catch (err) {
+      // Contador só local repetiria números já emitidos por outros aparelhos
+      throw storageError("purchaseRequisitions", "numerar a requisição", err);
+    }
+  } else {
+    sequence = nextLocalSequence(year);
+  }
+  return `RC-${year}-${String(sequence).padStart(4, "0")}`;
+}
+
+export async function fetchRequisitions(): Promise<PurchaseRequisition[]> {
+  if (db) {
+    try {
+      const snap = await getDocs(collection(db, "purchase_requisitions"));
+      const requisitions = snap.docs.map((d) => fromRecord(d.id, d.data()));
+      writeLocal(requisitions.map((r) => ({ ...toRecord(r), id: r.id })));
+      return requisitions.sort(newestFirst);
+    } catch (err) {
+      console.warn(
+        "⚠️ [fetchRequisitions] Firestore indisponível, usando localStorage:",
+        err,
+      );
+    }
+  }
+  return readLocal()
+    .map((r) => fromRecord(r.id, r))
+    .sort(newestFirst);
+}
+
+/** Grava os rascunhos gerados a partir dos materiais com estoque baixo. */
+export async function createRequisitions(
+  drafts: RequisitionDraft[],
+  operator: string,
+): Promise<PurchaseRequisition[]> {
+  const created: PurchaseRequisition[] = [];
+
+  for (const draft of drafts) {
+    const now = new Date();
+    const requisition: PurchaseRequisition = {
+      id: "",
+      number: await nextRequisitionNumber(now),
+      supplier: draft.supplier,
+      supplierId: draft.supplierId,
+      status: "draft",
+      items: draft.items,
+      createdBy: operator,
+      createdAt: now,
+    };
+
+    if (db) {
+      try {
+        const ref = doc(collection(db, "purchase_requisitions"));
+        await setDoc(
+          ref,
+          sanitizeForFirestore({
+            ...toRecord(requisition),
+            created_at: serverTimestamp(),
+            updated_at: serverTimestamp(),
+          }),
+        );
+        requisition.id = ref.id;
+      } catch (err) {
+        throw storageError("createRequisitions", "criar a requisição", err);
+      }
+    } else {
+      requisition.id = `req-${Date.now()}-${created.length}`;
+      writeLocal([
+        { ...toRecord(requisition), id: requisition.id },
+        ...readLocal(),
+      ]);
+    }
+    created.push(requisition);
+  }
+
+  console.log("✅ [createRequisitions] Requisições criadas:", created.length);
+  notifyRequisitionsChanged();
+  return created;
+}
+
+function saveLocalChanges(
+  requisitionId: string,
+  apply: (current: PurchaseRequisition) => PurchaseRequisition,
+): PurchaseRequisition {
+  const records = readLocal();
+  const stored = records.find((r) => r.id === requisitionId);
+  if (!stored) throw new PurchaseRequisitionError("Requisição não encontrada");
+  const updated = apply(fromRecord(stored.id, stored));
+  writeLocal(
+    records.map((r) =>
+      r.id === requisitionId ? { ...toRecord(updated), id: r.id } : r,
+    ),
+  );
+  return updated;
+}
+
+/** Ajusta quantidades e observações enquanto a requisição é rascunho. */
+export async function updateRequisitionDraft(
+  requisition: PurchaseRequisition,
+  changes: { items: PurchaseRequisitionItem[]; notes?: string },
+): Promise<void> {
+  if (requisition.status !== "draft") {
+    throw new PurchaseRequisitionError(
+      "Só é possível editar requisições em rascunho",
+    );
+  }
+  const items = changes.items.filter((item) => item.quantity > 0);
+
+  if (db) {
+    try {
+      await updateDoc(
+        doc(db, "purchase_requisitions", requisition.id),
+        sanitizeForFirestore({
+          items,
+          notes: changes.notes || "",
+          updated_at: serverTimestamp(),
+        }) as any,
+      );
+      notifyRequisitionsChanged({ id: requisition.id });
+      return;
+    } catch (err) {
+      throw storageError("updateRequisitionDraft", "salvar a requisição", err);
+    }
+  }
+  saveLocalChanges(requisition.id, (current) => ({
+    ...current,
+    items,
+    notes: changes.notes,
+  }));
+  notifyRequisitionsChanged({ id: requisition.id });
+}
+
+/**
+ * Avança a requisição (rascunho → enviada → recebida). No recebimento, cada
+ * item vira uma entrada no livro de movimentações do material.
+ */
+export async function advanceRequisitionStatus(
+  requisitionId: string,
+  to: PurchaseRequisitionStatus,
+  operator: string,
+  leadTimeDays?: number,
+): Promise<PurchaseRequisition> {
+  let updated: PurchaseRequisition | null = null;
+
+  if (db) {
+    try {
+      updated = await runTransaction(db, async (tx) => {
+        const ref = doc(db, "purchase_requisitions", requisitionId);
+        const snap = await tx.get(ref);
+        if (!snap.exists()) {
+          throw new PurchaseRequisitionError("Requisição não encontrada");
+        }
+        const next = advanceRequisition(
+          fromRecord(snap.id, snap.data()),
+          to,
+          operator,
+          new Date(),
+          leadTimeDays,
+        );
+        tx.update(
+          ref,
+          sanitizeForFirestore({
+            status: next.status,
+            sentAt: toIso(next.sentAt),
+            expectedAt: toIso(next.expectedAt),
+            receivedAt: toIso(next.receivedAt),
+            receivedBy: next.receivedBy,
+            updated_at: serverTimestamp(),
+          }) as any,
+        );
+        return next;
+      });
+    } catch (err) {
+      if (err instanceof PurchaseRequisitionError) throw err;
+      throw storageError(
+        "advanceRequisitionStatus",
+        "atualizar a requisição",
+        err,
+      );
+    }
+  } else {
+    updated = saveLocalChanges(requisitionId, (current) =>
+      advanceRequisition(current, to, operator, new Date(), leadTimeDays),
+    );
+  }
+
+  if (updated.status === "received") {
+    const failed: string[] = [];
+    for (const { materialId, input } of receiptMovements(updated)) {
+      try {
+        await recordMovement(materialId, input, operator);
+      } catch (err) {
+        console.error(
+          `❌ [advanceRequisitionStatus] Entrada não registrada para ${materialId}:`,
+          err,
+        );
+        // Material excluído depois da requisição: segue com os demais itens
+        if (!(err instanceof InventoryMovementError)) failed.push(materialId);
+      }
+    }
+    if (failed.length > 0) {
+      notifyRequisitionsChanged({ id: requisitionId });
+      throw new PurchaseRequisitionError(
+        `Requisição recebida, mas ${failed.length} entrada(s) não foram lançadas no estoque; registre-as manualmente`,
+      );
+    }
+  }
+
+  console.log("✅ [advanceRequisitionStatus] Requisição atualizada:", {
+    requisitionId,
+    status: updated.status,
+  });
+  notifyRequisitionsChanged({ id: requisitionId });
+  return updated;
+}
+
+/** Exclui uma requisição em rascunho. */
+export async function deleteRequisition(
+  requisition: PurchaseRequisition,
+): Promise<void> {
+  if (requisition.status !== "draft") {
+    throw new PurchaseRequisitionError(
+      "Só é possível excluir requisições em rascunho",
+    );
+  }
+  if (db) {
+    try {
+      await deleteDoc(doc(db, "purchase_requisitions", requisition.id));
+      notifyRequisitionsChanged({ id: requisition.id });
+      return;
+    } catch (err) {
+      throw storageError("deleteRequisition", "excluir a requisição", err);
+    }
+  }
+  writeLocal(readLocal().filter((r) => r.id !== requisition.id));
+  notifyRequisitionsChanged({ id: requisition.id });
+}
@@ -0,0 +1,151 @@
+import { describe, it, expect } from "vitest";
+import type { RawMaterial } from "@/types/inventory";
+import type { PurchaseRequisition } from "@/types/purchasing";
+import {
+  NO_SUPPLIER,
+  PurchaseRequisitionError,
+  advanceRequisition,
+  buildRequisitionDrafts,
+  receiptMovements,
+  requisitionTotal,
+  suggestedQuantity,
+} from "./purchasing";
+
+const material = (overrides: Partial<RawMaterial>): RawMaterial => ({
+  id: "mat",
+  name: "Material",
+  category: "other",
+  unit: "pieces",
+  quantity: 0,
+  minimumStock: 10,
+  unitCost: 5,
+  supplier: "Espumas Brasil",
+  location: "",
+  lastUpdated: new Date("2025-01-01"),
+  ...overrides,
+});
+
+const requisition: PurchaseRequisition = {
+  id: "req-1",
+  number: "RC-2025-0001",
+  supplier: "Espumas Brasil",
+  status: "draft",
+  items: [
+    {
+      materialId: "foam",
+      materialName: "Espuma D33",
+      unit: "pieces",
+      quantity: 12,
+      unitCost: 80,
+    },
+  ],
+  createdBy: "Ana",
+  createdAt: new Date("2025-03-01"),
+};
+
+describe("purchase requisitions", () => {
+  it("suggests restocking up to twice the minimum", () => {
+    expect(suggestedQuantity(material({ quantity: 4 }))).toBe(16);
+    expect(
+      suggestedQuantity(material({ quantity: 12, reservedQuantity: 9 })),
+    ).toBe(17);
+    expect(suggestedQuantity(material({ quantity: 2.5 }))).toBe(18);
+  });
+
+  it("groups low-stock materials by supplier", () => {
+    const drafts = buildRequisitionDrafts(
+      [
+        material({ id: "foam", quantity: 3 }),
+        material({ id: "mdf", quantity: 50, supplier: "Madeireira" }),
+        material({ id: "glue", quantity: 1, supplier: "Espumas Brasil " }),
+        material({ id: "tape", quantity: 0, supplier: "" }),
+        material({ id: "wood", quantity: 5, supplier: "Madeireira" }),
+      ],
+      [{ ...requisition, status: "sent", items: [requisition.items[0]] }],
+    );
+    expect(drafts.map((d) => d.supplier)).toEqual([
+      "Espumas Brasil",
+      "Madeireira",
+      NO_SUPPLIER,
+    ]);
+    // "foam" já está em uma requisição enviada
+    expect(drafts[0].items.map((i) => i.materialId)).toEqual(["glue"]);
+    expect(drafts[1].items).toEqual([
+      {
+        materialId: "wood",
+        materialName: "Material",
+        unit: "pieces",
+        quantity: 15,
+        unitCost: 5,
+      },
+    ]);
+  });
+
+  it("uses the registered supplier when the material references one", () => {
+    const drafts = buildRequisitionDrafts(
+      [
+        material({ id: "foam", quantity: 1, supplierId: "sup-1" }),
+        material({ id: "glue", quantity: 1, supplier: "Espumas Brasil" }),
+      ],
+      [],
+      [
+        {
+          id: "sup-1",
+          name: "Espumas Brasil Ltda",
+          cnpj: "",
+          contacts: [],
+          leadTimeDays: 5,
+          paymentTerms: "",
+          status: "active",
+          createdAt: new Date(),
+          updatedAt: new Date(),
+        },
+      ],
+    );
+    expect(
+      drafts.map((d) => [d.supplier, d.supplierId, d.items.length]),
+    ).toEqual([
+      ["Espumas Brasil", undefined, 1],
+      ["Espumas Brasil Ltda", "sup-1", 1],
+    ]);
+  });
+
+  it("moves from draft to sent to received", () => {
+    const at = new Date("2025-03-02T10:00:00.000Z");
+    const sent = advanceRequisition(requisition, "sent", "Ana", at, 5);
+    expect(sent).toMatchObject({
+      status: "sent",
+      sentAt: at,
+      expectedAt: new Date("2025-03-07T10:00:00.000Z"),
+    });
+
+    const received = advanceRequisition(sent, "received", "Bruno", at);
+    expect(received).toMatchObject({
+      status: "received",
+      receivedAt: at,
+      receivedBy: "Bruno",
+    });
+
+    expect(() => advanceRequisition(requisition, "received", "Ana")).toThrow(
+      PurchaseRequisitionError,
+    );
+    expect(() => advanceRequisition(received, "sent", "Ana")).toThrow(
+      PurchaseRequisitionError,
+    );
+  });
+
+  it("turns a receipt into stock entries", () => {
+    expect(requisitionTotal(requisition)).toBe(960);
+    expect(receiptMovements(requisition)).toEqual([
+      {
+        materialId: "foam",
+        input: {
+          type: "in",
+          quantity: 12,
+          reason: "Recebimento de compra",
+          reference: "RC-2025-0001 - Espumas Brasil",
+        },
+      },
+    ]);
+  });
+});
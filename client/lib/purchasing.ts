@@ -0,0 +1,158 @@
+import { addDays } from "date-fns";
+import { availableQuantity } from "@/lib/bom";
+import type { MovementInput } from "@/lib/inventory";
+import type { RawMaterial } from "@/types/inventory";
+import type { Supplier } from "@/types/supplier";
+import {
+  requisitionStatusLabels,
+  type PurchaseRequisition,
+  type PurchaseRequisitionStatus,
+} from "@/types/purchasing";
+
+/**
+ * Regras das requisições de compra: quais materiais comprar, quanto, e como
+ * a requisição avança de rascunho a recebida.
+ */
+
+export const NO_SUPPLIER = "Sem fornecedor";
+
+export type RequisitionDraft = Pick<
+  PurchaseRequisition,
+  "supplier" | "supplierId" | "items"
+>;
+
+export class PurchaseRequisitionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PurchaseRequisitionError";
+  }
+}
+
+const NEXT_STATUS: Record<
+  PurchaseRequisitionStatus,
+  PurchaseRequisitionStatus | null
+> = {
+  draft: "sent",
+  sent: "received",
+  received: null,
+};
+
+/** Estoque baixo considera o saldo livre de reservas. */
+export const isLowStock = (material: RawMaterial) =>
+  availableQuantity(material) <= material.minimumStock;
+
+/**
+ * Quantidade para repor o material até o dobro do estoque mínimo (a mesma
+ * referência da barra de nível de estoque), arredondada para cima.
+ */
+export function suggestedQuantity(material: RawMaterial): number {
+  const target = Math.max(material.minimumStock * 2, 1);
+  return Math.max(Math.ceil(target - availableQuantity(material)), 1);
+}
+
+/**
+ * Agrupa os materiais com estoque baixo por fornecedor (o cadastrado, quando
+ * o material tem `supplierId`; senão o nome em texto livre). Materiais que já
+ * estão em uma requisição em aberto (rascunho ou enviada) ficam de fora.
+ */
+export function buildRequisitionDrafts(
+  materials: RawMaterial[],
+  open: PurchaseRequisition[] = [],
+  suppliers: Supplier[] = [],
+): RequisitionDraft[] {
+  const requested = new Set(
+    open
+      .filter((r) => r.status !== "received")
+      .flatMap((r) => r.items.map((item) => item.materialId)),
+  );
+  const bySupplier = new Map<string, RequisitionDraft>();
+
+  for (const material of materials) {
+    if (!isLowStock(material) || requested.has(material.id)) continue;
+    const registered = suppliers.find((s) => s.id === material.supplierId);
+    const supplier =
+      registered?.name || material.supplier?.trim() || NO_SUPPLIER;
+    const key = registered ? `id:${registered.id}` : supplier;
+    const draft = bySupplier.get(key) || {
+      supplier,
+      supplierId: registered?.id,
+      items: [],
+    };
+    draft.items.push({
+      materialId: material.id,
+      materialName: material.name,
+      unit: material.unit,
+      quantity: suggestedQuantity(material),
+      unitCost: material.unitCost,
+    });
+    bySupplier.set(key, draft);
+  }
+
+  return Array.from(bySupplier.values()).sort((a, b) =>
+    a.supplier.localeCompare(b.supplier, "pt-BR"),
+  );
+}
+
+export const requisitionTotal = (
+  requisition: Pick<PurchaseRequisition, "items">,
+) =>
+  requisition.items.reduce(
+    (sum, item) => sum + item.quantity * item.unitCost,
+    0,
+  );
+
+export const nextRequisitionStatus = (status: PurchaseRequisitionStatus) =>
+  NEXT_STATUS[status];
+
+/**
+ * Avança a requisição um passo (rascunho → enviada → recebida). No envio,
+ * o prazo de entrega do fornecedor define a data prevista. Lança
+ * `PurchaseRequisitionError` quando o destino não é o próximo passo.
+ */
+export function advanceRequisition(
+  requisition: PurchaseRequisition,
+  to: PurchaseRequisitionStatus,
+  operator: string,
+  timestamp: Date = new Date(),
+  leadTimeDays?: number,
+): PurchaseRequisition {
+  if (NEXT_STATUS[requisition.status] !== to) {
+    throw new PurchaseRequisitionError(
+      `A requisição ${requisition.number} não pode passar de ${requisitionStatusLabels[requisition.status]} para ${requisitionStatusLabels[to]}`,
+    );
+  }
+  if (requisition.items.length === 0) {
+    throw new PurchaseRequisitionError("A requisição não tem itens");
+  }
+  if (to === "sent") {
+    return {
+      ...requisition,
+      status: to,
+      sentAt: timestamp,
+      expectedAt:
+        leadTimeDays != null ? addDays(timestamp, leadTimeDays) : undefined,
+    };
+  }
+  return {
+    ...requisition,
+    status: to,
+    receivedAt: timestamp,
+    receivedBy: operator,
+  };
+}
+
+/** Entradas no estoque geradas pelo recebimento da requisição. */
+export const receiptMovements = (
+  requisition: PurchaseRequisition,
+): Array<{ materialId: string; input: MovementInput }> =>
+  requisition.items
+    .filter((item) => item.quantity > 0)
+    .map((item) => ({
+      materialId: item.materialId,
+      input: {
+        type: "in",
+        quantity: item.quantity,
+        reason: "Recebimento de compra",
+        reference: `${requisition.number} - ${requisition.supplier}`,
+      },
+    }));
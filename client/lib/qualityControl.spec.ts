@@ -0,0 +1,114 @@
+import { describe, it, expect } from "vitest";
+import type { ProductionStage } from "@/types/production";
+import {
+  GENERAL_CHECKPOINT,
+  checklistFor,
+  createCheckpoint,
+  failureDescription,
+  INSPECTION_PHOTO_BUDGET,
+  inspectionResult,
+  photosSize,
+  reworkStages,
+} from "./qualityControl";
+
+const stages = ["cutting", "assembly", "packaging"].map(
+  (id, index) =>
+    ({
+      id,
+      name: id,
+      order: index + 1,
+      estimatedTime: 60,
+      requiredSkills: [],
+      description: "",
+    }) as ProductionStage,
+);
+
+const config = {
+  qualityChecklists: {
+    bed: [
+      { id: "dimensions", name: "Medidas" },
+      { id: "structure", name: "Estrutura" },
+    ],
+    mattress: [
+      { id: "dimensions", name: "Medidas" },
+      { id: "label", name: "Etiqueta" },
+    ],
+  },
+};
+
+describe("quality control", () => {
+  it("joins the checklists of the order categories", () => {
+    expect(
+      checklistFor(["bed", "mattress", "bed"], config).map((c) => c.id),
+    ).toEqual(["dimensions", "structure", "label"]);
+    expect(checklistFor(["pillow"], config)).toEqual([GENERAL_CHECKPOINT]);
+    expect(createCheckpoint("Medidas ", config.qualityChecklists.bed)).toEqual({
+      id: "medidas",
+      name: "Medidas",
+    });
+  });
+
+  it("fails the inspection on any failed checkpoint", () => {
+    expect(inspectionResult([])).toBe("pending");
+    expect(
+      inspectionResult([{ status: "passed" }, { status: "pending" }]),
+    ).toBe("pending");
+    expect(
+      inspectionResult([{ status: "pending" }, { status: "failed" }]),
+    ).toBe("failed");
+    expect(inspectionResult([{ status: "passed" }])).toBe("passed");
+
+    expect(
+      failureDescription(
+        [
+          { status: "failed", checkpointName: "Medidas", notes: "2 cm menor" },
+          { status: "passed", checkpointName: "Etiqueta" },
+        ],
+        "Refazer a cabeceira",
+      ),
+    ).toBe("Reprovado: Medidas (2 cm menor)\nRefazer a cabeceira");
+  });
+
+  it("measures the photos against the document budget", () => {
+    const photo = `data:image/jpeg;base64,${"A".repeat(100 * 1024)}`;
+    const checks = Array.from({ length: 10 }, () => ({
+      photos: [photo, photo, photo],
+    }));
+    expect(photosSize([{}, { photos: [photo] }])).toBe(photo.length);
+    expect(photosSize(checks)).toBeGreaterThan(INSPECTION_PHOTO_BUDGET);
+  });
+
+  it("reopens the chosen stage and the following ones", () => {
+    const time_entries = [
+      { operator: "Ana", started_at: "08:00", ended_at: "09:00" },
+    ];
+    const reworked = reworkStages(
+      [
+        { stage: "cutting", status: "completed", completed_at: "t1" },
+        {
+          stage: "assembly",
+          status: "completed",
+          completed_at: "t2",
+          time_entries,
+        },
+        { stage: "packaging", status: "completed", skipped: true },
+      ],
+      stages,
+      "assembly",
+    );
+    expect(reworked[0]).toEqual({
+      stage: "cutting",
+      status: "completed",
+      completed_at: "t1",
+    });
+    expect(reworked[1]).toMatchObject({
+      status: "pending",
+      completed_at: undefined,
+      time_entries,
+    });
+    expect(reworked[2]).toMatchObject({
+      status: "pending",
+      skipped: undefined,
+    });
+  });
+});
@@ -0,0 +1,124 @@
+import {
+  slugify,
+  syncOrderStages,
+  type OrderStageEntry,
+} from "@/lib/productionStages";
+import type {
+  ProductionConfig,
+  ProductionStage,
+  QualityCheck,
+  QualityCheckpoint,
+} from "@/types/production";
+
+/**
+ * Controle de qualidade: o checklist do pedido junta os itens das categorias
+ * dos produtos, e a reprovação devolve o pedido para a etapa escolhida,
+ * reabrindo ela e as seguintes.
+ */
+
+/** Pedido sem categoria com checklist ainda passa por uma inspeção geral. */
+export const GENERAL_CHECKPOINT: QualityCheckpoint = {
+  id: "general",
+  name: "Inspeção geral do produto",
+};
+
+/** Novo item do checklist, com id derivado do nome. */
+export function createCheckpoint(
+  name: string,
+  checkpoints: QualityCheckpoint[],
+): QualityCheckpoint {
+  const base = slugify(name);
+  let id = base;
+  for (let n = 2; checkpoints.some((item) => item.id === id); n++) {
+    id = `${base}_${n}`;
+  }
+  return { id, name: name.trim() };
+}
+
+/** Itens de inspeção das categorias, sem repetir o mesmo item. */
+export function checklistFor(
+  categories: string[],
+  config: Pick<ProductionConfig, "qualityChecklists">,
+): QualityCheckpoint[] {
+  const result: QualityCheckpoint[] = [];
+  for (const category of new Set(categories)) {
+    for (const checkpoint of config.qualityChecklists?.[category] || []) {
+      if (!result.some((item) => item.id === checkpoint.id)) {
+        result.push(checkpoint);
+      }
+    }
+  }
+  return result.length > 0 ? result : [GENERAL_CHECKPOINT];
+}
+
+/**
+ * As fotos ficam como data URLs dentro do documento da inspeção, e o
+ * Firestore limita cada documento a 1 MiB: sobra espaço para o restante.
+ */
+export const INSPECTION_PHOTO_BUDGET = 700 * 1024;
+
+/** Bytes ocupados pelas fotos (data URLs são ASCII: 1 caractere, 1 byte). */
+export const photosSize = (checks: Pick<QualityCheck, "photos">[]) =>
+  checks.reduce(
+    (total, check) =>
+      total +
+      (check.photos || []).reduce((sum, photo) => sum + photo.length, 0),
+    0,
+  );
+
+/** Qualquer item reprovado reprova a inspeção; pendentes impedem o registro. */
+export function inspectionResult(
+  checks: Pick<QualityCheck, "status">[],
+): "passed" | "failed" | "pending" {
+  if (checks.some((check) => check.status === "failed")) return "failed";
+  if (
+    checks.length === 0 ||
+    checks.some((check) => check.status === "pending")
+  ) {
+    return "pending";
+  }
+  return "passed";
+}
+
+/** Resumo dos itens reprovados para o problema aberto na reprovação. */
+export const failureDescription = (
+  checks: Pick<QualityCheck, "status" | "checkpointName" | "notes">[],
+  notes?: string,
+) =>
+  [
+    ...checks
+      .filter((check) => check.status === "failed")
+      .map(
+        (check) =>
+          `Reprovado: ${check.checkpointName}${check.notes ? ` (${check.notes})` : ""}`,
+      ),
+    notes?.trim(),
+  ]
+    .filter(Boolean)
+    .join("\n");
+
+/**
+ * Etapas do pedido com retrabalho a partir de `stageId`: ela e as seguintes
+ * voltam a pendente. Os intervalos apontados ficam, para que o tempo do
+ * retrabalho some ao da primeira execução.
+ */
+export function reworkStages<T extends OrderStageEntry>(
+  orderStages: T[],
+  stages: ProductionStage[],
+  stageId: string,
+): T[] {
+  const synced = syncOrderStages(orderStages, stages);
+  const from = synced.findIndex((entry) => entry.stage === stageId);
+  if (from < 0) return synced;
+  return synced.map((entry, index) =>
+    index < from
+      ? entry
+      : {
+          ...entry,
+          status: "pending",
+          completed_at: undefined,
+          paused_at: undefined,
+          skipped: undefined,
+        },
+  );
+}
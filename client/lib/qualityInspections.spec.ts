@@ -0,0 +1,67 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { QualityInspectionError, saveInspection } from "./qualityInspections";
+
+// Firestore configurado, mas a gravação falha
+vi.mock("@/lib/firebase", () => ({ db: {} }));
+vi.mock("firebase/firestore", () => ({
+  collection: vi.fn(),
+  doc: vi.fn(() => ({ id: "qc-remote" })),
+  getDocs: vi.fn(),
+  query: vi.fn(),
+  serverTimestamp: vi.fn(),
+  setDoc: vi.fn(() => Promise.reject(new Error("Document too large"))),
+  where: vi.fn(),
+}));
+
+const storage = new Map<string, string>();
+
+beforeEach(() => {
+  storage.clear();
+  vi.spyOn(console, "error").mockImplementation(() => {});
+  vi.stubGlobal("localStorage", {
+    getItem: (key: string) => storage.get(key) ?? null,
+    setItem: (key: string, value: string) => storage.set(key, value),
+    removeItem: (key: string) => storage.delete(key),
+  });
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+const inspection = (photos: string[] = []) => ({
+  orderId: "o1",
+  orderNumber: "PED-1",
+  inspector: "Ana",
+  inspectedAt: new Date(),
+  result: "passed" as const,
+  checks: [
+    {
+      id: "c1",
+      taskId: "o1",
+      checkpointId: "general",
+      checkpointName: "Inspeção geral do produto",
+      status: "passed" as const,
+      inspector: "Ana",
+      checkedAt: new Date(),
+      photos,
+    },
+  ],
+});
+
+describe("saveInspection", () => {
+  it("surfaces a failed Firestore write instead of saving only locally", async () => {
+    await expect(saveInspection(inspection())).rejects.toThrow(
+      "Não foi possível registrar a inspeção: Document too large",
+    );
+    expect(storage.has("biobox_quality_inspections")).toBe(false);
+  });
+
+  it("rejects photos over the document budget", async () => {
+    const photo = `data:image/jpeg;base64,${"A".repeat(400 * 1024)}`;
+    await expect(saveInspection(inspection([photo, photo]))).rejects.toThrow(
+      QualityInspectionError,
+    );
+  });
+});
@@ -0,0 +1,159 @@
+import { db } from "@/lib/firebase";
+import {
+  collection,
+  doc,
+  getDocs,
+  query,
+  serverTimestamp,
+  setDoc,
+  where,
+} from "firebase/firestore";
+import { sanitizeForFirestore } from "@/lib/firestore";
+import { INSPECTION_PHOTO_BUDGET, photosSize } from "@/lib/qualityControl";
+import type { QualityCheck, QualityInspection } from "@/types/production";
+
+/**
+ * Inspeções do controle de qualidade (coleção `quality_inspections`). Ficam
+ * fora do documento do pedido por causa das fotos; o pedido guarda só o id da
+ * última inspeção (`quality_inspection_id`).
+ */
+
+export class QualityInspectionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "QualityInspectionError";
+  }
+}
+
+const INSPECTIONS_KEY = "biobox_quality_inspections";
+
+const toDate = (value: any): Date | undefined => {
+  if (!value) return undefined;
+  if (typeof value?.toDate === "function") return value.toDate();
+  const parsed = new Date(value);
+  return Number.isNaN(parsed.getTime()) ? undefined : parsed;
+};
+
+function fromRecord(id: string, data: any): QualityInspection {
+  return {
+    id,
+    orderId: data.orderId || "",
+    orderNumber: data.orderNumber || "",
+    inspector: data.inspector || "",
+    inspectedAt: toDate(data.inspectedAt) || new Date(),
+    result: data.result === "failed" ? "failed" : "passed",
+    checks: Array.isArray(data.checks)
+      ? data.checks.map(
+          (check: any): QualityCheck => ({
+            ...check,
+            checkedAt: toDate(check.checkedAt) || new Date(),
+          }),
+        )
+      : [],
+    notes: data.notes || undefined,
+    reworkStage: data.reworkStage || undefined,
+  };
+}
+
+function toRecord(inspection: QualityInspection) {
+  const { id: _ignored, ...rest } = inspection;
+  return {
+    ...rest,
+    inspectedAt: inspection.inspectedAt.toISOString(),
+    checks: inspection.checks.map((check) => ({
+      ...check,
+      checkedAt: check.checkedAt.toISOString(),
+    })),
+  };
+}
+
+const readLocal = (): any[] => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(INSPECTIONS_KEY) || "[]");
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+};
+
+const writeLocal = (records: any[]) =>
+  localStorage.setItem(INSPECTIONS_KEY, JSON.stringify(records));
+
+const notifyInspectionsChanged = (detail?: { orderId?: string }) => {
+  try {
+    window.dispatchEvent(new CustomEvent("quality:changed", { detail }));
+  } catch {}
+};
+
+const newestFirst = (a: QualityInspection, b: QualityInspection) =>
+  b.inspectedAt.getTime() - a.inspectedAt.getTime();
+
+/** Inspeções do pedido, da mais recente para a mais antiga. */
+export async function fetchInspections(
+  orderId: string,
+): Promise<QualityInspection[]> {
+  if (db) {
+    try {
+      const snap = await getDocs(
+        query(
+          collection(db, "quality_inspections"),
+          where("orderId", "==", orderId),
+        ),
+      );
+      return snap.docs.map((d) => fromRecord(d.id, d.data())).sort(newestFirst);
+    } catch (err) {
+      console.warn(
+        "⚠️ [fetchInspections] Firestore indisponível, usando localStorage:",
+        err,
+      );
+    }
+  }
+  return readLocal()
+    .filter((r) => r.orderId === orderId)
+    .map((r) => fromRecord(r.id, r))
+    .sort(newestFirst);
+}
+
+/**
+ * Registra a inspeção. Com Firestore configurado, a falha na gravação é
+ * repassada: a inspeção não pode ficar visível só neste aparelho.
+ */
+export async function saveInspection(
+  data: Omit<QualityInspection, "id">,
+): Promise<QualityInspection> {
+  if (photosSize(data.checks) > INSPECTION_PHOTO_BUDGET) {
+    throw new QualityInspectionError(
+      "As fotos excedem o limite da inspeção; remova algumas e tente novamente",
+    );
+  }
+  const inspection: QualityInspection = { ...data, id: "" };
+
+  if (db) {
+    try {
+      const ref = doc(collection(db, "quality_inspections"));
+      await setDoc(
+        ref,
+        sanitizeForFirestore({
+          ...toRecord(inspection),
+          created_at: serverTimestamp(),
+        }),
+      );
+      inspection.id = ref.id;
+    } catch (err) {
+      console.error("❌ [saveInspection] Erro ao gravar inspeção:", err);
+      throw new QualityInspectionError(
+        `Não foi possível registrar a inspeção: ${(err as Error).message}`,
+      );
+    }
+  } else {
+    inspection.id = `qc-${Date.now()}`;
+    writeLocal([
+      { ...toRecord(inspection), id: inspection.id },
+      ...readLocal(),
+    ]);
+  }
+
+  console.log("✅ [saveInspection] Inspeção registrada:", inspection.id);
+  notifyInspectionsChanged({ orderId: inspection.orderId });
+  return inspection;
+}
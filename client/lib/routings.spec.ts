@@ -0,0 +1,103 @@
+import { describe, it, expect } from "vitest";
+import type { Product } from "@/types/inventory";
+import type { ProductionStage } from "@/types/production";
+import { buildOrderStages, routingFor } from "./routings";
+
+const stage = (
+  id: string,
+  order: number,
+  active?: boolean,
+): ProductionStage => ({
+  id,
+  name: id,
+  order,
+  estimatedTime: 10 * order,
+  requiredSkills: [],
+  description: "",
+  active,
+});
+
+const config = {
+  stages: [
+    stage("cutting", 1),
+    stage("carpentry", 2),
+    stage("upholstery", 3, false),
+    stage("assembly", 4),
+    stage("packaging", 5),
+  ],
+  routings: {
+    bed: [
+      { stageId: "cutting", minutesPerUnit: 100 },
+      { stageId: "carpentry", minutesPerUnit: 150 },
+      { stageId: "upholstery", minutesPerUnit: 200 },
+      { stageId: "packaging", minutesPerUnit: 20 },
+    ],
+    mattress: [
+      { stageId: "cutting", minutesPerUnit: 60, optional: true },
+      { stageId: "assembly", minutesPerUnit: 45 },
+      { stageId: "packaging", minutesPerUnit: 10 },
+    ],
+    accessory: [],
+  },
+};
+
+const product = (
+  id: string,
+  category: string,
+  routing?: { stageId: string; minutesPerUnit: number }[],
+) =>
+  ({
+    id,
+    category,
+    models: [{ id: "m", name: "Standard", routing }],
+  }) as unknown as Product;
+
+describe("production routings", () => {
+  it("prefers the model routing, then the category, then every stage", () => {
+    const custom = [{ stageId: "assembly", minutesPerUnit: 5 }];
+    expect(routingFor(product("a", "bed", custom), config)).toBe(custom);
+    expect(routingFor(product("b", "mattress"), config)).toBe(
+      config.routings.mattress,
+    );
+    expect(
+      routingFor(product("c", "accessory"), config).map((s) => s.stageId),
+    ).toEqual(["cutting", "carpentry", "assembly", "packaging"]);
+  });
+
+  it("skips carpentry for a mattress-only order", () => {
+    expect(
+      buildOrderStages(
+        [{ product_id: "mat", quantity: 2 }],
+        [product("mat", "mattress")],
+        config,
+      ),
+    ).toEqual([
+      {
+        stage: "cutting",
+        status: "pending",
+        estimated_minutes: 120,
+        optional: true,
+      },
+      { stage: "assembly", status: "pending", estimated_minutes: 90 },
+      { stage: "packaging", status: "pending", estimated_minutes: 20 },
+    ]);
+  });
+
+  it("merges routings and sums minutes per unit", () => {
+    const stages = buildOrderStages(
+      [
+        { product_id: "bed", quantity: 1 },
+        { product_id: "mat", quantity: 2 },
+      ],
+      [product("bed", "bed"), product("mat", "mattress")],
+      config,
+    );
+    // Tapeçaria está desativada; corte é obrigatório por causa da cama
+    expect(stages).toEqual([
+      { stage: "cutting", status: "pending", estimated_minutes: 220 },
+      { stage: "carpentry", status: "pending", estimated_minutes: 150 },
+      { stage: "assembly", status: "pending", estimated_minutes: 90 },
+      { stage: "packaging", status: "pending", estimated_minutes: 40 },
+    ]);
+  });
+});
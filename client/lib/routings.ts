@@ -0,0 +1,99 @@
+import { activeStages, isStageActive } from "@/lib/productionStages";
+import type { Product } from "@/types/inventory";
+import type {
+  ProductionConfig,
+  ProductionStage,
+  RoutingStep,
+} from "@/types/production";
+
+/**
+ * Roteiros de produção: cada produto percorre as etapas do roteiro do modelo
+ * ou, sem ele, o da categoria. As etapas do pedido juntam os roteiros de
+ * todos os itens, somando o tempo previsto por unidade.
+ */
+
+/** Item do pedido no formato mínimo usado pelo roteiro. */
+export interface RoutingOrderLine {
+  product_id: string;
+  quantity: number;
+}
+
+/** Etapa gerada para o pedido */
+export interface RoutedStage {
+  stage: string;
+  status: "pending";
+  estimated_minutes: number;
+  optional?: boolean;
+}
+
+/** Todas as etapas ativas, com o tempo estimado da etapa. */
+export const defaultRouting = (stages: ProductionStage[]): RoutingStep[] =>
+  activeStages(stages).map((stage) => ({
+    stageId: stage.id,
+    minutesPerUnit: stage.estimatedTime,
+  }));
+
+export function routingFor(
+  product: Product | undefined,
+  config: Pick<ProductionConfig, "stages" | "routings">,
+): RoutingStep[] {
+  const modelRouting = product?.models?.[0]?.routing;
+  if (modelRouting?.length) return modelRouting;
+  const categoryRouting = product && config.routings?.[product.category];
+  if (categoryRouting?.length) return categoryRouting;
+  return defaultRouting(config.stages);
+}
+
+/**
+ * Junta os roteiros dos itens mantendo a sequência de cada um: etapas novas
+ * entram antes da próxima etapa do mesmo roteiro que o pedido já tem (ou no
+ * fim). Etapa obrigatória em qualquer item é obrigatória no pedido.
+ */
+export function buildOrderStages(
+  lines: RoutingOrderLine[],
+  products: Product[],
+  config: Pick<ProductionConfig, "stages" | "routings">,
+): RoutedStage[] {
+  const active = new Set(
+    config.stages.filter(isStageActive).map((stage) => stage.id),
+  );
+  const result: RoutedStage[] = [];
+
+  for (const line of lines) {
+    const product = products.find((p) => p.id === line.product_id);
+    const quantity = Math.max(0, line.quantity || 0);
+    const steps = routingFor(product, config).filter((step) =>
+      active.has(step.stageId),
+    );
+    const indexOf = (stageId: string) =>
+      result.findIndex((s) => s.stage === stageId);
+    let cursor = -1;
+
+    steps.forEach((step, position) => {
+      const minutes = Math.round(step.minutesPerUnit * quantity);
+      let index = indexOf(step.stageId);
+
+      if (index < 0) {
+        // Antes da próxima etapa deste roteiro que já está no pedido
+        const next = steps
+          .slice(position + 1)
+          .map((later) => indexOf(later.stageId))
+          .find((later) => later > cursor);
+        index = next ?? result.length;
+        result.splice(index, 0, {
+          stage: step.stageId,
+          status: "pending",
+          estimated_minutes: minutes,
+          ...(step.optional ? { optional: true } : {}),
+        });
+      } else {
+        const existing = result[index];
+        existing.estimated_minutes += minutes;
+        if (!step.optional) delete existing.optional;
+      }
+      cursor = Math.max(cursor, index);
+    });
+  }
+
+  return result;
+}
@@ -0,0 +1,133 @@
+import { describe, it, expect } from "vitest";
+import type { PurchaseRequisition } from "@/types/purchasing";
+import type { Supplier } from "@/types/supplier";
+import {
+  isOverdue,
+  priceHistory,
+  requisitionsFor,
+  supplierPerformance,
+} from "./supplierPerformance";
+
+const supplier: Supplier = {
+  id: "sup-1",
+  name: "Espumas Brasil",
+  cnpj: "11.222.333/0001-81",
+  contacts: [],
+  leadTimeDays: 5,
+  paymentTerms: "30 dias",
+  status: "active",
+  createdAt: new Date("2025-01-01"),
+  updatedAt: new Date("2025-01-01"),
+};
+
+const received = (
+  number: string,
+  sentAt: string,
+  expectedAt: string,
+  receivedAt: string,
+  unitCost: number,
+): PurchaseRequisition => ({
+  id: number,
+  number,
+  supplier: supplier.name,
+  supplierId: supplier.id,
+  status: "received",
+  items: [
+    {
+      materialId: "foam",
+      materialName: "Espuma D33",
+      unit: "pieces",
+      quantity: 10,
+      unitCost,
+    },
+  ],
+  createdBy: "Ana",
+  createdAt: new Date(sentAt),
+  sentAt: new Date(sentAt),
+  expectedAt: new Date(expectedAt),
+  receivedAt: new Date(receivedAt),
+});
+
+const history = [
+  received(
+    "RC-1",
+    "2025-03-01T12:00",
+    "2025-03-06T12:00",
+    "2025-03-06T17:00",
+    80,
+  ),
+  received(
+    "RC-2",
+    "2025-04-01T12:00",
+    "2025-04-06T12:00",
+    "2025-04-09T09:00",
+    85,
+  ),
+  // Requisição antiga, só com o nome do fornecedor
+  {
+    ...received(
+      "RC-3",
+      "2025-05-01T12:00",
+      "2025-05-06T12:00",
+      "2025-05-04T12:00",
+      90,
+    ),
+    supplierId: undefined,
+    supplier: "espumas brasil",
+  },
+  {
+    ...received(
+      "RC-4",
+      "2025-05-01T12:00",
+      "2025-05-06T12:00",
+      "2025-05-04T12:00",
+      70,
+    ),
+    supplierId: "sup-2",
+  },
+];
+
+describe("supplier performance", () => {
+  it("matches requisitions by id or, for old records, by name", () => {
+    expect(requisitionsFor(supplier, history).map((r) => r.number)).toEqual([
+      "RC-1",
+      "RC-2",
+      "RC-3",
+    ]);
+  });
+
+  it("measures on-time deliveries and lead time", () => {
+    expect(supplierPerformance(supplier, history)).toEqual({
+      received: 3,
+      onTime: 2,
+      late: 1,
+      onTimeRate: 2 / 3,
+      averageLeadTimeDays: 5.3,
+      totalPurchased: 2550,
+    });
+  });
+
+  it("lists prices newest first", () => {
+    expect(
+      priceHistory(supplier, history).map((e) => [
+        e.requisitionNumber,
+        e.unitCost,
+      ]),
+    ).toEqual([
+      ["RC-3", 90],
+      ["RC-2", 85],
+      ["RC-1", 80],
+    ]);
+  });
+
+  it("flags sent requisitions past the expected date", () => {
+    const sent = {
+      ...history[0],
+      status: "sent" as const,
+      receivedAt: undefined,
+    };
+    expect(isOverdue(sent, new Date("2025-03-06T23:00"))).toBe(false);
+    expect(isOverdue(sent, new Date("2025-03-07T08:00"))).toBe(true);
+    expect(isOverdue(history[0], new Date("2025-04-01"))).toBe(false);
+  });
+});
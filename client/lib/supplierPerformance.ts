@@ -0,0 +1,107 @@
+import { differenceInCalendarDays, endOfDay } from "date-fns";
+import { requisitionTotal } from "@/lib/purchasing";
+import type { RawMaterial } from "@/types/inventory";
+import type { PurchaseRequisition } from "@/types/purchasing";
+import type { Supplier } from "@/types/supplier";
+
+/**
+ * Indicadores do fornecedor calculados a partir das requisições de compra:
+ * pontualidade (recebimento até a data prevista) e histórico de preços.
+ */
+
+export interface SupplierPerformance {
+  received: number;
+  onTime: number;
+  late: number;
+  /** Pontualidade entre 0 e 1; null sem recebimentos com data prevista */
+  onTimeRate: number | null;
+  /** Média de dias entre envio e recebimento */
+  averageLeadTimeDays: number | null;
+  totalPurchased: number;
+}
+
+export interface PriceHistoryEntry {
+  materialId: string;
+  materialName: string;
+  unitCost: number;
+  date: Date;
+  requisitionNumber: string;
+}
+
+const sameName = (a?: string, b?: string) =>
+  (a || "").trim().toLowerCase() === (b || "").trim().toLowerCase();
+
+/** Cadastros antigos só têm o nome do fornecedor: compara pelo nome. */
+const belongsTo = (
+  supplier: Supplier,
+  record: { supplierId?: string; supplier: string },
+) =>
+  record.supplierId
+    ? record.supplierId === supplier.id
+    : sameName(record.supplier, supplier.name);
+
+export const materialsFor = (supplier: Supplier, materials: RawMaterial[]) =>
+  materials.filter((m) => belongsTo(supplier, m));
+
+export const requisitionsFor = (
+  supplier: Supplier,
+  requisitions: PurchaseRequisition[],
+) => requisitions.filter((r) => belongsTo(supplier, r));
+
+/** Enviada e ainda não recebida depois da data prevista. */
+export const isOverdue = (
+  requisition: PurchaseRequisition,
+  now: Date = new Date(),
+) =>
+  requisition.status === "sent" &&
+  !!requisition.expectedAt &&
+  now > endOfDay(requisition.expectedAt);
+
+export function supplierPerformance(
+  supplier: Supplier,
+  requisitions: PurchaseRequisition[],
+): SupplierPerformance {
+  const received = requisitionsFor(supplier, requisitions).filter(
+    (r) => r.status === "received" && r.receivedAt,
+  );
+  const withDeadline = received.filter((r) => r.expectedAt);
+  const onTime = withDeadline.filter(
+    (r) => r.receivedAt <= endOfDay(r.expectedAt),
+  ).length;
+  const leadTimes = received
+    .filter((r) => r.sentAt)
+    .map((r) => differenceInCalendarDays(r.receivedAt, r.sentAt));
+
+  return {
+    received: received.length,
+    onTime,
+    late: withDeadline.length - onTime,
+    onTimeRate: withDeadline.length ? onTime / withDeadline.length : null,
+    averageLeadTimeDays: leadTimes.length
+      ? Math.round(
+          (leadTimes.reduce((sum, days) => sum + days, 0) / leadTimes.length) *
+            10,
+        ) / 10
+      : null,
+    totalPurchased: received.reduce((sum, r) => sum + requisitionTotal(r), 0),
+  };
+}
+
+/** Preços praticados nos recebimentos, do mais recente ao mais antigo. */
+export function priceHistory(
+  supplier: Supplier,
+  requisitions: PurchaseRequisition[],
+): PriceHistoryEntry[] {
+  return requisitionsFor(supplier, requisitions)
+    .filter((r) => r.status === "received" && r.receivedAt)
+    .flatMap((r) =>
+      r.items.map((item) => ({
+        materialId: item.materialId,
+        materialName: item.materialName,
+        unitCost: item.unitCost,
+        date: r.receivedAt,
+        requisitionNumber: r.number,
+      })),
+    )
+    .sort((a, b) => b.date.getTime() - a.date.getTime());
+}
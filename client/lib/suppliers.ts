@@ -0,0 +1,171 @@
+import { db } from "@/lib/firebase";
+import {
+  addDoc,
+  collection,
+  deleteDoc,
+  doc,
+  getDocs,
+  serverTimestamp,
+  updateDoc,
+} from "firebase/firestore";
+import { sanitizeForFirestore } from "@/lib/firestore";
+import type { Supplier } from "@/types/supplier";
+
+/**
+ * Cadastro de fornecedores (coleção `suppliers`). Materiais e requisições de
+ * compra apontam para o fornecedor pelo id; sem Firestore, usa localStorage.
+ * Com Firestore, a falha na gravação é repassada: uma alteração só local seria
+ * apagada pela próxima leitura.
+ */
+
+export class SupplierStorageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "SupplierStorageError";
+  }
+}
+
+function storageError(caller: string, action: string, err: unknown) {
+  console.error(`❌ [${caller}] Erro ao gravar no Firestore:`, err);
+  return new SupplierStorageError(
+    `Não foi possível ${action}: ${(err as Error).message}`,
+  );
+}
+
+const SUPPLIERS_KEY = "biobox_suppliers";
+
+export type SupplierInput = Omit<Supplier, "id" | "createdAt" | "updatedAt">;
+
+const toDate = (value: any): Date | undefined => {
+  if (!value) return undefined;
+  if (typeof value?.toDate === "function") return value.toDate();
+  const parsed = new Date(value);
+  return Number.isNaN(parsed.getTime()) ? undefined : parsed;
+};
+
+function fromRecord(id: string, data: any): Supplier {
+  return {
+    id,
+    name: data.name || "",
+    cnpj: data.cnpj || "",
+    contacts: Array.isArray(data.contacts) ? data.contacts : [],
+    leadTimeDays: Number(data.leadTimeDays) || 0,
+    paymentTerms: data.paymentTerms || "",
+    notes: data.notes || undefined,
+    status: data.status || "active",
+    createdAt: toDate(data.createdAt) || new Date(),
+    updatedAt: toDate(data.updatedAt) || new Date(),
+  };
+}
+
+const toRecord = (supplier: Omit<Supplier, "id">) => ({
+  ...supplier,
+  createdAt: supplier.createdAt.toISOString(),
+  updatedAt: supplier.updatedAt.toISOString(),
+});
+
+const readLocal = (): any[] => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(SUPPLIERS_KEY) || "[]");
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+};
+
+const writeLocal = (records: any[]) =>
+  localStorage.setItem(SUPPLIERS_KEY, JSON.stringify(records));
+
+const notifySuppliersChanged = (detail?: { id?: string }) => {
+  try {
+    window.dispatchEvent(new CustomEvent("suppliers:changed", { detail }));
+  } catch {}
+};
+
+const byName = (a: Supplier, b: Supplier) =>
+  a.name.localeCompare(b.name, "pt-BR");
+
+export async function fetchSuppliers(): Promise<Supplier[]> {
+  if (db) {
+    try {
+      const snap = await getDocs(collection(db, "suppliers"));
+      const suppliers = snap.docs.map((d) => fromRecord(d.id, d.data()));
+      writeLocal(suppliers.map((s) => ({ ...toRecord(s), id: s.id })));
+      return suppliers.sort(byName);
+    } catch (err) {
+      console.warn(
+        "⚠️ [fetchSuppliers] Firestore indisponível, usando localStorage:",
+        err,
+      );
+    }
+  }
+  return readLocal()
+    .map((r) => fromRecord(r.id, r))
+    .sort(byName);
+}
+
+export async function saveSupplier(
+  data: SupplierInput,
+  existing?: Supplier,
+): Promise<Supplier> {
+  const now = new Date();
+  const supplier: Supplier = existing
+    ? { ...existing, ...data, updatedAt: now }
+    : { ...data, id: "", createdAt: now, updatedAt: now };
+  const { id: _ignored, ...record } = supplier;
+
+  if (db) {
+    try {
+      if (existing) {
+        await updateDoc(
+          doc(db, "suppliers", existing.id),
+          sanitizeForFirestore({
+            ...toRecord(record),
+            updated_at: serverTimestamp(),
+          }) as any,
+        );
+      } else {
+        const ref = await addDoc(
+          collection(db, "suppliers"),
+          sanitizeForFirestore({
+            ...toRecord(record),
+            created_at: serverTimestamp(),
+            updated_at: serverTimestamp(),
+          }),
+        );
+        supplier.id = ref.id;
+      }
+    } catch (err) {
+      throw storageError("saveSupplier", "salvar o fornecedor", err);
+    }
+  } else {
+    if (existing) {
+      writeLocal(
+        readLocal().map((r) =>
+          r.id === existing.id ? { ...toRecord(record), id: r.id } : r,
+        ),
+      );
+    } else {
+      supplier.id = `sup-${Date.now()}`;
+      writeLocal([{ ...toRecord(record), id: supplier.id }, ...readLocal()]);
+    }
+  }
+
+  console.log("✅ [saveSupplier] Fornecedor salvo:", supplier.id);
+  notifySuppliersChanged({ id: supplier.id });
+  return supplier;
+}
+
+export async function deleteSupplier(supplierId: string): Promise<void> {
+  if (db) {
+    try {
+      await deleteDoc(doc(db, "suppliers", supplierId));
+      notifySuppliersChanged({ id: supplierId });
+      return;
+    } catch (err) {
+      throw storageError("deleteSupplier", "excluir o fornecedor", err);
+    }
+  }
+  writeLocal(readLocal().filter((r) => r.id !== supplierId));
+  notifySuppliersChanged({ id: supplierId });
+}
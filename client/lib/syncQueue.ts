@@ -0,0 +1,400 @@
+import { db } from "@/lib/firebase";
+import {
+  addDoc,
+  collection,
+  deleteDoc,
+  doc,
+  getDoc,
+  serverTimestamp,
+  setDoc,
+  updateDoc,
+} from "firebase/firestore";
+import { sanitizeForFirestore } from "@/lib/firestore";
+import { generateOrderNumber, isOrderNumberTaken } from "@/lib/orderNumbering";
+import { notifyOrdersChanged } from "@/lib/orderEvents";
+
+/**
+ * Fila persistente (outbox) das escritas feitas no localStorage enquanto o
+ * Firestore estava indisponível. As entradas são reenviadas em ordem quando a
+ * conexão volta; se o documento remoto foi alterado depois da edição local
+ * (comparando `updated_at`), a entrada fica em conflito até alguém decidir
+ * qual versão manter.
+ */
+
+export type OutboxCollection = "orders" | "customers" | "products";
+export type OutboxOperation = "create" | "update" | "delete";
+
+export interface OutboxEntry {
+  id: string;
+  collection: OutboxCollection;
+  operation: OutboxOperation;
+  docId: string;
+  data?: Record<string, any>;
+  /** `updated_at` do registro quando a edição local foi feita */
+  baseUpdatedAt?: string;
+  /** Texto para exibição (nº do pedido, nome do cliente...) */
+  label?: string;
+  queuedAt: string;
+  attempts: number;
+  status: "pending" | "conflict";
+  lastError?: string;
+  /** Versão remota encontrada no conflito (null se foi excluída) */
+  remote?: Record<string, any> | null;
+}
+
+export interface ReplayResult {
+  synced: number;
+  conflicts: number;
+  failed: boolean;
+}
+
+const OUTBOX_KEY = "biobox_outbox";
+const LAST_SYNC_KEY = "biobox_outbox_last_sync";
+
+export const LOCAL_STORAGE_KEYS: Record<OutboxCollection, string> = {
+  orders: "biobox_orders",
+  customers: "biobox_customers",
+  products: "biobox_products",
+};
+
+const CHANGED_EVENTS: Record<OutboxCollection, string> = {
+  orders: "orders:changed",
+  customers: "customers:changed",
+  products: "products:changed",
+};
+
+const notifyCollection = (name: OutboxCollection, detail?: { id?: string }) =>
+  name === "orders"
+    ? notifyOrdersChanged(detail)
+    : notify(CHANGED_EVENTS[name], detail);
+
+const notify = (name: string, detail?: any) => {
+  try {
+    if (typeof window !== "undefined") {
+      window.dispatchEvent(new CustomEvent(name, { detail }));
+    }
+  } catch {}
+};
+
+export function readOutbox(): OutboxEntry[] {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(OUTBOX_KEY) || "[]");
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+function writeOutbox(entries: OutboxEntry[]) {
+  localStorage.setItem(OUTBOX_KEY, JSON.stringify(entries));
+  notify("outbox:changed", { size: entries.length });
+}
+
+export function getLastSyncAt(): string | null {
+  return localStorage.getItem(LAST_SYNC_KEY);
+}
+
+/**
+ * Registra uma escrita local pendente. Edições do mesmo registro são
+ * agrupadas para que o Firestore receba o estado final de uma só vez.
+ */
+export function enqueueMutation(
+  mutation: Pick<
+    OutboxEntry,
+    "collection" | "operation" | "docId" | "data" | "baseUpdatedAt" | "label"
+  >,
+) {
+  const entries = readOutbox();
+  const samePending = (e: OutboxEntry) =>
+    e.collection === mutation.collection &&
+    e.docId === mutation.docId &&
+    e.status === "pending";
+  const pendingCreate = entries.find(
+    (e) => samePending(e) && e.operation === "create",
+  );
+
+  if (mutation.operation === "delete" && pendingCreate) {
+    // Nunca chegou ao Firestore: basta descartar tudo que é do registro
+    writeOutbox(entries.filter((e) => !samePending(e)));
+    return;
+  }
+
+  if (mutation.operation === "update") {
+    const target =
+      pendingCreate ??
+      entries.find((e) => samePending(e) && e.operation === "update");
+    if (target) {
+      target.data = { ...target.data, ...mutation.data };
+      target.label = mutation.label ?? target.label;
+      writeOutbox(entries);
+      return;
+    }
+  }
+
+  entries.push({
+    ...mutation,
+    id: `outbox-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    queuedAt: new Date().toISOString(),
+    attempts: 0,
+    status: "pending",
+  });
+  writeOutbox(entries);
+  console.log("📤 [syncQueue] Escrita pendente registrada:", {
+    collection: mutation.collection,
+    operation: mutation.operation,
+    docId: mutation.docId,
+  });
+}
+
+const readLocal = (name: OutboxCollection): any[] => {
+  try {
+    const parsed = JSON.parse(
+      localStorage.getItem(LOCAL_STORAGE_KEYS[name]) || "[]",
+    );
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+};
+
+const writeLocal = (name: OutboxCollection, records: any[]) => {
+  localStorage.setItem(LOCAL_STORAGE_KEYS[name], JSON.stringify(records));
+  notifyCollection(name);
+};
+
+/**
+ * Aplica as escritas ainda não sincronizadas sobre uma lista vinda do
+ * Firestore, para que a tela continue mostrando as alterações locais.
+ */
+export function applyPendingMutations<T extends { id: string }>(
+  name: OutboxCollection,
+  records: T[],
+): T[] {
+  const entries = readOutbox().filter((e) => e.collection === name);
+  if (!entries.length) return records;
+
+  const local = new Map(readLocal(name).map((r) => [r.id, r]));
+  let result = [...records];
+  for (const entry of entries) {
+    if (entry.operation === "delete") {
+      result = result.filter((r) => r.id !== entry.docId);
+    } else if (entry.operation === "create") {
+      const record = local.get(entry.docId);
+      if (record && !result.some((r) => r.id === entry.docId)) {
+        result = [record as T, ...result];
+      }
+    } else {
+      result = result.map((r) =>
+        r.id === entry.docId ? { ...r, ...entry.data } : r,
+      );
+    }
+  }
+  return result;
+}
+
+const toIso = (value: any): string | undefined => {
+  if (!value) return undefined;
+  if (typeof value?.toDate === "function") return value.toDate().toISOString();
+  const parsed = new Date(value);
+  return Number.isNaN(parsed.getTime()) ? undefined : parsed.toISOString();
+};
+
+const isRemoteNewer = (remote: Record<string, any>, entry: OutboxEntry) => {
+  const remoteUpdated = toIso(remote.updated_at);
+  if (!entry.baseUpdatedAt || !remoteUpdated) return false;
+  return Date.parse(remoteUpdated) > Date.parse(entry.baseUpdatedAt);
+};
+
+const withoutId = (data: Record<string, any> = {}) => {
+  const { id: _ignored, ...rest } = data;
+  return rest;
+};
+
+/** Troca o id temporário local pelo id gerado no Firestore. */
+function remapLocalId(
+  name: OutboxCollection,
+  localId: string,
+  remoteId: string,
+  patch: Record<string, any> = {},
+) {
+  writeLocal(
+    name,
+    readLocal(name).map((r) =>
+      r.id === localId ? { ...r, ...patch, id: remoteId } : r,
+    ),
+  );
+  writeOutbox(
+    readOutbox().map((e) =>
+      e.collection === name && e.docId === localId
+        ? { ...e, docId: remoteId }
+        : e,
+    ),
+  );
+}
+
+function removeEntry(entryId: string) {
+  writeOutbox(readOutbox().filter((e) => e.id !== entryId));
+}
+
+function updateEntry(entryId: string, changes: Partial<OutboxEntry>) {
+  writeOutbox(
+    readOutbox().map((e) => (e.id === entryId ? { ...e, ...changes } : e)),
+  );
+}
+
+async function applyEntry(entry: OutboxEntry): Promise<"synced" | "conflict"> {
+  const ref = doc(db, entry.collection, entry.docId);
+
+  if (entry.operation === "create") {
+    const data = withoutId(entry.data);
+    if (
+      entry.collection === "orders" &&
+      data.order_number &&
+      (await isOrderNumberTaken(data.order_number, entry.docId))
+    ) {
+      // Número gerado offline já foi usado em outra máquina
+      data.order_number = await generateOrderNumber();
+    }
+    const created = await addDoc(
+      collection(db, entry.collection),
+      sanitizeForFirestore({
+        ...data,
+        created_at: serverTimestamp(),
+        updated_at: serverTimestamp(),
+      }),
+    );
+    remapLocalId(entry.collection, entry.docId, created.id, {
+      order_number: data.order_number,
+    });
+    return "synced";
+  }
+
+  const snap = await getDoc(ref);
+  const remote = snap.exists()
+    ? {
+        ...snap.data(),
+        id: snap.id,
+        created_at: toIso(snap.data().created_at),
+        updated_at: toIso(snap.data().updated_at),
+      }
+    : null;
+
+  if (entry.operation === "delete") {
+    if (!remote) return "synced";
+    if (isRemoteNewer(remote, entry)) {
+      updateEntry(entry.id, { status: "conflict", remote });
+      return "conflict";
+    }
+    await deleteDoc(ref);
+    return "synced";
+  }
+
+  if (!remote || isRemoteNewer(remote, entry)) {
+    updateEntry(entry.id, { status: "conflict", remote });
+    return "conflict";
+  }
+  await updateDoc(
+    ref,
+    sanitizeForFirestore({
+      ...withoutId(entry.data),
+      updated_at: serverTimestamp(),
+    }) as any,
+  );
+  return "synced";
+}
+
+async function replay(): Promise<ReplayResult> {
+  const result: ReplayResult = { synced: 0, conflicts: 0, failed: false };
+  if (!db || (typeof navigator !== "undefined" && !navigator.onLine)) {
+    return { ...result, failed: true };
+  }
+
+  for (const { id } of readOutbox()) {
+    // Relê a entrada: ids podem ter sido remapeados por um create anterior
+    const entry = readOutbox().find((e) => e.id === id);
+    if (!entry || entry.status !== "pending") continue;
+
+    try {
+      const outcome = await applyEntry(entry);
+      if (outcome === "conflict") {
+        result.conflicts++;
+        continue;
+      }
+      removeEntry(entry.id);
+      result.synced++;
+      notifyCollection(entry.collection, { id: entry.docId });
+    } catch (err) {
+      console.warn(
+        "⚠️ [syncQueue] Falha ao sincronizar, tentando depois:",
+        err,
+      );
+      updateEntry(entry.id, {
+        attempts: entry.attempts + 1,
+        lastError: err instanceof Error ? err.message : String(err),
+      });
+      // Mantém a ordem das escritas: o restante espera a próxima tentativa
+      result.failed = true;
+      break;
+    }
+  }
+
+  if (!result.failed) {
+    localStorage.setItem(LAST_SYNC_KEY, new Date().toISOString());
+  }
+  console.log("🔁 [syncQueue] Replay concluído:", result);
+  return result;
+}
+
+let inFlight: Promise<ReplayResult> | null = null;
+
+/** Reenvia as escritas pendentes ao Firestore (uma execução por vez). */
+export function replayOutbox(): Promise<ReplayResult> {
+  if (!inFlight) {
+    inFlight = replay().finally(() => {
+      inFlight = null;
+    });
+  }
+  return inFlight;
+}
+
+/**
+ * Resolve um conflito mantendo a versão local (sobrescreve o Firestore) ou a
+ * remota (descarta a edição local e atualiza o cache).
+ */
+export async function resolveConflict(
+  entryId: string,
+  keep: "local" | "remote",
+): Promise<void> {
+  const entry = readOutbox().find((e) => e.id === entryId);
+  if (!entry) return;
+  const ref = doc(db, entry.collection, entry.docId);
+
+  if (keep === "local") {
+    if (entry.operation === "delete") {
+      await deleteDoc(ref);
+    } else {
+      const local = readLocal(entry.collection).find(
+        (r) => r.id === entry.docId,
+      );
+      await setDoc(
+        ref,
+        sanitizeForFirestore({
+          ...withoutId(entry.remote ? entry.data : { ...local, ...entry.data }),
+          updated_at: serverTimestamp(),
+        }),
+        { merge: true },
+      );
+    }
+  } else {
+    const others = readLocal(entry.collection).filter(
+      (r) => r.id !== entry.docId,
+    );
+    writeLocal(
+      entry.collection,
+      entry.remote ? [entry.remote, ...others] : others,
+    );
+  }
+
+  removeEntry(entry.id);
+  notifyCollection(entry.collection, { id: entry.docId });
+}
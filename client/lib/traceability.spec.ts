@@ -0,0 +1,180 @@
+import { describe, it, expect } from "vitest";
+import type { InventoryMovement } from "@/types/inventory";
+import type { ProductionStage } from "@/types/production";
+import {
+  DELIVERY_STAGE,
+  TraceabilityError,
+  findSerial,
+  recordScan,
+  serialNumber,
+  serialsToIssue,
+  unitTrace,
+  type TraceOrder,
+} from "./traceability";
+
+const stages = [
+  { id: "cutting", name: "Corte", order: 1 },
+  { id: "assembly", name: "Montagem", order: 2 },
+] as ProductionStage[];
+
+const order: TraceOrder = {
+  id: "o1",
+  order_number: "ORD-2025-0001",
+  status: "in_production",
+  customer_name: "João Silva",
+  products: [
+    { product_id: "p1", product_name: "Cama Queen", size: "158", quantity: 2 },
+    { product_id: "p2", product_name: "Cama Casal", size: "138", quantity: 1 },
+  ],
+  is_fragmented: true,
+  fragments: [
+    {
+      id: "f1",
+      fragment_number: 1,
+      product_id: "p1",
+      quantity: 2,
+      status: "in_production",
+      progress: 50,
+      production_stages: [
+        {
+          stage: "cutting",
+          status: "completed",
+          started_at: "2025-03-10T08:00:00.000Z",
+          completed_at: "2025-03-10T10:00:00.000Z",
+          time_entries: [
+            {
+              operator: "Carlos",
+              started_at: "2025-03-10T08:00:00.000Z",
+              ended_at: "2025-03-10T10:00:00.000Z",
+            },
+          ],
+        },
+        { stage: "assembly", status: "pending" },
+      ],
+    },
+  ],
+};
+
+const at = new Date("2025-03-10T12:00:00.000Z");
+
+describe("serialsToIssue", () => {
+  it("issues one serial per unit of the fragment, once", () => {
+    const units = serialsToIssue(order, "f1", [], "Ana", at);
+    expect(units.map((u) => u.id)).toEqual([
+      "ORD-2025-0001-F1-01",
+      "ORD-2025-0001-F1-02",
+    ]);
+    expect(units[1]).toMatchObject({
+      fragmentNumber: 1,
+      unitNumber: 2,
+      unitCount: 2,
+      productName: "Cama Queen",
+      customerName: "João Silva",
+      issuedBy: "Ana",
+      scans: [],
+    });
+
+    expect(serialsToIssue(order, "f1", [units[0]], "Ana")).toHaveLength(1);
+    expect(() => serialsToIssue(order, "f9", [], "Ana")).toThrow(
+      TraceabilityError,
+    );
+  });
+
+  it("numbers the units of an order without fragments by item", () => {
+    const units = serialsToIssue(order, undefined, [], "Ana", at);
+    expect(units.map((u) => [u.id, u.productName])).toEqual([
+      ["ORD-2025-0001-01", "Cama Queen"],
+      ["ORD-2025-0001-02", "Cama Queen"],
+      ["ORD-2025-0001-03", "Cama Casal"],
+    ]);
+    expect(serialNumber("ORD-1", 12, 3)).toBe("ORD-1-F3-12");
+  });
+});
+
+describe("unit scans", () => {
+  it("records stage scans and closes the unit on delivery", () => {
+    const [unit] = serialsToIssue(order, "f1", [], "Ana", at);
+    expect(findSerial([unit], " ord-2025-0001-f1-01 ")).toBe(unit);
+
+    const scanned = recordScan(unit, "assembly", "Bruno", at);
+    expect(scanned.scans).toEqual([
+      { stage: "assembly", operator: "Bruno", scannedAt: at },
+    ]);
+
+    const delivered = recordScan(scanned, DELIVERY_STAGE, "Ana", at);
+    expect(delivered.deliveredAt).toEqual(at);
+    expect(() => recordScan(delivered, DELIVERY_STAGE, "Ana")).toThrow(
+      "já foi entregue",
+    );
+  });
+});
+
+describe("unitTrace", () => {
+  it("joins stages, operators, scans and consumed lots", () => {
+    const [unit] = serialsToIssue(order, "f1", [], "Ana", at);
+    const movements = [
+      {
+        id: "m1",
+        type: "out",
+        quantity: 2,
+        reason: "Consumo na produção",
+        reference: "ORD-2025-0001",
+        operator: "Ana",
+        timestamp: at,
+        materialId: "mdf",
+        lot: "L-01",
+      },
+      {
+        id: "m2",
+        type: "out",
+        quantity: 1,
+        reason: "Consumo na produção",
+        reference: "ORD-2025-0001",
+        operator: "Ana",
+        timestamp: new Date("2025-03-11T12:00:00.000Z"),
+        materialId: "mdf",
+        lot: "L-02",
+      },
+      {
+        id: "m3",
+        type: "in",
+        quantity: 5,
+        reason: "Devolução",
+        reference: "ORD-2025-0001",
+        operator: "Ana",
+        timestamp: at,
+        materialId: "mdf",
+      },
+    ] as InventoryMovement[];
+
+    const trace = unitTrace(
+      recordScan(unit, "assembly", "Bruno", at),
+      order,
+      stages,
+      movements,
+    );
+
+    expect(trace.stages).toEqual([
+      expect.objectContaining({
+        stage: "cutting",
+        status: "completed",
+        operators: ["Carlos"],
+        scans: [],
+      }),
+      expect.objectContaining({
+        stage: "assembly",
+        status: "pending",
+        operators: ["Bruno"],
+      }),
+    ]);
+    expect(trace.materials).toEqual([
+      {
+        materialId: "mdf",
+        quantity: 3,
+        lots: ["L-01", "L-02"],
+        consumedAt: new Date("2025-03-11T12:00:00.000Z"),
+      },
+    ]);
+    expect(trace.delivery).toBeUndefined();
+  });
+});
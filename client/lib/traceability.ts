@@ -0,0 +1,244 @@
+import { format } from "date-fns";
+import {
+  fragmentStages,
+  type FragmentStageEntry,
+  type StagedFragment,
+} from "@/lib/fragmentStages";
+import { fragmentDetails } from "@/lib/opNumber";
+import { stageTimeEntries, syncOrderStages } from "@/lib/productionStages";
+import type { InventoryMovement } from "@/types/inventory";
+import type { ProductionStage, UnitScan, UnitSerial } from "@/types/production";
+
+/**
+ * Números de série por unidade produzida. A série é emitida quando o
+ * fragmento (ou o pedido, sem fragmentos) entra em produção, é lida nas
+ * etapas e na entrega, e a rastreabilidade junta pedido, etapas, operadores
+ * e os lotes de material baixados para o pedido.
+ */
+
+export class TraceabilityError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "TraceabilityError";
+  }
+}
+
+/** Etapa das leituras feitas na expedição */
+export const DELIVERY_STAGE = "delivery";
+
+export interface TraceFragment extends StagedFragment {
+  fragment_number: number;
+  product_id?: string;
+  product_name?: string;
+  size?: string;
+  color?: string;
+}
+
+export interface TraceOrder {
+  id: string;
+  order_number: string;
+  status: string;
+  customer_name?: string;
+  is_fragmented?: boolean;
+  total_quantity?: number;
+  products?: {
+    id?: string;
+    product_id?: string;
+    product_name?: string;
+    size?: string;
+    color?: string;
+    quantity: number;
+  }[];
+  fragments?: TraceFragment[];
+  production_stages?: FragmentStageEntry[];
+}
+
+/** Série da unidade: pedido, fragmento e unidade (ex.: ORD-2025-0001-F2-03). */
+export function serialNumber(
+  orderNumber: string,
+  unitNumber: number,
+  fragmentNumber?: number,
+): string {
+  const unit = String(unitNumber).padStart(2, "0");
+  return fragmentNumber
+    ? `${orderNumber}-F${fragmentNumber}-${unit}`
+    : `${orderNumber}-${unit}`;
+}
+
+/** Produto de cada unidade do pedido sem fragmentos, na ordem dos itens. */
+function orderUnits(order: TraceOrder) {
+  const units = (order.products || []).flatMap((product) =>
+    Array.from({ length: product.quantity || 0 }, () => product),
+  );
+  const total = units.length || order.total_quantity || 1;
+  return Array.from(
+    { length: total },
+    (_, index) => units[index] || order.products?.[0],
+  );
+}
+
+/**
+ * Séries ainda não emitidas do fragmento (ou do pedido, sem `fragmentId`).
+ * Emitir de novo não duplica: unidades com série são ignoradas.
+ */
+export function serialsToIssue(
+  order: TraceOrder,
+  fragmentId: string | undefined,
+  issued: Pick<UnitSerial, "id">[],
+  issuedBy: string,
+  timestamp: Date = new Date(),
+): UnitSerial[] {
+  const existing = new Set(issued.map((unit) => unit.id));
+  const base = {
+    orderId: order.id,
+    orderNumber: order.order_number,
+    customerName: order.customer_name,
+    issuedAt: timestamp,
+    issuedBy,
+    scans: [],
+  };
+
+  if (fragmentId) {
+    const index = (order.fragments || []).findIndex(
+      (fragment) => fragment.id === fragmentId,
+    );
+    if (index < 0) throw new TraceabilityError("Fragmento não encontrado");
+    const fragment = order.fragments[index];
+    const details = fragmentDetails(order, fragment, index);
+    const unitCount = Math.max(1, fragment.quantity || 0);
+    return Array.from({ length: unitCount }, (_, i) => ({
+      ...base,
+      id: serialNumber(order.order_number, i + 1, fragment.fragment_number),
+      fragmentId,
+      fragmentNumber: fragment.fragment_number,
+      unitNumber: i + 1,
+      unitCount,
+      productName: details.product_name,
+      size: details.size,
+      color: details.color,
+    })).filter((unit) => !existing.has(unit.id));
+  }
+
+  const units = orderUnits(order);
+  return units
+    .map((product, i) => ({
+      ...base,
+      id: serialNumber(order.order_number, i + 1),
+      unitNumber: i + 1,
+      unitCount: units.length,
+      productName: product?.product_name,
+      size: product?.size,
+      color: product?.color,
+    }))
+    .filter((unit) => !existing.has(unit.id));
+}
+
+export const findSerial = (units: UnitSerial[], code: string) => {
+  const wanted = code.trim().toUpperCase();
+  return wanted
+    ? units.find((unit) => unit.id.toUpperCase() === wanted)
+    : undefined;
+};
+
+/** Registra a leitura; a leitura na expedição marca a unidade como entregue. */
+export function recordScan(
+  unit: UnitSerial,
+  stage: string,
+  operator: string,
+  timestamp: Date = new Date(),
+): UnitSerial {
+  if (unit.deliveredAt) {
+    throw new TraceabilityError(
+      `A unidade ${unit.id} já foi entregue em ${format(unit.deliveredAt, "dd/MM/yyyy")}`,
+    );
+  }
+  return {
+    ...unit,
+    scans: [...unit.scans, { stage, operator, scannedAt: timestamp }],
+    ...(stage === DELIVERY_STAGE ? { deliveredAt: timestamp } : {}),
+  };
+}
+
+export interface TraceStage {
+  stage: string;
+  status: string;
+  started_at?: string;
+  completed_at?: string;
+  operators: string[];
+  /** Leituras da própria unidade nesta etapa */
+  scans: UnitScan[];
+}
+
+export interface TraceMaterial {
+  materialId: string;
+  quantity: number;
+  lots: string[];
+  consumedAt: Date;
+}
+
+export interface UnitTrace {
+  unit: UnitSerial;
+  stages: TraceStage[];
+  materials: TraceMaterial[];
+  delivery?: UnitScan;
+}
+
+const unique = (values: (string | undefined)[]) =>
+  Array.from(new Set(values.filter(Boolean)));
+
+/**
+ * Histórico da unidade. As etapas e operadores vêm do fragmento (ou do
+ * pedido); a baixa de material é feita por pedido, então todas as unidades
+ * do pedido compartilham os mesmos lotes.
+ */
+export function unitTrace(
+  unit: UnitSerial,
+  order: TraceOrder | undefined,
+  stages: ProductionStage[],
+  movements: InventoryMovement[],
+): UnitTrace {
+  const fragment = order?.fragments?.find((f) => f.id === unit.fragmentId);
+  const entries: FragmentStageEntry[] = !order
+    ? []
+    : fragment
+      ? fragmentStages(fragment, order.production_stages || [], stages)
+      : syncOrderStages(order.production_stages || [], stages);
+
+  const traced = entries.map((entry) => {
+    const scans = unit.scans.filter((scan) => scan.stage === entry.stage);
+    return {
+      stage: entry.stage,
+      status: entry.status,
+      started_at: entry.started_at,
+      completed_at: entry.completed_at,
+      operators: unique([
+        ...stageTimeEntries(entry).map((timeEntry) => timeEntry.operator),
+        ...scans.map((scan) => scan.operator),
+      ]),
+      scans,
+    };
+  });
+
+  const consumed = new Map<string, TraceMaterial>();
+  for (const movement of movements) {
+    if (movement.type !== "out" || !movement.materialId) continue;
+    if (movement.reference !== unit.orderNumber) continue;
+    const current = consumed.get(movement.materialId);
+    consumed.set(movement.materialId, {
+      materialId: movement.materialId,
+      quantity: (current?.quantity || 0) + movement.quantity,
+      lots: unique([...(current?.lots || []), movement.lot]),
+      consumedAt:
+        current && current.consumedAt > movement.timestamp
+          ? current.consumedAt
+          : movement.timestamp,
+    });
+  }
+
+  return {
+    unit,
+    stages: traced,
+    materials: Array.from(consumed.values()),
+    delivery: unit.scans.find((scan) => scan.stage === DELIVERY_STAGE),
+  };
+}
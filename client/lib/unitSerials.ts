@@ -0,0 +1,215 @@
+import { db } from "@/lib/firebase";
+import {
+  collection,
+  doc,
+  getDocs,
+  runTransaction,
+  serverTimestamp,
+} from "firebase/firestore";
+import { sanitizeForFirestore } from "@/lib/firestore";
+import {
+  TraceabilityError,
+  recordScan,
+  serialsToIssue,
+  type TraceOrder,
+} from "@/lib/traceability";
+import type { UnitSerial } from "@/types/production";
+
+/**
+ * Números de série das unidades (coleção `unit_serials`, id = série). A
+ * emissão é idempotente: séries já existentes não são regravadas.
+ * Com Firestore, a falha na gravação é repassada: uma série emitida só no
+ * aparelho seria apagada pela próxima leitura e poderia ser emitida de novo.
+ */
+
+const SERIALS_KEY = "biobox_unit_serials";
+
+const toDate = (value: any): Date | undefined => {
+  if (!value) return undefined;
+  if (typeof value?.toDate === "function") return value.toDate();
+  const parsed = new Date(value);
+  return Number.isNaN(parsed.getTime()) ? undefined : parsed;
+};
+
+const toIso = (value?: Date) => (value ? value.toISOString() : undefined);
+
+function fromRecord(id: string, data: any): UnitSerial {
+  return {
+    id,
+    orderId: data.orderId || "",
+    orderNumber: data.orderNumber || "",
+    fragmentId: data.fragmentId || undefined,
+    fragmentNumber: data.fragmentNumber || undefined,
+    unitNumber: Number(data.unitNumber) || 1,
+    unitCount: Number(data.unitCount) || 1,
+    productName: data.productName || undefined,
+    size: data.size || undefined,
+    color: data.color || undefined,
+    customerName: data.customerName || undefined,
+    issuedAt: toDate(data.issuedAt) || new Date(),
+    issuedBy: data.issuedBy || "",
+    scans: (Array.isArray(data.scans) ? data.scans : []).map((scan: any) => ({
+      stage: scan.stage || "",
+      operator: scan.operator || "",
+      scannedAt: toDate(scan.scannedAt) || new Date(),
+    })),
+    deliveredAt: toDate(data.deliveredAt),
+  };
+}
+
+function toRecord(unit: UnitSerial) {
+  const { id: _ignored, ...rest } = unit;
+  return {
+    ...rest,
+    issuedAt: toIso(unit.issuedAt),
+    deliveredAt: toIso(unit.deliveredAt),
+    scans: unit.scans.map((scan) => ({
+      ...scan,
+      scannedAt: toIso(scan.scannedAt),
+    })),
+  };
+}
+
+const readLocal = (): any[] => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(SERIALS_KEY) || "[]");
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+};
+
+const writeLocal = (records: any[]) =>
+  localStorage.setItem(SERIALS_KEY, JSON.stringify(records));
+
+const notifySerialsChanged = (detail?: { id?: string }) => {
+  try {
+    window.dispatchEvent(new CustomEvent("unit-serials:changed", { detail }));
+  } catch {}
+};
+
+function storageError(caller: string, action: string, err: unknown) {
+  console.error(`❌ [${caller}] Erro ao gravar no Firestore:`, err);
+  return new TraceabilityError(
+    `Não foi possível ${action}: ${(err as Error).message}`,
+  );
+}
+
+const bySerial = (a: UnitSerial, b: UnitSerial) =>
+  a.id.localeCompare(b.id, "pt-BR", { numeric: true });
+
+export async function fetchUnitSerials(): Promise<UnitSerial[]> {
+  if (db) {
+    try {
+      const snap = await getDocs(collection(db, "unit_serials"));
+      const units = snap.docs.map((d) => fromRecord(d.id, d.data()));
+      writeLocal(units.map((u) => ({ ...toRecord(u), id: u.id })));
+      return units.sort(bySerial);
+    } catch (err) {
+      console.warn(
+        "⚠️ [fetchUnitSerials] Firestore indisponível, usando localStorage:",
+        err,
+      );
+    }
+  }
+  return readLocal()
+    .map((r) => fromRecord(r.id, r))
+    .sort(bySerial);
+}
+
+/** Emite as séries do fragmento (ou do pedido) que ainda não existem. */
+export async function issueUnitSerials(
+  order: TraceOrder,
+  fragmentId: string | undefined,
+  operator: string,
+): Promise<UnitSerial[]> {
+  const candidates = serialsToIssue(order, fragmentId, [], operator);
+
+  if (db) {
+    try {
+      const issued = await runTransaction(db, async (tx) => {
+        const refs = candidates.map((unit) => doc(db, "unit_serials", unit.id));
+        const snaps = await Promise.all(refs.map((ref) => tx.get(ref)));
+        return candidates.filter((unit, index) => {
+          if (snaps[index].exists()) return false;
+          tx.set(
+            refs[index],
+            sanitizeForFirestore({
+              ...toRecord(unit),
+              created_at: serverTimestamp(),
+            }),
+          );
+          return true;
+        });
+      });
+      if (issued.length > 0) {
+        console.log("✅ [issueUnitSerials] Séries emitidas:", issued.length);
+        notifySerialsChanged();
+      }
+      return issued;
+    } catch (err) {
+      throw storageError("issueUnitSerials", "emitir as séries", err);
+    }
+  }
+
+  const records = readLocal();
+  const issued = serialsToIssue(order, fragmentId, records, operator);
+  if (issued.length > 0) {
+    writeLocal([
+      ...records,
+      ...issued.map((unit) => ({ ...toRecord(unit), id: unit.id })),
+    ]);
+    notifySerialsChanged();
+  }
+  return issued;
+}
+
+/** Leitura da unidade em uma etapa ou na expedição (ver `recordScan`). */
+export async function recordUnitScan(
+  serial: string,
+  stage: string,
+  operator: string,
+): Promise<UnitSerial> {
+  let updated: UnitSerial;
+
+  if (db) {
+    try {
+      updated = await runTransaction(db, async (tx) => {
+        const ref = doc(db, "unit_serials", serial);
+        const snap = await tx.get(ref);
+        if (!snap.exists()) {
+          throw new TraceabilityError(`Série ${serial} não encontrada`);
+        }
+        const next = recordScan(
+          fromRecord(snap.id, snap.data()),
+          stage,
+          operator,
+        );
+        const record = toRecord(next);
+        tx.update(ref, {
+          scans: record.scans,
+          deliveredAt: record.deliveredAt || null,
+          updated_at: serverTimestamp(),
+        });
+        return next;
+      });
+    } catch (err) {
+      if (err instanceof TraceabilityError) throw err;
+      throw storageError("recordUnitScan", "registrar a leitura", err);
+    }
+  } else {
+    const records = readLocal();
+    const stored = records.find((r) => r.id === serial);
+    if (!stored) throw new TraceabilityError(`Série ${serial} não encontrada`);
+    updated = recordScan(fromRecord(stored.id, stored), stage, operator);
+    writeLocal(
+      records.map((r) =>
+        r.id === serial ? { ...toRecord(updated), id: r.id } : r,
+      ),
+    );
+  }
+
+  console.log("✅ [recordUnitScan] Leitura registrada:", { serial, stage });
+  notifySerialsChanged({ id: serial });
+  return updated;
+}
@@ -19,6 +19,7 @@ import {
   DialogTitle,
 } from "@/components/ui/dialog";
 import {
+  AlertTriangle,
   Calendar,
   ChevronLeft,
   ChevronRight,
@@ -29,13 +30,49 @@ import {
   User,
   DollarSign,
   Split,
+  Wand2,
 } from "lucide-react";
+import { useOrdersSubscription } from "@/hooks/useOrdersSubscription";
 import { useFirebase, Order } from "@/hooks/useFirebase";
 import { useAuth } from "@/hooks/useAuth";
+import { useProducts } from "@/hooks/useProducts";
+import { useMaterials } from "@/hooks/useMaterials";
+import { useProductionConfig } from "@/hooks/useProductionConfig";
+import { useProductionIssues } from "@/hooks/useProductionIssues";
+import {
+  buildTransitionUpdates,
+  getAvailableTransitions,
+  validateTransition,
+  type StatusTransition,
+} from "@shared/orderStatus";
+import {
+  calculateRequirements,
+  findShortages,
+  type MaterialShortage,
+} from "@/lib/bom";
+import { closeStagesAtSplit, rollUpFragments } from "@/lib/fragmentStages";
+import { startFirstStage } from "@/lib/productionStages";
+import {
+  fragmentDetails,
+  generateOPNumber,
+  productBaseCode,
+} from "@/lib/opNumber";
+import { dayLoad, type DayLoad } from "@/lib/capacity";
+import {
+  applySchedule,
+  confirmsOnSchedule,
+  proposeSchedule,
+  schedulingJobs,
+  type ScheduleEntry,
+  type ScheduleProposal,
+} from "@/lib/autoSchedule";
 import { useToast } from "@/components/ui/use-toast";
 import { cn } from "@/lib/utils";
 import ProductionPanorama from "@/components/ProductionPanorama";
 import OrderSplitDialog from "@/components/OrderSplitDialog";
+import MaterialShortageDialog from "@/components/MaterialShortageDialog";
+import CapacityWarningDialog from "@/components/CapacityWarningDialog";
+import AutoScheduleDialog from "@/components/AutoScheduleDialog";
 import {
   format,
   startOfMonth,
@@ -100,66 +137,119 @@ export default function Agenda() {
   const [splitDialogOpen, setSplitDialogOpen] = useState(false);
   const [selectedOrderForSplit, setSelectedOrderForSplit] =
     useState<Order | null>(null);
-
-  const { getOrders, updateOrder } = useFirebase();
-  const { user, checkPermission } = useAuth();
+  const [shortageReview, setShortageReview] = useState<{
+    order: Order;
+    shortages: MaterialShortage[];
+    proceed: () => Promise<void>;
+  } | null>(null);
+  const [confirmingReview, setConfirmingReview] = useState(false);
+  const [capacityReview, setCapacityReview] = useState<{
+    date: Date;
+    label: string;
+    load: DayLoad;
+    proceed: () => Promise<void>;
+  } | null>(null);
+  const [confirmingCapacity, setConfirmingCapacity] = useState(false);
+  const [scheduleProposals, setScheduleProposals] =
+    useState<ScheduleProposal[]>();
+  const [applyingSchedule, setApplyingSchedule] = useState(false);
+
+  const { updateOrder } = useFirebase();
+  const { products } = useProducts();
+  const { materials, updateReservations } = useMaterials();
+  const { config: productionConfig, stages: stageDefinitions } =
+    useProductionConfig();
+  const { orders: liveOrders, loading: ordersLoading } =
+    useOrdersSubscription();
+  const { blockingByOrder } = useProductionIssues();
+  const { user } = useAuth();
   const { toast } = useToast();
 
-  useEffect(() => {
-    const load = () => {
-      loadOrders();
-    };
-
-    const handleOrdersChanged = () => {
-      loadOrders();
-    };
-
-    load();
+  const canApprove = (order: Order) =>
+    getAvailableTransitions(order, user).some((t) => t.to === "confirmed");
 
-    window.addEventListener("orders:changed", handleOrdersChanged);
+  const shortagesFor = (order: Order) =>
+    findShortages(
+      calculateRequirements(order.products || [], products),
+      materials,
+    );
 
-    return () => {
-      window.removeEventListener("orders:changed", handleOrdersChanged);
-    };
-  }, []);
+  // Confirmar o pedido reserva a matéria-prima prevista na lista de materiais
+  const confirmWithReservation = async (
+    order: Order,
+    updates: Partial<Order>,
+  ) => {
+    const requirements = calculateRequirements(order.products || [], products);
+    await updateReservations(requirements, "reserve", order.order_number);
+    try {
+      return await updateOrder(order.id, {
+        ...updates,
+        material_reservations: requirements,
+      });
+    } catch (error) {
+      await updateReservations(requirements, "release", order.order_number);
+      throw error;
+    }
+  };
 
-  // Recarregar o order quando o modal abre, para ter os fragmentos mais recentes
-  useEffect(() => {
-    if (splitDialogOpen && selectedOrderForSplit) {
-      const refreshOrder = async () => {
-        try {
-          const allOrders = await getOrders();
-          const refreshedOrder = allOrders.find(
-            (o) => o.id === selectedOrderForSplit.id,
-          );
-          if (refreshedOrder) {
-            setSelectedOrderForSplit(refreshedOrder);
-          }
-        } catch (error) {
-          console.error("Erro ao recarregar pedido:", error);
-        }
-      };
-      refreshOrder();
+  const handleConfirmShortage = async () => {
+    if (!shortageReview) return;
+    setConfirmingReview(true);
+    try {
+      await shortageReview.proceed();
+    } finally {
+      setConfirmingReview(false);
+      setShortageReview(null);
     }
-  }, [splitDialogOpen]);
+  };
 
-  const loadOrders = async () => {
+  const handleConfirmCapacity = async () => {
+    if (!capacityReview) return;
+    setConfirmingCapacity(true);
     try {
-      setLoading(true);
-      const data = await getOrders();
-      setOrders(data);
-    } catch (error) {
-      console.error("Erro ao carregar pedidos:", error);
-      toast({
-        title: "Erro",
-        description: "Não foi possível carregar os pedidos",
-        variant: "destructive",
-      });
+      await capacityReview.proceed();
     } finally {
-      setLoading(false);
+      setConfirmingCapacity(false);
+      setCapacityReview(null);
+    }
+  };
+
+  const loadFor = (date: Date, scheduled: Order[] = orders) =>
+    dayLoad(scheduled, date, productionConfig);
+
+  // Sobrecarga: pedir confirmação antes de agendar no dia
+  const withCapacityCheck = async (
+    date: Date,
+    label: string,
+    scheduled: Order[],
+    proceed: () => Promise<void>,
+  ) => {
+    const load = loadFor(date, scheduled);
+    if (load.overbooked) {
+      setCapacityReview({ date, label, load, proceed });
+      return;
     }
+    await proceed();
   };
 
+  // Pedidos em tempo real (Firestore onSnapshot / BroadcastChannel)
+  useEffect(() => {
+    setOrders(liveOrders);
+    setLoading(ordersLoading);
+  }, [liveOrders, ordersLoading]);
+
+  // Manter o pedido do modal de divisão com os fragmentos mais recentes
+  useEffect(() => {
+    if (splitDialogOpen && selectedOrderForSplit) {
+      const refreshedOrder = liveOrders.find(
+        (o) => o.id === selectedOrderForSplit.id,
+      );
+      if (refreshedOrder) {
+        setSelectedOrderForSplit(refreshedOrder);
+      }
+    }
+  }, [splitDialogOpen, liveOrders]);
+
   const monthStart = startOfMonth(currentMonth);
   const monthEnd = endOfMonth(currentMonth);
   const calendarStart = startOfWeek(monthStart, { locale: ptBR });
@@ -181,36 +271,6 @@ export default function Agenda() {
     });
   };
 
-  // Função para extrair o código base do SKU do produto
-  const getProductBaseCode = (productId: string, products: any[]): string => {
-    const product = products.find(
-      (p: any) => p.id === productId || p.product_id === productId,
-    );
-    if (product?.sku) {
-      // Extrair os primeiros 3 dígitos do SKU (ex: "100" de "100138MROM" ou "BED-100-001")
-      const digits = product.sku.match(/\d{2,3}/);
-      return digits ? digits[0] : "100";
-    }
-    return "100";
-  };
-
-  // Função para gerar número de OP: CÓDIGO_BASE + MEDIDA + COR
-  // Formato: CÓDIGO_BASE (ex: 100) + MEDIDA (ex: 138) + COR (ex: MROM)
-  // Exemplo: 100138MROM (100 = base, 138 = medida, MROM = cor)
-  const generateOPNumber = (
-    baseCode: string,
-    size: string,
-    color: string,
-  ): string => {
-    // Extrair primeiro número da medida (ex: "138x188" → "138", "138" → "138")
-    const sizeCode = size?.match(/^\d+/)?.[0] || "";
-
-    // Extrair 4 primeiras letras da cor em maiúsculo (ex: "Marrom" → "MROM")
-    const colorCode = color?.toUpperCase().substring(0, 4) || "";
-
-    return `${baseCode}${sizeCode}${colorCode}`;
-  };
-
   const getFragmentsForDate = (date: Date) => {
     const fragments: any[] = [];
     orders.forEach((order) => {
@@ -220,34 +280,11 @@ export default function Agenda() {
             try {
               const fragmentDate = parseISO(fragment.scheduled_date);
               if (isSameDay(fragmentDate, date)) {
-                // Se o fragmento tem product_id, use para encontrar o produto
-                let product = null;
-                if (fragment.product_id) {
-                  product = order.products?.find(
-                    (p: any) =>
-                      p.product_id === fragment.product_id ||
-                      p.id === fragment.product_id,
-                  );
-                }
-
-                // Se não encontrou por product_id (fragmentos antigos), use o índice do fragmento
-                // para pegar o produto correspondente (assumindo ordem)
-                if (!product && order.products && order.products.length > 0) {
-                  // Tenta usar o índice do fragmento para encontrar o produto
-                  // Em muitos casos, o primeiro fragmento corresponde ao primeiro produto, etc
-                  if (fragmentIndex < order.products.length) {
-                    product = order.products[fragmentIndex];
-                  } else {
-                    // Fallback: usa o primeiro produto
-                    product = order.products[0];
-                  }
-                }
-
-                // Priorizar dados do fragmento, depois do produto
-                const productName =
-                  fragment.product_name || product?.product_name || "";
-                const size = fragment.size || product?.size || "";
-                const color = fragment.color || product?.color || "";
+                const { product_name, size, color } = fragmentDetails(
+                  order,
+                  fragment,
+                  fragmentIndex,
+                );
 
                 fragments.push({
                   ...fragment,
@@ -255,9 +292,9 @@ export default function Agenda() {
                   order_number: order.order_number,
                   customer_name: order.customer_name,
                   priority: order.priority,
-                  product_name: productName,
-                  size: size,
-                  color: color,
+                  product_name,
+                  size,
+                  color,
                 });
               }
             } catch {
@@ -307,132 +344,235 @@ export default function Agenda() {
     e.preventDefault();
   };
 
+  const scheduleOrder = async (order: Order, date: Date, confirm: boolean) => {
+    try {
+      const updatedOrder = {
+        ...order,
+        scheduled_date: date.toISOString(),
+        status: confirm ? ("confirmed" as Order["status"]) : order.status,
+      };
+
+      if (confirm) {
+        await confirmWithReservation(order, updatedOrder);
+      } else {
+        await updateOrder(order.id, updatedOrder);
+      }
+
+      setOrders((prev) =>
+        prev.map((o) => (o.id === order.id ? updatedOrder : o)),
+      );
+
+      toast({
+        title: "Sucesso",
+        description: `Pedido ${order.order_number} agendado para ${format(date, "dd/MM/yyyy", { locale: ptBR })}`,
+      });
+    } catch (error) {
+      console.error("Erro ao agendar pedido:", error);
+      toast({
+        title: "Erro",
+        description:
+          (error as Error).message || "Não foi possível agendar o pedido",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const scheduleFragment = async (
+    order: Order,
+    updatedFragments: any[],
+    date: Date,
+  ) => {
+    try {
+      await updateOrder(order.id, {
+        fragments: updatedFragments,
+      });
+
+      setOrders((prev) =>
+        prev.map((o) =>
+          o.id === order.id ? { ...o, fragments: updatedFragments } : o,
+        ),
+      );
+
+      toast({
+        title: "Sucesso",
+        description: `Fragmento agendado para ${format(date, "dd/MM/yyyy", { locale: ptBR })}`,
+      });
+    } catch (error) {
+      console.error("Erro ao agendar fragmento:", error);
+      toast({
+        title: "Erro",
+        description: "Não foi possível agendar o fragmento",
+        variant: "destructive",
+      });
+    }
+  };
+
   const handleDrop = async (date: Date) => {
     if (draggedOrder) {
-      try {
-        const updatedOrder = {
-          ...draggedOrder,
-          scheduled_date: date.toISOString(),
-          status: "confirmed" as Order["status"],
-        };
+      const order = draggedOrder;
+      setDraggedOrder(null);
+
+      const confirm = confirmsOnSchedule(order, user);
+      const place = async () => {
+        const shortages = confirm ? shortagesFor(order) : [];
+        if (shortages.length > 0) {
+          setShortageReview({
+            order,
+            shortages,
+            proceed: () => scheduleOrder(order, date, true),
+          });
+          return;
+        }
+        await scheduleOrder(order, date, confirm);
+      };
 
-        await updateOrder(draggedOrder.id, updatedOrder);
+      await withCapacityCheck(
+        date,
+        `o pedido ${order.order_number}`,
+        orders.map((o) =>
+          o.id === order.id ? { ...o, scheduled_date: date.toISOString() } : o,
+        ),
+        place,
+      );
+    } else if (draggedFragment) {
+      const { orderId, fragment } = draggedFragment;
+      setDraggedFragment(null);
 
-        setOrders((prev) =>
-          prev.map((o) => (o.id === draggedOrder.id ? updatedOrder : o)),
-        );
+      const order = orders.find((o) => o.id === orderId);
+      if (!order || !order.fragments) return;
 
-        toast({
-          title: "Sucesso",
-          description: `Pedido ${draggedOrder.order_number} agendado para ${format(date, "dd/MM/yyyy", { locale: ptBR })}`,
-        });
-      } catch (error) {
-        console.error("Erro ao agendar pedido:", error);
-        toast({
-          title: "Erro",
-          description: "Não foi possível agendar o pedido",
-          variant: "destructive",
-        });
-      } finally {
-        setDraggedOrder(null);
-      }
-    } else if (draggedFragment) {
-      try {
-        const order = orders.find((o) => o.id === draggedFragment.orderId);
-        if (!order || !order.fragments) return;
+      const updatedFragments = order.fragments.map((f: any) =>
+        f.id === fragment.id ? { ...f, scheduled_date: date.toISOString() } : f,
+      );
 
-        const updatedFragments = order.fragments.map((f: any) =>
-          f.id === draggedFragment.fragment.id
-            ? { ...f, scheduled_date: date.toISOString() }
-            : f,
-        );
+      await withCapacityCheck(
+        date,
+        `o fragmento ${fragment.fragment_number || ""} do pedido ${order.order_number}`,
+        orders.map((o) =>
+          o.id === orderId ? { ...o, fragments: updatedFragments } : o,
+        ),
+        () => scheduleFragment(order, updatedFragments, date),
+      );
+    }
+  };
 
-        await updateOrder(draggedFragment.orderId, {
-          fragments: updatedFragments,
-        });
+  // Propõe datas para os pedidos pendentes da lista (respeitando os filtros)
+  const handleAutoSchedule = () => {
+    const jobs = schedulingJobs(getPendingOrders());
+    if (jobs.length === 0) {
+      toast({
+        title: "Nada para agendar",
+        description:
+          "Nenhum pedido pendente, aguardando aprovação ou confirmado na lista.",
+      });
+      return;
+    }
+    setScheduleProposals(
+      proposeSchedule(orders, jobs, productionConfig, { start: new Date() }),
+    );
+  };
 
-        setOrders((prev) =>
-          prev.map((o) =>
-            o.id === draggedFragment.orderId
-              ? { ...o, fragments: updatedFragments }
-              : o,
-          ),
-        );
+  const handleApplySchedule = async (entries: ScheduleEntry[]) => {
+    setApplyingSchedule(true);
+    const planned = applySchedule(orders, entries);
+    const orderIds = Array.from(new Set(entries.map((e) => e.orderId)));
+    const failed: string[] = [];
 
-        toast({
-          title: "Sucesso",
-          description: `Fragmento agendado para ${format(date, "dd/MM/yyyy", { locale: ptBR })}`,
-        });
+    for (const orderId of orderIds) {
+      const order = planned.find((o) => o.id === orderId);
+      if (!order) continue;
+      try {
+        await updateOrder(
+          orderId,
+          entries.some((e) => e.orderId === orderId && !e.fragmentId)
+            ? { scheduled_date: order.scheduled_date }
+            : { fragments: order.fragments },
+        );
+        setOrders((prev) => prev.map((o) => (o.id === orderId ? order : o)));
       } catch (error) {
-        console.error("Erro ao agendar fragmento:", error);
-        toast({
-          title: "Erro",
-          description: "Não foi possível agendar o fragmento",
-          variant: "destructive",
-        });
-      } finally {
-        setDraggedFragment(null);
+        console.error("Erro ao agendar pedido:", error);
+        failed.push(order.order_number);
       }
     }
+
+    setApplyingSchedule(false);
+    setScheduleProposals(undefined);
+    if (failed.length > 0) {
+      toast({
+        title: "Agendamento parcial",
+        description: `Não foi possível agendar: ${failed.join(", ")}`,
+        variant: "destructive",
+      });
+    } else {
+      toast({
+        title: "Sucesso",
+        description: `${entries.length} itens agendados`,
+      });
+    }
   };
 
   const handleApproveOrder = async (order: Order) => {
     console.log("🔄 Tentando aprovar pedido:", order.order_number);
 
-    if (!checkPermission("orders", "approve")) {
-      console.warn("⚠️ Usuário sem permissão para aprovar pedidos");
+    const approval = validateTransition(order, "confirmed", user);
+    if (approval.ok === false) {
+      console.warn("⚠️ Aprovação não permitida:", approval.error);
       toast({
         title: "Sem permissão",
-        description: "Você não tem permissão para aprovar pedidos",
+        description: approval.error,
         variant: "destructive",
       });
       return;
     }
 
+    // Falta de matéria-prima: avisar antes de aprovar
+    const shortages = shortagesFor(order);
+    if (shortages.length > 0) {
+      setShortageReview({
+        order,
+        shortages,
+        proceed: () => approveOrder(order, approval.transition),
+      });
+      return;
+    }
+
+    await approveOrder(order, approval.transition);
+  };
+
+  const approveOrder = async (order: Order, transition: StatusTransition) => {
     try {
       console.log(
         "✅ Permissão verificada, atualizando status para 'confirmed'",
       );
 
-      // Inicializar production_stages se não existir
-      const productionStages = order.production_stages || [
-        { stage: "cutting_sewing", status: "pending" },
-        { stage: "carpentry", status: "pending" },
-        { stage: "upholstery", status: "pending" },
-        { stage: "assembly", status: "pending" },
-        { stage: "packaging", status: "pending" },
-        { stage: "delivery", status: "pending" },
-      ];
-
-      // Iniciar a primeira etapa (Corte e Costura)
-      const updatedStages = productionStages.map((stage, index) => {
-        if (index === 0 && stage.status === "pending") {
-          return {
-            ...stage,
-            status: "in_progress" as const,
-            started_at: new Date().toISOString(),
-          };
-        }
-        return stage;
-      });
+      const confirmed = await confirmWithReservation(
+        order,
+        buildTransitionUpdates(transition) as Partial<Order>,
+      );
 
-      const updates = {
-        status: "in_production" as Order["status"], // Mudar para in_production
-        production_stages: updatedStages,
-      };
+      if (!confirmed) {
+        throw new Error("updateOrder retornou null ou undefined");
+      }
 
-      const result = await updateOrder(order.id, updates);
+      // Quem também pode produzir já inicia a produção na sequência
+      const start = validateTransition(confirmed, "in_production", user);
+      if (start.ok === true) {
+        // Etapas da configuração atual, com a primeira já iniciada
+        const updatedStages = startFirstStage(
+          confirmed.production_stages || [],
+          stageDefinitions,
+          new Date().toISOString(),
+        );
 
-      if (!result) {
-        throw new Error("updateOrder retornou null ou undefined");
+        await updateOrder(order.id, {
+          ...(buildTransitionUpdates(start.transition) as Partial<Order>),
+          production_stages: updatedStages,
+        });
       }
 
-      console.log("✅ Pedido atualizado no Firebase:", result);
+      console.log("✅ Pedido aprovado:", order.order_number);
 
-      // Não atualizar o estado localmente, o listener orders:changed fará isso
-      // setOrders((prev) =>
-      //   prev.map((o) => (o.id === order.id ? { ...o, ...updates } : o))
-      // );
+      // Não atualizar o estado localmente, a assinatura em tempo real fará isso
 
       toast({
         title: "Sucesso",
@@ -456,8 +596,19 @@ export default function Agenda() {
       const existingFragments = selectedOrderForSplit.fragments || [];
       const updatedFragments = [...existingFragments, ...fragments];
 
+      // Etapas e progresso do pedido passam a vir dos fragmentos
       const updatedOrder = await updateOrder(selectedOrderForSplit.id, {
-        fragments: updatedFragments,
+        ...rollUpFragments(
+          {
+            ...selectedOrderForSplit,
+            production_stages: closeStagesAtSplit(
+              selectedOrderForSplit.production_stages || [],
+              new Date().toISOString(),
+            ),
+            fragments: updatedFragments,
+          },
+          stageDefinitions,
+        ),
         is_fragmented: true,
       });
 
@@ -547,7 +698,18 @@ export default function Agenda() {
           {/* Pedidos Pendentes */}
           <Card className="lg:col-span-1">
             <CardHeader>
-              <CardTitle className="text-lg">Pedidos Pendentes</CardTitle>
+              <div className="flex items-center justify-between gap-2">
+                <CardTitle className="text-lg">Pedidos Pendentes</CardTitle>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={handleAutoSchedule}
+                  disabled={loading}
+                >
+                  <Wand2 className="h-4 w-4 mr-2" />
+                  Agendar automaticamente
+                </Button>
+              </div>
               <div className="space-y-2 mt-4">
                 <div className="relative">
                   <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
@@ -665,7 +827,7 @@ export default function Agenda() {
                           )}
                         </div>
                         <div className="flex gap-2 mt-2">
-                          {order.status === "pending" && (
+                          {canApprove(order) && (
                             <Button
                               size="sm"
                               className="flex-1"
@@ -750,6 +912,8 @@ export default function Agenda() {
                   const isTodayDate = isToday(day);
                   const totalItems =
                     ordersForDay.length + fragmentsForDay.length;
+                  const load = loadFor(day);
+                  const loadPercent = Math.round(load.utilization * 100);
 
                   return (
                     <div
@@ -772,21 +936,58 @@ export default function Agenda() {
                     >
                       <div
                         className={cn(
-                          "text-sm font-medium mb-1",
+                          "flex items-center justify-between text-sm font-medium mb-1",
                           isTodayDate && "text-biobox-green",
                         )}
                       >
                         {format(day, "d")}
+                        {load.units > 0 && (
+                          <span
+                            className={cn(
+                              "text-[10px] font-normal",
+                              load.overbooked
+                                ? "text-red-500"
+                                : loadPercent >= 80
+                                  ? "text-orange-500"
+                                  : "text-muted-foreground",
+                            )}
+                            title={`Carga: ${load.units}/${load.unitCapacity} unidades · ${Number.isFinite(load.utilization) ? `${loadPercent}%` : "sem capacidade"} da capacidade`}
+                          >
+                            {load.units}/{load.unitCapacity} un.
+                          </span>
+                        )}
                       </div>
+                      {load.units > 0 && (
+                        <div className="h-1 w-full rounded bg-muted overflow-hidden">
+                          <div
+                            className={cn(
+                              "h-full",
+                              load.overbooked
+                                ? "bg-red-500"
+                                : loadPercent >= 80
+                                  ? "bg-orange-500"
+                                  : "bg-biobox-green",
+                            )}
+                            style={{ width: `${Math.min(loadPercent, 100)}%` }}
+                          />
+                        </div>
+                      )}
                       <div className="mt-1 space-y-0.5">
                         {ordersForDay.slice(0, 2).map((order) => (
                           <div
                             key={order.id}
                             draggable
                             onDragStart={() => handleDragStart(order)}
-                            className="text-xs p-1 bg-biobox-green/10 border border-biobox-green/20 rounded truncate cursor-move hover:bg-biobox-green/20 transition-colors"
-                            title={`${order.order_number} - ${order.customer_name} (Arraste para mover)`}
+                            className={cn(
+                              "text-xs p-1 bg-biobox-green/10 border border-biobox-green/20 rounded truncate cursor-move hover:bg-biobox-green/20 transition-colors",
+                              blockingByOrder.has(order.id) &&
+                                "bg-red-500/10 border-red-500/40 text-red-600",
+                            )}
+                            title={`${order.order_number} - ${order.customer_name}${blockingByOrder.has(order.id) ? " (bloqueado)" : ""} (Arraste para mover)`}
                           >
+                            {blockingByOrder.has(order.id) && (
+                              <AlertTriangle className="inline h-3 w-3 mr-1" />
+                            )}
                             {order.order_number}
                           </div>
                         ))}
@@ -798,7 +999,7 @@ export default function Agenda() {
                             const displaySize = fragment.size || "—";
                             const displayColor = fragment.color || "—";
 
-                            const baseCode = getProductBaseCode(
+                            const baseCode = productBaseCode(
                               fragment.product_id,
                               orders.flatMap((o) => o.products || []),
                             );
@@ -818,9 +1019,16 @@ export default function Agenda() {
                                     fragment,
                                   );
                                 }}
-                                className="text-xs p-1 bg-orange-500/10 border border-orange-500/20 rounded truncate cursor-move hover:bg-orange-500/20 transition-colors"
+                                className={cn(
+                                  "text-xs p-1 bg-orange-500/10 border border-orange-500/20 rounded truncate cursor-move hover:bg-orange-500/20 transition-colors",
+                                  blockingByOrder.has(fragment.order_id) &&
+                                    "border-red-500/40 text-red-600",
+                                )}
                                 title={`OP: ${opNumber} | ${displayProductName}\nCliente: ${fragment.customer_name}\nPedido: ${fragment.order_number}\nQuantidade: ${fragment.quantity} unid.\nTamanho: ${displaySize} | Cor: ${displayColor}\n(Arraste para mover)`}
                               >
+                                {blockingByOrder.has(fragment.order_id) && (
+                                  <AlertTriangle className="inline h-3 w-3 mr-1" />
+                                )}
                                 <span className="font-medium">OP:</span>{" "}
                                 {opNumber}
                               </div>
@@ -867,12 +1075,27 @@ export default function Agenda() {
                           {order.customer_name}
                         </div>
                       </div>
-                      <Badge
-                        variant="outline"
-                        className={cn("text-xs", statusColors[order.status])}
-                      >
-                        {statusLabels[order.status]}
-                      </Badge>
+                      <div className="flex flex-col items-end gap-1">
+                        <Badge
+                          variant="outline"
+                          className={cn("text-xs", statusColors[order.status])}
+                        >
+                          {statusLabels[order.status]}
+                        </Badge>
+                        {blockingByOrder.has(order.id) && (
+                          <Badge
+                            variant="outline"
+                            className="text-xs bg-red-500/10 text-red-500 border-red-500/20"
+                            title={blockingByOrder
+                              .get(order.id)
+                              .map((issue) => issue.description)
+                              .join("\n")}
+                          >
+                            <AlertTriangle className="h-3 w-3 mr-1" />
+                            Bloqueado
+                          </Badge>
+                        )}
+                      </div>
                     </div>
                     <div className="space-y-1 text-sm">
                       <div className="flex items-center justify-between">
@@ -899,7 +1122,7 @@ export default function Agenda() {
 
                 {/* Fragmentos */}
                 {getFragmentsForDate(selectedDate).map((fragment) => {
-                  const baseCode = getProductBaseCode(
+                  const baseCode = productBaseCode(
                     fragment.product_id,
                     orders.flatMap((o) => o.products || []),
                   );
@@ -1007,6 +1230,39 @@ export default function Agenda() {
         onOpenChange={setSplitDialogOpen}
         onSplit={handleSplitOrder}
       />
+
+      {/* Prévia do agendamento automático */}
+      <AutoScheduleDialog
+        open={!!scheduleProposals}
+        proposals={scheduleProposals}
+        orders={orders}
+        config={productionConfig}
+        applying={applyingSchedule}
+        onApply={handleApplySchedule}
+        onCancel={() => setScheduleProposals(undefined)}
+      />
+
+      {/* Aviso de sobrecarga antes de agendar */}
+      <CapacityWarningDialog
+        open={!!capacityReview}
+        date={capacityReview?.date}
+        label={capacityReview?.label}
+        load={capacityReview?.load}
+        stages={stageDefinitions}
+        confirming={confirmingCapacity}
+        onConfirm={handleConfirmCapacity}
+        onCancel={() => setCapacityReview(null)}
+      />
+
+      {/* Aviso de falta de matéria-prima antes de confirmar */}
+      <MaterialShortageDialog
+        open={!!shortageReview}
+        orderNumber={shortageReview?.order.order_number}
+        shortages={shortageReview?.shortages || []}
+        confirming={confirmingReview}
+        onConfirm={handleConfirmShortage}
+        onCancel={() => setShortageReview(null)}
+      />
     </DashboardLayout>
   );
 }
@@ -0,0 +1,482 @@
+import { useEffect, useMemo, useState } from "react";
+import {
+  addDays,
+  differenceInMinutes,
+  eachDayOfInterval,
+  format,
+  isToday,
+  startOfDay,
+  startOfWeek,
+} from "date-fns";
+import { ptBR } from "date-fns/locale";
+import {
+  AlertTriangle,
+  ChevronLeft,
+  ChevronRight,
+  GanttChart,
+  Search,
+} from "lucide-react";
+import DashboardLayout from "@/components/DashboardLayout";
+import CapacityWarningDialog from "@/components/CapacityWarningDialog";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { useToast } from "@/components/ui/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { useFirebase } from "@/hooks/useFirebase";
+import { useOrdersSubscription } from "@/hooks/useOrdersSubscription";
+import { useProductionConfig } from "@/hooks/useProductionConfig";
+import { applySchedule } from "@/lib/autoSchedule";
+import { dayLoad, type DayLoad } from "@/lib/capacity";
+import { ganttRows, type GanttBar, type GanttRow } from "@/lib/gantt";
+import { cn } from "@/lib/utils";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const ROW_HEIGHT = 44;
+
+const dayWidthFor = (days: number) => (days <= 7 ? 140 : days <= 14 ? 80 : 44);
+
+const barColor = (bar: GanttBar) => {
+  if (bar.skipped) return "bg-muted-foreground/30";
+  if (bar.delayed) return "bg-red-500";
+  if (bar.status === "completed") return "bg-green-500";
+  return "bg-blue-500";
+};
+
+const formatTime = (date?: Date) =>
+  date ? format(date, "dd/MM HH:mm", { locale: ptBR }) : "—";
+
+export default function Gantt() {
+  const [windowStart, setWindowStart] = useState(() =>
+    startOfWeek(new Date(), { locale: ptBR }),
+  );
+  const [days, setDays] = useState(14);
+  const [searchTerm, setSearchTerm] = useState("");
+  const [onlyDelayed, setOnlyDelayed] = useState(false);
+  const [now, setNow] = useState(() => new Date());
+  const [drag, setDrag] = useState<{
+    key: string;
+    originX: number;
+    dx: number;
+  } | null>(null);
+  const [capacityReview, setCapacityReview] = useState<{
+    date: Date;
+    label: string;
+    load: DayLoad;
+    proceed: () => Promise<void>;
+  } | null>(null);
+  const [confirmingCapacity, setConfirmingCapacity] = useState(false);
+
+  const { orders, loading } = useOrdersSubscription();
+  const { updateOrder } = useFirebase();
+  const { config, stages } = useProductionConfig();
+  const { checkPermission } = useAuth();
+  const { toast } = useToast();
+
+  const canReschedule = checkPermission("orders", "approve");
+  const dayWidth = dayWidthFor(days);
+  const windowEnd = addDays(windowStart, days);
+  const workingDays = config.preferences.workingHours.workingDays;
+
+  // Marcador de "agora" e barras em andamento acompanham o relógio
+  useEffect(() => {
+    const timer = setInterval(() => setNow(new Date()), 60_000);
+    return () => clearInterval(timer);
+  }, []);
+
+  const rows = useMemo(() => {
+    const term = searchTerm.toLowerCase();
+    return ganttRows(orders, config, now).filter((row) => {
+      const lastEnd = Math.max(
+        row.plannedEnd.getTime(),
+        ...row.bars.map((bar) => bar.actualEnd?.getTime() || 0),
+      );
+      if (row.scheduledDate >= windowEnd || lastEnd < windowStart.getTime()) {
+        return false;
+      }
+      if (onlyDelayed && !row.delayed) return false;
+      return (
+        !term ||
+        row.label.toLowerCase().includes(term) ||
+        row.customerName?.toLowerCase().includes(term)
+      );
+    });
+  }, [orders, config, now, searchTerm, onlyDelayed, windowStart, days]);
+
+  const x = (date: Date) =>
+    ((date.getTime() - windowStart.getTime()) / DAY_MS) * dayWidth;
+
+  const span = (start: Date, end: Date) => {
+    const left = Math.max(0, x(start));
+    const right = Math.min(days * dayWidth, x(end));
+    return right > left ? { left, width: Math.max(2, right - left) } : null;
+  };
+
+  const stageName = (stageId: string) =>
+    stages.find((s) => s.id === stageId)?.name || stageId;
+
+  const reschedule = async (row: GanttRow, date: Date) => {
+    const planned = applySchedule(orders, [
+      { orderId: row.orderId, fragmentId: row.fragmentId, date },
+    ]);
+    const updated = planned.find((o) => o.id === row.orderId);
+    if (!updated) return;
+
+    const proceed = async () => {
+      try {
+        await updateOrder(
+          row.orderId,
+          row.fragmentId
+            ? { fragments: updated.fragments }
+            : { scheduled_date: updated.scheduled_date },
+        );
+        toast({
+          title: "Sucesso",
+          description: `${row.label} reagendado para ${format(date, "dd/MM/yyyy", { locale: ptBR })}`,
+        });
+      } catch (error) {
+        console.error("Erro ao reagendar:", error);
+        toast({
+          title: "Erro",
+          description: (error as Error).message || "Não foi possível reagendar",
+          variant: "destructive",
+        });
+      }
+    };
+
+    const load = dayLoad(planned, date, config);
+    if (load.overbooked) {
+      setCapacityReview({
+        date,
+        label: `o pedido ${row.label}`,
+        load,
+        proceed,
+      });
+      return;
+    }
+    await proceed();
+  };
+
+  const handleConfirmCapacity = async () => {
+    if (!capacityReview) return;
+    setConfirmingCapacity(true);
+    try {
+      await capacityReview.proceed();
+    } finally {
+      setConfirmingCapacity(false);
+      setCapacityReview(null);
+    }
+  };
+
+  // Arrastar a linha na horizontal muda a data agendada, em dias inteiros
+  const handlePointerUp = (row: GanttRow) => {
+    if (!drag || drag.key !== row.key) return;
+    const offset = Math.round(drag.dx / dayWidth);
+    setDrag(null);
+    if (offset !== 0) {
+      reschedule(row, addDays(startOfDay(row.scheduledDate), offset));
+    }
+  };
+
+  const calendarDays = eachDayOfInterval({
+    start: windowStart,
+    end: addDays(windowEnd, -1),
+  });
+  const nowX = x(now);
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        {/* Header */}
+        <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-foreground flex items-center gap-2">
+              <GanttChart className="h-6 w-6" />
+              Gantt de Produção
+            </h1>
+            <p className="text-muted-foreground">
+              Etapas previstas e realizadas de cada pedido
+              {canReschedule && " — arraste uma linha para reagendar"}
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={() => setWindowStart((prev) => addDays(prev, -7))}
+            >
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <Button
+              variant="outline"
+              onClick={() =>
+                setWindowStart(startOfWeek(new Date(), { locale: ptBR }))
+              }
+            >
+              Hoje
+            </Button>
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={() => setWindowStart((prev) => addDays(prev, 7))}
+            >
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+            <Select
+              value={String(days)}
+              onValueChange={(value) => setDays(Number(value))}
+            >
+              <SelectTrigger className="w-32">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="7">1 semana</SelectItem>
+                <SelectItem value="14">2 semanas</SelectItem>
+                <SelectItem value="28">4 semanas</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+
+        {/* Filtros */}
+        <div className="flex flex-col gap-4 sm:flex-row sm:items-center">
+          <div className="relative flex-1">
+            <Search className="absolute left-2 top-2.5 h-4 w-4 text-muted-foreground" />
+            <Input
+              placeholder="Buscar pedido ou cliente..."
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              className="pl-8"
+            />
+          </div>
+          <label className="flex items-center gap-2 text-sm">
+            <Switch checked={onlyDelayed} onCheckedChange={setOnlyDelayed} />
+            Somente atrasados
+          </label>
+          <div className="flex items-center gap-3 text-xs text-muted-foreground">
+            <span className="flex items-center gap-1">
+              <span className="h-2 w-4 rounded-sm border border-dashed border-muted-foreground bg-muted" />
+              Previsto
+            </span>
+            <span className="flex items-center gap-1">
+              <span className="h-2 w-4 rounded-sm bg-blue-500" />
+              Em andamento
+            </span>
+            <span className="flex items-center gap-1">
+              <span className="h-2 w-4 rounded-sm bg-green-500" />
+              Concluído
+            </span>
+            <span className="flex items-center gap-1">
+              <span className="h-2 w-4 rounded-sm bg-red-500" />
+              Atrasado
+            </span>
+          </div>
+        </div>
+
+        <Card>
+          <CardContent className="p-0">
+            {loading ? (
+              <p className="text-sm text-muted-foreground text-center py-8">
+                Carregando...
+              </p>
+            ) : (
+              <div className="flex">
+                {/* Pedidos */}
+                <div className="w-56 shrink-0 border-r border-border">
+                  <div className="h-10 border-b border-border px-3 flex items-center text-xs font-medium text-muted-foreground">
+                    Pedido
+                  </div>
+                  {rows.map((row) => (
+                    <div
+                      key={row.key}
+                      className="border-b border-border px-3 flex flex-col justify-center"
+                      style={{ height: ROW_HEIGHT }}
+                    >
+                      <div className="flex items-center gap-1 text-sm font-medium truncate">
+                        {row.delayed && (
+                          <AlertTriangle className="h-3 w-3 shrink-0 text-red-500" />
+                        )}
+                        {row.label}
+                      </div>
+                      <div className="text-xs text-muted-foreground truncate">
+                        {row.customerName}
+                        {row.deliveryDate &&
+                          ` • entrega ${format(row.deliveryDate, "dd/MM")}`}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+
+                {/* Linha do tempo */}
+                <div className="flex-1 overflow-x-auto">
+                  <div className="relative" style={{ width: days * dayWidth }}>
+                    <div className="flex h-10 border-b border-border">
+                      {calendarDays.map((day) => (
+                        <div
+                          key={day.toISOString()}
+                          className={cn(
+                            "shrink-0 border-r border-border text-center text-xs flex flex-col justify-center",
+                            !workingDays.includes(day.getDay()) &&
+                              "bg-muted/40",
+                            isToday(day) && "font-bold text-primary",
+                          )}
+                          style={{ width: dayWidth }}
+                        >
+                          <span>{format(day, "EEE", { locale: ptBR })}</span>
+                          <span>{format(day, "dd/MM")}</span>
+                        </div>
+                      ))}
+                    </div>
+
+                    {/* Dias sem produção sombreados */}
+                    <div className="absolute inset-x-0 top-10 bottom-0 flex pointer-events-none">
+                      {calendarDays.map((day) => (
+                        <div
+                          key={day.toISOString()}
+                          className={cn(
+                            "shrink-0 border-r border-border/50",
+                            !workingDays.includes(day.getDay()) &&
+                              "bg-muted/40",
+                          )}
+                          style={{ width: dayWidth }}
+                        />
+                      ))}
+                    </div>
+
+                    {rows.map((row) => {
+                      const dragging = drag?.key === row.key;
+                      const movable = canReschedule && row.movable;
+                      return (
+                        <div
+                          key={row.key}
+                          className="relative border-b border-border"
+                          style={{ height: ROW_HEIGHT }}
+                        >
+                          <div
+                            className={cn(
+                              "absolute inset-0",
+                              movable && "cursor-grab",
+                              dragging && "cursor-grabbing opacity-80",
+                            )}
+                            style={{
+                              transform: dragging
+                                ? `translateX(${drag.dx}px)`
+                                : undefined,
+                            }}
+                            onPointerDown={(e) => {
+                              if (!movable) return;
+                              e.currentTarget.setPointerCapture(e.pointerId);
+                              setDrag({
+                                key: row.key,
+                                originX: e.clientX,
+                                dx: 0,
+                              });
+                            }}
+                            onPointerMove={(e) => {
+                              if (!dragging) return;
+                              setDrag({
+                                ...drag,
+                                dx: e.clientX - drag.originX,
+                              });
+                            }}
+                            onPointerUp={() => handlePointerUp(row)}
+                            onPointerCancel={() => setDrag(null)}
+                          >
+                            {row.bars.map((bar) => {
+                              const planned = span(
+                                bar.plannedStart,
+                                bar.plannedEnd,
+                              );
+                              const actual =
+                                bar.actualStart &&
+                                bar.actualEnd &&
+                                span(bar.actualStart, bar.actualEnd);
+                              const title = [
+                                stageName(bar.stageId),
+                                `Previsto: ${formatTime(bar.plannedStart)} – ${formatTime(bar.plannedEnd)}`,
+                                bar.actualStart &&
+                                  `Realizado: ${formatTime(bar.actualStart)} – ${bar.status === "completed" ? formatTime(bar.actualEnd) : "em andamento"}`,
+                                bar.skipped && "Dispensada",
+                                bar.delayed && "Atrasada",
+                              ]
+                                .filter(Boolean)
+                                .join("\n");
+
+                              return (
+                                <div key={bar.stageId} title={title}>
+                                  {planned && (
+                                    <div
+                                      className={cn(
+                                        "absolute top-2 h-3 rounded-sm border border-dashed border-muted-foreground bg-muted text-[10px] leading-3 px-1 overflow-hidden whitespace-nowrap",
+                                        bar.delayed &&
+                                          bar.status !== "completed" &&
+                                          "border-red-500 bg-red-500/10",
+                                      )}
+                                      style={planned}
+                                    >
+                                      {differenceInMinutes(
+                                        bar.plannedEnd,
+                                        bar.plannedStart,
+                                      ) > 0 && stageName(bar.stageId)}
+                                    </div>
+                                  )}
+                                  {actual && (
+                                    <div
+                                      className={cn(
+                                        "absolute top-6 h-3 rounded-sm",
+                                        barColor(bar),
+                                      )}
+                                      style={actual}
+                                    />
+                                  )}
+                                </div>
+                              );
+                            })}
+                          </div>
+                        </div>
+                      );
+                    })}
+
+                    {/* Agora */}
+                    {nowX >= 0 && nowX <= days * dayWidth && (
+                      <div
+                        className="absolute top-0 bottom-0 w-px bg-red-500 pointer-events-none"
+                        style={{ left: nowX }}
+                      />
+                    )}
+                  </div>
+                </div>
+              </div>
+            )}
+
+            {!loading && rows.length === 0 && (
+              <p className="text-sm text-muted-foreground text-center py-8">
+                Nenhum pedido agendado neste período
+              </p>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Aviso de sobrecarga antes de reagendar */}
+      <CapacityWarningDialog
+        open={!!capacityReview}
+        date={capacityReview?.date}
+        label={capacityReview?.label}
+        load={capacityReview?.load}
+        stages={stages}
+        confirming={confirmingCapacity}
+        onConfirm={handleConfirmCapacity}
+        onCancel={() => setCapacityReview(null)}
+      />
+    </DashboardLayout>
+  );
+}
@@ -0,0 +1,477 @@
+import { useMemo, useState } from "react";
+import { format, subDays } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import {
+  AlertTriangle,
+  CheckCircle,
+  Clock,
+  Loader2,
+  Search,
+  ShieldAlert,
+} from "lucide-react";
+import DashboardLayout from "@/components/DashboardLayout";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useToast } from "@/components/ui/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { useProductionConfig } from "@/hooks/useProductionConfig";
+import { useProductionIssues } from "@/hooks/useProductionIssues";
+import {
+  canMoveIssue,
+  isBlockingIssue,
+  issueReport,
+  resolutionHours,
+} from "@/lib/issueTracking";
+import { cn } from "@/lib/utils";
+import {
+  issueSeverityColors,
+  issueSeverityLabels,
+  issueStatusLabels,
+  issueTypeLabels,
+  type ProductionIssue,
+} from "@/types/production";
+
+const statusColors: Record<ProductionIssue["status"], string> = {
+  open: "bg-orange-500/10 text-orange-500 border-orange-500/20",
+  investigating: "bg-blue-500/10 text-blue-500 border-blue-500/20",
+  resolved: "bg-biobox-green/10 text-biobox-green border-biobox-green/20",
+};
+
+// Janela do relatório; "all" considera todo o histórico
+const PERIODS = [
+  { value: "30", label: "Últimos 30 dias" },
+  { value: "90", label: "Últimos 90 dias" },
+  { value: "all", label: "Todo o período" },
+];
+
+const formatDate = (date?: Date) =>
+  date ? format(date, "dd/MM/yyyy HH:mm", { locale: ptBR }) : "-";
+
+const formatHours = (hours: number | null) => {
+  if (hours == null) return "-";
+  if (hours < 1) return `${Math.round(hours * 60)} min`;
+  if (hours < 48) return `${hours.toFixed(1).replace(".", ",")} h`;
+  return `${(hours / 24).toFixed(1).replace(".", ",")} dias`;
+};
+
+export default function Issues() {
+  const [statusFilter, setStatusFilter] = useState<
+    "unresolved" | "all" | ProductionIssue["status"]
+  >("unresolved");
+  const [typeFilter, setTypeFilter] = useState<"all" | ProductionIssue["type"]>(
+    "all",
+  );
+  const [search, setSearch] = useState("");
+  const [period, setPeriod] = useState("30");
+  const [resolving, setResolving] = useState<ProductionIssue | null>(null);
+  const [resolution, setResolution] = useState("");
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const { stages } = useProductionConfig();
+  const { issues, loading, updateIssueStatus } = useProductionIssues();
+
+  // Triagem e resolução ficam com os administradores
+  const isAdmin = user?.role === "admin";
+
+  const report = useMemo(
+    () =>
+      issueReport(
+        issues,
+        period === "all" ? undefined : subDays(new Date(), Number(period)),
+      ),
+    [issues, period],
+  );
+
+  const term = search.trim().toLowerCase();
+  const filteredIssues = issues.filter(
+    (issue) =>
+      (statusFilter === "all" ||
+        (statusFilter === "unresolved"
+          ? issue.status !== "resolved"
+          : issue.status === statusFilter)) &&
+      (typeFilter === "all" || issue.type === typeFilter) &&
+      (!term ||
+        issue.orderNumber?.toLowerCase().includes(term) ||
+        issue.description.toLowerCase().includes(term) ||
+        issue.reportedBy.toLowerCase().includes(term)),
+  );
+
+  const stageName = (stageId?: string) =>
+    stageId
+      ? stages.find((s) => s.id === stageId)?.name || stageId
+      : "Pedido inteiro";
+
+  const handleMove = async (
+    issue: ProductionIssue,
+    to: ProductionIssue["status"],
+    text?: string,
+  ) => {
+    setBusyId(issue.id);
+    try {
+      await updateIssueStatus(issue.id, to, text);
+      toast({
+        title: `Problema ${issueStatusLabels[to].toLowerCase()}`,
+        description: issue.orderNumber
+          ? `Pedido ${issue.orderNumber}`
+          : issue.description,
+      });
+      setResolving(null);
+    } catch (error) {
+      toast({
+        title: "Não foi possível atualizar o problema",
+        description: (error as Error).message || "Tente novamente",
+        variant: "destructive",
+      });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-2xl font-bold text-foreground">
+            Problemas de Produção
+          </h1>
+          <p className="text-muted-foreground">
+            Ocorrências reportadas nas etapas dos pedidos
+          </p>
+        </div>
+
+        {/* Statistics Cards */}
+        <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+          {[
+            {
+              label: "Em Aberto",
+              value: issues.filter((issue) => issue.status !== "resolved")
+                .length,
+              icon: AlertTriangle,
+              color: "text-orange-500",
+            },
+            {
+              label: "Bloqueando Produção",
+              value: issues.filter(isBlockingIssue).length,
+              icon: ShieldAlert,
+              color: "text-red-500",
+            },
+            {
+              label: "Resolvidos no Período",
+              value: report.total - report.open,
+              icon: CheckCircle,
+              color: "text-biobox-green",
+            },
+            {
+              label: "Tempo Médio de Resolução",
+              value: formatHours(report.averageResolutionHours),
+              icon: Clock,
+              color: "text-blue-500",
+            },
+          ].map(({ label, value, icon: Icon, color }) => (
+            <Card key={label} className="bg-card border-border">
+              <CardContent className="p-6">
+                <div className="flex items-center">
+                  <Icon className={`h-8 w-8 ${color}`} />
+                  <div className="ml-4">
+                    <p className="text-sm font-medium text-muted-foreground">
+                      {label}
+                    </p>
+                    <p className="text-2xl font-bold text-foreground">
+                      {value}
+                    </p>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+
+        {/* Relatório por tipo */}
+        <Card className="bg-card border-border">
+          <CardHeader>
+            <div className="flex items-center justify-between gap-4">
+              <CardTitle className="text-lg">Problemas por Tipo</CardTitle>
+              <Select value={period} onValueChange={setPeriod}>
+                <SelectTrigger className="w-48">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {PERIODS.map(({ value, label }) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {report.byType.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                Nenhum problema reportado no período.
+              </p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Tipo</TableHead>
+                    <TableHead className="text-right">Total</TableHead>
+                    <TableHead className="text-right">Em aberto</TableHead>
+                    <TableHead className="text-right">Resolvidos</TableHead>
+                    <TableHead className="text-right">Tempo médio</TableHead>
+                    <TableHead className="text-right">Maior tempo</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {report.byType.map((row) => (
+                    <TableRow key={row.type}>
+                      <TableCell className="font-medium">{row.label}</TableCell>
+                      <TableCell className="text-right">{row.total}</TableCell>
+                      <TableCell className="text-right">{row.open}</TableCell>
+                      <TableCell className="text-right">
+                        {row.resolved}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {formatHours(row.averageResolutionHours)}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {formatHours(row.maxResolutionHours)}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Lista de problemas */}
+        <div className="space-y-4">
+          <div className="flex flex-col gap-3 md:flex-row md:items-center">
+            <Tabs
+              value={statusFilter}
+              onValueChange={(value) =>
+                setStatusFilter(value as typeof statusFilter)
+              }
+            >
+              <TabsList>
+                <TabsTrigger value="unresolved">Pendentes</TabsTrigger>
+                <TabsTrigger value="open">Abertos</TabsTrigger>
+                <TabsTrigger value="investigating">Em análise</TabsTrigger>
+                <TabsTrigger value="resolved">Resolvidos</TabsTrigger>
+                <TabsTrigger value="all">Todos</TabsTrigger>
+              </TabsList>
+            </Tabs>
+            <Select
+              value={typeFilter}
+              onValueChange={(value) =>
+                setTypeFilter(value as typeof typeFilter)
+              }
+            >
+              <SelectTrigger className="w-44">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Todos os tipos</SelectItem>
+                {Object.entries(issueTypeLabels).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>
+                    {label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <div className="relative md:w-72">
+              <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+              <Input
+                placeholder="Pedido, descrição ou responsável"
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                className="pl-10"
+              />
+            </div>
+          </div>
+
+          {loading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-biobox-green" />
+            </div>
+          ) : filteredIssues.length === 0 ? (
+            <p className="text-sm text-muted-foreground py-4">
+              Nenhum problema nesta situação.
+            </p>
+          ) : (
+            filteredIssues.map((issue) => {
+              const busy = busyId === issue.id;
+              return (
+                <Card
+                  key={issue.id}
+                  className={cn(
+                    "bg-card border-border",
+                    isBlockingIssue(issue) && "border-red-500/50",
+                  )}
+                >
+                  <CardContent className="p-4 space-y-2">
+                    <div className="flex flex-col gap-2 sm:flex-row sm:items-start sm:justify-between">
+                      <div className="space-y-1">
+                        <div className="flex flex-wrap items-center gap-2">
+                          <span className="font-semibold">
+                            {issue.orderNumber || "Sem pedido"}
+                          </span>
+                          <span className="text-sm text-muted-foreground">
+                            · {stageName(issue.stage)}
+                          </span>
+                          <Badge variant="outline">
+                            {issueTypeLabels[issue.type]}
+                          </Badge>
+                          <Badge
+                            variant="outline"
+                            className={issueSeverityColors[issue.severity]}
+                          >
+                            {issueSeverityLabels[issue.severity]}
+                          </Badge>
+                          <Badge
+                            variant="outline"
+                            className={statusColors[issue.status]}
+                          >
+                            {issueStatusLabels[issue.status]}
+                          </Badge>
+                          {isBlockingIssue(issue) && (
+                            <Badge
+                              variant="outline"
+                              className="bg-red-500/10 text-red-500 border-red-500/20"
+                            >
+                              <ShieldAlert className="h-3 w-3 mr-1" />
+                              Bloqueante
+                            </Badge>
+                          )}
+                        </div>
+                        <p className="text-sm whitespace-pre-line">
+                          {issue.description}
+                        </p>
+                        <p className="text-xs text-muted-foreground">
+                          Reportado por {issue.reportedBy || "-"} em{" "}
+                          {formatDate(issue.reportedAt)}
+                        </p>
+                        {issue.status === "resolved" && (
+                          <p className="text-xs text-biobox-green">
+                            Resolvido em {formatDate(issue.resolvedAt)} (
+                            {formatHours(resolutionHours(issue))}):{" "}
+                            {issue.resolution}
+                          </p>
+                        )}
+                      </div>
+                      {isAdmin && (
+                        <div className="flex gap-2 shrink-0">
+                          {canMoveIssue(issue, "investigating") && (
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              disabled={busy}
+                              onClick={() => handleMove(issue, "investigating")}
+                            >
+                              Em análise
+                            </Button>
+                          )}
+                          {canMoveIssue(issue, "resolved") && (
+                            <Button
+                              size="sm"
+                              className="bg-biobox-green hover:bg-biobox-green-dark"
+                              disabled={busy}
+                              onClick={() => {
+                                setResolution("");
+                                setResolving(issue);
+                              }}
+                            >
+                              <CheckCircle className="h-4 w-4 mr-1" />
+                              Resolver
+                            </Button>
+                          )}
+                          {canMoveIssue(issue, "open") && (
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              disabled={busy}
+                              onClick={() => handleMove(issue, "open")}
+                            >
+                              Reabrir
+                            </Button>
+                          )}
+                        </div>
+                      )}
+                    </div>
+                  </CardContent>
+                </Card>
+              );
+            })
+          )}
+        </div>
+
+        <Dialog
+          open={!!resolving}
+          onOpenChange={(open) => !open && setResolving(null)}
+        >
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>Resolver problema</DialogTitle>
+              <DialogDescription>
+                {resolving?.orderNumber} · {stageName(resolving?.stage)}
+                {resolving?.blocking && " · a etapa volta a ser liberada"}
+              </DialogDescription>
+            </DialogHeader>
+            <div>
+              <Label>Solução</Label>
+              <Textarea
+                value={resolution}
+                onChange={(e) => setResolution(e.target.value)}
+                placeholder="O que foi feito para resolver?"
+                rows={3}
+              />
+            </div>
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setResolving(null)}>
+                Cancelar
+              </Button>
+              <Button
+                className="bg-biobox-green hover:bg-biobox-green-dark"
+                disabled={!resolution.trim() || busyId === resolving?.id}
+                onClick={() => handleMove(resolving, "resolved", resolution)}
+              >
+                Resolver
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      </div>
+    </DashboardLayout>
+  );
+}
@@ -0,0 +1,657 @@
+import { useEffect, useRef, useState } from "react";
+import {
+  AlertTriangle,
+  CheckCircle,
+  Delete,
+  LogOut,
+  Pause,
+  Play,
+  ScanLine,
+  User,
+} from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import ReportIssueDialog from "@/components/ReportIssueDialog";
+import { useToast } from "@/components/ui/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import {
+  useFirebase,
+  type Order,
+  type OrderFragment,
+} from "@/hooks/useFirebase";
+import { useOrdersSubscription } from "@/hooks/useOrdersSubscription";
+import { useProductionConfig } from "@/hooks/useProductionConfig";
+import { useProductionIssues } from "@/hooks/useProductionIssues";
+import { useUnitSerials } from "@/hooks/useUnitSerials";
+import { blockingIssuesForStage } from "@/lib/issueTracking";
+import { fragmentStages, updateFragmentStage } from "@/lib/fragmentStages";
+import { fragmentDetails, findByCode } from "@/lib/opNumber";
+import { verifyPin } from "@/lib/operatorPin";
+import {
+  availableStageActions,
+  currentStage,
+  stageActionUpdates,
+  syncOrderStages,
+  updateOrderStage,
+  type StageAction,
+} from "@/lib/productionStages";
+import { findSerial } from "@/lib/traceability";
+import { cn } from "@/lib/utils";
+import {
+  finishedProductionStatus,
+  validateTransition,
+} from "@shared/orderStatus";
+import type { Operator } from "@/types/production";
+
+// Pedidos que o chão de fábrica pode movimentar
+const KIOSK_STATUSES: Order["status"][] = ["confirmed", "in_production"];
+
+// Sem toque por esse tempo, o operador sai do quiosque
+const IDLE_TIMEOUT_MS = 2 * 60 * 1000;
+
+const actionLabels: Record<StageAction, string> = {
+  start: "Iniciar",
+  pause: "Pausar",
+  resume: "Retomar",
+  complete: "Concluir",
+};
+
+const actionIcons: Record<StageAction, typeof Play> = {
+  start: Play,
+  pause: Pause,
+  resume: Play,
+  complete: CheckCircle,
+};
+
+const actionColors: Record<StageAction, string> = {
+  start: "bg-blue-600 hover:bg-blue-700",
+  pause: "bg-orange-500 hover:bg-orange-600",
+  resume: "bg-blue-600 hover:bg-blue-700",
+  complete: "bg-green-600 hover:bg-green-700",
+};
+
+const stageStatusColors = {
+  pending: "bg-gray-500/10 text-gray-600 border-gray-500/20",
+  in_progress: "bg-blue-500/10 text-blue-600 border-blue-500/20",
+  completed: "bg-green-500/10 text-green-600 border-green-500/20",
+};
+
+interface Selection {
+  orderId: string;
+  fragmentId?: string;
+  /** Número de série lido: a etapa também fica registrada na unidade */
+  serial?: string;
+}
+
+export default function Kiosk() {
+  const [operator, setOperator] = useState<Operator | null>(null);
+  const [pinOperator, setPinOperator] = useState<Operator | null>(null);
+  const [pin, setPin] = useState("");
+  const [code, setCode] = useState("");
+  const [matches, setMatches] = useState<Selection[]>([]);
+  const [selection, setSelection] = useState<Selection | null>(null);
+  const [working, setWorking] = useState(false);
+  const [reportingIssue, setReportingIssue] = useState(false);
+  const [lastActivity, setLastActivity] = useState(() => Date.now());
+  const scanRef = useRef<HTMLInputElement>(null);
+
+  const { user } = useAuth();
+  const { orders } = useOrdersSubscription();
+  const { updateOrder } = useFirebase();
+  const { operators, stages } = useProductionConfig();
+  const { blockingByOrder } = useProductionIssues();
+  const { serials, issueSerials, scanUnit } = useUnitSerials();
+  const { toast } = useToast();
+
+  const badgeOperators = operators.filter(
+    (o) => o.pinHash && o.status !== "absent",
+  );
+  const kioskOrders = orders.filter((o) => KIOSK_STATUSES.includes(o.status));
+
+  const logout = () => {
+    setOperator(null);
+    setPinOperator(null);
+    setPin("");
+    setCode("");
+    setMatches([]);
+    setSelection(null);
+  };
+
+  useEffect(() => {
+    if (!operator) return;
+    const timer = setTimeout(logout, IDLE_TIMEOUT_MS);
+    return () => clearTimeout(timer);
+  }, [operator, lastActivity]);
+
+  // Leitor de código de barras digita no campo e envia Enter
+  useEffect(() => {
+    if (operator && !selection) scanRef.current?.focus();
+  }, [operator, selection, matches]);
+
+  // Entra assim que o PIN confere; "Entrar" avisa quando não confere
+  const submitPin = async (value: string, explicit: boolean) => {
+    if (!pinOperator) return;
+    if (await verifyPin(pinOperator, value)) {
+      setOperator(pinOperator);
+      setPinOperator(null);
+      setPin("");
+    } else if (explicit || value.length === 6) {
+      toast({
+        title: "PIN incorreto",
+        description: "Confira o PIN do crachá e tente de novo.",
+        variant: "destructive",
+      });
+      setPin("");
+    }
+  };
+
+  const handlePinDigit = (digit: string) => {
+    const next = (pin + digit).slice(0, 6);
+    setPin(next);
+    if (next.length >= 4) submitPin(next, false);
+  };
+
+  const handleScan = () => {
+    const unit = findSerial(serials, code);
+    if (unit && kioskOrders.some((o) => o.id === unit.orderId)) {
+      const found = {
+        orderId: unit.orderId,
+        fragmentId: unit.fragmentId,
+        serial: unit.id,
+      };
+      setCode("");
+      setMatches([found]);
+      setSelection(found);
+      return;
+    }
+
+    const found = findByCode(kioskOrders, code).map((match) => ({
+      orderId: match.order.id,
+      fragmentId: match.fragment?.id,
+    }));
+    setCode("");
+    if (found.length === 0) {
+      toast({
+        title: "Nada encontrado",
+        description: `Nenhum pedido em produção com o código ${code.trim()}.`,
+        variant: "destructive",
+      });
+      return;
+    }
+    setMatches(found);
+    setSelection(found.length === 1 ? found[0] : null);
+  };
+
+  const describe = ({ orderId, fragmentId, serial }: Selection) => {
+    const order = orders.find((o) => o.id === orderId);
+    if (!order) return null;
+    const index = (order.fragments || []).findIndex((f) => f.id === fragmentId);
+    const fragment = index >= 0 ? order.fragments[index] : undefined;
+    const details = fragment
+      ? fragmentDetails(order, fragment, index)
+      : order.products?.[0];
+    return {
+      order,
+      fragment,
+      title: serial
+        ? `Unidade ${serial}`
+        : fragment
+          ? `${order.order_number} · Fragmento ${fragment.fragment_number}`
+          : order.order_number,
+      product: [details?.product_name, details?.size, details?.color]
+        .filter(Boolean)
+        .join(" · "),
+      quantity: fragment
+        ? fragment.quantity
+        : order.products?.reduce((sum, p) => sum + (p.quantity || 0), 0),
+    };
+  };
+
+  // OP de fragmento aponta nas etapas do fragmento
+  const stagesOf = (order: Order, fragment?: OrderFragment) =>
+    fragment
+      ? fragmentStages(fragment, order.production_stages || [], stages)
+      : syncOrderStages(order.production_stages || [], stages);
+
+  // Séries saem quando o fragmento (ou pedido) entra em produção; a unidade
+  // lida registra a etapa. Falhas aqui não desfazem o apontamento.
+  const traceUnits = async (
+    order: Order,
+    action: StageAction,
+    stage: string,
+    fragment?: OrderFragment,
+  ) => {
+    try {
+      if (action === "start") {
+        await issueSerials(order, fragment?.id, operator.name);
+      }
+      if (selection?.serial) {
+        await scanUnit(selection.serial, stage, operator.name);
+      }
+    } catch (error) {
+      console.error("Erro ao registrar a unidade no quiosque:", error);
+      toast({
+        title: "Unidade não registrada",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleAction = async (
+    order: Order,
+    action: StageAction,
+    fragment?: OrderFragment,
+  ) => {
+    const entry = currentStage(stagesOf(order, fragment));
+    if (!entry || !operator) return;
+
+    setWorking(true);
+    try {
+      const now = new Date().toISOString();
+      const updates = stageActionUpdates(
+        action,
+        entry,
+        operator.name,
+        now,
+        operator.id,
+      );
+      // O pedido fragmentado é recalculado a partir dos fragmentos
+      const fragmentUpdates = fragment
+        ? updateFragmentStage(order, fragment.id, stages, entry.stage, updates)
+        : null;
+      const updatedStages =
+        fragmentUpdates?.production_stages ??
+        updateOrderStage(
+          order.production_stages || [],
+          stages,
+          entry.stage,
+          updates,
+        );
+
+      // Status só acompanha as etapas quando o fluxo permite a transição;
+      // retrabalho de reprovação volta ao CQ em vez de ficar pronto
+      const targetStatus: Order["status"] = updatedStages.every(
+        (stage) => stage.status === "completed",
+      )
+        ? finishedProductionStatus(order)
+        : "in_production";
+      const canMove =
+        order.status !== targetStatus &&
+        validateTransition(order, targetStatus, user, {
+          production_stages: updatedStages,
+        }).ok;
+
+      await updateOrder(order.id, {
+        ...fragmentUpdates,
+        production_stages: updatedStages,
+        ...(canMove ? { status: targetStatus } : {}),
+        ...(canMove && targetStatus === "ready" && !order.completed_date
+          ? { completed_date: now }
+          : {}),
+        // Cada passagem pelo CQ exige uma inspeção nova
+        ...(canMove && targetStatus === "quality_check"
+          ? { quality_inspection_id: "" }
+          : {}),
+      });
+
+      await traceUnits(order, action, entry.stage, fragment);
+
+      toast({
+        title: `${actionLabels[action]}: ${stageName(entry.stage)}`,
+        description: `${order.order_number} · ${operator.name}`,
+      });
+      setSelection(null);
+      setMatches([]);
+    } catch (error) {
+      console.error("Erro ao atualizar etapa no quiosque:", error);
+      toast({
+        title: "Erro",
+        description:
+          (error as Error).message || "Não foi possível atualizar a etapa",
+        variant: "destructive",
+      });
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const stageName = (stageId: string) =>
+    stages.find((s) => s.id === stageId)?.name || stageId;
+
+  const selected = selection ? describe(selection) : null;
+  // Pedido fragmentado: o apontamento é sempre em um fragmento
+  const pickFragment =
+    !!selected?.order.is_fragmented &&
+    !selected.fragment &&
+    (selected.order.fragments?.length || 0) > 0;
+  const entries =
+    selected && !pickFragment
+      ? stagesOf(selected.order, selected.fragment)
+      : [];
+  const entry = currentStage(entries);
+  const required =
+    stages.find((s) => s.id === entry?.stage)?.requiredSkills || [];
+  const missingSkill =
+    !!operator &&
+    required.length > 0 &&
+    !required.some((skill) => operator.skills.includes(skill));
+  const blockingIssues =
+    selected && entry
+      ? blockingIssuesForStage(
+          blockingByOrder.get(selected.order.id),
+          entry.stage,
+        )
+      : [];
+
+  return (
+    <div
+      className="min-h-screen bg-background p-6 text-lg select-none"
+      onPointerDown={() => setLastActivity(Date.now())}
+      onKeyDown={() => setLastActivity(Date.now())}
+    >
+      <div className="mx-auto max-w-5xl space-y-6">
+        {/* Cabeçalho */}
+        <div className="flex items-center justify-between">
+          <div className="flex items-center gap-3">
+            <img src="/logobio.png" alt="BioBox" className="h-12 w-auto" />
+            <h1 className="text-3xl font-bold">Quiosque de Produção</h1>
+          </div>
+          {operator && (
+            <div className="flex items-center gap-4">
+              <span className="flex items-center gap-2 font-medium">
+                <User className="h-6 w-6" />
+                {operator.name}
+              </span>
+              <Button variant="outline" size="lg" onClick={logout}>
+                <LogOut className="h-5 w-5 mr-2" />
+                Sair
+              </Button>
+            </div>
+          )}
+        </div>
+
+        {/* Identificação pelo crachá */}
+        {!operator && !pinOperator && (
+          <div className="space-y-4">
+            <p className="text-muted-foreground">Toque no seu nome</p>
+            {badgeOperators.length === 0 ? (
+              <p className="text-muted-foreground">
+                Nenhum operador com PIN cadastrado. Defina os PINs em Produção ›
+                Configurações › Operadores.
+              </p>
+            ) : (
+              <div className="grid grid-cols-2 gap-4 md:grid-cols-3">
+                {badgeOperators.map((o) => (
+                  <Button
+                    key={o.id}
+                    variant="outline"
+                    className="h-24 text-xl"
+                    onClick={() => setPinOperator(o)}
+                  >
+                    {o.name}
+                  </Button>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        {!operator && pinOperator && (
+          <div className="mx-auto max-w-sm space-y-4 text-center">
+            <p className="text-xl font-medium">{pinOperator.name}</p>
+            <p className="text-muted-foreground">Digite o PIN do crachá</p>
+            <div className="flex justify-center gap-3 text-3xl">
+              {Array.from({ length: 6 }, (_, i) => (
+                <span key={i}>{i < pin.length ? "●" : "○"}</span>
+              ))}
+            </div>
+            <div className="grid grid-cols-3 gap-3">
+              {["1", "2", "3", "4", "5", "6", "7", "8", "9"].map((digit) => (
+                <Button
+                  key={digit}
+                  variant="outline"
+                  className="h-20 text-2xl"
+                  onClick={() => handlePinDigit(digit)}
+                >
+                  {digit}
+                </Button>
+              ))}
+              <Button
+                variant="ghost"
+                className="h-20"
+                onClick={() => {
+                  setPinOperator(null);
+                  setPin("");
+                }}
+              >
+                Voltar
+              </Button>
+              <Button
+                variant="outline"
+                className="h-20 text-2xl"
+                onClick={() => handlePinDigit("0")}
+              >
+                0
+              </Button>
+              <Button
+                variant="ghost"
+                className="h-20"
+                onClick={() => setPin((prev) => prev.slice(0, -1))}
+              >
+                <Delete className="h-6 w-6" />
+              </Button>
+            </div>
+            <Button
+              className="h-16 w-full text-xl"
+              disabled={pin.length < 4}
+              onClick={() => submitPin(pin, true)}
+            >
+              Entrar
+            </Button>
+          </div>
+        )}
+
+        {/* Leitura da OP */}
+        {operator && !selected && (
+          <div className="space-y-6">
+            <form
+              className="flex gap-3"
+              onSubmit={(e) => {
+                e.preventDefault();
+                handleScan();
+              }}
+            >
+              <div className="relative flex-1">
+                <ScanLine className="absolute left-4 top-1/2 h-6 w-6 -translate-y-1/2 text-muted-foreground" />
+                <Input
+                  ref={scanRef}
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  placeholder="Leia a OP ou a série da unidade, ou digite o número do pedido"
+                  className="h-16 pl-14 text-xl"
+                />
+              </div>
+              <Button
+                type="submit"
+                className="h-16 px-8 text-xl"
+                disabled={!code.trim()}
+              >
+                Buscar
+              </Button>
+            </form>
+
+            {matches.length > 1 && (
+              <div className="space-y-3">
+                <p className="text-muted-foreground">
+                  {matches.length} itens com este código — escolha um
+                </p>
+                {matches.map((match) => {
+                  const item = describe(match);
+                  if (!item) return null;
+                  return (
+                    <button
+                      key={`${match.orderId}:${match.fragmentId || ""}`}
+                      className="w-full rounded-lg border border-border p-4 text-left hover:bg-muted/50"
+                      onClick={() => setSelection(match)}
+                    >
+                      <div className="font-bold">{item.title}</div>
+                      <div className="text-base text-muted-foreground">
+                        {item.order.customer_name} · {item.product} ·{" "}
+                        {item.quantity} unid.
+                      </div>
+                    </button>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+        )}
+
+        {/* Etapa da vez */}
+        {operator && selected && (
+          <div className="space-y-6 rounded-xl border border-border p-6">
+            <div>
+              <div className="text-2xl font-bold">{selected.title}</div>
+              <div className="text-muted-foreground">
+                {selected.order.customer_name} · {selected.product} ·{" "}
+                {selected.quantity} unid.
+              </div>
+            </div>
+
+            <div className="flex flex-wrap gap-2">
+              {entries.map((stage) => (
+                <Badge
+                  key={stage.stage}
+                  variant="outline"
+                  className={cn(
+                    "px-3 py-1 text-base",
+                    stageStatusColors[stage.status],
+                    stage.stage === entry?.stage && "ring-2 ring-primary",
+                  )}
+                >
+                  {stageName(stage.stage)}
+                  {stage.paused_at && " (pausada)"}
+                </Badge>
+              ))}
+            </div>
+
+            {pickFragment ? (
+              <div className="space-y-3">
+                <p className="text-xl">
+                  Pedido fragmentado: escolha o fragmento.
+                </p>
+                <div className="grid grid-cols-2 gap-4">
+                  {selected.order.fragments.map((fragment) => (
+                    <Button
+                      key={fragment.id}
+                      variant="outline"
+                      className="h-20 text-xl"
+                      onClick={() =>
+                        setSelection({
+                          orderId: selected.order.id,
+                          fragmentId: fragment.id,
+                        })
+                      }
+                    >
+                      Fragmento {fragment.fragment_number} · {fragment.quantity}{" "}
+                      unid.
+                    </Button>
+                  ))}
+                </div>
+              </div>
+            ) : entry ? (
+              <div className="space-y-4">
+                <div className="text-xl">
+                  Etapa atual:{" "}
+                  <span className="font-bold">{stageName(entry.stage)}</span>
+                  {entry.assigned_operator && ` · ${entry.assigned_operator}`}
+                </div>
+                {blockingIssues.length > 0 && (
+                  <div className="rounded-lg border border-red-500/30 bg-red-500/10 p-4 text-red-600">
+                    <div className="flex items-center gap-2 font-bold">
+                      <AlertTriangle className="h-6 w-6" />
+                      Etapa bloqueada
+                    </div>
+                    {blockingIssues.map((issue) => (
+                      <p key={issue.id}>{issue.description}</p>
+                    ))}
+                  </div>
+                )}
+                {missingSkill && (
+                  <p className="text-orange-600">
+                    Esta etapa pede: {required.join(", ")}
+                  </p>
+                )}
+                <div className="grid grid-cols-2 gap-4">
+                  {availableStageActions(entry).map((action) => {
+                    const Icon = actionIcons[action];
+                    return (
+                      <Button
+                        key={action}
+                        className={cn(
+                          "h-24 text-2xl text-white",
+                          actionColors[action],
+                        )}
+                        disabled={
+                          working ||
+                          (blockingIssues.length > 0 && action !== "pause")
+                        }
+                        onClick={() =>
+                          handleAction(
+                            selected.order,
+                            action,
+                            selected.fragment,
+                          )
+                        }
+                      >
+                        <Icon className="h-8 w-8 mr-3" />
+                        {actionLabels[action]}
+                      </Button>
+                    );
+                  })}
+                </div>
+              </div>
+            ) : (
+              <p className="text-xl text-green-600">
+                Todas as etapas foram concluídas.
+              </p>
+            )}
+
+            <div className="flex gap-4">
+              <Button
+                variant="outline"
+                size="lg"
+                onClick={() => {
+                  setSelection(null);
+                  setMatches([]);
+                }}
+              >
+                Ler outra OP
+              </Button>
+              <Button
+                variant="outline"
+                size="lg"
+                className="text-orange-600"
+                onClick={() => setReportingIssue(true)}
+              >
+                <AlertTriangle className="h-5 w-5 mr-2" />
+                Reportar problema
+              </Button>
+            </div>
+
+            <ReportIssueDialog
+              order={selected.order}
+              open={reportingIssue}
+              onOpenChange={setReportingIssue}
+              stage={entry?.stage}
+              reportedBy={operator.name}
+              touch
+            />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
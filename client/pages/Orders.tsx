@@ -5,6 +5,8 @@ import DashboardLayout from "@/components/DashboardLayout";
 import NewOrderForm from "@/components/NewOrderForm";
 import OrderEditForm from "@/components/OrderEditForm";
 import ProductionStagesTracker from "@/components/ProductionStagesTracker";
+import OrderStatusActions from "@/components/OrderStatusActions";
+import OrderStatusTimeline from "@/components/OrderStatusTimeline";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -55,8 +57,16 @@ import {
   Mail,
 } from "lucide-react";
 import { useAuth } from "@/hooks/useAuth";
+import { useOrdersSubscription } from "@/hooks/useOrdersSubscription";
 import { useFirebase, Order } from "@/hooks/useFirebase";
+import { useProductionConfig } from "@/hooks/useProductionConfig";
+import { startFirstStage, updateOrderStage } from "@/lib/productionStages";
 import { useToast } from "@/components/ui/use-toast";
+import {
+  buildTransitionUpdates,
+  findTransition,
+  type StatusTransition,
+} from "@shared/orderStatus";
 import { useNavigate } from "react-router-dom";
 
 const statusLabels = {
@@ -97,115 +107,6 @@ const priorityColors = {
 
 const PAGE_SIZE = 10;
 
-// Componente auxiliar para mudanças rápidas de status
-const QuickStatusChange = ({
-  order,
-  onTransition,
-}: {
-  order: Order;
-  onTransition: (
-    order: Order,
-    status: Order["status"],
-    progress?: number,
-  ) => void;
-}) => {
-  const { checkPermission, user } = useAuth();
-
-  const nextStatuses = {
-    pending: [
-      {
-        status: "confirmed",
-        label: "Confirmar",
-        color: "bg-blue-500",
-        permission: "orders:approve",
-      },
-      {
-        status: "awaiting_approval",
-        label: "Enviar",
-        color: "bg-blue-500",
-        permission: "orders:create",
-      },
-      { status: "cancelled", label: "Cancelar", color: "bg-red-500" },
-    ],
-    awaiting_approval: [
-      {
-        status: "confirmed",
-        label: "Confirmar",
-        color: "bg-blue-500",
-        permission: "orders:approve",
-      },
-      { status: "cancelled", label: "Cancelar", color: "bg-red-500" },
-    ],
-    confirmed: [
-      {
-        status: "in_production",
-        label: "Iniciar Produção",
-        color: "bg-purple-500",
-      },
-      { status: "cancelled", label: "Cancelar", color: "bg-red-500" },
-    ],
-    in_production: [
-      { status: "quality_check", label: "CQ", color: "bg-orange-500" },
-    ],
-    quality_check: [
-      { status: "ready", label: "Aprovar", color: "bg-green-500" },
-      { status: "in_production", label: "Reprovar", color: "bg-purple-500" },
-    ],
-    ready: [{ status: "delivered", label: "Entregar", color: "bg-gray-500" }],
-  } as const;
-
-  // Lógica para remover ações subsequentes para o vendedor
-  if (user && user.role !== "admin" && order.status === "awaiting_approval") {
-    return null;
-  }
-
-  const options = (
-    nextStatuses[order.status as keyof typeof nextStatuses] || []
-  ).filter((option) => {
-    if (!option.permission) return true;
-    const [resource, action] = option.permission.split(":");
-
-    // Lógica para o vendedor: só pode "Enviar" se o pedido for dele
-    if (action === "create" && user?.role !== "admin") {
-      return order.seller_id === user?.id;
-    }
-
-    // Lógica para o admin: só pode "Confirmar"
-    if (action === "approve" && user?.role === "admin") {
-      return true;
-    }
-
-    return checkPermission(resource, action);
-  });
-
-  if (options.length === 0) return null;
-
-  return (
-    <div className="flex gap-2">
-      {options.map((option) => (
-        <Button
-          key={option.status}
-          size="sm"
-          className={`${option.color} hover:opacity-90 text-white`}
-          onClick={async () => {
-            const progress =
-              option.status === "in_production"
-                ? 10
-                : option.status === "quality_check"
-                  ? 80
-                  : option.status === "ready"
-                    ? 100
-                    : undefined;
-            onTransition(order, option.status as Order["status"], progress);
-          }}
-        >
-          {option.label}
-        </Button>
-      ))}
-    </div>
-  );
-};
-
 export default function Orders() {
   const [orders, setOrders] = useState<Order[]>([]);
   const [loading, setLoading] = useState(true);
@@ -226,7 +127,13 @@ export default function Orders() {
 
   const { checkPermission, user } = useAuth();
   const firebaseHook = useFirebase();
-  const { getOrders, createOrder, updateOrder, isConnected } = firebaseHook;
+  const { stages: stageDefinitions, operators } = useProductionConfig();
+  const { createOrder, updateOrder } = firebaseHook;
+  const {
+    orders: liveOrders,
+    loading: ordersLoading,
+    mode: ordersMode,
+  } = useOrdersSubscription();
 
   // Verificar se deleteOrder existe, senão usar uma implementação local
   const deleteOrderFn =
@@ -288,66 +195,14 @@ export default function Orders() {
     return 0;
   };
 
+  // Pedidos em tempo real (Firestore onSnapshot / BroadcastChannel)
   useEffect(() => {
-    let isMounted = true;
-
-    const load = async () => {
-      try {
-        setLoading(true);
-        console.log("🔍 Buscando pedidos...", { isConnected });
-        const ordersData = await getOrders();
-
-        if (isMounted) {
-          console.log("✅ Pedidos carregados:", ordersData.length);
-          setOrders(ordersData);
-        }
-      } catch (error) {
-        if (isMounted) {
-          console.error("❌ Erro ao carregar pedidos:", error);
-        }
-      } finally {
-        if (isMounted) {
-          setLoading(false);
-        }
-      }
-    };
-
-    load();
-
-    const handleOrdersChanged = () => {
-      if (isMounted) {
-        loadOrders();
-      }
-    };
-
-    window.addEventListener("orders:changed", handleOrdersChanged);
-
-    return () => {
-      isMounted = false;
-      window.removeEventListener("orders:changed", handleOrdersChanged);
-    };
-  }, []);
-
-  useEffect(() => {
-    if (isConnected && orders.length === 0 && !loading) {
-      console.log("🔄 Reconectado ao Firebase, recarregando pedidos...");
-      loadOrders();
-    }
-  }, [isConnected]);
-
-  const loadOrders = async () => {
-    try {
-      setLoading(true);
-      console.log("🔍 Buscando pedidos...", { isConnected });
-      const ordersData = await getOrders();
-      console.log("✅ Pedidos carregados:", ordersData.length, ordersData);
-      setOrders(ordersData);
-    } catch (error) {
-      console.error("❌ Erro ao carregar pedidos:", error);
-    } finally {
-      setLoading(false);
-    }
-  };
+    setOrders(liveOrders);
+    setLoading(ordersLoading);
+    setSelectedOrder((prev) =>
+      prev ? (liveOrders.find((o) => o.id === prev.id) ?? prev) : prev,
+    );
+  }, [liveOrders, ordersLoading]);
 
   const filteredOrders = useMemo(() => {
     return orders.filter((order) => {
@@ -482,9 +337,6 @@ export default function Orders() {
         description: `Pedido ${order.order_number} foi removido com sucesso`,
       });
 
-      // Recarregar lista
-      await loadOrders();
-
       // Fechar dialog se estiver aberto
       if (showOrderDetails && selectedOrder?.id === orderId) {
         setShowOrderDetails(false);
@@ -508,6 +360,16 @@ export default function Orders() {
   };
 
   // NOVA FUNÇÃO: Salvar edições do pedido
+  // Mudança de status pelo formulário de edição aplica os mesmos efeitos dos botões
+  const transitionUpdates = (updatedOrder: Order): Partial<Order> => {
+    const previous = orders.find((o) => o.id === updatedOrder.id);
+    const transition =
+      previous && findTransition(previous.status, updatedOrder.status);
+    return transition
+      ? (buildTransitionUpdates(transition) as Partial<Order>)
+      : {};
+  };
+
   const handleSaveEditedOrder = async (updatedOrder: Order) => {
     try {
       console.log("💾 Salvando alterações do pedido:", updatedOrder.id);
@@ -529,6 +391,7 @@ export default function Orders() {
         products: updatedOrder.products,
         fragments: updatedOrder.fragments,
         is_fragmented: updatedOrder.is_fragmented,
+        ...transitionUpdates(updatedOrder),
       });
 
       if (updated) {
@@ -540,7 +403,6 @@ export default function Orders() {
         applyUpdate(updated);
         setShowEditForm(false);
         setEditingOrder(null);
-        await loadOrders();
       } else {
         toast({
           title: "Erro ao atualizar pedido",
@@ -571,57 +433,42 @@ export default function Orders() {
 
   const handleTransition = async (
     order: Order,
-    nextStatus: Order["status"],
-    progress?: number,
+    transition: StatusTransition,
+    updates: Partial<Order>,
   ) => {
-    const updates: Partial<Order> = { status: nextStatus };
-    if (typeof progress === "number") updates.production_progress = progress;
-    if (nextStatus === "delivered") {
-      (updates as any).completed_date = new Date().toISOString();
-    }
-
-    // Ao iniciar produção, iniciar automaticamente a primeira etapa (Corte e Costura)
-    if (nextStatus === "in_production") {
-      const productionStages = order.production_stages || [];
-      const firstStage = productionStages.find(
-        (s) => s.stage === "cutting_sewing",
+    const nextStatus = transition.to;
+    const startsProduction =
+      nextStatus === "in_production" && order.status === "confirmed";
+
+    // Ao iniciar produção, iniciar automaticamente a primeira etapa configurada
+    if (startsProduction) {
+      updates.production_stages = startFirstStage(
+        order.production_stages || [],
+        stageDefinitions,
+        new Date().toISOString(),
       );
-
-      if (!firstStage || firstStage.status === "pending") {
-        const updatedStages = [...productionStages];
-        const stageIndex = updatedStages.findIndex(
-          (s) => s.stage === "cutting_sewing",
-        );
-
-        if (stageIndex >= 0) {
-          updatedStages[stageIndex] = {
-            ...updatedStages[stageIndex],
-            status: "in_progress",
-            started_at: new Date().toISOString(),
-          };
-        } else {
-          updatedStages.push({
-            stage: "cutting_sewing",
-            status: "in_progress",
-            started_at: new Date().toISOString(),
-          });
-        }
-
-        (updates as any).production_stages = updatedStages;
-      }
     }
 
-    const updated = await updateOrder(order.id, updates);
+    let updated: Order | null;
+    try {
+      updated = await updateOrder(order.id, updates);
+    } catch (error) {
+      toast({
+        title: "Mudança de status não permitida",
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+      return;
+    }
     if (updated) {
-      // applyUpdate(updated); // Removido, o listener orders:changed fará isso
+      // applyUpdate(updated); // Removido, a assinatura em tempo real fará isso
       toast({
         title: "Status atualizado",
-        description:
-          nextStatus === "in_production"
-            ? `Pedido ${updated.order_number} iniciado na etapa de Corte e Costura`
-            : `Pedido ${updated.order_number} agora está em "${statusLabels[nextStatus]}"`,
+        description: startsProduction
+          ? `Pedido ${updated.order_number} iniciado na etapa de Corte e Costura`
+          : `Pedido ${updated.order_number} agora está em "${statusLabels[nextStatus]}"`,
       });
-      if (nextStatus === "in_production") {
+      if (startsProduction) {
         navigate(`/production?orderId=${updated.id}`);
       }
     }
@@ -796,7 +643,7 @@ export default function Orders() {
                   ⚠️ {stats.overdueOrders} atrasados
                 </span>
               )}
-              {!isConnected && (
+              {ordersMode === "local" && (
                 <span className="text-orange-500">📱 Modo offline</span>
               )}
             </div>
@@ -1144,7 +991,7 @@ export default function Orders() {
                                 </Button>
 
                                 {/* Mudanças Rápidas de Status */}
-                                <QuickStatusChange
+                                <OrderStatusActions
                                   order={order}
                                   onTransition={handleTransition}
                                 />
@@ -1275,7 +1122,7 @@ export default function Orders() {
                       {priorityLabels[selectedOrder.priority]}
                     </Badge>
                   </div>
-                  <QuickStatusChange
+                  <OrderStatusActions
                     order={selectedOrder}
                     onTransition={handleTransition}
                   />
@@ -1411,6 +1258,9 @@ export default function Orders() {
                   </CardContent>
                 </Card>
 
+                {/* Histórico de Status */}
+                <OrderStatusTimeline history={selectedOrder.status_history} />
+
                 {/* Produtos */}
                 {selectedOrder.products &&
                   selectedOrder.products.length > 0 && (
@@ -1469,47 +1319,21 @@ export default function Orders() {
                       orderNumber={selectedOrder.order_number}
                       stages={selectedOrder.production_stages || []}
                       onUpdateStage={async (stageId, updates) => {
-                        const updatedStages = [
-                          ...(selectedOrder.production_stages || []),
-                        ];
-                        const stageIndex = updatedStages.findIndex(
-                          (s) => s.stage === stageId,
+                        const updatedStages = updateOrderStage(
+                          selectedOrder.production_stages || [],
+                          stageDefinitions,
+                          stageId,
+                          updates,
                         );
 
-                        if (stageIndex >= 0) {
-                          updatedStages[stageIndex] = {
-                            ...updatedStages[stageIndex],
-                            ...updates,
-                          };
-                        } else {
-                          updatedStages.push({
-                            stage: stageId,
-                            ...updates,
-                          } as any);
-                        }
-
                         await updateOrder(selectedOrder.id, {
                           ...selectedOrder,
                           production_stages: updatedStages,
                         });
 
-                        // Recarregar a lista de pedidos
-                        const updatedOrders = await getOrders();
-                        setOrders(updatedOrders);
-
-                        // Atualizar o pedido selecionado
-                        const refreshedOrder = updatedOrders.find(
-                          (o) => o.id === selectedOrder.id,
-                        );
-                        if (refreshedOrder) {
-                          setSelectedOrder(refreshedOrder);
-                        }
+                        // Lista e pedido selecionado são atualizados pela assinatura
                       }}
-                      operators={[
-                        { id: "1", name: "João Silva" },
-                        { id: "2", name: "Maria Santos" },
-                        { id: "3", name: "Pedro Costa" },
-                      ]}
+                      operators={operators.filter((o) => o.status !== "absent")}
                     />
                   )}
 
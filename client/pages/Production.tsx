@@ -15,13 +15,34 @@ import {
   User,
   Clock,
   AlertCircle,
+  Cog,
+  ScanLine,
+  Settings,
+  Timer,
+  AlertTriangle,
 } from "lucide-react";
+import { Link } from "react-router-dom";
+import { useOrdersSubscription } from "@/hooks/useOrdersSubscription";
 import { useFirebase, Order } from "@/hooks/useFirebase";
-import { productionStages } from "@/types/production";
+import { useAuth } from "@/hooks/useAuth";
+import {
+  finishedProductionStatus,
+  validateTransition,
+} from "@shared/orderStatus";
+import { useProductionConfig } from "@/hooks/useProductionConfig";
+import { useProductionIssues } from "@/hooks/useProductionIssues";
+import { useUnitSerials } from "@/hooks/useUnitSerials";
+import { blockingIssuesForStage } from "@/lib/issueTracking";
+import { rollUpFragments, updateFragmentStage } from "@/lib/fragmentStages";
+import { updateOrderStage } from "@/lib/productionStages";
 import { cn } from "@/lib/utils";
 import { format } from "date-fns";
 import { ptBR } from "date-fns/locale";
 import ProductionStagesTracker from "@/components/ProductionStagesTracker";
+import ProductionSettings from "@/components/ProductionSettings";
+import LaborTimeReport from "@/components/LaborTimeReport";
+import ReportIssueDialog from "@/components/ReportIssueDialog";
+import FragmentProgress from "@/components/FragmentProgress";
 import {
   Dialog,
   DialogContent,
@@ -29,7 +50,7 @@ import {
   DialogTitle,
 } from "@/components/ui/dialog";
 
-const stageIcons = {
+const stageIcons: Record<string, typeof Cog> = {
   cutting_sewing: Scissors,
   carpentry: Hammer,
   upholstery: Sofa,
@@ -42,29 +63,40 @@ export default function Production() {
   const [orders, setOrders] = useState<Order[]>([]);
   const [selectedOrder, setSelectedOrder] = useState<Order | null>(null);
   const [showStagesDialog, setShowStagesDialog] = useState(false);
-  const [currentPages, setCurrentPages] = useState<Record<string, number>>({
-    cutting_sewing: 1,
-    carpentry: 1,
-    upholstery: 1,
-    assembly: 1,
-    packaging: 1,
-    delivery: 1,
-  });
+  const [selectedFragmentId, setSelectedFragmentId] = useState<string>();
+  const [showSettings, setShowSettings] = useState(false);
+  const [showLaborTime, setShowLaborTime] = useState(false);
+  const [issueTarget, setIssueTarget] = useState<{
+    order: Order;
+    stage: string;
+  } | null>(null);
+  const [selectedTab, setSelectedTab] = useState<string>();
+  const [currentPages, setCurrentPages] = useState<Record<string, number>>({});
   const ordersPerPage = 10;
-  const { getOrders, updateOrder } = useFirebase();
+  const { updateOrder } = useFirebase();
+  const { user } = useAuth();
+  const { orders: allOrders } = useOrdersSubscription();
+  const { stages, activeStages, operators } = useProductionConfig();
+  const { blockingByOrder } = useProductionIssues();
+  const { issueSerials } = useUnitSerials();
 
-  useEffect(() => {
-    loadOrders();
-  }, []);
+  // Etapa desativada nas configurações: volta para a primeira ativa
+  const currentTab = activeStages.some((s) => s.id === selectedTab)
+    ? selectedTab
+    : activeStages[0]?.id;
+  const pageOf = (stageId: string) => currentPages[stageId] || 1;
 
-  const loadOrders = async () => {
-    const allOrders = await getOrders();
+  // Pedidos em tempo real: mudanças de etapa feitas em outras telas/usuários
+  useEffect(() => {
     // Filtrar apenas pedidos em produção
     const productionOrders = allOrders.filter(
       (o) => o.status === "in_production" || o.status === "quality_check",
     );
     setOrders(productionOrders);
-  };
+    setSelectedOrder((prev) =>
+      prev ? (allOrders.find((o) => o.id === prev.id) ?? prev) : prev,
+    );
+  }, [allOrders]);
 
   const getOrdersByStage = (stageId: string) => {
     return orders.filter((order) => {
@@ -89,55 +121,105 @@ export default function Production() {
     return Math.round((completed / ordersInStage.length) * 100);
   };
 
+  const isFragmented = (order: Order) =>
+    !!order.is_fragmented && (order.fragments?.length || 0) > 0;
+
   const handleOpenStages = (order: Order) => {
     setSelectedOrder(order);
+    // Pedido fragmentado: as etapas são apontadas em cada fragmento
+    setSelectedFragmentId(
+      isFragmented(order)
+        ? (
+            rollUpFragments(order, stages).fragments.find(
+              (f) => f.status !== "completed",
+            ) ?? order.fragments[0]
+          ).id
+        : undefined,
+    );
     setShowStagesDialog(true);
   };
 
   const handleUpdateStage = async (stageId: string, updates: any) => {
     if (!selectedOrder) return;
 
-    const updatedStages = [...(selectedOrder.production_stages || [])];
-    const stageIndex = updatedStages.findIndex((s) => s.stage === stageId);
-
-    if (stageIndex >= 0) {
-      updatedStages[stageIndex] = { ...updatedStages[stageIndex], ...updates };
-    } else {
-      updatedStages.push({ stage: stageId, ...updates } as any);
-    }
+    // Etapas alinhadas com a configuração atual; no pedido fragmentado, a
+    // etapa é do fragmento e o pedido é recalculado a partir deles
+    const fragmentUpdates =
+      isFragmented(selectedOrder) && selectedFragmentId
+        ? updateFragmentStage(
+            selectedOrder,
+            selectedFragmentId,
+            stages,
+            stageId,
+            updates,
+          )
+        : null;
+    const updatedStages =
+      fragmentUpdates?.production_stages ??
+      updateOrderStage(
+        selectedOrder.production_stages || [],
+        stages,
+        stageId,
+        updates,
+      );
 
     // Verificar se todas as etapas estão concluídas
-    const allStagesCompleted = productionStages.every((stage) => {
-      const stageData = updatedStages.find((s) => s.stage === stage.id);
-      return stageData && stageData.status === "completed";
-    });
+    const allStagesCompleted = updatedStages.every(
+      (stage) => stage.status === "completed",
+    );
+
+    // Status só acompanha as etapas quando o fluxo permite a transição;
+    // retrabalho de reprovação volta ao CQ em vez de ficar pronto
+    const targetStatus: Order["status"] = allStagesCompleted
+      ? finishedProductionStatus(selectedOrder)
+      : "in_production";
+    const canMove = validateTransition(selectedOrder, targetStatus, user, {
+      production_stages: updatedStages,
+    }).ok;
 
     const orderUpdates: any = {
       ...selectedOrder,
+      ...fragmentUpdates,
       production_stages: updatedStages,
-      status: allStagesCompleted ? "ready" : "in_production",
+      status: canMove ? targetStatus : selectedOrder.status,
     };
 
     // Se todas as etapas estão concluídas, adicionar data de conclusão
-    if (allStagesCompleted && !selectedOrder.completed_date) {
+    if (canMove && targetStatus === "ready" && !selectedOrder.completed_date) {
       orderUpdates.completed_date = new Date().toISOString();
     }
+    // Cada passagem pelo CQ exige uma inspeção nova
+    if (
+      canMove &&
+      targetStatus === "quality_check" &&
+      selectedOrder.status !== targetStatus
+    ) {
+      orderUpdates.quality_inspection_id = "";
+    }
 
+    // Lista e pedido selecionado são atualizados pela assinatura
     await updateOrder(selectedOrder.id, orderUpdates);
 
-    // Recarregar pedidos
-    await loadOrders();
-
-    // Atualizar pedido selecionado
-    const refreshedOrders = await getOrders();
-    const refreshedOrder = refreshedOrders.find(
-      (o) => o.id === selectedOrder.id,
-    );
-    if (refreshedOrder) {
-      setSelectedOrder(refreshedOrder);
+    // Ao entrar em produção, cada unidade ganha seu número de série
+    if (updates.status === "in_progress") {
+      issueSerials(
+        selectedOrder,
+        isFragmented(selectedOrder) ? selectedFragmentId : undefined,
+      ).catch((error) => console.error("Erro ao emitir séries:", error));
     }
   };
 
+  const blockersOf = (order: Order, stageId: string) =>
+    blockingIssuesForStage(blockingByOrder.get(order.id), stageId);
+
+  // Fragmento aberto no acompanhamento, com as etapas já derivadas
+  const selectedFragment =
+    selectedOrder && selectedFragmentId
+      ? rollUpFragments(selectedOrder, stages).fragments?.find(
+          (f) => f.id === selectedFragmentId,
+        )
+      : undefined;
+
   const getStageStatus = (order: Order, stageId: string) => {
     const stages = order.production_stages || [];
     const stage = stages.find((s) => s.stage === stageId);
@@ -167,14 +249,53 @@ export default function Production() {
             <Badge variant="outline" className="text-sm">
               {orders.length} pedidos em produção
             </Badge>
+            <Button variant="outline" asChild>
+              <Link to="/issues">
+                <AlertTriangle className="h-4 w-4 mr-2" />
+                Problemas
+                {blockingByOrder.size > 0 && (
+                  <Badge variant="destructive" className="ml-2">
+                    {blockingByOrder.size}
+                  </Badge>
+                )}
+              </Link>
+            </Button>
+            <Button variant="outline" onClick={() => setShowLaborTime(true)}>
+              <Timer className="h-4 w-4 mr-2" />
+              Tempos
+            </Button>
+            <Button variant="outline" asChild>
+              <Link to="/kiosk">
+                <ScanLine className="h-4 w-4 mr-2" />
+                Quiosque
+              </Link>
+            </Button>
+            {user?.role === "admin" && (
+              <Button variant="outline" onClick={() => setShowSettings(true)}>
+                <Settings className="h-4 w-4 mr-2" />
+                Configurações
+              </Button>
+            )}
           </div>
         </div>
 
-        <Tabs defaultValue="cutting_sewing" className="w-full">
-          <TabsList className="grid w-full grid-cols-6">
-            {productionStages.map((stage) => {
-              const Icon = stageIcons[stage.id as keyof typeof stageIcons];
-              const ordersCount = getOrdersByStage(stage.id).length;
+        <Tabs
+          value={currentTab}
+          onValueChange={setSelectedTab}
+          className="w-full"
+        >
+          <TabsList
+            className="grid w-full"
+            style={{
+              gridTemplateColumns: `repeat(${activeStages.length}, minmax(0, 1fr))`,
+            }}
+          >
+            {activeStages.map((stage) => {
+              const Icon = stageIcons[stage.id] || Cog;
+              const ordersInStage = getOrdersByStage(stage.id);
+              const blockedCount = ordersInStage.filter(
+                (order) => blockersOf(order, stage.id).length > 0,
+              ).length;
 
               return (
                 <TabsTrigger
@@ -184,18 +305,24 @@ export default function Production() {
                 >
                   <Icon className="h-4 w-4" />
                   <span className="hidden md:inline">{stage.name}</span>
-                  {ordersCount > 0 && (
+                  {ordersInStage.length > 0 && (
                     <Badge variant="secondary" className="ml-1">
-                      {ordersCount}
+                      {ordersInStage.length}
                     </Badge>
                   )}
+                  {blockedCount > 0 && (
+                    <AlertTriangle
+                      className="h-4 w-4 text-red-500"
+                      aria-label={`${blockedCount} bloqueado(s)`}
+                    />
+                  )}
                 </TabsTrigger>
               );
             })}
           </TabsList>
 
-          {productionStages.map((stage) => {
-            const Icon = stageIcons[stage.id as keyof typeof stageIcons];
+          {activeStages.map((stage) => {
+            const Icon = stageIcons[stage.id] || Cog;
             const ordersInStage = getOrdersByStage(stage.id);
             const progress = getStageProgress(stage.id);
 
@@ -253,19 +380,23 @@ export default function Production() {
                         <div className="grid gap-4 md:grid-cols-2 lg:grid-cols-3">
                           {ordersInStage
                             .slice(
-                              (currentPages[stage.id] - 1) * ordersPerPage,
-                              currentPages[stage.id] * ordersPerPage,
+                              (pageOf(stage.id) - 1) * ordersPerPage,
+                              pageOf(stage.id) * ordersPerPage,
                             )
                             .map((order) => {
                               const status = getStageStatus(order, stage.id);
                               const stageData = order.production_stages?.find(
                                 (s) => s.stage === stage.id,
                               );
+                              const blockers = blockersOf(order, stage.id);
 
                               return (
                                 <Card
                                   key={order.id}
-                                  className="hover:shadow-md transition-shadow cursor-pointer"
+                                  className={cn(
+                                    "hover:shadow-md transition-shadow cursor-pointer",
+                                    blockers.length > 0 && "border-red-500/50",
+                                  )}
                                   onClick={() => handleOpenStages(order)}
                                 >
                                   <CardHeader className="pb-3">
@@ -309,6 +440,19 @@ export default function Production() {
                                     </div>
                                   </CardHeader>
                                   <CardContent className="space-y-2">
+                                    {blockers.length > 0 && (
+                                      <div className="rounded-md border border-red-500/30 bg-red-500/10 p-2 text-sm text-red-500">
+                                        <div className="flex items-center gap-2 font-medium">
+                                          <AlertTriangle className="h-4 w-4" />
+                                          Bloqueada
+                                        </div>
+                                        {blockers.map((issue) => (
+                                          <p key={issue.id} className="text-xs">
+                                            {issue.description}
+                                          </p>
+                                        ))}
+                                      </div>
+                                    )}
                                     {stageData?.assigned_operator && (
                                       <div className="flex items-center gap-2 text-sm">
                                         <User className="h-4 w-4 text-muted-foreground" />
@@ -343,6 +487,21 @@ export default function Production() {
                                         </span>
                                       </div>
                                     )}
+                                    <Button
+                                      variant="ghost"
+                                      size="sm"
+                                      className="w-full text-orange-600"
+                                      onClick={(e) => {
+                                        e.stopPropagation();
+                                        setIssueTarget({
+                                          order,
+                                          stage: stage.id,
+                                        });
+                                      }}
+                                    >
+                                      <AlertTriangle className="h-4 w-4 mr-2" />
+                                      Reportar problema
+                                    </Button>
                                   </CardContent>
                                 </Card>
                               );
@@ -354,10 +513,9 @@ export default function Production() {
                           <div className="flex items-center justify-between mt-6 pt-4 border-t">
                             <p className="text-sm text-muted-foreground">
                               Mostrando{" "}
-                              {(currentPages[stage.id] - 1) * ordersPerPage + 1}{" "}
-                              a{" "}
+                              {(pageOf(stage.id) - 1) * ordersPerPage + 1} a{" "}
                               {Math.min(
-                                currentPages[stage.id] * ordersPerPage,
+                                pageOf(stage.id) * ordersPerPage,
                                 ordersInStage.length,
                               )}{" "}
                               de {ordersInStage.length} pedidos
@@ -369,10 +527,13 @@ export default function Production() {
                                 onClick={() =>
                                   setCurrentPages((prev) => ({
                                     ...prev,
-                                    [stage.id]: Math.max(1, prev[stage.id] - 1),
+                                    [stage.id]: Math.max(
+                                      1,
+                                      (prev[stage.id] || 1) - 1,
+                                    ),
                                   }))
                                 }
-                                disabled={currentPages[stage.id] === 1}
+                                disabled={pageOf(stage.id) === 1}
                               >
                                 Anterior
                               </Button>
@@ -386,12 +547,12 @@ export default function Production() {
                                       Math.ceil(
                                         ordersInStage.length / ordersPerPage,
                                       ),
-                                      prev[stage.id] + 1,
+                                      (prev[stage.id] || 1) + 1,
                                     ),
                                   }))
                                 }
                                 disabled={
-                                  currentPages[stage.id] >=
+                                  pageOf(stage.id) >=
                                   Math.ceil(
                                     ordersInStage.length / ordersPerPage,
                                   )
@@ -419,22 +580,51 @@ export default function Production() {
                 Etapas de Produção - {selectedOrder?.order_number}
               </DialogTitle>
             </DialogHeader>
+            {selectedOrder && isFragmented(selectedOrder) && (
+              <FragmentProgress
+                order={selectedOrder}
+                selectedFragmentId={selectedFragmentId}
+                onSelectFragment={setSelectedFragmentId}
+              />
+            )}
             {selectedOrder && (
               <ProductionStagesTracker
+                key={selectedFragmentId || selectedOrder.id}
                 orderId={selectedOrder.id}
-                orderNumber={selectedOrder.order_number}
-                stages={selectedOrder.production_stages || []}
+                orderNumber={
+                  selectedFragment
+                    ? `${selectedOrder.order_number} · Fragmento ${selectedFragment.fragment_number}`
+                    : selectedOrder.order_number
+                }
+                stages={
+                  (selectedFragment || selectedOrder).production_stages || []
+                }
                 onUpdateStage={handleUpdateStage}
-                operators={[
-                  { id: "1", name: "João Silva" },
-                  { id: "2", name: "Maria Santos" },
-                  { id: "3", name: "Pedro Costa" },
-                  { id: "4", name: "Ana Oliveira" },
-                ]}
+                operators={operators.filter((o) => o.status !== "absent")}
+                blockingIssues={blockingByOrder.get(selectedOrder.id)}
               />
             )}
           </DialogContent>
         </Dialog>
+
+        {issueTarget && (
+          <ReportIssueDialog
+            order={issueTarget.order}
+            stage={issueTarget.stage}
+            open={!!issueTarget}
+            onOpenChange={(open) => !open && setIssueTarget(null)}
+          />
+        )}
+
+        <LaborTimeReport
+          orders={allOrders}
+          open={showLaborTime}
+          onClose={() => setShowLaborTime(false)}
+        />
+
+        {showSettings && (
+          <ProductionSettings onClose={() => setShowSettings(false)} />
+        )}
       </div>
     </DashboardLayout>
   );
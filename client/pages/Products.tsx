@@ -1,4 +1,5 @@
 import { useState, useEffect } from "react";
+import { Link } from "react-router-dom";
 import DashboardLayout from "@/components/DashboardLayout";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -25,6 +26,13 @@ import ProductForm, { ProductFormValues } from "@/components/ProductForm";
 import BarcodeGenerator from "@/components/BarcodeGenerator";
 import ThermalPrintManager from "@/components/ThermalPrintManager";
 import { useProducts } from "@/hooks/useProducts";
+import { useMaterials } from "@/hooks/useMaterials";
+import MaterialForm from "@/components/MaterialForm";
+import InventoryMovementForm from "@/components/InventoryMovementForm";
+import MaterialLedger from "@/components/MaterialLedger";
+import type { MaterialInput } from "@/lib/materials";
+import type { MovementInput } from "@/lib/inventory";
+import { isLowStock } from "@/lib/purchasing";
 import { useToast } from "@/components/ui/use-toast";
 import {
   Package,
@@ -39,11 +47,13 @@ import {
   Trash2,
   X,
   Loader2,
+  ArrowLeftRight,
+  History,
+  ShoppingCart,
 } from "lucide-react";
 import {
   Product,
   RawMaterial,
-  mockRawMaterials,
   categoryLabels,
   statusLabels,
   statusColors,
@@ -65,8 +75,23 @@ export default function Products() {
   const { toast } = useToast();
 
   const [products, setProducts] = useState<Product[]>([]);
-  const [rawMaterials, setRawMaterials] =
-    useState<RawMaterial[]>(mockRawMaterials);
+  const {
+    materials: rawMaterials,
+    saveMaterial,
+    recordMovement,
+    getMovements,
+  } = useMaterials();
+  const [editingMaterial, setEditingMaterial] = useState<RawMaterial | null>(
+    null,
+  );
+  const [showMaterialForm, setShowMaterialForm] = useState(false);
+  const [savingMaterial, setSavingMaterial] = useState(false);
+  const [movingMaterial, setMovingMaterial] = useState<RawMaterial | null>(
+    null,
+  );
+  const [ledgerMaterial, setLedgerMaterial] = useState<RawMaterial | null>(
+    null,
+  );
   const [searchTerm, setSearchTerm] = useState("");
   const [selectedProduct, setSelectedProduct] = useState<Product | null>(null);
   const [showProductForm, setShowProductForm] = useState(false);
@@ -89,6 +114,48 @@ export default function Products() {
     }).format(value);
   };
 
+  const handleSaveMaterial = async (data: MaterialInput) => {
+    try {
+      setSavingMaterial(true);
+      const saved = await saveMaterial(data, editingMaterial || undefined);
+      toast({
+        title: editingMaterial ? "Material atualizado" : "Material cadastrado",
+        description: `${saved.name}: ${saved.quantity} ${unitLabels[saved.unit]} em estoque`,
+      });
+      setShowMaterialForm(false);
+      setEditingMaterial(null);
+    } catch (error) {
+      console.error("❌ Erro ao salvar material:", error);
+      toast({
+        title: "Erro ao salvar material",
+        description: (error as Error).message || "Ocorreu um erro inesperado",
+        variant: "destructive",
+      });
+    } finally {
+      setSavingMaterial(false);
+    }
+  };
+
+  const handleRecordMovement = async (
+    material: RawMaterial,
+    input: MovementInput,
+  ) => {
+    try {
+      const updated = await recordMovement(material.id, input);
+      toast({
+        title: "Movimento registrado",
+        description: `${updated.name}: saldo ${updated.quantity} ${unitLabels[updated.unit]}`,
+      });
+      setMovingMaterial(null);
+    } catch (error) {
+      toast({
+        title: "Movimento não registrado",
+        description: (error as Error).message || "Ocorreu um erro inesperado",
+        variant: "destructive",
+      });
+    }
+  };
+
   const handleSaveProduct = async (formData: ProductFormValues) => {
     try {
       setSavingProduct(true);
@@ -123,6 +190,9 @@ export default function Products() {
               sizes: formData.sizes || [],
               colors: formData.colors || [],
               fabrics: formData.fabrics || [],
+              bom: formData.bom || [],
+              routing: formData.routing || [],
+              barcodes: formData.barcodes || [],
             },
           ],
           specifications: [],
@@ -174,6 +244,9 @@ export default function Products() {
               sizes: formData.sizes || [],
               colors: formData.colors || [],
               fabrics: formData.fabrics || [],
+              bom: formData.bom || [],
+              routing: formData.routing || [],
+              barcodes: formData.barcodes || [],
             },
           ],
           specifications: [],
@@ -276,9 +349,12 @@ export default function Products() {
   const lowStockProducts = products.filter((p) =>
     p.models.some((m) => m.stockQuantity <= m.minimumStock),
   ).length;
-  const lowStockMaterials = rawMaterials.filter(
-    (m) => m.quantity <= m.minimumStock,
-  ).length;
+  const filteredMaterials = rawMaterials.filter(
+    (material) =>
+      material.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
+      material.supplier.toLowerCase().includes(searchTerm.toLowerCase()),
+  );
+  const lowStockMaterials = rawMaterials.filter(isLowStock).length;
 
   const ProductCard = ({ product }: { product: Product }) => {
     const totalStock = product.models.reduce(
@@ -406,6 +482,14 @@ export default function Products() {
                 {material.quantity} {unitLabels[material.unit]}
               </span>
             </div>
+            {material.reservedQuantity > 0 && (
+              <div className="flex justify-between text-sm">
+                <span>Reservado:</span>
+                <span className="font-medium text-orange-500">
+                  {material.reservedQuantity} {unitLabels[material.unit]}
+                </span>
+              </div>
+            )}
             <div className="flex justify-between text-sm">
               <span>Mínimo:</span>
               <span className="font-medium">
@@ -434,6 +518,36 @@ export default function Products() {
               />
             </div>
           </div>
+
+          <div className="flex flex-wrap gap-2 mt-4">
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => setMovingMaterial(material)}
+            >
+              <ArrowLeftRight className="h-3 w-3 mr-1" />
+              Movimentar
+            </Button>
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => setLedgerMaterial(material)}
+            >
+              <History className="h-3 w-3 mr-1" />
+              Histórico
+            </Button>
+            <Button
+              size="sm"
+              variant="ghost"
+              onClick={() => {
+                setEditingMaterial(material);
+                setShowMaterialForm(true);
+              }}
+            >
+              <Edit className="h-3 w-3 mr-1" />
+              Editar
+            </Button>
+          </div>
         </CardContent>
       </Card>
     );
@@ -556,6 +670,7 @@ export default function Products() {
           <div className="flex flex-col gap-3 sm:flex-row sm:items-center sm:justify-between">
             <TabsList className="w-full overflow-x-auto whitespace-nowrap">
               <TabsTrigger value="products">Catálogo de Produtos</TabsTrigger>
+              <TabsTrigger value="materials">Matérias-primas</TabsTrigger>
               <TabsTrigger value="barcode">Códigos de Barra</TabsTrigger>
             </TabsList>
 
@@ -602,6 +717,47 @@ export default function Products() {
             )}
           </TabsContent>
 
+          <TabsContent value="materials">
+            <div className="flex justify-end gap-2 mb-4">
+              <Button variant="outline" asChild>
+                <Link to="/purchasing">
+                  <ShoppingCart className="h-4 w-4 mr-2" />
+                  Requisições de Compra
+                  {lowStockMaterials > 0 && ` (${lowStockMaterials})`}
+                </Link>
+              </Button>
+              <Button
+                className="bg-biobox-green hover:bg-biobox-green-dark"
+                onClick={() => {
+                  setEditingMaterial(null);
+                  setShowMaterialForm(true);
+                }}
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Nova Matéria Prima
+              </Button>
+            </div>
+            {filteredMaterials.length === 0 ? (
+              <Card className="bg-card border-border">
+                <CardContent className="p-12 text-center">
+                  <Box className="h-12 w-12 mx-auto mb-4 text-muted-foreground" />
+                  <h3 className="text-lg font-medium mb-2">
+                    Nenhuma matéria-prima cadastrada
+                  </h3>
+                  <p className="text-sm text-muted-foreground">
+                    Cadastre os materiais para controlar o estoque
+                  </p>
+                </CardContent>
+              </Card>
+            ) : (
+              <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+                {filteredMaterials.map((material) => (
+                  <MaterialCard key={material.id} material={material} />
+                ))}
+              </div>
+            )}
+          </TabsContent>
+
           <TabsContent value="barcode">
             <div className="flex flex-wrap gap-2">
               <Button
@@ -801,6 +957,7 @@ export default function Products() {
           <DialogContent className="w-full max-w-[min(100%,40rem)] md:max-w-3xl max-h-[90vh] overflow-y-auto">
             <ProductForm
               product={selectedProduct}
+              products={products}
               onSave={handleSaveProduct}
               onCancel={() => {
                 setShowProductForm(false);
@@ -811,6 +968,30 @@ export default function Products() {
           </DialogContent>
         </Dialog>
 
+        {showMaterialForm && (
+          <MaterialForm
+            material={editingMaterial || undefined}
+            onSave={handleSaveMaterial}
+            onCancel={() => {
+              setShowMaterialForm(false);
+              setEditingMaterial(null);
+            }}
+            saving={savingMaterial}
+          />
+        )}
+
+        <InventoryMovementForm
+          material={movingMaterial}
+          onSubmit={handleRecordMovement}
+          onClose={() => setMovingMaterial(null)}
+        />
+
+        <MaterialLedger
+          material={ledgerMaterial}
+          loadMovements={getMovements}
+          onClose={() => setLedgerMaterial(null)}
+        />
+
         <Dialog open={showBarcode} onOpenChange={setShowBarcode}>
           <DialogContent className="w-full max-w-[min(100%,40rem)] md:max-w-3xl">
             <DialogHeader>
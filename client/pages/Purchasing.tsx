@@ -0,0 +1,516 @@
+import { useMemo, useState } from "react";
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import {
+  AlertTriangle,
+  CheckCircle,
+  FileText,
+  Loader2,
+  Send,
+  ShoppingCart,
+  Trash2,
+  Truck,
+} from "lucide-react";
+import DashboardLayout from "@/components/DashboardLayout";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { useToast } from "@/components/ui/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { useMaterials } from "@/hooks/useMaterials";
+import { usePurchaseRequisitions } from "@/hooks/usePurchaseRequisitions";
+import { useSuppliers } from "@/hooks/useSuppliers";
+import { availableQuantity } from "@/lib/bom";
+import { printPurchaseOrderPDF } from "@/lib/purchaseOrderPdf";
+import {
+  buildRequisitionDrafts,
+  isLowStock,
+  requisitionTotal,
+  suggestedQuantity,
+} from "@/lib/purchasing";
+import { isOverdue } from "@/lib/supplierPerformance";
+import { unitLabels } from "@/types/inventory";
+import {
+  PurchaseRequisition,
+  PurchaseRequisitionStatus,
+  requisitionStatusLabels,
+} from "@/types/purchasing";
+
+const statusColors: Record<PurchaseRequisitionStatus, string> = {
+  draft: "bg-gray-500/10 text-gray-500 border-gray-500/20",
+  sent: "bg-blue-500/10 text-blue-500 border-blue-500/20",
+  received: "bg-biobox-green/10 text-biobox-green border-biobox-green/20",
+};
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat("pt-BR", {
+    style: "currency",
+    currency: "BRL",
+  }).format(value);
+
+const formatDate = (date?: Date) =>
+  date ? format(date, "dd/MM/yyyy HH:mm", { locale: ptBR }) : "-";
+
+export default function Purchasing() {
+  const [statusFilter, setStatusFilter] = useState<
+    "open" | PurchaseRequisitionStatus
+  >("open");
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [generating, setGenerating] = useState(false);
+
+  const { checkPermission } = useAuth();
+  const { toast } = useToast();
+  const { materials, loading: materialsLoading } = useMaterials();
+  const { suppliers } = useSuppliers();
+  const {
+    requisitions,
+    loading,
+    createRequisitions,
+    advanceRequisition,
+    updateDraft,
+    deleteRequisition,
+  } = usePurchaseRequisitions();
+
+  const canManage = checkPermission("products", "edit");
+
+  const lowStock = useMemo(() => materials.filter(isLowStock), [materials]);
+  const drafts = useMemo(
+    () => buildRequisitionDrafts(materials, requisitions, suppliers),
+    [materials, requisitions, suppliers],
+  );
+  const requestedIds = useMemo(
+    () =>
+      new Set(
+        requisitions
+          .filter((r) => r.status !== "received")
+          .flatMap((r) => r.items.map((item) => item.materialId)),
+      ),
+    [requisitions],
+  );
+
+  const supplierOf = (record: { supplierId?: string }) =>
+    suppliers.find((s) => s.id === record.supplierId);
+
+  const countByStatus = (status: PurchaseRequisitionStatus) =>
+    requisitions.filter((r) => r.status === status).length;
+
+  const filteredRequisitions = requisitions.filter((r) =>
+    statusFilter === "open"
+      ? r.status !== "received"
+      : r.status === statusFilter,
+  );
+
+  const showError = (title: string, error: unknown) =>
+    toast({
+      title,
+      description: (error as Error).message || "Tente novamente",
+      variant: "destructive",
+    });
+
+  const handleGenerate = async () => {
+    setGenerating(true);
+    try {
+      const created = await createRequisitions(drafts);
+      toast({
+        title: "Requisições geradas",
+        description: `${created.length} requisição(ões) em rascunho, agrupadas por fornecedor`,
+      });
+      setStatusFilter("open");
+    } catch (error) {
+      showError("Erro ao gerar requisições", error);
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  const handleAdvance = async (
+    requisition: PurchaseRequisition,
+    to: PurchaseRequisitionStatus,
+  ) => {
+    setBusyId(requisition.id);
+    try {
+      // O prazo do fornecedor cadastrado define a entrega prevista
+      await advanceRequisition(
+        requisition.id,
+        to,
+        supplierOf(requisition)?.leadTimeDays,
+      );
+      toast({
+        title:
+          to === "received" ? "Recebimento registrado" : "Requisição enviada",
+        description:
+          to === "received"
+            ? `Entradas lançadas no estoque para ${requisition.number}`
+            : `${requisition.number} enviada para ${requisition.supplier}`,
+      });
+    } catch (error) {
+      showError("Não foi possível atualizar a requisição", error);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleQuantityChange = async (
+    requisition: PurchaseRequisition,
+    materialId: string,
+    value: string,
+  ) => {
+    const quantity = parseFloat(value.replace(",", "."));
+    const item = requisition.items.find((i) => i.materialId === materialId);
+    if (!item || !Number.isFinite(quantity) || quantity === item.quantity) {
+      return;
+    }
+    try {
+      await updateDraft(requisition, {
+        items: requisition.items.map((i) =>
+          i.materialId === materialId ? { ...i, quantity } : i,
+        ),
+        notes: requisition.notes,
+      });
+    } catch (error) {
+      showError("Erro ao salvar quantidade", error);
+    }
+  };
+
+  const handleDelete = async (requisition: PurchaseRequisition) => {
+    if (!confirm(`Excluir a requisição ${requisition.number}?`)) return;
+    try {
+      await deleteRequisition(requisition);
+    } catch (error) {
+      showError("Erro ao excluir requisição", error);
+    }
+  };
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-foreground">Compras</h1>
+            <p className="text-muted-foreground">
+              Requisições de compra de matéria-prima por fornecedor
+            </p>
+          </div>
+          {canManage && (
+            <Button
+              className="bg-biobox-green hover:bg-biobox-green-dark"
+              onClick={handleGenerate}
+              disabled={generating || drafts.length === 0}
+            >
+              {generating ? (
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+              ) : (
+                <ShoppingCart className="h-4 w-4 mr-2" />
+              )}
+              Gerar Requisições
+            </Button>
+          )}
+        </div>
+
+        {/* Statistics Cards */}
+        <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-4">
+          {[
+            {
+              label: "Materiais Baixos",
+              value: lowStock.length,
+              icon: AlertTriangle,
+              color: "text-orange-500",
+            },
+            {
+              label: "Rascunhos",
+              value: countByStatus("draft"),
+              icon: FileText,
+              color: "text-gray-500",
+            },
+            {
+              label: "Aguardando Entrega",
+              value: countByStatus("sent"),
+              icon: Truck,
+              color: "text-blue-500",
+            },
+            {
+              label: "Recebidas",
+              value: countByStatus("received"),
+              icon: CheckCircle,
+              color: "text-biobox-green",
+            },
+          ].map(({ label, value, icon: Icon, color }) => (
+            <Card key={label} className="bg-card border-border">
+              <CardContent className="p-6">
+                <div className="flex items-center">
+                  <Icon className={`h-8 w-8 ${color}`} />
+                  <div className="ml-4">
+                    <p className="text-sm font-medium text-muted-foreground">
+                      {label}
+                    </p>
+                    <p className="text-2xl font-bold text-foreground">
+                      {value}
+                    </p>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+
+        {/* Materiais abaixo do mínimo */}
+        <Card className="bg-card border-border">
+          <CardHeader>
+            <CardTitle className="text-lg">
+              Materiais com Estoque Baixo
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {materialsLoading ? (
+              <div className="flex justify-center py-6">
+                <Loader2 className="h-6 w-6 animate-spin text-biobox-green" />
+              </div>
+            ) : lowStock.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                Todos os materiais estão acima do estoque mínimo.
+              </p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Material</TableHead>
+                    <TableHead>Fornecedor</TableHead>
+                    <TableHead className="text-right">Disponível</TableHead>
+                    <TableHead className="text-right">Mínimo</TableHead>
+                    <TableHead className="text-right">Sugerido</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {lowStock.map((material) => (
+                    <TableRow key={material.id}>
+                      <TableCell className="font-medium">
+                        {material.name}
+                      </TableCell>
+                      <TableCell>
+                        {supplierOf(material)?.name || material.supplier || "-"}
+                        {supplierOf(material) && (
+                          <div className="text-xs text-muted-foreground">
+                            Prazo de {supplierOf(material).leadTimeDays} dias
+                          </div>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-right text-red-500">
+                        {availableQuantity(material)}{" "}
+                        {unitLabels[material.unit]}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {material.minimumStock}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {suggestedQuantity(material)}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {requestedIds.has(material.id) && (
+                          <Badge variant="outline">Em requisição</Badge>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Requisições */}
+        <div className="space-y-4">
+          <Tabs
+            value={statusFilter}
+            onValueChange={(value) =>
+              setStatusFilter(value as typeof statusFilter)
+            }
+          >
+            <TabsList>
+              <TabsTrigger value="open">Em aberto</TabsTrigger>
+              <TabsTrigger value="draft">Rascunhos</TabsTrigger>
+              <TabsTrigger value="sent">Enviadas</TabsTrigger>
+              <TabsTrigger value="received">Recebidas</TabsTrigger>
+            </TabsList>
+          </Tabs>
+
+          {loading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin text-biobox-green" />
+            </div>
+          ) : filteredRequisitions.length === 0 ? (
+            <p className="text-sm text-muted-foreground py-4">
+              Nenhuma requisição nesta situação.
+            </p>
+          ) : (
+            filteredRequisitions.map((requisition) => {
+              const isDraft = requisition.status === "draft";
+              const busy = busyId === requisition.id;
+              return (
+                <Card key={requisition.id} className="bg-card border-border">
+                  <CardHeader className="pb-3">
+                    <div className="flex flex-col gap-2 sm:flex-row sm:items-start sm:justify-between">
+                      <div>
+                        <CardTitle className="text-lg flex items-center gap-2">
+                          {requisition.number}
+                          <Badge
+                            variant="outline"
+                            className={statusColors[requisition.status]}
+                          >
+                            {requisitionStatusLabels[requisition.status]}
+                          </Badge>
+                          {isOverdue(requisition) && (
+                            <Badge
+                              variant="outline"
+                              className="bg-red-500/10 text-red-500 border-red-500/20"
+                            >
+                              Atrasada
+                            </Badge>
+                          )}
+                        </CardTitle>
+                        <p className="text-sm text-muted-foreground">
+                          {requisition.supplier} · criada por{" "}
+                          {requisition.createdBy} em{" "}
+                          {formatDate(requisition.createdAt)}
+                        </p>
+                        {requisition.sentAt && (
+                          <p className="text-xs text-muted-foreground">
+                            Enviada em {formatDate(requisition.sentAt)}
+                            {requisition.expectedAt &&
+                              ` · entrega prevista ${format(requisition.expectedAt, "dd/MM/yyyy", { locale: ptBR })}`}
+                          </p>
+                        )}
+                        {requisition.receivedAt && (
+                          <p className="text-xs text-muted-foreground">
+                            Recebida em {formatDate(requisition.receivedAt)} por{" "}
+                            {requisition.receivedBy}
+                          </p>
+                        )}
+                      </div>
+                      <div className="flex flex-wrap gap-2">
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() =>
+                            printPurchaseOrderPDF(
+                              requisition,
+                              supplierOf(requisition),
+                            )
+                          }
+                        >
+                          <FileText className="h-4 w-4 mr-1" />
+                          PDF
+                        </Button>
+                        {canManage && isDraft && (
+                          <>
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              className="text-red-500"
+                              onClick={() => handleDelete(requisition)}
+                              disabled={busy}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              size="sm"
+                              className="bg-blue-500 hover:bg-blue-600"
+                              onClick={() => handleAdvance(requisition, "sent")}
+                              disabled={busy}
+                            >
+                              <Send className="h-4 w-4 mr-1" />
+                              Marcar como Enviada
+                            </Button>
+                          </>
+                        )}
+                        {canManage && requisition.status === "sent" && (
+                          <Button
+                            size="sm"
+                            className="bg-biobox-green hover:bg-biobox-green-dark"
+                            onClick={() =>
+                              handleAdvance(requisition, "received")
+                            }
+                            disabled={busy}
+                          >
+                            {busy ? (
+                              <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                            ) : (
+                              <CheckCircle className="h-4 w-4 mr-1" />
+                            )}
+                            Registrar Recebimento
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                  </CardHeader>
+                  <CardContent>
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Material</TableHead>
+                          <TableHead className="text-right">
+                            Quantidade
+                          </TableHead>
+                          <TableHead className="text-right">
+                            Valor unit.
+                          </TableHead>
+                          <TableHead className="text-right">Total</TableHead>
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {requisition.items.map((item) => (
+                          <TableRow key={item.materialId}>
+                            <TableCell>{item.materialName}</TableCell>
+                            <TableCell className="text-right">
+                              {canManage && isDraft ? (
+                                <Input
+                                  type="number"
+                                  step="any"
+                                  min="0"
+                                  className="w-24 ml-auto text-right"
+                                  defaultValue={item.quantity}
+                                  onBlur={(e) =>
+                                    handleQuantityChange(
+                                      requisition,
+                                      item.materialId,
+                                      e.target.value,
+                                    )
+                                  }
+                                />
+                              ) : (
+                                `${item.quantity} ${unitLabels[item.unit] || ""}`
+                              )}
+                            </TableCell>
+                            <TableCell className="text-right">
+                              {formatCurrency(item.unitCost)}
+                            </TableCell>
+                            <TableCell className="text-right">
+                              {formatCurrency(item.quantity * item.unitCost)}
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                    <div className="flex justify-end pt-3 text-sm font-semibold">
+                      Total: {formatCurrency(requisitionTotal(requisition))}
+                    </div>
+                  </CardContent>
+                </Card>
+              );
+            })
+          )}
+        </div>
+      </div>
+    </DashboardLayout>
+  );
+}
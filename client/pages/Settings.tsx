@@ -1,6 +1,7 @@
 import { useState, useEffect } from "react";
 import DashboardLayout from "@/components/DashboardLayout";
 import BarcodeGenerator from "@/components/BarcodeGenerator";
+import LabelTemplateDesigner from "@/components/LabelTemplateDesigner";
 import UserManagement from "@/components/UserManagement";
 import { useFirebase } from "@/hooks/useFirebase";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
@@ -19,6 +20,11 @@ import {
 import { Badge } from "@/components/ui/badge";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { useAuth } from "@/hooks/useAuth";
+import {
+  DEFAULT_ORDER_NUMBER_CONFIG,
+  formatOrderNumber,
+} from "@shared/orderNumber";
+import { buildGtin13, normalizeGtinPrefix } from "@shared/gtin";
 import {
   Settings as SettingsIcon,
   User,
@@ -69,6 +75,19 @@ interface SystemSettings {
   autoBackup: boolean;
   backupFrequency: "daily" | "weekly" | "monthly";
   lastBackup?: Date;
+  orderNumberPrefix: string;
+  orderNumberPadding: number;
+  gtinPrefix: string;
+}
+
+/** Exemplo do primeiro GTIN-13 gerado com o prefixo, ou o motivo de não gerar. */
+function gtinPrefixHint(prefix: string): string {
+  if (!prefix) return "Sem prefixo, os códigos GTIN-13 não são gerados";
+  try {
+    return `Códigos de produto: ${buildGtin13(normalizeGtinPrefix(prefix), 0)}, ...`;
+  } catch (error) {
+    return (error as Error).message;
+  }
 }
 
 export default function Settings() {
@@ -104,6 +123,9 @@ export default function Settings() {
     autoBackup: true,
     backupFrequency: "daily",
     lastBackup: new Date(),
+    orderNumberPrefix: DEFAULT_ORDER_NUMBER_CONFIG.prefix,
+    orderNumberPadding: DEFAULT_ORDER_NUMBER_CONFIG.padding,
+    gtinPrefix: "",
   });
 
   const [saved, setSaved] = useState(false);
@@ -213,12 +235,13 @@ export default function Settings() {
           onValueChange={setActiveTab}
           className="space-y-6"
         >
-          <TabsList className="grid w-full grid-cols-6">
+          <TabsList className="grid w-full grid-cols-7">
             <TabsTrigger value="profile">Perfil</TabsTrigger>
             <TabsTrigger value="notifications">Notificações</TabsTrigger>
             <TabsTrigger value="system">Sistema</TabsTrigger>
             <TabsTrigger value="users">Usuários</TabsTrigger>
             <TabsTrigger value="barcode">Códigos</TabsTrigger>
+            <TabsTrigger value="labels">Etiquetas</TabsTrigger>
             <TabsTrigger value="backup">Backup</TabsTrigger>
           </TabsList>
 
@@ -661,6 +684,74 @@ export default function Settings() {
                   </div>
                 </div>
 
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div>
+                    <Label htmlFor="orderNumberPrefix">
+                      Prefixo do Número de Pedido
+                    </Label>
+                    <Input
+                      id="orderNumberPrefix"
+                      value={systemSettings.orderNumberPrefix}
+                      onChange={(e) =>
+                        setSystemSettings((prev) => ({
+                          ...prev,
+                          orderNumberPrefix: e.target.value.toUpperCase(),
+                        }))
+                      }
+                      placeholder={DEFAULT_ORDER_NUMBER_CONFIG.prefix}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="orderNumberPadding">
+                      Dígitos da Sequência
+                    </Label>
+                    <Input
+                      id="orderNumberPadding"
+                      type="number"
+                      min={1}
+                      max={10}
+                      value={systemSettings.orderNumberPadding}
+                      onChange={(e) =>
+                        setSystemSettings((prev) => ({
+                          ...prev,
+                          orderNumberPadding:
+                            parseInt(e.target.value) ||
+                            DEFAULT_ORDER_NUMBER_CONFIG.padding,
+                        }))
+                      }
+                    />
+                    <p className="text-xs text-muted-foreground mt-1">
+                      Próximos pedidos:{" "}
+                      {formatOrderNumber(1, new Date().getFullYear(), {
+                        prefix:
+                          systemSettings.orderNumberPrefix ||
+                          DEFAULT_ORDER_NUMBER_CONFIG.prefix,
+                        padding: systemSettings.orderNumberPadding,
+                      })}
+                      , ... (sequência reinicia a cada ano)
+                    </p>
+                  </div>
+                  <div>
+                    <Label htmlFor="gtinPrefix">Prefixo GS1 da Empresa</Label>
+                    <Input
+                      id="gtinPrefix"
+                      inputMode="numeric"
+                      maxLength={11}
+                      value={systemSettings.gtinPrefix}
+                      onChange={(e) =>
+                        setSystemSettings((prev) => ({
+                          ...prev,
+                          gtinPrefix: e.target.value.replace(/\D/g, ""),
+                        }))
+                      }
+                      placeholder="Ex: 7891234"
+                    />
+                    <p className="text-xs text-muted-foreground mt-1">
+                      {gtinPrefixHint(systemSettings.gtinPrefix)}
+                    </p>
+                  </div>
+                </div>
+
                 <Button
                   onClick={handleSaveSystemSettings}
                   className="bg-biobox-green hover:bg-biobox-green-dark"
@@ -680,6 +771,10 @@ export default function Settings() {
             <BarcodeGenerator />
           </TabsContent>
 
+          <TabsContent value="labels">
+            <LabelTemplateDesigner />
+          </TabsContent>
+
           <TabsContent value="backup">
             <div className="grid gap-6 md:grid-cols-2">
               <Card className="bg-card border-border">
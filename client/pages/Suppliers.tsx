@@ -0,0 +1,419 @@
+import { useMemo, useState } from "react";
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import {
+  Clock,
+  Edit,
+  Eye,
+  Loader2,
+  Plus,
+  Search,
+  Trash2,
+  Truck,
+} from "lucide-react";
+import DashboardLayout from "@/components/DashboardLayout";
+import SupplierForm from "@/components/SupplierForm";
+import { Card, CardContent } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/components/ui/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { useMaterials } from "@/hooks/useMaterials";
+import { usePurchaseRequisitions } from "@/hooks/usePurchaseRequisitions";
+import { useSuppliers } from "@/hooks/useSuppliers";
+import type { SupplierInput } from "@/lib/suppliers";
+import {
+  materialsFor,
+  priceHistory,
+  supplierPerformance,
+} from "@/lib/supplierPerformance";
+import { unitLabels } from "@/types/inventory";
+import type { Supplier } from "@/types/supplier";
+
+const formatCurrency = (value: number) =>
+  new Intl.NumberFormat("pt-BR", {
+    style: "currency",
+    currency: "BRL",
+  }).format(value);
+
+const formatRate = (rate: number | null) =>
+  rate === null ? "-" : `${Math.round(rate * 100)}%`;
+
+export default function Suppliers() {
+  const [searchTerm, setSearchTerm] = useState("");
+  const [showForm, setShowForm] = useState(false);
+  const [editing, setEditing] = useState<Supplier | null>(null);
+  const [details, setDetails] = useState<Supplier | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  const { checkPermission } = useAuth();
+  const { toast } = useToast();
+  const { suppliers, loading, saveSupplier, deleteSupplier } = useSuppliers();
+  const { materials } = useMaterials();
+  const { requisitions } = usePurchaseRequisitions();
+
+  const canManage = checkPermission("products", "edit");
+
+  const filteredSuppliers = suppliers.filter((supplier) => {
+    const term = searchTerm.toLowerCase();
+    return (
+      supplier.name.toLowerCase().includes(term) ||
+      supplier.cnpj.includes(searchTerm) ||
+      supplier.contacts.some((c) => c.name.toLowerCase().includes(term))
+    );
+  });
+
+  const performance = useMemo(
+    () =>
+      new Map(
+        suppliers.map((s) => [s.id, supplierPerformance(s, requisitions)]),
+      ),
+    [suppliers, requisitions],
+  );
+
+  const handleSave = async (data: SupplierInput) => {
+    setSaving(true);
+    try {
+      await saveSupplier(data, editing || undefined);
+      toast({
+        title: editing ? "Fornecedor atualizado" : "Fornecedor cadastrado",
+        description: data.name,
+      });
+      setShowForm(false);
+      setEditing(null);
+    } catch (error) {
+      toast({
+        title: "Erro ao salvar fornecedor",
+        description: (error as Error).message || "Tente novamente",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (supplier: Supplier) => {
+    const linked = materialsFor(supplier, materials).length;
+    const warning = linked
+      ? ` ${linked} material(is) continuarão com o nome do fornecedor.`
+      : "";
+    if (!confirm(`Excluir o fornecedor ${supplier.name}?${warning}`)) return;
+    try {
+      await deleteSupplier(supplier.id);
+    } catch (error) {
+      toast({
+        title: "Erro ao excluir fornecedor",
+        description: (error as Error).message || "Tente novamente",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const detailsPerformance = details && performance.get(details.id);
+  const detailsPrices = details ? priceHistory(details, requisitions) : [];
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+          <div>
+            <h1 className="text-2xl font-bold text-foreground">Fornecedores</h1>
+            <p className="text-muted-foreground">
+              Cadastro, prazos de entrega e desempenho dos fornecedores
+            </p>
+          </div>
+          {canManage && (
+            <Button
+              className="bg-biobox-green hover:bg-biobox-green-dark"
+              onClick={() => {
+                setEditing(null);
+                setShowForm(true);
+              }}
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Novo Fornecedor
+            </Button>
+          )}
+        </div>
+
+        <div className="relative max-w-md">
+          <Search className="absolute left-3 top-1/2 h-4 w-4 -translate-y-1/2 text-muted-foreground" />
+          <Input
+            placeholder="Buscar por nome, CNPJ ou contato..."
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            className="pl-10"
+          />
+        </div>
+
+        <Card className="bg-card border-border">
+          <CardContent className="p-0">
+            {loading ? (
+              <div className="flex justify-center py-8">
+                <Loader2 className="h-6 w-6 animate-spin text-biobox-green" />
+              </div>
+            ) : filteredSuppliers.length === 0 ? (
+              <p className="text-sm text-muted-foreground p-6">
+                Nenhum fornecedor encontrado.
+              </p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Fornecedor</TableHead>
+                    <TableHead>Contato</TableHead>
+                    <TableHead className="text-right">Prazo</TableHead>
+                    <TableHead>Pagamento</TableHead>
+                    <TableHead className="text-right">Materiais</TableHead>
+                    <TableHead className="text-right">Pontualidade</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {filteredSuppliers.map((supplier) => {
+                    const contact = supplier.contacts[0];
+                    const stats = performance.get(supplier.id);
+                    return (
+                      <TableRow key={supplier.id}>
+                        <TableCell>
+                          <div className="font-medium flex items-center gap-2">
+                            {supplier.name}
+                            {supplier.status === "inactive" && (
+                              <Badge variant="outline">Inativo</Badge>
+                            )}
+                          </div>
+                          <div className="text-xs text-muted-foreground">
+                            {supplier.cnpj || "CNPJ não informado"}
+                          </div>
+                        </TableCell>
+                        <TableCell>
+                          {contact ? (
+                            <>
+                              <div>{contact.name}</div>
+                              <div className="text-xs text-muted-foreground">
+                                {contact.phone || contact.email}
+                              </div>
+                            </>
+                          ) : (
+                            "-"
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right whitespace-nowrap">
+                          {supplier.leadTimeDays} dias
+                        </TableCell>
+                        <TableCell>{supplier.paymentTerms || "-"}</TableCell>
+                        <TableCell className="text-right">
+                          {materialsFor(supplier, materials).length}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {formatRate(stats?.onTimeRate ?? null)}
+                        </TableCell>
+                        <TableCell className="text-right whitespace-nowrap">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setDetails(supplier)}
+                          >
+                            <Eye className="h-4 w-4" />
+                          </Button>
+                          {canManage && (
+                            <>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => {
+                                  setEditing(supplier);
+                                  setShowForm(true);
+                                }}
+                              >
+                                <Edit className="h-4 w-4" />
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                className="text-red-500"
+                                onClick={() => handleDelete(supplier)}
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            </>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <SupplierForm
+        open={showForm}
+        supplier={editing}
+        saving={saving}
+        onSave={handleSave}
+        onClose={() => {
+          setShowForm(false);
+          setEditing(null);
+        }}
+      />
+
+      {/* Detalhes e desempenho */}
+      <Dialog
+        open={!!details}
+        onOpenChange={(open) => !open && setDetails(null)}
+      >
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{details?.name}</DialogTitle>
+            <DialogDescription>
+              {details?.cnpj || "CNPJ não informado"} · Prazo de{" "}
+              {details?.leadTimeDays} dias ·{" "}
+              {details?.paymentTerms || "Pagamento não informado"}
+            </DialogDescription>
+          </DialogHeader>
+
+          {details && detailsPerformance && (
+            <div className="space-y-6">
+              <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
+                {[
+                  {
+                    label: "Recebimentos",
+                    value: detailsPerformance.received,
+                    icon: Truck,
+                  },
+                  {
+                    label: "No prazo",
+                    value: `${detailsPerformance.onTime} (${formatRate(detailsPerformance.onTimeRate)})`,
+                    icon: Clock,
+                  },
+                  {
+                    label: "Prazo real médio",
+                    value:
+                      detailsPerformance.averageLeadTimeDays === null
+                        ? "-"
+                        : `${detailsPerformance.averageLeadTimeDays} dias`,
+                    icon: Clock,
+                  },
+                  {
+                    label: "Total comprado",
+                    value: formatCurrency(detailsPerformance.totalPurchased),
+                    icon: Truck,
+                  },
+                ].map(({ label, value, icon: Icon }) => (
+                  <div key={label} className="rounded-md border p-3">
+                    <div className="flex items-center gap-1 text-xs text-muted-foreground">
+                      <Icon className="h-3 w-3" />
+                      {label}
+                    </div>
+                    <div className="text-lg font-semibold">{value}</div>
+                  </div>
+                ))}
+              </div>
+
+              {details.contacts.length > 0 && (
+                <div className="space-y-1">
+                  <h3 className="text-sm font-semibold">Contatos</h3>
+                  {details.contacts.map((contact, index) => (
+                    <p key={index} className="text-sm">
+                      <span className="font-medium">{contact.name}</span>
+                      {contact.role && ` (${contact.role})`}
+                      {[contact.email, contact.phone]
+                        .filter(Boolean)
+                        .map((info) => ` · ${info}`)}
+                    </p>
+                  ))}
+                </div>
+              )}
+
+              <div className="space-y-1">
+                <h3 className="text-sm font-semibold">Materiais fornecidos</h3>
+                <div className="flex flex-wrap gap-2">
+                  {materialsFor(details, materials).map((material) => (
+                    <Badge key={material.id} variant="secondary">
+                      {material.name}
+                    </Badge>
+                  ))}
+                  {materialsFor(details, materials).length === 0 && (
+                    <span className="text-sm text-muted-foreground">
+                      Nenhum material vinculado.
+                    </span>
+                  )}
+                </div>
+              </div>
+
+              <div className="space-y-1">
+                <h3 className="text-sm font-semibold">Histórico de preços</h3>
+                {detailsPrices.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">
+                    Nenhuma compra recebida deste fornecedor.
+                  </p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Data</TableHead>
+                        <TableHead>Material</TableHead>
+                        <TableHead>Requisição</TableHead>
+                        <TableHead className="text-right">
+                          Valor unit.
+                        </TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {detailsPrices.map((entry) => {
+                        const material = materials.find(
+                          (m) => m.id === entry.materialId,
+                        );
+                        return (
+                          <TableRow
+                            key={`${entry.requisitionNumber}-${entry.materialId}`}
+                          >
+                            <TableCell>
+                              {format(entry.date, "dd/MM/yyyy", {
+                                locale: ptBR,
+                              })}
+                            </TableCell>
+                            <TableCell>{entry.materialName}</TableCell>
+                            <TableCell>{entry.requisitionNumber}</TableCell>
+                            <TableCell className="text-right">
+                              {formatCurrency(entry.unitCost)}
+                              {material && (
+                                <span className="text-xs text-muted-foreground">
+                                  {" "}
+                                  / {unitLabels[material.unit]}
+                                </span>
+                              )}
+                            </TableCell>
+                          </TableRow>
+                        );
+                      })}
+                    </TableBody>
+                  </Table>
+                )}
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </DashboardLayout>
+  );
+}
@@ -0,0 +1,470 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { format } from "date-fns";
+import { ptBR } from "date-fns/locale";
+import { Fingerprint, PackageCheck, Printer, ScanLine } from "lucide-react";
+import DashboardLayout from "@/components/DashboardLayout";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { useToast } from "@/components/ui/use-toast";
+import { useLabelTemplates } from "@/hooks/useLabelTemplates";
+import { useMaterials } from "@/hooks/useMaterials";
+import { useOrdersSubscription } from "@/hooks/useOrdersSubscription";
+import { useProductionConfig } from "@/hooks/useProductionConfig";
+import { useUnitSerials } from "@/hooks/useUnitSerials";
+import { generateLabelPDF } from "@/lib/barcodePrint";
+import { renderLabelTemplate } from "@/lib/labelTemplates";
+import { DELIVERY_STAGE, findSerial, unitTrace } from "@/lib/traceability";
+import { cn } from "@/lib/utils";
+import type { InventoryMovement } from "@/types/inventory";
+import type { LabelData } from "@/types/label";
+import type { UnitSerial } from "@/types/production";
+
+const stageStatusLabels: Record<string, string> = {
+  pending: "Pendente",
+  in_progress: "Em andamento",
+  completed: "Concluída",
+};
+
+const stageStatusColors: Record<string, string> = {
+  pending: "bg-gray-500/10 text-gray-600 border-gray-500/20",
+  in_progress: "bg-blue-500/10 text-blue-600 border-blue-500/20",
+  completed: "bg-green-500/10 text-green-600 border-green-500/20",
+};
+
+// Unidades listadas quando nenhum pedido foi buscado
+const RECENT_UNITS = 50;
+
+const formatDate = (date?: Date | string) =>
+  date ? format(new Date(date), "dd/MM/yyyy HH:mm", { locale: ptBR }) : "-";
+
+const unitLabelData = (unit: UnitSerial): LabelData => ({
+  code: unit.id,
+  order_number: unit.orderNumber,
+  fragment_number: unit.fragmentNumber,
+  unit_number: unit.unitNumber,
+  unit_count: unit.unitCount,
+  product_name: unit.productName,
+  size: unit.size,
+  color: unit.color,
+  customer_name: unit.customerName,
+});
+
+export default function Traceability() {
+  const [code, setCode] = useState("");
+  const [serialId, setSerialId] = useState<string | null>(null);
+  const [orderNumber, setOrderNumber] = useState<string | null>(null);
+  const [deliveryMode, setDeliveryMode] = useState(false);
+  const [movements, setMovements] = useState<InventoryMovement[]>([]);
+  const [working, setWorking] = useState(false);
+  const scanRef = useRef<HTMLInputElement>(null);
+
+  const { toast } = useToast();
+  const { orders } = useOrdersSubscription();
+  const { stages } = useProductionConfig();
+  const { materials, getOrderMovements } = useMaterials();
+  const { templateFor } = useLabelTemplates();
+  const { serials, loading, scanUnit } = useUnitSerials();
+
+  const unit = serials.find((s) => s.id === serialId);
+  const order = unit ? orders.find((o) => o.id === unit.orderId) : undefined;
+
+  useEffect(() => {
+    if (!unit) return;
+    getOrderMovements(unit.orderNumber)
+      .then(setMovements)
+      .catch((error) => {
+        console.error("❌ [Traceability] Erro ao carregar materiais:", error);
+        setMovements([]);
+      });
+  }, [unit?.orderNumber]);
+
+  const trace = useMemo(
+    () => (unit ? unitTrace(unit, order, stages, movements) : null),
+    [unit, order, stages, movements],
+  );
+
+  const listed = orderNumber
+    ? serials.filter((s) => s.orderNumber === orderNumber)
+    : [...serials]
+        .sort((a, b) => b.issuedAt.getTime() - a.issuedAt.getTime())
+        .slice(0, RECENT_UNITS);
+
+  const stageName = (stageId: string) =>
+    stageId === DELIVERY_STAGE
+      ? "Entrega"
+      : stages.find((s) => s.id === stageId)?.name || stageId;
+
+  const lastScan = (item: UnitSerial) => item.scans[item.scans.length - 1];
+
+  const registerDelivery = async (target: UnitSerial) => {
+    setWorking(true);
+    try {
+      await scanUnit(target.id, DELIVERY_STAGE);
+      toast({
+        title: "Entrega registrada",
+        description: `${target.id} · ${target.customerName || target.orderNumber}`,
+      });
+    } catch (error) {
+      toast({
+        title: "Não foi possível registrar a entrega",
+        description: (error as Error).message || "Tente novamente",
+        variant: "destructive",
+      });
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleScan = async () => {
+    const value = code.trim();
+    setCode("");
+    scanRef.current?.focus();
+    const found = findSerial(serials, value);
+    if (found) {
+      setSerialId(found.id);
+      setOrderNumber(found.orderNumber);
+      if (deliveryMode) await registerDelivery(found);
+      return;
+    }
+    const byOrder = serials.find(
+      (s) => s.orderNumber.toUpperCase() === value.toUpperCase(),
+    );
+    if (byOrder) {
+      setSerialId(null);
+      setOrderNumber(byOrder.orderNumber);
+      return;
+    }
+    toast({
+      title: "Nada encontrado",
+      description: `Nenhuma unidade com a série ou pedido ${value}.`,
+      variant: "destructive",
+    });
+  };
+
+  const handlePrint = async (units: UnitSerial[]) => {
+    try {
+      const template = templateFor("unit");
+      const pdf = await generateLabelPDF(
+        units.map((u) => renderLabelTemplate(template, unitLabelData(u))),
+      );
+      pdf.autoPrint();
+      window.open(pdf.output("bloburl"), "_blank");
+    } catch (error) {
+      console.error("❌ Erro ao imprimir etiquetas das unidades:", error);
+      toast({
+        title: "Erro ao imprimir",
+        description: (error as Error).message || "Ocorreu um erro inesperado",
+        variant: "destructive",
+      });
+    }
+  };
+
+  const materialName = (materialId: string) =>
+    materials.find((m) => m.id === materialId)?.name || materialId;
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <div>
+          <h1 className="text-2xl font-bold text-foreground">
+            Rastreabilidade
+          </h1>
+          <p className="text-muted-foreground">
+            Número de série por unidade: etapas, operadores, lotes de material e
+            entrega
+          </p>
+        </div>
+
+        {/* Leitura da série */}
+        <Card className="bg-card border-border">
+          <CardContent className="pt-6 space-y-4">
+            <form
+              className="flex gap-3"
+              onSubmit={(e) => {
+                e.preventDefault();
+                handleScan();
+              }}
+            >
+              <div className="relative flex-1">
+                <ScanLine className="absolute left-3 top-1/2 h-5 w-5 -translate-y-1/2 text-muted-foreground" />
+                <Input
+                  ref={scanRef}
+                  value={code}
+                  onChange={(e) => setCode(e.target.value)}
+                  placeholder="Leia a série da unidade ou digite o número do pedido"
+                  className="pl-10"
+                  autoFocus
+                />
+              </div>
+              <Button type="submit" disabled={!code.trim() || working}>
+                Buscar
+              </Button>
+            </form>
+            <div className="flex items-center space-x-2">
+              <Switch
+                id="delivery-mode"
+                checked={deliveryMode}
+                onCheckedChange={setDeliveryMode}
+              />
+              <Label htmlFor="delivery-mode" className="text-sm">
+                Expedição: registrar a entrega a cada leitura
+              </Label>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Histórico da unidade */}
+        {trace && (
+          <Card className="bg-card border-border">
+            <CardHeader>
+              <div className="flex flex-wrap items-start justify-between gap-4">
+                <div>
+                  <CardTitle className="flex items-center space-x-2">
+                    <Fingerprint className="h-5 w-5" />
+                    <span className="font-mono">{trace.unit.id}</span>
+                  </CardTitle>
+                  <p className="text-sm text-muted-foreground mt-1">
+                    Pedido {trace.unit.orderNumber}
+                    {trace.unit.fragmentNumber &&
+                      ` · Fragmento ${trace.unit.fragmentNumber}`}{" "}
+                    · Unidade {trace.unit.unitNumber} de {trace.unit.unitCount}
+                  </p>
+                  <p className="text-sm">
+                    {trace.unit.customerName || "Cliente não informado"} ·{" "}
+                    {[trace.unit.productName, trace.unit.size, trace.unit.color]
+                      .filter(Boolean)
+                      .join(" · ")}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    Série emitida em {formatDate(trace.unit.issuedAt)} por{" "}
+                    {trace.unit.issuedBy}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  {trace.delivery ? (
+                    <Badge className="bg-biobox-green/10 text-biobox-green border-biobox-green/20">
+                      Entregue em {formatDate(trace.delivery.scannedAt)}
+                    </Badge>
+                  ) : (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={working}
+                      onClick={() => registerDelivery(trace.unit)}
+                    >
+                      <PackageCheck className="h-4 w-4 mr-2" />
+                      Registrar entrega
+                    </Button>
+                  )}
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handlePrint([trace.unit])}
+                  >
+                    <Printer className="h-4 w-4 mr-2" />
+                    Etiqueta
+                  </Button>
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <div>
+                <h3 className="font-medium mb-2">Etapas</h3>
+                {trace.stages.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">
+                    Pedido não encontrado; só as leituras da unidade estão
+                    disponíveis.
+                  </p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Etapa</TableHead>
+                        <TableHead>Situação</TableHead>
+                        <TableHead>Início</TableHead>
+                        <TableHead>Conclusão</TableHead>
+                        <TableHead>Operadores</TableHead>
+                        <TableHead>Leituras da unidade</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {trace.stages.map((stage) => (
+                        <TableRow key={stage.stage}>
+                          <TableCell className="font-medium">
+                            {stageName(stage.stage)}
+                          </TableCell>
+                          <TableCell>
+                            <Badge
+                              variant="outline"
+                              className={stageStatusColors[stage.status]}
+                            >
+                              {stageStatusLabels[stage.status] || stage.status}
+                            </Badge>
+                          </TableCell>
+                          <TableCell>{formatDate(stage.started_at)}</TableCell>
+                          <TableCell>
+                            {formatDate(stage.completed_at)}
+                          </TableCell>
+                          <TableCell>
+                            {stage.operators.join(", ") || "-"}
+                          </TableCell>
+                          <TableCell className="text-xs">
+                            {stage.scans.length === 0
+                              ? "-"
+                              : stage.scans.map((scan, index) => (
+                                  <div key={index}>
+                                    {formatDate(scan.scannedAt)} ·{" "}
+                                    {scan.operator}
+                                  </div>
+                                ))}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </div>
+
+              <div>
+                <h3 className="font-medium mb-2">Materiais do pedido</h3>
+                {trace.materials.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">
+                    Nenhuma baixa de material registrada para o pedido.
+                  </p>
+                ) : (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Material</TableHead>
+                        <TableHead className="text-right">Quantidade</TableHead>
+                        <TableHead>Lotes</TableHead>
+                        <TableHead>Baixa</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {trace.materials.map((material) => (
+                        <TableRow key={material.materialId}>
+                          <TableCell className="font-medium">
+                            {materialName(material.materialId)}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {material.quantity}
+                          </TableCell>
+                          <TableCell>
+                            {material.lots.join(", ") || "Sem lote"}
+                          </TableCell>
+                          <TableCell>
+                            {formatDate(material.consumedAt)}
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Unidades */}
+        <Card className="bg-card border-border">
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <CardTitle>
+                {orderNumber
+                  ? `Unidades do pedido ${orderNumber}`
+                  : "Séries emitidas recentemente"}
+              </CardTitle>
+              <div className="flex items-center gap-2">
+                {orderNumber && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => {
+                      setOrderNumber(null);
+                      setSerialId(null);
+                    }}
+                  >
+                    Ver recentes
+                  </Button>
+                )}
+                <Button
+                  variant="outline"
+                  size="sm"
+                  disabled={listed.length === 0}
+                  onClick={() => handlePrint(listed)}
+                >
+                  <Printer className="h-4 w-4 mr-2" />
+                  Imprimir etiquetas ({listed.length})
+                </Button>
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {loading ? (
+              <p className="text-sm text-muted-foreground">Carregando...</p>
+            ) : listed.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                As séries são emitidas quando o fragmento (ou o pedido) entra em
+                produção.
+              </p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Série</TableHead>
+                    <TableHead>Pedido</TableHead>
+                    <TableHead>Produto</TableHead>
+                    <TableHead>Unidade</TableHead>
+                    <TableHead>Última leitura</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {listed.map((item) => {
+                    const scan = lastScan(item);
+                    return (
+                      <TableRow
+                        key={item.id}
+                        className={cn(
+                          "cursor-pointer",
+                          item.id === serialId && "bg-muted/50",
+                        )}
+                        onClick={() => setSerialId(item.id)}
+                      >
+                        <TableCell className="font-mono text-xs">
+                          {item.id}
+                        </TableCell>
+                        <TableCell>{item.orderNumber}</TableCell>
+                        <TableCell>{item.productName || "-"}</TableCell>
+                        <TableCell>
+                          {item.unitNumber}/{item.unitCount}
+                        </TableCell>
+                        <TableCell>
+                          {scan
+                            ? `${stageName(scan.stage)} · ${formatDate(scan.scannedAt)}`
+                            : "-"}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </DashboardLayout>
+  );
+}
@@ -1,3 +1,5 @@
+import type { RoutingStep } from './production';
+
 export interface Product {
   id: string;
   name: string;
@@ -26,6 +28,29 @@ export interface ProductModel {
   stockQuantity: number;
   minimumStock: number;
   isActive: boolean;
+  bom?: BomItem[];
+  routing?: RoutingStep[]; // Vazio = roteiro da categoria
+  barcodes?: VariantBarcode[];
+}
+
+// GTIN-13 de uma variação do modelo; o código do produto fica em Product.barcode.
+// Sem tamanho/cor/tecido o campo vale para qualquer valor.
+export interface VariantBarcode {
+  id: string;
+  code: string;
+  size?: string; // Nome do tamanho (ProductSize.name)
+  color?: string; // Nome da cor (ProductColor.name)
+  fabric?: string; // Nome do tecido (ProductFabric.name)
+}
+
+// Lista de materiais: consumo de matéria-prima por unidade produzida.
+// Sem tamanho/tecido o item vale para todas as variações do modelo.
+export interface BomItem {
+  id: string;
+  materialId: string;
+  quantity: number;
+  size?: string; // Nome do tamanho (ProductSize.name)
+  fabric?: string; // Nome do tecido (ProductFabric.name)
 }
 
 export interface ProductSize {
@@ -77,15 +102,22 @@ export interface InventoryItem {
   movements: InventoryMovement[];
 }
 
+export type InventoryMovementType = 'in' | 'out' | 'adjustment' | 'transfer';
+
 export interface InventoryMovement {
   id: string;
-  type: 'in' | 'out' | 'adjustment' | 'transfer';
-  quantity: number;
+  type: InventoryMovementType;
+  quantity: number; // Ajustes usam valor com sinal (+/-)
   reason: string;
   reference?: string; // Order number, supplier, etc.
   operator: string;
   timestamp: Date;
   notes?: string;
+  materialId?: string;
+  balanceAfter?: number; // Saldo do material após o movimento
+  fromLocation?: string; // Transferências
+  toLocation?: string;
+  lot?: string; // Lote: informado na entrada; saídas herdam o lote vigente
 }
 
 export interface RawMaterial {
@@ -96,10 +128,13 @@ export interface RawMaterial {
   quantity: number;
   minimumStock: number;
   unitCost: number;
-  supplier: string;
+  supplier: string; // Nome exibido (texto livre nos cadastros antigos)
+  supplierId?: string; // Fornecedor cadastrado
   location: string;
   expirationDate?: Date;
   lastUpdated: Date;
+  reservedQuantity?: number; // Comprometido com pedidos confirmados
+  currentLot?: string; // Lote da última entrada com lote informado
 }
 
 export const mockProducts: Product[] = [
@@ -108,7 +143,7 @@ export const mockProducts: Product[] = [
     name: 'Cama Luxo Premium',
     category: 'bed',
     sku: 'BED-LUX-001',
-    barcode: '7891234567890',
+    barcode: '7891234567895',
     description: 'Cama de alta qualidade com acabamento premium e estrutura reforçada',
     basePrice: 2500.00,
     costPrice: 1200.00,
@@ -186,7 +221,7 @@ export const mockProducts: Product[] = [
     name: 'Cama Standard',
     category: 'bed',
     sku: 'BED-STD-001',
-    barcode: '7891234567891',
+    barcode: '7891234567901',
     description: 'Cama com excelente custo-benefício para o dia a dia',
     basePrice: 1800.00,
     costPrice: 900.00,
@@ -327,6 +362,13 @@ export const materialCategoryLabels = {
   other: 'Outros'
 };
 
+export const movementTypeLabels: Record<InventoryMovementType, string> = {
+  in: 'Entrada',
+  out: 'Saída',
+  adjustment: 'Ajuste',
+  transfer: 'Transferência'
+};
+
 export const unitLabels = {
   meters: 'Metros',
   pieces: 'Peças',
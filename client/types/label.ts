@@ -0,0 +1,454 @@
+import type { LabelSymbology } from "@shared/labelLayout";
+
+/**
+ * Modelos de etiqueta: tamanho e campos posicionados em mm, com conteúdo
+ * ligado aos dados do item por marcadores como `{order_number}`.
+ */
+
+export type LabelType = "product" | "order" | "fragment" | "unit" | "material";
+
+export interface LabelTemplateField {
+  id: string;
+  kind: "text" | "barcode" | "image" | "box";
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  /** Texto com marcadores `{campo}`; em imagens, a URL */
+  content: string;
+  fontSize?: number;
+  bold?: boolean;
+  align?: "left" | "center" | "right";
+  symbology?: LabelSymbology;
+  showText?: boolean;
+}
+
+export interface LabelTemplate {
+  id: string;
+  name: string;
+  labelType: LabelType;
+  widthMm: number;
+  heightMm: number;
+  fields: LabelTemplateField[];
+}
+
+export interface LabelConfig {
+  templates: LabelTemplate[];
+  /** Modelo usado por padrão em cada tipo de etiqueta */
+  defaults: Partial<Record<LabelType, string>>;
+  updatedAt?: Date;
+  updatedBy?: string;
+}
+
+/** Valores disponíveis para os marcadores do modelo. */
+export type LabelData = Record<string, string | number | undefined>;
+
+export const labelTypeLabels: Record<LabelType, string> = {
+  product: "Produto",
+  order: "Pedido",
+  fragment: "Fragmento",
+  unit: "Unidade",
+  material: "Material",
+};
+
+export const labelFieldKindLabels: Record<LabelTemplateField["kind"], string> =
+  {
+    text: "Texto",
+    barcode: "Código",
+    image: "Imagem",
+    box: "Borda/Linha",
+  };
+
+export const symbologyLabels: Record<LabelSymbology, string> = {
+  CODE128: "CODE 128",
+  EAN13: "EAN-13",
+  QR: "QR Code",
+};
+
+/** Campos de dados de cada tipo; `date` (data da impressão) vale para todos. */
+export const labelDataFields: Record<
+  LabelType,
+  { key: string; label: string }[]
+> = {
+  product: [
+    { key: "code", label: "Código" },
+    { key: "name", label: "Nome" },
+    { key: "description", label: "Descrição" },
+    { key: "model", label: "Modelo" },
+    { key: "size", label: "Tamanho" },
+    { key: "color", label: "Cor" },
+    { key: "fabric", label: "Tecido" },
+    { key: "price", label: "Preço" },
+  ],
+  order: [
+    { key: "code", label: "Código" },
+    { key: "order_number", label: "Número do pedido" },
+    { key: "customer_name", label: "Cliente" },
+    { key: "seller_name", label: "Vendedor" },
+    { key: "products", label: "Produtos" },
+    { key: "total_quantity", label: "Quantidade total" },
+    { key: "scheduled_date", label: "Data de produção" },
+    { key: "delivery_date", label: "Data de entrega" },
+  ],
+  fragment: [
+    { key: "code", label: "Código" },
+    { key: "order_number", label: "Número do pedido" },
+    { key: "fragment_number", label: "Número do fragmento" },
+    { key: "fragment_total", label: "Total de fragmentos" },
+    { key: "product_name", label: "Produto" },
+    { key: "quantity", label: "Quantidade" },
+    { key: "customer_name", label: "Cliente" },
+    { key: "scheduled_date", label: "Data de produção" },
+  ],
+  unit: [
+    { key: "code", label: "Número de série" },
+    { key: "order_number", label: "Número do pedido" },
+    { key: "fragment_number", label: "Número do fragmento" },
+    { key: "unit_number", label: "Número da unidade" },
+    { key: "unit_count", label: "Total de unidades" },
+    { key: "product_name", label: "Produto" },
+    { key: "size", label: "Medida" },
+    { key: "color", label: "Cor" },
+    { key: "customer_name", label: "Cliente" },
+  ],
+  material: [
+    { key: "code", label: "Código" },
+    { key: "name", label: "Nome" },
+    { key: "description", label: "Descrição" },
+    { key: "supplier", label: "Fornecedor" },
+    { key: "lot", label: "Lote" },
+    { key: "quantity", label: "Quantidade" },
+    { key: "unit", label: "Unidade" },
+  ],
+};
+
+/** Dados de exemplo para a pré-visualização no editor. */
+export const labelSampleData: Record<LabelType, LabelData> = {
+  product: {
+    code: "7891234567895",
+    name: "Cama Luxo Premium Queen",
+    description: "Courino Branco, Cabeceira Estofada",
+    model: "Luxo",
+    size: "Queen",
+    color: "Branco",
+    fabric: "Courino",
+    price: "R$ 2.490,00",
+  },
+  order: {
+    code: "ORD-2025-0001",
+    order_number: "ORD-2025-0001",
+    customer_name: "João Silva",
+    seller_name: "Maria Souza",
+    products: "1x Cama Luxo Queen",
+    total_quantity: 1,
+    scheduled_date: "10/03/2025",
+    delivery_date: "20/03/2025",
+  },
+  fragment: {
+    code: "ORD-2025-0001-F2",
+    order_number: "ORD-2025-0001",
+    fragment_number: 2,
+    fragment_total: 3,
+    product_name: "Cama Standard Casal",
+    quantity: 4,
+    customer_name: "Móveis Premium Ltda",
+    scheduled_date: "12/03/2025",
+  },
+  unit: {
+    code: "ORD-2025-0001-F2-03",
+    order_number: "ORD-2025-0001",
+    fragment_number: 2,
+    unit_number: 3,
+    unit_count: 4,
+    product_name: "Cama Standard Casal",
+    size: "138x188",
+    color: "Marrom",
+    customer_name: "Móveis Premium Ltda",
+  },
+  material: {
+    code: "MAT-MDF-18",
+    name: "MDF 18mm Branco",
+    description: "Chapa 2750x1850mm",
+    supplier: "Madeireira São João",
+    lot: "2024-12-001",
+    quantity: 5,
+    unit: "un",
+  },
+};
+
+const LOGO = "/logobio.png";
+
+/** Cabeçalho com o logo e o tipo da etiqueta, comum aos modelos padrão. */
+const header = (title: string): LabelTemplateField[] => [
+  {
+    id: "logo",
+    kind: "image",
+    x: 1.5,
+    y: 1.5,
+    width: 7.5,
+    height: 2.5,
+    content: LOGO,
+  },
+  {
+    id: "title",
+    kind: "text",
+    x: 1.5,
+    y: 1.5,
+    width: 47,
+    height: 2,
+    content: title,
+    fontSize: 2,
+    align: "right",
+  },
+];
+
+export const defaultLabelTemplates: LabelTemplate[] = [
+  {
+    id: "default-product",
+    name: "Produto padrão",
+    labelType: "product",
+    widthMm: 50,
+    heightMm: 30,
+    fields: [
+      ...header("PRODUTO"),
+      {
+        id: "name",
+        kind: "text",
+        x: 1.5,
+        y: 5,
+        width: 47,
+        height: 3,
+        content: "{name}",
+        fontSize: 3,
+        bold: true,
+      },
+      {
+        id: "description",
+        kind: "text",
+        x: 1.5,
+        y: 9,
+        width: 47,
+        height: 2,
+        content: "{description}",
+        fontSize: 2,
+      },
+      {
+        id: "barcode",
+        kind: "barcode",
+        x: 1.5,
+        y: 12.5,
+        width: 47,
+        height: 16,
+        content: "{code}",
+        symbology: "EAN13",
+        showText: true,
+      },
+    ],
+  },
+  {
+    id: "default-order",
+    name: "Pedido padrão",
+    labelType: "order",
+    widthMm: 50,
+    heightMm: 30,
+    fields: [
+      ...header("PEDIDO"),
+      {
+        id: "customer",
+        kind: "text",
+        x: 1.5,
+        y: 5,
+        width: 47,
+        height: 3,
+        content: "{customer_name}",
+        fontSize: 3,
+        bold: true,
+      },
+      {
+        id: "delivery",
+        kind: "text",
+        x: 1.5,
+        y: 9,
+        width: 47,
+        height: 2,
+        content: "Entrega: {delivery_date}",
+        fontSize: 2,
+      },
+      {
+        id: "barcode",
+        kind: "barcode",
+        x: 1.5,
+        y: 12.5,
+        width: 47,
+        height: 16,
+        content: "{order_number}",
+        symbology: "CODE128",
+        showText: true,
+      },
+    ],
+  },
+  {
+    id: "default-fragment",
+    name: "Fragmento padrão",
+    labelType: "fragment",
+    widthMm: 50,
+    heightMm: 30,
+    fields: [
+      ...header("FRAGMENTO {fragment_number}/{fragment_total}"),
+      {
+        id: "order",
+        kind: "text",
+        x: 1.5,
+        y: 5,
+        width: 26,
+        height: 3,
+        content: "{order_number}",
+        fontSize: 3,
+        bold: true,
+      },
+      {
+        id: "product",
+        kind: "text",
+        x: 1.5,
+        y: 9,
+        width: 26,
+        height: 2,
+        content: "{product_name}",
+        fontSize: 2,
+      },
+      {
+        id: "quantity",
+        kind: "text",
+        x: 1.5,
+        y: 12,
+        width: 26,
+        height: 2,
+        content: "{quantity} un. · {customer_name}",
+        fontSize: 2,
+      },
+      {
+        id: "qrcode",
+        kind: "barcode",
+        x: 29,
+        y: 5,
+        width: 19.5,
+        height: 19.5,
+        content: "{code}",
+        symbology: "QR",
+      },
+      {
+        id: "code",
+        kind: "text",
+        x: 1.5,
+        y: 26,
+        width: 26,
+        height: 2,
+        content: "{code}",
+        fontSize: 2,
+      },
+    ],
+  },
+  {
+    id: "default-unit",
+    name: "Unidade padrão",
+    labelType: "unit",
+    widthMm: 50,
+    heightMm: 30,
+    fields: [
+      ...header("UNIDADE {unit_number}/{unit_count}"),
+      {
+        id: "serial",
+        kind: "text",
+        x: 1.5,
+        y: 5,
+        width: 26,
+        height: 2.5,
+        content: "{code}",
+        fontSize: 2.5,
+        bold: true,
+      },
+      {
+        id: "product",
+        kind: "text",
+        x: 1.5,
+        y: 9,
+        width: 26,
+        height: 2,
+        content: "{product_name}",
+        fontSize: 2,
+      },
+      {
+        id: "variant",
+        kind: "text",
+        x: 1.5,
+        y: 12,
+        width: 26,
+        height: 2,
+        content: "{size} · {color}",
+        fontSize: 2,
+      },
+      {
+        id: "customer",
+        kind: "text",
+        x: 1.5,
+        y: 15,
+        width: 26,
+        height: 2,
+        content: "{customer_name}",
+        fontSize: 2,
+      },
+      {
+        id: "qrcode",
+        kind: "barcode",
+        x: 29,
+        y: 5,
+        width: 19.5,
+        height: 19.5,
+        content: "{code}",
+        symbology: "QR",
+      },
+    ],
+  },
+  {
+    id: "default-material",
+    name: "Material padrão",
+    labelType: "material",
+    widthMm: 50,
+    heightMm: 30,
+    fields: [
+      ...header("MATERIAL"),
+      {
+        id: "name",
+        kind: "text",
+        x: 1.5,
+        y: 5,
+        width: 47,
+        height: 3,
+        content: "{name}",
+        fontSize: 3,
+        bold: true,
+      },
+      {
+        id: "lot",
+        kind: "text",
+        x: 1.5,
+        y: 9,
+        width: 47,
+        height: 2,
+        content: "Lote: {lot} · {supplier}",
+        fontSize: 2,
+      },
+      {
+        id: "barcode",
+        kind: "barcode",
+        x: 1.5,
+        y: 12.5,
+        width: 47,
+        height: 16,
+        content: "{code}",
+        symbology: "CODE128",
+        showText: true,
+      },
+    ],
+  },
+];
@@ -5,7 +5,7 @@ export interface ProductionLine {
   currentOrder?: string;
   operatorId?: string;
   operatorName?: string;
-  efficiency: number; // percentage
+  efficiency: number; // percentage, do operador da linha (ver lib/laborTime)
   dailyTarget: number;
   dailyProduced: number;
   lastUpdate: Date;
@@ -18,6 +18,8 @@ export interface ProductionStage {
   estimatedTime: number; // in minutes
   requiredSkills: string[];
   description: string;
+  /** Etapas desativadas não entram nos novos pedidos; ausente = ativa */
+  active?: boolean;
 }
 
 export interface ProductionTask {
@@ -43,7 +45,11 @@ export interface ProductionTask {
 
 export interface ProductionIssue {
   id: string;
-  taskId: string;
+  taskId: string; // id do pedido
+  orderNumber?: string;
+  stage?: string; // etapa afetada (ProductionStage['id'])
+  inspectionId?: string; // aberto pela reprovação no controle de qualidade
+  blocking?: boolean; // impede a etapa de seguir até ser resolvido
   type: 'quality' | 'material' | 'equipment' | 'operator' | 'other';
   description: string;
   severity: 'low' | 'medium' | 'high' | 'critical';
@@ -56,13 +62,60 @@ export interface ProductionIssue {
 
 export interface QualityCheck {
   id: string;
-  taskId: string;
+  taskId: string; // id do pedido
+  checkpointId?: string;
   checkpointName: string;
   status: 'passed' | 'failed' | 'pending';
   inspector: string;
   checkedAt: Date;
   notes?: string;
-  photos?: string[];
+  photos?: string[]; // imagens reduzidas em data URL
+}
+
+// Item do checklist de inspeção de uma categoria de produto
+export interface QualityCheckpoint {
+  id: string;
+  name: string;
+  description?: string;
+}
+
+/** Inspeção do controle de qualidade: um registro por avaliação do pedido */
+export interface QualityInspection {
+  id: string;
+  orderId: string;
+  orderNumber: string;
+  inspector: string;
+  inspectedAt: Date;
+  result: 'passed' | 'failed';
+  checks: QualityCheck[];
+  notes?: string;
+  reworkStage?: string; // etapa para onde o pedido voltou na reprovação
+}
+
+/** Leitura do número de série de uma unidade em uma etapa ou na entrega */
+export interface UnitScan {
+  stage: string; // ProductionStage['id'] ou 'delivery'
+  operator: string;
+  scannedAt: Date;
+}
+
+/** Unidade produzida: um número de série por cama do fragmento (ou pedido) */
+export interface UnitSerial {
+  id: string; // o próprio número de série (ver lib/traceability)
+  orderId: string;
+  orderNumber: string;
+  fragmentId?: string;
+  fragmentNumber?: number;
+  unitNumber: number; // 1..unitCount
+  unitCount: number;
+  productName?: string;
+  size?: string;
+  color?: string;
+  customerName?: string;
+  issuedAt: Date;
+  issuedBy: string;
+  scans: UnitScan[];
+  deliveredAt?: Date;
 }
 
 export interface Operator {
@@ -70,12 +123,203 @@ export interface Operator {
   name: string;
   skills: string[];
   experience: number; // years
-  efficiency: number; // percentage
+  efficiency: number; // percentage, previsto ÷ realizado (ver lib/laborTime)
   currentTask?: string;
   status: 'available' | 'busy' | 'break' | 'absent';
   shift: 'morning' | 'afternoon' | 'night';
+  pinHash?: string; // PIN do crachá para o quiosque (ver lib/operatorPin)
+}
+
+export interface ProductionPreferences {
+  workingHours: {
+    start: string;
+    end: string;
+    lunchBreak: number; // in minutes
+    shortBreaks: number; // in minutes
+    workingDays: number[]; // dias da semana (0 = domingo)
+  };
+  targets: {
+    dailyProduction: number;
+    weeklyProduction: number;
+    monthlyProduction: number;
+    qualityThreshold: number; // percentage
+  };
+  alerts: {
+    delayWarning: boolean;
+    qualityIssues: boolean;
+    equipmentMaintenance: boolean;
+    lowEfficiency: boolean;
+    thresholdEfficiency: number;
+  };
+  automation: {
+    autoAssignTasks: boolean;
+    prioritizeUrgent: boolean;
+    balanceWorkload: boolean;
+    notifyDelays: boolean;
+  };
+}
+
+// Passo do roteiro: etapa percorrida pelo produto e tempo por unidade.
+// Etapas opcionais podem ser dispensadas sem bloquear a conclusão do pedido.
+export interface RoutingStep {
+  stageId: string;
+  minutesPerUnit: number;
+  optional?: boolean;
 }
 
+/** Configuração de produção salva em Configurações de Produção */
+export interface ProductionConfig {
+  preferences: ProductionPreferences;
+  lines: ProductionLine[];
+  operators: Operator[];
+  stages: ProductionStage[];
+  /** Roteiro por categoria de produto (Product.category) */
+  routings: Record<string, RoutingStep[]>;
+  /** Checklist do controle de qualidade por categoria de produto */
+  qualityChecklists: Record<string, QualityCheckpoint[]>;
+  updatedAt?: Date;
+  updatedBy?: string;
+}
+
+export const defaultProductionPreferences: ProductionPreferences = {
+  workingHours: {
+    start: '08:00',
+    end: '18:00',
+    lunchBreak: 60,
+    shortBreaks: 15,
+    workingDays: [1, 2, 3, 4, 5]
+  },
+  targets: {
+    dailyProduction: 12,
+    weeklyProduction: 60,
+    monthlyProduction: 240,
+    qualityThreshold: 95
+  },
+  alerts: {
+    delayWarning: true,
+    qualityIssues: true,
+    equipmentMaintenance: true,
+    lowEfficiency: true,
+    thresholdEfficiency: 80
+  },
+  automation: {
+    autoAssignTasks: true,
+    prioritizeUrgent: true,
+    balanceWorkload: true,
+    notifyDelays: true
+  }
+};
+
+export const defaultProductionLines: ProductionLine[] = [
+  {
+    id: '1',
+    name: 'Linha A - Camas Premium',
+    status: 'active',
+    efficiency: 100,
+    dailyTarget: 3,
+    dailyProduced: 0,
+    lastUpdate: new Date()
+  },
+  {
+    id: '2',
+    name: 'Linha B - Camas Standard',
+    status: 'active',
+    efficiency: 100,
+    dailyTarget: 4,
+    dailyProduced: 0,
+    lastUpdate: new Date()
+  }
+];
+
+export const defaultOperators: Operator[] = [
+  {
+    id: '1',
+    name: 'Carlos Mendes',
+    skills: ['cutting', 'carpentry', 'assembly'],
+    experience: 8,
+    efficiency: 100,
+    status: 'available',
+    shift: 'morning'
+  },
+  {
+    id: '2',
+    name: 'Ana Lima',
+    skills: ['upholstery', 'sewing', 'finishing'],
+    experience: 6,
+    efficiency: 100,
+    status: 'available',
+    shift: 'morning'
+  }
+];
+
+export const routingCategoryLabels: Record<string, string> = {
+  bed: 'Camas',
+  mattress: 'Colchões',
+  pillow: 'Travesseiros',
+  protector: 'Protetores',
+  accessory: 'Acessórios'
+};
+
+// Colchões e acessórios não passam por marcenaria nem tapeçaria
+export const defaultRoutings: Record<string, RoutingStep[]> = {
+  bed: [
+    { stageId: 'cutting_sewing', minutesPerUnit: 120 },
+    { stageId: 'carpentry', minutesPerUnit: 180 },
+    { stageId: 'upholstery', minutesPerUnit: 240 },
+    { stageId: 'assembly', minutesPerUnit: 90 },
+    { stageId: 'packaging', minutesPerUnit: 30 },
+    { stageId: 'delivery', minutesPerUnit: 60 }
+  ],
+  mattress: [
+    { stageId: 'cutting_sewing', minutesPerUnit: 90 },
+    { stageId: 'assembly', minutesPerUnit: 60 },
+    { stageId: 'packaging', minutesPerUnit: 20 },
+    { stageId: 'delivery', minutesPerUnit: 60 }
+  ],
+  pillow: [
+    { stageId: 'cutting_sewing', minutesPerUnit: 30 },
+    { stageId: 'packaging', minutesPerUnit: 5 },
+    { stageId: 'delivery', minutesPerUnit: 15 }
+  ],
+  protector: [
+    { stageId: 'cutting_sewing', minutesPerUnit: 30 },
+    { stageId: 'packaging', minutesPerUnit: 5 },
+    { stageId: 'delivery', minutesPerUnit: 15 }
+  ],
+  accessory: [
+    { stageId: 'cutting_sewing', minutesPerUnit: 20, optional: true },
+    { stageId: 'packaging', minutesPerUnit: 5 },
+    { stageId: 'delivery', minutesPerUnit: 15 }
+  ]
+};
+
+export const defaultQualityChecklists: Record<string, QualityCheckpoint[]> = {
+  bed: [
+    { id: 'dimensions', name: 'Medidas conforme o pedido' },
+    { id: 'structure', name: 'Estrutura firme, sem rangidos' },
+    { id: 'upholstery', name: 'Tecido esticado, sem rugas ou manchas' },
+    { id: 'seams', name: 'Costuras alinhadas e arremates' },
+    { id: 'color', name: 'Cor e tecido conforme o pedido' }
+  ],
+  mattress: [
+    { id: 'dimensions', name: 'Medidas conforme o pedido' },
+    { id: 'seams', name: 'Costuras alinhadas e arremates' },
+    { id: 'label', name: 'Etiqueta de identificação' }
+  ],
+  pillow: [
+    { id: 'filling', name: 'Enchimento uniforme' },
+    { id: 'seams', name: 'Costuras fechadas' }
+  ],
+  protector: [
+    { id: 'dimensions', name: 'Medidas conforme o pedido' },
+    { id: 'seams', name: 'Costuras e elásticos' }
+  ],
+  accessory: [
+    { id: 'finish', name: 'Acabamento sem defeitos' }
+  ]
+};
+
+/** Etapas padrão, usadas enquanto nenhuma configuração foi salva */
 export const productionStages: ProductionStage[] = [
   {
     id: 'cutting_sewing',
@@ -164,3 +408,31 @@ export const operatorStatusLabels = {
   break: 'Pausa',
   absent: 'Ausente'
 };
+
+export const issueTypeLabels: Record<ProductionIssue['type'], string> = {
+  quality: 'Qualidade',
+  material: 'Material',
+  equipment: 'Equipamento',
+  operator: 'Operador',
+  other: 'Outro'
+};
+
+export const issueSeverityLabels: Record<ProductionIssue['severity'], string> = {
+  low: 'Baixa',
+  medium: 'Média',
+  high: 'Alta',
+  critical: 'Crítica'
+};
+
+export const issueSeverityColors: Record<ProductionIssue['severity'], string> = {
+  low: 'bg-gray-500/10 text-gray-500 border-gray-500/20',
+  medium: 'bg-yellow-500/10 text-yellow-500 border-yellow-500/20',
+  high: 'bg-orange-500/10 text-orange-500 border-orange-500/20',
+  critical: 'bg-red-500/10 text-red-500 border-red-500/20'
+};
+
+export const issueStatusLabels: Record<ProductionIssue['status'], string> = {
+  open: 'Aberto',
+  investigating: 'Em análise',
+  resolved: 'Resolvido'
+};
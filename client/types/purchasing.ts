@@ -0,0 +1,36 @@
+import type { RawMaterial } from "./inventory";
+
+export type PurchaseRequisitionStatus = "draft" | "sent" | "received";
+
+export interface PurchaseRequisitionItem {
+  materialId: string;
+  materialName: string;
+  unit: RawMaterial["unit"];
+  quantity: number;
+  unitCost: number;
+}
+
+export interface PurchaseRequisition {
+  id: string;
+  number: string; // Ex.: RC-2025-0001
+  supplier: string;
+  supplierId?: string; // Fornecedor cadastrado (ausente em texto livre)
+  status: PurchaseRequisitionStatus;
+  items: PurchaseRequisitionItem[];
+  notes?: string;
+  createdBy: string;
+  createdAt: Date;
+  sentAt?: Date;
+  expectedAt?: Date; // Envio + prazo de entrega do fornecedor
+  receivedAt?: Date;
+  receivedBy?: string;
+}
+
+export const requisitionStatusLabels: Record<
+  PurchaseRequisitionStatus,
+  string
+> = {
+  draft: "Rascunho",
+  sent: "Enviada",
+  received: "Recebida",
+};
@@ -0,0 +1,19 @@
+export interface SupplierContact {
+  name: string;
+  role?: string; // Ex.: comercial, financeiro
+  email?: string;
+  phone?: string;
+}
+
+export interface Supplier {
+  id: string;
+  name: string;
+  cnpj: string;
+  contacts: SupplierContact[];
+  leadTimeDays: number; // Prazo de entrega após o envio do pedido
+  paymentTerms: string; // Ex.: "30/60 dias", "À vista"
+  notes?: string;
+  status: "active" | "inactive";
+  createdAt: Date;
+  updatedAt: Date;
+}
@@ -0,0 +1,100 @@
+import type { Request, RequestHandler } from "express";
+import type { ApiErrorResponse } from "@shared/api";
+import type { OrderRole, TransitionActor } from "../../shared/orderStatus";
+
+/**
+ * Autenticação da API de pedidos: integrações usam uma chave de API
+ * (`X-Api-Key`) e a aplicação usa o ID token do Firebase do usuário logado
+ * (`Authorization: Bearer`). Quem chama vira o autor das mudanças de status.
+ */
+
+/** Quem chamou a API (mesmo formato de ator da máquina de estados). */
+export interface ApiCaller extends TransitionActor {
+  id: string;
+  name: string;
+}
+
+export interface ApiAuthConfig {
+  /** Chaves de integração liberadas: chave → quem chama */
+  apiKeys: Record<string, ApiCaller>;
+  /** Origens de navegador liberadas */
+  origins: string[];
+  /** Valida o ID token do Firebase; ausente sem credenciais do Admin */
+  verifyIdToken?: (token: string) => Promise<ApiCaller | null>;
+}
+
+const ROLES: OrderRole[] = ["admin", "seller", "operator"];
+
+const splitList = (value: string | undefined) =>
+  (value || "")
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+
+/**
+ * Chaves de ORDERS_API_KEYS no formato "nome:papel:chave", separadas por
+ * vírgula (ex.: "ERP:admin:s3gr3d0"). Entradas malformadas são ignoradas.
+ */
+export function parseApiKeys(value: string | undefined) {
+  const apiKeys: Record<string, ApiCaller> = {};
+  for (const entry of splitList(value)) {
+    const [name, role, ...rest] = entry.split(":");
+    const key = rest.join(":").trim();
+    if (!name?.trim() || !key || !ROLES.includes(role as OrderRole)) {
+      console.warn(`⚠️ [apiAuth] Chave de API ignorada: "${name}"`);
+      continue;
+    }
+    apiKeys[key] = {
+      id: `api:${name.trim()}`,
+      name: name.trim(),
+      role: role as OrderRole,
+    };
+  }
+  return apiKeys;
+}
+
+/** Configuração a partir de ORDERS_API_KEYS e ORDERS_ORIGINS. */
+export function getApiAuthConfig(
+  env: NodeJS.ProcessEnv = process.env,
+  verifyIdToken?: ApiAuthConfig["verifyIdToken"],
+): ApiAuthConfig {
+  return {
+    apiKeys: parseApiKeys(env.ORDERS_API_KEYS),
+    origins: splitList(env.ORDERS_ORIGINS),
+    verifyIdToken,
+  };
+}
+
+async function authenticate(
+  req: Request,
+  config: ApiAuthConfig,
+): Promise<ApiCaller | null> {
+  const apiKey = req.header("x-api-key");
+  if (apiKey) return config.apiKeys[apiKey] ?? null;
+
+  const [scheme, token] = (req.header("authorization") || "").split(" ");
+  if (scheme !== "Bearer" || !token || !config.verifyIdToken) return null;
+  try {
+    return await config.verifyIdToken(token);
+  } catch (err) {
+    console.warn("⚠️ [apiAuth] ID token recusado:", (err as Error).message);
+    return null;
+  }
+}
+
+/** Exige um chamador válido; ele fica em `res.locals.caller`. */
+export function requireCaller(config: ApiAuthConfig): RequestHandler {
+  return async (req, res, next) => {
+    try {
+      const caller = await authenticate(req, config);
+      if (!caller) {
+        const body: ApiErrorResponse = { error: "Autenticação necessária" };
+        return res.status(401).json(body);
+      }
+      res.locals.caller = caller;
+      next();
+    } catch (err) {
+      next(err);
+    }
+  };
+}
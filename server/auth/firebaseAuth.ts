@@ -0,0 +1,28 @@
+import { getAuth } from "firebase-admin/auth";
+import { getAdminFirestore } from "../storage/firestoreOrders";
+// Import relativo: o vite.config carrega o server sem os aliases
+import { defaultPermissions } from "../../client/types/user";
+import type { ApiCaller } from "./apiAuth";
+
+/**
+ * Valida o ID token do Firebase e lê o perfil em `users/{uid}`, como o
+ * useAuth faz no client. Usuário sem perfil ou inativo não é aceito.
+ */
+export async function verifyFirebaseIdToken(
+  token: string,
+): Promise<ApiCaller | null> {
+  const firestore = getAdminFirestore();
+  const { uid } = await getAuth().verifyIdToken(token);
+  const snap = await firestore.collection("users").doc(uid).get();
+  const data = snap.data();
+  if (!data || data.status === "inactive") return null;
+
+  return {
+    id: uid,
+    name: data.name || "Usuário",
+    role: data.role || "seller",
+    permissions: (data.permissions || [])
+      .map((id: string) => defaultPermissions.find((p) => p.id === id))
+      .filter(Boolean),
+  };
+}
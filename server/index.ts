@@ -1,16 +1,73 @@
 import "dotenv/config";
 import express from "express";
 import cors from "cors";
+import { getApiAuthConfig, type ApiAuthConfig } from "./auth/apiAuth";
+import { verifyFirebaseIdToken } from "./auth/firebaseAuth";
 import { handleDemo } from "./routes/demo";
+import { createOrdersRouter } from "./routes/orders";
+import { createPrintRouter } from "./routes/print";
+import { getPrinterConfig, type PrinterConfig } from "./printing/printer";
+import { createMemoryOrderStore, type OrderStore } from "./storage/orders";
+import {
+  createFirestoreOrderStore,
+  hasFirebaseAdminCredentials,
+} from "./storage/firestoreOrders";
 
-export function createServer() {
+export interface ServerOptions {
+  /** Storage dos pedidos; por padrão Firestore (se houver credenciais) ou memória */
+  orderStore?: OrderStore;
+  /** Impressoras da ponte de impressão; por padrão lidas do ambiente (PRINTER_*) */
+  printer?: PrinterConfig;
+  /** Quem pode usar /api/orders; por padrão lido do ambiente (ORDERS_*) */
+  ordersAuth?: ApiAuthConfig;
+}
+
+function createDefaultOrderStore(): OrderStore {
+  if (hasFirebaseAdminCredentials()) {
+    return createFirestoreOrderStore();
+  }
+  console.warn(
+    "⚠️ [server] Credenciais do Firebase Admin ausentes, /api/orders usando armazenamento em memória",
+  );
+  return createMemoryOrderStore();
+}
+
+function createDefaultOrdersAuth(): ApiAuthConfig {
+  const config = getApiAuthConfig(
+    process.env,
+    hasFirebaseAdminCredentials() ? verifyFirebaseIdToken : undefined,
+  );
+  if (!config.verifyIdToken && Object.keys(config.apiKeys).length === 0) {
+    console.warn(
+      "⚠️ [server] Sem ORDERS_API_KEYS nem credenciais do Firebase Admin, /api/orders recusará todas as chamadas",
+    );
+  }
+  return config;
+}
+
+export function createServer(options: ServerOptions = {}) {
   const app = express();
 
   // Middleware
-  app.use(cors());
   app.use(express.json());
   app.use(express.urlencoded({ extended: true }));
 
+  // Antes do CORS aberto: a ponte de impressão e os pedidos só atendem
+  // origens liberadas
+  app.use(
+    "/api/print",
+    createPrintRouter(options.printer ?? getPrinterConfig()),
+  );
+  app.use(
+    "/api/orders",
+    createOrdersRouter(
+      options.orderStore ?? createDefaultOrderStore(),
+      options.ordersAuth ?? createDefaultOrdersAuth(),
+    ),
+  );
+
+  app.use(cors());
+
   // Example API routes
   app.get("/api/ping", (_req, res) => {
     const ping = process.env.PING_MESSAGE ?? "ping";
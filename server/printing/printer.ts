@@ -0,0 +1,169 @@
+import net from "net";
+import path from "path";
+import { writeFile } from "fs/promises";
+import type { PrintTarget } from "@shared/api";
+
+/**
+ * Envio dos bytes brutos (ESC/POS, ZPL) para a impressora: TCP direto na
+ * porta 9100 para impressoras de rede ou escrita em um arquivo/dispositivo
+ * (ex.: /dev/usb/lp0). Impressoras de rede e dispositivos só são aceitos
+ * se estiverem liberados na configuração do servidor.
+ */
+
+export interface PrinterConfig {
+  /** Impressora usada quando o trabalho não informa destino */
+  defaultTarget?: PrintTarget;
+  /** Caminhos de dispositivo/arquivo liberados para impressão */
+  devices: string[];
+  /** Impressoras de rede liberadas, como "host:porta" */
+  hosts: string[];
+  /** Origens de navegador liberadas além da própria aplicação */
+  origins: string[];
+  /** Tempo máximo de conexão e envio, em ms */
+  timeoutMs: number;
+}
+
+export class PrinterError extends Error {
+  constructor(
+    message: string,
+    readonly status = 502,
+  ) {
+    super(message);
+    this.name = "PrinterError";
+  }
+}
+
+const DEFAULT_PRINTER_PORT = 9100;
+
+const splitList = (...values: (string | undefined)[]) =>
+  values
+    .flatMap((value) => (value || "").split(","))
+    .map((value) => value.trim())
+    .filter(Boolean);
+
+/** "host" ou "host:porta" → "host:porta" (porta padrão 9100). */
+const hostKey = (value: string) =>
+  /:\d+$/.test(value) ? value : `${value}:${DEFAULT_PRINTER_PORT}`;
+
+/**
+ * Configuração a partir de PRINTER_HOST/PORT, PRINTER_HOSTS,
+ * PRINTER_DEVICE(S), PRINTER_ORIGINS e PRINTER_TIMEOUT_MS.
+ */
+export function getPrinterConfig(
+  env: NodeJS.ProcessEnv = process.env,
+): PrinterConfig {
+  const devices = splitList(env.PRINTER_DEVICE, env.PRINTER_DEVICES);
+  const port = Number(env.PRINTER_PORT);
+  const timeoutMs = Number(env.PRINTER_TIMEOUT_MS);
+
+  let defaultTarget: PrintTarget | undefined;
+  if (env.PRINTER_HOST) {
+    defaultTarget = {
+      type: "network",
+      host: env.PRINTER_HOST.trim(),
+      port: Number.isInteger(port) && port > 0 ? port : DEFAULT_PRINTER_PORT,
+    };
+  } else if (env.PRINTER_DEVICE) {
+    defaultTarget = { type: "device", path: env.PRINTER_DEVICE.trim() };
+  }
+
+  // A impressora padrão de rede sempre entra na lista de liberadas
+  const hosts = splitList(env.PRINTER_HOSTS).map(hostKey);
+  if (defaultTarget?.type === "network") {
+    hosts.unshift(describeTarget(defaultTarget));
+  }
+
+  return {
+    defaultTarget,
+    devices: Array.from(new Set(devices)),
+    hosts: Array.from(new Set(hosts)),
+    origins: splitList(env.PRINTER_ORIGINS),
+    timeoutMs: timeoutMs > 0 ? timeoutMs : 10_000,
+  };
+}
+
+export const describeTarget = (target: PrintTarget) =>
+  target.type === "network" ? `${target.host}:${target.port}` : target.path;
+
+function sendToNetworkPrinter(
+  host: string,
+  port: number,
+  data: Buffer,
+  timeoutMs: number,
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const socket = net.connect({ host, port });
+    socket.setTimeout(timeoutMs, () =>
+      socket.destroy(
+        new PrinterError(`Impressora ${host}:${port} não respondeu`, 504),
+      ),
+    );
+    socket.once("error", (err) =>
+      reject(
+        err instanceof PrinterError
+          ? err
+          : new PrinterError(
+              `Falha ao enviar para ${host}:${port}: ${err.message}`,
+            ),
+      ),
+    );
+    // A impressora não responde nada: o envio termina quando os bytes saem
+    socket.once("connect", () =>
+      socket.end(data, () => {
+        socket.setTimeout(0);
+        resolve();
+      }),
+    );
+  });
+}
+
+async function writeToDevice(
+  device: string,
+  data: Buffer,
+  config: PrinterConfig,
+) {
+  const devicePath = path.resolve(device);
+  if (!config.devices.some((allowed) => path.resolve(allowed) === devicePath)) {
+    throw new PrinterError(
+      `Dispositivo ${device} não liberado para impressão`,
+      403,
+    );
+  }
+  try {
+    await writeFile(devicePath, data, {
+      flag: "a",
+      signal: AbortSignal.timeout(config.timeoutMs),
+    });
+  } catch (err) {
+    throw new PrinterError(
+      `Falha ao gravar em ${device}: ${(err as Error).message}`,
+    );
+  }
+}
+
+/** Envia o trabalho `copies` vezes seguidas em uma única conexão. */
+export async function sendToPrinter(
+  target: PrintTarget,
+  data: Buffer,
+  config: PrinterConfig,
+  copies = 1,
+): Promise<void> {
+  const payload = Buffer.concat(Array.from({ length: copies }, () => data));
+  if (target.type === "network") {
+    const address = describeTarget(target);
+    if (!config.hosts.includes(address)) {
+      throw new PrinterError(
+        `Impressora ${address} não liberada para impressão`,
+        403,
+      );
+    }
+    await sendToNetworkPrinter(
+      target.host,
+      target.port,
+      payload,
+      config.timeoutMs,
+    );
+  } else {
+    await writeToDevice(target.path, payload, config);
+  }
+}
@@ -0,0 +1,390 @@
+import {
+  afterAll,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  vi,
+} from "vitest";
+import type { AddressInfo } from "net";
+import type { Server } from "http";
+import type { ApiOrder, OrderListResponse } from "@shared/api";
+import { getApiAuthConfig, type ApiCaller } from "../auth/apiAuth";
+import { createServer } from "../index";
+import { createMemoryOrderStore, type OrderStore } from "../storage/orders";
+
+let store: OrderStore;
+// Latência simulada nas leituras, para expor leituras fora da atualização
+let readDelayMs = 0;
+let server: Server;
+let baseUrl: string;
+
+const newOrder = (overrides: Record<string, unknown> = {}) => ({
+  customer_id: "customer-1",
+  seller_id: "seller-1",
+  total_amount: 1500,
+  scheduled_date: "2025-03-10",
+  products: [
+    {
+      product_id: "product-1",
+      product_name: "Cama Luxo",
+      quantity: 1,
+      unit_price: 1500,
+      total_price: 1500,
+    },
+  ],
+  production_stages: [
+    { stage: "carpentry", status: "pending", estimated_minutes: 180 },
+    { stage: "packaging", status: "pending", estimated_minutes: 30 },
+  ],
+  ...overrides,
+});
+
+const erp: ApiCaller = { id: "api:ERP", name: "ERP", role: "admin" };
+const seller: ApiCaller = {
+  id: "seller-2",
+  name: "Bia",
+  role: "seller",
+  permissions: [{ module: "orders", actions: ["view", "create", "edit"] }],
+};
+
+const api = (
+  path: string,
+  init?: RequestInit,
+  headers: Record<string, string> = { "X-Api-Key": "erp-key" },
+) =>
+  fetch(`${baseUrl}/api/orders${path}`, {
+    ...init,
+    headers: { "Content-Type": "application/json", ...headers },
+  });
+
+const post = async (body: unknown): Promise<ApiOrder> => {
+  const res = await api("", { method: "POST", body: JSON.stringify(body) });
+  return res.json();
+};
+
+beforeAll(async () => {
+  const app = createServer({
+    orderStore: {
+      list: (filters) => store.list(filters),
+      get: async (id) => {
+        const order = await store.get(id);
+        await new Promise((resolve) => setTimeout(resolve, readDelayMs));
+        return order;
+      },
+      create: (data) => store.create(data),
+      update: (id, updates) => store.update(id, updates),
+      delete: (id) => store.delete(id),
+      findByOrderNumber: (orderNumber) => store.findByOrderNumber(orderNumber),
+      nextOrderSequence: (year) => store.nextOrderSequence(year),
+    },
+    ordersAuth: {
+      apiKeys: { "erp-key": erp, "seller-key": seller },
+      origins: ["https://app.biobox.test"],
+      verifyIdToken: async (token) => (token === "id-token" ? seller : null),
+    },
+  });
+  await new Promise<void>((resolve) => {
+    server = app.listen(0, () => resolve());
+  });
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(() => new Promise<void>((resolve) => server.close(() => resolve())));
+
+beforeEach(() => {
+  store = createMemoryOrderStore();
+  readDelayMs = 0;
+});
+
+describe("/api/orders", () => {
+  it("creates an order with defaults", async () => {
+    const res = await api("", {
+      method: "POST",
+      body: JSON.stringify(newOrder()),
+    });
+    expect(res.status).toBe(201);
+
+    const order: ApiOrder = await res.json();
+    expect(order.id).toBeTruthy();
+    expect(order.order_number).toBe(`ORD-${new Date().getFullYear()}-0001`);
+    expect(order.status).toBe("pending");
+    expect(order.priority).toBe("medium");
+    expect(order.production_stages.map((s) => s.stage)).toEqual([
+      "carpentry",
+      "packaging",
+    ]);
+  });
+
+  it("requires the routed production stages", async () => {
+    for (const production_stages of [undefined, []]) {
+      const res = await api("", {
+        method: "POST",
+        body: JSON.stringify(newOrder({ production_stages })),
+      });
+      expect(res.status).toBe(400);
+    }
+  });
+
+  it("numbers orders sequentially", async () => {
+    const year = new Date().getFullYear();
+    store = createMemoryOrderStore([
+      {
+        ...newOrder(),
+        id: "order-existing",
+        order_number: `ORD-${year}-0041`,
+        status: "pending",
+        priority: "medium",
+        production_progress: 0,
+        production_stages: [],
+        created_at: new Date().toISOString(),
+        updated_at: new Date().toISOString(),
+      } as ApiOrder,
+    ]);
+
+    const first = await post(newOrder());
+    const second = await post(newOrder());
+    expect(first.order_number).toBe(`ORD-${year}-0042`);
+    expect(second.order_number).toBe(`ORD-${year}-0043`);
+  });
+
+  it("rejects invalid payloads", async () => {
+    const res = await api("", {
+      method: "POST",
+      body: JSON.stringify(newOrder({ total_amount: -1, status: "foo" })),
+    });
+    expect(res.status).toBe(400);
+    expect((await res.json()).error).toBe("Dados inválidos");
+  });
+
+  it("starts new orders in an initial status only", async () => {
+    const submitted = await post(newOrder({ status: "awaiting_approval" }));
+    expect(submitted.status).toBe("awaiting_approval");
+
+    for (const status of ["confirmed", "ready", "delivered"]) {
+      const res = await api("", {
+        method: "POST",
+        body: JSON.stringify(newOrder({ status })),
+      });
+      expect(res.status).toBe(400);
+    }
+    expect((await (await api("")).json()).total).toBe(1);
+  });
+
+  it("lists orders with filters", async () => {
+    await post(newOrder());
+    await post(
+      newOrder({ seller_id: "seller-2", status: "awaiting_approval" }),
+    );
+    await post(newOrder({ scheduled_date: "2025-04-01", priority: "urgent" }));
+
+    const all: OrderListResponse = await (await api("")).json();
+    expect(all.total).toBe(3);
+
+    const bySeller: OrderListResponse = await (
+      await api("?seller_id=seller-2")
+    ).json();
+    expect(bySeller.orders.map((o) => o.status)).toEqual(["awaiting_approval"]);
+
+    const byStatus: OrderListResponse = await (
+      await api("?status=pending,awaiting_approval&scheduled_to=2025-03-31")
+    ).json();
+    expect(byStatus.total).toBe(2);
+
+    const byPriority: OrderListResponse = await (
+      await api("?priority=urgent&limit=1")
+    ).json();
+    expect(byPriority.orders[0].scheduled_date).toBe("2025-04-01");
+
+    expect((await api("?status=unknown")).status).toBe(400);
+  });
+
+  it("gets, patches and deletes an order", async () => {
+    const created = await post(newOrder());
+
+    const fetched = await api(`/${created.id}`);
+    expect(fetched.status).toBe(200);
+    expect((await fetched.json()).order_number).toBe(created.order_number);
+
+    const patched = await api(`/${created.id}`, {
+      method: "PATCH",
+      body: JSON.stringify({ status: "confirmed", notes: "Entregar à tarde" }),
+    });
+    expect(patched.status).toBe(200);
+    const updated: ApiOrder = await patched.json();
+    expect(updated.status).toBe("confirmed");
+    expect(updated.notes).toBe("Entregar à tarde");
+    expect(updated.customer_id).toBe("customer-1");
+    expect(updated.status_history.map((c) => [c.from, c.to])).toEqual([
+      [null, "pending"],
+      ["pending", "confirmed"],
+    ]);
+
+    const immutable = await api(`/${created.id}`, {
+      method: "PATCH",
+      body: JSON.stringify({ seller_id: "other" }),
+    });
+    expect(immutable.status).toBe(400);
+
+    const skipped = await api(`/${created.id}`, {
+      method: "PATCH",
+      body: JSON.stringify({ status: "delivered" }),
+    });
+    expect(skipped.status).toBe(409);
+
+    const unexplained = await api(`/${created.id}`, {
+      method: "PATCH",
+      body: JSON.stringify({ status: "cancelled" }),
+    });
+    expect(unexplained.status).toBe(409);
+
+    const cancelled = await api(`/${created.id}`, {
+      method: "PATCH",
+      body: JSON.stringify({
+        status: "cancelled",
+        cancellation_reason: "Cliente desistiu",
+      }),
+    });
+    const history = ((await cancelled.json()) as ApiOrder).status_history;
+    expect(history).toHaveLength(3);
+    expect(history[2]).toMatchObject({
+      from: "confirmed",
+      to: "cancelled",
+      actor_id: "api:ERP",
+      actor_name: "ERP",
+      comment: "Cliente desistiu",
+    });
+
+    const deleted = await api(`/${created.id}`, { method: "DELETE" });
+    expect(deleted.status).toBe(204);
+    expect((await api(`/${created.id}`)).status).toBe(404);
+  });
+
+  it("keeps the operator ids of the production stages", async () => {
+    const created = await post(newOrder());
+    const production_stages = [
+      {
+        stage: "carpentry",
+        status: "in_progress",
+        assigned_operator: "Ana",
+        assigned_operator_id: "op-1",
+        time_entries: [
+          { operator: "Ana", operator_id: "op-1", started_at: "08:00" },
+        ],
+      },
+      { stage: "packaging", status: "pending" },
+    ];
+
+    const patched = await api(`/${created.id}`, {
+      method: "PATCH",
+      body: JSON.stringify({ production_stages }),
+    });
+    expect(patched.status).toBe(200);
+
+    const order: ApiOrder = await (await api(`/${created.id}`)).json();
+    expect(order.production_stages).toEqual(production_stages);
+  });
+
+  it("keeps every entry when status changes race", async () => {
+    const created = await post(newOrder());
+    const patch = (body: unknown) =>
+      api(`/${created.id}`, { method: "PATCH", body: JSON.stringify(body) });
+
+    readDelayMs = 50;
+    const results = await Promise.all([
+      patch({ status: "confirmed" }),
+      patch({ status: "cancelled", cancellation_reason: "Duplicado" }),
+    ]);
+    expect(results.map((res) => res.status)).toEqual([200, 200]);
+
+    const order: ApiOrder = await (await api(`/${created.id}`)).json();
+    expect(order.status_history.map((c) => c.to)).toEqual([
+      "pending",
+      "confirmed",
+      "cancelled",
+    ]);
+  });
+
+  it("requires an API key or a Firebase ID token", async () => {
+    expect((await api("", undefined, {})).status).toBe(401);
+    expect((await api("", undefined, { "X-Api-Key": "wrong" })).status).toBe(
+      401,
+    );
+    expect(
+      (await api("", undefined, { Authorization: "Bearer expired" })).status,
+    ).toBe(401);
+    expect(
+      (await api("", undefined, { Authorization: "Bearer id-token" })).status,
+    ).toBe(200);
+  });
+
+  it("reads API keys and origins from the environment", () => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+    expect(
+      getApiAuthConfig({
+        ORDERS_API_KEYS: "ERP:admin:k1:x, Loja:seller:k2, Outro:chefe:k3",
+        ORDERS_ORIGINS: "https://app.biobox.com.br",
+      }),
+    ).toEqual({
+      apiKeys: {
+        "k1:x": { id: "api:ERP", name: "ERP", role: "admin" },
+        k2: { id: "api:Loja", name: "Loja", role: "seller" },
+      },
+      origins: ["https://app.biobox.com.br"],
+      verifyIdToken: undefined,
+    });
+    vi.restoreAllMocks();
+  });
+
+  it("only answers browsers from the allowed origins", async () => {
+    const foreign = await api("", undefined, {
+      "X-Api-Key": "erp-key",
+      Origin: "https://evil.example",
+    });
+    expect(foreign.headers.get("access-control-allow-origin")).toBeNull();
+
+    const allowed = await api("", undefined, {
+      "X-Api-Key": "erp-key",
+      Origin: "https://app.biobox.test",
+    });
+    expect(allowed.headers.get("access-control-allow-origin")).toBe(
+      "https://app.biobox.test",
+    );
+  });
+
+  it("checks and records the caller of each change", async () => {
+    const asSeller = { "X-Api-Key": "seller-key" };
+    const created = await post(newOrder());
+    expect(created.status_history[0]).toMatchObject({
+      actor_id: "api:ERP",
+      actor_name: "ERP",
+    });
+
+    // Vendedor sem permissão de aprovar, e em pedido de outro vendedor
+    const confirm = await api(
+      `/${created.id}`,
+      { method: "PATCH", body: JSON.stringify({ status: "confirmed" }) },
+      asSeller,
+    );
+    expect(confirm.status).toBe(409);
+    expect((await confirm.json()).error).toContain("permissão");
+
+    const removed = await api(`/${created.id}`, { method: "DELETE" }, asSeller);
+    expect(removed.status).toBe(403);
+    expect((await api(`/${created.id}`)).status).toBe(200);
+  });
+
+  it("returns 404 for unknown orders", async () => {
+    expect((await api("/missing")).status).toBe(404);
+    expect(
+      (
+        await api("/missing", {
+          method: "PATCH",
+          body: JSON.stringify({ notes: "x" }),
+        })
+      ).status,
+    ).toBe(404);
+    expect((await api("/missing", { method: "DELETE" })).status).toBe(404);
+  });
+});
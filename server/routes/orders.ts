@@ -0,0 +1,182 @@
+import { Router, type Response } from "express";
+import cors from "cors";
+import type { ZodError } from "zod";
+import type {
+  ApiErrorResponse,
+  ApiOrderProduct,
+  OrderListResponse,
+} from "@shared/api";
+// Import relativo: o vite.config carrega o server sem os aliases
+import {
+  createOrderSchema,
+  orderListQuerySchema,
+  updateOrderSchema,
+} from "../../shared/api";
+import {
+  DEFAULT_ORDER_NUMBER_CONFIG,
+  issueOrderNumber,
+  type OrderNumberConfig,
+} from "../../shared/orderNumber";
+import {
+  createStatusChange,
+  validateTransition,
+} from "../../shared/orderStatus";
+import {
+  requireCaller,
+  type ApiAuthConfig,
+  type ApiCaller,
+} from "../auth/apiAuth";
+import type { OrderStore, OrderUpdates } from "../storage/orders";
+
+/** Transição recusada pela máquina de estados (responde 409). */
+class TransitionRejectedError extends Error {}
+
+function getOrderNumberConfig(): OrderNumberConfig {
+  const padding = Number(process.env.ORDER_NUMBER_PADDING);
+  return {
+    prefix:
+      process.env.ORDER_NUMBER_PREFIX || DEFAULT_ORDER_NUMBER_CONFIG.prefix,
+    padding:
+      Number.isInteger(padding) && padding > 0
+        ? padding
+        : DEFAULT_ORDER_NUMBER_CONFIG.padding,
+  };
+}
+
+function sendValidationError(res: Response, error: ZodError) {
+  const body: ApiErrorResponse = {
+    error: "Dados inválidos",
+    details: error.flatten(),
+  };
+  res.status(400).json(body);
+}
+
+function sendNotFound(res: Response, id: string) {
+  const body: ApiErrorResponse = { error: `Pedido ${id} não encontrado` };
+  res.status(404).json(body);
+}
+
+export function createOrdersRouter(store: OrderStore, auth: ApiAuthConfig) {
+  const router = Router();
+
+  router.use(cors({ origin: auth.origins }));
+  router.use(requireCaller(auth));
+
+  router.get("/", async (req, res, next) => {
+    try {
+      const parsed = orderListQuerySchema.safeParse(req.query);
+      if (!parsed.success) return sendValidationError(res, parsed.error);
+
+      const orders = await store.list(parsed.data);
+      const body: OrderListResponse = { orders, total: orders.length };
+      res.json(body);
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  router.get("/:id", async (req, res, next) => {
+    try {
+      const order = await store.get(req.params.id);
+      if (!order) return sendNotFound(res, req.params.id);
+      res.json(order);
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  router.post("/", async (req, res, next) => {
+    try {
+      const parsed = createOrderSchema.safeParse(req.body);
+      if (!parsed.success) return sendValidationError(res, parsed.error);
+
+      const data = parsed.data;
+      const caller: ApiCaller = res.locals.caller;
+      const orderNumber = await issueOrderNumber({
+        nextSequence: (year) => store.nextOrderSequence(year),
+        isTaken: async (value) => !!(await store.findByOrderNumber(value)),
+        config: getOrderNumberConfig(),
+      });
+      const order = await store.create({
+        ...data,
+        order_number: orderNumber,
+        customer_id: data.customer_id,
+        seller_id: data.seller_id,
+        status: data.status,
+        priority: data.priority,
+        total_amount: data.total_amount,
+        scheduled_date:
+          data.scheduled_date ?? new Date().toISOString().slice(0, 10),
+        production_progress: 0,
+        products: data.products as ApiOrderProduct[],
+        production_stages: data.production_stages,
+        status_history: [createStatusChange(null, data.status, caller)],
+      });
+      res.status(201).json(order);
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  router.patch("/:id", async (req, res, next) => {
+    try {
+      const parsed = updateOrderSchema.safeParse(req.body);
+      if (!parsed.success) return sendValidationError(res, parsed.error);
+
+      const { status_comment, ...updates } = parsed.data;
+      const caller: ApiCaller = res.locals.caller;
+      // A transição é validada sobre o pedido lido na mesma atualização
+      // atômica que grava o novo histórico
+      const order = await store.update(req.params.id, (current) => {
+        if (!updates.status) return updates;
+        const check = validateTransition(
+          current,
+          updates.status,
+          caller,
+          updates,
+        );
+        if (check.ok === false) throw new TransitionRejectedError(check.error);
+        if (current.status === updates.status) return updates;
+        return {
+          ...updates,
+          status_history: [
+            ...(current.status_history || []),
+            createStatusChange(
+              current.status,
+              updates.status,
+              caller,
+              status_comment ?? updates.cancellation_reason,
+            ),
+          ],
+        };
+      });
+      if (!order) return sendNotFound(res, req.params.id);
+      res.json(order);
+    } catch (err) {
+      if (err instanceof TransitionRejectedError) {
+        const body: ApiErrorResponse = { error: err.message };
+        return res.status(409).json(body);
+      }
+      next(err);
+    }
+  });
+
+  router.delete("/:id", async (req, res, next) => {
+    try {
+      // Mesma regra do firestore.rules: só admins excluem pedidos
+      if ((res.locals.caller as ApiCaller).role !== "admin") {
+        const body: ApiErrorResponse = {
+          error: "Apenas administradores podem excluir pedidos",
+        };
+        return res.status(403).json(body);
+      }
+      const deleted = await store.delete(req.params.id);
+      if (!deleted) return sendNotFound(res, req.params.id);
+      res.status(204).end();
+    } catch (err) {
+      next(err);
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,191 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import net, { type AddressInfo } from "net";
+import os from "os";
+import path from "path";
+import { mkdtemp, readFile, rm } from "fs/promises";
+import type { Server } from "http";
+import { bytesToBase64, encodeEscPos } from "@shared/escpos";
+import { createServer } from "../index";
+import { createMemoryOrderStore } from "../storage/orders";
+import { getPrinterConfig } from "../printing/printer";
+
+let server: Server;
+let baseUrl: string;
+let printer: net.Server;
+let printerPort: number;
+let received: Buffer[] = [];
+let tmpDir: string;
+let devicePath: string;
+// Porta liberada na configuração, mas sem impressora ouvindo
+let closedPort: number;
+
+const label = encodeEscPos([
+  { type: "text", value: "BIOBOX", bold: true },
+  { type: "barcode", value: "BED-LUX-001" },
+  { type: "cut" },
+]);
+
+const print = (body: unknown, headers: Record<string, string> = {}) =>
+  fetch(`${baseUrl}/api/print`, {
+    method: "POST",
+    headers: { "Content-Type": "application/json", ...headers },
+    body: JSON.stringify(body),
+  });
+
+beforeAll(async () => {
+  // Impressora falsa: guarda tudo o que chega na conexão
+  printer = net.createServer((socket) => {
+    const chunks: Buffer[] = [];
+    socket.on("data", (chunk) => chunks.push(chunk));
+    socket.on("end", () => {
+      received.push(Buffer.concat(chunks));
+      socket.end();
+    });
+  });
+  await new Promise<void>((resolve) => printer.listen(0, "127.0.0.1", resolve));
+  printerPort = (printer.address() as AddressInfo).port;
+
+  const closed = net.createServer();
+  await new Promise<void>((resolve) => closed.listen(0, "127.0.0.1", resolve));
+  closedPort = (closed.address() as AddressInfo).port;
+  await new Promise<void>((resolve) => closed.close(() => resolve()));
+
+  tmpDir = await mkdtemp(path.join(os.tmpdir(), "print-"));
+  devicePath = path.join(tmpDir, "lp0");
+
+  const app = createServer({
+    orderStore: createMemoryOrderStore(),
+    printer: {
+      defaultTarget: { type: "network", host: "127.0.0.1", port: printerPort },
+      devices: [devicePath],
+      hosts: [`127.0.0.1:${printerPort}`, `127.0.0.1:${closedPort}`],
+      origins: ["http://etiquetas.biobox.local"],
+      timeoutMs: 2000,
+    },
+  });
+  await new Promise<void>((resolve) => {
+    server = app.listen(0, () => resolve());
+  });
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise<void>((resolve) => server.close(() => resolve()));
+  await new Promise<void>((resolve) => printer.close(() => resolve()));
+  await rm(tmpDir, { recursive: true, force: true });
+});
+
+const waitForJobs = async (count: number) => {
+  for (let i = 0; i < 50 && received.length < count; i++) {
+    await new Promise((resolve) => setTimeout(resolve, 10));
+  }
+};
+
+describe("/api/print", () => {
+  it("streams the bytes to a raw TCP printer", async () => {
+    received = [];
+    const res = await print({ data: bytesToBase64(label), copies: 2 });
+    expect(res.status).toBe(200);
+    expect(await res.json()).toMatchObject({
+      bytes: label.length,
+      copies: 2,
+      target: { type: "network", port: printerPort },
+    });
+
+    await waitForJobs(1);
+    expect(received).toHaveLength(1);
+    expect(received[0]).toEqual(Buffer.concat([label, label]));
+  });
+
+  it("writes to an allowed device path only", async () => {
+    const res = await print({
+      data: bytesToBase64(label),
+      target: { type: "device", path: devicePath },
+    });
+    expect(res.status).toBe(200);
+    expect(await readFile(devicePath)).toEqual(Buffer.from(label));
+
+    const denied = await print({
+      data: bytesToBase64(label),
+      target: { type: "device", path: path.join(tmpDir, "other") },
+    });
+    expect(denied.status).toBe(403);
+  });
+
+  it("allows the default printer and PRINTER_HOSTS", () => {
+    expect(
+      getPrinterConfig({
+        PRINTER_HOST: "10.0.0.5",
+        PRINTER_HOSTS: "10.0.0.6, 10.0.0.7:9200,10.0.0.5",
+        PRINTER_ORIGINS: "https://app.biobox.com.br",
+      }),
+    ).toMatchObject({
+      hosts: ["10.0.0.5:9100", "10.0.0.6:9100", "10.0.0.7:9200"],
+      origins: ["https://app.biobox.com.br"],
+    });
+  });
+
+  it("refuses network printers that are not allowed", async () => {
+    received = [];
+    const res = await print({
+      data: bytesToBase64(label),
+      target: { type: "network", host: "127.0.0.1", port: printerPort + 1 },
+    });
+    expect(res.status).toBe(403);
+    expect((await res.json()).error).toContain("não liberada");
+
+    const other = await print({
+      data: bytesToBase64(label),
+      target: { type: "network", host: "localhost", port: printerPort },
+    });
+    expect(other.status).toBe(403);
+    expect(received).toHaveLength(0);
+  });
+
+  it("accepts browser requests from allowed origins only", async () => {
+    received = [];
+    const foreign = await print(
+      { data: bytesToBase64(label) },
+      { Origin: "http://example.com" },
+    );
+    expect(foreign.status).toBe(403);
+    expect(foreign.headers.get("access-control-allow-origin")).toBeNull();
+
+    const preflight = await fetch(`${baseUrl}/api/print`, {
+      method: "OPTIONS",
+      headers: {
+        Origin: "http://example.com",
+        "Access-Control-Request-Method": "POST",
+      },
+    });
+    expect(preflight.headers.get("access-control-allow-origin")).toBeNull();
+
+    const allowed = await print(
+      { data: bytesToBase64(label) },
+      { Origin: "http://etiquetas.biobox.local" },
+    );
+    expect(allowed.status).toBe(200);
+    expect(allowed.headers.get("access-control-allow-origin")).toBe(
+      "http://etiquetas.biobox.local",
+    );
+
+    const sameOrigin = await print(
+      { data: bytesToBase64(label) },
+      { Origin: baseUrl },
+    );
+    expect(sameOrigin.status).toBe(200);
+    await waitForJobs(2);
+    expect(received).toHaveLength(2);
+  });
+
+  it("reports unreachable printers and invalid jobs", async () => {
+    const res = await print({
+      data: bytesToBase64(label),
+      target: { type: "network", host: "127.0.0.1", port: closedPort },
+    });
+    expect(res.status).toBe(502);
+    expect((await res.json()).error).toContain(`127.0.0.1:${closedPort}`);
+
+    expect((await print({ data: "não é base64" })).status).toBe(400);
+  });
+});
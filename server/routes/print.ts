@@ -0,0 +1,96 @@
+import { Router, type Request } from "express";
+import cors from "cors";
+import type {
+  ApiErrorResponse,
+  PrintBridgeConfigResponse,
+  PrintJobResponse,
+} from "@shared/api";
+// Import relativo: o vite.config carrega o server sem os aliases
+import { printJobSchema } from "../../shared/api";
+import {
+  describeTarget,
+  PrinterError,
+  sendToPrinter,
+  type PrinterConfig,
+} from "../printing/printer";
+
+/**
+ * Só a própria aplicação (mesma origem) e as origens de PRINTER_ORIGINS podem
+ * imprimir pelo navegador. Chamadas sem `Origin` (ex.: curl) não vêm de
+ * páginas de terceiros.
+ */
+function isAllowedOrigin(req: Request, config: PrinterConfig) {
+  const origin = req.headers.origin;
+  if (!origin) return true;
+  if (config.origins.includes(origin)) return true;
+  try {
+    return new URL(origin).host === req.headers.host;
+  } catch {
+    return false;
+  }
+}
+
+export function createPrintRouter(config: PrinterConfig) {
+  const router = Router();
+
+  router.use(cors({ origin: config.origins }));
+  router.use((req, res, next) => {
+    if (isAllowedOrigin(req, config)) return next();
+    const body: ApiErrorResponse = {
+      error: "Origem não autorizada a usar a ponte de impressão",
+    };
+    res.status(403).json(body);
+  });
+
+  router.get("/config", (_req, res) => {
+    const body: PrintBridgeConfigResponse = {
+      target: config.defaultTarget,
+      devices: config.devices,
+      hosts: config.hosts,
+    };
+    res.json(body);
+  });
+
+  router.post("/", async (req, res, next) => {
+    try {
+      const parsed = printJobSchema.safeParse(req.body);
+      if (!parsed.success) {
+        const body: ApiErrorResponse = {
+          error: "Dados inválidos",
+          details: parsed.error.flatten(),
+        };
+        return res.status(400).json(body);
+      }
+
+      const target = parsed.data.target ?? config.defaultTarget;
+      if (!target) {
+        const body: ApiErrorResponse = {
+          error: "Nenhuma impressora configurada no servidor",
+        };
+        return res.status(400).json(body);
+      }
+
+      const data = Buffer.from(parsed.data.data, "base64");
+      await sendToPrinter(target, data, config, parsed.data.copies);
+      console.log(
+        `✅ [print] ${data.length} bytes x ${parsed.data.copies} enviados para ${describeTarget(target)}`,
+      );
+
+      const body: PrintJobResponse = {
+        bytes: data.length,
+        copies: parsed.data.copies,
+        target,
+      };
+      res.json(body);
+    } catch (err) {
+      if (err instanceof PrinterError) {
+        console.error("❌ [print]", err.message);
+        const body: ApiErrorResponse = { error: err.message };
+        return res.status(err.status).json(body);
+      }
+      next(err);
+    }
+  });
+
+  return router;
+}
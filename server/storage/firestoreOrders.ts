@@ -0,0 +1,177 @@
+import {
+  getApps,
+  initializeApp,
+  cert,
+  applicationDefault,
+} from "firebase-admin/app";
+import {
+  getFirestore,
+  FieldValue,
+  type DocumentData,
+  type Firestore,
+} from "firebase-admin/firestore";
+import type { ApiOrder } from "@shared/api";
+import { orderCounterId } from "../../shared/orderNumber";
+import {
+  matchesOrderFilters,
+  sortAndLimitOrders,
+  type OrderStore,
+} from "./orders";
+
+/**
+ * Indica se o servidor tem credenciais do Firebase Admin disponíveis
+ * (JSON da service account ou GOOGLE_APPLICATION_CREDENTIALS).
+ */
+export function hasFirebaseAdminCredentials(): boolean {
+  return Boolean(
+    process.env.FIREBASE_SERVICE_ACCOUNT ||
+      process.env.GOOGLE_APPLICATION_CREDENTIALS,
+  );
+}
+
+export function getAdminFirestore(): Firestore {
+  if (!getApps().length) {
+    const serviceAccount = process.env.FIREBASE_SERVICE_ACCOUNT;
+    initializeApp({
+      credential: serviceAccount
+        ? cert(JSON.parse(serviceAccount))
+        : applicationDefault(),
+      projectId: process.env.FIREBASE_PROJECT_ID,
+    });
+  }
+  return getFirestore();
+}
+
+const toIso = (value: any, fallback: string): string => {
+  if (!value) return fallback;
+  if (typeof value === "string") return value;
+  if (typeof value?.toDate === "function") return value.toDate().toISOString();
+  if (value instanceof Date) return value.toISOString();
+  return fallback;
+};
+
+/**
+ * Converte um documento da coleção `orders` (mesmo formato gravado pelo
+ * useFirebase no client) para o formato da API.
+ */
+function fromDocument(id: string, data: DocumentData): ApiOrder {
+  const created = toIso(data.created_at, new Date(0).toISOString());
+  return {
+    ...(data as ApiOrder),
+    id,
+    status: data.status ?? "pending",
+    priority: data.priority ?? "medium",
+    total_amount: Number(data.total_amount ?? 0),
+    production_progress: Number(data.production_progress ?? 0),
+    products: Array.isArray(data.products) ? data.products : [],
+    production_stages: Array.isArray(data.production_stages)
+      ? data.production_stages
+      : [],
+    created_at: created,
+    updated_at: toIso(data.updated_at, created),
+  };
+}
+
+/** Remove campos undefined, que o Firestore rejeita. */
+function withoutUndefined<T extends Record<string, any>>(value: T): T {
+  return Object.fromEntries(
+    Object.entries(value).filter(([, v]) => v !== undefined),
+  ) as T;
+}
+
+export function createFirestoreOrderStore(
+  db: Firestore = getAdminFirestore(),
+): OrderStore {
+  const orders = db.collection("orders");
+  // Mesmos documentos de contador usados pelo client (lib/orderNumbering)
+  const counters = db.collection("counters");
+
+  return {
+    async list(filters = {}) {
+      // Apenas filtros de igualdade simples vão para o Firestore (não exigem
+      // índices compostos); o restante é aplicado em memória.
+      const base = filters.seller_id
+        ? orders.where("seller_id", "==", filters.seller_id)
+        : orders;
+      const snap = await base.get();
+      const all = snap.docs.map((d) => fromDocument(d.id, d.data()));
+      return sortAndLimitOrders(
+        all.filter((order) => matchesOrderFilters(order, filters)),
+        filters.limit,
+      );
+    },
+
+    async get(id) {
+      const snap = await orders.doc(id).get();
+      return snap.exists ? fromDocument(snap.id, snap.data()!) : null;
+    },
+
+    async create(data) {
+      const ref = await orders.add(
+        withoutUndefined({
+          ...data,
+          created_at: FieldValue.serverTimestamp(),
+          updated_at: FieldValue.serverTimestamp(),
+        }),
+      );
+      const snap = await ref.get();
+      return fromDocument(ref.id, snap.data()!);
+    },
+
+    async update(id, updates) {
+      const ref = orders.doc(id);
+      // Leitura e escrita na mesma transação: duas mudanças de status
+      // simultâneas não perdem entradas do histórico
+      const found = await db.runTransaction(async (tx) => {
+        const current = await tx.get(ref);
+        if (!current.exists) return false;
+        const changes =
+          typeof updates === "function"
+            ? updates(fromDocument(current.id, current.data()!))
+            : updates;
+        tx.update(
+          ref,
+          withoutUndefined({
+            ...changes,
+            updated_at: FieldValue.serverTimestamp(),
+          }),
+        );
+        return true;
+      });
+      if (!found) return null;
+      const snap = await ref.get();
+      return fromDocument(snap.id, snap.data()!);
+    },
+
+    async delete(id) {
+      const ref = orders.doc(id);
+      const current = await ref.get();
+      if (!current.exists) return false;
+      await ref.delete();
+      return true;
+    },
+
+    async findByOrderNumber(orderNumber) {
+      const snap = await orders
+        .where("order_number", "==", orderNumber)
+        .limit(1)
+        .get();
+      const found = snap.docs[0];
+      return found ? fromDocument(found.id, found.data()) : null;
+    },
+
+    async nextOrderSequence(year) {
+      const ref = counters.doc(orderCounterId(year));
+      return db.runTransaction(async (tx) => {
+        const snap = await tx.get(ref);
+        const next = (Number(snap.data()?.last) || 0) + 1;
+        tx.set(
+          ref,
+          { last: next, year, updated_at: FieldValue.serverTimestamp() },
+          { merge: true },
+        );
+        return next;
+      });
+    },
+  };
+}
@@ -0,0 +1,146 @@
+import { randomUUID } from "crypto";
+import type { ApiOrder, OrderListQuery } from "@shared/api";
+import { highestOrderSequence } from "../../shared/orderNumber";
+
+export type NewOrderRecord = Omit<ApiOrder, "id" | "created_at" | "updated_at">;
+export type OrderUpdates = Partial<Omit<ApiOrder, "id" | "created_at">>;
+/**
+ * Monta as alterações a partir do pedido lido dentro da mesma atualização
+ * atômica (ex.: para acrescentar ao `status_history`). Lançar um erro cancela
+ * a atualização.
+ */
+export type OrderUpdater = (current: ApiOrder) => OrderUpdates;
+
+/**
+ * Armazenamento usado pelas rotas de /api/orders. O app Express só conhece
+ * esta interface, então roda sobre o Firestore em produção e sobre um
+ * armazenamento em memória nos testes ou em scripts locais.
+ */
+export interface OrderStore {
+  list(filters?: OrderListQuery): Promise<ApiOrder[]>;
+  get(id: string): Promise<ApiOrder | null>;
+  create(data: NewOrderRecord): Promise<ApiOrder>;
+  update(
+    id: string,
+    updates: OrderUpdates | OrderUpdater,
+  ): Promise<ApiOrder | null>;
+  delete(id: string): Promise<boolean>;
+  findByOrderNumber(orderNumber: string): Promise<ApiOrder | null>;
+  /** Incrementa atomicamente o contador anual de pedidos */
+  nextOrderSequence(year: number): Promise<number>;
+}
+
+export function matchesOrderFilters(
+  order: ApiOrder,
+  filters: OrderListQuery = {},
+): boolean {
+  if (filters.status?.length && !filters.status.includes(order.status)) {
+    return false;
+  }
+  if (filters.priority && order.priority !== filters.priority) return false;
+  if (filters.seller_id && order.seller_id !== filters.seller_id) return false;
+  if (filters.customer_id && order.customer_id !== filters.customer_id) {
+    return false;
+  }
+
+  const scheduled = Date.parse(order.scheduled_date);
+  if (
+    filters.scheduled_from &&
+    !(scheduled >= Date.parse(filters.scheduled_from))
+  ) {
+    return false;
+  }
+  if (
+    filters.scheduled_to &&
+    !(scheduled <= Date.parse(filters.scheduled_to))
+  ) {
+    return false;
+  }
+  return true;
+}
+
+/** Mesma ordenação usada pelo client em getOrders (mais recentes primeiro). */
+export function sortAndLimitOrders(
+  orders: ApiOrder[],
+  limit?: number,
+): ApiOrder[] {
+  const sorted = [...orders].sort((a, b) =>
+    b.created_at.localeCompare(a.created_at),
+  );
+  return limit ? sorted.slice(0, limit) : sorted;
+}
+
+export function createMemoryOrderStore(seed: ApiOrder[] = []): OrderStore {
+  const orders = new Map<string, ApiOrder>(
+    seed.map((order) => [order.id, structuredClone(order)]),
+  );
+  const counters = new Map<number, number>();
+
+  return {
+    async list(filters = {}) {
+      const matching = [...orders.values()].filter((order) =>
+        matchesOrderFilters(order, filters),
+      );
+      return sortAndLimitOrders(matching, filters.limit).map((order) =>
+        structuredClone(order),
+      );
+    },
+
+    async get(id) {
+      const order = orders.get(id);
+      return order ? structuredClone(order) : null;
+    },
+
+    async create(data) {
+      const now = new Date().toISOString();
+      const order: ApiOrder = {
+        ...structuredClone(data),
+        id: `order-${randomUUID()}`,
+        created_at: now,
+        updated_at: now,
+      };
+      orders.set(order.id, order);
+      return structuredClone(order);
+    },
+
+    async update(id, updates) {
+      const current = orders.get(id);
+      if (!current) return null;
+      const changes =
+        typeof updates === "function"
+          ? updates(structuredClone(current))
+          : updates;
+      const next: ApiOrder = {
+        ...current,
+        ...structuredClone(changes),
+        id,
+        created_at: current.created_at,
+        updated_at: new Date().toISOString(),
+      };
+      orders.set(id, next);
+      return structuredClone(next);
+    },
+
+    async delete(id) {
+      return orders.delete(id);
+    },
+
+    async findByOrderNumber(orderNumber) {
+      const order = [...orders.values()].find(
+        (o) => o.order_number === orderNumber,
+      );
+      return order ? structuredClone(order) : null;
+    },
+
+    async nextOrderSequence(year) {
+      const current =
+        counters.get(year) ??
+        highestOrderSequence(
+          [...orders.values()].map((o) => o.order_number),
+          year,
+        );
+      counters.set(year, current + 1);
+      return current + 1;
+    },
+  };
+}
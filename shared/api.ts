@@ -3,6 +3,7 @@
  * Useful to share types between client and server
  * and/or small pure JS functions that can be used on both client and server
  */
+import { z } from "zod";
 
 /**
  * Example response type for /api/demo
@@ -10,3 +11,233 @@
 export interface DemoResponse {
   message: string;
 }
+
+/**
+ * API de pedidos (/api/orders)
+ */
+export const orderStatusSchema = z.enum([
+  "pending",
+  "awaiting_approval",
+  "confirmed",
+  "in_production",
+  "quality_check",
+  "ready",
+  "delivered",
+  "cancelled",
+]);
+export type OrderStatus = z.infer<typeof orderStatusSchema>;
+
+/**
+ * Status em que um pedido novo pode começar; os demais só são alcançados
+ * pelas transições de shared/orderStatus.ts
+ */
+export const initialOrderStatusSchema = orderStatusSchema.extract([
+  "pending",
+  "awaiting_approval",
+]);
+
+export const orderPrioritySchema = z.enum(["low", "medium", "high", "urgent"]);
+export type OrderPriority = z.infer<typeof orderPrioritySchema>;
+
+export const orderProductSchema = z.object({
+  id: z.string().optional(),
+  product_id: z.string().min(1),
+  product_name: z.string().min(1),
+  model: z.string().default(""),
+  size: z.string().default(""),
+  color: z.string().default(""),
+  fabric: z.string().default(""),
+  quantity: z.number().int().positive(),
+  unit_price: z.number().nonnegative(),
+  total_price: z.number().nonnegative(),
+  specifications: z.record(z.any()).optional(),
+});
+export type ApiOrderProduct = z.infer<typeof orderProductSchema>;
+
+// Um intervalo trabalhado por operador; em aberto enquanto falta ended_at
+export const stageTimeEntrySchema = z.object({
+  operator: z.string(),
+  // Id do operador cadastrado; o nome sozinho pode se repetir
+  operator_id: z.string().optional(),
+  started_at: z.string(),
+  ended_at: z.string().optional(),
+});
+
+export const productionStageSchema = z.object({
+  stage: z.string().min(1),
+  status: z.enum(["pending", "in_progress", "completed"]),
+  started_at: z.string().optional(),
+  completed_at: z.string().optional(),
+  assigned_operator: z.string().optional(),
+  assigned_operator_id: z.string().optional(),
+  // Dados do roteiro: minutos previstos para o pedido todo, etapas opcionais
+  estimated_minutes: z.number().nonnegative().optional(),
+  optional: z.boolean().optional(),
+  skipped: z.boolean().optional(),
+  // Preenchido enquanto a etapa em andamento está pausada no quiosque
+  paused_at: z.string().optional(),
+  time_entries: z.array(stageTimeEntrySchema).optional(),
+});
+export type ApiProductionStage = z.infer<typeof productionStageSchema>;
+
+const isoDate = z
+  .string()
+  .refine((value) => !Number.isNaN(Date.parse(value)), "Data inválida");
+
+export const createOrderSchema = z.object({
+  customer_id: z.string().min(1),
+  seller_id: z.string().min(1),
+  status: initialOrderStatusSchema.default("pending"),
+  priority: orderPrioritySchema.default("medium"),
+  subtotal: z.number().nonnegative().optional(),
+  discount_percentage: z.number().min(0).max(100).optional(),
+  discount_amount: z.number().nonnegative().optional(),
+  total_amount: z.number().nonnegative(),
+  scheduled_date: isoDate.optional(),
+  delivery_date: isoDate.optional(),
+  notes: z.string().optional(),
+  customer_name: z.string().optional(),
+  customer_phone: z.string().optional(),
+  customer_email: z.string().optional(),
+  seller_name: z.string().optional(),
+  products: z.array(orderProductSchema).default([]),
+  // Montadas por quem chama a partir dos roteiros de produto/categoria (ver
+  // client/lib/routings.ts); o servidor não tem roteiro próprio
+  production_stages: z.array(productionStageSchema).min(1),
+});
+export type CreateOrderRequest = z.input<typeof createOrderSchema>;
+
+export const updateOrderSchema = createOrderSchema
+  .omit({ customer_id: true, seller_id: true })
+  .extend({
+    status: orderStatusSchema,
+    // O roteiro só é exigido na criação; depois as etapas podem ser editadas
+    production_stages: z.array(productionStageSchema),
+    completed_date: isoDate.optional(),
+    production_progress: z.number().min(0).max(100).optional(),
+    assigned_operator: z.string().optional(),
+    cancellation_reason: z.string().optional(),
+    /** Inspeção que liberou o pedido do controle de qualidade */
+    quality_inspection_id: z.string().optional(),
+    /** Comentário registrado no histórico junto com a mudança de status */
+    status_comment: z.string().max(500).optional(),
+  })
+  .partial()
+  .strict();
+export type UpdateOrderRequest = z.input<typeof updateOrderSchema>;
+
+export const orderListQuerySchema = z.object({
+  status: z
+    .string()
+    .transform((value) => value.split(",").filter(Boolean))
+    .pipe(z.array(orderStatusSchema))
+    .optional(),
+  priority: orderPrioritySchema.optional(),
+  seller_id: z.string().optional(),
+  customer_id: z.string().optional(),
+  scheduled_from: isoDate.optional(),
+  scheduled_to: isoDate.optional(),
+  limit: z.coerce.number().int().positive().max(500).optional(),
+});
+export type OrderListQuery = z.output<typeof orderListQuerySchema>;
+
+/** Uma entrada do histórico de status do pedido, que só recebe acréscimos. */
+export interface OrderStatusChange {
+  /** null na entrada gravada na criação do pedido */
+  from: OrderStatus | null;
+  to: OrderStatus;
+  actor_id: string;
+  actor_name: string;
+  /** Data e hora em ISO */
+  at: string;
+  comment?: string;
+}
+
+export interface ApiOrder {
+  id: string;
+  order_number: string;
+  customer_id: string;
+  seller_id: string;
+  status: OrderStatus;
+  priority: OrderPriority;
+  subtotal?: number;
+  discount_percentage?: number;
+  discount_amount?: number;
+  total_amount: number;
+  scheduled_date: string;
+  delivery_date?: string;
+  completed_date?: string;
+  production_progress: number;
+  assigned_operator?: string;
+  notes?: string;
+  cancellation_reason?: string;
+  customer_name?: string;
+  customer_phone?: string;
+  customer_email?: string;
+  seller_name?: string;
+  products: ApiOrderProduct[];
+  production_stages: ApiProductionStage[];
+  status_history?: OrderStatusChange[];
+  created_at: string;
+  updated_at: string;
+}
+
+export interface OrderListResponse {
+  orders: ApiOrder[];
+  total: number;
+}
+
+export interface ApiErrorResponse {
+  error: string;
+  details?: unknown;
+}
+
+/**
+ * Ponte de impressão (/api/print): bytes brutos da impressora (ESC/POS, ZPL)
+ * enviados pelo navegador e repassados pelo servidor a uma impressora de rede
+ * ou a um dispositivo
+ */
+export const printTargetSchema = z.discriminatedUnion("type", [
+  // Impressão TCP direta (JetDirect / porta 9100), usada por impressoras Wi-Fi
+  // e Ethernet; só pares host:porta liberados no servidor
+  z.object({
+    type: z.literal("network"),
+    host: z.string().trim().min(1),
+    port: z.number().int().min(1).max(65535).default(9100),
+  }),
+  // Arquivo ou dispositivo USB (ex.: /dev/usb/lp0); só caminhos liberados no
+  // servidor
+  z.object({
+    type: z.literal("device"),
+    path: z.string().trim().min(1),
+  }),
+]);
+export type PrintTarget = z.output<typeof printTargetSchema>;
+
+export const printJobSchema = z.object({
+  /** Sem destino, usa a impressora configurada no servidor */
+  target: printTargetSchema.optional(),
+  /** Bytes da impressora em base64 */
+  data: z
+    .string()
+    .min(1)
+    .regex(/^[A-Za-z0-9+/]+={0,2}$/, "Dados em base64 inválidos"),
+  copies: z.number().int().min(1).max(50).default(1),
+});
+export type PrintJobRequest = z.input<typeof printJobSchema>;
+
+export interface PrintJobResponse {
+  /** Bytes gravados por cópia */
+  bytes: number;
+  copies: number;
+  target: PrintTarget;
+}
+
+export interface PrintBridgeConfigResponse {
+  /** Impressora usada quando o trabalho não tem destino */
+  target?: PrintTarget;
+  /** Caminhos aceitos pelo servidor nos destinos "device" */
+  devices: string[];
+  /** Impressoras "host:porta" aceitas pelo servidor nos destinos "network" */
+  hosts: string[];
+}
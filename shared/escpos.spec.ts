@@ -0,0 +1,119 @@
+import { describe, it, expect } from "vitest";
+import {
+  bytesToBase64,
+  encodeEscPos,
+  encodeText,
+  EscPosError,
+  layoutToEscPos,
+  previewEscPos,
+} from "./escpos";
+
+const hex = (bytes: Uint8Array | number[]) =>
+  Array.from(bytes, (b) => b.toString(16).padStart(2, "0")).join(" ");
+
+describe("ESC/POS encoder", () => {
+  it("initializes the printer with density and speed", () => {
+    expect(hex(encodeEscPos([], { density: "dark", speed: "slow" }))).toBe(
+      "1b 40 1b 74 03 1d 28 4b 02 00 31 03 1d 28 4b 02 00 32 01",
+    );
+  });
+
+  it("encodes styled text in the Portuguese code page", () => {
+    expect(encodeText("Produção")).toEqual([
+      0x50, 0x72, 0x6f, 0x64, 0x75, 0x87, 0x84, 0x6f,
+    ]);
+    expect(encodeText("Ŝ€")).toEqual([0x53, 0x3f]);
+
+    const bytes = encodeEscPos([
+      { type: "text", value: "OK", align: "center", bold: true, width: 2 },
+    ]).slice(5);
+    expect(hex(bytes)).toBe(
+      "1b 61 01 1b 45 01 1b 2d 00 1d 21 10 4f 4b 0a 1b 45 00 1b 2d 00 1d 21 00",
+    );
+  });
+
+  it("encodes barcodes, QR codes and the cut", () => {
+    const barcode = encodeEscPos([
+      { type: "barcode", value: "AB1", height: 60 },
+    ]).slice(5);
+    expect(hex(barcode)).toBe(
+      "1b 61 01 1d 68 3c 1d 77 02 1d 48 02 1d 6b 49 05 7b 42 41 42 31 0a",
+    );
+
+    const qr = hex(encodeEscPos([{ type: "qrcode", value: "OP-1" }]));
+    // Armazena 4 bytes de dados + 3 de cabeçalho
+    expect(qr).toContain("1d 28 6b 07 00 31 50 30 4f 50 2d 31");
+    expect(qr).toContain("1d 28 6b 03 00 31 51 30");
+
+    expect(hex(encodeEscPos([{ type: "cut", partial: true }]).slice(5))).toBe(
+      "1b 64 04 1d 56 01",
+    );
+
+    expect(() =>
+      encodeEscPos([{ type: "barcode", value: "123", symbology: "EAN13" }]),
+    ).toThrow(EscPosError);
+    expect(() =>
+      encodeEscPos([
+        { type: "barcode", value: "7891234567890", symbology: "EAN13" },
+      ]),
+    ).toThrow("esperado 5");
+  });
+
+  it("previews the label as plain text", () => {
+    expect(
+      previewEscPos(
+        [
+          { type: "text", value: "BIOBOX", align: "center" },
+          { type: "rule", char: "=" },
+          { type: "barcode", value: "AB1" },
+        ],
+        16,
+      ),
+    ).toBe(
+      ["     BIOBOX", "================", "|".repeat(15), "      AB1"].join(
+        "\n",
+      ),
+    );
+    expect(bytesToBase64(Uint8Array.from([0x1b, 0x40]))).toBe("G0A=");
+  });
+
+  it("converts a label layout into commands in reading order", () => {
+    expect(
+      layoutToEscPos({
+        widthMm: 50,
+        heightMm: 30,
+        elements: [
+          {
+            type: "barcode",
+            x: 1,
+            y: 10,
+            width: 48,
+            height: 13,
+            value: "AB1",
+            symbology: "CODE128",
+          },
+          { type: "image", x: 1, y: 1, width: 8, height: 3, src: "/logo.png" },
+          { type: "text", x: 1, y: 1, value: "BIOBOX", fontSize: 6 },
+          { type: "box", x: 0, y: 8, width: 50, height: 0.3 },
+        ],
+      }),
+    ).toEqual([
+      {
+        type: "text",
+        value: "BIOBOX",
+        align: "left",
+        bold: undefined,
+        width: 2,
+        height: 2,
+      },
+      { type: "rule" },
+      {
+        type: "barcode",
+        value: "AB1",
+        symbology: "CODE128",
+        height: 80,
+        showText: undefined,
+      },
+    ]);
+  });
+});
@@ -0,0 +1,408 @@
+import { ean13Problem } from "./gtin";
+import type { LabelLayout } from "./labelLayout";
+
+/**
+ * Codificador ESC/POS para impressoras térmicas de etiqueta/cupom. A etiqueta
+ * é descrita como uma lista de comandos (texto, código de barras, QR, corte)
+ * que vira os bytes enviados à impressora; a mesma lista gera a
+ * pré-visualização em texto. Compartilhado entre client e server.
+ */
+
+export type EscPosAlign = "left" | "center" | "right";
+
+export type EscPosCommand =
+  | {
+      type: "text";
+      value: string;
+      align?: EscPosAlign;
+      bold?: boolean;
+      underline?: boolean;
+      /** Multiplicadores de largura e altura dos caracteres (1 a 8) */
+      width?: number;
+      height?: number;
+    }
+  | { type: "feed"; lines?: number }
+  /** Linha separadora ocupando toda a largura do papel */
+  | { type: "rule"; char?: string }
+  | {
+      type: "barcode";
+      value: string;
+      symbology?: "CODE128" | "CODE39" | "EAN13";
+      /** Altura em pontos (1 a 255) */
+      height?: number;
+      /** Largura do módulo (2 a 6) */
+      moduleWidth?: number;
+      /** Imprime o código legível abaixo das barras */
+      showText?: boolean;
+      align?: EscPosAlign;
+    }
+  | {
+      type: "qrcode";
+      value: string;
+      /** Tamanho do módulo (1 a 16) */
+      size?: number;
+      errorCorrection?: "L" | "M" | "Q" | "H";
+      align?: EscPosAlign;
+    }
+  | { type: "cut"; partial?: boolean; feed?: number }
+  | { type: "raw"; bytes: number[] };
+
+export interface EscPosOptions {
+  /** Colunas de texto na fonte padrão (32 em 58mm, 48 em 80mm) */
+  columns?: number;
+  density?: "light" | "medium" | "dark";
+  speed?: "slow" | "medium" | "fast";
+}
+
+export class EscPosError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "EscPosError";
+  }
+}
+
+const ESC = 0x1b;
+const GS = 0x1d;
+const LF = 0x0a;
+
+const ALIGN: Record<EscPosAlign, number> = { left: 0, center: 1, right: 2 };
+
+// Ajuste relativo ao padrão da impressora (GS ( K, função 49): 250–255 = -6…-1
+const DENSITY: Record<NonNullable<EscPosOptions["density"]>, number> = {
+  light: 0xfd,
+  medium: 0,
+  dark: 3,
+};
+
+// GS ( K, função 50: 1 é a velocidade mais baixa
+const SPEED: Record<NonNullable<EscPosOptions["speed"]>, number> = {
+  slow: 1,
+  medium: 5,
+  fast: 9,
+};
+
+const QR_ERROR_CORRECTION = { L: 48, M: 49, Q: 50, H: 51 };
+
+// Página de código PC860 (português), selecionada com ESC t 3
+const CP860: Record<string, number> = {
+  Ç: 0x80,
+  ü: 0x81,
+  é: 0x82,
+  â: 0x83,
+  ã: 0x84,
+  à: 0x85,
+  Á: 0x86,
+  ç: 0x87,
+  ê: 0x88,
+  Ê: 0x89,
+  è: 0x8a,
+  Í: 0x8b,
+  Ô: 0x8c,
+  ì: 0x8d,
+  Ã: 0x8e,
+  Â: 0x8f,
+  É: 0x90,
+  À: 0x91,
+  È: 0x92,
+  ô: 0x93,
+  õ: 0x94,
+  ò: 0x95,
+  Ú: 0x96,
+  ù: 0x97,
+  Ì: 0x98,
+  Õ: 0x99,
+  Ü: 0x9a,
+  Ù: 0x9d,
+  Ó: 0x9f,
+  á: 0xa0,
+  í: 0xa1,
+  ó: 0xa2,
+  ú: 0xa3,
+  ñ: 0xa4,
+  Ñ: 0xa5,
+  ª: 0xa6,
+  º: 0xa7,
+  "°": 0xf8,
+  "·": 0xfa,
+};
+
+const clamp = (value: number, min: number, max: number) =>
+  Math.min(max, Math.max(min, Math.round(value)));
+
+const setAlign = (align: EscPosAlign) => [ESC, 0x61, ALIGN[align]];
+
+const feedLines = (lines: number) => [ESC, 0x64, clamp(lines, 0, 255)];
+
+/** Negrito, sublinhado e tamanho (GS !); sem argumentos volta ao padrão. */
+const setStyle = (bold = false, underline = false, width = 1, height = 1) => [
+  ...[ESC, 0x45, bold ? 1 : 0],
+  ...[ESC, 0x2d, underline ? 1 : 0],
+  ...[GS, 0x21, ((clamp(width, 1, 8) - 1) << 4) | (clamp(height, 1, 8) - 1)],
+];
+
+/** Funções estendidas `GS ( <letra> pL pH ...` (QR Code, densidade, velocidade). */
+const extended = (letter: number, payload: number[]) => [
+  ...[GS, 0x28, letter, payload.length & 0xff, payload.length >> 8],
+  ...payload,
+];
+
+/** Texto na página PC860; caracteres fora dela perdem o acento ou viram "?". */
+export function encodeText(text: string): number[] {
+  const bytes: number[] = [];
+  for (const char of text) {
+    const code = char.charCodeAt(0);
+    if (code >= 0x20 && code < 0x7f) {
+      bytes.push(code);
+    } else if (CP860[char] !== undefined) {
+      bytes.push(CP860[char]);
+    } else {
+      const plain = char.normalize("NFD").charAt(0);
+      bytes.push(/^[\x20-\x7e]$/.test(plain) ? plain.charCodeAt(0) : 0x3f);
+    }
+  }
+  return bytes;
+}
+
+function barcodeBytes(
+  command: Extract<EscPosCommand, { type: "barcode" }>,
+): number[] {
+  const symbology = command.symbology ?? "CODE128";
+  let type: number;
+  let data: string;
+  switch (symbology) {
+    case "EAN13": {
+      const problem = ean13Problem(command.value);
+      if (problem) throw new EscPosError(problem);
+      type = 67;
+      data = command.value;
+      break;
+    }
+    case "CODE39":
+      if (!/^[0-9A-Z $%+\-./]+$/.test(command.value)) {
+        throw new EscPosError(`Código "${command.value}" inválido para CODE39`);
+      }
+      type = 69;
+      data = command.value;
+      break;
+    default:
+      if (!/^[\x20-\x7e]+$/.test(command.value)) {
+        throw new EscPosError(
+          `Código "${command.value}" inválido para CODE128`,
+        );
+      }
+      type = 73;
+      // "{B" seleciona o conjunto B (ASCII imprimível) do CODE128
+      data = `{B${command.value}`;
+  }
+  if (data.length > 255) {
+    throw new EscPosError("Código de barras longo demais");
+  }
+
+  return [
+    ...setAlign(command.align ?? "center"),
+    ...[GS, 0x68, clamp(command.height ?? 80, 1, 255)],
+    ...[GS, 0x77, clamp(command.moduleWidth ?? 2, 2, 6)],
+    ...[GS, 0x48, command.showText === false ? 0 : 2],
+    ...[GS, 0x6b, type, data.length, ...encodeText(data)],
+    LF,
+  ];
+}
+
+function qrCodeBytes(
+  command: Extract<EscPosCommand, { type: "qrcode" }>,
+): number[] {
+  const data = Array.from(new TextEncoder().encode(command.value));
+  if (data.length === 0 || data.length > 7089) {
+    throw new EscPosError("Conteúdo do QR Code inválido");
+  }
+  const errorCorrection = QR_ERROR_CORRECTION[command.errorCorrection ?? "M"];
+  return [
+    ...setAlign(command.align ?? "center"),
+    // Modelo 2, tamanho do módulo e correção de erro
+    ...extended(0x6b, [0x31, 0x41, 0x32, 0]),
+    ...extended(0x6b, [0x31, 0x43, clamp(command.size ?? 6, 1, 16)]),
+    ...extended(0x6b, [0x31, 0x45, errorCorrection]),
+    // Armazena os dados e imprime o símbolo
+    ...extended(0x6b, [0x31, 0x50, 0x30, ...data]),
+    ...extended(0x6b, [0x31, 0x51, 0x30]),
+    LF,
+  ];
+}
+
+function commandBytes(command: EscPosCommand, columns: number): number[] {
+  switch (command.type) {
+    case "text":
+      return [
+        ...setAlign(command.align ?? "left"),
+        ...setStyle(
+          command.bold,
+          command.underline,
+          command.width,
+          command.height,
+        ),
+        ...encodeText(command.value),
+        LF,
+        // Volta ao estilo padrão para o próximo comando
+        ...setStyle(),
+      ];
+    case "feed":
+      return feedLines(command.lines ?? 1);
+    case "rule":
+      return [
+        ...setAlign("left"),
+        ...encodeText((command.char || "-").charAt(0).repeat(columns)),
+        LF,
+      ];
+    case "barcode":
+      return barcodeBytes(command);
+    case "qrcode":
+      return qrCodeBytes(command);
+    case "cut":
+      // Avança o papel até a serrilha antes de cortar
+      return [
+        ...feedLines(command.feed ?? 4),
+        GS,
+        0x56,
+        command.partial ? 1 : 0,
+      ];
+    case "raw":
+      return command.bytes;
+  }
+}
+
+/** Bytes ESC/POS da etiqueta: inicializa, aplica densidade/velocidade e os comandos. */
+export function encodeEscPos(
+  commands: EscPosCommand[],
+  options: EscPosOptions = {},
+): Uint8Array {
+  const columns = options.columns ?? 48;
+  // ESC @ reinicia a impressora; ESC t 3 seleciona a página PC860
+  const bytes: number[] = [ESC, 0x40, ESC, 0x74, 3];
+  if (options.density) {
+    bytes.push(...extended(0x4b, [0x31, DENSITY[options.density]]));
+  }
+  if (options.speed) {
+    bytes.push(...extended(0x4b, [0x32, SPEED[options.speed]]));
+  }
+  for (const command of commands) {
+    bytes.push(...commandBytes(command, columns));
+  }
+  return Uint8Array.from(bytes);
+}
+
+// Altura de um caractere da fonte A (24 pontos a 203 dpi)
+const ESC_POS_CHAR_MM = 3;
+
+/**
+ * Comandos para imprimir um layout de etiqueta. A impressora de cupom imprime
+ * linha a linha: os elementos saem de cima para baixo, textos crescem em
+ * múltiplos da fonte padrão e imagens ficam de fora.
+ */
+export function layoutToEscPos(layout: LabelLayout): EscPosCommand[] {
+  const dots = (mm: number) => Math.round(mm * 8);
+  return [...layout.elements]
+    .sort((a, b) => a.y - b.y || a.x - b.x)
+    .flatMap((element): EscPosCommand[] => {
+      switch (element.type) {
+        case "text": {
+          const scale = clamp(element.fontSize / ESC_POS_CHAR_MM, 1, 8);
+          return [
+            {
+              type: "text",
+              value: element.value,
+              align: element.width ? (element.align ?? "left") : "left",
+              bold: element.bold,
+              width: scale,
+              height: scale,
+            },
+          ];
+        }
+        case "barcode":
+          if (element.symbology === "QR") {
+            // Cerca de 25 módulos por lado em conteúdos curtos
+            return [
+              {
+                type: "qrcode",
+                value: element.value,
+                size: clamp(dots(element.width) / 25, 1, 16),
+              },
+            ];
+          }
+          return [
+            {
+              type: "barcode",
+              value: element.value,
+              symbology: element.symbology,
+              height: dots(
+                element.height - (element.showText === false ? 0 : 3),
+              ),
+              showText: element.showText,
+            },
+          ];
+        case "box":
+          // Só linhas horizontais têm equivalente no cupom
+          return element.height <= 1 ? [{ type: "rule" }] : [];
+        default:
+          return [];
+      }
+    });
+}
+
+const alignLine = (text: string, align: EscPosAlign, columns: number) => {
+  const padding = Math.max(0, columns - text.length);
+  if (align === "center") return " ".repeat(Math.floor(padding / 2)) + text;
+  if (align === "right") return " ".repeat(padding) + text;
+  return text;
+};
+
+/** Pré-visualização em texto puro da etiqueta, uma linha por linha impressa. */
+export function previewEscPos(commands: EscPosCommand[], columns = 48): string {
+  const lines: string[] = [];
+  for (const command of commands) {
+    switch (command.type) {
+      case "text": {
+        // Caracteres largos ocupam mais de uma coluna
+        const width = Math.max(1, Math.floor(columns / (command.width ?? 1)));
+        lines.push(alignLine(command.value, command.align ?? "left", width));
+        break;
+      }
+      case "feed":
+        for (let i = 0; i < (command.lines ?? 1); i++) lines.push("");
+        break;
+      case "rule":
+        lines.push((command.char || "-").charAt(0).repeat(columns));
+        break;
+      case "barcode": {
+        const bars = "|".repeat(Math.min(columns, command.value.length + 12));
+        const align = command.align ?? "center";
+        lines.push(alignLine(bars, align, columns));
+        if (command.showText !== false) {
+          lines.push(alignLine(command.value, align, columns));
+        }
+        break;
+      }
+      case "qrcode":
+        lines.push(
+          alignLine(
+            `[QR] ${command.value}`,
+            command.align ?? "center",
+            columns,
+          ),
+        );
+        break;
+      case "cut":
+        lines.push(alignLine("- - - corte - - -", "center", columns));
+        break;
+    }
+  }
+  return lines.join("\n");
+}
+
+/** Base64 dos bytes, formato aceito pela ponte de impressão (/api/print). */
+export function bytesToBase64(bytes: Uint8Array): string {
+  let binary = "";
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
@@ -0,0 +1,43 @@
+import { describe, it, expect } from "vitest";
+import {
+  GtinError,
+  buildGtin13,
+  ean13Problem,
+  gtinCheckDigit,
+  isValidGtin13,
+  nextGtin13,
+} from "./gtin";
+
+describe("gtin", () => {
+  it("computes and checks the EAN-13 check digit", () => {
+    expect(gtinCheckDigit("789123456789")).toBe(5);
+    expect(gtinCheckDigit("400638133393")).toBe(1);
+    expect(isValidGtin13("7891234567895")).toBe(true);
+    expect(isValidGtin13("7891234567890")).toBe(false);
+    expect(isValidGtin13("789123456789")).toBe(false);
+
+    expect(ean13Problem("789123456789")).toBeNull();
+    expect(ean13Problem("7891234567890")).toContain("esperado 5");
+    expect(ean13Problem("ABC")).toBe("EAN-13 exige 12 ou 13 dígitos");
+  });
+
+  it("builds codes inside the company prefix", () => {
+    expect(buildGtin13("7891234", 1)).toBe("7891234000019");
+    expect(() => buildGtin13("7891234", 100000)).toThrow(GtinError);
+    expect(() => buildGtin13("78912", 1)).toThrow("6 a 11 dígitos");
+  });
+
+  it("issues the first reference not yet taken", () => {
+    const first = nextGtin13("7891234", []);
+    expect(first).toBe("7891234000002");
+    expect(nextGtin13("7891234", [first, " 7891234000019 "])).toBe(
+      "7891234000026",
+    );
+    expect(() =>
+      nextGtin13(
+        "78912345678",
+        Array.from({ length: 10 }, (_, i) => buildGtin13("78912345678", i)),
+      ),
+    ).toThrow("já estão em uso");
+  });
+});
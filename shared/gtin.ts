@@ -0,0 +1,87 @@
+/**
+ * GTIN-13 (EAN-13): prefixo de empresa GS1 + referência do item + dígito
+ * verificador. Compartilhado entre cadastro de produtos e saídas de
+ * impressão (PDF, ESC/POS e ZPL).
+ */
+
+export class GtinError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "GtinError";
+  }
+}
+
+/** Prefixos GS1 de empresa têm de 6 a 11 dígitos (sobra ao menos 1 para o item). */
+const PREFIX_PATTERN = /^\d{6,11}$/;
+
+/** Dígito verificador dos 12 primeiros dígitos (pesos 1 e 3 alternados). */
+export function gtinCheckDigit(body: string): number {
+  if (!/^\d{12}$/.test(body)) {
+    throw new GtinError("O cálculo do dígito exige 12 dígitos");
+  }
+  const sum = [...body].reduce(
+    (total, digit, index) => total + Number(digit) * (index % 2 ? 3 : 1),
+    0,
+  );
+  return (10 - (sum % 10)) % 10;
+}
+
+export const isValidGtin13 = (code: string) =>
+  /^\d{13}$/.test(code) && gtinCheckDigit(code.slice(0, 12)) === +code[12];
+
+/**
+ * Valida o código antes de imprimir em EAN-13. Com 12 dígitos o dígito
+ * verificador é calculado na impressão; com 13, precisa estar correto.
+ * Devolve a mensagem de erro ou `null`.
+ */
+export function ean13Problem(code: string): string | null {
+  if (!/^\d{12,13}$/.test(code)) return "EAN-13 exige 12 ou 13 dígitos";
+  if (code.length === 13 && !isValidGtin13(code)) {
+    return `Dígito verificador do EAN-13 ${code} inválido (esperado ${gtinCheckDigit(code.slice(0, 12))})`;
+  }
+  return null;
+}
+
+export function normalizeGtinPrefix(prefix: string): string {
+  const digits = (prefix || "").trim();
+  if (!PREFIX_PATTERN.test(digits)) {
+    throw new GtinError("O prefixo GS1 da empresa deve ter de 6 a 11 dígitos");
+  }
+  return digits;
+}
+
+/** GTIN-13 da referência do item dentro do prefixo da empresa. */
+export function buildGtin13(prefix: string, itemReference: number): string {
+  const company = normalizeGtinPrefix(prefix);
+  const size = 12 - company.length;
+  if (
+    !Number.isInteger(itemReference) ||
+    itemReference < 0 ||
+    itemReference >= 10 ** size
+  ) {
+    throw new GtinError(
+      `Referência ${itemReference} fora da faixa do prefixo ${company}`,
+    );
+  }
+  const body = company + String(itemReference).padStart(size, "0");
+  return body + gtinCheckDigit(body);
+}
+
+/**
+ * Próximo GTIN-13 livre do prefixo: a menor referência cujo código ainda
+ * não aparece em `taken`.
+ */
+export function nextGtin13(prefix: string, taken: Iterable<string>): string {
+  const company = normalizeGtinPrefix(prefix);
+  const used = new Set(
+    Array.from(taken, (code) => (code || "").trim()).filter((code) =>
+      code.startsWith(company),
+    ),
+  );
+  const capacity = 10 ** (12 - company.length);
+  for (let reference = 0; reference < capacity; reference++) {
+    const code = buildGtin13(company, reference);
+    if (!used.has(code)) return code;
+  }
+  throw new GtinError(`Todos os códigos do prefixo ${company} já estão em uso`);
+}
@@ -0,0 +1,109 @@
+/**
+ * Layout de etiqueta independente da impressora: posições e tamanhos em
+ * milímetros, a partir do canto superior esquerdo. O mesmo layout gera o ZPL
+ * e a pré-visualização no navegador.
+ */
+
+export type LabelSymbology = "CODE128" | "EAN13" | "QR";
+
+export type LabelElement =
+  | {
+      type: "text";
+      x: number;
+      y: number;
+      value: string;
+      /** Altura dos caracteres em mm */
+      fontSize: number;
+      bold?: boolean;
+      /** Largura do bloco de texto; sem ela o texto não é alinhado */
+      width?: number;
+      align?: "left" | "center" | "right";
+    }
+  | {
+      type: "barcode";
+      x: number;
+      y: number;
+      width: number;
+      /** Altura total, incluindo o texto legível */
+      height: number;
+      value: string;
+      symbology: LabelSymbology;
+      showText?: boolean;
+    }
+  | {
+      type: "image";
+      x: number;
+      y: number;
+      width: number;
+      height: number;
+      /** URL da imagem para a pré-visualização */
+      src: string;
+      /** Versão monocromática já no tamanho final, exigida pelo ZPL */
+      bitmap?: MonochromeBitmap;
+    }
+  | {
+      type: "box";
+      x: number;
+      y: number;
+      width: number;
+      height: number;
+      /** Espessura da borda em mm */
+      thickness?: number;
+    };
+
+export interface LabelLayout {
+  widthMm: number;
+  heightMm: number;
+  elements: LabelElement[];
+}
+
+/** Imagem de 1 bit por ponto; cada linha é completada até o byte, 1 = preto. */
+export interface MonochromeBitmap {
+  width: number;
+  height: number;
+  bytesPerRow: number;
+  data: Uint8Array;
+}
+
+/** Pontos de impressão por milímetro: 8 em 203 dpi, 12 em 300 dpi. */
+export const mmToDots = (mm: number, dpmm: number) => Math.round(mm * dpmm);
+
+// Largura média de um caractere da fonte escalável em relação à altura
+const CHAR_WIDTH_RATIO = 0.55;
+
+/** Corta o texto para caber na largura, terminando em "..." (as fontes da impressora não têm "…"). */
+export function fitText(value: string, fontSize: number, width: number) {
+  const max = Math.max(1, Math.floor(width / (fontSize * CHAR_WIDTH_RATIO)));
+  if (value.length <= max) return value;
+  return max > 3
+    ? `${value.slice(0, max - 3).trimEnd()}...`
+    : value.slice(0, max);
+}
+
+/**
+ * Converte pixels RGBA (ex.: ImageData de um canvas) em bitmap monocromático.
+ * Pixels transparentes contam como papel em branco.
+ */
+export function toMonochromeBitmap(
+  rgba: ArrayLike<number>,
+  width: number,
+  height: number,
+  threshold = 128,
+): MonochromeBitmap {
+  const bytesPerRow = Math.ceil(width / 8);
+  const data = new Uint8Array(bytesPerRow * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      const alpha = rgba[i + 3] / 255;
+      // Luminância sobre fundo branco
+      const luminance =
+        (0.299 * rgba[i] + 0.587 * rgba[i + 1] + 0.114 * rgba[i + 2]) * alpha +
+        255 * (1 - alpha);
+      if (luminance < threshold) {
+        data[y * bytesPerRow + (x >> 3)] |= 0x80 >> (x & 7);
+      }
+    }
+  }
+  return { width, height, bytesPerRow, data };
+}
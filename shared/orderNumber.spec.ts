@@ -0,0 +1,55 @@
+import { describe, it, expect } from "vitest";
+import {
+  formatOrderNumber,
+  highestOrderSequence,
+  issueOrderNumber,
+  parseOrderNumber,
+} from "./orderNumber";
+
+describe("order numbering", () => {
+  it("formats with prefix, year and padding", () => {
+    expect(formatOrderNumber(7, 2025)).toBe("ORD-2025-0007");
+    expect(formatOrderNumber(12, 2025, { prefix: "PV", padding: 6 })).toBe(
+      "PV-2025-000012",
+    );
+  });
+
+  it("parses order numbers", () => {
+    expect(parseOrderNumber("ORD-2025-0042")).toEqual({
+      prefix: "ORD",
+      year: 2025,
+      sequence: 42,
+    });
+    expect(parseOrderNumber("pedido 42")).toBeNull();
+  });
+
+  it("finds the highest sequence of a year", () => {
+    expect(
+      highestOrderSequence(
+        ["ORD-2025-0003", "ORD-2024-0099", "ORD-2025-0011", "foo"],
+        2025,
+      ),
+    ).toBe(11);
+  });
+
+  it("skips numbers that are already taken", async () => {
+    let sequence = 0;
+    const taken = new Set(["ORD-2025-0001", "ORD-2025-0002"]);
+    const orderNumber = await issueOrderNumber({
+      nextSequence: async () => ++sequence,
+      isTaken: async (value) => taken.has(value),
+      date: new Date(2025, 5, 1),
+    });
+    expect(orderNumber).toBe("ORD-2025-0003");
+  });
+
+  it("gives up after too many collisions", async () => {
+    await expect(
+      issueOrderNumber({
+        nextSequence: async () => 1,
+        isTaken: async () => true,
+        maxAttempts: 3,
+      }),
+    ).rejects.toThrow(/3 tentativas/);
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * Numeração sequencial de pedidos (ORD-YYYY-NNNN), compartilhada entre
+ * client e server. O contador é anual: cada ano recomeça em 1.
+ */
+
+export interface OrderNumberConfig {
+  prefix: string;
+  padding: number;
+}
+
+export const DEFAULT_ORDER_NUMBER_CONFIG: OrderNumberConfig = {
+  prefix: "ORD",
+  padding: 4,
+};
+
+/** Id do documento de contador (coleção `counters`) para um ano. */
+export const orderCounterId = (year: number) => `orders-${year}`;
+
+export function formatOrderNumber(
+  sequence: number,
+  year: number,
+  config: OrderNumberConfig = DEFAULT_ORDER_NUMBER_CONFIG,
+): string {
+  return `${config.prefix}-${year}-${String(sequence).padStart(config.padding, "0")}`;
+}
+
+export function parseOrderNumber(
+  orderNumber: string,
+): { prefix: string; year: number; sequence: number } | null {
+  const match = /^(.+)-(\d{4})-(\d+)$/.exec(orderNumber?.trim() ?? "");
+  if (!match) return null;
+  return {
+    prefix: match[1],
+    year: Number(match[2]),
+    sequence: Number(match[3]),
+  };
+}
+
+/**
+ * Maior sequência já usada no ano entre os números informados. Usado para
+ * iniciar contadores locais sem reaproveitar números de pedidos existentes.
+ */
+export function highestOrderSequence(
+  orderNumbers: string[],
+  year: number,
+): number {
+  return orderNumbers.reduce((max, value) => {
+    const parsed = parseOrderNumber(value);
+    return parsed && parsed.year === year
+      ? Math.max(max, parsed.sequence)
+      : max;
+  }, 0);
+}
+
+interface IssueOrderNumberOptions {
+  /** Incrementa atomicamente o contador do ano e devolve o novo valor */
+  nextSequence: (year: number) => Promise<number>;
+  /** Verifica se o número já pertence a algum pedido salvo */
+  isTaken: (orderNumber: string) => Promise<boolean>;
+  config?: OrderNumberConfig;
+  date?: Date;
+  maxAttempts?: number;
+}
+
+/**
+ * Reserva o próximo número do contador e confirma que ele ainda não existe.
+ * Se o contador estiver atrasado (ex.: pedidos gravados offline), avança até
+ * encontrar um número livre.
+ */
+export async function issueOrderNumber({
+  nextSequence,
+  isTaken,
+  config = DEFAULT_ORDER_NUMBER_CONFIG,
+  date = new Date(),
+  maxAttempts = 10,
+}: IssueOrderNumberOptions): Promise<string> {
+  const year = date.getFullYear();
+  for (let attempt = 0; attempt < maxAttempts; attempt++) {
+    const orderNumber = formatOrderNumber(
+      await nextSequence(year),
+      year,
+      config,
+    );
+    if (!(await isTaken(orderNumber))) return orderNumber;
+  }
+  throw new Error(
+    `Não foi possível gerar um número de pedido livre após ${maxAttempts} tentativas`,
+  );
+}
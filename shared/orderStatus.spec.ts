@@ -0,0 +1,269 @@
+import { describe, it, expect } from "vitest";
+import type { OrderStatus } from "./api";
+import {
+  ORDER_STATUS_TRANSITIONS,
+  OrderTransitionError,
+  assertTransition,
+  buildTransitionUpdates,
+  createStatusChange,
+  finishedProductionStatus,
+  getAvailableTransitions,
+  validateTransition,
+  type TransitionActor,
+  type TransitionOrder,
+} from "./orderStatus";
+
+const STATUSES: OrderStatus[] = [
+  "pending",
+  "awaiting_approval",
+  "confirmed",
+  "in_production",
+  "quality_check",
+  "ready",
+  "delivered",
+  "cancelled",
+];
+
+const LEGAL: [OrderStatus, OrderStatus][] = [
+  ["pending", "awaiting_approval"],
+  ["pending", "confirmed"],
+  ["pending", "cancelled"],
+  ["awaiting_approval", "confirmed"],
+  ["awaiting_approval", "cancelled"],
+  ["confirmed", "in_production"],
+  ["confirmed", "cancelled"],
+  ["in_production", "quality_check"],
+  ["in_production", "ready"],
+  ["in_production", "cancelled"],
+  ["quality_check", "ready"],
+  ["quality_check", "in_production"],
+  ["quality_check", "cancelled"],
+  ["ready", "delivered"],
+  ["ready", "cancelled"],
+];
+
+const admin: TransitionActor = { id: "admin-1", role: "admin" };
+const seller: TransitionActor = {
+  id: "seller-1",
+  role: "seller",
+  permissions: [
+    { module: "orders", actions: ["view", "create", "edit", "delete"] },
+  ],
+};
+const operator: TransitionActor = {
+  id: "op-1",
+  role: "operator",
+  permissions: [{ module: "production", actions: ["view", "edit"] }],
+};
+
+const completedStages = [
+  { stage: "cutting_sewing", status: "completed" },
+  { stage: "packaging", status: "completed" },
+];
+
+const orderIn = (status: OrderStatus): TransitionOrder => ({
+  status,
+  seller_id: "seller-1",
+  production_stages: completedStages,
+});
+
+const fieldsFor = (to: OrderStatus) =>
+  to === "cancelled"
+    ? { cancellation_reason: "Cliente desistiu" }
+    : { quality_inspection_id: "insp-1" };
+
+describe("order status state machine", () => {
+  it("has no duplicated transitions", () => {
+    const keys = ORDER_STATUS_TRANSITIONS.map((t) => `${t.from}>${t.to}`);
+    expect(new Set(keys).size).toBe(keys.length);
+    expect(keys.sort()).toEqual(LEGAL.map(([f, t]) => `${f}>${t}`).sort());
+  });
+
+  for (const from of STATUSES) {
+    for (const to of STATUSES) {
+      if (from === to) continue;
+      const legal = LEGAL.some(([f, t]) => f === from && t === to);
+      it(`${legal ? "allows" : "rejects"} ${from} -> ${to}`, () => {
+        const result = validateTransition(
+          orderIn(from),
+          to,
+          admin,
+          fieldsFor(to),
+        );
+        expect(result.ok).toBe(legal);
+      });
+    }
+  }
+
+  it("treats keeping the same status as a no-op", () => {
+    expect(validateTransition(orderIn("delivered"), "delivered")).toEqual({
+      ok: true,
+      transition: null,
+    });
+  });
+
+  it("requires a cancellation reason", () => {
+    const result = validateTransition(orderIn("pending"), "cancelled", admin);
+    expect(result.ok).toBe(false);
+    expect(
+      validateTransition(orderIn("pending"), "cancelled", admin, {
+        cancellation_reason: "   ",
+      }).ok,
+    ).toBe(false);
+    expect(() =>
+      assertTransition(orderIn("ready"), "cancelled", admin),
+    ).toThrow(OrderTransitionError);
+  });
+
+  it("requires a new inspection to leave quality control", () => {
+    const order = orderIn("quality_check");
+    expect(validateTransition(order, "ready", operator).ok).toBe(false);
+    expect(
+      validateTransition(order, "in_production", operator, {
+        quality_inspection_id: "insp-1",
+      }).ok,
+    ).toBe(true);
+
+    const toQc = ORDER_STATUS_TRANSITIONS.find((t) => t.to === "quality_check");
+    expect(buildTransitionUpdates(toQc).quality_inspection_id).toBe("");
+  });
+
+  it("only finishes production when every stage is completed", () => {
+    const order: TransitionOrder = {
+      status: "in_production",
+      production_stages: [
+        { stage: "cutting_sewing", status: "completed" },
+        { stage: "packaging", status: "in_progress" },
+      ],
+    };
+    expect(validateTransition(order, "ready", operator).ok).toBe(false);
+    expect(
+      validateTransition(order, "ready", operator, {
+        production_stages: completedStages,
+      }).ok,
+    ).toBe(true);
+  });
+
+  it("sends reworked orders back to quality control", () => {
+    const history = [
+      createStatusChange("in_production", "quality_check", operator),
+      createStatusChange("quality_check", "in_production", operator),
+    ];
+    const reworked: TransitionOrder = {
+      ...orderIn("in_production"),
+      quality_inspection_id: "insp-failed",
+      status_history: history,
+    };
+    expect(validateTransition(reworked, "ready", operator).ok).toBe(false);
+    expect(validateTransition(reworked, "quality_check", operator).ok).toBe(
+      true,
+    );
+    expect(finishedProductionStatus(reworked)).toBe("quality_check");
+
+    // Aprovado na nova inspeção, o pedido segue normalmente
+    const approved: TransitionOrder = {
+      ...reworked,
+      status_history: [
+        ...history,
+        createStatusChange("in_production", "quality_check", operator),
+        createStatusChange("quality_check", "ready", operator),
+      ],
+    };
+    expect(finishedProductionStatus(approved)).toBe("ready");
+    expect(finishedProductionStatus(orderIn("in_production"))).toBe("ready");
+  });
+
+  it("applies role and permission guards", () => {
+    // Confirmar exige orders:approve (somente admin nos perfis padrão)
+    expect(validateTransition(orderIn("pending"), "confirmed", seller).ok).toBe(
+      false,
+    );
+    // Operador movimenta a produção, mas não entrega nem envia pedidos
+    expect(
+      validateTransition(orderIn("confirmed"), "in_production", operator).ok,
+    ).toBe(true);
+    expect(validateTransition(orderIn("ready"), "delivered", operator).ok).toBe(
+      false,
+    );
+    expect(
+      validateTransition(orderIn("pending"), "awaiting_approval", operator).ok,
+    ).toBe(false);
+    // Vendedor cancela pedido próprio ainda não confirmado
+    expect(
+      validateTransition(orderIn("pending"), "cancelled", seller, {
+        cancellation_reason: "Duplicado",
+      }).ok,
+    ).toBe(true);
+    expect(
+      validateTransition(
+        { ...orderIn("pending"), seller_id: "seller-2" },
+        "cancelled",
+        seller,
+        { cancellation_reason: "Duplicado" },
+      ).ok,
+    ).toBe(false);
+    expect(
+      validateTransition(orderIn("confirmed"), "cancelled", seller, {
+        cancellation_reason: "Duplicado",
+      }).ok,
+    ).toBe(false);
+  });
+
+  it("lists the transitions available to each actor", () => {
+    const targets = (order: TransitionOrder, actor: TransitionActor) =>
+      getAvailableTransitions(order, actor).map((t) => t.to);
+
+    expect(targets(orderIn("pending"), admin)).toEqual([
+      "awaiting_approval",
+      "confirmed",
+      "cancelled",
+    ]);
+    expect(targets(orderIn("pending"), seller)).toEqual([
+      "awaiting_approval",
+      "cancelled",
+    ]);
+    expect(targets(orderIn("quality_check"), operator)).toEqual([
+      "ready",
+      "in_production",
+    ]);
+    expect(
+      targets({ status: "in_production", production_stages: [] }, operator),
+    ).toEqual(["quality_check"]);
+    expect(targets(orderIn("delivered"), admin)).toEqual([]);
+    expect(getAvailableTransitions(orderIn("pending"), null)).toEqual([]);
+  });
+
+  it("builds the side effects of a transition", () => {
+    const deliver = ORDER_STATUS_TRANSITIONS.find((t) => t.to === "delivered");
+    const updates = buildTransitionUpdates(deliver);
+    expect(updates.status).toBe("delivered");
+    expect(updates.production_progress).toBe(100);
+    expect(typeof updates.completed_date).toBe("string");
+  });
+
+  it("creates status history entries", () => {
+    const at = new Date("2025-03-10T12:00:00.000Z");
+    expect(
+      createStatusChange(
+        "confirmed",
+        "in_production",
+        { id: "op-1", name: "Ana" },
+        "  ",
+        at,
+      ),
+    ).toEqual({
+      from: "confirmed",
+      to: "in_production",
+      actor_id: "op-1",
+      actor_name: "Ana",
+      at: "2025-03-10T12:00:00.000Z",
+    });
+    expect(
+      createStatusChange(null, "pending", null, " Duplicado ", at),
+    ).toMatchObject({
+      from: null,
+      actor_id: "unknown",
+      comment: "Duplicado",
+    });
+  });
+});
@@ -0,0 +1,356 @@
+/**
+ * Máquina de estados do status do pedido, compartilhada entre client e
+ * server. Toda mudança de status passa por `validateTransition`, e as telas
+ * (Pedidos, Agenda, OrderWorkflow) montam seus botões a partir de
+ * `getAvailableTransitions`.
+ */
+import type { OrderStatus, OrderStatusChange } from "./api";
+
+export type OrderRole = "admin" | "seller" | "operator";
+
+export interface ActorPermission {
+  module: string;
+  actions: string[];
+}
+
+/** Quem está mudando o status (mesmo formato do usuário do useAuth). */
+export interface TransitionActor {
+  id?: string;
+  role: OrderRole;
+  permissions?: ActorPermission[];
+}
+
+/** Campos do pedido que as regras de transição precisam ler. */
+export interface TransitionOrder {
+  status: OrderStatus;
+  seller_id?: string;
+  production_stages?: { stage?: string; status?: string }[];
+  status_history?: OrderStatusChange[];
+  [key: string]: any;
+}
+
+export type TransitionRequiredField =
+  | "cancellation_reason"
+  | "quality_inspection_id";
+
+export interface StatusTransition {
+  from: OrderStatus;
+  to: OrderStatus;
+  label: string;
+  /** Classe de cor do botão */
+  color: string;
+  permission: { module: string; action: string };
+  /** Papéis autorizados (todos, se omitido) */
+  roles?: OrderRole[];
+  /** Vendedores só podem aplicar em pedidos próprios */
+  ownerOnly?: boolean;
+  requiredFields?: TransitionRequiredField[];
+  /** Progresso de produção aplicado junto com a transição */
+  progress?: number;
+  /** Condição extra; retorna a mensagem de erro quando não atendida */
+  guard?: (order: TransitionOrder) => string | null;
+}
+
+export const ORDER_STATUS_LABELS: Record<OrderStatus, string> = {
+  pending: "Pendente",
+  awaiting_approval: "Aguardando Aprovação",
+  confirmed: "Confirmado",
+  in_production: "Em Produção",
+  quality_check: "Controle de Qualidade",
+  ready: "Pronto",
+  delivered: "Entregue",
+  cancelled: "Cancelado",
+};
+
+export const REQUIRED_FIELD_LABELS: Record<TransitionRequiredField, string> = {
+  cancellation_reason: "motivo do cancelamento",
+  quality_inspection_id: "inspeção de qualidade",
+};
+
+const allStagesCompleted = (order: TransitionOrder) => {
+  const stages = order.production_stages || [];
+  return stages.length > 0 && stages.every((s) => s.status === "completed")
+    ? null
+    : "Todas as etapas de produção precisam estar concluídas";
+};
+
+/**
+ * A última saída do CQ foi uma reprovação: o retrabalho concluído volta ao
+ * controle de qualidade, e não direto para pronto.
+ */
+export function awaitsReinspection(order: TransitionOrder): boolean {
+  const lastInspection = [...(order.status_history || [])]
+    .reverse()
+    .find((change) => change.from === "quality_check");
+  return lastInspection?.to === "in_production";
+}
+
+/** Status do pedido quando todas as etapas de produção terminam. */
+export const finishedProductionStatus = (
+  order: TransitionOrder,
+): OrderStatus => (awaitsReinspection(order) ? "quality_check" : "ready");
+
+const cancel = (
+  from: OrderStatus,
+  permission: StatusTransition["permission"],
+  ownerOnly = false,
+): StatusTransition => ({
+  from,
+  to: "cancelled",
+  label: "Cancelar",
+  color: "bg-red-500",
+  permission,
+  ownerOnly,
+  requiredFields: ["cancellation_reason"],
+  progress: 0,
+});
+
+export const ORDER_STATUS_TRANSITIONS: StatusTransition[] = [
+  {
+    from: "pending",
+    to: "awaiting_approval",
+    label: "Enviar",
+    color: "bg-blue-500",
+    permission: { module: "orders", action: "create" },
+    roles: ["admin", "seller"],
+    ownerOnly: true,
+  },
+  {
+    from: "pending",
+    to: "confirmed",
+    label: "Confirmar",
+    color: "bg-blue-500",
+    permission: { module: "orders", action: "approve" },
+  },
+  cancel("pending", { module: "orders", action: "edit" }, true),
+  {
+    from: "awaiting_approval",
+    to: "confirmed",
+    label: "Confirmar",
+    color: "bg-blue-500",
+    permission: { module: "orders", action: "approve" },
+  },
+  cancel("awaiting_approval", { module: "orders", action: "edit" }, true),
+  {
+    from: "confirmed",
+    to: "in_production",
+    label: "Iniciar Produção",
+    color: "bg-purple-500",
+    permission: { module: "production", action: "edit" },
+    progress: 10,
+  },
+  cancel("confirmed", { module: "orders", action: "approve" }),
+  {
+    from: "in_production",
+    to: "quality_check",
+    label: "CQ",
+    color: "bg-orange-500",
+    permission: { module: "production", action: "edit" },
+    progress: 80,
+  },
+  {
+    from: "in_production",
+    to: "ready",
+    label: "Concluir Produção",
+    color: "bg-green-500",
+    permission: { module: "production", action: "edit" },
+    progress: 100,
+    guard: (order) =>
+      allStagesCompleted(order) ??
+      (awaitsReinspection(order)
+        ? "O pedido reprovado no controle de qualidade precisa de uma nova inspeção"
+        : null),
+  },
+  cancel("in_production", { module: "orders", action: "approve" }),
+  {
+    from: "quality_check",
+    to: "ready",
+    label: "Aprovar",
+    color: "bg-green-500",
+    permission: { module: "production", action: "edit" },
+    requiredFields: ["quality_inspection_id"],
+    progress: 100,
+  },
+  {
+    from: "quality_check",
+    to: "in_production",
+    label: "Reprovar",
+    color: "bg-purple-500",
+    permission: { module: "production", action: "edit" },
+    requiredFields: ["quality_inspection_id"],
+  },
+  cancel("quality_check", { module: "orders", action: "approve" }),
+  {
+    from: "ready",
+    to: "delivered",
+    label: "Entregar",
+    color: "bg-gray-500",
+    permission: { module: "orders", action: "edit" },
+    progress: 100,
+  },
+  cancel("ready", { module: "orders", action: "approve" }),
+];
+
+export class OrderTransitionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "OrderTransitionError";
+  }
+}
+
+/** Mesma regra do checkPermission do useAuth: admin pode tudo. */
+export function actorHasPermission(
+  actor: TransitionActor,
+  module: string,
+  action: string,
+): boolean {
+  if (actor.role === "admin") return true;
+  return (actor.permissions || []).some(
+    (p) => p.module === module && p.actions.includes(action),
+  );
+}
+
+export function findTransition(
+  from: OrderStatus,
+  to: OrderStatus,
+): StatusTransition | undefined {
+  return ORDER_STATUS_TRANSITIONS.find((t) => t.from === from && t.to === to);
+}
+
+function checkActor(
+  transition: StatusTransition,
+  order: TransitionOrder,
+  actor: TransitionActor,
+): string | null {
+  if (transition.roles && !transition.roles.includes(actor.role)) {
+    return "Seu perfil não pode realizar esta mudança de status";
+  }
+  const { module, action } = transition.permission;
+  if (!actorHasPermission(actor, module, action)) {
+    return "Você não tem permissão para esta mudança de status";
+  }
+  if (
+    transition.ownerOnly &&
+    actor.role === "seller" &&
+    order.seller_id !== actor.id
+  ) {
+    return "Apenas o vendedor responsável pode alterar este pedido";
+  }
+  return null;
+}
+
+export type TransitionCheck =
+  | { ok: true; transition: StatusTransition | null }
+  | { ok: false; error: string };
+
+/**
+ * Valida a mudança de `order.status` para `to`. Sem `actor`, apenas a
+ * estrutura do fluxo, os campos obrigatórios e as condições são verificados.
+ */
+export function validateTransition(
+  order: TransitionOrder,
+  to: OrderStatus,
+  actor?: TransitionActor | null,
+  updates: Record<string, any> = {},
+): TransitionCheck {
+  if (order.status === to) return { ok: true, transition: null };
+
+  const transition = findTransition(order.status, to);
+  if (!transition) {
+    return {
+      ok: false,
+      error: `Não é possível mudar de "${ORDER_STATUS_LABELS[order.status] ?? order.status}" para "${ORDER_STATUS_LABELS[to] ?? to}"`,
+    };
+  }
+
+  if (actor) {
+    const actorError = checkActor(transition, order, actor);
+    if (actorError) return { ok: false, error: actorError };
+  }
+
+  const next = { ...order, ...updates };
+  const missing = (transition.requiredFields || []).filter(
+    (field) => !String(next[field] ?? "").trim(),
+  );
+  if (missing.length) {
+    return {
+      ok: false,
+      error: `Informe: ${missing.map((f) => REQUIRED_FIELD_LABELS[f]).join(", ")}`,
+    };
+  }
+
+  const guardError = transition.guard?.(next);
+  if (guardError) return { ok: false, error: guardError };
+
+  return { ok: true, transition };
+}
+
+export function assertTransition(
+  order: TransitionOrder,
+  to: OrderStatus,
+  actor?: TransitionActor | null,
+  updates: Record<string, any> = {},
+): StatusTransition | null {
+  const result = validateTransition(order, to, actor, updates);
+  if (result.ok === false) throw new OrderTransitionError(result.error);
+  return result.transition;
+}
+
+/**
+ * Transições que o usuário pode disparar a partir do status atual (usado
+ * para montar os botões). Campos obrigatórios não são exigidos aqui: a tela
+ * deve pedi-los antes de confirmar.
+ */
+export function getAvailableTransitions(
+  order: TransitionOrder,
+  actor: TransitionActor | null,
+): StatusTransition[] {
+  if (!actor) return [];
+  return ORDER_STATUS_TRANSITIONS.filter(
+    (t) =>
+      t.from === order.status &&
+      !checkActor(t, order, actor) &&
+      !t.guard?.(order),
+  );
+}
+
+/** Campos que acompanham a transição (progresso, data de conclusão...). */
+export function buildTransitionUpdates(
+  transition: StatusTransition,
+  extra: Record<string, any> = {},
+): Record<string, any> {
+  const updates: Record<string, any> = { status: transition.to, ...extra };
+  if (typeof transition.progress === "number") {
+    updates.production_progress = transition.progress;
+  }
+  if (transition.to === "delivered") {
+    updates.completed_date = new Date().toISOString();
+  }
+  // Cada passagem pelo CQ exige uma inspeção nova
+  if (transition.to === "quality_check") {
+    updates.quality_inspection_id = "";
+  }
+  return updates;
+}
+
+/**
+ * Entrada do histórico de status. O histórico só recebe novas entradas;
+ * `comment` guarda, por exemplo, o motivo do cancelamento.
+ */
+export function createStatusChange(
+  from: OrderStatus | null,
+  to: OrderStatus,
+  actor?: { id?: string; name?: string } | null,
+  comment?: string,
+  date: Date = new Date(),
+): OrderStatusChange {
+  const change: OrderStatusChange = {
+    from,
+    to,
+    actor_id: actor?.id || "unknown",
+    actor_name: actor?.name || "Sistema",
+    at: date.toISOString(),
+  };
+  if (comment?.trim()) change.comment = comment.trim();
+  return change;
+}
@@ -0,0 +1,128 @@
+import { describe, it, expect } from "vitest";
+import { fitText, toMonochromeBitmap } from "./labelLayout";
+import { renderZpl, ZplError } from "./zpl";
+
+describe("ZPL renderer", () => {
+  it("renders text, barcodes and boxes in printer dots", () => {
+    const zpl = renderZpl(
+      {
+        widthMm: 50,
+        heightMm: 30,
+        elements: [
+          { type: "text", x: 2, y: 2, value: "Cama ^Luxo_", fontSize: 3 },
+          {
+            type: "text",
+            x: 2,
+            y: 6,
+            value: "PEDIDO",
+            fontSize: 2,
+            width: 46,
+            align: "right",
+            bold: true,
+          },
+          {
+            type: "barcode",
+            x: 2,
+            y: 10,
+            width: 46,
+            height: 15,
+            value: "ORD-2025-0001",
+            symbology: "CODE128",
+          },
+          { type: "box", x: 0, y: 0, width: 50, height: 30 },
+        ],
+      },
+      { copies: 2 },
+    );
+
+    expect(zpl.split("\n")).toEqual([
+      "^XA",
+      "^CI28",
+      "^PW400",
+      "^LL240",
+      "^FO16,16^A0N,24,24^FH^FDCama _5ELuxo_5F^FS",
+      "^FO16,48^A0N,16,16^FB368,1,0,R,0^FH^FDPEDIDO^FS",
+      "^FO17,48^A0N,16,16^FB368,1,0,R,0^FH^FDPEDIDO^FS",
+      "^FO16,80^BY1^BCN,96,Y,N,N,A^FH^FDORD-2025-0001^FS",
+      "^FO0,0^GB400,240,2^FS",
+      "^PQ2",
+      "^XZ",
+    ]);
+  });
+
+  it("renders EAN-13, QR codes and graphic fields", () => {
+    const zpl = renderZpl(
+      {
+        widthMm: 70,
+        heightMm: 40,
+        elements: [
+          {
+            type: "barcode",
+            x: 0,
+            y: 0,
+            width: 40,
+            height: 20,
+            value: "7891234567895",
+            symbology: "EAN13",
+            showText: false,
+          },
+          {
+            type: "barcode",
+            x: 45,
+            y: 0,
+            width: 25,
+            height: 25,
+            value: "OP-42",
+            symbology: "QR",
+          },
+          {
+            type: "image",
+            x: 0,
+            y: 30,
+            width: 5,
+            height: 5,
+            src: "/logo.png",
+            // 10x2 pixels: primeira linha preta, segunda transparente
+            bitmap: toMonochromeBitmap(
+              [
+                ...Array(10).fill([0, 0, 0, 255]).flat(),
+                ...Array(10).fill([0, 0, 0, 0]).flat(),
+              ],
+              10,
+              2,
+            ),
+          },
+        ],
+      },
+      { dpmm: 12 },
+    );
+
+    expect(zpl).toContain("^FO0,0^BY4^BEN,240,N,N^FH^FD789123456789^FS");
+    expect(zpl).toContain("^FO540,0^BQN,2,10^FH^FDMA,OP-42^FS");
+    expect(zpl).toContain("^FO0,360^GFA,4,4,2,FFC00000^FS");
+    expect(zpl).toContain("^PW840");
+
+    expect(() =>
+      renderZpl({
+        widthMm: 50,
+        heightMm: 30,
+        elements: [
+          {
+            type: "barcode",
+            x: 0,
+            y: 0,
+            width: 40,
+            height: 20,
+            value: "ABC",
+            symbology: "EAN13",
+          },
+        ],
+      }),
+    ).toThrow(ZplError);
+  });
+
+  it("fits text to the label width", () => {
+    expect(fitText("Cama Luxo", 2, 20)).toBe("Cama Luxo");
+    expect(fitText("Cama Luxo Premium Queen", 2, 12)).toBe("Cama Lu...");
+  });
+});
@@ -0,0 +1,129 @@
+import { ean13Problem } from "./gtin";
+import {
+  mmToDots,
+  type LabelElement,
+  type LabelLayout,
+  type MonochromeBitmap,
+} from "./labelLayout";
+
+/**
+ * Renderizador ZPL II para impressoras Zebra e compatíveis. Converte o layout
+ * da etiqueta (em mm) para pontos na resolução da impressora.
+ */
+
+export interface ZplOptions {
+  /** Pontos por mm: 8 (203 dpi, padrão) ou 12 (300 dpi) */
+  dpmm?: number;
+  copies?: number;
+}
+
+export class ZplError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ZplError";
+  }
+}
+
+// Altura reservada ao texto legível abaixo das barras
+const BARCODE_TEXT_MM = 3;
+
+const JUSTIFY = { left: "L", center: "C", right: "R" } as const;
+
+const hexEscape = (char: string) =>
+  `_${char.charCodeAt(0).toString(16).toUpperCase()}`;
+
+/** Dados de campo com ^FH: "^", "~" e "_" viram escapes hexadecimais. */
+const fieldData = (value: string) =>
+  `^FH^FD${value.replace(/[_^~]/g, hexEscape)}^FS`;
+
+const clamp = (value: number, min: number, max: number) =>
+  Math.min(max, Math.max(min, Math.floor(value)));
+
+/** Módulos de um CODE128 (conjunto B) com as zonas de silêncio. */
+const code128Modules = (value: string) => 11 * (value.length + 3) + 2 + 20;
+
+/** Módulos por lado do QR Code (versão estimada pelo tamanho do conteúdo, correção M). */
+function qrModules(value: string) {
+  const capacities = [14, 26, 42, 62, 84, 106, 122, 152, 180, 213];
+  const version = capacities.findIndex((capacity) => value.length <= capacity);
+  return 17 + 4 * (version === -1 ? 15 : version + 1);
+}
+
+/** ^GFA com os bytes do bitmap em hexadecimal. */
+export function graphicField(bitmap: MonochromeBitmap) {
+  const total = bitmap.bytesPerRow * bitmap.height;
+  const hex = Array.from(bitmap.data.subarray(0, total), (byte) =>
+    byte.toString(16).padStart(2, "0").toUpperCase(),
+  ).join("");
+  return `^GFA,${total},${total},${bitmap.bytesPerRow},${hex}^FS`;
+}
+
+function elementZpl(element: LabelElement, dpmm: number): string[] {
+  const dots = (mm: number) => mmToDots(mm, dpmm);
+  const origin = (dx = 0) => `^FO${dots(element.x) + dx},${dots(element.y)}`;
+
+  switch (element.type) {
+    case "text": {
+      const size = dots(element.fontSize);
+      const block = element.width
+        ? `^FB${dots(element.width)},1,0,${JUSTIFY[element.align ?? "left"]},0`
+        : "";
+      const field = `^A0N,${size},${size}${block}${fieldData(element.value)}`;
+      // A fonte não tem negrito: imprime de novo deslocado um ponto
+      return element.bold
+        ? [origin() + field, origin(Math.max(1, Math.round(dpmm / 8))) + field]
+        : [origin() + field];
+    }
+    case "barcode": {
+      const width = dots(element.width);
+      if (element.symbology === "QR") {
+        const size = Math.min(width, dots(element.height));
+        const magnification = clamp(size / qrModules(element.value), 1, 10);
+        // "M" = correção de erro média, "A" = modo de entrada automático
+        return [
+          `${origin()}^BQN,2,${magnification}${fieldData(`MA,${element.value}`)}`,
+        ];
+      }
+
+      const showText = element.showText !== false;
+      const barHeight = dots(element.height - (showText ? BARCODE_TEXT_MM : 0));
+      const printText = showText ? "Y" : "N";
+      if (element.symbology === "EAN13") {
+        const problem = ean13Problem(element.value);
+        if (problem) throw new ZplError(problem);
+        // A impressora calcula o dígito verificador a partir dos 12 primeiros
+        const moduleWidth = clamp(width / 113, 1, 10);
+        return [
+          `${origin()}^BY${moduleWidth}^BEN,${barHeight},${printText},N${fieldData(element.value.slice(0, 12))}`,
+        ];
+      }
+      const moduleWidth = clamp(width / code128Modules(element.value), 1, 10);
+      return [
+        `${origin()}^BY${moduleWidth}^BCN,${barHeight},${printText},N,N,A${fieldData(element.value)}`,
+      ];
+    }
+    case "image":
+      // Sem bitmap (imagem ainda não carregada) a imagem fica de fora
+      return element.bitmap ? [origin() + graphicField(element.bitmap)] : [];
+    case "box": {
+      const thickness = Math.max(1, dots(element.thickness ?? 0.25));
+      return [
+        `${origin()}^GB${dots(element.width)},${dots(element.height)},${thickness}^FS`,
+      ];
+    }
+  }
+}
+
+/** ZPL completo da etiqueta, com UTF-8 (^CI28) e a quantidade de cópias. */
+export function renderZpl(layout: LabelLayout, options: ZplOptions = {}) {
+  const dpmm = options.dpmm ?? 8;
+  return [
+    "^XA",
+    "^CI28",
+    `^PW${mmToDots(layout.widthMm, dpmm)}`,
+    `^LL${mmToDots(layout.heightMm, dpmm)}`,
+    ...layout.elements.flatMap((element) => elementZpl(element, dpmm)),
+    `^PQ${Math.max(1, Math.floor(options.copies ?? 1))}`,
+    "^XZ",
+  ].join("\n");
+}
@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 import { defineConfig, Plugin } from "vite";
 import react from "@vitejs/plugin-react-swc";
 import path from "path";
@@ -29,6 +30,10 @@ export default defineConfig(() => ({
     hmr: { clientPort: 8080 },
   },
   plugins: [react(), expressPlugin()],
+  test: {
+    // testes ficam ao lado do código em client/, server/ e shared/
+    dir: __dirname,
+  },
 }));
 
 function expressPlugin(): Plugin {